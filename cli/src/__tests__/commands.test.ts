@@ -1,11 +1,23 @@
 import { describe, expect, test, afterEach } from "bun:test";
 import { configureClientForTesting, type FetchFn } from "../client";
-import { executeVaultList, executeVaultInfo, executeVaultCreate } from "../commands/vault";
+import {
+  executeVaultList,
+  executeVaultInfo,
+  executeVaultCreate,
+  executeVaultLint,
+  executeVaultFix,
+} from "../commands/vault";
 import { executeCapture } from "../commands/capture";
+import {
+  executeTasksAdd,
+  executeTasksEdit,
+  executeTasksDone,
+  executeTasksRollover,
+} from "../commands/tasks";
 import { executeChatSend, executeChatAbort, executeChatHistory } from "../commands/chat";
 import { executeBrowse, executeBrowseRead } from "../commands/browse";
-import { executeSearch } from "../commands/search";
-import { executeCardsDue, executeCardsReview } from "../commands/cards";
+import { executeSearch, executeSearchIndex } from "../commands/search";
+import { executeCardsDue, executeCardsReview, executeCardsOptimize } from "../commands/cards";
 import { executeExtractTrigger, executeExtractStatus } from "../commands/extract";
 import { executeConfigGet, executeConfigSet } from "../commands/config";
 import { executeHealth } from "../commands/health";
@@ -88,6 +100,39 @@ describe("vault commands", () => {
     expect(result.exitCode).toBe(EXIT_SUCCESS);
     expect(postedBody).toContain('"New"');
   });
+
+  test("vault lint calls GET /vaults/:id/lint", async () => {
+    const report = { brokenLinks: [], orphanNotes: ["a.md"], unusedAttachments: [] };
+    cleanup = configureClientForTesting(
+      mockFetch({
+        "/vaults/v1": () => new Response(JSON.stringify({ id: "v1", title: "Test" })),
+        "/vaults/v1/lint": () => new Response(JSON.stringify(report)),
+      }),
+    );
+
+    const result = await executeVaultLint({ vault: "v1" });
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(result.data).toEqual(report);
+  });
+
+  test("vault fix calls POST /vaults/:id/lint/fix", async () => {
+    let method = "";
+    cleanup = configureClientForTesting(
+      mockFetch({
+        "/vaults/v1": () => new Response(JSON.stringify({ id: "v1", title: "Test" })),
+        "/vaults/v1/lint/fix": (init) => {
+          method = init?.method ?? "GET";
+          return new Response(
+            JSON.stringify({ brokenLinks: [], orphanNotes: [], unusedAttachments: [], fixes: [] }),
+          );
+        },
+      }),
+    );
+
+    const result = await executeVaultFix({ vault: "v1" });
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(method).toBe("POST");
+  });
 });
 
 describe("capture command", () => {
@@ -115,6 +160,143 @@ describe("capture command", () => {
     expect(result.exitCode).toBe(EXIT_SUCCESS);
     expect(capturedBody).toContain("hello world");
   });
+
+  test("sends --target as the capture target", async () => {
+    let capturedBody: unknown;
+    cleanup = configureClientForTesting(
+      mockFetch({
+        "/vaults/v1": () => new Response(JSON.stringify({ id: "v1", title: "Test" })),
+        "/vaults/v1/capture": (init) => {
+          capturedBody = JSON.parse(init?.body as string);
+          return new Response(JSON.stringify({ success: true, target: "custom", targetName: "Ideas" }));
+        },
+      }),
+    );
+
+    const result = await executeCapture({ vault: "v1", text: "an idea" }, { target: "Ideas" });
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(capturedBody).toEqual({ text: "an idea", target: "Ideas" });
+  });
+});
+
+describe("tasks commands", () => {
+  let cleanup: () => void;
+
+  afterEach(() => cleanup?.());
+
+  /**
+   * Mocks the vault lookup and records the method and body of task requests.
+   */
+  function recordTaskRequests(requests: { method?: string; body: unknown }[]): FetchFn {
+    return async (path, init) => {
+      if (path === "/vaults/v1") {
+        return new Response(JSON.stringify({ id: "v1", title: "Test" }));
+      }
+      if (path === "/vaults/v1/tasks") {
+        requests.push({ method: init?.method, body: JSON.parse(init?.body as string) });
+        return new Response(JSON.stringify({ success: true, filePath: "a.md", lineNumber: 1, text: "x" }));
+      }
+      return new Response(
+        JSON.stringify({ error: "Not found", code: "NOT_FOUND" }),
+        { status: 404 },
+      );
+    };
+  }
+
+  test("tasks add sends text and flags as task fields", async () => {
+    const requests: { method?: string; body: unknown }[] = [];
+    cleanup = configureClientForTesting(recordTaskRequests(requests));
+
+    const result = await executeTasksAdd(
+      { vault: "v1", text: "Call Bob" },
+      { file: "notes/todo.md", heading: "Today", due: "2026-11-01", priority: "high", repeat: "every week" },
+    );
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(requests).toEqual([
+      {
+        method: "POST",
+        body: {
+          text: "Call Bob",
+          filePath: "notes/todo.md",
+          heading: "Today",
+          dueDate: "2026-11-01",
+          priority: "high",
+          recurrence: "every week",
+        },
+      },
+    ]);
+  });
+
+  test("tasks edit sends changes and clears fields set to none", async () => {
+    const requests: { method?: string; body: unknown }[] = [];
+    cleanup = configureClientForTesting(recordTaskRequests(requests));
+
+    const result = await executeTasksEdit(
+      { vault: "v1", file: "notes/todo.md", line: "3" },
+      { due: "2026-11-02", priority: "none" },
+    );
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(requests[0]).toEqual({
+      method: "PUT",
+      body: { filePath: "notes/todo.md", lineNumber: 3, dueDate: "2026-11-02", priority: null },
+    });
+  });
+
+  test("tasks edit and done send the expected task text", async () => {
+    const requests: { method?: string; body: unknown }[] = [];
+    cleanup = configureClientForTesting(recordTaskRequests(requests));
+
+    await executeTasksEdit({ vault: "v1", file: "a.md", line: "3" }, { text: "Pay the rent", expect: "Pay rent" });
+    await executeTasksDone({ vault: "v1", file: "a.md", line: "3" }, { expect: "Pay the rent" });
+    expect(requests.map((r) => r.body)).toEqual([
+      { filePath: "a.md", lineNumber: 3, expectedText: "Pay rent", text: "Pay the rent" },
+      { filePath: "a.md", lineNumber: 3, newState: "x", expectedText: "Pay the rent" },
+    ]);
+  });
+
+  test("tasks edit requires at least one change", async () => {
+    const result = await executeTasksEdit({ vault: "v1", file: "a.md", line: "1" }, {});
+    expect(result.exitCode).toBe(EXIT_USAGE_ERROR);
+    expect((result.data as { code: string }).code).toBe("NO_CHANGES");
+  });
+
+  test("tasks done marks the task complete", async () => {
+    const requests: { method?: string; body: unknown }[] = [];
+    cleanup = configureClientForTesting(recordTaskRequests(requests));
+
+    const result = await executeTasksDone({ vault: "v1", file: "a.md", line: "7" });
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(requests[0]).toEqual({
+      method: "PATCH",
+      body: { filePath: "a.md", lineNumber: 7, newState: "x" },
+    });
+  });
+
+  test("tasks done rejects an invalid line number", async () => {
+    const result = await executeTasksDone({ vault: "v1", file: "a.md", line: "zero" });
+    expect(result.exitCode).toBe(EXIT_USAGE_ERROR);
+    expect((result.data as { code: string }).code).toBe("INVALID_LINE");
+  });
+
+  test("tasks rollover calls POST /vaults/:id/tasks/rollover", async () => {
+    let method: string | undefined;
+    cleanup = configureClientForTesting(
+      mockFetch({
+        "/vaults/v1": () => new Response(JSON.stringify({ id: "v1", title: "Test" })),
+        "/vaults/v1/tasks/rollover": (init) => {
+          method = init?.method;
+          return new Response(
+            JSON.stringify({ notePath: "00_Inbox/2026-10-19.md", tasks: 2, sources: ["00_Inbox/2026-10-18.md"] }),
+          );
+        },
+      }),
+    );
+
+    const result = await executeTasksRollover({ vault: "v1" });
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(method).toBe("POST");
+    expect((result.data as { tasks: number }).tasks).toBe(2);
+  });
 });
 
 describe("chat commands", () => {
@@ -270,6 +452,44 @@ describe("search command", () => {
     const result = await executeSearch({ vault: "v1", query: "test" }, {});
     expect(result.exitCode).toBe(EXIT_SUCCESS);
   });
+
+  test("search --all calls cross-vault endpoint", async () => {
+    let called = false;
+    cleanup = configureClientForTesting(
+      mockFetch({
+        "/search/content": () => {
+          called = true;
+          return new Response(JSON.stringify({ results: [], totalMatches: 0 }));
+        },
+      }),
+    );
+
+    const result = await executeSearch({ query: "test" }, { all: true });
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(called).toBe(true);
+  });
+
+  test("search without vault or --all is a usage error", async () => {
+    const result = await executeSearch({ query: "test" }, {});
+    expect(result.exitCode).toBe(EXIT_USAGE_ERROR);
+  });
+
+  test("search index calls POST /search/index", async () => {
+    let method: string | undefined;
+    cleanup = configureClientForTesting(
+      mockFetch({
+        "/search/index": (init) => {
+          method = init?.method;
+          return new Response(JSON.stringify({ vaultsIndexed: ["v2"], vaultsSkipped: [] }));
+        },
+      }),
+    );
+
+    const result = await executeSearchIndex();
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(method).toBe("POST");
+    expect((result.data as { vaultsIndexed: string[] }).vaultsIndexed).toEqual(["v2"]);
+  });
 });
 
 describe("cards commands", () => {
@@ -353,6 +573,28 @@ describe("cards commands", () => {
     });
     expect(result.exitCode).toBe(EXIT_USAGE_ERROR);
   });
+
+  test("cards optimize calls POST /vaults/:id/cards/fsrs/optimize", async () => {
+    let method = "";
+    cleanup = configureClientForTesting(async (path, init) => {
+      if (path === "/vaults/v1") {
+        return new Response(JSON.stringify({ id: "v1", title: "Test" }));
+      }
+      if (path === "/vaults/v1/cards/fsrs/optimize") {
+        method = init?.method ?? "GET";
+        return new Response(JSON.stringify({ reviewCount: 120, lossBefore: 0.4, lossAfter: 0.3 }));
+      }
+      return new Response(
+        JSON.stringify({ error: "Not found", code: "NOT_FOUND" }),
+        { status: 404 },
+      );
+    });
+
+    const result = await executeCardsOptimize({ vault: "v1" });
+    expect(result.exitCode).toBe(EXIT_SUCCESS);
+    expect(method).toBe("POST");
+    expect((result.data as { reviewCount: number }).reviewCount).toBe(120);
+  });
 });
 
 describe("extract commands", () => {
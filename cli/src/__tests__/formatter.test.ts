@@ -74,6 +74,39 @@ describe("formatOutput", () => {
     expect(output).toContain("matching line");
   });
 
+  test("human mode notes vaults an all-vault search skipped", () => {
+    const data = {
+      results: [{ path: "notes/test.md", vaultName: "Work" }],
+      totalMatches: 1,
+      vaultsSkipped: ["home", "archive"],
+    };
+    const output = formatOutput(data, humanFlags);
+    expect(output).toContain("2 vaults not indexed yet");
+    expect(output).toContain("memory-loop search index");
+  });
+
+  test("human mode notes skipped vaults when nothing matched", () => {
+    const output = formatOutput({ results: [], totalMatches: 0, vaultsSkipped: ["home"] }, humanFlags);
+    expect(output).toContain("No results found.");
+    expect(output).toContain("1 vault not indexed yet");
+  });
+
+  test("human mode formats lint report", () => {
+    const data = {
+      brokenLinks: [
+        { sourcePath: "index.md", target: "old/Ideas", line: 3, candidates: ["projects/Ideas.md"] },
+      ],
+      orphanNotes: ["lonely.md"],
+      unusedAttachments: [],
+      fixes: [{ from: "a.png", to: "attachments/a.png", referencesUpdated: 2 }],
+    };
+    const output = formatOutput(data, humanFlags);
+    expect(output).toContain("Fixed (1)");
+    expect(output).toContain("index.md:3 old/Ideas -> projects/Ideas.md");
+    expect(output).toContain("Orphan notes (1)");
+    expect(output).toContain("Unused attachments (0)");
+  });
+
   test("human mode formats cards", () => {
     const data = {
       cards: [{ id: "c1", question: "What is X?", dueDate: "2026-03-15" }],
@@ -0,0 +1,322 @@
+import { describe, expect, test, afterEach } from "bun:test";
+import { configureClientForTesting, type FetchFn } from "../client";
+import {
+  handleMcpMessage,
+  runMcpServer,
+  toCommandInput,
+  MCP_PROTOCOL_VERSION,
+  METHOD_NOT_FOUND,
+  INVALID_PARAMS,
+  PARSE_ERROR,
+  type JsonRpcNotification,
+  type JsonRpcResponse,
+  type ToolCallResult,
+} from "../mcp-server";
+import { COMMANDS } from "../registry";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+function sseResponse(events: unknown[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+function inputStream(lines: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(lines.join("\n") + "\n"));
+      controller.close();
+    },
+  });
+}
+
+function collect(): {
+  sent: Array<JsonRpcResponse | JsonRpcNotification>;
+  send: (m: JsonRpcResponse | JsonRpcNotification) => void;
+} {
+  const sent: Array<JsonRpcResponse | JsonRpcNotification> = [];
+  return { sent, send: (m) => sent.push(m) };
+}
+
+function toolText(response: JsonRpcResponse | null): unknown {
+  const result = response!.result as ToolCallResult;
+  return JSON.parse(result.content[0].text);
+}
+
+describe("toCommandInput", () => {
+  const search = COMMANDS.find((c) => c.name === "search")!;
+
+  test("splits args and flags with defaults", () => {
+    const parsed = toCommandInput(search, { vault: "v1", query: "notes" });
+    expect(parsed).toEqual({
+      args: { vault: "v1", query: "notes" },
+      flags: { limit: 20 },
+    });
+  });
+
+  test("coerces flag types", () => {
+    const parsed = toCommandInput(search, { vault: "v1", query: "q", limit: "5" });
+    expect(parsed).toEqual({
+      args: { vault: "v1", query: "q" },
+      flags: { limit: 5 },
+    });
+  });
+
+  test("reports missing required args", () => {
+    const parsed = toCommandInput(search, { vault: "v1" });
+    expect(parsed).toEqual({ error: "Missing required argument: query" });
+  });
+});
+
+describe("handleMcpMessage", () => {
+  let cleanup: (() => void) | undefined;
+
+  afterEach(() => {
+    cleanup?.();
+    cleanup = undefined;
+  });
+
+  test("initialize negotiates protocol and advertises tools", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2024-11-05", capabilities: {} },
+      },
+      send,
+    );
+    const result = response!.result as {
+      protocolVersion: string;
+      capabilities: { tools: object };
+      serverInfo: { name: string };
+    };
+    expect(result.protocolVersion).toBe("2024-11-05");
+    expect(result.capabilities.tools).toBeTruthy();
+    expect(result.serverInfo.name).toBe("memory-loop");
+  });
+
+  test("initialize falls back to latest version for unknown requests", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "1999-01-01" } },
+      send,
+    );
+    expect((response!.result as { protocolVersion: string }).protocolVersion).toBe(
+      MCP_PROTOCOL_VERSION,
+    );
+  });
+
+  test("notifications get no response", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      send,
+    );
+    expect(response).toBeNull();
+  });
+
+  test("unknown methods return METHOD_NOT_FOUND", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      { jsonrpc: "2.0", id: 7, method: "resources/list" },
+      send,
+    );
+    expect(response!.error!.code).toBe(METHOD_NOT_FOUND);
+    expect(response!.id).toBe(7);
+  });
+
+  test("tools/list returns one tool per callable command", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      send,
+    );
+    const { tools } = response!.result as { tools: Array<{ name: string }> };
+    const names = tools.map((t) => t.name);
+    expect(tools.length).toBe(COMMANDS.length - 2);
+    expect(names).toContain("vault_list");
+    expect(names).not.toContain("mcp_serve");
+    expect(names).not.toContain("help");
+  });
+
+  test("tools/call dispatches through the command executors", async () => {
+    const vaults = [{ id: "v1", title: "Test" }];
+    cleanup = configureClientForTesting(async (path) => {
+      if (path === "/vaults") return jsonResponse({ vaults });
+      return jsonResponse({ error: "Not found", code: "NOT_FOUND" }, 404);
+    });
+
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: { name: "vault_list", arguments: {} },
+      },
+      send,
+    );
+    expect((response!.result as ToolCallResult).isError).toBe(false);
+    expect(toolText(response)).toEqual({ vaults });
+  });
+
+  test("tools/call reports daemon errors as tool errors", async () => {
+    cleanup = configureClientForTesting(async () =>
+      jsonResponse({ error: "Vault not found", code: "VAULT_NOT_FOUND" }, 404),
+    );
+
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 4,
+        method: "tools/call",
+        params: { name: "cards_due", arguments: { vault: "missing" } },
+      },
+      send,
+    );
+    expect((response!.result as ToolCallResult).isError).toBe(true);
+  });
+
+  test("tools/call reports connection failures as tool errors", async () => {
+    cleanup = configureClientForTesting(() => {
+      throw new Error("ECONNREFUSED");
+    });
+
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      { jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "health" } },
+      send,
+    );
+    expect((response!.result as ToolCallResult).isError).toBe(true);
+    expect((toolText(response) as { code: string }).code).toBe("CONNECTION_ERROR");
+  });
+
+  test("tools/call validates required arguments", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 6,
+        method: "tools/call",
+        params: { name: "search", arguments: { vault: "v1" } },
+      },
+      send,
+    );
+    expect((response!.result as ToolCallResult).isError).toBe(true);
+  });
+
+  test("tools/call rejects unknown tools", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      { jsonrpc: "2.0", id: 8, method: "tools/call", params: { name: "nope" } },
+      send,
+    );
+    expect(response!.error!.code).toBe(INVALID_PARAMS);
+  });
+
+  test("tools/call refuses to start a nested server", async () => {
+    const { send } = collect();
+    const response = await handleMcpMessage(
+      { jsonrpc: "2.0", id: 9, method: "tools/call", params: { name: "mcp_serve" } },
+      send,
+    );
+    expect((response!.result as ToolCallResult).isError).toBe(true);
+  });
+
+  test("chat_send with stream relays events as progress notifications", async () => {
+    const fetchFn: FetchFn = async (path) => {
+      if (path === "/vaults/v1") return jsonResponse({ id: "v1", path: "/vaults/v1" });
+      if (path === "/session/chat/send") return jsonResponse({ sessionId: "s1" });
+      if (path === "/session/chat/stream") {
+        return sseResponse([
+          { type: "response_start", messageId: "m1" },
+          { type: "response_chunk", messageId: "m1", content: "Hello " },
+          { type: "response_chunk", messageId: "m1", content: "world" },
+          { type: "response_end", messageId: "m1", durationMs: 5 },
+        ]);
+      }
+      return jsonResponse({ error: "Not found", code: "NOT_FOUND" }, 404);
+    };
+    cleanup = configureClientForTesting(fetchFn);
+
+    const { sent, send } = collect();
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 10,
+        method: "tools/call",
+        params: {
+          name: "chat_send",
+          arguments: { vault: "v1", message: "Hi", stream: true },
+          _meta: { progressToken: "tok" },
+        },
+      },
+      send,
+    );
+
+    expect(toolText(response)).toEqual({ sessionId: "s1", response: "Hello world" });
+    expect(sent.length).toBe(4);
+    const first = sent[0] as JsonRpcNotification;
+    expect(first.method).toBe("notifications/progress");
+    expect(first.params).toMatchObject({ progressToken: "tok", progress: 1 });
+    expect((sent[3] as JsonRpcNotification).params).toMatchObject({ progress: 4 });
+  });
+
+  test("streamed session errors mark the tool result as an error", async () => {
+    cleanup = configureClientForTesting(async () =>
+      sseResponse([{ type: "error", code: "SDK_ERROR", message: "boom" }]),
+    );
+
+    const { sent, send } = collect();
+    const response = await handleMcpMessage(
+      {
+        jsonrpc: "2.0",
+        id: 11,
+        method: "tools/call",
+        params: { name: "chat_stream", arguments: { session: "s1" } },
+      },
+      send,
+    );
+
+    expect((response!.result as ToolCallResult).isError).toBe(true);
+    expect(toolText(response)).toEqual({ response: "", error: "boom" });
+    // No progress token, no notifications
+    expect(sent.length).toBe(0);
+  });
+});
+
+describe("runMcpServer", () => {
+  test("answers each line and reports parse errors", async () => {
+    const lines: string[] = [];
+    await runMcpServer(
+      inputStream([
+        JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+        "not json",
+        JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+      ]),
+      (line) => lines.push(line),
+    );
+
+    const messages = lines.map((l) => JSON.parse(l) as JsonRpcResponse);
+    expect(lines.every((l) => l.endsWith("\n"))).toBe(true);
+    expect(messages.length).toBe(2);
+    expect(messages).toContainEqual({ jsonrpc: "2.0", id: 1, result: {} });
+    expect(messages.find((m) => m.error)!.error!.code).toBe(PARSE_ERROR);
+  });
+});
@@ -8,11 +8,10 @@ import {
 
 describe("command registry", () => {
   test("contains all expected commands", () => {
-    // 19 from the plan command table + help + mcp tools + mcp config = 22
-    // but "browse" and "browse read" share the browse group so it's:
-    // vault(3) + capture(1) + chat(4) + browse(2) + search(1) + cards(2) +
-    // extract(2) + config(2) + health(1) + help(1) + mcp(2) = 21
-    expect(COMMANDS.length).toBe(21);
+    // vault(5) + capture(1) + tasks(4) + chat(4) + browse(2) + search(2) +
+    // cards(3) + extract(2) + config(2) + health(1) + help(1) +
+    // mcp(3: tools, config, serve) = 30
+    expect(COMMANDS.length).toBe(30);
   });
 
   test("every command has required metadata", () => {
@@ -42,19 +41,30 @@ describe("command registry", () => {
     expect(groups).toContain("config");
     expect(groups).toContain("health");
     expect(groups).toContain("capture");
+    expect(groups).toContain("tasks");
     expect(groups).toContain("mcp");
     expect(groups).toContain("help");
   });
 
   test("getGroupCommands returns commands for a group", () => {
     const vaultCmds = getGroupCommands("vault");
-    expect(vaultCmds.length).toBe(3);
+    expect(vaultCmds.length).toBe(5);
     expect(vaultCmds.map((c) => c.name)).toEqual([
       "vault list",
       "vault info",
       "vault create",
+      "vault lint",
+      "vault fix",
     ]);
   });
+
+  test("vault lint and vault fix each describe their own endpoint", () => {
+    const lint = COMMANDS.find((c) => c.name === "vault lint")!;
+    const fix = COMMANDS.find((c) => c.name === "vault fix")!;
+    expect(lint.daemonEndpoint).toMatchObject({ method: "GET", path: "/vaults/:vault/lint" });
+    expect(fix.daemonEndpoint).toMatchObject({ method: "POST", path: "/vaults/:vault/lint/fix" });
+    expect(lint.flags).toEqual([]);
+  });
 });
 
 describe("findCommand", () => {
@@ -127,6 +137,16 @@ describe("findCommand", () => {
     expect(result!.flags.limit).toBe(5);
   });
 
+  test("skips optional args when positionals run short", () => {
+    const result = findCommand(["search", "--all", "query"]);
+    expect(result).not.toBeNull();
+    expect(result!.flags.all).toBe(true);
+    expect(result!.args).toEqual({ query: "query" });
+
+    const scoped = findCommand(["search", "my-vault", "query"]);
+    expect(scoped!.args).toEqual({ vault: "my-vault", query: "query" });
+  });
+
   test("returns null for unknown commands", () => {
     expect(findCommand(["nonexistent"])).toBeNull();
     expect(findCommand(["vault", "nonexistent"])).toBeNull();
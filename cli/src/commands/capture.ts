@@ -1,5 +1,6 @@
 /**
- * Capture command: append text to today's daily note
+ * Capture command: append text to today's daily note, or to a named
+ * capture target with --target
  */
 
 import { daemonJson, resolveVault } from "../client";
@@ -8,6 +9,7 @@ import { EXIT_SUCCESS } from "../types";
 
 export async function executeCapture(
   args: Record<string, string>,
+  flags: Record<string, unknown> = {},
 ): Promise<CommandResult> {
   const vaultId = await resolveVault(args.vault);
   let text = args.text;
@@ -33,7 +35,9 @@ export async function executeCapture(
     {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text }),
+      body: JSON.stringify(
+        typeof flags.target === "string" ? { text, target: flags.target } : { text },
+      ),
     },
   );
   return { data, exitCode: EXIT_SUCCESS };
@@ -1,5 +1,5 @@
 /**
- * Cards commands: due, review
+ * Cards commands: due, review, optimize
  */
 
 import { daemonJson, resolveVault } from "../client";
@@ -52,3 +52,14 @@ export async function executeCardsReview(
   );
   return { data, exitCode: EXIT_SUCCESS };
 }
+
+export async function executeCardsOptimize(
+  args: Record<string, string>,
+): Promise<CommandResult> {
+  const vaultId = await resolveVault(args.vault);
+  const data = await daemonJson(
+    `/vaults/${encodeURIComponent(vaultId)}/cards/fsrs/optimize`,
+    { method: "POST" },
+  );
+  return { data, exitCode: EXIT_SUCCESS };
+}
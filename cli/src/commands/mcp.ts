@@ -1,8 +1,9 @@
 /**
- * MCP meta-commands: tools, config
+ * MCP meta-commands: tools, config, serve
  */
 
 import { generateMcpToolDefinitions, generateMcpConfig } from "../mcp";
+import { serveStdio } from "../mcp-server";
 import type { CommandResult } from "../types";
 import { EXIT_SUCCESS } from "../types";
 
@@ -19,3 +20,7 @@ export function executeMcpConfig(): CommandResult {
     exitCode: EXIT_SUCCESS,
   };
 }
+
+export function executeMcpServe(): Promise<CommandResult> {
+  return serveStdio();
+}
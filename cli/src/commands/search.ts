@@ -1,24 +1,49 @@
 /**
- * Search command: full-text content search
+ * Search commands: full-text content search, index
  */
 
 import { daemonJson, resolveVault } from "../client";
 import type { CommandResult } from "../types";
-import { EXIT_SUCCESS } from "../types";
+import { EXIT_SUCCESS, EXIT_USAGE_ERROR } from "../types";
 
 export async function executeSearch(
   args: Record<string, string>,
   flags: Record<string, unknown>,
 ): Promise<CommandResult> {
-  const vaultId = await resolveVault(args.vault);
   const query = encodeURIComponent(args.query);
   const limitValue = flags.limit;
   const limit =
     limitValue !== undefined
       ? `&limit=${typeof limitValue === "string" ? limitValue : JSON.stringify(limitValue)}`
       : "";
+
+  // --all: merged results from every vault, each labelled with its vault
+  if (flags.all === true) {
+    const data = await daemonJson(`/search/content?q=${query}${limit}`);
+    return { data, exitCode: EXIT_SUCCESS };
+  }
+
+  if (!args.vault) {
+    return {
+      data: {
+        error: "Missing vault. Pass a vault ID or name, or --all to search every vault.",
+        code: "MISSING_VAULT",
+      },
+      exitCode: EXIT_USAGE_ERROR,
+    };
+  }
+
+  const vaultId = await resolveVault(args.vault);
   const data = await daemonJson(
     `/vaults/${encodeURIComponent(vaultId)}/search/content?q=${query}${limit}`,
   );
   return { data, exitCode: EXIT_SUCCESS };
 }
+
+/**
+ * Builds the indexes of vaults that `search --all` skips.
+ */
+export async function executeSearchIndex(): Promise<CommandResult> {
+  const data = await daemonJson("/search/index", { method: "POST" });
+  return { data, exitCode: EXIT_SUCCESS };
+}
@@ -0,0 +1,130 @@
+/**
+ * Tasks commands: add, edit, done, rollover
+ */
+
+import { daemonJson, resolveVault } from "../client";
+import type { CommandResult } from "../types";
+import { EXIT_SUCCESS, EXIT_USAGE_ERROR } from "../types";
+
+/** Maps edit flags to the daemon's task fields */
+const EDIT_FIELDS: Record<string, string> = {
+  due: "dueDate",
+  scheduled: "scheduledDate",
+  priority: "priority",
+  repeat: "recurrence",
+};
+
+function invalidLine(line: string): CommandResult {
+  return {
+    data: {
+      error: `Invalid line number: "${line}". Use the 1-indexed line of the task.`,
+      code: "INVALID_LINE",
+    },
+    exitCode: EXIT_USAGE_ERROR,
+  };
+}
+
+function parseLine(line: string): number | null {
+  const lineNumber = Number(line);
+  return Number.isInteger(lineNumber) && lineNumber > 0 ? lineNumber : null;
+}
+
+/** --expect guards a write: the daemon refuses it if the line holds other text */
+function expectedText(flags: Record<string, unknown>): Record<string, unknown> {
+  return typeof flags.expect === "string" ? { expectedText: flags.expect } : {};
+}
+
+export async function executeTasksAdd(
+  args: Record<string, string>,
+  flags: Record<string, unknown>,
+): Promise<CommandResult> {
+  const vaultId = await resolveVault(args.vault);
+  const body: Record<string, unknown> = { text: args.text };
+  if (typeof flags.file === "string") body.filePath = flags.file;
+  if (typeof flags.heading === "string") body.heading = flags.heading;
+  if (typeof flags.due === "string") body.dueDate = flags.due;
+  if (typeof flags.priority === "string") body.priority = flags.priority;
+  if (typeof flags.repeat === "string") body.recurrence = flags.repeat;
+
+  const data = await daemonJson(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+  );
+  return { data, exitCode: EXIT_SUCCESS };
+}
+
+export async function executeTasksEdit(
+  args: Record<string, string>,
+  flags: Record<string, unknown>,
+): Promise<CommandResult> {
+  const lineNumber = parseLine(args.line);
+  if (lineNumber === null) {
+    return invalidLine(args.line);
+  }
+
+  // "none" clears a metadata field
+  const changes: Record<string, unknown> = {};
+  if (typeof flags.text === "string") changes.text = flags.text;
+  for (const [flag, field] of Object.entries(EDIT_FIELDS)) {
+    const value = flags[flag];
+    if (typeof value === "string") {
+      changes[field] = value.toLowerCase() === "none" ? null : value;
+    }
+  }
+  if (Object.keys(changes).length === 0) {
+    return {
+      data: {
+        error: "Nothing to change. Pass --text, --due, --scheduled, --priority, or --repeat.",
+        code: "NO_CHANGES",
+      },
+      exitCode: EXIT_USAGE_ERROR,
+    };
+  }
+
+  const vaultId = await resolveVault(args.vault);
+  const data = await daemonJson(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ filePath: args.file, lineNumber, ...expectedText(flags), ...changes }),
+    },
+  );
+  return { data, exitCode: EXIT_SUCCESS };
+}
+
+export async function executeTasksDone(
+  args: Record<string, string>,
+  flags: Record<string, unknown> = {},
+): Promise<CommandResult> {
+  const lineNumber = parseLine(args.line);
+  if (lineNumber === null) {
+    return invalidLine(args.line);
+  }
+
+  const vaultId = await resolveVault(args.vault);
+  const data = await daemonJson(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ filePath: args.file, lineNumber, newState: "x", ...expectedText(flags) }),
+    },
+  );
+  return { data, exitCode: EXIT_SUCCESS };
+}
+
+export async function executeTasksRollover(
+  args: Record<string, string>,
+): Promise<CommandResult> {
+  const vaultId = await resolveVault(args.vault);
+  const data = await daemonJson(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks/rollover`,
+    { method: "POST" },
+  );
+  return { data, exitCode: EXIT_SUCCESS };
+}
@@ -1,5 +1,5 @@
 /**
- * Vault commands: list, info, create
+ * Vault commands: list, info, create, lint, fix
  */
 
 import { daemonJson, resolveVault } from "../client";
@@ -29,3 +29,21 @@ export async function executeVaultCreate(
   });
   return { data, exitCode: EXIT_SUCCESS };
 }
+
+export async function executeVaultLint(
+  args: Record<string, string>,
+): Promise<CommandResult> {
+  const vaultId = await resolveVault(args.vault);
+  const data = await daemonJson(`/vaults/${encodeURIComponent(vaultId)}/lint`);
+  return { data, exitCode: EXIT_SUCCESS };
+}
+
+export async function executeVaultFix(
+  args: Record<string, string>,
+): Promise<CommandResult> {
+  const vaultId = await resolveVault(args.vault);
+  const data = await daemonJson(`/vaults/${encodeURIComponent(vaultId)}/lint/fix`, {
+    method: "POST",
+  });
+  return { data, exitCode: EXIT_SUCCESS };
+}
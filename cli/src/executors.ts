@@ -0,0 +1,74 @@
+/**
+ * Command executor table.
+ *
+ * Maps registry command names to their executor functions. Shared by the
+ * CLI entry point and the MCP stdio server so both dispatch identically.
+ */
+
+import type { GlobalFlags, CommandResult } from "./types";
+import {
+  executeVaultList,
+  executeVaultInfo,
+  executeVaultCreate,
+  executeVaultLint,
+  executeVaultFix,
+} from "./commands/vault";
+import { executeCapture } from "./commands/capture";
+import {
+  executeTasksAdd,
+  executeTasksEdit,
+  executeTasksDone,
+  executeTasksRollover,
+} from "./commands/tasks";
+import {
+  executeChatSend,
+  executeChatStream,
+  executeChatAbort,
+  executeChatHistory,
+} from "./commands/chat";
+import { executeBrowse, executeBrowseRead } from "./commands/browse";
+import { executeSearch, executeSearchIndex } from "./commands/search";
+import { executeCardsDue, executeCardsReview, executeCardsOptimize } from "./commands/cards";
+import { executeExtractTrigger, executeExtractStatus } from "./commands/extract";
+import { executeConfigGet, executeConfigSet } from "./commands/config";
+import { executeHealth } from "./commands/health";
+import { executeMcpTools, executeMcpConfig, executeMcpServe } from "./commands/mcp";
+
+export type CommandExecutor = (
+  args: Record<string, string>,
+  flags: Record<string, unknown>,
+  globalFlags: GlobalFlags,
+) => Promise<CommandResult> | CommandResult;
+
+export const COMMAND_EXECUTORS: Record<string, CommandExecutor> = {
+  "vault list": () => executeVaultList(),
+  "vault info": (args) => executeVaultInfo(args),
+  "vault create": (args) => executeVaultCreate(args),
+  "vault lint": (args) => executeVaultLint(args),
+  "vault fix": (args) => executeVaultFix(args),
+  capture: (args, flags) => executeCapture(args, flags),
+  "tasks add": (args, flags) => executeTasksAdd(args, flags),
+  "tasks edit": (args, flags) => executeTasksEdit(args, flags),
+  "tasks done": (args, flags) => executeTasksDone(args, flags),
+  "tasks rollover": (args) => executeTasksRollover(args),
+  "chat send": (args, flags, gf) => executeChatSend(args, flags, gf),
+  "chat stream": (args, flags, gf) => executeChatStream(args, flags, gf),
+  "chat abort": (args) => executeChatAbort(args),
+  "chat history": (args) => executeChatHistory(args),
+  browse: (args) => executeBrowse(args),
+  "browse read": (args) => executeBrowseRead(args),
+  search: (args, flags) => executeSearch(args, flags),
+  "search index": () => executeSearchIndex(),
+  "cards due": (args) => executeCardsDue(args),
+  "cards review": (args) => executeCardsReview(args),
+  "cards optimize": (args) => executeCardsOptimize(args),
+  "extract trigger": () => executeExtractTrigger(),
+  "extract status": () => executeExtractStatus(),
+  "config get": (args) => executeConfigGet(args),
+  "config set": (args) => executeConfigSet(args),
+  health: () => executeHealth(),
+  help: () => ({ data: {}, exitCode: 0 }), // Handled specially by the entry point
+  "mcp tools": () => executeMcpTools(),
+  "mcp config": () => executeMcpConfig(),
+  "mcp serve": () => executeMcpServe(),
+};
@@ -150,22 +150,34 @@ function formatFileList(data: { entries?: FileEntry[] }): string {
 
 interface SearchResult {
   path: string;
+  vaultName?: string;
   matches?: { line?: number; content?: string }[];
 }
 
 function formatSearchResults(data: {
   results: SearchResult[];
   totalMatches?: number;
+  vaultsSkipped?: string[];
 }): string {
+  const skipped = data.vaultsSkipped?.length ?? 0;
+  const notice =
+    skipped > 0
+      ? dim(
+          `${skipped} ${skipped === 1 ? "vault" : "vaults"} not indexed yet; run \`memory-loop search index\` to include them`,
+        )
+      : null;
   if (data.results.length === 0) {
-    return dim("No results found.");
+    return notice ? `${dim("No results found.")}\n${notice}` : dim("No results found.");
   }
   const lines: string[] = [];
+  if (notice) {
+    lines.push(notice);
+  }
   if (data.totalMatches !== undefined) {
     lines.push(dim(`${data.totalMatches} matches found`));
   }
   for (const r of data.results) {
-    lines.push(bold(r.path));
+    lines.push(r.vaultName ? `${bold(r.path)} ${dim(`(${r.vaultName})`)}` : bold(r.path));
     if (r.matches) {
       for (const m of r.matches) {
         const lineNum = m.line !== undefined ? dim(`${m.line}:`) : "";
@@ -176,6 +188,38 @@ function formatSearchResults(data: {
   return lines.join("\n");
 }
 
+interface LintReport {
+  brokenLinks: { sourcePath: string; target: string; line: number; candidates: string[] }[];
+  orphanNotes: string[];
+  unusedAttachments: string[];
+  fixes?: { from: string; to: string; referencesUpdated: number }[];
+}
+
+function formatLintReport(data: LintReport): string {
+  const lines: string[] = [];
+  if (data.fixes) {
+    lines.push(bold(`Fixed (${data.fixes.length})`));
+    for (const f of data.fixes) {
+      lines.push(`  ${f.from} ${dim("->")} ${f.to} ${dim(`(${f.referencesUpdated})`)}`);
+    }
+  }
+  lines.push(bold(`Broken links (${data.brokenLinks.length})`));
+  for (const l of data.brokenLinks) {
+    const hint =
+      l.candidates.length === 1
+        ? dim(` -> ${l.candidates[0]}`)
+        : l.candidates.length > 1
+          ? dim(` (${l.candidates.length} candidates)`)
+          : "";
+    lines.push(`  ${dim(`${l.sourcePath}:${l.line}`)} ${red(l.target)}${hint}`);
+  }
+  lines.push(bold(`Orphan notes (${data.orphanNotes.length})`));
+  for (const p of data.orphanNotes) lines.push(`  ${p}`);
+  lines.push(bold(`Unused attachments (${data.unusedAttachments.length})`));
+  for (const p of data.unusedAttachments) lines.push(`  ${p}`);
+  return lines.join("\n");
+}
+
 interface CardItem {
   id: string;
   question?: string;
@@ -233,9 +277,12 @@ export function formatOutput(data: unknown, flags: GlobalFlags): string {
     }
     if ("results" in obj && Array.isArray(obj.results)) {
       return formatSearchResults(
-        obj as { results: SearchResult[]; totalMatches?: number },
+        obj as { results: SearchResult[]; totalMatches?: number; vaultsSkipped?: string[] },
       );
     }
+    if ("brokenLinks" in obj && Array.isArray(obj.brokenLinks)) {
+      return formatLintReport(obj as unknown as LintReport);
+    }
     if ("cards" in obj && Array.isArray(obj.cards)) {
       return formatCardsDue(obj as { cards: CardItem[] });
     }
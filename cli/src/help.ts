@@ -35,6 +35,7 @@ function dim(text: string): string {
 const GROUP_DESCRIPTIONS: Record<string, string> = {
   vault: "Manage vaults",
   capture: "Capture text to daily notes",
+  tasks: "Add and update tasks",
   chat: "AI conversations",
   browse: "Browse vault files",
   search: "Search vault content",
@@ -43,7 +44,7 @@ const GROUP_DESCRIPTIONS: Record<string, string> = {
   config: "Vault configuration",
   health: "Daemon status",
   help: "Show this help",
-  mcp: "MCP tool definitions",
+  mcp: "MCP tool definitions and server",
 };
 
 // ---------------------------------------------------------------------------
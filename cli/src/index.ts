@@ -15,29 +15,9 @@ import {
   isGroupHelpRequest,
 } from "./help";
 import { setConnectionOverrides, DaemonConnectionError, DaemonApiError } from "./client";
-import type { GlobalFlags, CommandResult } from "./types";
+import type { GlobalFlags } from "./types";
 import { EXIT_USAGE_ERROR, EXIT_APP_ERROR, EXIT_CONNECTION_ERROR } from "./types";
-
-// Command executors
-import {
-  executeVaultList,
-  executeVaultInfo,
-  executeVaultCreate,
-} from "./commands/vault";
-import { executeCapture } from "./commands/capture";
-import {
-  executeChatSend,
-  executeChatStream,
-  executeChatAbort,
-  executeChatHistory,
-} from "./commands/chat";
-import { executeBrowse, executeBrowseRead } from "./commands/browse";
-import { executeSearch } from "./commands/search";
-import { executeCardsDue, executeCardsReview } from "./commands/cards";
-import { executeExtractTrigger, executeExtractStatus } from "./commands/extract";
-import { executeConfigGet, executeConfigSet } from "./commands/config";
-import { executeHealth } from "./commands/health";
-import { executeMcpTools, executeMcpConfig } from "./commands/mcp";
+import { COMMAND_EXECUTORS } from "./executors";
 
 // ---------------------------------------------------------------------------
 // Parse global flags and extract command argv
@@ -71,41 +51,6 @@ function parseGlobalFlags(rawArgv: string[]): {
   return { flags, argv };
 }
 
-// ---------------------------------------------------------------------------
-// Command dispatch
-// ---------------------------------------------------------------------------
-
-const COMMAND_EXECUTORS: Record<
-  string,
-  (
-    args: Record<string, string>,
-    flags: Record<string, unknown>,
-    globalFlags: GlobalFlags,
-  ) => Promise<CommandResult> | CommandResult
-> = {
-  "vault list": () => executeVaultList(),
-  "vault info": (args) => executeVaultInfo(args),
-  "vault create": (args) => executeVaultCreate(args),
-  capture: (args) => executeCapture(args),
-  "chat send": (args, flags, gf) => executeChatSend(args, flags, gf),
-  "chat stream": (args, flags, gf) => executeChatStream(args, flags, gf),
-  "chat abort": (args) => executeChatAbort(args),
-  "chat history": (args) => executeChatHistory(args),
-  browse: (args) => executeBrowse(args),
-  "browse read": (args) => executeBrowseRead(args),
-  search: (args, flags) => executeSearch(args, flags),
-  "cards due": (args) => executeCardsDue(args),
-  "cards review": (args) => executeCardsReview(args),
-  "extract trigger": () => executeExtractTrigger(),
-  "extract status": () => executeExtractStatus(),
-  "config get": (args) => executeConfigGet(args),
-  "config set": (args) => executeConfigSet(args),
-  health: () => executeHealth(),
-  help: () => ({ data: {}, exitCode: 0 }), // Handled specially below
-  "mcp tools": () => executeMcpTools(),
-  "mcp config": () => executeMcpConfig(),
-};
-
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
@@ -201,8 +146,8 @@ async function main(): Promise<void> {
       process.exit(result.exitCode);
     }
 
-    // Streaming commands handle their own output
-    if (parsed.command.streaming) {
+    // Streaming commands handle their own output; the MCP server owns stdout
+    if (parsed.command.streaming || parsed.command.name === "mcp serve") {
       return;
     }
 
@@ -0,0 +1,483 @@
+/**
+ * MCP stdio server.
+ *
+ * Speaks newline-delimited JSON-RPC 2.0 over stdin/stdout so agents can use
+ * the `.mcp.json` block produced by generateMcpConfig. Tools are the CLI
+ * commands projected by generateMcpToolDefinitions, minus those that can't
+ * run over MCP (`mcp serve`, `help`), and calls dispatch
+ * through the same executors the CLI uses. Streaming chat output is relayed
+ * as `notifications/progress` when the caller supplies a progress token.
+ *
+ * stdout is reserved for protocol messages. Diagnostics go to stderr.
+ */
+
+import { COMMANDS, type CommandDefinition } from "./registry";
+import { generateMcpToolDefinitions } from "./mcp";
+import { COMMAND_EXECUTORS } from "./executors";
+import { executeChatSend } from "./commands/chat";
+import { daemonSSE, DaemonApiError, DaemonConnectionError } from "./client";
+import type { CommandResult, DaemonError, GlobalFlags } from "./types";
+import { EXIT_SUCCESS, EXIT_APP_ERROR } from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/** Writes one protocol message to the transport. */
+export type McpSend = (message: JsonRpcResponse | JsonRpcNotification) => void;
+
+export interface ToolCallResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Newest protocol revision this server implements. */
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+const SUPPORTED_PROTOCOL_VERSIONS = [
+  "2025-06-18",
+  "2025-03-26",
+  "2024-11-05",
+];
+
+const SERVER_INFO = { name: "memory-loop", version: "0.0.0" };
+
+/** JSON-RPC 2.0 error codes. */
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+/** Tool calls never render human output. */
+const MCP_GLOBAL_FLAGS: GlobalFlags = { human: false };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A JSON-RPC level failure, as opposed to a tool execution error. */
+class McpProtocolError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "McpProtocolError";
+  }
+}
+
+function toolName(cmd: CommandDefinition): string {
+  return cmd.name.replace(/ /g, "_");
+}
+
+function findTool(name: string): CommandDefinition | undefined {
+  return COMMANDS.find((cmd) => toolName(cmd) === name);
+}
+
+/**
+ * Commands with no meaning over MCP: `mcp serve` would nest a server, and
+ * `help` is rendered by the CLI entry point (its executor returns nothing).
+ */
+const MCP_UNSUPPORTED = new Set(["mcp serve", "help"]);
+
+/** Whether a command can be called as a tool */
+function isCallable(cmd: CommandDefinition): boolean {
+  return !MCP_UNSUPPORTED.has(cmd.name) && COMMAND_EXECUTORS[cmd.name] !== undefined;
+}
+
+/** Tool definitions advertised by `tools/list`: only the callable commands */
+function listTools(): ReturnType<typeof generateMcpToolDefinitions> {
+  const callable = new Set(COMMANDS.filter(isCallable).map(toolName));
+  return generateMcpToolDefinitions().filter((tool) => callable.has(tool.name));
+}
+
+function textResult(data: unknown, isError: boolean): ToolCallResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+    isError,
+  };
+}
+
+function errorResult(error: DaemonError): ToolCallResult {
+  return textResult(error, true);
+}
+
+function rpcError(
+  id: JsonRpcId,
+  code: number,
+  message: string,
+): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+/**
+ * Split MCP tool arguments into the positional args and flags that
+ * command executors expect. Returns an error message when a required
+ * argument is missing.
+ */
+export function toCommandInput(
+  cmd: CommandDefinition,
+  input: Record<string, unknown>,
+):
+  | { args: Record<string, string>; flags: Record<string, unknown> }
+  | { error: string } {
+  const args: Record<string, string> = {};
+  const flags: Record<string, unknown> = {};
+
+  for (const argDef of cmd.args) {
+    const value = input[argDef.name];
+    if (value === undefined || value === null) {
+      if (argDef.required) {
+        return { error: `Missing required argument: ${argDef.name}` };
+      }
+      continue;
+    }
+    args[argDef.name] = typeof value === "string" ? value : JSON.stringify(value);
+  }
+
+  for (const flagDef of cmd.flags) {
+    const value = input[flagDef.name] ?? flagDef.default;
+    if (value === undefined) continue;
+    if (flagDef.type === "number") {
+      flags[flagDef.name] = Number(value);
+    } else if (flagDef.type === "boolean") {
+      flags[flagDef.name] = value === true || value === "true";
+    } else {
+      flags[flagDef.name] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+  }
+
+  return { args, flags };
+}
+
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+/**
+ * Follow the session event stream until a terminal event, relaying each
+ * event as a progress notification. Returns the accumulated response text.
+ */
+async function relayChatStream(
+  send: McpSend,
+  progressToken: string | number | undefined,
+): Promise<{ response: string; error?: string }> {
+  let response = "";
+  let error: string | undefined;
+  let progress = 0;
+
+  for await (const event of daemonSSE("/session/chat/stream")) {
+    if (!event.data) continue;
+
+    let eventData: Record<string, unknown>;
+    try {
+      eventData = JSON.parse(event.data) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+
+    if (eventData.type === "response_chunk" && typeof eventData.content === "string") {
+      response += eventData.content;
+    }
+    if (eventData.type === "error") {
+      error = typeof eventData.message === "string" ? eventData.message : "Session error";
+    }
+
+    if (progressToken !== undefined) {
+      progress++;
+      send({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          message: event.data,
+        },
+      });
+    }
+
+    if (
+      eventData.type === "response_end" ||
+      eventData.type === "error" ||
+      eventData.type === "aborted" ||
+      eventData.type === "session_cleared"
+    ) {
+      break;
+    }
+  }
+
+  return { response, error };
+}
+
+// ---------------------------------------------------------------------------
+// Tool dispatch
+// ---------------------------------------------------------------------------
+
+async function executeTool(
+  cmd: CommandDefinition,
+  args: Record<string, string>,
+  flags: Record<string, unknown>,
+  send: McpSend,
+  progressToken: string | number | undefined,
+): Promise<ToolCallResult> {
+  // chat send --stream writes to stdout in the CLI; here the stream is
+  // relayed as notifications and folded into the tool result instead.
+  if (cmd.name === "chat send" && flags.stream) {
+    const sent = await executeChatSend(
+      args,
+      { ...flags, stream: false },
+      MCP_GLOBAL_FLAGS,
+    );
+    if (sent.exitCode !== EXIT_SUCCESS) {
+      return textResult(sent.data, true);
+    }
+    const { sessionId } = sent.data as { sessionId: string };
+    const streamed = await relayChatStream(send, progressToken);
+    return textResult({ sessionId, ...streamed }, streamed.error !== undefined);
+  }
+
+  if (cmd.name === "chat stream") {
+    const streamed = await relayChatStream(send, progressToken);
+    return textResult(streamed, streamed.error !== undefined);
+  }
+
+  if (cmd.name === "capture" && args.text === "-") {
+    return errorResult({
+      error: "Reading capture text from stdin is not supported over MCP",
+      code: "VALIDATION_ERROR",
+    });
+  }
+
+  const executor = COMMAND_EXECUTORS[cmd.name];
+  const result: CommandResult = await executor(args, flags, MCP_GLOBAL_FLAGS);
+  return textResult(result.data, result.exitCode !== EXIT_SUCCESS);
+}
+
+/**
+ * Handle a `tools/call` request. Daemon failures are reported as tool
+ * results with `isError: true` so the agent can see and react to them.
+ */
+export async function callTool(
+  params: Record<string, unknown>,
+  send: McpSend,
+): Promise<ToolCallResult> {
+  const cmd = findTool(params.name as string);
+  if (!cmd) {
+    throw new McpProtocolError(INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+  }
+
+  if (!isCallable(cmd)) {
+    return errorResult({
+      error: `Tool ${toolName(cmd)} cannot be called over MCP`,
+      code: "UNSUPPORTED",
+    });
+  }
+
+  const rawInput = params.arguments;
+  const input =
+    rawInput && typeof rawInput === "object"
+      ? (rawInput as Record<string, unknown>)
+      : {};
+  const parsed = toCommandInput(cmd, input);
+  if ("error" in parsed) {
+    return errorResult({ error: parsed.error, code: "VALIDATION_ERROR" });
+  }
+
+  const meta = params._meta as { progressToken?: string | number } | undefined;
+
+  try {
+    return await executeTool(cmd, parsed.args, parsed.flags, send, meta?.progressToken);
+  } catch (error) {
+    if (error instanceof DaemonConnectionError) {
+      return errorResult({
+        error: "Cannot connect to daemon",
+        code: "CONNECTION_ERROR",
+        detail: error.message,
+      });
+    }
+    if (error instanceof DaemonApiError) {
+      return errorResult(error.errorBody);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return errorResult({ error: message, code: "ERROR" });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Message handling
+// ---------------------------------------------------------------------------
+
+function initialize(params: Record<string, unknown>): unknown {
+  const requested = params.protocolVersion;
+  const protocolVersion =
+    typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : MCP_PROTOCOL_VERSION;
+
+  return {
+    protocolVersion,
+    capabilities: { tools: {} },
+    serverInfo: SERVER_INFO,
+  };
+}
+
+/**
+ * Handle a single decoded JSON-RPC message.
+ *
+ * Returns the response to write, or null for notifications. Progress
+ * notifications emitted during a call are written through `send`.
+ */
+export async function handleMcpMessage(
+  message: unknown,
+  send: McpSend,
+): Promise<JsonRpcResponse | null> {
+  if (
+    !message ||
+    typeof message !== "object" ||
+    Array.isArray(message) ||
+    typeof (message as JsonRpcRequest).method !== "string"
+  ) {
+    return rpcError(null, INVALID_REQUEST, "Invalid request");
+  }
+
+  const request = message as JsonRpcRequest;
+  const isNotification = request.id === undefined;
+  const id = request.id ?? null;
+  const params = request.params ?? {};
+
+  try {
+    let result: unknown;
+    switch (request.method) {
+      case "initialize":
+        result = initialize(params);
+        break;
+      case "ping":
+        result = {};
+        break;
+      case "tools/list":
+        result = { tools: listTools() };
+        break;
+      case "tools/call":
+        result = await callTool(params, send);
+        break;
+      default:
+        // Notifications (initialized, cancelled, ...) need no reply
+        if (isNotification) return null;
+        throw new McpProtocolError(
+          METHOD_NOT_FOUND,
+          `Method not found: ${request.method}`,
+        );
+    }
+    return isNotification ? null : { jsonrpc: "2.0", id, result };
+  } catch (error) {
+    if (isNotification) return null;
+    if (error instanceof McpProtocolError) {
+      return rpcError(id, error.code, error.message);
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    return rpcError(id, INTERNAL_ERROR, detail);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Serve MCP over a byte stream of newline-delimited JSON-RPC messages.
+ *
+ * Requests are handled concurrently so a long streaming chat call does not
+ * block pings or other tool calls. Resolves once input ends and every
+ * in-flight request has been answered.
+ */
+export async function runMcpServer(
+  input: ReadableStream<Uint8Array>,
+  write: (line: string) => void,
+): Promise<void> {
+  const send: McpSend = (message) => write(JSON.stringify(message) + "\n");
+  const inFlight = new Set<Promise<void>>();
+
+  const dispatch = (line: string) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send(rpcError(null, PARSE_ERROR, "Parse error"));
+      return;
+    }
+
+    const task = handleMcpMessage(message, send)
+      .then((response) => {
+        if (response) send(response);
+      })
+      .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  };
+
+  const reader = input.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.trim()) dispatch(line);
+      }
+    }
+    if (buffer.trim()) dispatch(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+
+  await Promise.all(inFlight);
+}
+
+/**
+ * Run the server on process stdin/stdout until stdin closes.
+ */
+export async function serveStdio(): Promise<CommandResult> {
+  try {
+    await runMcpServer(Bun.stdin.stream(), (line) => {
+      process.stdout.write(line);
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`MCP server error: ${message}\n`);
+    return { data: { error: message, code: "MCP_ERROR" }, exitCode: EXIT_APP_ERROR };
+  }
+  return { data: {}, exitCode: EXIT_SUCCESS };
+}
@@ -54,6 +54,24 @@ export interface CommandDefinition {
 // Command definitions
 // ---------------------------------------------------------------------------
 
+/** Report fields shared by vault lint and vault fix */
+const LINT_REPORT_PROPERTIES = {
+  brokenLinks: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        sourcePath: { type: "string" },
+        target: { type: "string" },
+        line: { type: "number" },
+        candidates: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+  orphanNotes: { type: "array", items: { type: "string" } },
+  unusedAttachments: { type: "array", items: { type: "string" } },
+};
+
 export const COMMANDS: CommandDefinition[] = [
   // --- vault ---
   {
@@ -144,11 +162,79 @@ export const COMMANDS: CommandDefinition[] = [
     },
     examples: ['memory-loop vault create "My New Vault"'],
   },
+  {
+    name: "vault lint",
+    description: "Report broken links, orphan notes and unused attachments",
+    group: "vault",
+    args: [
+      {
+        name: "vault",
+        description: "Vault ID or name",
+        required: true,
+        type: "string",
+      },
+    ],
+    flags: [],
+    daemonEndpoint: {
+      method: "GET",
+      path: "/vaults/:vault/lint",
+      pathParams: ["vault"],
+      queryParams: [],
+      bodyParams: [],
+    },
+    outputSchema: {
+      type: "object",
+      description: "Vault lint report",
+      properties: LINT_REPORT_PROPERTIES,
+    },
+    examples: ["memory-loop vault lint my-vault --human"],
+  },
+  {
+    name: "vault fix",
+    description:
+      "Rewrite broken links whose file name matches exactly one file, then report",
+    group: "vault",
+    args: [
+      {
+        name: "vault",
+        description: "Vault ID or name",
+        required: true,
+        type: "string",
+      },
+    ],
+    flags: [],
+    daemonEndpoint: {
+      method: "POST",
+      path: "/vaults/:vault/lint/fix",
+      pathParams: ["vault"],
+      queryParams: [],
+      bodyParams: [],
+    },
+    outputSchema: {
+      type: "object",
+      description: "Vault lint report after the fixes, with the rewrites applied",
+      properties: {
+        ...LINT_REPORT_PROPERTIES,
+        fixes: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from: { type: "string" },
+              to: { type: "string" },
+              referencesUpdated: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    examples: ["memory-loop vault fix my-vault --human"],
+  },
 
   // --- capture ---
   {
     name: "capture",
-    description: "Capture text to today's daily note",
+    description: "Capture text to today's daily note, or to a named capture target with --target",
     group: "capture",
     args: [
       {
@@ -164,13 +250,20 @@ export const COMMANDS: CommandDefinition[] = [
         type: "string",
       },
     ],
-    flags: [],
+    flags: [
+      {
+        name: "target",
+        short: "t",
+        description: "Capture target to write to, by name (configured in the vault settings)",
+        type: "string",
+      },
+    ],
     daemonEndpoint: {
       method: "POST",
       path: "/vaults/:vault/capture",
       pathParams: ["vault"],
       queryParams: [],
-      bodyParams: ["text"],
+      bodyParams: ["text", "target"],
     },
     outputSchema: {
       type: "object",
@@ -182,7 +275,241 @@ export const COMMANDS: CommandDefinition[] = [
     examples: [
       'memory-loop capture my-vault "Quick thought to remember"',
       'echo "piped thought" | memory-loop capture my-vault -',
+      'memory-loop capture my-vault "Project Hail Mary" --target "Reading list"',
+    ],
+  },
+
+  // --- tasks ---
+  {
+    name: "tasks add",
+    description: "Add a task, to today's daily note unless --file is given",
+    group: "tasks",
+    args: [
+      {
+        name: "vault",
+        description: "Vault ID or name",
+        required: true,
+        type: "string",
+      },
+      {
+        name: "text",
+        description: "Task text (Obsidian Tasks metadata like 📅 2026-11-01 is accepted)",
+        required: true,
+        type: "string",
+      },
+    ],
+    flags: [
+      {
+        name: "file",
+        short: "f",
+        description: "Markdown file to add the task to (vault-relative)",
+        type: "string",
+      },
+      {
+        name: "heading",
+        description: "Heading to add the task under (created if missing)",
+        type: "string",
+      },
+      {
+        name: "due",
+        short: "d",
+        description: "Due date (YYYY-MM-DD)",
+        type: "string",
+      },
+      {
+        name: "priority",
+        short: "p",
+        description: "Priority: highest, high, medium, low, lowest",
+        type: "string",
+      },
+      {
+        name: "repeat",
+        short: "r",
+        description: 'Recurrence rule, e.g. "every week"',
+        type: "string",
+      },
+    ],
+    daemonEndpoint: {
+      method: "POST",
+      path: "/vaults/:vault/tasks",
+      pathParams: ["vault"],
+      queryParams: [],
+      bodyParams: ["text", "filePath", "heading", "dueDate", "priority", "recurrence"],
+    },
+    outputSchema: {
+      type: "object",
+      description: "Where the task was written",
+      properties: {
+        filePath: { type: "string" },
+        lineNumber: { type: "number" },
+        text: { type: "string" },
+      },
+    },
+    examples: [
+      'memory-loop tasks add my-vault "Call the dentist" --due 2026-11-01',
+      'memory-loop tasks add my-vault "Review budget" --file 01_Projects/budget.md --heading Tasks -p high',
+    ],
+  },
+  {
+    name: "tasks edit",
+    description: "Edit a task's text and metadata in place",
+    group: "tasks",
+    args: [
+      {
+        name: "vault",
+        description: "Vault ID or name",
+        required: true,
+        type: "string",
+      },
+      {
+        name: "file",
+        description: "File containing the task (vault-relative)",
+        required: true,
+        type: "string",
+      },
+      {
+        name: "line",
+        description: "Line number of the task (1-indexed)",
+        required: true,
+        type: "number",
+      },
+    ],
+    flags: [
+      {
+        name: "text",
+        short: "t",
+        description: "New task text",
+        type: "string",
+      },
+      {
+        name: "due",
+        short: "d",
+        description: 'Due date (YYYY-MM-DD), or "none" to clear',
+        type: "string",
+      },
+      {
+        name: "scheduled",
+        description: 'Scheduled date (YYYY-MM-DD), or "none" to clear',
+        type: "string",
+      },
+      {
+        name: "priority",
+        short: "p",
+        description: 'Priority: highest, high, medium, low, lowest, or "none" to clear',
+        type: "string",
+      },
+      {
+        name: "repeat",
+        short: "r",
+        description: 'Recurrence rule, or "none" to clear',
+        type: "string",
+      },
+      {
+        name: "expect",
+        description: "Task text you expect on the line; the write is refused if the line changed",
+        type: "string",
+      },
+    ],
+    daemonEndpoint: {
+      method: "PUT",
+      path: "/vaults/:vault/tasks",
+      pathParams: ["vault"],
+      queryParams: [],
+      bodyParams: ["filePath", "lineNumber", "expectedText", "text", "dueDate", "scheduledDate", "priority", "recurrence"],
+    },
+    outputSchema: {
+      type: "object",
+      description: "The task's new text and location",
+      properties: {
+        filePath: { type: "string" },
+        lineNumber: { type: "number" },
+        text: { type: "string" },
+      },
+    },
+    examples: [
+      "memory-loop tasks edit my-vault 00_Inbox/2026-10-19.md 12 --due 2026-10-24",
+      "memory-loop tasks edit my-vault notes/todo.md 3 --priority none --repeat none",
+    ],
+  },
+  {
+    name: "tasks done",
+    description: "Mark a task complete",
+    group: "tasks",
+    args: [
+      {
+        name: "vault",
+        description: "Vault ID or name",
+        required: true,
+        type: "string",
+      },
+      {
+        name: "file",
+        description: "File containing the task (vault-relative)",
+        required: true,
+        type: "string",
+      },
+      {
+        name: "line",
+        description: "Line number of the task (1-indexed)",
+        required: true,
+        type: "number",
+      },
+    ],
+    flags: [
+      {
+        name: "expect",
+        description: "Task text you expect on the line; the write is refused if the line changed",
+        type: "string",
+      },
     ],
+    daemonEndpoint: {
+      method: "PATCH",
+      path: "/vaults/:vault/tasks",
+      pathParams: ["vault"],
+      queryParams: [],
+      bodyParams: ["filePath", "lineNumber", "newState", "expectedText"],
+    },
+    outputSchema: {
+      type: "object",
+      description: "New task state, and the next occurrence for recurring tasks",
+      properties: {
+        newState: { type: "string" },
+        nextTask: { type: "object" },
+      },
+    },
+    examples: ["memory-loop tasks done my-vault 00_Inbox/2026-10-19.md 12"],
+  },
+  {
+    name: "tasks rollover",
+    description:
+      "Roll unfinished tasks from earlier daily notes into today's note, using the vault's rollover settings",
+    group: "tasks",
+    args: [
+      {
+        name: "vault",
+        description: "Vault ID or name",
+        required: true,
+        type: "string",
+      },
+    ],
+    flags: [],
+    daemonEndpoint: {
+      method: "POST",
+      path: "/vaults/:vault/tasks/rollover",
+      pathParams: ["vault"],
+      queryParams: [],
+      bodyParams: [],
+    },
+    outputSchema: {
+      type: "object",
+      description: "Today's note, how many tasks were rolled over, and the notes they came from",
+      properties: {
+        notePath: { type: "string" },
+        tasks: { type: "number" },
+        sources: { type: "array", items: { type: "string" } },
+      },
+    },
+    examples: ["memory-loop tasks rollover my-vault"],
   },
 
   // --- chat ---
@@ -415,13 +742,14 @@ export const COMMANDS: CommandDefinition[] = [
     args: [
       {
         name: "vault",
-        description: "Vault ID or name",
-        required: true,
+        description: "Vault ID or name (required unless --all)",
+        required: false,
         type: "string",
       },
       {
         name: "query",
-        description: "Search query",
+        description:
+          'Search query. Supports "phrases", -exclusions, tag:, path:, after:/before: (YYYY-MM-DD) and has:task',
         required: true,
         type: "string",
       },
@@ -434,6 +762,12 @@ export const COMMANDS: CommandDefinition[] = [
         type: "number",
         default: 20,
       },
+      {
+        name: "all",
+        short: "a",
+        description: "Search every vault; results include vaultId and vaultName",
+        type: "boolean",
+      },
     ],
     daemonEndpoint: {
       method: "GET",
@@ -453,17 +787,49 @@ export const COMMANDS: CommandDefinition[] = [
             properties: {
               path: { type: "string" },
               context: { type: "string" },
+              vaultId: { type: "string" },
+              vaultName: { type: "string" },
             },
           },
         },
         totalMatches: { type: "number" },
+        vaultsSkipped: {
+          type: "array",
+          description: "With --all, vaults left out because their index isn't built (see search index)",
+          items: { type: "string" },
+        },
       },
     },
     examples: [
       'memory-loop search my-vault "meeting notes"',
       'memory-loop search my-vault "project plan" --limit 5',
+      'memory-loop search my-vault "roadmap tag:#project path:01_Projects/ after:2026-01-01"',
+      'memory-loop search --all "quarterly review"',
     ],
   },
+  {
+    name: "search index",
+    description: "Index the vaults that search --all skips",
+    group: "search",
+    args: [],
+    flags: [],
+    daemonEndpoint: {
+      method: "POST",
+      path: "/search/index",
+      pathParams: [],
+      queryParams: [],
+      bodyParams: [],
+    },
+    outputSchema: {
+      type: "object",
+      description: "Vaults indexed, and vaults still skipped because the search cache is full",
+      properties: {
+        vaultsIndexed: { type: "array", items: { type: "string" } },
+        vaultsSkipped: { type: "array", items: { type: "string" } },
+      },
+    },
+    examples: ["memory-loop search index"],
+  },
 
   // --- cards ---
   {
@@ -543,6 +909,39 @@ export const COMMANDS: CommandDefinition[] = [
     },
     examples: ['memory-loop cards review my-vault card-123 good'],
   },
+  {
+    name: "cards optimize",
+    description: "Fit FSRS scheduling parameters to the vault's review history",
+    group: "cards",
+    args: [
+      {
+        name: "vault",
+        description: "Vault ID or name",
+        required: true,
+        type: "string",
+      },
+    ],
+    flags: [],
+    daemonEndpoint: {
+      method: "POST",
+      path: "/vaults/:vault/cards/fsrs/optimize",
+      pathParams: ["vault"],
+      queryParams: [],
+      bodyParams: [],
+    },
+    outputSchema: {
+      type: "object",
+      description: "Fitted parameters and how well they predict past reviews",
+      properties: {
+        parameters: { type: "array", items: { type: "number" } },
+        cardCount: { type: "number" },
+        reviewCount: { type: "number" },
+        lossBefore: { type: "number" },
+        lossAfter: { type: "number" },
+      },
+    },
+    examples: ["memory-loop cards optimize my-vault"],
+  },
 
   // --- extract ---
   {
@@ -735,6 +1134,20 @@ export const COMMANDS: CommandDefinition[] = [
     },
     examples: ["memory-loop mcp config"],
   },
+  {
+    name: "mcp serve",
+    description:
+      "Run a stdio MCP server exposing these commands as tools (JSON-RPC over stdin/stdout)",
+    group: "mcp",
+    args: [],
+    flags: [],
+    daemonEndpoint: null,
+    outputSchema: {
+      type: "object",
+      description: "No output; runs until stdin closes",
+    },
+    examples: ["memory-loop mcp serve"],
+  },
 ];
 
 // ---------------------------------------------------------------------------
@@ -787,7 +1200,7 @@ function parseArgs(
     }
   }
 
-  let argIndex = 0;
+  const positionals: string[] = [];
 
   for (let i = 0; i < rest.length; i++) {
     const token = rest[i];
@@ -815,12 +1228,24 @@ function parseArgs(
         }
       }
     } else {
-      // Positional argument
-      if (argIndex < cmd.args.length) {
-        args[cmd.args[argIndex].name] = token;
-        argIndex++;
-      }
+      positionals.push(token);
+    }
+  }
+
+  // Assign positionals in order. When there are fewer positionals than
+  // args, optional args are skipped so required ones still get filled
+  // (e.g. `search --all <query>` leaves the optional vault unset).
+  const requiredCount = cmd.args.filter((a) => a.required).length;
+  let optionalSlots = positionals.length - requiredCount;
+  let argIndex = 0;
+  for (const argDef of cmd.args) {
+    if (argIndex >= positionals.length) break;
+    if (!argDef.required) {
+      if (optionalSlots <= 0) continue;
+      optionalSlots--;
     }
+    args[argDef.name] = positionals[argIndex];
+    argIndex++;
   }
 
   return { command: cmd, args, flags };
@@ -7,9 +7,10 @@
  */
 
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
+import { formatDateForFilename } from "@memory-loop/shared";
 import { createApp } from "../server";
 import { initVaultCache, resetCache } from "../vault";
 
@@ -187,6 +188,36 @@ describe("File Operations Integration", () => {
       expect(readRes.status).toBe(404);
     });
 
+    test("GET /vaults/:id/trash lists the deleted file and restore brings it back", async () => {
+      const listRes = await request("GET", `/vaults/${VAULT_ID}/trash`);
+      expect(listRes.status).toBe(200);
+
+      const list = (await listRes.json()) as {
+        items: Array<{ id: string; originalPath: string; isDirectory: boolean }>;
+        retentionDays: number;
+      };
+      expect(list.retentionDays).toBe(30);
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0]).toMatchObject({ originalPath: "notes/renamed.md", isDirectory: false });
+
+      const restoreRes = await request("POST", `/vaults/${VAULT_ID}/trash/${list.items[0].id}/restore`);
+      expect(restoreRes.status).toBe(200);
+      expect(await restoreRes.json()).toEqual({ success: true, path: "notes/renamed.md", isDirectory: false });
+
+      const readRes = await request("GET", `/vaults/${VAULT_ID}/files/notes/renamed.md`);
+      expect(readRes.status).toBe(200);
+
+      // Delete again and empty the trash
+      await request("DELETE", `/vaults/${VAULT_ID}/files/notes/renamed.md`);
+      const emptyRes = await request("DELETE", `/vaults/${VAULT_ID}/trash`);
+      expect(await emptyRes.json()).toEqual({ success: true, deleted: 1 });
+    });
+
+    test("POST /vaults/:id/trash/:itemId/restore returns 404 for unknown items", async () => {
+      const res = await request("POST", `/vaults/${VAULT_ID}/trash/missing/restore`);
+      expect(res.status).toBe(404);
+    });
+
     test("GET /vaults/:id/files/* reads an existing fixture file", async () => {
       const res = await request("GET", `/vaults/${VAULT_ID}/files/notes/hello.md`);
       expect(res.status).toBe(200);
@@ -334,6 +365,84 @@ describe("File Operations Integration", () => {
       // Tasks are scanned from 00_Inbox (default inbox path)
       // The exact structure depends on the task manager, but it should return 200
     });
+
+    test("POST /vaults/:id/tasks adds to today's daily note by default", async () => {
+      const res = await request("POST", `/vaults/${VAULT_ID}/tasks`, {
+        text: "Call the dentist",
+        dueDate: "2026-11-01",
+      });
+      expect(res.status).toBe(201);
+
+      const body = (await res.json()) as { filePath: string; text: string };
+      expect(body.filePath).toBe(`00_Inbox/${formatDateForFilename(new Date())}.md`);
+      expect(body.text).toBe("Call the dentist 📅 2026-11-01");
+
+      const content = await readFile(
+        join(testVaultsDir, VAULT_ID, "content", body.filePath),
+        "utf-8",
+      );
+      expect(content).toContain("- [ ] Call the dentist 📅 2026-11-01");
+    });
+
+    test("PUT /vaults/:id/tasks edits a task in place", async () => {
+      const res = await request("PUT", `/vaults/${VAULT_ID}/tasks`, {
+        filePath: "notes/tasks.md",
+        lineNumber: 3,
+        priority: "high",
+      });
+      expect(res.status).toBe(200);
+
+      const body = (await res.json()) as { text: string };
+      expect(body.text).toBe("Buy groceries ⏫");
+    });
+
+    test("POST /vaults/:id/tasks/move moves a task, then DELETE removes it", async () => {
+      const moved = await request("POST", `/vaults/${VAULT_ID}/tasks/move`, {
+        filePath: "notes/tasks.md",
+        lineNumber: 5,
+        toFilePath: "notes/hello.md",
+        heading: "Follow-ups",
+      });
+      expect(moved.status).toBe(200);
+
+      const body = (await moved.json()) as { filePath: string; lineNumber: number };
+      expect(body.filePath).toBe("notes/hello.md");
+
+      const deleted = await request(
+        "DELETE",
+        `/vaults/${VAULT_ID}/tasks?filePath=notes%2Fhello.md&lineNumber=${body.lineNumber}`,
+      );
+      expect(deleted.status).toBe(200);
+
+      const content = await readFile(
+        join(testVaultsDir, VAULT_ID, "content", "notes", "hello.md"),
+        "utf-8",
+      );
+      expect(content).toContain("## Follow-ups");
+      expect(content).not.toContain("Review PR");
+    });
+
+    test("task writes reject invalid requests", async () => {
+      const badRule = await request("POST", `/vaults/${VAULT_ID}/tasks`, {
+        text: "Sometimes",
+        recurrence: "now and then",
+      });
+      expect(badRule.status).toBe(400);
+      expect(((await badRule.json()) as { code: string }).code).toBe("INVALID_REQUEST");
+
+      const missingLine = await request("PUT", `/vaults/${VAULT_ID}/tasks`, {
+        filePath: "notes/tasks.md",
+      });
+      expect(missingLine.status).toBe(400);
+
+      const notATask = await request("PUT", `/vaults/${VAULT_ID}/tasks`, {
+        filePath: "notes/tasks.md",
+        lineNumber: 1,
+        text: "Nope",
+      });
+      expect(notATask.status).toBe(400);
+      expect(((await notATask.json()) as { code: string }).code).toBe("TASK_WRITE_FAILED");
+    });
   });
 
   // ===========================================================================
@@ -406,6 +515,17 @@ describe("File Operations Integration", () => {
       const body = (await res.json()) as { totalMatches: number };
       expect(body.totalMatches).toBe(0);
     });
+
+    test("GET /vaults/:id/search/content rejects malformed filters", async () => {
+      const res = await request(
+        "GET",
+        `/vaults/${VAULT_ID}/search/content?q=${encodeURIComponent("notes after:last-week")}`,
+      );
+      expect(res.status).toBe(400);
+
+      const body = (await res.json()) as { code: string };
+      expect(body.code).toBe("INVALID_QUERY");
+    });
   });
 
   // ===========================================================================
@@ -8,13 +8,16 @@
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
 import { mkdtemp, writeFile, mkdir, rm } from "node:fs/promises";
 import { join } from "node:path";
+import type { PreToolUseHookInput } from "@anthropic-ai/claude-agent-sdk";
 import {
   prepareTurnOptions,
+  createFileHistoryHook,
   DISCUSSION_MODE_OPTIONS,
   resumeSession,
   saveSession,
   SessionError,
 } from "../session-manager";
+import { listVersions } from "../files/file-history";
 import type { SessionMetadata } from "@memory-loop/shared";
 
 let tempDir: string;
@@ -118,6 +121,68 @@ describe("prepareTurnOptions", () => {
     // cwd from vaultPath takes precedence (it's spread after additionalOptions)
     expect(options.cwd).toBe(tempDir);
   });
+
+  test("adds a file history hook for edit tools alongside caller hooks", async () => {
+    const callerHook = { hooks: [() => Promise.resolve({ continue: true })] };
+    const options = await prepareTurnOptions({
+      vaultPath: tempDir,
+      additionalOptions: { hooks: { PreToolUse: [callerHook] } },
+    });
+
+    const matchers = options.hooks!.PreToolUse!;
+    expect(matchers[0]).toBe(callerHook);
+    expect(matchers[1].matcher).toContain("Edit");
+    expect(matchers[1].matcher).toContain("Write");
+  });
+});
+
+// =============================================================================
+// File history hook
+// =============================================================================
+
+describe("createFileHistoryHook", () => {
+  function preToolUse(filePath: string): PreToolUseHookInput {
+    return {
+      session_id: "sess-1",
+      transcript_path: "",
+      cwd: tempDir,
+      hook_event_name: "PreToolUse",
+      tool_name: "Edit",
+      tool_input: { file_path: filePath },
+      tool_use_id: "tool-1",
+    };
+  }
+
+  test("snapshots a content file before it is edited", async () => {
+    const vault = { path: tempDir, contentRoot: join(tempDir, "content") };
+    await mkdir(vault.contentRoot);
+    await writeFile(join(vault.contentRoot, "note.md"), "before AI");
+    const hook = createFileHistoryHook(vault);
+
+    const result = await hook(preToolUse(join(vault.contentRoot, "note.md")), "tool-1", {
+      signal: new AbortController().signal,
+    });
+
+    expect(result).toEqual({ continue: true });
+    const { versions } = await listVersions(vault, "note.md");
+    expect(versions).toHaveLength(1);
+    expect(versions[0].source).toBe("ai");
+  });
+
+  test("ignores files outside the content root and hidden files", async () => {
+    const vault = { path: tempDir, contentRoot: join(tempDir, "content") };
+    await mkdir(join(vault.contentRoot, ".obsidian"), { recursive: true });
+    await writeFile(join(tempDir, "CLAUDE.md"), "instructions");
+    await writeFile(join(vault.contentRoot, ".obsidian", "app.json"), "{}");
+    const hook = createFileHistoryHook(vault);
+    const options = { signal: new AbortController().signal };
+
+    await hook(preToolUse(join(tempDir, "CLAUDE.md")), "tool-1", options);
+    await hook(preToolUse(join(vault.contentRoot, ".obsidian", "app.json")), "tool-1", options);
+
+    expect((await listVersions(vault, "../CLAUDE.md")).versions).toEqual([]);
+    expect((await listVersions(vault, ".obsidian/app.json")).versions).toEqual([]);
+  });
 });
 
 // =============================================================================
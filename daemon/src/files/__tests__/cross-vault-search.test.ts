@@ -0,0 +1,198 @@
+/**
+ * Cross-Vault Search Tests
+ *
+ * Unit tests for result merging and integration tests for fan-out
+ * over real temp vaults.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { ContentSearchResult, FileSearchResult } from "@memory-loop/shared";
+import { createMockVault } from "./test-helpers";
+import {
+  mergeFileResults,
+  mergeContentResults,
+  searchFilesAcrossVaults,
+  searchContentAcrossVaults,
+  indexVaults,
+} from "../search/cross-vault-search";
+import {
+  clearCache,
+  configureSearchCache,
+  getCachedIndex,
+  getOrCreateIndex,
+} from "../search/search-cache";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function fileResult(path: string, score: number): FileSearchResult {
+  return { path, name: path, score, matchPositions: [] };
+}
+
+function contentResult(path: string, matchCount: number, score?: number): ContentSearchResult {
+  return { path, name: path, matchCount, ...(score !== undefined && { score }) };
+}
+
+const work = createMockVault({ id: "work", name: "Work" });
+const personal = createMockVault({ id: "personal", name: "Personal" });
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+describe("mergeFileResults", () => {
+  test("ranks by fuzzy score across vaults and labels results", () => {
+    const merged = mergeFileResults(
+      [
+        { vault: work, results: [fileResult("a.md", 5), fileResult("b.md", 1)] },
+        { vault: personal, results: [fileResult("c.md", 3)] },
+      ],
+      10
+    );
+    expect(merged.map((r) => [r.vaultId, r.path])).toEqual([
+      ["work", "a.md"],
+      ["personal", "c.md"],
+      ["work", "b.md"],
+    ]);
+    expect(merged[1].vaultName).toBe("Personal");
+  });
+
+  test("applies the limit to the merged list", () => {
+    const merged = mergeFileResults(
+      [
+        { vault: work, results: [fileResult("a.md", 5)] },
+        { vault: personal, results: [fileResult("c.md", 3)] },
+      ],
+      1
+    );
+    expect(merged.map((r) => r.path)).toEqual(["a.md"]);
+  });
+});
+
+describe("mergeContentResults", () => {
+  test("normalizes relevance per vault", () => {
+    // Personal's best hit scores lower in absolute terms but is its vault's top result
+    const merged = mergeContentResults(
+      [
+        { vault: work, results: [contentResult("w1.md", 1, 20), contentResult("w2.md", 1, 5)] },
+        { vault: personal, results: [contentResult("p1.md", 1, 2), contentResult("p2.md", 1, 1.5)] },
+      ],
+      10
+    );
+    expect(merged.map((r) => r.path)).toEqual(["w1.md", "p1.md", "p2.md", "w2.md"]);
+  });
+
+  test("ranks unscored results by position and breaks ties by match count", () => {
+    const merged = mergeContentResults(
+      [
+        { vault: work, results: [contentResult("w1.md", 1), contentResult("w2.md", 1)] },
+        { vault: personal, results: [contentResult("p1.md", 3), contentResult("p2.md", 1)] },
+      ],
+      10
+    );
+    expect(merged.map((r) => r.path)).toEqual(["p1.md", "w1.md", "w2.md", "p2.md"]);
+  });
+});
+
+// =============================================================================
+// Fan-out
+// =============================================================================
+
+describe("fan-out over vaults", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `cross-vault-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "work"), { recursive: true });
+    await mkdir(join(testDir, "personal"), { recursive: true });
+    await writeFile(join(testDir, "work", "roadmap.md"), "# Roadmap\n\nQuarterly planning for kayak launch");
+    await writeFile(join(testDir, "personal", "trips.md"), "# Trips\n\nBuy a kayak");
+    await writeFile(join(testDir, "personal", "groceries.md"), "# Groceries\n\nMilk");
+    clearCache();
+  });
+
+  afterEach(async () => {
+    clearCache();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  function vaults() {
+    return [
+      createMockVault({ id: "work", name: "Work", path: join(testDir, "work") }),
+      createMockVault({ id: "personal", name: "Personal", path: join(testDir, "personal") }),
+    ];
+  }
+
+  async function buildIndexes(): Promise<void> {
+    for (const vault of vaults()) {
+      await getOrCreateIndex(vault.id, vault.contentRoot).rebuildIndex();
+    }
+  }
+
+  test("content search returns matches from every indexed vault", async () => {
+    await buildIndexes();
+    const { results, vaultsSearched, vaultsSkipped } = await searchContentAcrossVaults(vaults(), "kayak");
+    expect(results.map((r) => `${r.vaultId}:${r.path}`).sort()).toEqual([
+      "personal:trips.md",
+      "work:roadmap.md",
+    ]);
+    expect(vaultsSearched).toBe(2);
+    expect(vaultsSkipped).toEqual([]);
+  });
+
+  test("file search returns matches from every indexed vault", async () => {
+    await buildIndexes();
+    const { results } = await searchFilesAcrossVaults(vaults(), "ro");
+    expect(results.map((r) => `${r.vaultId}:${r.path}`)).toContain("work:roadmap.md");
+    expect(results.map((r) => `${r.vaultId}:${r.path}`)).toContain("personal:groceries.md");
+  });
+
+  test("skips vaults whose index isn't built without building it", async () => {
+    const [work] = vaults();
+    await getOrCreateIndex(work.id, work.contentRoot).rebuildIndex();
+
+    const { results, vaultsSearched, vaultsSkipped } = await searchContentAcrossVaults(vaults(), "kayak");
+    expect(results.map((r) => r.vaultId)).toEqual(["work"]);
+    expect(vaultsSearched).toBe(1);
+    expect(vaultsSkipped).toEqual(["personal"]);
+    expect(getOrCreateIndex("personal", join(testDir, "personal")).isIndexBuilt()).toBe(false);
+  });
+
+  test("leaves vaults whose search fails out of the results and count", async () => {
+    await buildIndexes();
+    const [work, personal] = vaults();
+    const index = getOrCreateIndex(personal.id, personal.contentRoot);
+    index.searchContent = () => Promise.reject(new Error("disk gone"));
+
+    const { results, vaultsSearched } = await searchContentAcrossVaults([work, personal], "kayak");
+    expect(results.map((r) => r.vaultId)).toEqual(["work"]);
+    expect(vaultsSearched).toBe(1);
+  });
+
+  test("indexVaults builds skipped vaults so they join the next search", async () => {
+    const [work] = vaults();
+    await getOrCreateIndex(work.id, work.contentRoot).rebuildIndex();
+
+    const indexed = await indexVaults(vaults());
+    expect(indexed).toEqual({ vaultsIndexed: ["personal"], vaultsSkipped: [] });
+
+    const { results, vaultsSkipped } = await searchContentAcrossVaults(vaults(), "kayak");
+    expect(results.map((r) => r.vaultId).sort()).toEqual(["personal", "work"]);
+    expect(vaultsSkipped).toEqual([]);
+  });
+
+  test("indexVaults stops once the search cache is full", async () => {
+    configureSearchCache({ maxVaults: 1 });
+    try {
+      const indexed = await indexVaults(vaults());
+      expect(indexed).toEqual({ vaultsIndexed: ["work"], vaultsSkipped: ["personal"] });
+      expect(getCachedIndex("personal")).toBeUndefined();
+    } finally {
+      configureSearchCache({});
+    }
+  });
+});
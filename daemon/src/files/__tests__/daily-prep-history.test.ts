@@ -0,0 +1,162 @@
+/**
+ * Daily Prep History Tests
+ *
+ * Tests aggregating daily prep files into completion trends and streaks.
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { VaultInfo } from "@memory-loop/shared";
+import {
+  aggregateDailyPrepDays,
+  computeStreaks,
+  getDailyPrepHistory,
+  type DailyPrepDaySummary,
+} from "../daily-prep-history";
+import { DAILY_PREP_DIR } from "../daily-prep-manager";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createTestVault(testDir: string): VaultInfo {
+  return {
+    id: "test-vault",
+    name: "Test Vault",
+    path: testDir,
+    hasClaudeMd: true,
+    contentRoot: testDir,
+    inboxPath: "00_Inbox",
+    metadataPath: "06_Metadata/memory-loop",
+    attachmentPath: "05_Attachments",
+    setupComplete: true,
+    discussionModel: "opus",
+    promptsPerGeneration: 5,
+    maxPoolSize: 50,
+    quotesPerWeek: 1,
+    recentCaptures: 5,
+    recentDiscussions: 5,
+    badges: [],
+    order: 0,
+    cardsEnabled: true,
+    viMode: false,
+  };
+}
+
+function day(date: string, counts: Partial<DailyPrepDaySummary> = {}): DailyPrepDaySummary {
+  return {
+    date,
+    weekday: new Date(`${date}T12:00:00`).getDay(),
+    closed: true,
+    commitments: 0,
+    done: 0,
+    partial: 0,
+    blocked: 0,
+    skipped: 0,
+    unassessed: 0,
+    ...counts,
+  };
+}
+
+function prepFile(date: string, energy: string, calendar: string, assessments: Array<string | null>): string {
+  const items = assessments
+    .map((assessment, index) => `  - text: "Item ${index + 1}"\n    assessment: ${assessment ?? "null"}`)
+    .join("\n");
+  return `---\ndate: ${date}\nenergy: ${energy}\ncalendar: ${calendar}\ncommitment:\n${items}\n---\n`;
+}
+
+// =============================================================================
+// computeStreaks
+// =============================================================================
+
+describe("computeStreaks", () => {
+  test("finds the longest and current runs", () => {
+    const days = [
+      day("2026-10-01", { blocked: 1 }),
+      day("2026-10-02", { blocked: 2 }),
+      day("2026-10-05", { blocked: 1 }),
+      day("2026-10-06"),
+      day("2026-10-07", { blocked: 1 }),
+    ];
+
+    expect(computeStreaks(days, (d) => d.blocked > 0)).toEqual({
+      current: { length: 1, start: "2026-10-07", end: "2026-10-07" },
+      longest: { length: 3, start: "2026-10-01", end: "2026-10-05" },
+    });
+  });
+
+  test("returns empty runs when nothing matches", () => {
+    expect(computeStreaks([day("2026-10-01")], (d) => d.skipped > 0)).toEqual({
+      current: { length: 0 },
+      longest: { length: 0 },
+    });
+  });
+});
+
+// =============================================================================
+// aggregateDailyPrepDays
+// =============================================================================
+
+describe("aggregateDailyPrepDays", () => {
+  test("computes completion rates by energy, calendar, and weekday", () => {
+    const history = aggregateDailyPrepDays("2026-10-01", "2026-10-31", [
+      // Monday
+      day("2026-10-05", { energy: "sharp", calendar: "clear", commitments: 2, done: 2 }),
+      // Tuesday
+      day("2026-10-06", { energy: "low", calendar: "heavy", commitments: 3, done: 1, partial: 1, blocked: 1 }),
+      // Wednesday, never closed
+      day("2026-10-07", { energy: "low", closed: false, commitments: 2, unassessed: 2 }),
+    ]);
+
+    expect(history.overall).toMatchObject({ days: 3, commitments: 7, done: 3, unassessed: 2, completionRate: 3 / 5 });
+    expect(history.byEnergy.sharp.completionRate).toBe(1);
+    expect(history.byEnergy.low).toMatchObject({ days: 2, completionRate: 1 / 3 });
+    expect(history.byEnergy.steady).toMatchObject({ days: 0, completionRate: null });
+    expect(history.byCalendar.heavy.completionRate).toBe(1 / 3);
+    expect(history.byWeekday[1].completionRate).toBe(1);
+    expect(history.byWeekday[3]).toMatchObject({ days: 1, completionRate: null });
+    expect(history.streaks.blocked.longest).toEqual({ length: 1, start: "2026-10-06", end: "2026-10-06" });
+  });
+});
+
+// =============================================================================
+// getDailyPrepHistory
+// =============================================================================
+
+describe("getDailyPrepHistory", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `daily-prep-history-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "00_Inbox", DAILY_PREP_DIR), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  test("reads prep files within the range, oldest first", async () => {
+    const dir = join(testDir, "00_Inbox", DAILY_PREP_DIR);
+    await writeFile(join(dir, "2026-09-30.md"), prepFile("2026-09-30", "sharp", "clear", ["done"]));
+    await writeFile(join(dir, "2026-10-02.md"), prepFile("2026-10-02", "low", "heavy", ["skipped", "done"]));
+    await writeFile(join(dir, "2026-10-01.md"), prepFile("2026-10-01", "steady", "clear", ["done", null]));
+    await writeFile(join(dir, "notes.md"), "Not a prep file");
+    await writeFile(join(dir, "2026-10-03.md"), "No frontmatter");
+
+    const history = await getDailyPrepHistory(createTestVault(testDir), "2026-10-01", "2026-10-31");
+
+    expect(history.days.map((d) => d.date)).toEqual(["2026-10-01", "2026-10-02"]);
+    expect(history.days[0]).toMatchObject({ weekday: 4, energy: "steady", done: 1, unassessed: 1 });
+    expect(history.overall.completionRate).toBe(2 / 3);
+    expect(history.streaks.skipped.current).toEqual({ length: 1, start: "2026-10-02", end: "2026-10-02" });
+  });
+
+  test("returns empty trends when the vault has no prep directory", async () => {
+    const history = await getDailyPrepHistory(createTestVault(join(testDir, "missing")), "2026-10-01", "2026-10-31");
+
+    expect(history.days).toEqual([]);
+    expect(history.overall).toMatchObject({ days: 0, completionRate: null });
+  });
+});
@@ -1,11 +1,11 @@
 /**
  * Daily Prep Manager Tests
  *
- * Tests for reading and parsing daily prep files.
+ * Tests for reading, parsing, and writing daily prep files.
  */
 
 import { describe, expect, test, beforeEach, afterEach } from "bun:test";
-import { mkdir, writeFile, rm } from "node:fs/promises";
+import { mkdir, writeFile, readFile, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import type { VaultInfo } from "@memory-loop/shared";
@@ -16,8 +16,16 @@ import {
   parseFrontmatter,
   readDailyPrep,
   getDailyPrepStatus,
+  serializeFrontmatter,
+  buildDailyPrepContent,
+  createDailyPrep,
+  addCommitment,
+  updateCommitment,
+  removeCommitment,
+  closeDailyPrep,
   DAILY_PREP_DIR,
 } from "../daily-prep-manager";
+import { listVersions } from "../file-history";
 
 // =============================================================================
 // Test Helpers
@@ -395,3 +403,157 @@ date: 2026-02-02
     expect(status.calendar).toBeUndefined();
   });
 });
+
+// =============================================================================
+// Writing Tests
+// =============================================================================
+
+describe("serializeFrontmatter", () => {
+  test("round-trips through parseFrontmatter", () => {
+    const prep = {
+      date: "2026-02-02",
+      energy: "steady" as const,
+      calendar: "heavy" as const,
+      commitment: [
+        { text: 'Reply to "Legal": contract', assessment: "blocked" as const, note: "Waiting on\nredlines" },
+        { text: "Ship it", assessment: null },
+      ],
+      closure: { completed_at: "2026-02-02T17:30:00.000Z", reflection: "It's fine." },
+    };
+
+    const fm = parseFrontmatter(`---\n${serializeFrontmatter(prep)}\n---\n`);
+
+    expect(fm).toEqual({
+      date: "2026-02-02",
+      energy: "steady",
+      calendar: "heavy",
+      commitment: [
+        { text: 'Reply to "Legal": contract', assessment: "blocked", note: "Waiting on\nredlines" },
+        { text: "Ship it", assessment: null },
+      ],
+      closure: { completed_at: "2026-02-02T17:30:00.000Z", reflection: "It's fine." },
+    });
+  });
+});
+
+describe("buildDailyPrepContent", () => {
+  test("regenerates Morning and Evening but keeps other sections", () => {
+    const body = `# Daily Prep: 2026-02-02
+
+## Morning
+
+**Energy**: Low
+
+### What I'm Committing To
+
+1. Old item
+
+## Notes
+
+Kept by hand.
+`;
+
+    const content = buildDailyPrepContent(
+      {
+        date: "2026-02-02",
+        energy: "sharp",
+        commitment: [{ text: "New item", assessment: "done" }],
+        closure: { completed_at: "2026-02-02T17:30:00.000Z", reflection: "Good." },
+      },
+      body
+    );
+
+    expect(content).toContain("# Daily Prep: 2026-02-02");
+    expect(content).toContain("**Energy**: Sharp");
+    expect(content).toContain("1. New item");
+    expect(content).not.toContain("Old item");
+    expect(content).toContain("## Notes\n\nKept by hand.");
+    expect(content).toContain("- New item: Done.");
+    expect(content).toContain("**Reflection**: Good.");
+  });
+});
+
+describe("daily prep writes", () => {
+  let testDir: string;
+  const today = new Date(2026, 1, 2);
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  test("createDailyPrep writes a file readDailyPrep can read", async () => {
+    const vault = createTestVault(testDir);
+
+    const result = await createDailyPrep(
+      vault,
+      { energy: "sharp", calendar: "clear", commitments: ["Deep work"] },
+      today
+    );
+
+    expect(result.success).toBe(true);
+    expect(await readDailyPrep(vault, today)).toEqual({
+      date: "2026-02-02",
+      energy: "sharp",
+      calendar: "clear",
+      commitment: [{ text: "Deep work", assessment: null }],
+    });
+  });
+
+  test("createDailyPrep refuses to overwrite an existing prep", async () => {
+    const vault = createTestVault(testDir);
+    await createDailyPrep(vault, { commitments: ["First"] }, today);
+
+    const result = await createDailyPrep(vault, { commitments: ["Second"] }, today);
+
+    expect(result).toMatchObject({ success: false, reason: "exists" });
+  });
+
+  test("commitment edits update the file and record history", async () => {
+    const vault = createTestVault(testDir);
+    await createDailyPrep(vault, { commitments: ["A", "B"] }, today);
+
+    await addCommitment(vault, "C", today);
+    await updateCommitment(vault, 0, { text: "A2", assessment: "partial", note: "Half" }, today);
+    await updateCommitment(vault, 0, { note: "" }, today);
+    const result = await removeCommitment(vault, 1, today);
+
+    expect(result.status?.commitmentItems).toEqual([
+      { text: "A2", assessment: "partial" },
+      { text: "C", assessment: null },
+    ]);
+    const history = await listVersions(vault, `00_Inbox/${DAILY_PREP_DIR}/2026-02-02.md`);
+    expect(history.versions.length).toBeGreaterThan(0);
+  });
+
+  test("edits report a missing prep or commitment", async () => {
+    const vault = createTestVault(testDir);
+    expect(await addCommitment(vault, "A", today)).toMatchObject({ success: false, reason: "not_found" });
+
+    await createDailyPrep(vault, { commitments: ["A"] }, today);
+    expect(await updateCommitment(vault, 5, { assessment: "done" }, today)).toMatchObject({
+      success: false,
+      reason: "not_found",
+    });
+  });
+
+  test("closeDailyPrep records assessments, closure, and the Evening section", async () => {
+    const vault = createTestVault(testDir);
+    await createDailyPrep(vault, { commitments: ["Review PR", "Write spec"] }, today);
+    const closedAt = new Date(2026, 1, 2, 17, 30);
+
+    const result = await closeDailyPrep(
+      vault,
+      { reflection: "Spec slipped.", assessments: [{ assessment: "done" }, { assessment: "blocked", note: "No input" }] },
+      closedAt
+    );
+
+    expect(result.status?.closure).toEqual({ completed_at: closedAt.toISOString(), reflection: "Spec slipped." });
+    const content = await readFile(getDailyPrepFilePath(vault, today), "utf-8");
+    expect(content).toContain("## Evening");
+    expect(content).toContain("- Write spec: Blocked. No input");
+  });
+});
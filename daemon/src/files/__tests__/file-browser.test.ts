@@ -24,6 +24,8 @@ import {
   createFile,
   renameFile,
   moveFile,
+  checkFileVersion,
+  computeFileEtag,
   MAX_FILE_SIZE,
   PathTraversalError,
   DirectoryNotFoundError,
@@ -34,6 +36,7 @@ import {
   InvalidFileNameError,
   FileExistsError,
   FileBrowserError,
+  FileConflictError,
 } from "../file-browser";
 
 // =============================================================================
@@ -700,6 +703,86 @@ describe("writeMarkdownFile", () => {
   });
 });
 
+// =============================================================================
+// Optimistic Concurrency Tests
+// =============================================================================
+
+describe("Optimistic Concurrency", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDir(testDir);
+  });
+
+  test("computeFileEtag changes with content and mtime", () => {
+    const etag = computeFileEtag("hello", 1000);
+    expect(etag).toMatch(/^"[0-9a-z]+-[0-9a-f]{16}"$/);
+    expect(computeFileEtag(Buffer.from("hello"), 1000)).toBe(etag);
+    expect(computeFileEtag("hello!", 1000)).not.toBe(etag);
+    expect(computeFileEtag("hello", 2000)).not.toBe(etag);
+  });
+
+  test("readMarkdownFile returns an etag matching the file on disk", async () => {
+    await writeFile(join(testDir, "note.md"), "content");
+    const stats = await stat(join(testDir, "note.md"));
+
+    const result = await readMarkdownFile(testDir, "note.md");
+    expect(result.etag).toBe(computeFileEtag("content", stats.mtimeMs));
+  });
+
+  test("writes when If-Match matches and returns the new etag", async () => {
+    await writeFile(join(testDir, "note.md"), "original");
+    const { etag } = await readMarkdownFile(testDir, "note.md");
+
+    const result = await writeMarkdownFile(testDir, "note.md", "updated", { ifMatch: etag });
+
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe("updated");
+    expect(result.etag).not.toBe(etag);
+    expect((await readMarkdownFile(testDir, "note.md")).etag).toBe(result.etag);
+  });
+
+  test("throws FileConflictError with current content when the file changed", async () => {
+    await writeFile(join(testDir, "note.md"), "original");
+    const { etag } = await readMarkdownFile(testDir, "note.md");
+    await writeFile(join(testDir, "note.md"), "edited in Obsidian");
+
+    try {
+      await writeMarkdownFile(testDir, "note.md", "mine", { ifMatch: etag });
+      expect.unreachable("Should have thrown FileConflictError");
+    } catch (error) {
+      expect(error).toBeInstanceOf(FileConflictError);
+      const conflict = error as FileConflictError;
+      expect(conflict.code).toBe("FILE_CONFLICT");
+      expect(conflict.currentContent).toBe("edited in Obsidian");
+      expect(conflict.etag).toBe((await readMarkdownFile(testDir, "note.md")).etag);
+    }
+
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe("edited in Obsidian");
+  });
+
+  test("If-Match * matches any version", async () => {
+    await writeFile(join(testDir, "note.md"), "original");
+
+    await writeMarkdownFile(testDir, "note.md", "forced", { ifMatch: "*" });
+
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe("forced");
+  });
+
+  test("checkFileVersion rejects stale versions", async () => {
+    await writeFile(join(testDir, "note.md"), "original");
+    const { etag } = await readMarkdownFile(testDir, "note.md");
+
+    await checkFileVersion(testDir, "note.md", etag);
+    await writeFile(join(testDir, "note.md"), "changed");
+    await expectError(() => checkFileVersion(testDir, "note.md", etag), FileConflictError);
+    await expectError(() => checkFileVersion(testDir, "missing.md", etag), FileNotFoundError);
+  });
+});
+
 // =============================================================================
 // Multi-Format File Support Tests (JSON, TXT, CSV, TSV)
 // =============================================================================
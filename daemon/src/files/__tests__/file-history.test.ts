@@ -0,0 +1,222 @@
+/**
+ * File History Tests
+ *
+ * Unit tests for recording, listing, diffing, moving, and restoring file versions.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, readFile, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import {
+  recordVersion,
+  snapshotFile,
+  listVersions,
+  readVersion,
+  diffVersions,
+  moveHistory,
+  restoreVersion,
+  HISTORY_DIR,
+  MAX_VERSIONS_PER_FILE,
+  type HistoryVault,
+} from "../file-history";
+import { FileNotFoundError, MAX_FILE_SIZE, readMarkdownFile } from "../file-browser";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let testDir: string;
+let vault: HistoryVault;
+
+beforeEach(async () => {
+  testDir = join(
+    tmpdir(),
+    `file-history-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  vault = { path: testDir, contentRoot: join(testDir, "content") };
+  await mkdir(vault.contentRoot, { recursive: true });
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+describe("recordVersion", () => {
+  test("stores versions under the vault root, newest first", async () => {
+    const first = await recordVersion(vault, "note.md", "one", "edit");
+    const second = await recordVersion(vault, "note.md", "two", "ai");
+
+    const history = await listVersions(vault, "note.md");
+    expect(history.path).toBe("note.md");
+    expect(history.versions.map((v) => v.id)).toEqual([second!.id, first!.id]);
+    expect(history.versions[0]).toMatchObject({ source: "ai", size: 3 });
+    expect(await readdir(join(testDir, HISTORY_DIR))).toHaveLength(1);
+  });
+
+  test("skips content identical to the latest version", async () => {
+    await recordVersion(vault, "note.md", "same", "edit");
+    const duplicate = await recordVersion(vault, "note.md", "same", "edit");
+
+    expect(duplicate).toBeNull();
+    expect((await listVersions(vault, "note.md")).versions).toHaveLength(1);
+  });
+
+  test("prunes the oldest versions past the limit", async () => {
+    for (let i = 0; i <= MAX_VERSIONS_PER_FILE + 1; i++) {
+      await recordVersion(vault, "note.md", `version ${i}`, "edit");
+    }
+
+    const { versions } = await listVersions(vault, "note.md");
+    expect(versions).toHaveLength(MAX_VERSIONS_PER_FILE);
+    const { content } = await readVersion(vault, "note.md", versions[versions.length - 1].id);
+    expect(content).toBe("version 2");
+  });
+
+  test("skips content over the size limit", async () => {
+    const result = await recordVersion(vault, "big.md", "x".repeat(MAX_FILE_SIZE + 1), "edit");
+
+    expect(result).toBeNull();
+    expect((await listVersions(vault, "big.md")).versions).toEqual([]);
+  });
+
+  test("keeps concurrent recordings of the same file", async () => {
+    await Promise.all(["a", "b", "c"].map((c) => recordVersion(vault, "note.md", c, "edit")));
+
+    expect((await listVersions(vault, "note.md")).versions).toHaveLength(3);
+  });
+});
+
+describe("snapshotFile", () => {
+  test("records the file's current content", async () => {
+    await writeFile(join(vault.contentRoot, "note.md"), "on disk");
+
+    const version = await snapshotFile(vault, "note.md", "ai");
+
+    expect(version?.source).toBe("ai");
+    expect((await readVersion(vault, "note.md", version!.id)).content).toBe("on disk");
+  });
+
+  test("ignores missing files", async () => {
+    expect(await snapshotFile(vault, "missing.md", "ai")).toBeNull();
+  });
+});
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+describe("readVersion", () => {
+  test("throws FileNotFoundError for unknown or malformed IDs", async () => {
+    await recordVersion(vault, "note.md", "one", "edit");
+
+    await expect(readVersion(vault, "note.md", "nope")).rejects.toBeInstanceOf(FileNotFoundError);
+    await expect(readVersion(vault, "note.md", "../index")).rejects.toBeInstanceOf(FileNotFoundError);
+  });
+});
+
+describe("diffVersions", () => {
+  test("diffs a version against the current file by default", async () => {
+    await writeFile(join(vault.contentRoot, "note.md"), "a\nc");
+    const version = await recordVersion(vault, "note.md", "a\nb", "edit");
+
+    const diff = await diffVersions(vault, "note.md", version!.id);
+
+    expect(diff).toEqual({
+      path: "note.md",
+      from: version!.id,
+      to: "current",
+      lines: [
+        { type: "same", text: "a" },
+        { type: "removed", text: "b" },
+        { type: "added", text: "c" },
+      ],
+    });
+  });
+
+  test("diffs two stored versions", async () => {
+    const older = await recordVersion(vault, "note.md", "one", "edit");
+    const newer = await recordVersion(vault, "note.md", "two", "edit");
+
+    const diff = await diffVersions(vault, "note.md", older!.id, newer!.id);
+
+    expect(diff.lines).toEqual([
+      { type: "removed", text: "one" },
+      { type: "added", text: "two" },
+    ]);
+  });
+});
+
+// =============================================================================
+// Moving
+// =============================================================================
+
+describe("moveHistory", () => {
+  test("moves a file's history to its new path", async () => {
+    await recordVersion(vault, "old.md", "content", "edit");
+
+    await moveHistory(vault, "old.md", "archive/new.md");
+
+    expect((await listVersions(vault, "old.md")).versions).toEqual([]);
+    const { path, versions } = await listVersions(vault, "archive/new.md");
+    expect(path).toBe("archive/new.md");
+    expect((await readVersion(vault, path, versions[0].id)).content).toBe("content");
+  });
+
+  test("moves history for every file under a directory", async () => {
+    await recordVersion(vault, "projects/a.md", "a", "edit");
+    await recordVersion(vault, "projects/sub/b.md", "b", "edit");
+    await recordVersion(vault, "projects-old.md", "c", "edit");
+
+    await moveHistory(vault, "projects", "done");
+
+    expect((await listVersions(vault, "done/a.md")).versions).toHaveLength(1);
+    expect((await listVersions(vault, "done/sub/b.md")).versions).toHaveLength(1);
+    expect((await listVersions(vault, "projects-old.md")).versions).toHaveLength(1);
+  });
+
+  test("merges with history already at the new path", async () => {
+    await recordVersion(vault, "target.md", "earlier file", "edit");
+    await recordVersion(vault, "source.md", "moved file", "edit");
+
+    await moveHistory(vault, "source.md", "target.md");
+
+    const { versions } = await listVersions(vault, "target.md");
+    expect(versions).toHaveLength(2);
+    expect((await readVersion(vault, "target.md", versions[0].id)).content).toBe("moved file");
+  });
+});
+
+// =============================================================================
+// Restore
+// =============================================================================
+
+describe("restoreVersion", () => {
+  test("writes the version and keeps the replaced content", async () => {
+    const filePath = join(vault.contentRoot, "note.md");
+    await writeFile(filePath, "current");
+    const version = await recordVersion(vault, "note.md", "older", "ai");
+
+    const result = await restoreVersion(vault, "note.md", version!.id);
+
+    expect(await readFile(filePath, "utf-8")).toBe("older");
+    expect(result.etag).toBe((await readMarkdownFile(vault.contentRoot, "note.md")).etag);
+
+    const { versions } = await listVersions(vault, "note.md");
+    expect(versions[0].source).toBe("restore");
+    expect((await readVersion(vault, "note.md", versions[0].id)).content).toBe("current");
+  });
+
+  test("throws FileNotFoundError when the file no longer exists", async () => {
+    const version = await recordVersion(vault, "gone.md", "older", "edit");
+
+    await expect(restoreVersion(vault, "gone.md", version!.id)).rejects.toBeInstanceOf(
+      FileNotFoundError
+    );
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Markdown Sections Tests
+ *
+ * Unit tests for heading matching and section lookup shared by captures and tasks.
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  appendHeadingSection,
+  findHeadingSection,
+  headingTitle,
+} from "../markdown-sections";
+
+describe("headingTitle", () => {
+  test("strips leading and closing #s", () => {
+    expect(headingTitle("Inbox")).toBe("Inbox");
+    expect(headingTitle("## Inbox")).toBe("Inbox");
+    expect(headingTitle("## Inbox ##")).toBe("Inbox");
+  });
+
+  test("keeps a # attached to a word", () => {
+    expect(headingTitle("## C#")).toBe("C#");
+  });
+});
+
+describe("findHeadingSection", () => {
+  const lines = ["# Note", "", "## Inbox ##", "- a", "### Sub", "- b", "## Next", "- c"];
+
+  test("spans to the next heading of the same or higher level", () => {
+    expect(findHeadingSection(lines, "inbox")).toEqual({ heading: 2, end: 6 });
+    expect(findHeadingSection(lines, "## Next")).toEqual({ heading: 6, end: 8 });
+  });
+
+  test("returns null for a missing heading", () => {
+    expect(findHeadingSection(lines, "Missing")).toBeNull();
+  });
+});
+
+describe("appendHeadingSection", () => {
+  test("adds the section after the last content", () => {
+    const lines = ["# Note", "body", "", ""];
+    expect(appendHeadingSection(lines, "## Ideas", ["- one"])).toBe(5);
+    expect(lines).toEqual(["# Note", "body", "", "## Ideas", "", "- one", ""]);
+  });
+
+  test("starts an empty note with the section", () => {
+    const lines = [""];
+    expect(appendHeadingSection(lines, "Ideas", ["- one"])).toBe(2);
+    expect(lines).toEqual(["## Ideas", "", "- one", ""]);
+  });
+});
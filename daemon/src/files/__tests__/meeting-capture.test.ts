@@ -24,6 +24,8 @@ import {
   MeetingCaptureError,
   type ActiveMeeting,
 } from "../meeting-capture";
+import { configureSdkForTesting, _resetForTesting, type QueryFunction } from "../../sdk-provider";
+import { listVersions } from "../file-history";
 
 // =============================================================================
 // Title Slugification Tests
@@ -130,6 +132,16 @@ describe("generateMeetingFrontmatter", () => {
     const frontmatter = generateMeetingFrontmatter("Test", date);
     expect(frontmatter).toMatch(/---\n\n$/);
   });
+
+  test("lists attendees and agenda items", () => {
+    const date = new Date(2026, 0, 15);
+    const frontmatter = generateMeetingFrontmatter("Test", date, {
+      attendees: ["Ann", 'Bob "B"'],
+      agenda: ["Roadmap", "Hiring"],
+    });
+    expect(frontmatter).toContain('attendees: ["Ann", "Bob \\"B\\""]');
+    expect(frontmatter).toContain('agenda:\n  - "Roadmap"\n  - "Hiring"\n---\n\n');
+  });
 });
 
 // =============================================================================
@@ -420,6 +432,17 @@ describe("startMeeting Integration", () => {
     expect(content).toContain("## Capture");
   });
 
+  test("records trimmed attendees and agenda, dropping blanks", async () => {
+    const date = new Date(2026, 0, 15, 10, 0);
+    const result = await startMeeting(vault, "Q3 Planning", date, {
+      attendees: [" Sarah ", ""],
+      agenda: ["Roadmap", "  "],
+    });
+
+    const content = await readFile(result.meeting!.filePath, "utf-8");
+    expect(content).toContain('attendees: ["Sarah"]\nagenda:\n  - "Roadmap"\n---');
+  });
+
   test("returns meeting state with correct paths", async () => {
     const date = new Date(2026, 0, 15, 10, 0);
     const result = await startMeeting(vault, "Test Meeting", date);
@@ -696,6 +719,103 @@ describe("stopMeeting Integration", () => {
     expect(result.success).toBe(false);
     expect(result.error).toContain("Failed to read");
   });
+
+  describe("wrap-up", () => {
+    const wrapUpResponse = JSON.stringify({
+      summary: "Agreed on the launch plan.",
+      decisions: ["Ship on Friday"],
+      actionItems: [{ text: "Send the deck", owner: "Ann", due: "2026-01-16" }],
+    });
+    let calls: number;
+
+    function mockSdk(response: string): QueryFunction {
+      return (() => {
+        calls++;
+        async function* mockGenerator() {
+          yield { type: "assistant", message: { content: [{ type: "text", text: response }] } };
+        }
+        return mockGenerator();
+      }) as unknown as QueryFunction;
+    }
+
+    async function startWithNote(): Promise<ActiveMeeting> {
+      const startResult = await startMeeting(vault, "Launch", new Date(2026, 0, 15, 10, 0));
+      const meeting = startResult.meeting!;
+      await captureToMeeting(meeting, "Ship Friday, Ann sends deck", new Date(2026, 0, 15, 10, 5));
+      return meeting;
+    }
+
+    beforeEach(() => {
+      calls = 0;
+      vault.meetingWrapUp = true;
+    });
+
+    afterEach(() => {
+      _resetForTesting();
+    });
+
+    test("appends a summary, decisions, and action items as tasks", async () => {
+      configureSdkForTesting(mockSdk(wrapUpResponse));
+      const meeting = await startWithNote();
+
+      const result = await stopMeeting(meeting, vault, new Date(2026, 0, 15, 11, 0));
+
+      expect(result.success).toBe(true);
+      expect(result.wrapUp?.actionItems).toHaveLength(1);
+      const content = await readFile(meeting.filePath, "utf-8");
+      expect(content).toBe(result.content!);
+      expect(content).toContain("- [10:05] Ship Friday, Ann sends deck\n\n## Summary\n\nAgreed on the launch plan.\n");
+      expect(content).toContain("## Decisions\n\n- Ship on Friday\n");
+      expect(content).toContain("## Action Items\n\n- [ ] Ann: Send the deck 📅 2026-01-16\n");
+
+      const { versions } = await listVersions(vault, meeting.relativePath);
+      expect(versions.map((v) => v.source)).toEqual(["ai"]);
+    });
+
+    test("keeps what was written to the note while the model ran", async () => {
+      const meeting = await startWithNote();
+      configureSdkForTesting((() => {
+        async function* mockGenerator() {
+          await captureToMeeting(meeting, "Late note", new Date(2026, 0, 15, 10, 59));
+          yield { type: "assistant", message: { content: [{ type: "text", text: wrapUpResponse }] } };
+        }
+        return mockGenerator();
+      }) as unknown as QueryFunction);
+
+      const result = await stopMeeting(meeting, vault, new Date(2026, 0, 15, 11, 0));
+
+      const content = await readFile(meeting.filePath, "utf-8");
+      expect(content).toBe(result.content!);
+      expect(content).toContain("- [10:59] Late note");
+      expect(content).toContain("## Summary\n\nAgreed on the launch plan.\n");
+    });
+
+    test("still stops the meeting when the wrap-up fails", async () => {
+      configureSdkForTesting(mockSdk("not json"));
+      const meeting = await startWithNote();
+      const before = await readFile(meeting.filePath, "utf-8");
+
+      const result = await stopMeeting(meeting, vault);
+
+      expect(result.success).toBe(true);
+      expect(result.wrapUp).toBeUndefined();
+      expect(result.wrapUpError).toBe("Could not read the wrap-up response");
+      expect(await readFile(meeting.filePath, "utf-8")).toBe(before);
+    });
+
+    test("skips the wrap-up when it's off or nothing was captured", async () => {
+      configureSdkForTesting(mockSdk(wrapUpResponse));
+      const empty = (await startMeeting(vault, "Empty", new Date(2026, 0, 15, 9, 0))).meeting!;
+      await stopMeeting(empty, vault);
+
+      vault.meetingWrapUp = false;
+      const meeting = await startWithNote();
+      const result = await stopMeeting(meeting, vault);
+
+      expect(calls).toBe(0);
+      expect(result.content).not.toContain("## Summary");
+    });
+  });
 });
 
 // =============================================================================
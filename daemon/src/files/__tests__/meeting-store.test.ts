@@ -2,10 +2,15 @@
  * Meeting Store Tests
  *
  * Unit tests for the module-level meeting state store.
- * Tests store operations and meeting lifecycle management.
+ * Tests store operations, meeting lifecycle management, and saving and
+ * restoring meetings across daemon restarts.
  */
 
-import { describe, test, expect, beforeEach } from "bun:test";
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { VaultInfo } from "@memory-loop/shared";
 import type { ActiveMeeting } from "../meeting-capture";
 import {
   getActiveMeeting,
@@ -15,6 +20,13 @@ import {
   incrementMeetingEntryCount,
   getAllActiveMeetings,
   clearAllMeetings,
+  persistActiveMeeting,
+  restoreActiveMeetings,
+  isMeetingStale,
+  stopStaleMeeting,
+  getMeetingAutoStopHoursFromEnv,
+  ACTIVE_MEETING_FILE,
+  DEFAULT_MEETING_AUTO_STOP_HOURS,
 } from "../meeting-store";
 
 // =============================================================================
@@ -430,3 +442,148 @@ describe("Edge Cases", () => {
     expect(getActiveMeeting(vaultId)?.title).toBe("Meeting 99");
   });
 });
+
+// =============================================================================
+// Persistence Tests
+// =============================================================================
+
+describe("meeting persistence", () => {
+  let testDir: string;
+  let vault: VaultInfo;
+  const relativePath = "00_Inbox/meetings/2026-10-19-standup.md";
+  const startedAt = new Date(2026, 9, 19, 9, 0);
+
+  function createMeeting(): ActiveMeeting {
+    return {
+      title: "Standup",
+      filePath: join(testDir, relativePath),
+      relativePath,
+      startedAt: startedAt.toISOString(),
+      entryCount: 2,
+    };
+  }
+
+  beforeEach(async () => {
+    clearAllMeetings();
+    testDir = join(tmpdir(), `meeting-store-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "00_Inbox", "meetings"), { recursive: true });
+    await writeFile(join(testDir, relativePath), "# Standup\n\n## Capture\n\n");
+    vault = {
+      id: "test-vault",
+      name: "Test Vault",
+      path: testDir,
+      hasClaudeMd: true,
+      contentRoot: testDir,
+      inboxPath: "00_Inbox",
+      metadataPath: "06_Metadata/memory-loop",
+      attachmentPath: "05_Attachments",
+      setupComplete: false,
+      promptsPerGeneration: 5,
+      maxPoolSize: 50,
+      quotesPerWeek: 1,
+      badges: [],
+      order: 999999,
+      cardsEnabled: true,
+      viMode: false,
+    };
+  });
+
+  afterEach(async () => {
+    clearAllMeetings();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("saves the active meeting and restores it as resumed", async () => {
+    setActiveMeeting(vault.id, createMeeting());
+    await persistActiveMeeting(vault);
+    clearAllMeetings();
+
+    const now = new Date(2026, 9, 19, 9, 30);
+    expect(await restoreActiveMeetings([vault], now)).toBe(1);
+
+    expect(getActiveMeeting(vault.id)).toEqual({
+      ...createMeeting(),
+      resumedAt: now.toISOString(),
+    });
+  });
+
+  test("removes the saved meeting once the meeting is cleared", async () => {
+    setActiveMeeting(vault.id, createMeeting());
+    await persistActiveMeeting(vault);
+    clearActiveMeeting(vault.id);
+    await persistActiveMeeting(vault);
+
+    expect(await restoreActiveMeetings([vault], startedAt)).toBe(0);
+    await expect(readFile(join(testDir, ACTIVE_MEETING_FILE), "utf-8")).rejects.toThrow();
+  });
+
+  test("drops saved meetings that are stale or whose file is gone", async () => {
+    setActiveMeeting(vault.id, createMeeting());
+    await persistActiveMeeting(vault);
+    clearAllMeetings();
+
+    expect(await restoreActiveMeetings([vault], new Date(2026, 9, 20, 9, 0))).toBe(0);
+    expect(hasActiveMeeting(vault.id)).toBe(false);
+
+    setActiveMeeting(vault.id, createMeeting());
+    await persistActiveMeeting(vault);
+    clearAllMeetings();
+    await rm(join(testDir, relativePath));
+
+    expect(await restoreActiveMeetings([vault], startedAt)).toBe(0);
+    expect(hasActiveMeeting(vault.id)).toBe(false);
+  });
+
+  test("ignores an unreadable saved meeting", async () => {
+    await mkdir(join(testDir, ".memory-loop"), { recursive: true });
+    await writeFile(join(testDir, ACTIVE_MEETING_FILE), "{ not json");
+
+    expect(await restoreActiveMeetings([vault], startedAt)).toBe(0);
+  });
+
+  test("stops a stale meeting and keeps a recent one", async () => {
+    const meeting = createMeeting();
+    meeting.lastCaptureAt = new Date(2026, 9, 19, 12, 0).toISOString();
+    setActiveMeeting(vault.id, meeting);
+
+    expect(await stopStaleMeeting(vault, new Date(2026, 9, 19, 19, 0))).toBeNull();
+    expect(await stopStaleMeeting(vault, new Date(2026, 9, 19, 21, 0))).toBe(meeting);
+    expect(hasActiveMeeting(vault.id)).toBe(false);
+  });
+});
+
+describe("isMeetingStale", () => {
+  const meeting = { startedAt: new Date(2026, 9, 19, 9, 0).toISOString() };
+
+  test("measures quiet time from the last capture, or the start", () => {
+    expect(isMeetingStale(meeting, new Date(2026, 9, 19, 11, 0), 1)).toBe(true);
+    expect(isMeetingStale(
+      { ...meeting, lastCaptureAt: new Date(2026, 9, 19, 10, 30).toISOString() },
+      new Date(2026, 9, 19, 11, 0),
+      1
+    )).toBe(false);
+  });
+
+  test("never goes stale with a timeout of 0", () => {
+    expect(isMeetingStale(meeting, new Date(2027, 0, 1), 0)).toBe(false);
+  });
+});
+
+describe("getMeetingAutoStopHoursFromEnv", () => {
+  const original = process.env.MEETING_AUTO_STOP_HOURS;
+
+  afterEach(() => {
+    if (original !== undefined) {
+      process.env.MEETING_AUTO_STOP_HOURS = original;
+    } else {
+      delete process.env.MEETING_AUTO_STOP_HOURS;
+    }
+  });
+
+  test("reads the hours and falls back on invalid values", () => {
+    process.env.MEETING_AUTO_STOP_HOURS = "2.5";
+    expect(getMeetingAutoStopHoursFromEnv()).toBe(2.5);
+    process.env.MEETING_AUTO_STOP_HOURS = "-1";
+    expect(getMeetingAutoStopHoursFromEnv()).toBe(DEFAULT_MEETING_AUTO_STOP_HOURS);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Meeting Wrap-Up Tests
+ *
+ * Tests parsing the model's answer, formatting the wrap-up sections, and
+ * the SDK call, using a mock query function.
+ */
+
+import { describe, test, expect, afterEach } from "bun:test";
+import {
+  buildWrapUpPrompt,
+  parseWrapUpResponse,
+  formatActionItem,
+  appendWrapUp,
+  generateMeetingWrapUp,
+  WRAP_UP_MODEL,
+} from "../meeting-wrapup";
+import { configureSdkForTesting, _resetForTesting, type QueryFunction } from "../../sdk-provider";
+
+function createMockSdk(
+  response: string,
+  capturedCalls: Array<{ prompt: string; options: unknown }> = []
+): QueryFunction {
+  return ((args: { prompt: string; options: unknown }) => {
+    capturedCalls.push({ prompt: args.prompt, options: args.options });
+
+    async function* mockGenerator() {
+      yield {
+        type: "assistant",
+        message: {
+          content: [{ type: "text", text: response }],
+        },
+      };
+    }
+    return mockGenerator();
+  }) as unknown as QueryFunction;
+}
+
+afterEach(() => {
+  _resetForTesting();
+});
+
+describe("buildWrapUpPrompt", () => {
+  test("includes the notes and the meeting date", () => {
+    const prompt = buildWrapUpPrompt("- [10:05] Ship on Friday", new Date(2026, 9, 19));
+    expect(prompt).toContain("- [10:05] Ship on Friday");
+    expect(prompt).toContain("Meeting date: 2026-10-19");
+  });
+});
+
+describe("parseWrapUpResponse", () => {
+  test("reads the summary, decisions, and action items", () => {
+    const response = JSON.stringify({
+      summary: " Planned the launch. ",
+      decisions: ["Ship Friday", "", 42],
+      actionItems: [
+        { text: "Send the deck", owner: "Ann", due: "2026-10-23" },
+        { text: "Book a room", due: "next week" },
+        { owner: "Bob" },
+      ],
+    });
+
+    expect(parseWrapUpResponse(response)).toEqual({
+      summary: "Planned the launch.",
+      decisions: ["Ship Friday"],
+      actionItems: [
+        { text: "Send the deck", owner: "Ann", due: "2026-10-23" },
+        { text: "Book a room" },
+      ],
+    });
+  });
+
+  test("unwraps a fenced code block", () => {
+    const response = '```json\n{"summary": "Short", "decisions": [], "actionItems": []}\n```';
+    expect(parseWrapUpResponse(response)?.summary).toBe("Short");
+  });
+
+  test("returns null for answers that aren't a JSON object", () => {
+    expect(parseWrapUpResponse("Here is your summary")).toBeNull();
+    expect(parseWrapUpResponse("[]")).toBeNull();
+  });
+});
+
+describe("formatActionItem", () => {
+  test("writes a task with the owner and due date", () => {
+    expect(formatActionItem({ text: "Send the deck", owner: "Ann", due: "2026-10-23" })).toBe(
+      "- [ ] Ann: Send the deck 📅 2026-10-23"
+    );
+    expect(formatActionItem({ text: "Book a room" })).toBe("- [ ] Book a room");
+  });
+});
+
+describe("appendWrapUp", () => {
+  const content = "---\ntitle: \"Launch\"\n---\n\n# Launch\n\n## Capture\n\n- [10:05] Ship Friday\n";
+
+  test("appends the sections after the notes", () => {
+    const result = appendWrapUp(content, {
+      summary: "Planned the launch.",
+      decisions: ["Ship Friday"],
+      actionItems: [{ text: "Send the deck", owner: "Ann" }],
+    });
+
+    expect(result).toBe(
+      content +
+        "\n## Summary\n\nPlanned the launch.\n" +
+        "\n## Decisions\n\n- Ship Friday\n" +
+        "\n## Action Items\n\n- [ ] Ann: Send the deck\n"
+    );
+  });
+
+  test("leaves out empty sections", () => {
+    const result = appendWrapUp(content, { summary: "", decisions: [], actionItems: [{ text: "Book a room" }] });
+    expect(result).not.toContain("## Summary");
+    expect(result).not.toContain("## Decisions");
+    expect(result).toContain("## Action Items\n\n- [ ] Book a room\n");
+  });
+
+  test("returns the note unchanged when there's nothing to add", () => {
+    expect(appendWrapUp(content, { summary: "", decisions: [], actionItems: [] })).toBe(content);
+  });
+});
+
+describe("generateMeetingWrapUp", () => {
+  test("asks the model without tools and parses its answer", async () => {
+    const calls: Array<{ prompt: string; options: unknown }> = [];
+    configureSdkForTesting(
+      createMockSdk('{"summary": "Done", "decisions": ["Ship"], "actionItems": []}', calls)
+    );
+
+    const wrapUp = await generateMeetingWrapUp("- [10:05] Ship it", new Date(2026, 9, 19));
+
+    expect(wrapUp).toEqual({ summary: "Done", decisions: ["Ship"], actionItems: [] });
+    expect(calls[0].prompt).toContain("- [10:05] Ship it");
+    expect(calls[0].options).toMatchObject({ model: WRAP_UP_MODEL, allowedTools: [] });
+  });
+
+  test("gives up on a model call that doesn't answer in time", async () => {
+    let aborted = false;
+    configureSdkForTesting(((args: { options: { abortController: AbortController } }) => {
+      args.options.abortController.signal.addEventListener("abort", () => (aborted = true));
+      async function* mockGenerator() {
+        await new Promise(() => {});
+        yield {};
+      }
+      return mockGenerator();
+    }) as unknown as QueryFunction);
+
+    await expect(generateMeetingWrapUp("- [10:05] Ship it", new Date(), 10)).rejects.toThrow(
+      "The wrap-up took longer than"
+    );
+    expect(aborted).toBe(true);
+  });
+
+  test("throws when the answer can't be read", async () => {
+    configureSdkForTesting(createMockSdk("Sorry, I can't help with that"));
+
+    await expect(generateMeetingWrapUp("- [10:05] Ship it")).rejects.toThrow(
+      "Could not read the wrap-up response"
+    );
+  });
+});
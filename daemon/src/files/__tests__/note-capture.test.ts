@@ -22,7 +22,15 @@ import {
   NoteCaptureError,
   normalizeLineEndings,
   parseCaptureSectionEntries,
+  resolveCaptureTargetPath,
+  formatTargetEntry,
+  insertCaptureEntry,
+  captureToTarget,
+  renderDailyNoteTemplate,
+  getRecentNotes,
 } from "../note-capture";
+import { formatDailyNoteDate, parseDailyNoteDate } from "@memory-loop/shared";
+import { listVersions, readVersion } from "../file-history";
 
 // =============================================================================
 // Date Formatting Tests
@@ -642,6 +650,21 @@ describe("captureToDaily Integration", () => {
     expect(content).toContain("- [10:00] Later thought");
   });
 
+  test("records the existing note in file history before appending", async () => {
+    const inboxPath = join(testDir, "00_Inbox");
+    await mkdir(inboxPath, { recursive: true });
+    const original = "# 2025-12-22\n\n## Capture\n\n- [08:00] Earlier\n";
+    await writeFile(join(inboxPath, "2025-12-22.md"), original);
+
+    await captureToDaily(vault, "Later thought", new Date(2025, 11, 22, 10, 0));
+
+    const { versions } = await listVersions(vault, "00_Inbox/2025-12-22.md");
+    expect(versions).toHaveLength(1);
+    expect(versions[0].source).toBe("capture");
+    const { content } = await readVersion(vault, "00_Inbox/2025-12-22.md", versions[0].id);
+    expect(content).toBe(original);
+  });
+
   test("preserves existing content", async () => {
     const inboxPath = join(testDir, "00_Inbox");
     await mkdir(inboxPath, { recursive: true });
@@ -929,3 +952,279 @@ describe("Edge Cases", () => {
     expect(content).toContain("- [10:00] Test");
   });
 });
+
+// =============================================================================
+// Capture Targets
+// =============================================================================
+
+describe("resolveCaptureTargetPath", () => {
+  const date = new Date(2026, 9, 19);
+
+  test("expands date placeholders", () => {
+    expect(resolveCaptureTargetPath("Logs/{{date:YYYY/MM}}/{{date}}.md", date)).toBe(
+      "Logs/2026/10/2026-10-19.md"
+    );
+    expect(resolveCaptureTargetPath("Journal/{{date:DD}}.md", date)).toBe("Journal/19.md");
+  });
+
+  test("adds .md when the path has no extension", () => {
+    expect(resolveCaptureTargetPath("Lists/reading", date)).toBe("Lists/reading.md");
+    expect(resolveCaptureTargetPath("Lists/reading.txt", date)).toBe("Lists/reading.txt");
+  });
+});
+
+describe("formatTargetEntry", () => {
+  const date = new Date(2026, 9, 19, 9, 5);
+
+  test("fills in text, time, and date", () => {
+    expect(formatTargetEntry("- [{{time}}] {{text}}", "Idea", date)).toBe("- [09:05] Idea");
+    expect(formatTargetEntry("- [ ] {{text}} ➕ {{date}}", "Dune", date)).toBe("- [ ] Dune ➕ 2026-10-19");
+    expect(formatTargetEntry("- {{date:MMM D}}: {{text}}", "Dune", date)).toBe("- Oct 19: Dune");
+  });
+
+  test("keeps placeholders and $ patterns in the captured text", () => {
+    expect(formatTargetEntry("- {{text}}", "costs $& at {{time}}", date)).toBe("- costs $& at {{time}}");
+  });
+});
+
+describe("insertCaptureEntry", () => {
+  test("matches headings with a closing # sequence", () => {
+    expect(insertCaptureEntry("## Inbox ##\n- one\n", "- two", "Inbox")).toBe("## Inbox ##\n- one\n- two\n");
+  });
+
+  test("appends at the end of a heading's section", () => {
+    expect(insertCaptureEntry("## Ideas\n- one\n\n## Other\n", "- two", "Ideas")).toBe(
+      "## Ideas\n- one\n- two\n\n## Other\n"
+    );
+  });
+
+  test("prepends at the start of a heading's section", () => {
+    expect(insertCaptureEntry("## Ideas\n\n- one\n", "- two", "## ideas", "prepend")).toBe(
+      "## Ideas\n\n- two\n- one\n"
+    );
+  });
+
+  test("adds a missing heading at the end of the note", () => {
+    expect(insertCaptureEntry("# Log\n\nbody\n", "- two", "Ideas")).toBe(
+      "# Log\n\nbody\n\n## Ideas\n\n- two\n"
+    );
+    expect(insertCaptureEntry("", "- two", "Ideas")).toBe("## Ideas\n\n- two\n");
+  });
+
+  test("keeps a blank line before the next heading", () => {
+    expect(insertCaptureEntry("## Ideas\n## Other\n", "- two", "Ideas")).toBe(
+      "## Ideas\n\n- two\n\n## Other\n"
+    );
+  });
+
+  test("without a heading, appends to the end of the note", () => {
+    expect(insertCaptureEntry("- one", "- two")).toBe("- one\n- two\n");
+  });
+
+  test("without a heading, prepends after frontmatter and the title", () => {
+    expect(insertCaptureEntry("---\ntags: log\n---\n# Log\n\n- one\n", "- two", undefined, "prepend")).toBe(
+      "---\ntags: log\n---\n# Log\n\n- two\n- one\n"
+    );
+  });
+
+  test("normalizes CRLF line endings", () => {
+    expect(insertCaptureEntry("## Ideas\r\n- one\r\n", "- two", "Ideas")).toBe("## Ideas\n- one\n- two\n");
+  });
+});
+
+describe("captureToTarget", () => {
+  let testDir: string;
+  let vault: VaultInfo;
+  const date = new Date(2026, 9, 19, 9, 5);
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `capture-target-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    vault = {
+      id: "test-vault",
+      name: "Test Vault",
+      path: testDir,
+      hasClaudeMd: true,
+      contentRoot: testDir,
+      inboxPath: "00_Inbox",
+      metadataPath: "06_Metadata/memory-loop",
+      attachmentPath: "05_Attachments",
+      setupComplete: false,
+      promptsPerGeneration: 5,
+      maxPoolSize: 50,
+      quotesPerWeek: 1,
+      badges: [],
+      order: 999999,
+      cardsEnabled: true,
+      viMode: false,
+    };
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("creates the note and its folder", async () => {
+    const result = await captureToTarget(vault, { name: "Log", path: "Projects/X/{{date:YYYY}}-log" }, "Shipped", date);
+
+    expect(result.success).toBe(true);
+    expect(result.notePath).toBe(join(testDir, "Projects/X/2026-log.md"));
+    expect(await readFile(result.notePath, "utf-8")).toBe("- [09:05] Shipped\n");
+  });
+
+  test("adds to an existing note and records its previous version", async () => {
+    await writeFile(join(testDir, "reading.md"), "# Reading\n\n## To Read\n\n- [ ] Dune\n");
+
+    const result = await captureToTarget(
+      vault,
+      { name: "Reading", path: "reading.md", heading: "To Read", format: "- [ ] {{text}}", position: "prepend" },
+      "Emma",
+      date
+    );
+
+    expect(result.success).toBe(true);
+    expect(await readFile(join(testDir, "reading.md"), "utf-8")).toBe(
+      "# Reading\n\n## To Read\n\n- [ ] Emma\n- [ ] Dune\n"
+    );
+    const { versions } = await listVersions(vault, "reading.md");
+    expect(versions.map((v) => v.source)).toEqual(["capture"]);
+  });
+
+  test("rejects a target outside the vault", async () => {
+    const result = await captureToTarget(vault, { name: "Escape", path: "../outside.md" }, "Nope", date);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("outside the vault");
+  });
+
+  test("rejects empty text", async () => {
+    const result = await captureToTarget(vault, { name: "Log", path: "log.md" }, "  ", date);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("Cannot capture empty text");
+  });
+});
+
+// =============================================================================
+// Daily Note Formats
+// =============================================================================
+
+describe("formatDailyNoteDate", () => {
+  const date = new Date(2026, 9, 3);
+
+  test("formats moment-style tokens", () => {
+    expect(formatDailyNoteDate(date, "YYYY/MM/YYYY-MM-DD dddd")).toBe("2026/10/2026-10-03 Saturday");
+    expect(formatDailyNoteDate(date, "MMMM Do, YY (ddd)")).toBe("October 3rd, 26 (Sat)");
+    expect(formatDailyNoteDate(date, "D.M.YYYY [Q]Q")).toBe("3.10.2026 Q4");
+  });
+
+  test("defaults to YYYY-MM-DD", () => {
+    expect(formatDailyNoteDate(date)).toBe("2026-10-03");
+  });
+});
+
+describe("parseDailyNoteDate", () => {
+  test("reads the date back from a path in the format", () => {
+    const date = parseDailyNoteDate("2026/10/2026-10-03 Saturday.md", "YYYY/MM/YYYY-MM-DD dddd");
+    expect(date).toEqual(new Date(2026, 9, 3));
+    expect(parseDailyNoteDate("October 3rd, 2026.md", "MMMM Do, YYYY")).toEqual(new Date(2026, 9, 3));
+  });
+
+  test("rejects other files and impossible dates", () => {
+    expect(parseDailyNoteDate("2026-10-03.txt")).toBeNull();
+    expect(parseDailyNoteDate("meetings.md")).toBeNull();
+    expect(parseDailyNoteDate("2026-02-30.md")).toBeNull();
+    expect(parseDailyNoteDate("2026-10-03 Monday.md", "YYYY-MM-DD dddd")).toBeNull();
+  });
+});
+
+describe("renderDailyNoteTemplate", () => {
+  test("fills in date, time, and title placeholders", () => {
+    const date = new Date(2026, 9, 3, 7, 5);
+    const template = "# {{title}}\n\nCreated {{date}} at {{time}} ({{date:dddd}})\n";
+    expect(renderDailyNoteTemplate(template, date, "2026-10-03 Saturday", "YYYY-MM-DD")).toBe(
+      "# 2026-10-03 Saturday\n\nCreated 2026-10-03 at 07:05 (Saturday)\n"
+    );
+  });
+});
+
+describe("daily note settings", () => {
+  let testDir: string;
+  let vault: VaultInfo;
+  const date = new Date(2026, 9, 3, 9, 5);
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `daily-note-settings-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    vault = {
+      id: "test-vault",
+      name: "Test Vault",
+      path: testDir,
+      hasClaudeMd: true,
+      contentRoot: testDir,
+      inboxPath: "00_Inbox",
+      metadataPath: "06_Metadata/memory-loop",
+      attachmentPath: "05_Attachments",
+      setupComplete: false,
+      promptsPerGeneration: 5,
+      maxPoolSize: 50,
+      quotesPerWeek: 1,
+      badges: [],
+      order: 999999,
+      cardsEnabled: true,
+      viMode: false,
+      dailyNoteFormat: "YYYY/MM/YYYY-MM-DD dddd",
+      dailyNoteFolder: "Journal",
+    };
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("captures to the note at the configured folder and format", async () => {
+    const result = await captureToDaily(vault, "Coffee with Ann", date);
+
+    const notePath = join(testDir, "Journal", "2026", "10", "2026-10-03 Saturday.md");
+    expect(result.notePath).toBe(notePath);
+    const content = await readFile(notePath, "utf-8");
+    expect(content).toBe("# 2026-10-03 Saturday\n\n## Capture\n\n- [09:05] Coffee with Ann\n");
+  });
+
+  test("creates new notes from the template file", async () => {
+    vault.dailyNoteTemplatePath = "Templates/Daily";
+    await mkdir(join(testDir, "Templates"), { recursive: true });
+    await writeFile(join(testDir, "Templates", "Daily.md"), "---\ncreated: {{date:YYYY-MM-DD}}\n---\n# {{title}}\n");
+
+    await captureToDaily(vault, "Coffee with Ann", date);
+
+    const content = await readFile(join(testDir, "Journal", "2026", "10", "2026-10-03 Saturday.md"), "utf-8");
+    expect(content).toBe(
+      "---\ncreated: 2026-10-03\n---\n# 2026-10-03 Saturday\n\n## Capture\n\n- [09:05] Coffee with Ann\n"
+    );
+  });
+
+  test("falls back to the built-in template when the template is missing", async () => {
+    vault.dailyNoteTemplatePath = "Templates/Missing.md";
+
+    const result = await captureToDaily(vault, "Coffee with Ann", date);
+
+    expect(result.success).toBe(true);
+    const content = await readFile(result.notePath, "utf-8");
+    expect(content).toContain("# 2026-10-03 Saturday");
+  });
+
+  test("finds recent captures in nested daily notes", async () => {
+    await captureToDaily(vault, "Older", new Date(2026, 8, 30, 8, 0));
+    await captureToDaily(vault, "Newer", date);
+    await mkdir(join(testDir, "Journal", "2026", "10", "attachments"), { recursive: true });
+    await writeFile(join(testDir, "Journal", "2026", "10", "notes.md"), "## Capture\n\n- [10:00] Not a daily note\n");
+
+    const notes = await getRecentNotes(vault, 5);
+
+    expect(notes.map((n) => [n.text, n.date, n.path])).toEqual([
+      ["Newer", "2026-10-03", "Journal/2026/10/2026-10-03 Saturday.md"],
+      ["Older", "2026-09-30", "Journal/2026/09/2026-09-30 Wednesday.md"],
+    ]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Note Links Tests
+ *
+ * Unit tests for link extraction, resolution and mention finding, plus
+ * integration tests for the link graph exposed by SearchIndexManager.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { extractNoteLinks, findMentions, LinkGraph } from "../search/note-links";
+import { SearchIndexManager } from "../search/search-index";
+
+// =============================================================================
+// extractNoteLinks
+// =============================================================================
+
+describe("extractNoteLinks", () => {
+  test("extracts wikilinks with headings, aliases and embeds", () => {
+    const links = extractNoteLinks("See [[Project Plan#Goals|the plan]] and ![[diagram]].");
+    expect(links.map((l) => [l.target, l.kind, l.embed ?? false])).toEqual([
+      ["Project Plan", "wikilink", false],
+      ["diagram", "wikilink", true],
+    ]);
+    expect(links[0].line).toBe(1);
+    expect(links[0].context).toBe("See [[Project Plan#Goals|the plan]] and ![[diagram]].");
+  });
+
+  test("extracts markdown links to notes and skips external ones", () => {
+    const links = extractNoteLinks(
+      "[a](notes/a.md) [b](<My Note.md#top>) [c](My%20Other) [web](https://example.com) [h](#heading)"
+    );
+    expect(links.map((l) => l.target)).toEqual(["notes/a.md", "My Note.md", "My Other"]);
+    expect(links.every((l) => l.kind === "markdown")).toBe(true);
+  });
+
+  test("skips attachments, code and frontmatter", () => {
+    const content = [
+      "---",
+      "related: \"[[In Frontmatter]]\"",
+      "---",
+      "![[photo.png]] [pdf](files/doc.pdf)",
+      "`[[inline code]]`",
+      "```",
+      "[[fenced]]",
+      "```",
+      "[[v1.2 release]]",
+    ].join("\n");
+    const links = extractNoteLinks(content);
+    expect(links.map((l) => [l.target, l.line])).toEqual([["v1.2 release", 9]]);
+  });
+
+  test("includes attachments when asked", () => {
+    const links = extractNoteLinks("![[photo.png]] [pdf](files/doc.pdf) [[Note]]", {
+      includeAttachments: true,
+    });
+    expect(links.map((l) => l.target)).toEqual(["photo.png", "Note", "files/doc.pdf"]);
+  });
+});
+
+// =============================================================================
+// findMentions
+// =============================================================================
+
+describe("findMentions", () => {
+  test("finds whole-word, case-insensitive mentions outside links", () => {
+    const content = [
+      "Talked about the project plan today.",
+      "Linked: [[Project Plan]]",
+      "Not a match: project planning",
+      "```",
+      "project plan",
+      "```",
+    ].join("\n");
+    expect(findMentions(content, "Project Plan")).toEqual([
+      { line: 1, context: "Talked about the project plan today." },
+    ]);
+  });
+});
+
+// =============================================================================
+// LinkGraph
+// =============================================================================
+
+describe("LinkGraph", () => {
+  const graph = new LinkGraph([
+    {
+      path: "daily/today.md",
+      links: [
+        { target: "Plan", kind: "wikilink", line: 1, context: "[[Plan]]" },
+        { target: "projects/alpha/notes", kind: "wikilink", line: 2, context: "" },
+        { target: "../projects/beta/notes.md", kind: "markdown", line: 3, context: "" },
+        { target: "Missing", kind: "wikilink", line: 4, context: "" },
+      ],
+    },
+    { path: "projects/Plan.md", links: [{ target: "plan", kind: "wikilink", line: 1, context: "" }] },
+    { path: "projects/alpha/notes.md" },
+    { path: "projects/beta/notes.md" },
+    { path: "archive/old/Plan.md" },
+  ]);
+
+  test("resolves by name preferring the shortest path, case-insensitively", () => {
+    expect(graph.resolve("plan", "wikilink", "daily/today.md")).toBe("projects/Plan.md");
+  });
+
+  test("prefers a same-folder match", () => {
+    expect(graph.resolve("Plan", "wikilink", "archive/old/index.md")).toBe("archive/old/Plan.md");
+  });
+
+  test("resolves path-qualified wikilinks and relative markdown links", () => {
+    const outgoing = graph.getOutgoing("daily/today.md");
+    expect(outgoing.map((l) => l.resolvedPath)).toEqual([
+      "projects/Plan.md",
+      "projects/alpha/notes.md",
+      "projects/beta/notes.md",
+      null,
+    ]);
+  });
+
+  test("finds files by name, keeping attachment extensions distinct", () => {
+    const withAttachment = new LinkGraph([{ path: "Plan.md" }, { path: "assets/Plan.png" }]);
+    expect(withAttachment.findByName("plan")).toEqual(["Plan.md"]);
+    expect(withAttachment.findByName("old/Plan.png")).toEqual(["assets/Plan.png"]);
+    expect(withAttachment.resolve("Plan.png", "wikilink", "Plan.md")).toBe("assets/Plan.png");
+  });
+
+  test("lists backlinks without self-links", () => {
+    const backlinks = graph.getBacklinks("projects/Plan.md");
+    expect(backlinks.map((l) => l.sourcePath)).toEqual(["daily/today.md"]);
+  });
+
+  test("lists unresolved links per note or vault-wide", () => {
+    expect(graph.getUnresolved("daily/today.md").map((l) => l.target)).toEqual(["Missing"]);
+    expect(graph.getUnresolved("projects/Plan.md")).toEqual([]);
+    expect(graph.getUnresolved().map((l) => l.sourcePath)).toEqual(["daily/today.md"]);
+  });
+});
+
+// =============================================================================
+// SearchIndexManager integration
+// =============================================================================
+
+describe("SearchIndexManager links", () => {
+  let testDir: string;
+  let manager: SearchIndexManager;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `note-links-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "projects"), { recursive: true });
+    await writeFile(join(testDir, "projects", "Roadmap.md"), "# Roadmap\n\nLinks to [[Ideas]].");
+    await writeFile(join(testDir, "Ideas.md"), "# Ideas\n\nBack to [the roadmap](projects/Roadmap.md).");
+    await writeFile(join(testDir, "journal.md"), "Reviewed the roadmap with the team.\n\nSee [[Nowhere]].");
+    manager = new SearchIndexManager(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("builds backlinks and unresolved links from indexed content", async () => {
+    const graph = await manager.getLinkGraph();
+    expect(graph.getBacklinks("Ideas.md").map((l) => l.sourcePath)).toEqual(["projects/Roadmap.md"]);
+    expect(graph.getBacklinks("projects/Roadmap.md").map((l) => l.sourcePath)).toEqual(["Ideas.md"]);
+    expect(graph.getUnresolved().map((l) => l.target)).toEqual(["Nowhere"]);
+  });
+
+  test("rebuilds the graph after a file changes", async () => {
+    await manager.getLinkGraph();
+    await writeFile(join(testDir, "journal.md"), "Now linking [[Roadmap]].");
+    await manager.updateFile("journal.md");
+
+    const graph = await manager.getLinkGraph();
+    expect(graph.getBacklinks("projects/Roadmap.md").map((l) => l.sourcePath)).toEqual([
+      "Ideas.md",
+      "journal.md",
+    ]);
+  });
+
+  test("persists links with the saved index", async () => {
+    await manager.getLinkGraph();
+    await manager.saveIndex();
+
+    const reloaded = new SearchIndexManager(testDir);
+    expect(await reloaded.loadIndex()).toBe(true);
+    const graph = await reloaded.getLinkGraph();
+    expect(graph.getBacklinks("Ideas.md").length).toBe(1);
+  });
+
+  test("finds unlinked mentions of a note title", async () => {
+    const mentions = await manager.findUnlinkedMentions("projects/Roadmap.md");
+    expect(mentions.map((m) => [m.sourcePath, m.line, m.kind])).toEqual([
+      ["journal.md", 1, "mention"],
+    ]);
+    expect(mentions[0].resolvedPath).toBe("projects/Roadmap.md");
+  });
+});
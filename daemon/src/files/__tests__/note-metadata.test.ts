@@ -0,0 +1,48 @@
+/**
+ * Note Metadata Tests
+ *
+ * Unit tests for tag and task extraction used by structured search filters.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { extractNoteMetadata } from "../search/note-metadata";
+
+describe("extractNoteMetadata", () => {
+  test("reads frontmatter tag arrays", () => {
+    const { tags } = extractNoteMetadata("---\ntags:\n  - Project\n  - '#work/alpha'\n---\nBody");
+    expect(tags.sort()).toEqual(["project", "work/alpha"]);
+  });
+
+  test("reads comma-separated frontmatter tag strings", () => {
+    const { tags } = extractNoteMetadata("---\ntags: reading, ideas\n---\n");
+    expect(tags.sort()).toEqual(["ideas", "reading"]);
+  });
+
+  test("collects inline tags but not headings, numbers or code", () => {
+    const content = [
+      "# Heading",
+      "Working on #Project/Beta and (#idea).",
+      "Issue #123 is numeric.",
+      "```",
+      "#not-a-tag",
+      "```",
+    ].join("\n");
+    const { tags } = extractNoteMetadata(content);
+    expect(tags.sort()).toEqual(["idea", "project/beta"]);
+  });
+
+  test("deduplicates tags across frontmatter and body", () => {
+    const { tags } = extractNoteMetadata("---\ntags: [project]\n---\nSee #project");
+    expect(tags).toEqual(["project"]);
+  });
+
+  test("counts tasks by state", () => {
+    const content = "- [ ] one\n- [x] two\n  - [X] three\n- [/] four\nnot - [ ] a task";
+    expect(extractNoteMetadata(content).tasks).toEqual({ open: 1, total: 4, states: { x: 2, "/": 1 } });
+  });
+
+  test("tolerates malformed frontmatter", () => {
+    const result = extractNoteMetadata("---\ntags: [unclosed\n---\n#ok");
+    expect(result.tags).toEqual(["ok"]);
+  });
+});
@@ -338,4 +338,59 @@ describe("updateReferences - Edge Cases", () => {
     const content = await readFile(join(testDir, "index.md"), "utf-8");
     expect(content).toBe("Link: [[new-name]]");
   });
+
+  test("calls beforeWrite with the original content of each changed file", async () => {
+    await mkdir(join(testDir, "notes"));
+    await writeFile(join(testDir, "notes", "a.md"), "Link: [[old-file]]");
+    await writeFile(join(testDir, "b.md"), "No references here.");
+
+    const calls: Array<[string, string]> = [];
+    await updateReferences(testDir, "old-file.md", "new-file.md", false, (path, previous) => {
+      calls.push([path, previous]);
+      return Promise.resolve();
+    });
+
+    expect(calls).toEqual([["notes/a.md", "Link: [[old-file]]"]]);
+  });
+});
+
+// =============================================================================
+// Attachment Reference Tests
+// =============================================================================
+
+describe("updateReferences - Attachments", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDir(testDir);
+  });
+
+  test("updates embeds written with the extension", async () => {
+    await writeFile(
+      join(testDir, "index.md"),
+      "![[old/photo.png]] and ![[photo.png]] and ![](old/photo.png)"
+    );
+
+    const result = await updateReferences(testDir, "old/photo.png", "assets/image.png", false);
+
+    expect(result.referencesUpdated).toBe(3);
+
+    const content = await readFile(join(testDir, "index.md"), "utf-8");
+    expect(content).toBe("![[assets/image.png]] and ![[image.png]] and ![](assets/image.png)");
+  });
+
+  test("does not count name-only links when a move keeps the name", async () => {
+    await writeFile(join(testDir, "index.md"), "[[note]] and [[old/note]]");
+
+    const result = await updateReferences(testDir, "old/note.md", "new/note.md", false);
+
+    expect(result.referencesUpdated).toBe(1);
+
+    const content = await readFile(join(testDir, "index.md"), "utf-8");
+    expect(content).toBe("[[note]] and [[new/note]]");
+  });
 });
@@ -13,7 +13,7 @@ import { mkdir, writeFile, readFile, rm, symlink } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
-import { SearchIndexManager, type IndexData } from "../search/search-index";
+import { SearchIndexManager, INDEX_VERSION, type IndexData } from "../search/search-index";
 import { setFileMtime } from "./test-helpers";
 
 // =============================================================================
@@ -362,6 +362,119 @@ describe("SearchIndexManager", () => {
     });
   });
 
+  // ===========================================================================
+  // Structured Query Tests
+  // ===========================================================================
+
+  describe("searchContent structured queries", () => {
+    beforeEach(async () => {
+      await writeFile(
+        join(vaultPath, "projects", "tagged.md"),
+        "---\ntags: [project, work/alpha]\n---\n# Tagged\n\nRoadmap draft\n- [x] Shipped\n"
+      );
+      await writeFile(
+        join(vaultPath, "notes", "inline-tag.md"),
+        "# Inline\n\nRoadmap ideas #project/beta\n- [ ] Open item\n- [-] Dropped item\n"
+      );
+      await writeFile(
+        join(vaultPath, "notes", "plain.md"),
+        "# Plain\n\nRoadmap with no tags and a draft\n"
+      );
+      await setFileMtime(join(vaultPath, "notes", "plain.md"), new Date(2025, 0, 15));
+      await setFileMtime(join(vaultPath, "notes", "inline-tag.md"), new Date(2025, 5, 1));
+      await setFileMtime(join(vaultPath, "projects", "tagged.md"), new Date(2026, 1, 1));
+      await manager.rebuildIndex();
+    });
+
+    test("tag: matches frontmatter and nested inline tags", async () => {
+      const results = await manager.searchContent("tag:#project");
+      const paths = results.map((r) => r.path).sort();
+      expect(paths).toEqual(["notes/inline-tag.md", "projects/tagged.md"]);
+    });
+
+    test("tag: matches nested frontmatter tags by parent", async () => {
+      const results = await manager.searchContent("tag:work");
+      expect(results.map((r) => r.path)).toEqual(["projects/tagged.md"]);
+    });
+
+    test("path: restricts results to a prefix", async () => {
+      const results = await manager.searchContent("roadmap path:notes/");
+      const paths = results.map((r) => r.path).sort();
+      expect(paths).toEqual(["notes/inline-tag.md", "notes/plain.md"]);
+    });
+
+    test("after: and before: filter by modification date", async () => {
+      const results = await manager.searchContent("roadmap after:2025-03-01 before:2026-01-01");
+      expect(results.map((r) => r.path)).toEqual(["notes/inline-tag.md"]);
+    });
+
+    test("has:task and task:open filter on checkbox tasks", async () => {
+      const anyTask = await manager.searchContent("roadmap has:task");
+      expect(anyTask.map((r) => r.path).sort()).toEqual([
+        "notes/inline-tag.md",
+        "projects/tagged.md",
+      ]);
+
+      const openTask = await manager.searchContent("roadmap task:open");
+      expect(openTask.map((r) => r.path)).toEqual(["notes/inline-tag.md"]);
+    });
+
+    test("task:done uses the given done states", async () => {
+      const byDefault = await manager.searchContent("roadmap task:done");
+      expect(byDefault.map((r) => r.path)).toEqual(["projects/tagged.md"]);
+
+      const withCancelled = await manager.searchContent("roadmap task:done", { doneStates: ["x", "-"] });
+      expect(withCancelled.map((r) => r.path).sort()).toEqual([
+        "notes/inline-tag.md",
+        "projects/tagged.md",
+      ]);
+    });
+
+    test("quoted phrases must appear literally", async () => {
+      const results = await manager.searchContent('"roadmap draft"');
+      expect(results.map((r) => r.path)).toEqual(["projects/tagged.md"]);
+    });
+
+    test("exclusions drop files containing the term", async () => {
+      const results = await manager.searchContent("roadmap -draft");
+      expect(results.map((r) => r.path)).toEqual(["notes/inline-tag.md"]);
+    });
+
+    test("negated filters invert the match", async () => {
+      const results = await manager.searchContent("roadmap -tag:project");
+      expect(results.map((r) => r.path)).toEqual(["notes/plain.md"]);
+    });
+
+    test("filter-only queries return newest files first", async () => {
+      const results = await manager.searchContent("path:notes/ has:task");
+      expect(results[0].path).toBe("notes/inline-tag.md");
+      expect(results.every((r) => r.matchCount >= 1)).toBe(true);
+    });
+
+    test("exclusion-only queries return nothing", async () => {
+      expect(await manager.searchContent("-roadmap")).toEqual([]);
+    });
+
+    test("metadata is refreshed by updateIndex", async () => {
+      const plainPath = join(vaultPath, "notes", "plain.md");
+      await writeFile(plainPath, "# Plain\n\nNow tagged #project\n");
+      await setFileMtime(plainPath, new Date(2026, 2, 1));
+      await manager.updateIndex();
+
+      const results = await manager.searchContent("tag:project path:notes/plain");
+      expect(results.map((r) => r.path)).toEqual(["notes/plain.md"]);
+    });
+
+    test("snippets highlight terms, falling back to tag filters", async () => {
+      const termSnippets = await manager.getSnippets("notes/plain.md", "roadmap path:notes/");
+      expect(termSnippets.length).toBe(1);
+
+      const tagSnippets = await manager.getSnippets("notes/inline-tag.md", "tag:project");
+      expect(tagSnippets.length).toBe(1);
+      expect(tagSnippets[0].line).toContain("#project/beta");
+    });
+  });
+
   // ===========================================================================
   // Snippet Extraction Tests
   // ===========================================================================
@@ -905,7 +1018,7 @@ describe("index persistence", () => {
       const content = await readFile(indexPath, "utf-8");
       const indexData = JSON.parse(content) as IndexData;
 
-      expect(indexData.version).toBe("1.0.0");
+      expect(indexData.version).toBe(INDEX_VERSION);
       expect(indexData.fileList.length).toBeGreaterThan(0);
       expect(indexData.contentIndex).toBeDefined();
     });
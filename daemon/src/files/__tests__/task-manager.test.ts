@@ -19,12 +19,26 @@ import {
   parseTasksFromFile,
   getAllTasks,
   toggleTask,
+  parseTaskMetadata,
+  setTaskDoneDate,
+  createNextOccurrence,
+  findTaskParents,
+  updateTaskText,
+  addTask,
+  editTask,
+  deleteTask,
+  moveTask,
 } from "../task-manager";
+import { formatDateForFilename } from "@memory-loop/shared";
+import { listVersions } from "../file-history";
 
 // =============================================================================
 // Test Helpers
 // =============================================================================
 
+/** Completion date suffix that toggleTask appends when a task is checked off */
+const DONE = ` ✅ ${formatDateForFilename(new Date())}`;
+
 /**
  * Creates a unique temporary directory for testing.
  */
@@ -219,6 +233,183 @@ describe("getNextState", () => {
     }
     expect(state).toBe(" ");
   });
+
+  test("follows a configured cycle", () => {
+    const cycle = [" ", ">", "x"];
+    expect(getNextState(" ", cycle)).toBe(">");
+    expect(getNextState(">", cycle)).toBe("x");
+    expect(getNextState("x", cycle)).toBe(" ");
+    expect(getNextState("/", cycle)).toBe(" ");
+  });
+});
+
+// =============================================================================
+// parseTaskMetadata Tests
+// =============================================================================
+
+describe("parseTaskMetadata", () => {
+  test("returns no fields for plain text", () => {
+    expect(parseTaskMetadata("Buy groceries")).toEqual({});
+  });
+
+  test("parses dates, priority, and recurrence", () => {
+    expect(parseTaskMetadata("Pay rent ⏫ 🔁 every month 📅 2026-11-01")).toEqual({
+      description: "Pay rent",
+      priority: "high",
+      recurrence: "every month",
+      dueDate: "2026-11-01",
+    });
+  });
+
+  test("parses scheduled, start, and done dates", () => {
+    expect(
+      parseTaskMetadata("Write report 🛫 2026-10-01 ⏳ 2026-10-05 ✅ 2026-10-06")
+    ).toEqual({
+      description: "Write report",
+      startDate: "2026-10-01",
+      scheduledDate: "2026-10-05",
+      doneDate: "2026-10-06",
+    });
+  });
+
+  test("maps every priority emoji", () => {
+    expect(parseTaskMetadata("a 🔺").priority).toBe("highest");
+    expect(parseTaskMetadata("a ⏫").priority).toBe("high");
+    expect(parseTaskMetadata("a 🔼").priority).toBe("medium");
+    expect(parseTaskMetadata("a 🔽").priority).toBe("low");
+    expect(parseTaskMetadata("a ⏬").priority).toBe("lowest");
+  });
+
+  test("strips created and cancelled dates without exposing them", () => {
+    expect(parseTaskMetadata("Call Sam ➕ 2026-09-01 ❌ 2026-09-02")).toEqual({
+      description: "Call Sam",
+    });
+  });
+
+  test("stops recurrence at tags and block IDs", () => {
+    const metadata = parseTaskMetadata("Water plants 🔁 every week on Sunday #home ^abc123");
+    expect(metadata.recurrence).toBe("every week on Sunday");
+    expect(metadata.description).toBe("Water plants #home ^abc123");
+  });
+
+  test("ignores malformed dates", () => {
+    expect(parseTaskMetadata("Someday 📅 soon").dueDate).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// setTaskDoneDate Tests
+// =============================================================================
+
+describe("setTaskDoneDate", () => {
+  test("appends the completion date", () => {
+    expect(setTaskDoneDate("Pay rent 📅 2026-11-01", "2026-10-19")).toBe(
+      "Pay rent 📅 2026-11-01 ✅ 2026-10-19"
+    );
+  });
+
+  test("keeps a trailing block ID at the end", () => {
+    expect(setTaskDoneDate("Pay rent ^abc123", "2026-10-19")).toBe(
+      "Pay rent ✅ 2026-10-19 ^abc123"
+    );
+  });
+
+  test("replaces an existing completion date", () => {
+    expect(setTaskDoneDate("Pay rent ✅ 2026-01-01", "2026-10-19")).toBe(
+      "Pay rent ✅ 2026-10-19"
+    );
+  });
+
+  test("removes the completion date when date is null", () => {
+    expect(setTaskDoneDate("Pay rent ✅ 2026-01-01 ^abc123", null)).toBe("Pay rent ^abc123");
+  });
+});
+
+// =============================================================================
+// createNextOccurrence Tests
+// =============================================================================
+
+describe("createNextOccurrence", () => {
+  test("returns null without a valid recurrence rule", () => {
+    expect(createNextOccurrence("Pay rent 📅 2026-10-01", "2026-10-19")).toBeNull();
+    expect(createNextOccurrence("Pay rent 🔁 whenever 📅 2026-10-01", "2026-10-19")).toBeNull();
+  });
+
+  test("moves the due date to the next occurrence", () => {
+    expect(
+      createNextOccurrence("Pay rent ⏫ 🔁 every month on the 1st 📅 2026-10-01 ✅ 2026-10-02", "2026-10-02")
+    ).toBe("Pay rent ⏫ 🔁 every month on the 1st 📅 2026-11-01");
+  });
+
+  test("shifts scheduled and start dates by the same amount", () => {
+    expect(
+      createNextOccurrence("Water plants 🔁 every week 🛫 2026-10-14 ⏳ 2026-10-15 📅 2026-10-17", "2026-10-19")
+    ).toBe("Water plants 🔁 every week 🛫 2026-10-21 ⏳ 2026-10-22 📅 2026-10-24");
+  });
+
+  test("computes from the completion date for when done rules", () => {
+    expect(createNextOccurrence("Gym 🔁 every 2 days when done 📅 2026-10-01", "2026-10-19")).toBe(
+      "Gym 🔁 every 2 days when done 📅 2026-10-21"
+    );
+  });
+
+  test("adds a due date to a task without dates", () => {
+    expect(createNextOccurrence("Standup notes 🔁 every weekday", "2026-10-16")).toBe(
+      "Standup notes 🔁 every weekday 📅 2026-10-19"
+    );
+  });
+
+  test("drops the block ID", () => {
+    expect(createNextOccurrence("Pay rent 🔁 every month 📅 2026-10-01 ^rent", "2026-10-01")).toBe(
+      "Pay rent 🔁 every month 📅 2026-11-01"
+    );
+  });
+});
+
+// =============================================================================
+// findTaskParents Tests
+// =============================================================================
+
+describe("findTaskParents", () => {
+  test("nests indented tasks under the task above", () => {
+    const lines = [
+      "- [ ] Launch",
+      "  - [ ] Write copy",
+      "    - [x] Draft",
+      "  - [ ] Ship",
+      "- [ ] Unrelated",
+    ];
+
+    expect(findTaskParents(lines)).toEqual(
+      new Map([
+        [2, 1],
+        [3, 2],
+        [4, 1],
+      ])
+    );
+  });
+
+  test("counts a tab as one level", () => {
+    expect(findTaskParents(["- [ ] Parent", "\t- [ ] Child"])).toEqual(new Map([[2, 1]]));
+  });
+
+  test("looks through plain bullets to the nearest task", () => {
+    const lines = ["- [ ] Parent", "  - Notes", "    - [ ] Child"];
+
+    expect(findTaskParents(lines)).toEqual(new Map([[3, 1]]));
+  });
+
+  test("keeps the outline across blank lines and continuation text", () => {
+    const lines = ["- [ ] Parent", "  more about it", "", "  - [ ] Child"];
+
+    expect(findTaskParents(lines)).toEqual(new Map([[4, 1]]));
+  });
+
+  test("a heading or paragraph ends the list", () => {
+    const lines = ["- [ ] Parent", "## Later", "  - [ ] Not a child"];
+
+    expect(findTaskParents(lines).size).toBe(0);
+  });
 });
 
 // =============================================================================
@@ -456,6 +647,24 @@ describe("parseTasksFromFile", () => {
     expect(tasks[2].lineNumber).toBe(5);
   });
 
+  test("parses Obsidian Tasks metadata into typed fields", async () => {
+    await writeFile(
+      join(testDir, "note.md"),
+      "- [ ] Pay rent ⏫ 🔁 every month 📅 2026-11-01\n- [ ] Plain task"
+    );
+
+    const tasks = await parseTasksFromFile(testDir, "note.md", "inbox");
+    expect(tasks[0]).toMatchObject({
+      text: "Pay rent ⏫ 🔁 every month 📅 2026-11-01",
+      description: "Pay rent",
+      dueDate: "2026-11-01",
+      priority: "high",
+      recurrence: "every month",
+    });
+    expect(tasks[1].description).toBeUndefined();
+    expect(tasks[1].dueDate).toBeUndefined();
+  });
+
   test("correctly captures all six states", async () => {
     const content = `- [ ] Incomplete
 - [x] Complete
@@ -609,6 +818,19 @@ Line 4
     expect(tasks[1].lineNumber).toBe(2);
     expect(tasks[2].lineNumber).toBe(3);
   });
+
+  test("links nested tasks to their parent", async () => {
+    const content = `- [ ] Launch
+  - [ ] Write copy
+  - [x] Book venue
+`;
+    await writeFile(join(testDir, "note.md"), content);
+
+    const tasks = await parseTasksFromFile(testDir, "note.md", "inbox");
+    expect(tasks[0].parentLineNumber).toBeUndefined();
+    expect(tasks[1].parentLineNumber).toBe(1);
+    expect(tasks[2].parentLineNumber).toBe(1);
+  });
 });
 
 // =============================================================================
@@ -787,6 +1009,28 @@ describe("getAllTasks", () => {
     const result = await getAllTasks(testDir, {});
     expect(result.tasks).toHaveLength(1);
   });
+
+  test("scans configured task scopes with their categories", async () => {
+    await mkdir(join(testDir, "Work", "Clients"), { recursive: true });
+    await writeFile(join(testDir, "Work", "plan.md"), "- [ ] Work task");
+    await writeFile(join(testDir, "Work", "Clients", "acme.md"), "- [-] Cancelled task");
+    await writeFile(join(testDir, "00_Inbox", "daily.md"), "- [ ] Inbox task");
+    await writeFile(join(testDir, "01_Projects", "p.md"), "- [ ] Not scanned");
+
+    const result = await getAllTasks(testDir, {
+      taskScopes: [
+        { path: "Work/Clients", label: "Clients" },
+        { path: "Work", label: "Work" },
+        { path: "00_Inbox", label: "Inbox", category: "inbox" },
+      ],
+    });
+
+    expect(result.tasks.map((t) => [t.text, t.category])).toEqual([
+      ["Inbox task", "inbox"],
+      ["Cancelled task", "Clients"],
+      ["Work task", "Work"],
+    ]);
+  });
 });
 
 // =============================================================================
@@ -998,7 +1242,7 @@ Some other content`;
       }
     }
     // Verify target line changed correctly
-    expect(newLines[0]).toBe("- [x] First task");
+    expect(newLines[0]).toBe(`- [x] First task${DONE}`);
   });
 
   test("toggle task on last line - all preceding lines byte-identical", async () => {
@@ -1022,7 +1266,7 @@ Some text
       expect(newLines[i]).toBe(originalLines[i]);
     }
     // Verify target line changed
-    expect(newLines[3]).toBe("- [x] Last task");
+    expect(newLines[3]).toBe(`- [x] Last task${DONE}`);
   });
 
   test("toggle task in middle - lines before and after byte-identical", async () => {
@@ -1049,7 +1293,7 @@ Line 5`;
       }
     }
     // Verify target line changed
-    expect(newLines[2]).toBe("- [x] Middle task");
+    expect(newLines[2]).toBe(`- [x] Middle task${DONE}`);
   });
 
   test("toggle only task in single-line file", async () => {
@@ -1062,7 +1306,7 @@ Line 5`;
     expect(result.newState).toBe("x");
 
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("- [x] Only task");
+    expect(newContent).toBe(`- [x] Only task${DONE}`);
   });
 });
 
@@ -1094,7 +1338,7 @@ describe("toggleTask - Edge Cases", () => {
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
     const newLines = newContent.split("\n");
     expect(newLines[0]).toBe("- [ ] Root task");
-    expect(newLines[1]).toBe("  - [x] Nested task");
+    expect(newLines[1]).toBe(`  - [x] Nested task${DONE}`);
   });
 
   test("task with leading whitespace (4 spaces) - preserve indentation", async () => {
@@ -1105,7 +1349,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("    - [x] Deeply nested");
+    expect(newContent).toBe(`    - [x] Deeply nested${DONE}`);
   });
 
   test("task with tab indentation - preserve indentation", async () => {
@@ -1116,7 +1360,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("\t- [x] Tab indented task");
+    expect(newContent).toBe(`\t- [x] Tab indented task${DONE}`);
   });
 
   test("task with trailing content - preserve trailing content", async () => {
@@ -1127,7 +1371,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("- [x] Task <!-- comment -->");
+    expect(newContent).toBe(`- [x] Task <!-- comment -->${DONE}`);
   });
 
   test("task with special characters - preserve special chars", async () => {
@@ -1138,7 +1382,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe('- [x] Task with emojis \u{1F525} and "quotes" and `code`');
+    expect(newContent).toBe('- [x] Task with emojis \u{1F525} and "quotes" and `code`' + DONE);
   });
 
   test("task with unicode characters - preserve unicode", async () => {
@@ -1149,7 +1393,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("- [x] \u65E5\u672C\u8A9E\u306E\u30BF\u30B9\u30AF");
+    expect(newContent).toBe(`- [x] \u65E5\u672C\u8A9E\u306E\u30BF\u30B9\u30AF${DONE}`);
   });
 
   test("task immediately after heading", async () => {
@@ -1164,7 +1408,7 @@ describe("toggleTask - Edge Cases", () => {
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
     const newLines = newContent.split("\n");
     expect(newLines[0]).toBe(originalLines[0]);
-    expect(newLines[1]).toBe("- [x] Task after heading");
+    expect(newLines[1]).toBe(`- [x] Task after heading${DONE}`);
   });
 
   test("task at EOF without trailing newline", async () => {
@@ -1175,7 +1419,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("- [x] No trailing newline");
+    expect(newContent).toBe(`- [x] No trailing newline${DONE}`);
     expect(newContent.endsWith("\n")).toBe(false);
   });
 
@@ -1187,7 +1431,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("- [x] With trailing newline\n");
+    expect(newContent).toBe(`- [x] With trailing newline${DONE}\n`);
     expect(newContent.endsWith("\n")).toBe(true);
   });
 
@@ -1213,7 +1457,7 @@ describe("toggleTask - Edge Cases", () => {
     expect(newLines[0]).toBe(originalLines[0]);
     expect(newLines[4]).toBe(originalLines[4]);
     // Verify target changed
-    expect(newLines[2]).toBe("- [x] Task 2");
+    expect(newLines[2]).toBe(`- [x] Task 2${DONE}`);
   });
 
   test("task in file in subdirectory", async () => {
@@ -1225,7 +1469,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "subfolder", "note.md"), "utf-8");
-    expect(newContent).toBe("- [x] Nested file task");
+    expect(newContent).toBe(`- [x] Nested file task${DONE}`);
   });
 
   test("task with markdown formatting in text - preserve formatting", async () => {
@@ -1236,7 +1480,7 @@ describe("toggleTask - Edge Cases", () => {
 
     expect(result.success).toBe(true);
     const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(newContent).toBe("- [x] Task with **bold** and _italic_ and [link](url)");
+    expect(newContent).toBe(`- [x] Task with **bold** and _italic_ and [link](url)${DONE}`);
   });
 });
 
@@ -1268,7 +1512,7 @@ describe("toggleTask - State Cycle", () => {
       expect(result.newState).toBe(expectedState);
 
       const newContent = await readFile(join(testDir, "note.md"), "utf-8");
-      expect(newContent).toBe(`- [${expectedState}] ${taskText}`);
+      expect(newContent).toBe(`- [${expectedState}] ${taskText}${expectedState === "x" ? DONE : ""}`);
     }
   });
 
@@ -1280,7 +1524,132 @@ describe("toggleTask - State Cycle", () => {
     expect(result.success).toBe(true);
     expect(result.newState).toBe("x");
     const content = await readFile(join(testDir, "note.md"), "utf-8");
-    expect(content).toBe("- [x] Complete me");
+    expect(content).toBe(`- [x] Complete me${DONE}`);
+  });
+
+  test("completing a task keeps its metadata and block ID", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] Pay rent 📅 2026-11-01 ^rent");
+
+    await toggleTask(testDir, "note.md", 1);
+
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe(`- [x] Pay rent 📅 2026-11-01${DONE} ^rent`);
+  });
+
+  test("moving off x removes the completion date", async () => {
+    await writeFile(join(testDir, "note.md"), "- [x] Pay rent ✅ 2026-01-01");
+
+    const result = await toggleTask(testDir, "note.md", 1);
+
+    expect(result.newState).toBe("/");
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("- [/] Pay rent");
+  });
+
+  test("completing a recurring task inserts the next occurrence below it", async () => {
+    await writeFile(
+      join(testDir, "note.md"),
+      "# Chores\n  - [ ] Water plants 🔁 every week 📅 2026-10-17 ^water\n- [ ] Other"
+    );
+
+    const result = await toggleTask(testDir, "note.md", 2);
+
+    expect(result.nextTask).toEqual({
+      lineNumber: 3,
+      text: "Water plants 🔁 every week 📅 2026-10-24",
+    });
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe(
+      "# Chores\n" +
+        `  - [x] Water plants 🔁 every week 📅 2026-10-17${DONE} ^water\n` +
+        "  - [ ] Water plants 🔁 every week 📅 2026-10-24\n" +
+        "- [ ] Other"
+    );
+  });
+
+  test("completing a recurring parent inserts the next occurrence after its subtasks", async () => {
+    await writeFile(
+      join(testDir, "note.md"),
+      "- [ ] Weekly review 🔁 every week 📅 2026-10-17\n  - [x] Inbox zero\n\n  - [x] Plan week\n\n- [ ] Other"
+    );
+
+    const result = await toggleTask(testDir, "note.md", 1, "x", { date: new Date(2026, 9, 17) });
+
+    expect(result.nextTask?.lineNumber).toBe(5);
+    const lines = (await readFile(join(testDir, "note.md"), "utf-8")).split("\n");
+    expect(lines).toEqual([
+      "- [x] Weekly review 🔁 every week 📅 2026-10-17 ✅ 2026-10-17",
+      "  - [x] Inbox zero",
+      "",
+      "  - [x] Plan week",
+      "- [ ] Weekly review 🔁 every week 📅 2026-10-24",
+      "",
+      "- [ ] Other",
+    ]);
+    // The subtasks stay with the completed instance
+    expect(findTaskParents(lines).get(2)).toBe(1);
+    expect(findTaskParents(lines).get(4)).toBe(1);
+
+    // Reopening and completing it again finds the inserted occurrence
+    await toggleTask(testDir, "note.md", 1, " ");
+    const again = await toggleTask(testDir, "note.md", 1, "x", { date: new Date(2026, 9, 17) });
+    expect(again.nextTask).toBeUndefined();
+  });
+
+  test("completing a reopened recurring task doesn't insert the next occurrence again", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] Gym 🔁 every 2 days when done 📅 2026-10-17");
+
+    await toggleTask(testDir, "note.md", 1, "x", { date: new Date(2026, 9, 18) });
+    await toggleTask(testDir, "note.md", 1, " ");
+    const result = await toggleTask(testDir, "note.md", 1, "x", { date: new Date(2026, 9, 19) });
+
+    expect(result.nextTask).toBeUndefined();
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe(
+      "- [x] Gym 🔁 every 2 days when done 📅 2026-10-17 ✅ 2026-10-19\n" +
+        "- [ ] Gym 🔁 every 2 days when done 📅 2026-10-20"
+    );
+  });
+
+  test("uses the vault's done states for completion dates and recurrence", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] Water plants 🔁 every week 📅 2026-10-17");
+    const options = { doneStates: ["x", "d"], date: new Date(2026, 9, 17) };
+
+    const result = await toggleTask(testDir, "note.md", 1, "d", options);
+
+    expect(result.nextTask?.text).toBe("Water plants 🔁 every week 📅 2026-10-24");
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe(
+      "- [d] Water plants 🔁 every week 📅 2026-10-17 ✅ 2026-10-17\n" +
+        "- [ ] Water plants 🔁 every week 📅 2026-10-24"
+    );
+
+    // Between done states the date stays; leaving them removes it
+    await toggleTask(testDir, "note.md", 1, "x", options);
+    await toggleTask(testDir, "note.md", 1, "/", options);
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe(
+      "- [/] Water plants 🔁 every week 📅 2026-10-17\n" +
+        "- [ ] Water plants 🔁 every week 📅 2026-10-24"
+    );
+  });
+
+  test("other transitions of a recurring task insert nothing", async () => {
+    await writeFile(join(testDir, "note.md"), "- [x] Water plants 🔁 every week 📅 2026-10-17");
+
+    const result = await toggleTask(testDir, "note.md", 1, " ");
+
+    expect(result.nextTask).toBeUndefined();
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("- [ ] Water plants 🔁 every week 📅 2026-10-17");
+  });
+
+  test("dates the completion with the toggle date", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] Pay rent");
+
+    const result = await toggleTask(testDir, "note.md", 1, "x", { date: new Date(2026, 9, 17, 22, 0) });
+
+    expect(result.success).toBe(true);
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("- [x] Pay rent ✅ 2026-10-17");
   });
 
   test("x to / transition preserves task text", async () => {
@@ -1338,6 +1707,17 @@ describe("toggleTask - State Cycle", () => {
     expect(content).toBe("- [ ] Reset me");
   });
 
+  test("follows a configured cycle", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] Defer me");
+
+    const result = await toggleTask(testDir, "note.md", 1, undefined, { cycle: [" ", ">", "x"] });
+
+    expect(result.success).toBe(true);
+    expect(result.newState).toBe(">");
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("- [>] Defer me");
+  });
+
   test("unknown state cycles to space", async () => {
     // Edge case: If somehow an invalid state exists, it should cycle to space
     await writeFile(join(testDir, "note.md"), "- [z] Unknown state");
@@ -1351,6 +1731,100 @@ describe("toggleTask - State Cycle", () => {
   });
 });
 
+// =============================================================================
+// toggleTask Tests - Parent Completion
+// =============================================================================
+
+describe("toggleTask - Parent Completion", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDir(testDir);
+  });
+
+  test("completes the parent and grandparent when the last subtask is done", async () => {
+    const content = [
+      "- [ ] Launch",
+      "  - [x] Write copy",
+      "  - [ ] Venue",
+      "    - [ ] Book venue",
+      "- [ ] Unrelated",
+    ].join("\n");
+    await writeFile(join(testDir, "note.md"), content);
+
+    const result = await toggleTask(testDir, "note.md", 4, "x", { autoCompleteParents: true });
+
+    expect(result.completedParents).toEqual([3, 1]);
+    const updated = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(updated).toBe(
+      [
+        `- [x] Launch${DONE}`,
+        "  - [x] Write copy",
+        `  - [x] Venue${DONE}`,
+        `    - [x] Book venue${DONE}`,
+        "- [ ] Unrelated",
+      ].join("\n")
+    );
+  });
+
+  test("leaves the parent open while a subtask is open", async () => {
+    const content = "- [ ] Launch\n  - [ ] Write copy\n  - [ ] Book venue";
+    await writeFile(join(testDir, "note.md"), content);
+
+    const result = await toggleTask(testDir, "note.md", 2, "x", { autoCompleteParents: true });
+
+    expect(result.completedParents).toBeUndefined();
+    const updated = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(updated.split("\n")[0]).toBe("- [ ] Launch");
+  });
+
+  test("counts configured done states", async () => {
+    const content = "- [ ] Launch\n  - [-] Cancelled\n  - [ ] Book venue";
+    await writeFile(join(testDir, "note.md"), content);
+
+    const result = await toggleTask(testDir, "note.md", 3, "x", {
+      autoCompleteParents: true,
+      doneStates: ["x", "-"],
+    });
+
+    expect(result.completedParents).toEqual([1]);
+  });
+
+  test("does nothing unless enabled", async () => {
+    const content = "- [ ] Launch\n  - [ ] Write copy";
+    await writeFile(join(testDir, "note.md"), content);
+
+    const result = await toggleTask(testDir, "note.md", 2, "x");
+
+    expect(result.completedParents).toBeUndefined();
+    const updated = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(updated).toBe(`- [ ] Launch\n  - [x] Write copy${DONE}`);
+  });
+
+  test("leaves recurring parents open", async () => {
+    const content = "- [ ] Weekly review 🔁 every week\n  - [ ] Inbox zero";
+    await writeFile(join(testDir, "note.md"), content);
+
+    const result = await toggleTask(testDir, "note.md", 2, "x", { autoCompleteParents: true });
+
+    expect(result.completedParents).toBeUndefined();
+  });
+
+  test("a recurring subtask's next occurrence keeps the parent open", async () => {
+    const content = "- [ ] Chores\n  - [ ] Water plants 🔁 every week 📅 2026-10-19";
+    await writeFile(join(testDir, "note.md"), content);
+
+    const result = await toggleTask(testDir, "note.md", 2, "x", { autoCompleteParents: true });
+
+    expect(result.nextTask?.lineNumber).toBe(3);
+    expect(result.completedParents).toBeUndefined();
+  });
+});
+
 // =============================================================================
 // toggleTask Tests - Failure Modes
 // =============================================================================
@@ -1380,6 +1854,30 @@ describe("toggleTask - Failure Modes", () => {
     expect(content).toBe(originalContent);
   });
 
+  test("line no longer holds the expected task - conflict, file unchanged", async () => {
+    const originalContent = "- [ ] Call the bank\n- [ ] Pay rent";
+    await writeFile(join(testDir, "note.md"), originalContent);
+
+    const result = await toggleTask(testDir, "note.md", 1, "x", { expectedText: "Pay rent" });
+
+    expect(result.success).toBe(false);
+    expect(result.conflict).toBe(true);
+    expect(result.error).toContain("expected task");
+
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe(originalContent);
+  });
+
+  test("expected task text ignores the completion date", async () => {
+    await writeFile(join(testDir, "note.md"), "- [x] Pay rent ✅ 2026-10-18");
+
+    const result = await toggleTask(testDir, "note.md", 1, " ", { expectedText: "Pay rent" });
+
+    expect(result.success).toBe(true);
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("- [ ] Pay rent");
+  });
+
   test("negative line number - error, file unchanged", async () => {
     const originalContent = "- [ ] Task";
     await writeFile(join(testDir, "note.md"), originalContent);
@@ -1597,7 +2095,7 @@ const x = "code block";
     }
 
     // Verify target line changed correctly
-    expect(newLines[15]).toBe("- [x] Third task with **bold** and _italic_");
+    expect(newLines[15]).toBe(`- [x] Third task with **bold** and _italic_${DONE}`);
   });
 
   test("multiple toggles on different lines preserve all other content", async () => {
@@ -1624,8 +2122,8 @@ const x = "code block";
     expect(newLines[2]).toBe("- [ ] Task C");
 
     // Task B and D should be toggled
-    expect(newLines[1]).toBe("- [x] Task B");
-    expect(newLines[3]).toBe("- [x] Task D");
+    expect(newLines[1]).toBe(`- [x] Task B${DONE}`);
+    expect(newLines[3]).toBe(`- [x] Task D${DONE}`);
   });
 
   test("Windows CRLF line endings - task on last line (no trailing \\r) works", async () => {
@@ -1642,7 +2140,7 @@ const x = "code block";
 
     const newContent = await readFile(join(testDir, "crlf.md"), "utf-8");
     // Task 3 should be toggled, others unchanged
-    expect(newContent).toBe("- [ ] Task 1\r\n- [ ] Task 2\r\n- [x] Task 3");
+    expect(newContent).toBe(`- [ ] Task 1\r\n- [ ] Task 2\r\n- [x] Task 3${DONE}`);
   });
 
   test("Windows CRLF line endings - middle lines don't match due to trailing \\r", async () => {
@@ -1662,3 +2160,264 @@ const x = "code block";
     expect(newContent).toBe(originalContent);
   });
 });
+
+// =============================================================================
+// updateTaskText Tests
+// =============================================================================
+
+describe("updateTaskText", () => {
+  test("adds and replaces metadata in Tasks plugin order", () => {
+    expect(updateTaskText("Pay rent 📅 2026-11-01", { priority: "high", recurrence: "every month" })).toBe(
+      "Pay rent ⏫ 🔁 every month 📅 2026-11-01"
+    );
+    expect(updateTaskText("Pay rent 📅 2026-11-01", { dueDate: "2026-12-01" })).toBe("Pay rent 📅 2026-12-01");
+  });
+
+  test("null removes a field", () => {
+    expect(updateTaskText("Pay rent 🔼 📅 2026-11-01", { dueDate: null, priority: null })).toBe("Pay rent");
+  });
+
+  test("keeps created, cancelled, and done dates and the block ID", () => {
+    expect(updateTaskText("Pay ➕ 2026-01-01 ✅ 2026-02-02 ^abc", { dueDate: "2026-03-03", priority: "low" })).toBe(
+      "Pay 🔽 ➕ 2026-01-01 📅 2026-03-03 ✅ 2026-02-02 ^abc"
+    );
+  });
+
+  test("a new description keeps existing metadata and parses metadata typed inline", () => {
+    expect(updateTaskText("Old 📅 2026-11-01", { description: "New" })).toBe("New 📅 2026-11-01");
+    expect(updateTaskText("Old 📅 2026-11-01", { description: "New ⏳ 2026-10-30" })).toBe(
+      "New ⏳ 2026-10-30 📅 2026-11-01"
+    );
+  });
+});
+
+// =============================================================================
+// Task Editing Tests
+// =============================================================================
+
+describe("addTask", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDir(testDir);
+  });
+
+  test("appends to the end of the file", async () => {
+    await writeFile(join(testDir, "note.md"), "# Note\n\n- [ ] One\n");
+
+    const result = await addTask(testDir, "note.md", { description: "Two", dueDate: "2026-11-01" });
+
+    expect(result).toEqual({ success: true, filePath: "note.md", lineNumber: 4, text: "Two 📅 2026-11-01" });
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("# Note\n\n- [ ] One\n- [ ] Two 📅 2026-11-01\n");
+  });
+
+  test("adds to the end of an existing heading's section", async () => {
+    await writeFile(join(testDir, "note.md"), "## Tasks\n- [ ] One\n\n## Notes\ntext\n");
+
+    const result = await addTask(testDir, "note.md", { description: "Two" }, { heading: "Tasks" });
+
+    expect(result.lineNumber).toBe(3);
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("## Tasks\n- [ ] One\n- [ ] Two\n\n## Notes\ntext\n");
+  });
+
+  test("creates a missing heading at the end of the file", async () => {
+    await writeFile(join(testDir, "note.md"), "# Note\ntext\n\n");
+
+    const result = await addTask(testDir, "note.md", { description: "Two" }, { heading: "Later" });
+
+    expect(result.lineNumber).toBe(6);
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("# Note\ntext\n\n## Later\n\n- [ ] Two\n");
+  });
+
+  test("creates a missing file from the template", async () => {
+    const result = await addTask(testDir, "00_Inbox/today.md", { description: "Task" }, { template: "# Today\n\n" });
+
+    expect(result.success).toBe(true);
+    const content = await readFile(join(testDir, "00_Inbox/today.md"), "utf-8");
+    expect(content).toBe("# Today\n- [ ] Task\n\n");
+  });
+
+  test("fails for a missing file without a template", async () => {
+    const result = await addTask(testDir, "missing.md", { description: "Task" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("File not found");
+  });
+
+  test("rejects non-markdown files and paths outside the vault", async () => {
+    expect((await addTask(testDir, "data.json", { description: "Task" })).success).toBe(false);
+    expect((await addTask(testDir, "../outside.md", { description: "Task" }, { template: "" })).success).toBe(false);
+  });
+});
+
+describe("editTask", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDir(testDir);
+  });
+
+  test("rewrites text and metadata, keeping state and indentation", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] Parent\n  - [x] Child 📅 2026-11-01\n");
+
+    const result = await editTask(testDir, "note.md", 2, { description: "Renamed", priority: "highest" });
+
+    expect(result).toEqual({ success: true, filePath: "note.md", lineNumber: 2, text: "Renamed 🔺 📅 2026-11-01" });
+    const content = await readFile(join(testDir, "note.md"), "utf-8");
+    expect(content).toBe("- [ ] Parent\n  - [x] Renamed 🔺 📅 2026-11-01\n");
+  });
+
+  test("fails when the line is not a task", async () => {
+    const original = "# Heading\n- [ ] Task";
+    await writeFile(join(testDir, "note.md"), original);
+
+    const result = await editTask(testDir, "note.md", 1, { description: "Nope" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("not a task");
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe(original);
+  });
+
+  test("refuses when the line holds another task", async () => {
+    const original = "- [ ] Call the bank\n- [ ] Pay rent";
+    await writeFile(join(testDir, "note.md"), original);
+
+    const result = await editTask(testDir, "note.md", 1, { description: "Pay the rent" }, { expectedText: "Pay rent" });
+
+    expect(result.success).toBe(false);
+    expect(result.conflict).toBe(true);
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe(original);
+  });
+
+  test("records the previous content in file history", async () => {
+    const vault = { path: testDir, contentRoot: testDir };
+    await writeFile(join(testDir, "note.md"), "- [x] Pay rent ✅ 2026-10-18");
+
+    const result = await editTask(
+      testDir,
+      "note.md",
+      1,
+      { description: "Pay the rent" },
+      { expectedText: "Pay rent", history: vault }
+    );
+
+    expect(result.success).toBe(true);
+    const { versions } = await listVersions(vault, "note.md");
+    expect(versions.map((v) => v.source)).toEqual(["edit"]);
+  });
+});
+
+describe("deleteTask", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDir(testDir);
+  });
+
+  test("removes only the task line", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] One\n- [ ] Two\n- [ ] Three");
+
+    const result = await deleteTask(testDir, "note.md", 2);
+
+    expect(result).toEqual({ success: true, filePath: "note.md", lineNumber: 2, text: "Two" });
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe("- [ ] One\n- [ ] Three");
+  });
+
+  test("fails for an out-of-bounds line", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] One");
+
+    const result = await deleteTask(testDir, "note.md", 3);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("out of bounds");
+  });
+
+  test("refuses when the line holds another task", async () => {
+    await writeFile(join(testDir, "note.md"), "- [ ] One\n- [ ] Two");
+
+    const result = await deleteTask(testDir, "note.md", 1, { expectedText: "Two" });
+
+    expect(result.conflict).toBe(true);
+    expect(await readFile(join(testDir, "note.md"), "utf-8")).toBe("- [ ] One\n- [ ] Two");
+  });
+});
+
+describe("moveTask", () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTestDir();
+  });
+
+  afterEach(async () => {
+    await cleanupTestDir(testDir);
+  });
+
+  test("moves a task to another file, keeping its state and dropping indentation", async () => {
+    await writeFile(join(testDir, "a.md"), "- [ ] Parent\n  - [/] Child 📅 2026-11-01\n");
+    await writeFile(join(testDir, "b.md"), "# B\n");
+
+    const result = await moveTask(testDir, "a.md", 2, "b.md", "Moved");
+
+    expect(result).toEqual({ success: true, filePath: "b.md", lineNumber: 5, text: "Child 📅 2026-11-01" });
+    expect(await readFile(join(testDir, "a.md"), "utf-8")).toBe("- [ ] Parent\n");
+    expect(await readFile(join(testDir, "b.md"), "utf-8")).toBe("# B\n\n## Moved\n\n- [/] Child 📅 2026-11-01\n");
+  });
+
+  test("moves a task to another section of the same file", async () => {
+    await writeFile(join(testDir, "a.md"), "## Today\n- [ ] One\n- [ ] Two\n\n## Later\n- [ ] Three\n");
+
+    const result = await moveTask(testDir, "a.md", 2, "a.md", "Later");
+
+    expect(result.lineNumber).toBe(6);
+    expect(await readFile(join(testDir, "a.md"), "utf-8")).toBe(
+      "## Today\n- [ ] Two\n\n## Later\n- [ ] Three\n- [ ] One\n"
+    );
+  });
+
+  test("leaves the source unchanged when the destination is missing", async () => {
+    await writeFile(join(testDir, "a.md"), "- [ ] One");
+
+    const result = await moveTask(testDir, "a.md", 1, "missing.md");
+
+    expect(result.success).toBe(false);
+    expect(await readFile(join(testDir, "a.md"), "utf-8")).toBe("- [ ] One");
+  });
+
+  test("refuses when the line holds another task", async () => {
+    await writeFile(join(testDir, "a.md"), "- [ ] One\n- [ ] Two");
+    await writeFile(join(testDir, "b.md"), "# B\n");
+
+    const result = await moveTask(testDir, "a.md", 1, "b.md", undefined, { expectedText: "Two" });
+
+    expect(result.conflict).toBe(true);
+    expect(await readFile(join(testDir, "a.md"), "utf-8")).toBe("- [ ] One\n- [ ] Two");
+    expect(await readFile(join(testDir, "b.md"), "utf-8")).toBe("# B\n");
+  });
+
+  test("records both files in file history", async () => {
+    const vault = { path: testDir, contentRoot: testDir };
+    await writeFile(join(testDir, "a.md"), "- [ ] One");
+    await writeFile(join(testDir, "b.md"), "# B\n");
+
+    await moveTask(testDir, "a.md", 1, "b.md", undefined, { expectedText: "One", history: vault });
+
+    expect((await listVersions(vault, "a.md")).versions).toHaveLength(1);
+    expect((await listVersions(vault, "b.md")).versions).toHaveLength(1);
+  });
+});
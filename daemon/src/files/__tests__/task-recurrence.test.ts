@@ -0,0 +1,119 @@
+/**
+ * Task Recurrence Tests
+ *
+ * Unit tests for parsing recurrence rules and computing next occurrences.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { parseRecurrence, nextOccurrence, addDays, daysBetween } from "../task-recurrence";
+
+/**
+ * Parses a rule (which must be valid) and computes its next date.
+ */
+function next(rule: string, from: string): string {
+  const parsed = parseRecurrence(rule);
+  expect(parsed).not.toBeNull();
+  return nextOccurrence(parsed!, from);
+}
+
+// =============================================================================
+// parseRecurrence Tests
+// =============================================================================
+
+describe("parseRecurrence", () => {
+  test("parses simple intervals", () => {
+    expect(parseRecurrence("every day")).toEqual({ unit: "day", interval: 1, whenDone: false });
+    expect(parseRecurrence("every 3 weeks")).toEqual({ unit: "week", interval: 3, whenDone: false });
+    expect(parseRecurrence("every month")).toEqual({ unit: "month", interval: 1, whenDone: false });
+    expect(parseRecurrence("every 2 years")).toEqual({ unit: "year", interval: 2, whenDone: false });
+  });
+
+  test("parses weekdays and weekday lists", () => {
+    expect(parseRecurrence("every weekday")?.weekdays).toEqual([1, 2, 3, 4, 5]);
+    expect(parseRecurrence("every Tuesday")?.weekdays).toEqual([2]);
+    expect(parseRecurrence("every week on Friday, Monday")?.weekdays).toEqual([1, 5]);
+    expect(parseRecurrence("every 2 weeks on Mon and Thu")).toMatchObject({
+      unit: "week",
+      interval: 2,
+      weekdays: [1, 4],
+    });
+  });
+
+  test("parses monthly day clauses", () => {
+    expect(parseRecurrence("every month on the 1st")?.monthDay).toBe(1);
+    expect(parseRecurrence("every month on the last")?.monthDay).toBe("last");
+    expect(parseRecurrence("every month on the 2nd Tuesday")?.nthWeekday).toEqual({ n: 2, weekday: 2 });
+    expect(parseRecurrence("every month on the last Friday")?.nthWeekday).toEqual({ n: -1, weekday: 5 });
+  });
+
+  test("parses the when done suffix case-insensitively", () => {
+    expect(parseRecurrence("Every 2 Days When Done")).toEqual({ unit: "day", interval: 2, whenDone: true });
+  });
+
+  test("returns null for unsupported rules", () => {
+    expect(parseRecurrence("weekly")).toBeNull();
+    expect(parseRecurrence("every blue moon")).toBeNull();
+    expect(parseRecurrence("every 0 days")).toBeNull();
+    expect(parseRecurrence("every day on Monday")).toBeNull();
+    expect(parseRecurrence("every month on the 32nd")).toBeNull();
+  });
+});
+
+// =============================================================================
+// nextOccurrence Tests
+// =============================================================================
+
+describe("nextOccurrence", () => {
+  test("adds days, weeks, and years", () => {
+    expect(next("every day", "2026-12-31")).toBe("2027-01-01");
+    expect(next("every 2 weeks", "2026-10-19")).toBe("2026-11-02");
+    expect(next("every year", "2026-10-19")).toBe("2027-10-19");
+  });
+
+  test("every weekday skips the weekend", () => {
+    expect(next("every weekday", "2026-10-16")).toBe("2026-10-19"); // Fri -> Mon
+    expect(next("every weekday", "2026-10-19")).toBe("2026-10-20"); // Mon -> Tue
+  });
+
+  test("weekly rules on listed days pick the next listed day", () => {
+    expect(next("every week on Monday, Thursday", "2026-10-19")).toBe("2026-10-22");
+    expect(next("every week on Monday, Thursday", "2026-10-22")).toBe("2026-10-26");
+    expect(next("every 2 weeks on Monday", "2026-10-19")).toBe("2026-11-02");
+  });
+
+  test("monthly rules keep the day of the month", () => {
+    expect(next("every month", "2026-10-15")).toBe("2026-11-15");
+    expect(next("every month on the 1st", "2026-10-01")).toBe("2026-11-01");
+    expect(next("every month on the 20th", "2026-10-05")).toBe("2026-10-20");
+    expect(next("every 3 months", "2026-11-30")).toBe("2027-02-28");
+  });
+
+  test("monthly rules fall on the last day of shorter months", () => {
+    expect(next("every month", "2026-01-31")).toBe("2026-02-28");
+    expect(next("every month on the last", "2026-02-28")).toBe("2026-03-31");
+  });
+
+  test("monthly nth weekday rules", () => {
+    expect(next("every month on the 2nd Tuesday", "2026-10-13")).toBe("2026-11-10");
+    expect(next("every month on the last Friday", "2026-10-30")).toBe("2026-11-27");
+    // Skips months without a 5th Friday
+    expect(next("every month on the 5th Friday", "2026-10-30")).toBe("2027-01-29");
+  });
+
+  test("yearly rules move Feb 29 to Feb 28", () => {
+    expect(next("every year", "2024-02-29")).toBe("2025-02-28");
+  });
+});
+
+// =============================================================================
+// Date Helper Tests
+// =============================================================================
+
+describe("addDays and daysBetween", () => {
+  test("work across month and DST boundaries", () => {
+    expect(addDays("2026-03-28", 3)).toBe("2026-03-31");
+    expect(addDays("2026-11-01", -1)).toBe("2026-10-31");
+    expect(daysBetween("2026-03-01", "2026-04-01")).toBe(31);
+    expect(daysBetween("2026-04-01", "2026-03-01")).toBe(-31);
+  });
+});
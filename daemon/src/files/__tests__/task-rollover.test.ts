@@ -0,0 +1,265 @@
+/**
+ * Task Rollover Tests
+ *
+ * Tests finding open task blocks, rolling them into today's daily note in
+ * move and copy modes, and the once-a-day scheduled run.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { VaultInfo } from "@memory-loop/shared";
+import {
+  findOpenTaskBlocks,
+  rolloverTasks,
+  runScheduledRollover,
+  resetSchedulerState,
+  getRolloverHourFromEnv,
+  DEFAULT_ROLLOVER_HOUR,
+} from "../task-rollover";
+import { listVersions } from "../file-history";
+import { resetCache } from "../../vault/vault-cache";
+
+const isOpen = (state: string) => state === " " || state === "/";
+
+// =============================================================================
+// findOpenTaskBlocks
+// =============================================================================
+
+describe("findOpenTaskBlocks", () => {
+  test("finds open tasks and skips done and forwarded ones", () => {
+    const lines = ["# Today", "- [ ] Open", "- [x] Done", "- [>] Forwarded", "- [/] Started"];
+    const blocks = findOpenTaskBlocks(lines, isOpen);
+    expect(blocks.map((b) => b.start)).toEqual([1, 4]);
+  });
+
+  test("includes lines indented under the task", () => {
+    const lines = ["- [ ] Plan trip", "  - [x] Book flight", "", "  notes", "- [ ] Next"];
+    const blocks = findOpenTaskBlocks(lines, isOpen);
+    expect(blocks[0]).toEqual({ start: 0, end: 4, indent: "" });
+    expect(blocks[1].start).toBe(4);
+  });
+
+  test("rolls an open subtask of a done parent on its own", () => {
+    const lines = ["- [x] Plan trip", "  - [ ] Book hotel", "  - [x] Book flight"];
+    const blocks = findOpenTaskBlocks(lines, isOpen);
+    expect(blocks).toEqual([{ start: 1, end: 2, indent: "  " }]);
+  });
+
+  test("leaves open subtasks with a forwarded parent", () => {
+    const lines = ["- [>] Plan trip", "  - [ ] Book hotel"];
+    expect(findOpenTaskBlocks(lines, isOpen)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// rolloverTasks
+// =============================================================================
+
+describe("rolloverTasks", () => {
+  let testDir: string;
+  let vault: VaultInfo;
+  const today = new Date(2026, 9, 19, 9, 0);
+
+  async function writeNote(date: string, content: string): Promise<void> {
+    await writeFile(join(testDir, "00_Inbox", `${date}.md`), content);
+  }
+
+  async function readNote(date: string): Promise<string> {
+    return readFile(join(testDir, "00_Inbox", `${date}.md`), "utf-8");
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `task-rollover-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "00_Inbox"), { recursive: true });
+
+    vault = {
+      id: "test-vault",
+      name: "Test Vault",
+      path: testDir,
+      hasClaudeMd: true,
+      contentRoot: testDir,
+      inboxPath: "00_Inbox",
+      metadataPath: "06_Metadata/memory-loop",
+      attachmentPath: "05_Attachments",
+      setupComplete: false,
+      promptsPerGeneration: 5,
+      maxPoolSize: 50,
+      quotesPerWeek: 1,
+      badges: [],
+      order: 999999,
+      cardsEnabled: true,
+      viMode: false,
+    };
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("moves open tasks into a new note for today and leaves a link", async () => {
+    await writeNote("2026-10-17", "## Capture\n\n- [ ] Call Bob\n  - [ ] Find number\n- [x] Pay rent\n- [ ] Email Ann\n");
+    await writeNote("2026-10-18", "- [ ] Water plants\n");
+
+    const result = await rolloverTasks(vault, today);
+
+    expect(result).toEqual({
+      notePath: "00_Inbox/2026-10-19.md",
+      tasks: 4,
+      sources: ["00_Inbox/2026-10-17.md", "00_Inbox/2026-10-18.md"],
+    });
+    const note = await readNote("2026-10-19");
+    expect(note).toContain("# 2026-10-19");
+    expect(note).toContain(
+      "## Rolled Over\n\nFrom [[2026-10-17]]:\n- [ ] Call Bob\n  - [ ] Find number\n- [ ] Email Ann\nFrom [[2026-10-18]]:\n- [ ] Water plants\n"
+    );
+    expect(await readNote("2026-10-17")).toBe(
+      "## Capture\n\n- Rolled over to [[2026-10-19]]\n- [x] Pay rent\n"
+    );
+    expect(await readNote("2026-10-18")).toBe("- Rolled over to [[2026-10-19]]\n");
+  });
+
+  test("copies open tasks and marks the originals forwarded", async () => {
+    vault.taskRolloverMode = "copy";
+    await writeNote("2026-10-18", "- [ ] Call Bob\n  - [ ] Find number\n");
+
+    await rolloverTasks(vault, today);
+
+    expect(await readNote("2026-10-18")).toBe("- [>] Call Bob\n  - [ ] Find number\n");
+    expect(await readNote("2026-10-19")).toContain("From [[2026-10-18]]:\n- [ ] Call Bob\n  - [ ] Find number");
+
+    // A second run finds nothing new to roll over
+    const again = await rolloverTasks(vault, today);
+    expect(again.tasks).toBe(0);
+  });
+
+  test("adds to an existing note for today and records its previous version", async () => {
+    await writeNote("2026-10-19", "# Today\n\n- [ ] Already here\n");
+    await writeNote("2026-10-18", "- [ ] Call Bob\n");
+
+    await rolloverTasks(vault, today);
+
+    expect(await readNote("2026-10-19")).toBe(
+      "# Today\n\n- [ ] Already here\n\n## Rolled Over\n\nFrom [[2026-10-18]]:\n- [ ] Call Bob\n"
+    );
+    const { versions } = await listVersions(vault, "00_Inbox/2026-10-19.md");
+    expect(versions.map((v) => v.source)).toEqual(["rollover"]);
+  });
+
+  test("only looks back the configured number of days", async () => {
+    vault.taskRolloverDays = 1;
+    await writeNote("2026-10-17", "- [ ] Too old\n");
+
+    const result = await rolloverTasks(vault, today);
+
+    expect(result.tasks).toBe(0);
+    expect(await readNote("2026-10-17")).toBe("- [ ] Too old\n");
+  });
+
+  test("writes nothing when there is nothing to roll over", async () => {
+    await writeNote("2026-10-18", "- [x] Done\n");
+
+    const result = await rolloverTasks(vault, today);
+
+    expect(result.sources).toEqual([]);
+    await expect(readNote("2026-10-19")).rejects.toThrow();
+  });
+
+  test("follows the vault's daily note folder and format", async () => {
+    vault.dailyNoteFolder = "Journal";
+    vault.dailyNoteFormat = "YYYY/YYYY-MM-DD ddd";
+    await mkdir(join(testDir, "Journal", "2026"), { recursive: true });
+    await writeFile(join(testDir, "Journal", "2026", "2026-10-18 Sun.md"), "- [ ] Call Bob\n");
+
+    const result = await rolloverTasks(vault, today);
+
+    expect(result.notePath).toBe("Journal/2026/2026-10-19 Mon.md");
+    expect(result.sources).toEqual(["Journal/2026/2026-10-18 Sun.md"]);
+    expect(await readFile(join(testDir, "Journal", "2026", "2026-10-18 Sun.md"), "utf-8")).toBe(
+      "- Rolled over to [[2026-10-19 Mon]]\n"
+    );
+    const note = await readFile(join(testDir, "Journal", "2026", "2026-10-19 Mon.md"), "utf-8");
+    expect(note).toContain("# 2026-10-19 Mon");
+    expect(note).toContain("From [[2026-10-18 Sun]]:\n- [ ] Call Bob\n");
+  });
+
+  test("keeps CRLF source notes intact", async () => {
+    await writeNote("2026-10-18", "- [x] Done\r\n- [ ] Call Bob\r\n");
+
+    await rolloverTasks(vault, today);
+
+    expect(await readNote("2026-10-18")).toBe("- [x] Done\r\n- Rolled over to [[2026-10-19]]\r\n");
+    expect(await readNote("2026-10-19")).toContain("From [[2026-10-18]]:\n- [ ] Call Bob\n");
+  });
+});
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+describe("runScheduledRollover", () => {
+  let testDir: string;
+  let originalVaultsDir: string | undefined;
+
+  async function createVault(name: string, config: Record<string, unknown>): Promise<string> {
+    const vaultPath = join(testDir, name);
+    await mkdir(join(vaultPath, "00_Inbox"), { recursive: true });
+    await writeFile(join(vaultPath, "CLAUDE.md"), "# Test Vault\n");
+    await writeFile(join(vaultPath, ".memory-loop.json"), JSON.stringify(config));
+    await writeFile(join(vaultPath, "00_Inbox", "2026-10-18.md"), "- [ ] Call Bob\n");
+    return vaultPath;
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `task-rollover-scheduler-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    originalVaultsDir = process.env.VAULTS_DIR;
+    process.env.VAULTS_DIR = testDir;
+    resetCache();
+    resetSchedulerState();
+  });
+
+  afterEach(async () => {
+    if (originalVaultsDir !== undefined) {
+      process.env.VAULTS_DIR = originalVaultsDir;
+    } else {
+      delete process.env.VAULTS_DIR;
+    }
+    resetCache();
+    resetSchedulerState();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("rolls over enabled vaults once a day after the rollover hour", async () => {
+    await createVault("enabled", { inboxPath: "00_Inbox", taskRolloverEnabled: true });
+    await createVault("disabled", { inboxPath: "00_Inbox" });
+
+    expect(await runScheduledRollover(4, () => new Date(2026, 9, 19, 3, 0))).toBe(0);
+    expect(await runScheduledRollover(4, () => new Date(2026, 9, 19, 5, 0))).toBe(1);
+    expect(await runScheduledRollover(4, () => new Date(2026, 9, 19, 6, 0))).toBe(0);
+
+    const note = await readFile(join(testDir, "enabled", "00_Inbox", "2026-10-19.md"), "utf-8");
+    expect(note).toContain("- [ ] Call Bob");
+    expect(await readFile(join(testDir, "disabled", "00_Inbox", "2026-10-18.md"), "utf-8")).toBe("- [ ] Call Bob\n");
+  });
+});
+
+describe("getRolloverHourFromEnv", () => {
+  const original = process.env.TASK_ROLLOVER_HOUR;
+
+  afterEach(() => {
+    if (original !== undefined) {
+      process.env.TASK_ROLLOVER_HOUR = original;
+    } else {
+      delete process.env.TASK_ROLLOVER_HOUR;
+    }
+  });
+
+  test("reads the hour and falls back on invalid values", () => {
+    process.env.TASK_ROLLOVER_HOUR = "6";
+    expect(getRolloverHourFromEnv()).toBe(6);
+    process.env.TASK_ROLLOVER_HOUR = "25";
+    expect(getRolloverHourFromEnv()).toBe(DEFAULT_ROLLOVER_HOUR);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Trash Tests
+ *
+ * Unit tests for moving deleted items to the trash, restoring them, and purging.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, readFile, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+import {
+  moveToTrash,
+  listTrash,
+  restoreFromTrash,
+  deleteFromTrash,
+  emptyTrash,
+  purgeTrash,
+  TRASH_DIR,
+  type TrashVault,
+} from "../trash";
+import { deleteDirectory, deleteFile, FileNotFoundError } from "../file-browser";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let testDir: string;
+let vault: TrashVault;
+
+beforeEach(async () => {
+  testDir = join(
+    tmpdir(),
+    `trash-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+  vault = { path: testDir, contentRoot: join(testDir, "content") };
+  await mkdir(join(vault.contentRoot, "notes"), { recursive: true });
+  await writeFile(join(vault.contentRoot, "notes", "note.md"), "# Note", "utf-8");
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+async function trashFile(relativePath: string): Promise<void> {
+  await deleteFile(vault.contentRoot, relativePath, {
+    trash: async (targetPath) => {
+      await moveToTrash(vault, targetPath, false);
+    },
+  });
+}
+
+// =============================================================================
+// Trashing
+// =============================================================================
+
+describe("moveToTrash", () => {
+  test("moves a deleted file under the vault root with its original path", async () => {
+    await trashFile("notes/note.md");
+
+    expect(await readdir(join(vault.contentRoot, "notes"))).toEqual([]);
+    const items = await listTrash(vault);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ originalPath: "notes/note.md", isDirectory: false });
+    expect(await readdir(join(testDir, TRASH_DIR))).toEqual([items[0].id]);
+  });
+
+  test("moves a deleted directory with its contents", async () => {
+    const result = await deleteDirectory(vault.contentRoot, "notes", {
+      trash: async (targetPath) => {
+        await moveToTrash(vault, targetPath, true);
+      },
+    });
+
+    expect(result.filesDeleted).toBe(1);
+    expect(await readdir(vault.contentRoot)).toEqual([]);
+    const items = await listTrash(vault);
+    expect(items[0]).toMatchObject({ originalPath: "notes", isDirectory: true });
+  });
+
+  test("lists the most recently deleted item first", async () => {
+    await writeFile(join(vault.contentRoot, "notes", "other.md"), "other", "utf-8");
+    await trashFile("notes/note.md");
+    await trashFile("notes/other.md");
+
+    const items = await listTrash(vault);
+    expect(items.map((item) => item.originalPath)).toEqual(["notes/other.md", "notes/note.md"]);
+  });
+});
+
+// =============================================================================
+// Restoring and Removing
+// =============================================================================
+
+describe("restoreFromTrash", () => {
+  test("moves the item back and removes the trash entry", async () => {
+    await trashFile("notes/note.md");
+    const [item] = await listTrash(vault);
+
+    const result = await restoreFromTrash(vault, item.id);
+
+    expect(result).toEqual({ path: "notes/note.md", isDirectory: false });
+    expect(await readFile(join(vault.contentRoot, "notes", "note.md"), "utf-8")).toBe("# Note");
+    expect(await listTrash(vault)).toEqual([]);
+  });
+
+  test("recreates missing parent directories", async () => {
+    await trashFile("notes/note.md");
+    await rm(join(vault.contentRoot, "notes"), { recursive: true });
+    const [item] = await listTrash(vault);
+
+    await restoreFromTrash(vault, item.id);
+
+    expect(await readFile(join(vault.contentRoot, "notes", "note.md"), "utf-8")).toBe("# Note");
+  });
+
+  test("restores beside a file that has taken the original path", async () => {
+    await trashFile("notes/note.md");
+    await writeFile(join(vault.contentRoot, "notes", "note.md"), "replacement", "utf-8");
+    const [item] = await listTrash(vault);
+
+    const result = await restoreFromTrash(vault, item.id);
+
+    expect(result.path).toBe("notes/note (restored).md");
+    expect(await readFile(join(vault.contentRoot, "notes", "note.md"), "utf-8")).toBe("replacement");
+    expect(await readFile(join(vault.contentRoot, result.path), "utf-8")).toBe("# Note");
+  });
+
+  test("throws FileNotFoundError for unknown or malformed IDs", async () => {
+    await expect(restoreFromTrash(vault, "missing")).rejects.toBeInstanceOf(FileNotFoundError);
+    await expect(restoreFromTrash(vault, "../etc")).rejects.toBeInstanceOf(FileNotFoundError);
+  });
+});
+
+describe("deleteFromTrash and emptyTrash", () => {
+  test("removes one item permanently", async () => {
+    await trashFile("notes/note.md");
+    const [item] = await listTrash(vault);
+
+    await deleteFromTrash(vault, item.id);
+
+    expect(await listTrash(vault)).toEqual([]);
+    await expect(deleteFromTrash(vault, item.id)).rejects.toBeInstanceOf(FileNotFoundError);
+  });
+
+  test("empties the trash and reports the count", async () => {
+    await writeFile(join(vault.contentRoot, "notes", "other.md"), "other", "utf-8");
+    await trashFile("notes/note.md");
+    await trashFile("notes/other.md");
+
+    expect(await emptyTrash(vault)).toBe(2);
+    expect(await listTrash(vault)).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Purging
+// =============================================================================
+
+describe("purgeTrash", () => {
+  test("removes only items older than the retention period", async () => {
+    await trashFile("notes/note.md");
+    const [item] = await listTrash(vault);
+    const deletedAt = Date.parse(item.deletedAt);
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(await purgeTrash(vault, 30, deletedAt + 29 * day)).toBe(0);
+    expect(await listTrash(vault)).toHaveLength(1);
+
+    expect(await purgeTrash(vault, 30, deletedAt + 31 * day)).toBe(1);
+    expect(await listTrash(vault)).toEqual([]);
+  });
+
+  test("is a no-op when the trash does not exist", async () => {
+    expect(await purgeTrash(vault, 30)).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Vault Lint Tests
+ *
+ * Tests the link health report and unambiguous link fixes against a
+ * temporary vault on disk.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { lintVault, fixVaultLinks, type VaultLintTarget } from "../vault-lint";
+
+describe("vault lint", () => {
+  let testDir: string;
+  let target: VaultLintTarget;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `vault-lint-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, "projects"), { recursive: true });
+    await mkdir(join(testDir, "attachments"), { recursive: true });
+    await mkdir(join(testDir, ".obsidian"), { recursive: true });
+
+    await writeFile(
+      join(testDir, "index.md"),
+      [
+        "# Index",
+        "- [[Roadmap]]",
+        "- [[old/Ideas]]",
+        "- ![[archive/diagram.png]]",
+        "- [[Nowhere]]",
+        "- [[Meeting]]",
+      ].join("\n")
+    );
+    await writeFile(join(testDir, "projects", "Roadmap.md"), "# Roadmap\n\n![chart](../attachments/chart.png)");
+    await writeFile(join(testDir, "projects", "Ideas.md"), "# Ideas");
+    await writeFile(join(testDir, "projects", "Meeting.md"), "# Meeting A");
+    await writeFile(join(testDir, "Meeting.md"), "# Meeting B");
+    await writeFile(join(testDir, "lonely.md"), "Links to itself: [[lonely]]");
+    await writeFile(join(testDir, "attachments", "chart.png"), "png");
+    await writeFile(join(testDir, "attachments", "diagram.png"), "png");
+    await writeFile(join(testDir, "attachments", "unused.pdf"), "pdf");
+    await writeFile(join(testDir, ".obsidian", "workspace.md"), "[[Missing]]");
+
+    target = { contentRoot: testDir, attachmentPath: "attachments" };
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("reports broken links with their candidates", async () => {
+    const report = await lintVault(target);
+
+    expect(report.brokenLinks.map((l) => [l.target, l.candidates])).toEqual([
+      ["old/Ideas", ["projects/Ideas.md"]],
+      ["archive/diagram.png", ["attachments/diagram.png"]],
+      ["Nowhere", []],
+    ]);
+    expect(report.brokenLinks[1].embed).toBe(true);
+    expect(report.notesScanned).toBe(6);
+    expect(report.attachmentsScanned).toBe(3);
+  });
+
+  test("reports orphan notes, ignoring self-links", async () => {
+    const report = await lintVault(target);
+    expect(report.orphanNotes).toEqual(["index.md", "lonely.md", "projects/Ideas.md", "projects/Meeting.md"]);
+  });
+
+  test("reports unused attachments", async () => {
+    const report = await lintVault(target);
+    expect(report.unusedAttachments).toEqual(["attachments/diagram.png", "attachments/unused.pdf"]);
+  });
+
+  test("fixes links with exactly one candidate", async () => {
+    const report = await fixVaultLinks(target);
+
+    expect(report.fixes?.map((f) => [f.from, f.to, f.referencesUpdated])).toEqual([
+      ["old/Ideas.md", "projects/Ideas.md", 1],
+      ["archive/diagram.png", "attachments/diagram.png", 1],
+    ]);
+    expect(report.brokenLinks.map((l) => l.target)).toEqual(["Nowhere"]);
+    expect(report.unusedAttachments).toEqual(["attachments/unused.pdf"]);
+
+    const content = await readFile(join(testDir, "index.md"), "utf-8");
+    expect(content).toContain("- [[projects/Ideas]]");
+    expect(content).toContain("- ![[attachments/diagram.png]]");
+    expect(content).toContain("- [[Meeting]]");
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Vault Watcher Tests
+ *
+ * Uses real temp directories and real fs.watch events. Each test waits
+ * for the expected events rather than fixed sleeps.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { VaultChangeEvent } from "@memory-loop/shared";
+import { createMockVault } from "./test-helpers";
+import {
+  watchVault,
+  unwatchVault,
+  isWatchingVault,
+  stopVaultWatchers,
+  subscribeToVaultEvents,
+  getSubscriberCount,
+  flushVaultWatcher,
+} from "../vault-watcher";
+import { getOrCreateIndex, clearCache } from "../search/search-cache";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+let testDir: string;
+let contentRoot: string;
+let originalVaultsDir: string | undefined;
+const events: VaultChangeEvent[] = [];
+let unsubscribe: (() => void) | undefined;
+
+/**
+ * Waits until an event matching the predicate has been received.
+ */
+async function waitForEvent(
+  predicate: (event: VaultChangeEvent) => boolean,
+  timeoutMs = 3000
+): Promise<VaultChangeEvent> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const match = events.find(predicate);
+    if (match) return match;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Timed out waiting for event (received: ${JSON.stringify(events)})`);
+}
+
+beforeEach(async () => {
+  testDir = join(tmpdir(), `vault-watcher-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  contentRoot = join(testDir, "vault");
+  await mkdir(join(contentRoot, "notes"), { recursive: true });
+  await writeFile(join(contentRoot, "notes", "existing.md"), "# Existing\n\nalpha");
+
+  // Top-level changes refresh the vault cache; keep discovery inside the temp dir
+  originalVaultsDir = process.env.VAULTS_DIR;
+  process.env.VAULTS_DIR = testDir;
+
+  events.length = 0;
+  unsubscribe = subscribeToVaultEvents("test-vault", (event) => events.push(event));
+  watchVault(createMockVault({ path: contentRoot }));
+  await flushVaultWatcher("test-vault");
+});
+
+afterEach(async () => {
+  unsubscribe?.();
+  stopVaultWatchers();
+  clearCache();
+  if (originalVaultsDir === undefined) {
+    delete process.env.VAULTS_DIR;
+  } else {
+    process.env.VAULTS_DIR = originalVaultsDir;
+  }
+  await rm(testDir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+describe("watchVault", () => {
+  test("is idempotent", () => {
+    expect(watchVault(createMockVault({ path: contentRoot }))).toBe(true);
+    expect(isWatchingVault("test-vault")).toBe(true);
+  });
+
+  test("returns false for a missing content root", () => {
+    const vault = createMockVault({ id: "missing", path: join(testDir, "nope") });
+    expect(watchVault(vault)).toBe(false);
+    expect(isWatchingVault("missing")).toBe(false);
+  });
+
+  test("unwatchVault stops the watcher", () => {
+    expect(unwatchVault("test-vault")).toBe(true);
+    expect(isWatchingVault("test-vault")).toBe(false);
+    expect(unwatchVault("test-vault")).toBe(false);
+  });
+});
+
+describe("subscribeToVaultEvents", () => {
+  test("unsubscribe removes the listener", () => {
+    const off = subscribeToVaultEvents("other", () => {});
+    expect(getSubscriberCount("other")).toBe(1);
+    off();
+    expect(getSubscriberCount("other")).toBe(0);
+  });
+});
+
+// =============================================================================
+// Events
+// =============================================================================
+
+describe("change events", () => {
+  test("publishes file-created for new files", async () => {
+    await writeFile(join(contentRoot, "notes", "new.md"), "hello");
+    const event = await waitForEvent((e) => e.path === "notes/new.md");
+    expect(event).toMatchObject({
+      type: "file-created",
+      vaultId: "test-vault",
+      isDirectory: false,
+    });
+  });
+
+  test("publishes file-changed for edits to known files", async () => {
+    await writeFile(join(contentRoot, "notes", "existing.md"), "# Existing\n\nbeta");
+    const event = await waitForEvent((e) => e.path === "notes/existing.md");
+    expect(event.type).toBe("file-changed");
+  });
+
+  test("publishes file-deleted for removed files", async () => {
+    await rm(join(contentRoot, "notes", "existing.md"));
+    const event = await waitForEvent((e) => e.path === "notes/existing.md");
+    expect(event.type).toBe("file-deleted");
+  });
+
+  test("reports a removed directory once", async () => {
+    await rm(join(contentRoot, "notes"), { recursive: true });
+    const event = await waitForEvent((e) => e.path === "notes");
+    expect(event).toMatchObject({ type: "file-deleted", isDirectory: true });
+    await flushVaultWatcher("test-vault");
+    expect(events.filter((e) => e.path.startsWith("notes/"))).toEqual([]);
+  });
+
+  test("ignores hidden paths", async () => {
+    await mkdir(join(contentRoot, ".obsidian"));
+    await writeFile(join(contentRoot, ".obsidian", "workspace.json"), "{}");
+    await writeFile(join(contentRoot, "notes", "marker.md"), "x");
+    await waitForEvent((e) => e.path === "notes/marker.md");
+    expect(events.some((e) => e.path.includes(".obsidian"))).toBe(false);
+  });
+});
+
+// =============================================================================
+// Search Index
+// =============================================================================
+
+describe("search index updates", () => {
+  test("indexes created, changed and deleted notes in a cached index", async () => {
+    const index = getOrCreateIndex("test-vault", contentRoot);
+    expect((await index.searchContent("alpha")).length).toBe(1);
+
+    await writeFile(join(contentRoot, "notes", "new.md"), "gamma");
+    await waitForEvent((e) => e.path === "notes/new.md");
+    await flushVaultWatcher("test-vault");
+    expect((await index.searchContent("gamma")).map((r) => r.path)).toEqual(["notes/new.md"]);
+
+    await writeFile(join(contentRoot, "notes", "existing.md"), "# Existing\n\ndelta");
+    await waitForEvent((e) => e.path === "notes/existing.md");
+    await flushVaultWatcher("test-vault");
+    expect((await index.searchContent("alpha")).length).toBe(0);
+    expect((await index.searchContent("delta")).length).toBe(1);
+
+    await rm(join(contentRoot, "notes", "new.md"));
+    await waitForEvent((e) => e.path === "notes/new.md" && e.type === "file-deleted");
+    await flushVaultWatcher("test-vault");
+    expect((await index.searchContent("gamma")).length).toBe(0);
+    expect(index.getFileList().map((f) => f.path)).toEqual(["notes/existing.md"]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Daily Prep History
+ *
+ * Aggregates daily prep files over a date range into the trends shown on
+ * Ground: completion rates by energy level, calendar density, and weekday,
+ * plus runs of days with blocked or skipped commitments.
+ *
+ * Completion rate is done / assessed. Partial counts as assessed but not
+ * done, and unassessed commitments (days never closed) are left out.
+ */
+
+import { readdir } from "node:fs/promises";
+import type { VaultInfo } from "@memory-loop/shared";
+import { createLogger } from "@memory-loop/shared";
+import {
+  getDailyPrepDir,
+  readDailyPrep,
+  type CalendarDensity,
+  type DailyPrepFrontmatter,
+  type EnergyLevel,
+} from "./daily-prep-manager";
+
+const log = createLogger("DailyPrepHistory");
+
+const PREP_FILE_REGEX = /^(\d{4})-(\d{2})-(\d{2})\.md$/;
+
+const ENERGY_LEVELS: EnergyLevel[] = ["sharp", "steady", "low"];
+const CALENDAR_DENSITIES: CalendarDensity[] = ["clear", "scattered", "heavy"];
+
+/**
+ * Commitment counts by evening assessment.
+ */
+export interface AssessmentCounts {
+  /** Commitments made */
+  commitments: number;
+  done: number;
+  partial: number;
+  blocked: number;
+  skipped: number;
+  /** Commitments with no assessment (the day wasn't closed) */
+  unassessed: number;
+}
+
+/**
+ * One day's prep, summarized.
+ */
+export interface DailyPrepDaySummary extends AssessmentCounts {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Day of week, 0 = Sunday */
+  weekday: number;
+  energy?: EnergyLevel;
+  calendar?: CalendarDensity;
+  /** Whether evening closure was recorded */
+  closed: boolean;
+}
+
+/**
+ * Totals for a group of days.
+ */
+export interface CompletionStats extends AssessmentCounts {
+  /** Prep days in the group */
+  days: number;
+  /** done / assessed commitments (0-1), or null if none were assessed */
+  completionRate: number | null;
+}
+
+/**
+ * A run of consecutive prep days. Days without a prep file don't break a run.
+ */
+export interface Streak {
+  length: number;
+  /** First day of the run (YYYY-MM-DD), when length > 0 */
+  start?: string;
+  /** Last day of the run (YYYY-MM-DD), when length > 0 */
+  end?: string;
+}
+
+/**
+ * Current and longest runs of days with at least one commitment assessed a given way.
+ */
+export interface StreakSummary {
+  /** Run ending at the most recent prep day */
+  current: Streak;
+  longest: Streak;
+}
+
+/**
+ * Daily prep trends for a date range.
+ */
+export interface DailyPrepHistory {
+  /** First day of the range (YYYY-MM-DD) */
+  from: string;
+  /** Last day of the range (YYYY-MM-DD) */
+  to: string;
+  /** Prep days in the range, oldest first */
+  days: DailyPrepDaySummary[];
+  overall: CompletionStats;
+  byEnergy: Record<EnergyLevel, CompletionStats>;
+  byCalendar: Record<CalendarDensity, CompletionStats>;
+  /** Indexed by day of week, 0 = Sunday */
+  byWeekday: CompletionStats[];
+  streaks: {
+    blocked: StreakSummary;
+    skipped: StreakSummary;
+  };
+}
+
+function emptyStats(): CompletionStats {
+  return {
+    days: 0,
+    commitments: 0,
+    done: 0,
+    partial: 0,
+    blocked: 0,
+    skipped: 0,
+    unassessed: 0,
+    completionRate: null,
+  };
+}
+
+function summarizeDay(date: string, weekday: number, prep: DailyPrepFrontmatter): DailyPrepDaySummary {
+  const day: DailyPrepDaySummary = {
+    date,
+    weekday,
+    closed: prep.closure !== undefined,
+    commitments: 0,
+    done: 0,
+    partial: 0,
+    blocked: 0,
+    skipped: 0,
+    unassessed: 0,
+  };
+  if (prep.energy) day.energy = prep.energy;
+  if (prep.calendar) day.calendar = prep.calendar;
+
+  for (const item of prep.commitment ?? []) {
+    day.commitments++;
+    day[item.assessment ?? "unassessed"]++;
+  }
+  return day;
+}
+
+function addDay(stats: CompletionStats, day: DailyPrepDaySummary): void {
+  stats.days++;
+  stats.commitments += day.commitments;
+  stats.done += day.done;
+  stats.partial += day.partial;
+  stats.blocked += day.blocked;
+  stats.skipped += day.skipped;
+  stats.unassessed += day.unassessed;
+}
+
+function finishStats(stats: CompletionStats): void {
+  const assessed = stats.commitments - stats.unassessed;
+  stats.completionRate = assessed > 0 ? stats.done / assessed : null;
+}
+
+/**
+ * Finds the current and longest runs of days matching a predicate.
+ *
+ * @param days - Prep days, oldest first
+ */
+export function computeStreaks(
+  days: DailyPrepDaySummary[],
+  matches: (day: DailyPrepDaySummary) => boolean
+): StreakSummary {
+  let longest: Streak = { length: 0 };
+  let current: Streak = { length: 0 };
+
+  for (const day of days) {
+    if (!matches(day)) {
+      current = { length: 0 };
+      continue;
+    }
+    current = { length: current.length + 1, start: current.start ?? day.date, end: day.date };
+    if (current.length > longest.length) {
+      longest = current;
+    }
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Aggregates summarized prep days into trends.
+ *
+ * @param days - Prep days, oldest first
+ */
+export function aggregateDailyPrepDays(
+  from: string,
+  to: string,
+  days: DailyPrepDaySummary[]
+): DailyPrepHistory {
+  const overall = emptyStats();
+  const byEnergy = Object.fromEntries(ENERGY_LEVELS.map((level) => [level, emptyStats()])) as Record<
+    EnergyLevel,
+    CompletionStats
+  >;
+  const byCalendar = Object.fromEntries(CALENDAR_DENSITIES.map((density) => [density, emptyStats()])) as Record<
+    CalendarDensity,
+    CompletionStats
+  >;
+  const byWeekday = Array.from({ length: 7 }, emptyStats);
+
+  for (const day of days) {
+    addDay(overall, day);
+    addDay(byWeekday[day.weekday], day);
+    if (day.energy) addDay(byEnergy[day.energy], day);
+    if (day.calendar) addDay(byCalendar[day.calendar], day);
+  }
+
+  for (const stats of [overall, ...Object.values(byEnergy), ...Object.values(byCalendar), ...byWeekday]) {
+    finishStats(stats);
+  }
+
+  return {
+    from,
+    to,
+    days,
+    overall,
+    byEnergy,
+    byCalendar,
+    byWeekday,
+    streaks: {
+      blocked: computeStreaks(days, (day) => day.blocked > 0),
+      skipped: computeStreaks(days, (day) => day.skipped > 0),
+    },
+  };
+}
+
+/**
+ * Reads every daily prep file dated within a range and aggregates them.
+ * Files that don't parse are skipped.
+ *
+ * @param vault - Vault info
+ * @param from - First day (YYYY-MM-DD, inclusive)
+ * @param to - Last day (YYYY-MM-DD, inclusive)
+ */
+export async function getDailyPrepHistory(
+  vault: VaultInfo,
+  from: string,
+  to: string
+): Promise<DailyPrepHistory> {
+  let names: string[];
+  try {
+    names = await readdir(getDailyPrepDir(vault));
+  } catch {
+    log.debug(`No daily prep directory for vault ${vault.id}`);
+    names = [];
+  }
+
+  const days: DailyPrepDaySummary[] = [];
+  for (const name of names.sort()) {
+    const match = PREP_FILE_REGEX.exec(name);
+    if (!match) continue;
+
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    if (date < from || date > to) continue;
+
+    const localDate = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    const prep = await readDailyPrep(vault, localDate);
+    if (prep) {
+      days.push(summarizeDay(date, localDate.getDay(), prep));
+    }
+  }
+
+  return aggregateDailyPrepDays(from, to, days);
+}
@@ -1,18 +1,19 @@
 /**
  * Daily Prep Manager
  *
- * Reads and parses daily prep files from the vault.
+ * Reads, parses, and writes daily prep files in the vault.
  * Daily prep files use YAML frontmatter for structured data
  * and markdown body for human-readable content.
  *
  * File path: {contentRoot}/{inboxPath}/daily-prep/YYYY-MM-DD.md
  */
 
-import { readFile } from "node:fs/promises";
-import { join } from "node:path";
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join, relative } from "node:path";
 import type { VaultInfo } from "@memory-loop/shared";
 import { createLogger } from "@memory-loop/shared";
 import { fileExists } from "@memory-loop/shared/server";
+import { recordVersion } from "./file-history";
 
 const log = createLogger("DailyPrepManager");
 
@@ -86,6 +87,22 @@ export interface DailyPrepStatus {
   energy?: EnergyLevel;
   /** Calendar density (if prep exists) */
   calendar?: CalendarDensity;
+  /** Commitments with their evening assessments (if prep exists) */
+  commitmentItems?: CommitmentItem[];
+  /** Evening closure (if the day has been closed) */
+  closure?: ClosureData;
+}
+
+/**
+ * Result of a daily prep write.
+ */
+export interface DailyPrepWriteResult {
+  success: boolean;
+  error?: string;
+  /** Why the write was refused: today's prep already exists, or the prep or commitment wasn't found */
+  reason?: "exists" | "not_found";
+  /** Today's status after the write */
+  status?: DailyPrepStatus;
 }
 
 /**
@@ -219,10 +236,17 @@ function parseSimpleYaml(yaml: string): Record<string, unknown> {
 function parseYamlValue(value: string): string | number | boolean | null {
   const trimmed = value.trim();
 
-  // Handle quoted strings
-  if ((trimmed.startsWith('"') && trimmed.endsWith('"')) ||
-      (trimmed.startsWith("'") && trimmed.endsWith("'"))) {
-    return trimmed.slice(1, -1);
+  // Handle quoted strings. Double-quoted strings are JSON-compatible as
+  // written by serializeFrontmatter; fall back to the raw text otherwise.
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed) as string;
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
   }
 
   // Handle null
@@ -501,7 +525,359 @@ export async function getDailyPrepStatus(
 
   if (prep.commitment && prep.commitment.length > 0) {
     status.commitment = prep.commitment.map((c) => c.text);
+    status.commitmentItems = prep.commitment;
+  }
+
+  if (prep.closure) {
+    status.closure = prep.closure;
   }
 
   return status;
 }
+
+// =============================================================================
+// Writing
+// =============================================================================
+
+/**
+ * Morning answers for a new daily prep.
+ */
+export interface DailyPrepMorning {
+  energy?: EnergyLevel;
+  calendar?: CalendarDensity;
+  /** Commitment texts, in order */
+  commitments: string[];
+}
+
+/**
+ * Changes to one commitment. A null assessment clears it; an empty note
+ * removes the note.
+ */
+export interface CommitmentUpdate {
+  text?: string;
+  assessment?: AssessmentValue;
+  note?: string;
+}
+
+/**
+ * Evening closure: the reflection, plus optional assessments applied to the
+ * commitments in order.
+ */
+export interface DailyPrepClosure {
+  reflection: string;
+  assessments?: Array<{ assessment: AssessmentValue; note?: string }>;
+}
+
+function titleCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Serializes daily prep data as YAML frontmatter (without delimiters), in
+ * the subset parseFrontmatter reads. Strings are written as JSON strings so
+ * quotes, colons, and newlines survive.
+ */
+export function serializeFrontmatter(prep: DailyPrepFrontmatter): string {
+  const lines = [`date: ${prep.date}`];
+
+  if (prep.energy) lines.push(`energy: ${prep.energy}`);
+  if (prep.calendar) lines.push(`calendar: ${prep.calendar}`);
+
+  if (prep.commitment && prep.commitment.length > 0) {
+    lines.push("commitment:");
+    for (const item of prep.commitment) {
+      lines.push(`  - text: ${JSON.stringify(item.text)}`);
+      lines.push(`    assessment: ${item.assessment ?? "null"}`);
+      if (item.note) {
+        lines.push(`    note: ${JSON.stringify(item.note)}`);
+      }
+    }
+  }
+
+  if (prep.closure) {
+    lines.push("closure:");
+    lines.push(`  completed_at: ${JSON.stringify(prep.closure.completed_at)}`);
+    lines.push(`  reflection: ${JSON.stringify(prep.closure.reflection)}`);
+  }
+
+  return lines.join("\n");
+}
+
+function renderMorningSection(prep: DailyPrepFrontmatter): string {
+  const lines = ["## Morning", ""];
+
+  if (prep.energy) lines.push(`**Energy**: ${titleCase(prep.energy)}`);
+  if (prep.calendar) lines.push(`**Calendar**: ${titleCase(prep.calendar)}`);
+  if (prep.energy || prep.calendar) lines.push("");
+
+  lines.push("### What I'm Committing To", "");
+  const items = prep.commitment ?? [];
+  items.forEach((item, index) => lines.push(`${index + 1}. ${item.text}`));
+  if (items.length === 0) lines.push("Nothing yet.");
+
+  return lines.join("\n");
+}
+
+function renderEveningSection(prep: DailyPrepFrontmatter, closure: ClosureData): string {
+  const lines = ["## Evening", ""];
+
+  const items = prep.commitment ?? [];
+  if (items.length > 0) {
+    lines.push("**What Happened**:");
+    for (const item of items) {
+      const assessment = item.assessment ? titleCase(item.assessment) : "Not assessed";
+      lines.push(`- ${item.text}: ${assessment}.${item.note ? ` ${item.note}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  lines.push(`**Reflection**: ${closure.reflection || "None."}`);
+  return lines.join("\n");
+}
+
+/**
+ * Replaces a "## " section of the body, or appends it if missing. Anything
+ * else in the body (the title, sections added by hand) is kept.
+ */
+function upsertSection(body: string, heading: string, section: string): string {
+  const lines = body.split("\n");
+  const start = lines.findIndex((line) => line.trim() === `## ${heading}`);
+  if (start === -1) {
+    return `${body.trimEnd()}\n\n${section}\n`;
+  }
+
+  let end = lines.findIndex((line, index) => index > start && /^#{1,2}\s/.test(line));
+  if (end === -1) end = lines.length;
+
+  const before = lines.slice(0, start).join("\n").trimEnd();
+  const after = lines.slice(end).join("\n").trim();
+  return `${before}\n\n${section}\n${after ? `\n${after}\n` : ""}`;
+}
+
+/**
+ * Builds the file content for daily prep data, regenerating the Morning
+ * (and, once closed, Evening) sections of an existing body.
+ *
+ * @param prep - Daily prep data
+ * @param existingBody - Markdown after the frontmatter, if the file exists
+ */
+export function buildDailyPrepContent(prep: DailyPrepFrontmatter, existingBody?: string): string {
+  let body = existingBody?.trim() ? existingBody : `# Daily Prep: ${prep.date}\n`;
+  body = upsertSection(body, "Morning", renderMorningSection(prep));
+  if (prep.closure) {
+    body = upsertSection(body, "Evening", renderEveningSection(prep, prep.closure));
+  }
+  return `---\n${serializeFrontmatter(prep)}\n---\n\n${body.trimStart()}`;
+}
+
+/** Markdown after the frontmatter block */
+function extractBody(content: string): string {
+  const endIndex = content.indexOf("\n---", 3);
+  if (!content.startsWith("---") || endIndex === -1) {
+    return content;
+  }
+  return content.slice(endIndex + 4).replace(/^[^\n]*\n/, "");
+}
+
+async function writeDailyPrepFile(
+  vault: VaultInfo,
+  date: Date,
+  prep: DailyPrepFrontmatter,
+  previous: string | null
+): Promise<void> {
+  const filePath = getDailyPrepFilePath(vault, date);
+  if (previous === null) {
+    await mkdir(getDailyPrepDir(vault), { recursive: true });
+  } else {
+    await recordVersion(vault, relative(vault.contentRoot, filePath), previous, "edit");
+  }
+  await writeFile(filePath, buildDailyPrepContent(prep, previous === null ? undefined : extractBody(previous)), "utf-8");
+  log.info(`Wrote daily prep: ${filePath}`);
+}
+
+function failure(error: string, reason?: DailyPrepWriteResult["reason"]): DailyPrepWriteResult {
+  log.warn(error);
+  return { success: false, error, reason };
+}
+
+/**
+ * Reads today's prep, applies a change, and writes it back.
+ *
+ * @param change - Mutates the prep in place; returns an error to refuse the write
+ */
+async function updateDailyPrepFile(
+  vault: VaultInfo,
+  date: Date,
+  change: (prep: DailyPrepFrontmatter) => DailyPrepWriteResult | void
+): Promise<DailyPrepWriteResult> {
+  const filePath = getDailyPrepFilePath(vault, date);
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch {
+    return failure(`No daily prep for ${formatDateAsYYYYMMDD(date)}`, "not_found");
+  }
+
+  const fm = parseFrontmatter(content);
+  const prep = fm ? validateFrontmatter(fm) : null;
+  if (!prep) {
+    return failure(`Daily prep file has invalid frontmatter: ${filePath}`);
+  }
+
+  const refused = change(prep);
+  if (refused) {
+    return refused;
+  }
+
+  try {
+    await writeDailyPrepFile(vault, date, prep, content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return failure(`Failed to write daily prep: ${message}`);
+  }
+  return { success: true, status: await getDailyPrepStatus(vault, date) };
+}
+
+function findCommitment(prep: DailyPrepFrontmatter, index: number): CommitmentItem | DailyPrepWriteResult {
+  const item = prep.commitment?.[index];
+  return item ?? failure(`No commitment at index ${index}`, "not_found");
+}
+
+function applyCommitmentUpdate(item: CommitmentItem, update: CommitmentUpdate): void {
+  if (update.text !== undefined) {
+    item.text = update.text;
+  }
+  if (update.assessment !== undefined) {
+    item.assessment = update.assessment;
+  }
+  if (update.note !== undefined) {
+    if (update.note) {
+      item.note = update.note;
+    } else {
+      delete item.note;
+    }
+  }
+}
+
+/**
+ * Creates today's daily prep from the morning answers. Refuses if a prep
+ * file already exists for the day.
+ *
+ * @param vault - Vault info
+ * @param morning - Energy, calendar, and commitments
+ * @param today - Today's date (defaults to now)
+ */
+export async function createDailyPrep(
+  vault: VaultInfo,
+  morning: DailyPrepMorning,
+  today: Date = new Date()
+): Promise<DailyPrepWriteResult> {
+  const filePath = getDailyPrepFilePath(vault, today);
+  if (await fileExists(filePath)) {
+    return failure(`Daily prep already exists for ${formatDateAsYYYYMMDD(today)}`, "exists");
+  }
+
+  const prep: DailyPrepFrontmatter = { date: formatDateAsYYYYMMDD(today) };
+  if (morning.energy) prep.energy = morning.energy;
+  if (morning.calendar) prep.calendar = morning.calendar;
+  if (morning.commitments.length > 0) {
+    prep.commitment = morning.commitments.map((text) => ({ text, assessment: null }));
+  }
+
+  try {
+    await writeDailyPrepFile(vault, today, prep, null);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return failure(`Failed to write daily prep: ${message}`);
+  }
+  return { success: true, status: await getDailyPrepStatus(vault, today) };
+}
+
+/**
+ * Changes today's energy or calendar self-report.
+ */
+export function updateDailyPrepContext(
+  vault: VaultInfo,
+  changes: { energy?: EnergyLevel; calendar?: CalendarDensity },
+  today: Date = new Date()
+): Promise<DailyPrepWriteResult> {
+  return updateDailyPrepFile(vault, today, (prep) => {
+    if (changes.energy) prep.energy = changes.energy;
+    if (changes.calendar) prep.calendar = changes.calendar;
+  });
+}
+
+/**
+ * Adds a commitment to the end of today's list.
+ */
+export function addCommitment(
+  vault: VaultInfo,
+  text: string,
+  today: Date = new Date()
+): Promise<DailyPrepWriteResult> {
+  return updateDailyPrepFile(vault, today, (prep) => {
+    prep.commitment = [...(prep.commitment ?? []), { text, assessment: null }];
+  });
+}
+
+/**
+ * Edits one of today's commitments: its text, assessment, or note.
+ *
+ * @param index - 0-based position in the commitment list
+ */
+export function updateCommitment(
+  vault: VaultInfo,
+  index: number,
+  update: CommitmentUpdate,
+  today: Date = new Date()
+): Promise<DailyPrepWriteResult> {
+  return updateDailyPrepFile(vault, today, (prep) => {
+    const item = findCommitment(prep, index);
+    if ("success" in item) return item;
+    applyCommitmentUpdate(item, update);
+  });
+}
+
+/**
+ * Removes one of today's commitments.
+ *
+ * @param index - 0-based position in the commitment list
+ */
+export function removeCommitment(
+  vault: VaultInfo,
+  index: number,
+  today: Date = new Date()
+): Promise<DailyPrepWriteResult> {
+  return updateDailyPrepFile(vault, today, (prep) => {
+    const item = findCommitment(prep, index);
+    if ("success" in item) return item;
+    prep.commitment = prep.commitment?.filter((other) => other !== item);
+  });
+}
+
+/**
+ * Closes the day: records assessments and the reflection, stamps
+ * `closure.completed_at`, and writes the Evening section. Closing again
+ * replaces the earlier closure.
+ *
+ * @param closure - Reflection and optional per-commitment assessments
+ * @param now - When closure happened (defaults to now)
+ */
+export function closeDailyPrep(
+  vault: VaultInfo,
+  closure: DailyPrepClosure,
+  now: Date = new Date()
+): Promise<DailyPrepWriteResult> {
+  return updateDailyPrepFile(vault, now, (prep) => {
+    const items = prep.commitment ?? [];
+    const assessments = closure.assessments ?? [];
+    if (assessments.length > items.length) {
+      return failure(`Got ${assessments.length} assessments for ${items.length} commitments`);
+    }
+
+    assessments.forEach((entry, index) => {
+      applyCommitmentUpdate(items[index], { assessment: entry.assessment, note: entry.note });
+    });
+    prep.closure = { completed_at: now.toISOString(), reflection: closure.reflection };
+  });
+}
@@ -5,6 +5,7 @@
  * All operations are restricted to the vault boundary to prevent path traversal attacks.
  */
 
+import { createHash } from "node:crypto";
 import { readdir, readFile, writeFile, lstat, realpath, unlink, rename, mkdir, stat, rm } from "node:fs/promises";
 import { join, resolve, extname, basename } from "node:path";
 import type { FileEntry } from "@memory-loop/shared";
@@ -97,6 +98,25 @@ export class InvalidFileTypeError extends FileBrowserError {
   }
 }
 
+/**
+ * Error thrown when a write's If-Match version no longer matches the file,
+ * i.e. someone else changed it since it was read. Carries the current
+ * content so the client can merge.
+ */
+export class FileConflictError extends FileBrowserError {
+  /** Current file content on disk */
+  readonly currentContent: string;
+  /** Current version token */
+  readonly etag: string;
+
+  constructor(message: string, currentContent: string, etag: string) {
+    super(message, "FILE_CONFLICT");
+    this.name = "FileConflictError";
+    this.currentContent = currentContent;
+    this.etag = etag;
+  }
+}
+
 // =============================================================================
 // Path Validation
 // =============================================================================
@@ -284,6 +304,62 @@ export interface FileReadResult {
   content: string;
   /** Whether the content was truncated due to size limit */
   truncated: boolean;
+  /** Version token for optimistic concurrency (pass back as If-Match) */
+  etag: string;
+}
+
+/**
+ * Result of writing a markdown file.
+ */
+export interface FileWriteResult {
+  /** Version token of the written content */
+  etag: string;
+}
+
+/**
+ * Options for writing a markdown file.
+ */
+export interface WriteFileOptions {
+  /** Version token from the last read ("*" for any) */
+  ifMatch?: string;
+  /** Called with the content about to be replaced (e.g. to record history) */
+  beforeWrite?: (previousContent: string) => Promise<void>;
+}
+
+/**
+ * Computes a file's version token from its modification time and a hash of
+ * its full content. Quoted, as in an HTTP ETag header.
+ */
+export function computeFileEtag(content: Buffer | string, mtimeMs: number): string {
+  const hash = createHash("sha1").update(content).digest("hex").slice(0, 16);
+  return `"${Math.floor(mtimeMs).toString(36)}-${hash}"`;
+}
+
+/**
+ * Throws FileConflictError unless the file's current version matches.
+ * "*" matches any existing version.
+ *
+ * @param targetPath - Absolute path to an existing file
+ * @param relativePath - Path relative to vault root (for messages)
+ * @param ifMatch - Version token the client last read
+ */
+async function assertFileVersion(
+  targetPath: string,
+  relativePath: string,
+  ifMatch: string
+): Promise<void> {
+  if (ifMatch.trim() === "*") return;
+
+  const [buffer, stats] = await Promise.all([readFile(targetPath), stat(targetPath)]);
+  const etag = computeFileEtag(buffer, stats.mtimeMs);
+  if (ifMatch.trim() !== etag) {
+    log.info(`Version conflict on ${relativePath}: expected ${ifMatch}, found ${etag}`);
+    throw new FileConflictError(
+      `File "${relativePath}" was changed since it was read`,
+      buffer.toString("utf-8"),
+      etag
+    );
+  }
 }
 
 /**
@@ -315,6 +391,7 @@ export async function readMarkdownFile(
   const targetPath = await validatePath(vaultPath, relativePath);
 
   // Check if file exists and is not a symlink
+  let mtimeMs: number;
   try {
     const stats = await lstat(targetPath);
 
@@ -328,6 +405,7 @@ export async function readMarkdownFile(
     if (!stats.isFile()) {
       throw new FileNotFoundError(`Path "${relativePath}" is not a file`);
     }
+    mtimeMs = stats.mtimeMs;
   } catch (error) {
     if (error instanceof FileBrowserError) {
       throw error;
@@ -337,6 +415,7 @@ export async function readMarkdownFile(
 
   // Read file content
   const buffer = await readFile(targetPath);
+  const etag = computeFileEtag(buffer, mtimeMs);
 
   // Check for truncation
   if (buffer.length > MAX_FILE_SIZE) {
@@ -346,12 +425,14 @@ export async function readMarkdownFile(
     return {
       content: buffer.subarray(0, MAX_FILE_SIZE).toString("utf-8"),
       truncated: true,
+      etag,
     };
   }
 
   return {
     content: buffer.toString("utf-8"),
     truncated: false,
+    etag,
   };
 }
 
@@ -363,18 +444,26 @@ export async function readMarkdownFile(
  * Writes content to a text file in the vault.
  * Supports .md and .json files. Only allows writing to existing files.
  *
+ * With `ifMatch`, the write only happens if the file is still at the version
+ * the client read, so edits made elsewhere (e.g. in Obsidian) aren't lost.
+ *
  * @param vaultPath - Absolute path to the vault root
  * @param relativePath - Path relative to vault root
  * @param content - Content to write to the file
+ * @param options - ifMatch: version token from the last read ("*" for any);
+ *   beforeWrite: called with the content about to be replaced, once all checks pass
+ * @returns FileWriteResult with the new version token
  * @throws PathTraversalError if path escapes vault boundary
  * @throws FileNotFoundError if file does not exist (no new file creation)
  * @throws InvalidFileTypeError if file is not an allowed text file (.md, .json)
+ * @throws FileConflictError if ifMatch doesn't match the current version
  */
 export async function writeMarkdownFile(
   vaultPath: string,
   relativePath: string,
-  content: string
-): Promise<void> {
+  content: string,
+  options: WriteFileOptions = {}
+): Promise<FileWriteResult> {
   log.debug(`Writing file: ${relativePath} in ${vaultPath}`);
 
   // Validate file extension
@@ -409,28 +498,79 @@ export async function writeMarkdownFile(
     throw new FileNotFoundError(`File "${relativePath}" does not exist`);
   }
 
+  if (options.ifMatch !== undefined) {
+    await assertFileVersion(targetPath, relativePath, options.ifMatch);
+  }
+
+  if (options.beforeWrite) {
+    await options.beforeWrite(await readFile(targetPath, "utf-8"));
+  }
+
   // Write content to file
   await writeFile(targetPath, content, "utf-8");
   log.debug(`Successfully wrote ${content.length} bytes to ${relativePath}`);
+
+  const stats = await stat(targetPath);
+  return { etag: computeFileEtag(content, stats.mtimeMs) };
+}
+
+/**
+ * Checks a file against a client's version token before a rename or move.
+ *
+ * @param vaultPath - Absolute path to the vault root
+ * @param relativePath - Path relative to vault root
+ * @param ifMatch - Version token from the last read ("*" for any)
+ * @throws PathTraversalError if path escapes vault boundary
+ * @throws FileNotFoundError if file does not exist
+ * @throws FileConflictError if ifMatch doesn't match the current version
+ */
+export async function checkFileVersion(
+  vaultPath: string,
+  relativePath: string,
+  ifMatch: string
+): Promise<void> {
+  const targetPath = await validatePath(vaultPath, relativePath);
+  try {
+    const stats = await lstat(targetPath);
+    if (!stats.isFile()) {
+      throw new FileNotFoundError(`Path "${relativePath}" is not a file`);
+    }
+  } catch (error) {
+    if (error instanceof FileBrowserError) {
+      throw error;
+    }
+    throw new FileNotFoundError(`File "${relativePath}" does not exist`);
+  }
+  await assertFileVersion(targetPath, relativePath, ifMatch);
 }
 
 // =============================================================================
 // File Deletion
 // =============================================================================
 
+/**
+ * Options for deleting a file or directory.
+ */
+export interface DeleteOptions {
+  /** Moves the validated target somewhere recoverable instead of removing it */
+  trash?: (targetPath: string) => Promise<void>;
+}
+
 /**
  * Deletes a file from the vault.
  * Only allows deleting files (not directories) for safety.
  *
  * @param vaultPath - Absolute path to the vault root
  * @param relativePath - Path relative to vault root
+ * @param options - Optional trash callback used in place of unlinking
  * @throws PathTraversalError if path escapes vault boundary or is a symlink
  * @throws FileNotFoundError if file does not exist
  * @throws InvalidFileTypeError if target is a directory (not a file)
  */
 export async function deleteFile(
   vaultPath: string,
-  relativePath: string
+  relativePath: string,
+  options: DeleteOptions = {}
 ): Promise<void> {
   log.info(`Deleting file: ${relativePath} in ${vaultPath}`);
 
@@ -461,7 +601,11 @@ export async function deleteFile(
   }
 
   // Delete the file
-  await unlink(targetPath);
+  if (options.trash) {
+    await options.trash(targetPath);
+  } else {
+    await unlink(targetPath);
+  }
   log.info(`Successfully deleted file: ${relativePath}`);
 }
 
@@ -608,10 +752,11 @@ export interface DeleteDirectoryResult {
 
 /**
  * Deletes a directory and all its contents from the vault.
- * This is a destructive operation that cannot be undone.
+ * Without a trash callback this is a destructive operation that cannot be undone.
  *
  * @param vaultPath - Absolute path to the vault root
  * @param relativePath - Path relative to vault root
+ * @param options - Optional trash callback used in place of removing the tree
  * @returns DeleteDirectoryResult with counts of deleted items
  * @throws PathTraversalError if path escapes vault boundary or is a symlink
  * @throws DirectoryNotFoundError if directory does not exist
@@ -619,7 +764,8 @@ export interface DeleteDirectoryResult {
  */
 export async function deleteDirectory(
   vaultPath: string,
-  relativePath: string
+  relativePath: string,
+  options: DeleteOptions = {}
 ): Promise<DeleteDirectoryResult> {
   log.info(`Deleting directory: ${relativePath} in ${vaultPath}`);
 
@@ -653,7 +799,11 @@ export async function deleteDirectory(
   const contents = await getDirectoryContents(vaultPath, relativePath);
 
   // Delete the directory recursively
-  await rm(targetPath, { recursive: true });
+  if (options.trash) {
+    await options.trash(targetPath);
+  } else {
+    await rm(targetPath, { recursive: true });
+  }
   log.info(`Successfully deleted directory: ${relativePath} (${contents.totalFiles} files, ${contents.totalDirectories} subdirectories)`);
 
   return {
@@ -0,0 +1,403 @@
+/**
+ * File History
+ *
+ * Keeps a bounded, per-file history of previous contents so edits made from
+ * the editor, captures, rename link rewrites, and AI sessions can be rolled
+ * back. Before a file is overwritten its current content is snapshotted into
+ * .memory-loop/history/ under the vault root:
+ *
+ *   .memory-loop/history/<hash of path>/index.json     - { path, versions }
+ *   .memory-loop/history/<hash of path>/<id>.snapshot  - content of one version
+ *
+ * Recording history is best-effort: failures are logged and never block the
+ * write that triggered them.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  DiffLine,
+  FileHistory,
+  FileVersion,
+  FileVersionSource,
+  VaultInfo,
+} from "@memory-loop/shared";
+import { createLogger, diffLines } from "@memory-loop/shared";
+import {
+  FileNotFoundError,
+  MAX_FILE_SIZE,
+  readMarkdownFile,
+  writeMarkdownFile,
+  type FileWriteResult,
+} from "./file-browser";
+
+const log = createLogger("FileHistory");
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** History directory relative to the vault root */
+export const HISTORY_DIR = ".memory-loop/history";
+
+/** Oldest versions beyond this count are pruned */
+export const MAX_VERSIONS_PER_FILE = 50;
+
+/** Pseudo version ID for the file as it is on disk now */
+export const CURRENT_VERSION = "current";
+
+const INDEX_FILE = "index.json";
+const SNAPSHOT_EXT = ".snapshot";
+const VERSION_ID_PATTERN = /^[a-z0-9-]+$/;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The vault fields history needs: where to store it, and what paths are relative to */
+export type HistoryVault = Pick<VaultInfo, "path" | "contentRoot">;
+
+/** A stored version plus the content hash used to skip duplicate snapshots */
+interface StoredVersion extends FileVersion {
+  hash: string;
+}
+
+interface HistoryIndex {
+  path: string;
+  versions: StoredVersion[];
+}
+
+/**
+ * Line diff between two versions of a file.
+ */
+export interface FileVersionDiff {
+  path: string;
+  /** Older side: a version ID or "current" */
+  from: string;
+  /** Newer side: a version ID or "current" */
+  to: string;
+  lines: DiffLine[];
+}
+
+// =============================================================================
+// Storage Helpers
+// =============================================================================
+
+/** Serializes index updates per file so concurrent writes don't drop versions */
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const next = previous.then(fn, fn);
+  const settled = next.catch(() => {});
+  locks.set(key, settled);
+  void settled.then(() => {
+    if (locks.get(key) === settled) {
+      locks.delete(key);
+    }
+  });
+  return next;
+}
+
+function historyRoot(vault: HistoryVault): string {
+  return join(vault.path, HISTORY_DIR);
+}
+
+function fileKey(relativePath: string): string {
+  return createHash("sha1").update(relativePath).digest("hex").slice(0, 16);
+}
+
+function fileHistoryDir(vault: HistoryVault, relativePath: string): string {
+  return join(historyRoot(vault), fileKey(relativePath));
+}
+
+function hashContent(content: string): string {
+  return createHash("sha1").update(content).digest("hex");
+}
+
+let lastIdTime = 0;
+
+/**
+ * Generates a version ID that sorts by creation time. The time part is kept
+ * strictly increasing so versions recorded in the same millisecond still sort.
+ */
+function generateVersionId(): string {
+  lastIdTime = Math.max(Date.now(), lastIdTime + 1);
+  return `${lastIdTime.toString(36).padStart(9, "0")}-${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Normalizes a client path the same way the file routes do.
+ */
+function normalizePath(relativePath: string): string {
+  return relativePath.replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+}
+
+async function loadIndex(dir: string): Promise<HistoryIndex | null> {
+  try {
+    const raw = await readFile(join(dir, INDEX_FILE), "utf-8");
+    return JSON.parse(raw) as HistoryIndex;
+  } catch {
+    return null;
+  }
+}
+
+async function saveIndex(dir: string, index: HistoryIndex): Promise<void> {
+  // Write then rename so a crash never leaves a half-written index
+  const tmpPath = join(dir, `${INDEX_FILE}.tmp`);
+  await writeFile(tmpPath, JSON.stringify(index, null, 2), "utf-8");
+  await rename(tmpPath, join(dir, INDEX_FILE));
+}
+
+function toPublicVersion({ id, timestamp, size, source }: StoredVersion): FileVersion {
+  return { id, timestamp, size, source };
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Records a version of a file. Skipped if the content matches the most recent
+ * version or is over the size limit. Never throws.
+ *
+ * @param vault - Vault the file belongs to
+ * @param relativePath - Path relative to the content root
+ * @param content - Content to store (the file's content before a change)
+ * @param source - What is about to change the file
+ * @returns The recorded version, or null if nothing was recorded
+ */
+export async function recordVersion(
+  vault: HistoryVault,
+  relativePath: string,
+  content: string,
+  source: FileVersionSource
+): Promise<FileVersion | null> {
+  const path = normalizePath(relativePath);
+  if (!path) return null;
+
+  const size = Buffer.byteLength(content, "utf-8");
+  if (size > MAX_FILE_SIZE) {
+    log.debug(`Skipping history for ${path}: ${size} bytes exceeds limit`);
+    return null;
+  }
+
+  const dir = fileHistoryDir(vault, path);
+  try {
+    return await withLock(dir, async () => {
+      const index = (await loadIndex(dir)) ?? { path, versions: [] };
+      const hash = hashContent(content);
+      if (index.versions[0]?.hash === hash) {
+        return null;
+      }
+
+      const version: StoredVersion = {
+        id: generateVersionId(),
+        timestamp: new Date().toISOString(),
+        size,
+        source,
+        hash,
+      };
+
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${version.id}${SNAPSHOT_EXT}`), content, "utf-8");
+
+      index.path = path;
+      index.versions.unshift(version);
+      const pruned = index.versions.splice(MAX_VERSIONS_PER_FILE);
+      await saveIndex(dir, index);
+
+      for (const old of pruned) {
+        await rm(join(dir, `${old.id}${SNAPSHOT_EXT}`), { force: true });
+      }
+
+      log.debug(`Recorded ${source} version ${version.id} of ${path}`);
+      return toPublicVersion(version);
+    });
+  } catch (error) {
+    log.warn(`Failed to record history for ${path}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Snapshots a file's current content from disk. Missing or unreadable files
+ * are ignored. Never throws.
+ */
+export async function snapshotFile(
+  vault: HistoryVault,
+  relativePath: string,
+  source: FileVersionSource
+): Promise<FileVersion | null> {
+  try {
+    const { content, truncated } = await readMarkdownFile(vault.contentRoot, relativePath);
+    if (truncated) return null;
+    return await recordVersion(vault, relativePath, content, source);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Carries a file's history over to its new path after a rename or move.
+ * For directories, every file under the old path moves too. Never throws.
+ */
+export async function moveHistory(
+  vault: HistoryVault,
+  oldPath: string,
+  newPath: string
+): Promise<void> {
+  const from = normalizePath(oldPath);
+  const to = normalizePath(newPath);
+  if (!from || !to || from === to) return;
+
+  let keys: string[];
+  try {
+    keys = await readdir(historyRoot(vault));
+  } catch {
+    return;
+  }
+
+  for (const key of keys) {
+    const dir = join(historyRoot(vault), key);
+    try {
+      const index = await loadIndex(dir);
+      if (!index) continue;
+
+      let target: string;
+      if (index.path === from) {
+        target = to;
+      } else if (index.path.startsWith(`${from}/`)) {
+        target = to + index.path.slice(from.length);
+      } else {
+        continue;
+      }
+
+      const targetDir = fileHistoryDir(vault, target);
+      await withLock(targetDir, async () => {
+        const existing = await loadIndex(targetDir);
+        await mkdir(targetDir, { recursive: true });
+        for (const version of index.versions) {
+          await rename(
+            join(dir, `${version.id}${SNAPSHOT_EXT}`),
+            join(targetDir, `${version.id}${SNAPSHOT_EXT}`)
+          );
+        }
+
+        // A file previously at the new path keeps its versions alongside these
+        const versions = [...index.versions, ...(existing?.versions ?? [])]
+          .sort((a, b) => b.id.localeCompare(a.id));
+        const pruned = versions.splice(MAX_VERSIONS_PER_FILE);
+        await saveIndex(targetDir, { path: target, versions });
+        for (const old of pruned) {
+          await rm(join(targetDir, `${old.id}${SNAPSHOT_EXT}`), { force: true });
+        }
+      });
+      await rm(dir, { recursive: true, force: true });
+      log.debug(`Moved history ${index.path} -> ${target}`);
+    } catch (error) {
+      log.warn(`Failed to move history for ${from}:`, error);
+    }
+  }
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Lists a file's stored versions, newest first.
+ */
+export async function listVersions(
+  vault: HistoryVault,
+  relativePath: string
+): Promise<FileHistory> {
+  const path = normalizePath(relativePath);
+  const index = await loadIndex(fileHistoryDir(vault, path));
+  return { path, versions: (index?.versions ?? []).map(toPublicVersion) };
+}
+
+/**
+ * Reads the content of one stored version.
+ *
+ * @throws FileNotFoundError if the version does not exist
+ */
+export async function readVersion(
+  vault: HistoryVault,
+  relativePath: string,
+  versionId: string
+): Promise<{ version: FileVersion; content: string }> {
+  const path = normalizePath(relativePath);
+  if (!VERSION_ID_PATTERN.test(versionId)) {
+    throw new FileNotFoundError(`Version "${versionId}" of "${path}" does not exist`);
+  }
+
+  const dir = fileHistoryDir(vault, path);
+  const index = await loadIndex(dir);
+  const version = index?.versions.find((v) => v.id === versionId);
+  if (!version) {
+    throw new FileNotFoundError(`Version "${versionId}" of "${path}" does not exist`);
+  }
+
+  try {
+    const content = await readFile(join(dir, `${versionId}${SNAPSHOT_EXT}`), "utf-8");
+    return { version: toPublicVersion(version), content };
+  } catch {
+    throw new FileNotFoundError(`Version "${versionId}" of "${path}" does not exist`);
+  }
+}
+
+async function readSide(vault: HistoryVault, path: string, versionId: string): Promise<string> {
+  if (versionId === CURRENT_VERSION) {
+    const { content } = await readMarkdownFile(vault.contentRoot, path);
+    return content;
+  }
+  const { content } = await readVersion(vault, path, versionId);
+  return content;
+}
+
+/**
+ * Diffs two versions of a file. Either side may be "current" for the file
+ * on disk.
+ *
+ * @throws FileNotFoundError if either version (or the current file) is missing
+ */
+export async function diffVersions(
+  vault: HistoryVault,
+  relativePath: string,
+  from: string,
+  to: string = CURRENT_VERSION
+): Promise<FileVersionDiff> {
+  const path = normalizePath(relativePath);
+  const [fromContent, toContent] = await Promise.all([
+    readSide(vault, path, from),
+    readSide(vault, path, to),
+  ]);
+  return { path, from, to, lines: diffLines(fromContent, toContent) };
+}
+
+// =============================================================================
+// Restore
+// =============================================================================
+
+/**
+ * Restores a stored version over the current file. The content being replaced
+ * is recorded first, so a restore can itself be undone.
+ *
+ * @throws FileNotFoundError if the version or the file is missing
+ */
+export async function restoreVersion(
+  vault: HistoryVault,
+  relativePath: string,
+  versionId: string
+): Promise<FileWriteResult> {
+  const path = normalizePath(relativePath);
+  const { content } = await readVersion(vault, path, versionId);
+  log.info(`Restoring ${path} to version ${versionId}`);
+  return writeMarkdownFile(vault.contentRoot, path, content, {
+    beforeWrite: async (previous) => {
+      await recordVersion(vault, path, previous, "restore");
+    },
+  });
+}
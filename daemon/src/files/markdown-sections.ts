@@ -0,0 +1,90 @@
+/**
+ * Markdown Sections
+ *
+ * Locates heading sections in a note split into lines, so captures and
+ * tasks can be added under a heading. A section runs from its heading to
+ * the next heading of the same or a higher level.
+ */
+
+/**
+ * ATX heading: level (group 1) and text (group 2). An optional closing
+ * sequence of #s is not part of the text ("## Inbox ##" is "Inbox"), but a
+ * # attached to a word is ("## C#" is "C#").
+ */
+export const HEADING_REGEX = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+/**
+ * A heading's section within a note's lines.
+ */
+export interface HeadingSection {
+  /** Index of the heading line */
+  heading: number;
+  /** Index of the next heading of the same or a higher level, or the line count */
+  end: number;
+}
+
+/**
+ * Heading text as written in vault config or a request, with or without
+ * leading or closing #s.
+ */
+export function headingTitle(heading: string): string {
+  return heading.trim().match(HEADING_REGEX)?.[2] ?? heading.trim();
+}
+
+/**
+ * Finds the first heading matching a title (case-insensitive) and its section.
+ *
+ * @param lines - Note lines
+ * @param heading - Heading to find, with or without #s
+ * @returns The section, or null if no heading matches
+ */
+export function findHeadingSection(lines: string[], heading: string): HeadingSection | null {
+  const wanted = headingTitle(heading).toLowerCase();
+  const index = lines.findIndex((line) => line.match(HEADING_REGEX)?.[2].toLowerCase() === wanted);
+  if (index === -1) return null;
+
+  const level = lines[index].match(HEADING_REGEX)![1].length;
+  for (let i = index + 1; i < lines.length; i++) {
+    const next = lines[i].match(HEADING_REGEX);
+    if (next && next[1].length <= level) {
+      return { heading: index, end: i };
+    }
+  }
+  return { heading: index, end: lines.length };
+}
+
+/**
+ * Index of the last non-blank line in [from, to), or from - 1 if there is none.
+ */
+export function lastContentIndex(lines: string[], from: number, to: number): number {
+  for (let i = to - 1; i >= from; i--) {
+    if (lines[i].trim() !== "") return i;
+  }
+  return from - 1;
+}
+
+/**
+ * Index of the first non-blank line in [from, to), or -1 if there is none.
+ */
+export function firstContentIndex(lines: string[], from: number, to: number): number {
+  for (let i = from; i < to; i++) {
+    if (lines[i].trim() !== "") return i;
+  }
+  return -1;
+}
+
+/**
+ * Appends a "## heading" section after the note's last content, replacing
+ * trailing blank lines. The section ends with a blank line.
+ *
+ * @param lines - Note lines, modified in place
+ * @param heading - Heading for the new section, with or without #s
+ * @param body - Lines to put under the heading
+ * @returns Index of the first body line
+ */
+export function appendHeadingSection(lines: string[], heading: string, body: string[]): number {
+  const last = lastContentIndex(lines, 0, lines.length);
+  const section = [`## ${headingTitle(heading)}`, "", ...body, ""];
+  lines.splice(last + 1, lines.length - last - 1, ...(last === -1 ? section : ["", ...section]));
+  return last === -1 ? 2 : last + 4;
+}
@@ -3,13 +3,15 @@
  *
  * Handles meeting note creation and management. Meeting notes are stored in
  * a meetings/ subdirectory of the vault inbox with YAML frontmatter containing
- * date, title, and attendees fields.
+ * date, title, attendees, and agenda fields.
  *
  * Meeting capture flow:
- * 1. User starts a meeting with a title
+ * 1. User starts a meeting with a title, and optionally attendees and agenda
  * 2. System creates meeting file with frontmatter and ## Capture section
  * 3. Subsequent captures route to meeting file instead of daily note
- * 4. User stops meeting, system returns file content for Claude Code integration
+ * 4. User stops meeting; with `meetingWrapUp` on, an AI pass appends a
+ *    summary, decisions, and action items (see meeting-wrapup.ts)
+ * 5. System returns file content for Claude Code integration
  */
 
 import { readFile, writeFile, mkdir } from "node:fs/promises";
@@ -23,6 +25,8 @@ import {
   findCaptureSection,
   normalizeLineEndings,
 } from "./note-capture";
+import { appendWrapUp, generateMeetingWrapUp, type MeetingWrapUp } from "./meeting-wrapup";
+import { recordVersion } from "./file-history";
 
 /**
  * Error thrown when meeting capture operations fail.
@@ -35,8 +39,8 @@ export class MeetingCaptureError extends Error {
 }
 
 /**
- * Active meeting session state stored per-connection.
- * This is ephemeral and not persisted to disk.
+ * Active meeting session state, kept per vault by the meeting store and
+ * saved to disk so it survives a daemon restart.
  */
 export interface ActiveMeeting {
   /** Meeting title */
@@ -49,6 +53,20 @@ export interface ActiveMeeting {
   startedAt: string;
   /** Number of entries captured so far */
   entryCount: number;
+  /** ISO 8601 timestamp of the last capture, if any */
+  lastCaptureAt?: string;
+  /** ISO 8601 timestamp when the meeting was restored after a daemon restart */
+  resumedAt?: string;
+}
+
+/**
+ * Optional details recorded in a new meeting's frontmatter.
+ */
+export interface MeetingDetails {
+  /** People in the meeting */
+  attendees?: string[];
+  /** Topics to cover */
+  agenda?: string[];
 }
 
 /**
@@ -71,6 +89,10 @@ export interface StopMeetingResult {
   entryCount?: number;
   /** Relative path to the file */
   filePath?: string;
+  /** What the wrap-up pass added, when it ran */
+  wrapUp?: MeetingWrapUp;
+  /** Why the wrap-up pass failed; the meeting still stops */
+  wrapUpError?: string;
   error?: string;
 }
 
@@ -121,34 +143,47 @@ export function getMeetingFilename(
  *
  * @param title - The meeting title
  * @param date - The meeting date
+ * @param details - Attendees and agenda, if given
  * @returns YAML frontmatter string
  */
 export function generateMeetingFrontmatter(
   title: string,
-  date: Date = new Date()
+  date: Date = new Date(),
+  details: MeetingDetails = {}
 ): string {
   const dateStr = formatDateForFilename(date);
+  const attendees = (details.attendees ?? []).map((name) => JSON.stringify(name));
+  const agenda = (details.agenda ?? []).map((item) => `\n  - ${JSON.stringify(item)}`);
   return `---
 date: ${dateStr}
 title: "${title.replace(/"/g, '\\"')}"
-attendees: []
----
+attendees: [${attendees.join(", ")}]
+${agenda.length > 0 ? `agenda:${agenda.join("")}\n` : ""}---
 
 `;
 }
 
+/**
+ * Trims a list of attendees or agenda items, dropping blanks.
+ */
+function cleanList(items: string[] | undefined): string[] {
+  return (items ?? []).map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
 /**
  * Generates the template content for a new meeting note.
  *
  * @param title - The meeting title
  * @param date - The meeting date
+ * @param details - Attendees and agenda, if given
  * @returns Full template with frontmatter and sections
  */
 export function generateMeetingTemplate(
   title: string,
-  date: Date = new Date()
+  date: Date = new Date(),
+  details: MeetingDetails = {}
 ): string {
-  const frontmatter = generateMeetingFrontmatter(title, date);
+  const frontmatter = generateMeetingFrontmatter(title, date, details);
   return `${frontmatter}# ${title}
 
 ## Capture
@@ -179,12 +214,14 @@ export function getMeetingsDirectory(vault: VaultInfo): string {
  * @param vault - The vault to create the meeting in
  * @param title - The meeting title
  * @param date - Optional date (defaults to now)
+ * @param details - Optional attendees and agenda for the frontmatter
  * @returns StartMeetingResult with meeting state or error
  */
 export async function startMeeting(
   vault: VaultInfo,
   title: string,
-  date: Date = new Date()
+  date: Date = new Date(),
+  details: MeetingDetails = {}
 ): Promise<StartMeetingResult> {
   const startedAt = date.toISOString();
 
@@ -224,7 +261,10 @@ export async function startMeeting(
     }
 
     // Create the meeting file with template
-    const template = generateMeetingTemplate(trimmedTitle, date);
+    const template = generateMeetingTemplate(trimmedTitle, date, {
+      attendees: cleanList(details.attendees),
+      agenda: cleanList(details.agenda),
+    });
     try {
       await writeFile(filePath, template, "utf-8");
     } catch (error) {
@@ -322,6 +362,10 @@ export async function captureToMeeting(
 
     // Update entry count
     meeting.entryCount++;
+    // A capture queued offline can arrive after later ones; keep the latest
+    if (!meeting.lastCaptureAt || timestamp > meeting.lastCaptureAt) {
+      meeting.lastCaptureAt = timestamp;
+    }
 
     return { success: true, timestamp };
   } catch (error) {
@@ -333,11 +377,22 @@ export async function captureToMeeting(
 /**
  * Stops an active meeting and returns the file content.
  *
+ * When the vault has `meetingWrapUp` on and the meeting captured anything,
+ * the wrap-up sections are appended to the file first. A failed wrap-up is
+ * reported in `wrapUpError` but doesn't keep the meeting from stopping.
+ * The model call can take a while, so callers should clear the active
+ * meeting before stopping it; the sections are appended to the file as it
+ * is when the model answers.
+ *
  * @param meeting - The active meeting to stop
+ * @param vault - The meeting's vault (enables the wrap-up pass)
+ * @param date - Optional date the meeting ended (defaults to now)
  * @returns StopMeetingResult with file content for Claude Code
  */
 export async function stopMeeting(
-  meeting: ActiveMeeting
+  meeting: ActiveMeeting,
+  vault?: VaultInfo,
+  date: Date = new Date()
 ): Promise<StopMeetingResult> {
   try {
     // Read final content
@@ -352,11 +407,32 @@ export async function stopMeeting(
       };
     }
 
+    let wrapUp: MeetingWrapUp | undefined;
+    let wrapUpError: string | undefined;
+    if (vault?.meetingWrapUp && meeting.entryCount > 0) {
+      try {
+        wrapUp = await generateMeetingWrapUp(content, date);
+        // The note may have changed while the model ran
+        const current = await readFile(meeting.filePath, "utf-8");
+        const updated = appendWrapUp(current, wrapUp);
+        if (updated !== current) {
+          await recordVersion(vault, meeting.relativePath, current, "ai");
+          await writeFile(meeting.filePath, updated, "utf-8");
+        }
+        content = updated;
+      } catch (error) {
+        wrapUp = undefined;
+        wrapUpError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
     return {
       success: true,
       content,
       entryCount: meeting.entryCount,
       filePath: meeting.relativePath,
+      ...(wrapUp ? { wrapUp } : {}),
+      ...(wrapUpError ? { wrapUpError } : {}),
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -379,6 +455,8 @@ export function toMeetingState(meeting: ActiveMeeting | null): MeetingState {
     title: meeting.title,
     filePath: meeting.relativePath,
     startedAt: meeting.startedAt,
+    ...(meeting.lastCaptureAt ? { lastCaptureAt: meeting.lastCaptureAt } : {}),
+    ...(meeting.resumedAt ? { resumedAt: meeting.resumedAt } : {}),
   };
 }
 
@@ -4,12 +4,28 @@
  * Global in-memory storage for active meetings, keyed by vault ID.
  * This allows meeting state to persist across requests.
  * Meeting state is maintained per-vault so it survives connection interruptions.
+ *
+ * Active meetings are also written to `.memory-loop/active-meeting.json` in
+ * the vault and restored when the daemon starts, so a restart mid-meeting
+ * doesn't quietly send the rest of the meeting's captures to the daily note.
+ * A meeting with no captures for `MEETING_AUTO_STOP_HOURS` is treated as
+ * forgotten and stopped the next time it's looked at.
  */
 
+import { readFile, writeFile, mkdir, rm } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { VaultInfo } from "@memory-loop/shared";
 import type { ActiveMeeting } from "./meeting-capture";
 import { createLogger } from "@memory-loop/shared";
+import { fileExists } from "@memory-loop/shared/server";
 const log = createLogger("WS");
 
+/** Where a vault's active meeting is saved, relative to the vault root */
+export const ACTIVE_MEETING_FILE = ".memory-loop/active-meeting.json";
+
+/** Default hours without a capture before a meeting is stopped automatically */
+export const DEFAULT_MEETING_AUTO_STOP_HOURS = 8;
+
 /**
  * Global map of vault ID to active meeting.
  * Only one meeting can be active per vault at a time.
@@ -91,3 +107,189 @@ export function clearAllMeetings(): void {
   log.info(`[MeetingStore] Clearing all ${activeMeetings.size} active meetings`);
   activeMeetings.clear();
 }
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Saved form of an active meeting. The meeting file is stored relative to
+ * the content root so a moved vault still finds it.
+ */
+interface PersistedMeeting {
+  title: string;
+  relativePath: string;
+  startedAt: string;
+  entryCount: number;
+  lastCaptureAt?: string;
+}
+
+function getActiveMeetingFile(vault: VaultInfo): string {
+  return join(vault.path, ACTIVE_MEETING_FILE);
+}
+
+/**
+ * Saves a vault's active meeting to disk, or removes the saved meeting when
+ * the vault has none. Failures are logged rather than thrown; the meeting
+ * carries on in memory.
+ *
+ * @param vault - The vault whose meeting to save
+ */
+export async function persistActiveMeeting(vault: VaultInfo): Promise<void> {
+  const filePath = getActiveMeetingFile(vault);
+  const meeting = activeMeetings.get(vault.id);
+  try {
+    if (!meeting) {
+      await rm(filePath, { force: true });
+      return;
+    }
+    const persisted: PersistedMeeting = {
+      title: meeting.title,
+      relativePath: meeting.relativePath,
+      startedAt: meeting.startedAt,
+      entryCount: meeting.entryCount,
+      ...(meeting.lastCaptureAt ? { lastCaptureAt: meeting.lastCaptureAt } : {}),
+    };
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, JSON.stringify(persisted, null, 2) + "\n", "utf-8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`[MeetingStore] Failed to save active meeting for vault ${vault.id}: ${message}`);
+  }
+}
+
+/**
+ * Reads a vault's saved meeting, or null if there's none or it's unreadable.
+ */
+async function readPersistedMeeting(vault: VaultInfo): Promise<PersistedMeeting | null> {
+  const filePath = getActiveMeetingFile(vault);
+  if (!(await fileExists(filePath))) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(await readFile(filePath, "utf-8")) as Record<string, unknown>;
+    const { title, relativePath, startedAt, entryCount, lastCaptureAt } = parsed;
+    if (
+      typeof title !== "string" ||
+      typeof relativePath !== "string" ||
+      typeof startedAt !== "string" ||
+      Number.isNaN(Date.parse(startedAt))
+    ) {
+      log.warn(`[MeetingStore] Ignoring invalid saved meeting in ${filePath}`);
+      return null;
+    }
+    return {
+      title,
+      relativePath,
+      startedAt,
+      entryCount: typeof entryCount === "number" ? entryCount : 0,
+      ...(typeof lastCaptureAt === "string" ? { lastCaptureAt } : {}),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`[MeetingStore] Could not read saved meeting in ${filePath}: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * Whether a meeting has gone without a capture (or, with none yet, since it
+ * started) for longer than the auto-stop timeout.
+ *
+ * @param meeting - The meeting to check
+ * @param now - Current time (for testing)
+ * @param autoStopHours - Hours of quiet before a meeting is stale; 0 never
+ * @returns true if the meeting should be stopped
+ */
+export function isMeetingStale(
+  meeting: Pick<ActiveMeeting, "startedAt" | "lastCaptureAt">,
+  now: Date = new Date(),
+  autoStopHours: number = getMeetingAutoStopHoursFromEnv()
+): boolean {
+  if (autoStopHours <= 0) {
+    return false;
+  }
+  const lastActivity = Date.parse(meeting.lastCaptureAt ?? meeting.startedAt);
+  return now.getTime() - lastActivity > autoStopHours * 60 * 60 * 1000;
+}
+
+/**
+ * Stops a vault's active meeting if it has gone stale. The meeting file is
+ * kept as it is; only the active state is dropped.
+ *
+ * @param vault - The vault to check
+ * @param now - Current time (for testing)
+ * @returns The meeting that was stopped, or null if none was
+ */
+export async function stopStaleMeeting(
+  vault: VaultInfo,
+  now: Date = new Date()
+): Promise<ActiveMeeting | null> {
+  const meeting = activeMeetings.get(vault.id);
+  if (!meeting || !isMeetingStale(meeting, now)) {
+    return null;
+  }
+  log.info(`[MeetingStore] Auto-stopping stale meeting for vault ${vault.id}: "${meeting.title}"`);
+  activeMeetings.delete(vault.id);
+  await persistActiveMeeting(vault);
+  return meeting;
+}
+
+/**
+ * Restores the meetings saved in each vault when the daemon starts. Restored
+ * meetings are marked resumed. Saved meetings whose file is gone or that
+ * have gone stale are dropped.
+ *
+ * @param vaults - Vaults to restore meetings for
+ * @param now - Current time (for testing)
+ * @returns Number of meetings restored
+ */
+export async function restoreActiveMeetings(
+  vaults: VaultInfo[],
+  now: Date = new Date()
+): Promise<number> {
+  let restored = 0;
+  for (const vault of vaults) {
+    const persisted = await readPersistedMeeting(vault);
+    if (!persisted) {
+      continue;
+    }
+
+    const filePath = join(vault.contentRoot, persisted.relativePath);
+    if (!(await fileExists(filePath))) {
+      log.warn(`[MeetingStore] Dropping saved meeting for vault ${vault.id}: ${persisted.relativePath} is gone`);
+      await rm(getActiveMeetingFile(vault), { force: true });
+      continue;
+    }
+    if (isMeetingStale(persisted, now)) {
+      log.info(`[MeetingStore] Not resuming stale meeting for vault ${vault.id}: "${persisted.title}"`);
+      await rm(getActiveMeetingFile(vault), { force: true });
+      continue;
+    }
+
+    activeMeetings.set(vault.id, { ...persisted, filePath, resumedAt: now.toISOString() });
+    log.info(`[MeetingStore] Resumed meeting for vault ${vault.id}: "${persisted.title}"`);
+    restored++;
+  }
+  return restored;
+}
+
+/**
+ * Get the configured auto-stop timeout from environment.
+ *
+ * @returns Hours (0 disables auto-stop) or default
+ */
+export function getMeetingAutoStopHoursFromEnv(): number {
+  const envValue = process.env.MEETING_AUTO_STOP_HOURS;
+  if (!envValue) {
+    return DEFAULT_MEETING_AUTO_STOP_HOURS;
+  }
+
+  const hours = Number(envValue);
+  if (!Number.isFinite(hours) || hours < 0) {
+    log.warn(`Invalid MEETING_AUTO_STOP_HOURS: ${envValue}, using default ${DEFAULT_MEETING_AUTO_STOP_HOURS}`);
+    return DEFAULT_MEETING_AUTO_STOP_HOURS;
+  }
+
+  return hours;
+}
@@ -0,0 +1,233 @@
+/**
+ * Meeting Wrap-Up
+ *
+ * Optional AI pass run when a meeting stops (vaults with `meetingWrapUp`).
+ * The meeting note is sent to the model, which answers with a summary, the
+ * decisions made, and action items. These are appended to the note as
+ * ## Summary, ## Decisions, and ## Action Items sections, with action items
+ * written as checkbox tasks so they show up in the task list.
+ */
+
+import { createLogger } from "@memory-loop/shared";
+import { getSdkQuery, type QueryFunction } from "../sdk-provider";
+import { formatDateForFilename, normalizeLineEndings } from "./note-capture";
+import { updateTaskText } from "./task-manager";
+
+const log = createLogger("MeetingWrapUp");
+
+/** Model used for the wrap-up pass */
+export const WRAP_UP_MODEL = "sonnet";
+
+/** Maximum meeting note length sent to the model */
+const MAX_WRAP_UP_CONTENT = 50000;
+
+/** How long the wrap-up pass may run before the meeting stops without it */
+export const WRAP_UP_TIMEOUT_MS = 90_000;
+
+/**
+ * An action item from a meeting.
+ */
+export interface MeetingActionItem {
+  /** What needs doing */
+  text: string;
+  /** Who agreed to do it, if anyone was named */
+  owner?: string;
+  /** Due date (YYYY-MM-DD), if one was mentioned */
+  due?: string;
+}
+
+/**
+ * What the wrap-up pass adds to a meeting note.
+ */
+export interface MeetingWrapUp {
+  summary: string;
+  decisions: string[];
+  actionItems: MeetingActionItem[];
+}
+
+/**
+ * Builds the prompt for the wrap-up pass.
+ *
+ * @param content - The meeting note
+ * @param date - The meeting date, used to resolve relative due dates
+ */
+export function buildWrapUpPrompt(content: string, date: Date = new Date()): string {
+  const truncated =
+    content.length > MAX_WRAP_UP_CONTENT
+      ? content.slice(0, MAX_WRAP_UP_CONTENT) + "\n\n[Content truncated...]"
+      : content;
+
+  return `Wrap up the following meeting from its raw notes. The frontmatter lists the attendees and agenda when known.
+
+Meeting date: ${formatDateForFilename(date)}
+
+Notes:
+---
+${truncated}
+---
+
+Write:
+- summary: 2-4 sentences on what the meeting covered
+- decisions: each decision the meeting reached, one sentence each
+- actionItems: each task someone agreed to do. Use the owner's name if one was given and a due date (YYYY-MM-DD) if one was mentioned, resolving words like "Friday" against the meeting date.
+
+Only include what the notes support. Leave lists empty rather than guessing.
+
+Respond ONLY with JSON in this exact format (no markdown, no explanation):
+{"summary": "...", "decisions": ["..."], "actionItems": [{"text": "...", "owner": "...", "due": "YYYY-MM-DD"}]}`;
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function toActionItems(value: unknown): MeetingActionItem[] {
+  if (!Array.isArray(value)) return [];
+  const items: MeetingActionItem[] = [];
+  for (const raw of value) {
+    if (typeof raw !== "object" || raw === null) continue;
+    const { text, owner, due } = raw as Record<string, unknown>;
+    if (typeof text !== "string" || !text.trim()) continue;
+
+    const item: MeetingActionItem = { text: text.trim() };
+    if (typeof owner === "string" && owner.trim()) item.owner = owner.trim();
+    if (typeof due === "string" && /^\d{4}-\d{2}-\d{2}$/.test(due.trim())) item.due = due.trim();
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Parses the model's JSON answer. Returns null when it isn't usable.
+ */
+export function parseWrapUpResponse(response: string): MeetingWrapUp | null {
+  let jsonStr = response.trim();
+  const codeBlockMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (codeBlockMatch) {
+    jsonStr = codeBlockMatch[1].trim();
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonStr);
+  } catch {
+    log.warn("Failed to parse wrap-up response as JSON", { response: jsonStr.slice(0, 200) });
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const obj = parsed as Record<string, unknown>;
+  return {
+    summary: typeof obj.summary === "string" ? obj.summary.trim() : "",
+    decisions: toStringList(obj.decisions),
+    actionItems: toActionItems(obj.actionItems),
+  };
+}
+
+/**
+ * Formats an action item as a task line, with the owner in front and the
+ * due date in Obsidian Tasks format.
+ *
+ * @example
+ *   formatActionItem({ text: "Send the deck", owner: "Ann", due: "2026-10-23" })
+ *   // "- [ ] Ann: Send the deck 📅 2026-10-23"
+ */
+export function formatActionItem(item: MeetingActionItem): string {
+  const description = item.owner ? `${item.owner}: ${item.text}` : item.text;
+  return `- [ ] ${updateTaskText(description, item.due ? { dueDate: item.due } : {})}`;
+}
+
+/**
+ * Appends the wrap-up sections to a meeting note. Empty sections are left out.
+ */
+export function appendWrapUp(content: string, wrapUp: MeetingWrapUp): string {
+  const sections: string[] = [];
+  if (wrapUp.summary) {
+    sections.push(`## Summary\n\n${wrapUp.summary}\n`);
+  }
+  if (wrapUp.decisions.length > 0) {
+    sections.push(`## Decisions\n\n${wrapUp.decisions.map((d) => `- ${d}`).join("\n")}\n`);
+  }
+  if (wrapUp.actionItems.length > 0) {
+    sections.push(`## Action Items\n\n${wrapUp.actionItems.map(formatActionItem).join("\n")}\n`);
+  }
+  if (sections.length === 0) {
+    return content;
+  }
+
+  const normalized = normalizeLineEndings(content).replace(/\n*$/, "\n");
+  return `${normalized}\n${sections.join("\n")}`;
+}
+
+/**
+ * Collects the text of the assistant's reply from an SDK query.
+ */
+async function collectResponse(queryResult: ReturnType<QueryFunction>): Promise<string> {
+  const parts: string[] = [];
+  for await (const event of queryResult) {
+    const rawEvent = event as unknown as Record<string, unknown>;
+    if (rawEvent.type !== "assistant") continue;
+
+    const message = rawEvent.message as
+      | { content?: Array<{ type: string; text?: string }> }
+      | undefined;
+    for (const block of message?.content ?? []) {
+      if (block.type === "text" && block.text) {
+        parts.push(block.text);
+      }
+    }
+  }
+  return parts.join("");
+}
+
+/**
+ * Runs the wrap-up pass over a meeting note.
+ *
+ * @param content - The meeting note
+ * @param date - The meeting date
+ * @param timeoutMs - How long to wait for the model before giving up
+ * @returns The wrap-up
+ * @throws Error if the model call fails, times out, or its answer can't be parsed
+ */
+export async function generateMeetingWrapUp(
+  content: string,
+  date: Date = new Date(),
+  timeoutMs: number = WRAP_UP_TIMEOUT_MS
+): Promise<MeetingWrapUp> {
+  const abortController = new AbortController();
+  const queryResult = getSdkQuery()({
+    prompt: buildWrapUpPrompt(content, date),
+    options: {
+      model: WRAP_UP_MODEL,
+      maxTurns: 1,
+      allowedTools: [], // No tools needed for summarizing
+      abortController,
+    },
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      abortController.abort();
+      reject(new Error(`The wrap-up took longer than ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+  });
+
+  let response: string;
+  try {
+    response = await Promise.race([collectResponse(queryResult), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+  const wrapUp = parseWrapUpResponse(response);
+  if (!wrapUp) {
+    throw new Error("Could not read the wrap-up response");
+  }
+  return wrapUp;
+}
@@ -2,20 +2,39 @@
  * Note Capture Module
  *
  * Handles daily note creation and text appending for the note-adding mode.
- * Daily notes use ISO 8601 date format (YYYY-MM-DD) and are stored in the
- * vault's inbox directory.
+ * Daily notes are named with the vault's `dailyNoteFormat` (YYYY-MM-DD by
+ * default) and stored in its `dailyNoteFolder` (the inbox by default); new
+ * ones are created from `dailyNoteTemplatePath` when one is configured.
+ * Captures can also go to a vault's named capture targets (a reading list,
+ * a project log) instead of the daily note.
  */
 
 import { readFile, writeFile, mkdir, readdir } from "node:fs/promises";
-import { join } from "node:path";
-import type { VaultInfo, RecentNoteEntry } from "@memory-loop/shared";
+import { join, relative, dirname, extname, basename } from "node:path";
+import type { VaultInfo, RecentNoteEntry, CaptureTarget } from "@memory-loop/shared";
 import {
-  getVaultInboxPath,
+  createLogger,
+  getVaultDailyNoteDir,
+  getDailyNotePath,
   formatDateForFilename,
   formatTimeForTimestamp,
+  formatDailyNoteDate,
+  parseDailyNoteDate,
   getDailyNoteFilename,
+  DEFAULT_CAPTURE_FORMAT,
+  DEFAULT_DAILY_NOTE_FORMAT,
 } from "@memory-loop/shared";
-import { directoryExists, fileExists } from "@memory-loop/shared/server";
+import { fileExists } from "@memory-loop/shared/server";
+import { recordVersion } from "./file-history";
+import { validatePath } from "./file-browser";
+import {
+  appendHeadingSection,
+  findHeadingSection,
+  firstContentIndex,
+  lastContentIndex,
+} from "./markdown-sections";
+
+const log = createLogger("NoteCapture");
 
 // Re-export date utilities for backward compatibility within daemon code
 export { formatDateForFilename, formatTimeForTimestamp, getDailyNoteFilename };
@@ -48,11 +67,78 @@ export interface CaptureResult {
  * Generates the template content for a new daily note.
  *
  * @param date - The date for the note
+ * @param title - Heading for the note (defaults to the YYYY-MM-DD date)
  * @returns Template content with heading and Capture section
  */
-export function generateDailyNoteTemplate(date: Date = new Date()): string {
-  const dateStr = formatDateForFilename(date);
-  return `# ${dateStr}\n\n## Capture\n\n`;
+export function generateDailyNoteTemplate(
+  date: Date = new Date(),
+  title: string = formatDateForFilename(date)
+): string {
+  return `# ${title}\n\n## Capture\n\n`;
+}
+
+/**
+ * Fills in a daily note template the way Obsidian's Daily Notes plugin does:
+ * {{date}} is the date in the daily note format, {{date:FORMAT}} in any
+ * moment-style format, {{time}} is HH:MM, and {{title}} is the note's name.
+ *
+ * @param template - Template file content
+ * @param date - The date of the note
+ * @param title - The note's filename without ".md"
+ * @param format - The vault's daily note format
+ * @returns The content for the new note
+ */
+export function renderDailyNoteTemplate(
+  template: string,
+  date: Date,
+  title: string,
+  format: string = DEFAULT_DAILY_NOTE_FORMAT
+): string {
+  return template
+    .replace(/\{\{date(?::([^}]+))?\}\}/g, (_match, custom: string | undefined) =>
+      formatDailyNoteDate(date, custom?.trim() || format)
+    )
+    .replace(/\{\{time\}\}/g, formatTimeForTimestamp(date))
+    .replace(/\{\{title\}\}/g, () => title);
+}
+
+/**
+ * Gets the name a daily note is linked by ([[name]]): its filename without
+ * folders or ".md".
+ */
+export function getDailyNoteTitle(vault: VaultInfo, date: Date): string {
+  return basename(getDailyNoteFilename(date, vault.dailyNoteFormat), ".md");
+}
+
+/**
+ * Gets the content for a vault's new daily note: its template file filled
+ * in, or the built-in template when none is configured. A template that
+ * can't be read falls back to the built-in one, so captures still land.
+ *
+ * @param vault - The vault the note is for
+ * @param date - The date of the note (defaults to now)
+ * @returns Content for the new note
+ */
+export async function createDailyNoteContent(
+  vault: VaultInfo,
+  date: Date = new Date()
+): Promise<string> {
+  const title = getDailyNoteTitle(vault, date);
+  if (!vault.dailyNoteTemplatePath) {
+    return generateDailyNoteTemplate(date, title);
+  }
+
+  const templatePath = extname(vault.dailyNoteTemplatePath) === ""
+    ? `${vault.dailyNoteTemplatePath}.md`
+    : vault.dailyNoteTemplatePath;
+  try {
+    const template = await readFile(await validatePath(vault.contentRoot, templatePath), "utf-8");
+    return renderDailyNoteTemplate(normalizeLineEndings(template), date, title, vault.dailyNoteFormat);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Using the built-in daily note template; could not read "${templatePath}": ${message}`);
+    return generateDailyNoteTemplate(date, title);
+  }
 }
 
 /**
@@ -169,8 +255,8 @@ export function appendToCaptureSection(
  * Captures text to today's daily note in the specified vault.
  *
  * This function:
- * 1. Creates the inbox directory if it doesn't exist
- * 2. Creates the daily note with template if it doesn't exist
+ * 1. Creates the daily note folder if it doesn't exist
+ * 2. Creates the daily note from the template if it doesn't exist
  * 3. Appends the captured text under ## Capture with timestamp
  * 4. Preserves all existing content
  *
@@ -197,20 +283,17 @@ export async function captureToDaily(
       };
     }
 
-    const inboxPath = getVaultInboxPath(vault);
-    const filename = getDailyNoteFilename(date);
-    const notePath = join(inboxPath, filename);
+    const notePath = getDailyNotePath(vault, date);
 
-    // Ensure inbox directory exists
-    if (!(await directoryExists(inboxPath))) {
-      try {
-        await mkdir(inboxPath, { recursive: true });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        throw new NoteCaptureError(
-          `Failed to create inbox directory "${inboxPath}": ${message}`
-        );
-      }
+    // Ensure the daily note's folder exists (formats like YYYY/MM/... nest it)
+    const noteDir = dirname(notePath);
+    try {
+      await mkdir(noteDir, { recursive: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NoteCaptureError(
+        `Failed to create daily note directory "${noteDir}": ${message}`
+      );
     }
 
     // Read existing content or create template
@@ -227,13 +310,17 @@ export async function captureToDaily(
         );
       }
     } else {
-      content = generateDailyNoteTemplate(date);
+      content = await createDailyNoteContent(vault, date);
     }
 
     // Format and append the capture entry (preserving text verbatim per REQ-F-15)
     const captureEntry = formatCaptureEntry(text, date);
     const updatedContent = appendToCaptureSection(content, captureEntry);
 
+    if (noteExists) {
+      await recordVersion(vault, relative(vault.contentRoot, notePath), content, "capture");
+    }
+
     // Write the updated content
     try {
       await writeFile(notePath, updatedContent, "utf-8");
@@ -250,21 +337,202 @@ export async function captureToDaily(
       notePath,
     };
   } catch (error) {
-    if (error instanceof NoteCaptureError) {
+    return captureFailure(timestamp, error);
+  }
+}
+
+/**
+ * Builds the failed CaptureResult for an error thrown during a capture.
+ */
+function captureFailure(timestamp: string, error: unknown): CaptureResult {
+  if (error instanceof NoteCaptureError) {
+    return {
+      success: false,
+      timestamp,
+      notePath: "",
+      error: error.message,
+    };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    success: false,
+    timestamp,
+    notePath: "",
+    error: `Unexpected error during capture: ${message}`,
+  };
+}
+
+// =============================================================================
+// Capture Targets
+// =============================================================================
+
+/**
+ * Expands date placeholders the way daily note templates do: {{date}} is
+ * YYYY-MM-DD and {{date:FORMAT}} uses a moment-style format.
+ */
+function expandDatePlaceholders(template: string, date: Date): string {
+  return template.replace(/\{\{date(?::([^}]+))?\}\}/g, (_match, custom: string | undefined) =>
+    formatDailyNoteDate(date, custom?.trim() || DEFAULT_DAILY_NOTE_FORMAT)
+  );
+}
+
+/**
+ * Expands the date placeholders in a capture target's path ({{date}} and
+ * {{date:FORMAT}}, as in daily note templates) and adds ".md" if the path
+ * has no extension.
+ *
+ * @param path - Target path from the vault config
+ * @param date - Date to expand placeholders with (defaults to now)
+ * @returns Path relative to the content root
+ */
+export function resolveCaptureTargetPath(path: string, date: Date = new Date()): string {
+  const expanded = expandDatePlaceholders(path, date);
+  return extname(expanded) === "" ? `${expanded}.md` : expanded;
+}
+
+/**
+ * Fills in a capture target's entry format. The text is substituted last,
+ * so placeholders typed in a capture are kept as written.
+ *
+ * @param format - Template with {{text}}, {{time}}, {{date}}, and {{date:FORMAT}}
+ * @param text - The captured text
+ * @param date - Date for the time and date placeholders (defaults to now)
+ * @returns The entry, without a trailing newline
+ */
+export function formatTargetEntry(format: string, text: string, date: Date = new Date()): string {
+  return expandDatePlaceholders(format.replace(/\{\{time\}\}/g, formatTimeForTimestamp(date)), date)
+    .replace(/\{\{text\}\}/g, () => text);
+}
+
+/**
+ * Adds an entry to a note, at the start or end of a heading's section. A
+ * missing heading is appended as "## heading". Without a heading the entry
+ * goes at the end of the note, or at the start (after frontmatter and a
+ * leading "# title") when prepending.
+ *
+ * @param content - The note content (line endings are normalized to LF)
+ * @param entry - The formatted entry; may span several lines
+ * @param heading - Section to add the entry to, with or without leading #s
+ * @param position - Whether the entry goes at the end or start of the section
+ * @returns Updated note content
+ */
+export function insertCaptureEntry(
+  content: string,
+  entry: string,
+  heading?: string,
+  position: "append" | "prepend" = "append"
+): string {
+  const lines = normalizeLineEndings(content).split("\n");
+  const entryLines = entry.split("\n");
+
+  let start = 0;
+  let end = lines.length;
+  if (heading) {
+    const section = findHeadingSection(lines, heading);
+    if (!section) {
+      appendHeadingSection(lines, heading, entryLines);
+      return lines.join("\n");
+    }
+    start = section.heading + 1;
+    end = section.end;
+  } else if (position === "prepend") {
+    // Skip frontmatter and a leading title
+    if (lines[0] === "---") {
+      const close = lines.indexOf("---", 1);
+      if (close !== -1) start = close + 1;
+    }
+    const first = firstContentIndex(lines, start, end);
+    if (first !== -1 && /^#\s/.test(lines[first])) start = first + 1;
+  }
+
+  const first = firstContentIndex(lines, start, end);
+  if (position === "prepend" && first !== -1) {
+    lines.splice(first, 0, ...entryLines);
+    return lines.join("\n");
+  }
+
+  // Append after the section's last content. An empty section gets a blank
+  // line after its heading, and a blank line is kept before the next heading.
+  const last = lastContentIndex(lines, start, end);
+  const insert = last < start && start > 0 ? ["", ...entryLines] : [...entryLines];
+  if (last + 1 === end && end < lines.length) insert.push("");
+  lines.splice(last + 1, 0, ...insert);
+  if (lines[lines.length - 1] !== "") lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Captures text to one of a vault's capture targets, creating the note (and
+ * its folder) if it doesn't exist yet.
+ *
+ * @param vault - The vault to capture to
+ * @param target - The capture target to write to
+ * @param text - The text to capture
+ * @param date - Optional date to use (defaults to now)
+ * @returns CaptureResult indicating success or failure
+ */
+export async function captureToTarget(
+  vault: VaultInfo,
+  target: CaptureTarget,
+  text: string,
+  date: Date = new Date()
+): Promise<CaptureResult> {
+  const timestamp = date.toISOString();
+
+  try {
+    if (!text || text.trim().length === 0) {
       return {
         success: false,
         timestamp,
         notePath: "",
-        error: error.message,
+        error: "Cannot capture empty text",
       };
     }
-    const message = error instanceof Error ? error.message : String(error);
+
+    const relativePath = resolveCaptureTargetPath(target.path, date);
+    let notePath: string;
+    try {
+      notePath = await validatePath(vault.contentRoot, relativePath);
+    } catch {
+      throw new NoteCaptureError(
+        `Capture target "${target.name}" is outside the vault: ${relativePath}`
+      );
+    }
+
+    const noteExists = await fileExists(notePath);
+    let content = "";
+    try {
+      if (noteExists) {
+        content = await readFile(notePath, "utf-8");
+      } else {
+        await mkdir(dirname(notePath), { recursive: true });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NoteCaptureError(`Failed to read "${relativePath}": ${message}`);
+    }
+
+    const entry = formatTargetEntry(target.format ?? DEFAULT_CAPTURE_FORMAT, text, date);
+    const updatedContent = insertCaptureEntry(content, entry, target.heading, target.position);
+
+    if (noteExists) {
+      await recordVersion(vault, relative(vault.contentRoot, notePath), content, "capture");
+    }
+
+    try {
+      await writeFile(notePath, updatedContent, "utf-8");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NoteCaptureError(`Failed to write "${relativePath}": ${message}`);
+    }
+
     return {
-      success: false,
+      success: true,
       timestamp,
-      notePath: "",
-      error: `Unexpected error during capture: ${message}`,
+      notePath,
     };
+  } catch (error) {
+    return captureFailure(timestamp, error);
   }
 }
 
@@ -320,7 +588,45 @@ export function parseCaptureSectionEntries(
 }
 
 /**
- * Retrieves the most recent captured notes from a vault's inbox.
+ * Lists a vault's daily notes, newest first. Walks the daily note folder as
+ * deep as the format has folders and keeps the files whose path reads back
+ * as a date in that format.
+ *
+ * @param vault - The vault to list daily notes for
+ * @returns Daily notes with their dates and absolute paths
+ */
+export async function listDailyNotes(
+  vault: VaultInfo
+): Promise<{ date: Date; path: string }[]> {
+  const dailyDir = getVaultDailyNoteDir(vault);
+  const format = vault.dailyNoteFormat ?? DEFAULT_DAILY_NOTE_FORMAT;
+  const depth = formatDailyNoteDate(new Date(), format).split("/").length;
+  const notes: { date: Date; path: string }[] = [];
+
+  async function walk(relDir: string, level: number): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(join(dailyDir, relDir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const relPath = relDir ? `${relDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory() && level < depth) {
+        await walk(relPath, level + 1);
+      } else if (entry.isFile() && level === depth) {
+        const date = parseDailyNoteDate(relPath, format);
+        if (date) notes.push({ date, path: join(dailyDir, relPath) });
+      }
+    }
+  }
+
+  await walk("", 1);
+  return notes.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Retrieves the most recent captured notes from a vault's daily notes.
  * Reads daily note files and extracts entries from their ## Capture sections.
  *
  * @param vault - The vault to read notes from
@@ -331,35 +637,20 @@ export async function getRecentNotes(
   vault: VaultInfo,
   limit: number = 5
 ): Promise<RecentNoteEntry[]> {
-  const inboxPath = getVaultInboxPath(vault);
-
-  // Check if inbox directory exists
-  if (!(await directoryExists(inboxPath))) {
-    return [];
-  }
-
-  // List all files in inbox
-  const files = await readdir(inboxPath);
-
-  // Filter for daily note files (YYYY-MM-DD.md) and sort descending (newest first)
-  const dailyNotePattern = /^\d{4}-\d{2}-\d{2}\.md$/;
-  const dailyNoteFiles = files
-    .filter((f) => dailyNotePattern.test(f))
-    .sort((a, b) => b.localeCompare(a));
-
+  const dailyNotes = await listDailyNotes(vault);
   const allEntries: RecentNoteEntry[] = [];
 
   // Read each file until we have enough entries
-  for (const filename of dailyNoteFiles) {
+  for (const note of dailyNotes) {
     if (allEntries.length >= limit) {
       break;
     }
 
-    const date = filename.replace(".md", "");
-    const filePath = join(inboxPath, filename);
+    const date = formatDateForFilename(note.date);
+    const path = relative(vault.contentRoot, note.path).split("\\").join("/");
 
     try {
-      const content = await readFile(filePath, "utf-8");
+      const content = await readFile(note.path, "utf-8");
       const entries = parseCaptureSectionEntries(content);
 
       // Add entries in reverse order (most recent first within the file)
@@ -370,6 +661,7 @@ export async function getRecentNotes(
           text: entry.text,
           time: entry.time,
           date,
+          path,
         });
       }
     } catch {
@@ -3,12 +3,15 @@
  *
  * Updates internal references in markdown files when a file or directory is renamed.
  * Supports two reference formats:
- * - Wikilinks: [[file-name]] or [[path/to/file-name]]
+ * - Wikilinks: [[file-name]] or [[path/to/file-name]], with the extension
+ *   for attachments ([[image.png]])
  * - Markdown links: [text](path/to/file-name.md)
+ *
+ * Embeds (![[...]] and ![alt](...)) are updated the same way.
  */
 
 import { readdir, readFile, writeFile, lstat } from "node:fs/promises";
-import { join, basename, extname } from "node:path";
+import { join, basename, extname, relative } from "node:path";
 import { createLogger } from "@memory-loop/shared";
 
 const log = createLogger("ReferenceUpdater");
@@ -23,6 +26,12 @@ export interface ReferenceUpdateResult {
   referencesUpdated: number;
 }
 
+/**
+ * Called with a file's path (relative to the content root) and content
+ * before its references are rewritten.
+ */
+export type BeforeReferenceWrite = (relativePath: string, previousContent: string) => Promise<void>;
+
 /**
  * Escapes special regex characters in a string.
  */
@@ -85,13 +94,15 @@ async function findMarkdownFiles(dirPath: string): Promise<string[]> {
  * @param oldPath - Old relative path (from content root)
  * @param newPath - New relative path (from content root)
  * @param isDirectory - Whether the renamed item is a directory
+ * @param beforeWrite - Called with the original content if the file changes
  * @returns Number of references updated in this file
  */
 async function updateFileReferences(
   filePath: string,
   oldPath: string,
   newPath: string,
-  isDirectory: boolean
+  isDirectory: boolean,
+  beforeWrite?: (previousContent: string) => Promise<void>
 ): Promise<number> {
   const content = await readFile(filePath, "utf-8");
   let updatedContent = content;
@@ -103,12 +114,13 @@ async function updateFileReferences(
   const newBasename = basename(newPath);
 
   // Pattern 1: Wikilinks [[name]] or [[path/name]]
-  // Match [[old-name]] (just the name, no path)
+  // Match [[old-name]] (just the name, no path). Moves keep the name, so
+  // there's nothing to rewrite.
   const wikiLinkNamePattern = new RegExp(
     `\\[\\[${escapeRegex(oldName)}\\]\\]`,
     "g"
   );
-  const wikiLinkNameMatches = updatedContent.match(wikiLinkNamePattern);
+  const wikiLinkNameMatches = oldName !== newName ? updatedContent.match(wikiLinkNamePattern) : null;
   if (wikiLinkNameMatches) {
     updatedContent = updatedContent.replace(wikiLinkNamePattern, `[[${newName}]]`);
     updateCount += wikiLinkNameMatches.length;
@@ -128,6 +140,30 @@ async function updateFileReferences(
     updateCount += wikiLinkPathMatches.length;
   }
 
+  // Attachments are linked with their extension: [[image.png]], [[path/image.png]]
+  if (!isDirectory && extname(oldPath) && extname(oldPath) !== ".md") {
+    const wikiLinkFilePattern = new RegExp(
+      `\\[\\[${escapeRegex(oldPath)}\\]\\]`,
+      "g"
+    );
+    const wikiLinkFileMatches = updatedContent.match(wikiLinkFilePattern);
+    if (wikiLinkFileMatches) {
+      updatedContent = updatedContent.replace(wikiLinkFilePattern, `[[${newPath}]]`);
+      updateCount += wikiLinkFileMatches.length;
+    }
+
+    const wikiLinkBasenamePattern = new RegExp(
+      `\\[\\[${escapeRegex(oldBasename)}\\]\\]`,
+      "g"
+    );
+    const wikiLinkBasenameMatches =
+      oldBasename !== newBasename ? updatedContent.match(wikiLinkBasenamePattern) : null;
+    if (wikiLinkBasenameMatches) {
+      updatedContent = updatedContent.replace(wikiLinkBasenamePattern, `[[${newBasename}]]`);
+      updateCount += wikiLinkBasenameMatches.length;
+    }
+  }
+
   // For directories, also match wikilinks that reference files inside the directory
   if (isDirectory) {
     // Match [[old-dir/anything]] and replace with [[new-dir/anything]]
@@ -148,7 +184,7 @@ async function updateFileReferences(
   // Pattern 2: Markdown links [text](path/name.ext)
   // Match [text](old-path) where old-path is the full path with extension
   const mdLinkPattern = new RegExp(
-    `\\[([^\\]]+)\\]\\(${escapeRegex(oldPath)}\\)`,
+    `\\[([^\\]]*)\\]\\(${escapeRegex(oldPath)}\\)`,
     "g"
   );
   const mdLinkMatches = updatedContent.match(mdLinkPattern);
@@ -162,10 +198,11 @@ async function updateFileReferences(
 
   // Also match markdown links with just the filename (for files in same directory)
   const mdLinkNamePattern = new RegExp(
-    `\\[([^\\]]+)\\]\\(${escapeRegex(oldBasename)}\\)`,
+    `\\[([^\\]]*)\\]\\(${escapeRegex(oldBasename)}\\)`,
     "g"
   );
-  const mdLinkNameMatches = updatedContent.match(mdLinkNamePattern);
+  const mdLinkNameMatches =
+    oldBasename !== newBasename ? updatedContent.match(mdLinkNamePattern) : null;
   if (mdLinkNameMatches) {
     updatedContent = updatedContent.replace(
       mdLinkNamePattern,
@@ -192,6 +229,7 @@ async function updateFileReferences(
 
   // Write back if changed
   if (updateCount > 0) {
+    await beforeWrite?.(content);
     await writeFile(filePath, updatedContent, "utf-8");
     log.debug(`Updated ${updateCount} references in ${filePath}`);
   }
@@ -206,13 +244,15 @@ async function updateFileReferences(
  * @param oldPath - Old relative path (from content root)
  * @param newPath - New relative path (from content root)
  * @param isDirectory - Whether the renamed item is a directory
+ * @param beforeWrite - Called before each file is rewritten (e.g. to record history)
  * @returns Result with counts of files modified and references updated
  */
 export async function updateReferences(
   vaultPath: string,
   oldPath: string,
   newPath: string,
-  isDirectory: boolean
+  isDirectory: boolean,
+  beforeWrite?: BeforeReferenceWrite
 ): Promise<ReferenceUpdateResult> {
   log.info(`Updating references: ${oldPath} -> ${newPath} (isDirectory: ${isDirectory})`);
 
@@ -226,7 +266,13 @@ export async function updateReferences(
   // Update references in each file
   for (const filePath of mdFiles) {
     try {
-      const count = await updateFileReferences(filePath, oldPath, newPath, isDirectory);
+      const count = await updateFileReferences(
+        filePath,
+        oldPath,
+        newPath,
+        isDirectory,
+        beforeWrite && ((previous) => beforeWrite(relative(vaultPath, filePath), previous))
+      );
       if (count > 0) {
         filesModified++;
         referencesUpdated += count;
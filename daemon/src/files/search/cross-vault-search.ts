@@ -0,0 +1,257 @@
+/**
+ * Cross-Vault Search
+ *
+ * Fans a search out over several vaults' indexes (via the search cache)
+ * and merges the results into one ranked list, labelling each result with
+ * the vault it came from.
+ *
+ * Only vaults whose index is already cached and built are searched, so one
+ * query never builds every vault's index. The others are reported as
+ * skipped; they join once something searches them directly or they are
+ * built with indexVaults.
+ *
+ * File name scores come from the same fuzzy matcher in every vault, so they
+ * are compared directly. Content relevance scores depend on each vault's
+ * term statistics, so they are normalized per vault (best hit = 1) before
+ * merging; filter-only queries have no score and rank by per-vault position.
+ */
+
+import type { VaultInfo, FileSearchResult, ContentSearchResult } from "@memory-loop/shared";
+import { createLogger, DEFAULT_TASK_STATES, getDoneTaskStates } from "@memory-loop/shared";
+import { getCachedIndex, getOrCreateIndex, getSearchCacheConfig } from "./search-cache";
+import type { SearchIndexManager, SearchOptions } from "./search-index";
+
+const log = createLogger("CrossVaultSearch");
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Results from one vault, before merging.
+ */
+export interface VaultResults<T> {
+  vault: VaultInfo;
+  results: T[];
+}
+
+/**
+ * Merged results of a cross-vault search.
+ */
+export interface CrossVaultResults<T> {
+  results: T[];
+  /** Number of vaults whose search succeeded */
+  vaultsSearched: number;
+  /** IDs of vaults skipped because their index isn't built yet */
+  vaultsSkipped: string[];
+}
+
+/**
+ * Outcome of building the indexes of skipped vaults.
+ */
+export interface IndexVaultsResult {
+  /** IDs of vaults whose index was built */
+  vaultsIndexed: string[];
+  /** IDs of vaults still without an index (over the cache size, or the build failed) */
+  vaultsSkipped: string[];
+}
+
+interface FanOut<T> {
+  perVault: VaultResults<T>[];
+  vaultsSkipped: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default maximum merged results */
+const DEFAULT_LIMIT = 50;
+
+// =============================================================================
+// Fan-out
+// =============================================================================
+
+/**
+ * Runs a search in every vault with a built index. A vault whose search
+ * fails is logged and left out so one broken vault doesn't hide results
+ * from the others.
+ */
+async function searchEachVault<T>(
+  vaults: VaultInfo[],
+  search: (index: SearchIndexManager, vault: VaultInfo) => Promise<T[]>
+): Promise<FanOut<T>> {
+  const ready: Array<{ vault: VaultInfo; index: SearchIndexManager }> = [];
+  const vaultsSkipped: string[] = [];
+  for (const vault of vaults) {
+    const index = getCachedIndex(vault.id);
+    if (index?.isIndexBuilt()) {
+      ready.push({ vault, index });
+    } else {
+      vaultsSkipped.push(vault.id);
+    }
+  }
+
+  const settled = await Promise.allSettled(
+    ready.map(async ({ vault, index }) => ({ vault, results: await search(index, vault) }))
+  );
+
+  const perVault: VaultResults<T>[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      perVault.push(outcome.value);
+    } else {
+      log.warn(`Search failed in vault ${ready[i].vault.id}, skipping`, outcome.reason);
+    }
+  });
+  return { perVault, vaultsSkipped };
+}
+
+function labelled<T extends object>(vault: VaultInfo, result: T): T & { vaultId: string; vaultName: string } {
+  return { ...result, vaultId: vault.id, vaultName: vault.name };
+}
+
+// =============================================================================
+// Ranking
+// =============================================================================
+
+/**
+ * Merges per-vault file name results by fuzzy score (best first).
+ * Ties keep vault order, then per-vault order.
+ *
+ * @param perVault - Results grouped by vault, in vault order
+ * @param limit - Maximum merged results
+ */
+export function mergeFileResults(
+  perVault: VaultResults<FileSearchResult>[],
+  limit: number
+): FileSearchResult[] {
+  return perVault
+    .flatMap(({ vault, results }) => results.map((r) => labelled(vault, r)))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Merges per-vault content results by normalized relevance.
+ *
+ * Each result gets a 0..1 rank within its vault: score / best score when the
+ * index provided scores, otherwise by position. Ties fall back to match count.
+ *
+ * @param perVault - Results grouped by vault, in vault order
+ * @param limit - Maximum merged results
+ */
+export function mergeContentResults(
+  perVault: VaultResults<ContentSearchResult>[],
+  limit: number
+): ContentSearchResult[] {
+  const ranked = perVault.flatMap(({ vault, results }) => {
+    const best = Math.max(0, ...results.map((r) => r.score ?? 0));
+    return results.map((result, i) => ({
+      result: labelled(vault, result),
+      rank:
+        result.score !== undefined && best > 0
+          ? result.score / best
+          : 1 - i / results.length,
+    }));
+  });
+
+  return ranked
+    .sort((a, b) => b.rank - a.rank || b.result.matchCount - a.result.matchCount)
+    .slice(0, limit)
+    .map(({ result }) => result);
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Builds the index of every vault that cross-vault search would skip, one
+ * vault at a time. Stops once the search cache is full, since building more
+ * would evict indexes that were just built.
+ *
+ * A persisted index is loaded when there is one; otherwise the vault is
+ * crawled. A vault whose build fails is logged and reported as skipped.
+ *
+ * @param vaults - Vaults to index
+ * @returns Which vaults were indexed and which are still skipped
+ */
+export async function indexVaults(vaults: VaultInfo[]): Promise<IndexVaultsResult> {
+  const unbuilt = vaults.filter((vault) => !getCachedIndex(vault.id)?.isIndexBuilt());
+  let room = getSearchCacheConfig().maxVaults - (vaults.length - unbuilt.length);
+
+  const vaultsIndexed: string[] = [];
+  const vaultsSkipped: string[] = [];
+  for (const vault of unbuilt) {
+    if (room <= 0) {
+      vaultsSkipped.push(vault.id);
+      continue;
+    }
+    try {
+      const index = getOrCreateIndex(vault.id, vault.contentRoot);
+      if (!(await index.loadIndex())) {
+        await index.rebuildIndex();
+      }
+      vaultsIndexed.push(vault.id);
+      room--;
+    } catch (error) {
+      log.warn(`Indexing failed in vault ${vault.id}, skipping`, error);
+      vaultsSkipped.push(vault.id);
+    }
+  }
+  return { vaultsIndexed, vaultsSkipped };
+}
+
+/**
+ * Fuzzy file name search across vaults.
+ *
+ * @param vaults - Vaults to search
+ * @param query - Search query string
+ * @param options - Search options (limit applies to the merged list)
+ * @returns Merged results labelled with vaultId and vaultName
+ */
+export async function searchFilesAcrossVaults(
+  vaults: VaultInfo[],
+  query: string,
+  options: SearchOptions = {}
+): Promise<CrossVaultResults<FileSearchResult>> {
+  const { limit = DEFAULT_LIMIT } = options;
+  const { perVault, vaultsSkipped } = await searchEachVault(vaults, (index) =>
+    index.searchFiles(query, { limit })
+  );
+  return {
+    results: mergeFileResults(perVault, limit),
+    vaultsSearched: perVault.length,
+    vaultsSkipped,
+  };
+}
+
+/**
+ * Structured content search across vaults.
+ *
+ * `task:done` uses each vault's own done states.
+ *
+ * @param vaults - Vaults to search
+ * @param query - Search query string (see parseSearchQuery for syntax)
+ * @param options - Search options (limit applies to the merged list)
+ * @returns Merged results labelled with vaultId and vaultName
+ */
+export async function searchContentAcrossVaults(
+  vaults: VaultInfo[],
+  query: string,
+  options: SearchOptions = {}
+): Promise<CrossVaultResults<ContentSearchResult>> {
+  const { limit = DEFAULT_LIMIT } = options;
+  const { perVault, vaultsSkipped } = await searchEachVault(vaults, (index, vault) =>
+    index.searchContent(query, {
+      limit,
+      doneStates: getDoneTaskStates(vault.taskStates ?? DEFAULT_TASK_STATES),
+    })
+  );
+  return {
+    results: mergeContentResults(perVault, limit),
+    vaultsSearched: perVault.length,
+    vaultsSkipped,
+  };
+}
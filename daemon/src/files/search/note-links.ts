@@ -0,0 +1,360 @@
+/**
+ * Note Links
+ *
+ * Extracts [[wikilinks]] and markdown links from notes and resolves them
+ * into a per-vault link graph (outgoing links, backlinks, unresolved links).
+ * Links are extracted once at index time and persisted with the search
+ * index, so graph queries never read file contents. Unlinked mentions
+ * (plain-text occurrences of a note's title) are found on demand.
+ *
+ * Resolution follows Obsidian's rules closely enough for navigation:
+ * - Matching is case-insensitive and `.md` is optional
+ * - `[[name]]` resolves by file name, preferring the linking note's folder,
+ *   then the shortest path
+ * - `[[folder/name]]` resolves by exact path, then by path suffix
+ * - `[text](href)` resolves relative to the linking note, then from the
+ *   content root, then by file name
+ */
+
+import { posix } from "node:path";
+import type { NoteLink } from "@memory-loop/shared";
+import { escapeRegex } from "./fuzzy-matcher";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A link as written in a note, before resolution.
+ * Stored per file in the search index.
+ */
+export type ExtractedLink = Omit<NoteLink, "sourcePath" | "resolvedPath" | "kind"> & {
+  kind: "wikilink" | "markdown";
+};
+
+/**
+ * A plain-text occurrence of a note title.
+ */
+export interface Mention {
+  /** Line number (1-indexed) */
+  line: number;
+  /** The line containing the mention, trimmed */
+  context: string;
+}
+
+/**
+ * Options for link extraction.
+ */
+export interface ExtractLinksOptions {
+  /** Also return links and embeds pointing at attachments (images, PDFs, ...) */
+  includeAttachments?: boolean;
+}
+
+/**
+ * Minimal file shape the link graph is built from.
+ */
+export interface LinkedFile {
+  path: string;
+  links?: ExtractedLink[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Maximum stored length of a link's context line */
+const MAX_CONTEXT_LENGTH = 200;
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+const INLINE_CODE_REGEX = /`[^`]*`/g;
+
+/**
+ * `[[target]]`, `[[target#heading]]`, `[[target|alias]]`, `![[embed]]`.
+ * Group 1: "!" for embeds. Group 2: target before any #, ^ or |.
+ */
+const WIKILINK_REGEX = /(!?)\[\[([^[\]|#^]*)(?:[#^][^[\]|]*)?(?:\|[^[\]]*)?\]\]/g;
+
+/**
+ * `[text](href)` and `![alt](href "title")`.
+ * Group 1: "!" for embeds. Group 2: href (angle brackets allowed).
+ */
+const MARKDOWN_LINK_REGEX = /(!?)\[[^\]]*\]\(\s*(<[^>]*>|[^)\s]+)(?:\s+"[^"]*")?\s*\)/g;
+
+/** URL scheme (http:, mailto:, obsidian:, ...) */
+const SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+
+/** Attachment-style extension; anything else is treated as a note name */
+const ATTACHMENT_EXT_REGEX = /\.[a-z0-9]{1,5}$/i;
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+/**
+ * Returns the prose lines of a note with their 1-indexed line numbers,
+ * skipping frontmatter and fenced code blocks.
+ */
+function proseLines(content: string): Array<{ number: number; text: string }> {
+  const lines = content.split("\n");
+  const result: Array<{ number: number; text: string }> = [];
+
+  let start = 0;
+  const frontmatterMatch = FRONTMATTER_REGEX.exec(content);
+  if (frontmatterMatch) {
+    start = frontmatterMatch[0].split("\n").length - 1;
+  }
+
+  let fence: string | null = null;
+  for (let i = start; i < lines.length; i++) {
+    const fenceMatch = FENCE_REGEX.exec(lines[i]);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence === null) {
+      result.push({ number: i + 1, text: lines[i].replace(/\r$/, "") });
+    }
+  }
+  return result;
+}
+
+function toContext(line: string): string {
+  const trimmed = line.trim();
+  return trimmed.length > MAX_CONTEXT_LENGTH
+    ? `${trimmed.slice(0, MAX_CONTEXT_LENGTH - 1)}…`
+    : trimmed;
+}
+
+/**
+ * Whether a target names a note rather than an attachment.
+ */
+function isNoteTarget(target: string): boolean {
+  const ext = posix.extname(target);
+  return ext.toLowerCase() === ".md" || !ATTACHMENT_EXT_REGEX.test(ext);
+}
+
+function decodeHref(href: string): string {
+  const unwrapped = href.startsWith("<") ? href.slice(1, -1) : href;
+  const withoutFragment = unwrapped.split("#")[0];
+  try {
+    return decodeURIComponent(withoutFragment);
+  } catch {
+    return withoutFragment;
+  }
+}
+
+/**
+ * Extracts links to other notes from markdown content.
+ *
+ * Links in frontmatter, fenced code blocks and inline code are ignored, as
+ * are external URLs and same-note heading links. Links to attachments are
+ * skipped unless `includeAttachments` is set.
+ *
+ * @param content - Full file content, including frontmatter
+ * @param options - Extraction options
+ * @returns Links in document order
+ */
+export function extractNoteLinks(
+  content: string,
+  options: ExtractLinksOptions = {}
+): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+  const accepts = (target: string) =>
+    target !== "" && (options.includeAttachments === true || isNoteTarget(target));
+
+  for (const { number, text } of proseLines(content)) {
+    const line = text.replace(INLINE_CODE_REGEX, (code) => " ".repeat(code.length));
+    if (!line.includes("[")) continue;
+
+    for (const match of line.matchAll(WIKILINK_REGEX)) {
+      const target = match[2].trim();
+      if (!accepts(target)) continue;
+      links.push({
+        target,
+        kind: "wikilink",
+        ...(match[1] === "!" && { embed: true }),
+        line: number,
+        context: toContext(text),
+      });
+    }
+
+    for (const match of line.matchAll(MARKDOWN_LINK_REGEX)) {
+      const href = match[2];
+      if (SCHEME_REGEX.test(href) || href.startsWith("#")) continue;
+      const target = decodeHref(href).trim();
+      if (!accepts(target)) continue;
+      links.push({
+        target,
+        kind: "markdown",
+        ...(match[1] === "!" && { embed: true }),
+        line: number,
+        context: toContext(text),
+      });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Finds plain-text occurrences of a title in a note.
+ *
+ * Matches are case-insensitive and whole-word. Occurrences inside links,
+ * inline code, fenced code and frontmatter don't count.
+ *
+ * @param content - Full file content
+ * @param title - Note title to look for
+ * @returns One entry per line containing the title
+ */
+export function findMentions(content: string, title: string): Mention[] {
+  if (!title.trim()) return [];
+
+  const titleRegex = new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escapeRegex(title)}(?![\\p{L}\\p{N}_])`,
+    "iu"
+  );
+  const blank = (s: string) => " ".repeat(s.length);
+  const mentions: Mention[] = [];
+
+  for (const { number, text } of proseLines(content)) {
+    const line = text
+      .replace(INLINE_CODE_REGEX, blank)
+      .replace(WIKILINK_REGEX, blank)
+      .replace(MARKDOWN_LINK_REGEX, blank);
+    if (titleRegex.test(line)) {
+      mentions.push({ line: number, context: toContext(text) });
+    }
+  }
+  return mentions;
+}
+
+// =============================================================================
+// Link Graph
+// =============================================================================
+
+/**
+ * Appends `.md` to note targets written without it. Attachment targets
+ * already carry their extension.
+ */
+function withMdExtension(path: string): string {
+  return path.toLowerCase().endsWith(".md") || !isNoteTarget(path) ? path : `${path}.md`;
+}
+
+/**
+ * Resolved link graph for a vault.
+ *
+ * Built from the indexed file list; rebuild it whenever the list changes.
+ */
+export class LinkGraph {
+  /** Lowercased path -> path */
+  private readonly byPath = new Map<string, string>();
+  /** Lowercased file name -> paths, shortest first */
+  private readonly byName = new Map<string, string[]>();
+  private readonly outgoing = new Map<string, NoteLink[]>();
+  private readonly incoming = new Map<string, NoteLink[]>();
+
+  constructor(files: LinkedFile[]) {
+    for (const file of files) {
+      this.byPath.set(file.path.toLowerCase(), file.path);
+      const key = posix.basename(file.path).toLowerCase();
+      const paths = this.byName.get(key) ?? [];
+      paths.push(file.path);
+      this.byName.set(key, paths);
+    }
+    for (const paths of this.byName.values()) {
+      paths.sort((a, b) => a.length - b.length || a.localeCompare(b));
+    }
+
+    for (const file of files) {
+      const resolved = (file.links ?? []).map((link): NoteLink => ({
+        ...link,
+        sourcePath: file.path,
+        resolvedPath: this.resolve(link.target, link.kind, file.path),
+      }));
+      this.outgoing.set(file.path, resolved);
+      for (const link of resolved) {
+        if (link.resolvedPath === null) continue;
+        const list = this.incoming.get(link.resolvedPath) ?? [];
+        list.push(link);
+        this.incoming.set(link.resolvedPath, list);
+      }
+    }
+  }
+
+  /**
+   * Resolves a link target to a note path.
+   *
+   * @param target - Target as written
+   * @param kind - Link syntax the target came from
+   * @param sourcePath - Note containing the link
+   * @returns The linked note's path, or null if unresolved
+   */
+  resolve(target: string, kind: ExtractedLink["kind"], sourcePath: string): string | null {
+    const normalized = withMdExtension(target.replace(/^\/+/, ""));
+
+    if (kind === "markdown") {
+      const relative = posix.normalize(posix.join(posix.dirname(sourcePath), normalized));
+      const match = this.byPath.get(relative.toLowerCase());
+      if (match) return match;
+    }
+
+    const exact = this.byPath.get(posix.normalize(normalized).toLowerCase());
+    if (exact) return exact;
+
+    const candidates = this.byName.get(posix.basename(normalized).toLowerCase());
+    if (!candidates) return null;
+
+    const lower = normalized.toLowerCase();
+    const suffixed = lower.includes("/")
+      ? candidates.filter((p) => p.toLowerCase().endsWith(`/${lower}`))
+      : candidates;
+    if (suffixed.length === 0) return null;
+
+    const sourceDir = posix.dirname(sourcePath);
+    return suffixed.find((p) => posix.dirname(p) === sourceDir) ?? suffixed[0];
+  }
+
+  /**
+   * Paths of files with the given file name, shortest first.
+   * Matching is case-insensitive; notes may omit `.md`.
+   */
+  findByName(name: string): string[] {
+    return this.byName.get(posix.basename(withMdExtension(name)).toLowerCase()) ?? [];
+  }
+
+  /**
+   * Links from a note, resolved and unresolved, in document order.
+   */
+  getOutgoing(path: string): NoteLink[] {
+    return this.outgoing.get(path) ?? [];
+  }
+
+  /**
+   * Links from other notes that resolve to this note, grouped by source.
+   * Self-links are excluded.
+   */
+  getBacklinks(path: string): NoteLink[] {
+    return (this.incoming.get(path) ?? [])
+      .filter((link) => link.sourcePath !== path)
+      .sort((a, b) => a.sourcePath.localeCompare(b.sourcePath) || a.line - b.line);
+  }
+
+  /**
+   * Links that don't resolve to any note.
+   *
+   * @param path - Limit to links from this note (default: whole vault)
+   */
+  getUnresolved(path?: string): NoteLink[] {
+    const sources = path !== undefined ? [path] : [...this.outgoing.keys()].sort();
+    return sources.flatMap((source) =>
+      this.getOutgoing(source).filter((link) => link.resolvedPath === null)
+    );
+  }
+}
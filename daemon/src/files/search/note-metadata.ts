@@ -0,0 +1,130 @@
+/**
+ * Note Metadata Extraction
+ *
+ * Derives the per-file metadata that structured search filters run against:
+ * tags (frontmatter and inline) and checkbox task counts, plus the note's
+ * outgoing links for the link graph. Extracted once at index time so
+ * filter-only queries and link lookups never have to read file contents.
+ */
+
+import { parse as parseYaml } from "yaml";
+import { normalizeTag } from "@memory-loop/shared";
+import { TASK_REGEX } from "../task-manager";
+import { extractNoteLinks, type ExtractedLink } from "./note-links";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Task counts for a single note.
+ */
+export interface NoteTaskCounts {
+  /** Unchecked tasks (`- [ ]`) */
+  open: number;
+  /** All checkbox tasks, including other states */
+  total: number;
+  /**
+   * Tasks per checkbox symbol other than " " (`X` counts as `x`). Which
+   * symbols are done is vault config, so it's decided at query time.
+   */
+  states: Record<string, number>;
+}
+
+/**
+ * Searchable metadata extracted from a note.
+ */
+export interface NoteMetadata {
+  /** Normalized tags (lowercase, no leading #), deduplicated */
+  tags: string[];
+  tasks: NoteTaskCounts;
+  /** Links to other notes, unresolved (see note-links.ts) */
+  links: ExtractedLink[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+const FENCED_CODE_REGEX = /^(```|~~~)[\s\S]*?^\1/gm;
+
+/**
+ * Inline tag: `#` at a word boundary followed by letters, digits, `_`, `-`
+ * or `/`. Obsidian rejects purely numeric tags, checked separately.
+ */
+const INLINE_TAG_REGEX = /(?:^|[\s(])#([\p{L}\p{N}_/-]+)/gu;
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+function frontmatterTags(frontmatter: string): string[] {
+  let data: unknown;
+  try {
+    data = parseYaml(frontmatter);
+  } catch {
+    return [];
+  }
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  const record = data as Record<string, unknown>;
+  const raw = record.tags ?? record.tag;
+
+  if (Array.isArray(raw)) {
+    return raw.filter((t): t is string | number => typeof t === "string" || typeof t === "number")
+      .map(String);
+  }
+  if (typeof raw === "string") {
+    return raw.split(/[,\s]+/);
+  }
+  return [];
+}
+
+/**
+ * Extracts tags, task counts and links from markdown content.
+ *
+ * Inline tags inside fenced code blocks are ignored.
+ *
+ * @param content - Full file content, including frontmatter
+ * @returns Extracted metadata
+ */
+export function extractNoteMetadata(content: string): NoteMetadata {
+  const tags = new Set<string>();
+  let body = content;
+
+  const frontmatterMatch = FRONTMATTER_REGEX.exec(content);
+  if (frontmatterMatch) {
+    for (const tag of frontmatterTags(frontmatterMatch[1])) {
+      const normalized = normalizeTag(tag.trim());
+      if (normalized) tags.add(normalized);
+    }
+    body = content.slice(frontmatterMatch[0].length);
+  }
+
+  const prose = body.replace(FENCED_CODE_REGEX, "");
+  for (const match of prose.matchAll(INLINE_TAG_REGEX)) {
+    const tag = match[1].replace(/\/+$/, "");
+    if (tag && !/^\d+$/.test(tag)) {
+      tags.add(normalizeTag(tag));
+    }
+  }
+
+  const tasks: NoteTaskCounts = { open: 0, total: 0, states: {} };
+  for (const line of body.split("\n")) {
+    const match = TASK_REGEX.exec(line);
+    if (!match) continue;
+    tasks.total++;
+    if (match[2] === " ") {
+      tasks.open++;
+    } else {
+      const symbol = match[2] === "X" ? "x" : match[2];
+      tasks.states[symbol] = (tasks.states[symbol] ?? 0) + 1;
+    }
+  }
+
+  return { tags: [...tags], tasks, links: extractNoteLinks(content) };
+}
@@ -138,6 +138,19 @@ export function getOrCreateIndex(vaultId: string, vaultPath: string): SearchInde
   return index;
 }
 
+/**
+ * Returns the cached SearchIndexManager for a vault without creating one.
+ *
+ * Does not touch LRU access time, so background updates (e.g. the vault
+ * watcher) don't keep otherwise idle vaults cached.
+ *
+ * @param vaultId - Unique identifier for the vault
+ * @returns The cached index, or undefined if not cached
+ */
+export function getCachedIndex(vaultId: string): SearchIndexManager | undefined {
+  return cache.get(vaultId)?.index;
+}
+
 /**
  * Invalidates the cached index for a specific vault.
  *
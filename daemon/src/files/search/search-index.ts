@@ -8,6 +8,10 @@
  * - Lazy loading: index builds on first search, not vault select
  * - Scope enforcement: only indexes .md files within contentRoot
  * - Excludes hidden folders (starting with .)
+ * - Structured queries (tag:, path:, after:/before:, has:task, phrases,
+ *   exclusions) filtered against per-file tags, task counts and mtime
+ * - Link graph (backlinks, outgoing and unresolved links) built from links
+ *   extracted at index time and persisted with the index
  *
  * @see .sdd/plans/2026-01-07-recall-search-plan.md (TD-2, TD-3, TD-6)
  */
@@ -15,8 +19,18 @@
 import { readdir, readFile, writeFile, stat, lstat, mkdir, rm } from "node:fs/promises";
 import { join, basename, extname, dirname } from "node:path";
 import MiniSearch from "minisearch";
-import type { FileSearchResult, ContentSearchResult, ContextSnippet } from "@memory-loop/shared";
+import type {
+  FileSearchResult,
+  ContentSearchResult,
+  ContextSnippet,
+  NoteLink,
+  SearchFilter,
+  SearchTerm,
+} from "@memory-loop/shared";
+import { parseSearchQuery, getSearchHighlightTerms } from "@memory-loop/shared";
 import { fuzzySearchFiles, escapeRegex, type FuzzyMatchFile } from "./fuzzy-matcher";
+import { extractNoteMetadata, type NoteTaskCounts } from "./note-metadata";
+import { LinkGraph, findMentions, type ExtractedLink } from "./note-links";
 import { isPathWithinVault } from "../file-browser";
 import { createLogger } from "@memory-loop/shared";
 
@@ -36,6 +50,12 @@ export interface IndexedFile {
   name: string;
   /** Last modified timestamp (ms since epoch) */
   mtime: number;
+  /** Normalized frontmatter and inline tags (set once content is indexed) */
+  tags?: string[];
+  /** Checkbox task counts (set once content is indexed) */
+  tasks?: NoteTaskCounts;
+  /** Links to other notes (set once content is indexed) */
+  links?: ExtractedLink[];
 }
 
 /**
@@ -56,6 +76,8 @@ interface ContentDocument {
 export interface SearchOptions {
   /** Maximum number of results to return (default: 50) */
   limit?: number;
+  /** Task states that count as done for `task:done` (default: ["x"]) */
+  doneStates?: readonly string[];
 }
 
 /**
@@ -77,7 +99,7 @@ export interface IndexData {
 // =============================================================================
 
 /** Current index version for migration detection */
-export const INDEX_VERSION = "1.0.0";
+export const INDEX_VERSION = "1.3.0";
 
 /** Metadata directory relative to content root */
 const METADATA_DIR = "06_Metadata/memory-loop";
@@ -124,6 +146,8 @@ export class SearchIndexManager {
   private contentIndex: MiniSearch<ContentDocument> | null = null;
   private indexBuilt = false;
   private buildingIndex = false;
+  /** Resolved link graph, rebuilt lazily after the file list changes */
+  private linkGraph: LinkGraph | null = null;
 
   /**
    * Creates a new SearchIndexManager for a vault.
@@ -173,27 +197,40 @@ export class SearchIndexManager {
   }
 
   /**
-   * Searches file contents using full-text search.
+   * Searches file contents using the structured query syntax.
    *
-   * Uses MiniSearch with prefix matching, fuzzy matching (0.2 threshold),
-   * and AND combination for multi-term queries.
+   * Text terms go through MiniSearch with prefix matching, fuzzy matching
+   * (0.2 threshold), and AND combination; each positive term or quoted phrase
+   * must then appear literally in the file. Filters (tag:, path:, after:,
+   * before:, has:task, task:) are checked against indexed metadata, and
+   * `-term` exclusions drop files containing the term. A query made only of
+   * filters returns matching files, most recently modified first.
    *
    * Includes timeout handling (REQ-NF-9): returns partial results after 500ms.
    * Excludes deleted files gracefully (REQ-F-28): files that no longer exist
    * are filtered from results.
    *
-   * @param query - Search query string
+   * @param query - Search query string (see parseSearchQuery for syntax)
    * @param options - Search options (limit)
    * @returns Array of matching files with match counts, sorted by relevance
    */
   async searchContent(query: string, options: SearchOptions = {}): Promise<ContentSearchResult[]> {
-    const { limit = DEFAULT_LIMIT } = options;
+    const { limit = DEFAULT_LIMIT, doneStates = ["x"] } = options;
 
     // Handle empty query
     if (!query || query.trim() === "") {
       return [];
     }
 
+    const { terms, filters } = parseSearchQuery(query);
+    const included = terms.filter((t) => !t.negate);
+    const excluded = terms.filter((t) => t.negate);
+
+    // Exclusions alone would match nearly everything
+    if (included.length === 0 && filters.length === 0) {
+      return [];
+    }
+
     // Ensure index is built
     await this.ensureIndexBuilt();
 
@@ -201,11 +238,31 @@ export class SearchIndexManager {
       return [];
     }
 
-    // Search using MiniSearch
-    const searchResults = this.contentIndex.search(query, {
-      prefix: true,
-      fuzzy: 0.2,
-      combineWith: "AND",
+    const filesByPath = new Map(this.fileList.map((f) => [f.path, f]));
+
+    let candidates: string[];
+    const scores = new Map<string, number>();
+    if (included.length > 0) {
+      // MiniSearch returns id as type any, but we know it's a string (the path)
+      candidates = this.contentIndex
+        .search(included.map((t) => t.text).join(" "), {
+          prefix: true,
+          fuzzy: 0.2,
+          combineWith: "AND",
+        })
+        .map((result) => {
+          scores.set(String(result.id), result.score);
+          return String(result.id);
+        });
+    } else {
+      candidates = [...this.fileList]
+        .sort((a, b) => b.mtime - a.mtime)
+        .map((f) => f.path);
+    }
+
+    candidates = candidates.filter((path) => {
+      const file = filesByPath.get(path);
+      return file !== undefined && matchesFilters(file, filters, doneStates);
     });
 
     // Convert to ContentSearchResult format with timeout handling (REQ-NF-9)
@@ -213,7 +270,11 @@ export class SearchIndexManager {
     const startTime = Date.now();
     let timedOut = false;
 
-    for (const result of searchResults.slice(0, limit)) {
+    for (const filePath of candidates) {
+      if (results.length >= limit) {
+        break;
+      }
+
       // Check timeout - return partial results if exceeded (REQ-NF-9)
       if (Date.now() - startTime > SEARCH_TIMEOUT_MS) {
         log.debug(`Content search timeout after ${results.length} results`);
@@ -221,34 +282,43 @@ export class SearchIndexManager {
         break;
       }
 
-      // MiniSearch returns id as type any, but we know it's a string (the path)
-      const filePath = String(result.id);
-
-      // Check if file still exists (REQ-F-28: exclude deleted files)
-      const absolutePath = join(this.contentRoot, filePath);
+      // Read content; a missing file was deleted since indexing (REQ-F-28)
+      let content: string;
       try {
-        await stat(absolutePath);
+        content = await readFile(join(this.contentRoot, filePath), "utf-8");
       } catch {
-        // File no longer exists, skip it gracefully
         log.debug(`Excluding deleted file from results: ${filePath}`);
         continue;
       }
 
-      const fileName = basename(filePath);
+      if (excluded.some((term) => countTermMatches(content, term) > 0)) {
+        continue;
+      }
 
-      // Count actual matches in the file content
       // MiniSearch uses fuzzy matching, so a file might be returned even if
-      // the exact query string doesn't appear in it. Skip such results.
-      const matchCount = await this.countMatches(filePath, query);
-      if (matchCount === 0) {
+      // a term doesn't literally appear in it. Skip such results.
+      let matchCount = 0;
+      let allTermsPresent = true;
+      for (const term of included) {
+        const count = countTermMatches(content, term);
+        if (count === 0) {
+          allTermsPresent = false;
+          break;
+        }
+        matchCount += count;
+      }
+      if (!allTermsPresent) {
         log.debug(`Skipping fuzzy-only match (no exact matches): ${filePath}`);
         continue;
       }
 
+      const score = scores.get(filePath);
       results.push({
         path: filePath,
-        name: fileName,
-        matchCount,
+        name: basename(filePath),
+        // Filter-only queries match the file as a whole
+        matchCount: Math.max(matchCount, 1),
+        ...(score !== undefined && { score }),
       });
     }
 
@@ -263,7 +333,8 @@ export class SearchIndexManager {
    * Gets context snippets for a specific file matching a query.
    *
    * Returns up to 10 snippets per file, each containing the matched line
-   * with 2 lines of context before and after.
+   * with 2 lines of context before and after. Lines match any positive text
+   * term of the query; filter-only queries fall back to their tag filters.
    *
    * @param filePath - Relative path to the file
    * @param query - Search query to find matches
@@ -296,8 +367,10 @@ export class SearchIndexManager {
 
     // Create case-insensitive regex for matching
     // Escape special characters to prevent regex injection
-    const escapedQuery = escapeRegex(query);
-    const queryRegex = new RegExp(escapedQuery, "gi");
+    const queryRegex = buildSnippetRegex(query);
+    if (!queryRegex) {
+      return [];
+    }
 
     // Find all matching lines
     for (let i = 0; i < lines.length && snippets.length < MAX_SNIPPETS_PER_FILE; i++) {
@@ -331,6 +404,64 @@ export class SearchIndexManager {
     return snippets;
   }
 
+  /**
+   * Returns the vault's resolved link graph, building the index first if
+   * needed. The graph is cached until the file list changes.
+   */
+  async getLinkGraph(): Promise<LinkGraph> {
+    await this.ensureIndexBuilt();
+    this.linkGraph ??= new LinkGraph(this.fileList);
+    return this.linkGraph;
+  }
+
+  /**
+   * Finds plain-text mentions of a note's title in other notes.
+   *
+   * Candidates come from the content index; each is read to locate the
+   * lines where the title appears outside of a link.
+   *
+   * @param filePath - Relative path of the mentioned note
+   * @param options - Search options (limit applies to mentions)
+   * @returns Mentions with resolvedPath set to filePath, grouped by source
+   */
+  async findUnlinkedMentions(filePath: string, options: SearchOptions = {}): Promise<NoteLink[]> {
+    const { limit = DEFAULT_LIMIT } = options;
+    await this.ensureIndexBuilt();
+
+    const title = basename(filePath, extname(filePath));
+    if (!title.trim() || !this.contentIndex) {
+      return [];
+    }
+
+    const candidates = this.contentIndex
+      .search(title, { combineWith: "AND" })
+      .map((result) => result.id as string)
+      .filter((path) => path !== filePath)
+      .sort();
+
+    const mentions: NoteLink[] = [];
+    for (const sourcePath of candidates) {
+      if (mentions.length >= limit) break;
+      let content: string;
+      try {
+        content = await readFile(join(this.contentRoot, sourcePath), "utf-8");
+      } catch {
+        continue;
+      }
+      for (const mention of findMentions(content, title)) {
+        mentions.push({
+          sourcePath,
+          target: title,
+          resolvedPath: filePath,
+          kind: "mention",
+          line: mention.line,
+          context: mention.context,
+        });
+      }
+    }
+    return mentions.slice(0, limit);
+  }
+
   /**
    * Returns the current file list.
    * Useful for testing and debugging.
@@ -468,6 +599,7 @@ export class SearchIndexManager {
       }
 
       this.fileList = indexData.fileList;
+      this.linkGraph = null;
       this.indexBuilt = true;
 
       log.info(
@@ -574,6 +706,7 @@ export class SearchIndexManager {
           }
         }
         this.fileList = this.fileList.filter((f) => f.path !== path);
+        this.linkGraph = null;
         removed++;
       }
     }
@@ -589,6 +722,85 @@ export class SearchIndexManager {
     return { added, updated, removed };
   }
 
+  /**
+   * Re-indexes a single file after it was created or modified on disk.
+   *
+   * Used by the vault watcher for live updates. A no-op until the index has
+   * been built (the first search builds it from disk anyway). Missing files
+   * are treated as removals. The persisted index is not rewritten; the next
+   * `updateIndex()` reconciles it.
+   *
+   * @param relativePath - Path relative to contentRoot
+   * @returns What happened to the entry
+   */
+  async updateFile(relativePath: string): Promise<"added" | "updated" | "removed" | "skipped"> {
+    if (!this.indexBuilt || this.buildingIndex) {
+      return "skipped";
+    }
+    if (extname(relativePath).toLowerCase() !== ".md") {
+      return "skipped";
+    }
+
+    const absolutePath = join(this.contentRoot, relativePath);
+    let mtime: number;
+    try {
+      const lstats = await lstat(absolutePath);
+      if (!lstats.isFile()) {
+        return this.removeFile(relativePath) ? "removed" : "skipped";
+      }
+      mtime = lstats.mtimeMs;
+    } catch {
+      return this.removeFile(relativePath) ? "removed" : "skipped";
+    }
+
+    const existing = this.fileList.find((f) => f.path === relativePath);
+    if (!existing) {
+      await this.indexFile(relativePath, absolutePath);
+      return "added";
+    }
+
+    if (this.contentIndex) {
+      try {
+        this.contentIndex.discard(relativePath);
+      } catch {
+        // Ignore if document not found
+      }
+    }
+    existing.mtime = mtime;
+    await this.reindexFileContent(relativePath, absolutePath);
+    return "updated";
+  }
+
+  /**
+   * Removes a file, or every file under a directory, from the index.
+   *
+   * @param relativePath - File or directory path relative to contentRoot
+   * @returns true if any entry was removed
+   */
+  removeFile(relativePath: string): boolean {
+    const prefix = `${relativePath}/`;
+    const removed = this.fileList.filter(
+      (f) => f.path === relativePath || f.path.startsWith(prefix)
+    );
+    if (removed.length === 0) {
+      return false;
+    }
+
+    for (const file of removed) {
+      if (this.contentIndex) {
+        try {
+          this.contentIndex.discard(file.path);
+        } catch {
+          // Ignore if document not found
+        }
+      }
+    }
+    const removedPaths = new Set(removed.map((f) => f.path));
+    this.fileList = this.fileList.filter((f) => !removedPaths.has(f.path));
+    this.linkGraph = null;
+    return true;
+  }
+
   // ===========================================================================
   // Private Methods
   // ===========================================================================
@@ -644,6 +856,7 @@ export class SearchIndexManager {
     try {
       // Reset index state
       this.fileList = [];
+      this.linkGraph = null;
       this.contentIndex = new MiniSearch<ContentDocument>({
         fields: ["content"],
         storeFields: ["path"],
@@ -662,6 +875,7 @@ export class SearchIndexManager {
           batch.map(async (file) => {
             try {
               const content = await readFile(join(this.contentRoot, file.path), "utf-8");
+              Object.assign(file, extractNoteMetadata(content));
               return {
                 id: file.path,
                 path: file.path,
@@ -702,15 +916,17 @@ export class SearchIndexManager {
       // Get file stats for mtime
       const stats = await stat(absolutePath);
 
+      // Read content for content index and filter metadata
+      const content = await readFile(absolutePath, "utf-8");
+
       // Add to file list
       this.fileList.push({
         path: relativePath,
         name: basename(relativePath),
         mtime: stats.mtimeMs,
+        ...extractNoteMetadata(content),
       });
-
-      // Read content for content index
-      const content = await readFile(absolutePath, "utf-8");
+      this.linkGraph = null;
 
       // Add to content index
       this.contentIndex?.add({
@@ -777,7 +993,7 @@ export class SearchIndexManager {
   }
 
   /**
-   * Re-indexes file content without modifying the file list.
+   * Re-indexes file content and refreshes its filter metadata.
    * Used by updateIndex for modified files.
    *
    * @param relativePath - Path relative to contentRoot
@@ -787,6 +1003,12 @@ export class SearchIndexManager {
     try {
       const content = await readFile(absolutePath, "utf-8");
 
+      const entry = this.fileList.find((f) => f.path === relativePath);
+      if (entry) {
+        Object.assign(entry, extractNoteMetadata(content));
+        this.linkGraph = null;
+      }
+
       this.contentIndex?.add({
         id: relativePath,
         path: relativePath,
@@ -796,28 +1018,99 @@ export class SearchIndexManager {
       log.debug(`Failed to re-index file content: ${relativePath}`, error);
     }
   }
+}
 
-  /**
-   * Counts the number of query matches in a file.
-   *
-   * @param filePath - Relative path to the file
-   * @param query - Search query
-   * @returns Number of matches found
-   */
-  private async countMatches(filePath: string, query: string): Promise<number> {
-    const absolutePath = join(this.contentRoot, filePath);
+// =============================================================================
+// Query Matching
+// =============================================================================
 
-    try {
-      const content = await readFile(absolutePath, "utf-8");
+/**
+ * Converts a YYYY-MM-DD date to local midnight (ms since epoch).
+ */
+function startOfLocalDay(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
 
-      // Count case-insensitive matches
-      const escapedQuery = escapeRegex(query);
-      const regex = new RegExp(escapedQuery, "gi");
-      const matches = content.match(regex);
+/**
+ * Checks whether a file's task counts satisfy a task filter.
+ */
+function hasTasks(
+  tasks: NoteTaskCounts | undefined,
+  value: "any" | "open" | "done",
+  doneStates: readonly string[]
+): boolean {
+  if (!tasks) return false;
+  switch (value) {
+    case "open":
+      return tasks.open > 0;
+    case "done":
+      return doneStates.some((symbol) => (tasks.states[symbol] ?? 0) > 0);
+    default:
+      return tasks.total > 0;
+  }
+}
 
-      return matches ? matches.length : 0;
-    } catch {
-      return 0;
+/**
+ * Checks whether an indexed file satisfies every filter of a query.
+ *
+ * Tag filters match nested tags (`tag:project` matches `project/alpha`).
+ * `after:` is inclusive of the given day, `before:` is exclusive.
+ */
+function matchesFilters(
+  file: IndexedFile,
+  filters: SearchFilter[],
+  doneStates: readonly string[]
+): boolean {
+  return filters.every((filter) => {
+    let matched: boolean;
+    switch (filter.type) {
+      case "tag":
+        matched = (file.tags ?? []).some(
+          (tag) => tag === filter.value || tag.startsWith(`${filter.value}/`)
+        );
+        break;
+      case "path":
+        matched = file.path.toLowerCase().startsWith(filter.value.toLowerCase());
+        break;
+      case "after":
+        matched = file.mtime >= startOfLocalDay(filter.value);
+        break;
+      case "before":
+        matched = file.mtime < startOfLocalDay(filter.value);
+        break;
+      case "task":
+        matched = hasTasks(file.tasks, filter.value, doneStates);
+        break;
     }
+    return filter.negate ? !matched : matched;
+  });
+}
+
+/**
+ * Counts case-insensitive literal occurrences of a term in content.
+ */
+function countTermMatches(content: string, term: SearchTerm): number {
+  const regex = new RegExp(escapeRegex(term.text), "gi");
+  const matches = content.match(regex);
+  return matches ? matches.length : 0;
+}
+
+/**
+ * Builds a case-insensitive regex matching any highlightable term of a
+ * query. Falls back to `#tag` for filter-only tag queries.
+ *
+ * @returns The regex, or null if the query has nothing to highlight
+ */
+function buildSnippetRegex(query: string): RegExp | null {
+  let patterns = getSearchHighlightTerms(query);
+  if (patterns.length === 0) {
+    patterns = parseSearchQuery(query)
+      .filters.filter((f) => f.type === "tag" && !f.negate)
+      .map((f) => `#${f.value}`);
+  }
+  if (patterns.length === 0) {
+    return null;
   }
+  return new RegExp(patterns.map(escapeRegex).join("|"), "gi");
 }
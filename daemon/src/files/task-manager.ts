@@ -4,23 +4,30 @@
  * Discovers and parses markdown tasks from vault directories.
  * Supports scanning inbox, projects, and areas directories recursively.
  * Task format: /^\s*- \[(.)\] (.+)$/
+ * Obsidian Tasks emoji metadata (due/scheduled/start/done dates, priority,
+ * recurrence) is parsed from the task text. Completing a recurring task
+ * inserts its next occurrence on the line below.
+ * Indented tasks are nested under the task above them, so outline checklists
+ * keep their parent/child structure.
+ * Tasks can also be added, edited, deleted, and moved between files.
  */
 
-import { readdir, readFile, writeFile, lstat, stat } from "node:fs/promises";
-import { join, extname } from "node:path";
-import type { TaskEntry, TaskCategory } from "@memory-loop/shared";
-import { createLogger } from "@memory-loop/shared";
+import { readdir, readFile, writeFile, lstat, stat, mkdir } from "node:fs/promises";
+import { join, extname, dirname } from "node:path";
+import type { TaskEntry, TaskCategory, TaskPriority, TaskFields } from "@memory-loop/shared";
+import { createLogger, formatDateForFilename } from "@memory-loop/shared";
 import {
   validatePath,
   FileBrowserError,
 } from "./file-browser";
 import {
-  resolveProjectPath,
-  resolveAreaPath,
+  resolveTaskScopes,
   type VaultConfig,
 } from "@memory-loop/shared";
-import { DEFAULT_INBOX_PATH } from "@memory-loop/shared";
 import { directoryExists } from "@memory-loop/shared/server";
+import { parseRecurrence, nextOccurrence, addDays, daysBetween } from "./task-recurrence";
+import { appendHeadingSection, findHeadingSection, lastContentIndex } from "./markdown-sections";
+import { recordVersion, type HistoryVault } from "./file-history";
 
 const log = createLogger("TaskManager");
 
@@ -35,15 +42,25 @@ const log = createLogger("TaskManager");
 export const TASK_REGEX = /^(\s*- \[)(.)(] .+)$/;
 
 /**
- * Valid task state characters.
+ * Markdown list item (bullet or numbered), capturing its indentation.
+ * Used to follow the outline a task sits in.
+ */
+const LIST_ITEM_REGEX = /^(\s*)(?:[-*+]|\d+[.)])\s/;
+
+/** Columns a tab counts for when comparing list indentation */
+const TAB_WIDTH = 4;
+
+/**
+ * Default task state characters.
  * ' ' = incomplete, 'x' = complete, '/' = partial,
  * '?' = needs info, 'b' = bookmarked, 'f' = urgent
+ * Vaults can configure their own with `taskStates` (see resolveTaskStates).
  */
 export const VALID_STATES = [" ", "x", "/", "?", "b", "f"] as const;
 export type TaskState = (typeof VALID_STATES)[number];
 
 /**
- * State cycle order for toggling tasks.
+ * Default state cycle order for toggling tasks.
  */
 export const STATE_CYCLE: TaskState[] = [" ", "x", "/", "?", "b", "f"];
 
@@ -56,6 +73,217 @@ export interface TasksResult {
   total: number;
 }
 
+// =============================================================================
+// Task Metadata (Obsidian Tasks format)
+// =============================================================================
+
+/**
+ * Metadata parsed from a task's text.
+ */
+export type TaskMetadata = Pick<
+  TaskEntry,
+  "description" | "dueDate" | "scheduledDate" | "startDate" | "doneDate" | "priority" | "recurrence"
+>;
+
+/** Date field for each date emoji */
+const DATE_EMOJI_FIELDS = {
+  "📅": "dueDate",
+  "⏳": "scheduledDate",
+  "🛫": "startDate",
+  "✅": "doneDate",
+} as const;
+
+/** Priority for each priority emoji */
+const PRIORITY_EMOJIS: Record<string, TaskPriority> = {
+  "🔺": "highest",
+  "⏫": "high",
+  "🔼": "medium",
+  "🔽": "low",
+  "⏬": "lowest",
+};
+
+/**
+ * Date emojis followed by YYYY-MM-DD. ➕ (created) and ❌ (cancelled) are
+ * matched so they are stripped from the description, but not exposed.
+ */
+const DATE_METADATA_REGEX = /([📅⏳🛫✅➕❌])\uFE0F? *(\d{4}-\d{2}-\d{2})/gu;
+const PRIORITY_METADATA_REGEX = /([🔺⏫🔼🔽⏬])\uFE0F?/gu;
+/** Recurrence rule: runs until the next metadata emoji, tag, block ID, or end */
+const RECURRENCE_METADATA_REGEX = /🔁\uFE0F? *([^📅⏳🛫✅➕❌🔺⏫🔼🔽⏬#^]*[^📅⏳🛫✅➕❌🔺⏫🔼🔽⏬#^\s])/u;
+/** Trailing block ID (^abc123), which must stay at the end of the line */
+const BLOCK_ID_REGEX = / \^[A-Za-z0-9-]+$/;
+
+/**
+ * Parses Obsidian Tasks emoji metadata from task text.
+ * Fields that are absent are omitted; `description` is set only when the
+ * text contained metadata.
+ *
+ * @example
+ *   parseTaskMetadata("Pay rent ⏫ 🔁 every month 📅 2026-11-01")
+ *   // { description: "Pay rent", priority: "high", recurrence: "every month", dueDate: "2026-11-01" }
+ */
+export function parseTaskMetadata(text: string): TaskMetadata {
+  const metadata: TaskMetadata = {};
+  let description = text;
+
+  const recurrence = text.match(RECURRENCE_METADATA_REGEX);
+  if (recurrence) {
+    metadata.recurrence = recurrence[1].trim();
+    description = description.replace(recurrence[0], " ");
+  }
+
+  for (const match of text.matchAll(DATE_METADATA_REGEX)) {
+    const field = DATE_EMOJI_FIELDS[match[1] as keyof typeof DATE_EMOJI_FIELDS];
+    if (field) {
+      metadata[field] = match[2];
+    }
+  }
+  description = description.replace(DATE_METADATA_REGEX, " ");
+
+  for (const match of text.matchAll(PRIORITY_METADATA_REGEX)) {
+    metadata.priority ??= PRIORITY_EMOJIS[match[1]];
+  }
+  description = description.replace(PRIORITY_METADATA_REGEX, " ");
+
+  if (Object.keys(metadata).length > 0 || description !== text) {
+    metadata.description = description.replace(/\s+/g, " ").trim();
+  }
+  return metadata;
+}
+
+/**
+ * Sets or clears the ✅ completion date in task text. The date is appended
+ * at the end (before a trailing block ID), replacing any existing one.
+ *
+ * @param text - Task text (everything after "- [x] ")
+ * @param date - Completion date as YYYY-MM-DD, or null to remove it
+ */
+export function setTaskDoneDate(text: string, date: string | null): string {
+  const withoutDone = text.replace(/ ?✅\uFE0F? *\d{4}-\d{2}-\d{2}/gu, "");
+  if (date === null) {
+    return withoutDone;
+  }
+  const blockId = withoutDone.match(BLOCK_ID_REGEX)?.[0] ?? "";
+  const body = withoutDone.slice(0, withoutDone.length - blockId.length).trimEnd();
+  return `${body} ✅ ${date}${blockId}`;
+}
+
+/**
+ * Builds the text of a recurring task's next occurrence.
+ *
+ * The next date is computed from the due date (or scheduled, then start
+ * date), or from the completion date for "when done" rules, and every date
+ * on the task moves by the same number of days. A task with no dates gets a
+ * due date. The completion date and block ID are dropped.
+ *
+ * @param text - Text of the completed task (everything after "- [x] ")
+ * @param doneDate - Completion date as YYYY-MM-DD
+ * @returns The new task's text, or null if the task has no valid recurrence rule
+ */
+export function createNextOccurrence(text: string, doneDate: string): string | null {
+  const metadata = parseTaskMetadata(text);
+  const rule = metadata.recurrence ? parseRecurrence(metadata.recurrence) : null;
+  if (!rule) {
+    return null;
+  }
+
+  let next = setTaskDoneDate(text, null).replace(BLOCK_ID_REGEX, "");
+  const reference = metadata.dueDate ?? metadata.scheduledDate ?? metadata.startDate;
+
+  if (!reference) {
+    return `${next.trimEnd()} 📅 ${nextOccurrence(rule, doneDate)}`;
+  }
+
+  const base = rule.whenDone ? doneDate : reference;
+  const shift = daysBetween(reference, nextOccurrence(rule, base));
+  next = next.replace(DATE_METADATA_REGEX, (match, emoji: string, date: string) =>
+    emoji in DATE_EMOJI_FIELDS ? match.replace(date, addDays(date, shift)) : match
+  );
+  return next;
+}
+
+/** Task text without its date metadata, for comparing occurrences */
+function withoutDates(text: string): string {
+  return text.replace(DATE_METADATA_REGEX, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Whether a line is already a recurring task's next occurrence: a task at the
+ * same indent with the same text apart from dates. Reopening a completed
+ * recurring task and completing it again finds the copy the first
+ * completion inserted after it.
+ */
+function isNextOccurrence(line: string | undefined, prefix: string, nextText: string): boolean {
+  const match = line?.match(TASK_REGEX);
+  return !!match && match[1] === prefix && withoutDates(match[3].slice(2)) === withoutDates(nextText);
+}
+
+/** Priority emoji for each priority */
+const PRIORITY_EMOJI_BY_NAME = Object.fromEntries(
+  Object.entries(PRIORITY_EMOJIS).map(([emoji, priority]) => [priority, emoji])
+) as Record<TaskPriority, string>;
+
+/** Metadata fields that can be set or cleared when editing a task */
+const EDITABLE_FIELDS = ["dueDate", "scheduledDate", "startDate", "priority", "recurrence"] as const;
+
+/**
+ * Changes to apply to a task's text. `description` replaces the text
+ * (metadata typed inline is parsed out); metadata fields follow TaskFields:
+ * omitted fields are kept and null removes them.
+ */
+export type TaskChanges = TaskFields & { description?: string };
+
+/**
+ * Rewrites a task's description and metadata. Anything the changes don't
+ * mention is kept, including completion, created and cancelled dates, tags,
+ * and a trailing block ID. Metadata is written after the description in the
+ * order the Obsidian Tasks plugin uses.
+ *
+ * @example
+ *   updateTaskText("Pay rent 📅 2026-11-01", { priority: "high" })
+ *   // "Pay rent ⏫ 📅 2026-11-01"
+ */
+export function updateTaskText(text: string, changes: TaskChanges): string {
+  const blockId = text.match(BLOCK_ID_REGEX)?.[0] ?? "";
+  const body = text.slice(0, text.length - blockId.length);
+
+  const { description: currentDescription, ...fields } = parseTaskMetadata(body);
+  let description = currentDescription ?? body.trim();
+  if (changes.description !== undefined) {
+    const { description: typedDescription, ...typedFields } = parseTaskMetadata(changes.description);
+    description = typedDescription ?? changes.description.trim();
+    Object.assign(fields, typedFields);
+  }
+
+  for (const key of EDITABLE_FIELDS) {
+    const value = changes[key];
+    if (value === null) {
+      delete fields[key];
+    } else if (value !== undefined) {
+      Object.assign(fields, { [key]: value });
+    }
+  }
+
+  // Created (➕) and cancelled (❌) dates aren't exposed as fields; carry them over
+  const otherDates = new Map<string, string>();
+  for (const match of body.matchAll(DATE_METADATA_REGEX)) {
+    if (match[1] === "➕" || match[1] === "❌") {
+      otherDates.set(match[1], match[2]);
+    }
+  }
+
+  const parts = [description];
+  if (fields.priority) parts.push(PRIORITY_EMOJI_BY_NAME[fields.priority]);
+  if (fields.recurrence) parts.push(`🔁 ${fields.recurrence}`);
+  if (otherDates.has("➕")) parts.push(`➕ ${otherDates.get("➕")}`);
+  if (fields.startDate) parts.push(`🛫 ${fields.startDate}`);
+  if (fields.scheduledDate) parts.push(`⏳ ${fields.scheduledDate}`);
+  if (fields.dueDate) parts.push(`📅 ${fields.dueDate}`);
+  if (otherDates.has("❌")) parts.push(`❌ ${otherDates.get("❌")}`);
+  if (fields.doneDate) parts.push(`✅ ${fields.doneDate}`);
+  return parts.join(" ") + blockId;
+}
+
 // =============================================================================
 // Directory Scanning
 // =============================================================================
@@ -156,6 +384,77 @@ export async function scanTasksFromDirectory(
 // Task Parsing
 // =============================================================================
 
+function indentWidth(indent: string): number {
+  let width = 0;
+  for (const char of indent) {
+    width += char === "\t" ? TAB_WIDTH : 1;
+  }
+  return width;
+}
+
+/**
+ * Finds the end of a list item's block: the item and the lines nested under
+ * it. Blank lines inside the block don't end it, and trailing blank lines
+ * aren't part of it.
+ *
+ * @param lines - File content split into lines
+ * @param index - 0-indexed line of the item
+ * @returns 0-indexed line just past the block
+ */
+export function findBlockEnd(lines: string[], index: number): number {
+  const indent = lines[index].length - lines[index].trimStart().length;
+  let end = index + 1;
+  for (let i = index + 1; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+    if (line.trim() === "") continue;
+    if (line.length - line.trimStart().length <= indent) break;
+    end = i + 1;
+  }
+  return end;
+}
+
+/**
+ * Finds the parent of each nested task from list indentation.
+ *
+ * A task's parent is the nearest task above it in the same list with less
+ * indentation. Plain bullets count as outline levels, so a task under a
+ * plain bullet under a task still belongs to that task. A line at the left
+ * margin that isn't a list item (heading, paragraph) ends the list.
+ *
+ * @param lines - File content split into lines
+ * @returns Map of task line number to parent task line number (both 1-indexed)
+ */
+export function findTaskParents(lines: string[]): Map<number, number> {
+  const parents = new Map<number, number>();
+  const stack: { indent: number; lineNumber: number; isTask: boolean }[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, "");
+    if (line.trim() === "") continue;
+
+    const match = line.match(LIST_ITEM_REGEX);
+    if (!match) {
+      // Indented text continues the item above; anything else ends the list
+      if (!/^\s/.test(line)) stack.length = 0;
+      continue;
+    }
+
+    const indent = indentWidth(match[1]);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const isTask = TASK_REGEX.test(line);
+    if (isTask) {
+      const parent = stack.findLast((item) => item.isTask);
+      if (parent) parents.set(i + 1, parent.lineNumber);
+    }
+    stack.push({ indent, lineNumber: i + 1, isTask });
+  }
+
+  return parents;
+}
+
 /**
  * Parses tasks from a markdown file.
  *
@@ -209,6 +508,7 @@ export async function parseTasksFromFile(
   const tasks: TaskEntry[] = [];
   // Normalize line endings: split by \n, then remove trailing \r from each line
   const lines = content.split("\n");
+  const parents = findTaskParents(lines);
 
   for (let i = 0; i < lines.length; i++) {
     // Remove trailing \r for Windows-style line endings (CRLF)
@@ -221,6 +521,7 @@ export async function parseTasksFromFile(
       // match[3] contains "] text", so we slice off the "] " prefix
       const text = match[3].slice(2);
 
+      const parentLineNumber = parents.get(i + 1);
       tasks.push({
         text,
         state,
@@ -228,6 +529,8 @@ export async function parseTasksFromFile(
         lineNumber: i + 1, // 1-indexed
         fileMtime,
         category,
+        ...parseTaskMetadata(text),
+        ...(parentLineNumber !== undefined ? { parentLineNumber } : {}),
       });
     }
   }
@@ -242,8 +545,10 @@ export async function parseTasksFromFile(
 
 /**
  * Gets all tasks from configured vault directories.
- * Scans inbox, projects, and areas directories in parallel.
- * Each task is tagged with its source category for grouping.
+ * Scans each task scope (inbox, projects, and areas unless the vault
+ * configures `taskScopes`) in parallel. Each task is tagged with its scope's
+ * category for grouping. A file inside more than one scope is listed once,
+ * under the first scope that contains it.
  *
  * @param vaultPath - Absolute path to the vault root (content root)
  * @param config - Vault configuration
@@ -255,35 +560,28 @@ export async function getAllTasks(
 ): Promise<TasksResult> {
   log.info(`Getting all tasks from vault: ${vaultPath}`);
 
-  // Resolve directory paths from config
-  const inboxPath = config.inboxPath ?? DEFAULT_INBOX_PATH;
-  const projectPath = resolveProjectPath(config);
-  const areaPath = resolveAreaPath(config);
-
-  log.debug(`Scanning directories: inbox=${inboxPath}, projects=${projectPath}, areas=${areaPath}`);
-
-  // Scan all three directories in parallel
-  const [inboxFiles, projectFiles, areaFiles] = await Promise.all([
-    scanTasksFromDirectory(vaultPath, inboxPath),
-    scanTasksFromDirectory(vaultPath, projectPath),
-    scanTasksFromDirectory(vaultPath, areaPath),
-  ]);
+  const scopes = resolveTaskScopes(config);
+  log.debug(`Scanning directories: ${scopes.map((s) => `${s.category}=${s.path}`).join(", ")}`);
 
-  log.debug(`Files found: inbox=${inboxFiles.length}, projects=${projectFiles.length}, areas=${areaFiles.length}`);
+  // Scan all scope directories in parallel
+  const scopeFiles = await Promise.all(
+    scopes.map((scope) => scanTasksFromDirectory(vaultPath, scope.path))
+  );
 
-  // Parse tasks from each directory with its category in parallel
-  const [inboxTasks, projectTasks, areaTasks] = await Promise.all([
-    Promise.all(inboxFiles.map((filePath) => parseTasksFromFile(vaultPath, filePath, "inbox"))),
-    Promise.all(projectFiles.map((filePath) => parseTasksFromFile(vaultPath, filePath, "projects"))),
-    Promise.all(areaFiles.map((filePath) => parseTasksFromFile(vaultPath, filePath, "areas"))),
-  ]);
+  // Assign each file to the first scope that found it
+  const seen = new Set<string>();
+  const assigned = scopes.map((scope, i) => {
+    const files = scopeFiles[i].filter((filePath) => !seen.has(filePath));
+    files.forEach((filePath) => seen.add(filePath));
+    log.debug(`Files found: ${scope.category}=${files.length}`);
+    return files.map((filePath) => ({ filePath, category: scope.category }));
+  });
 
-  // Flatten results from each category
-  const tasks: TaskEntry[] = [
-    ...inboxTasks.flat(),
-    ...projectTasks.flat(),
-    ...areaTasks.flat(),
-  ];
+  // Parse tasks from each file with its category in parallel
+  const parsed = await Promise.all(
+    assigned.flat().map(({ filePath, category }) => parseTasksFromFile(vaultPath, filePath, category))
+  );
+  const tasks: TaskEntry[] = parsed.flat();
 
   // Sort by file path, then by line number (frontend handles category grouping)
   tasks.sort((a, b) => {
@@ -305,16 +603,17 @@ export async function getAllTasks(
  * Gets the next state in the toggle cycle.
  *
  * @param currentState - Current checkbox state character
+ * @param cycle - State cycle order (defaults to STATE_CYCLE)
  * @returns Next state in the cycle
  */
-export function getNextState(currentState: string): TaskState {
-  const currentIndex = STATE_CYCLE.indexOf(currentState as TaskState);
+export function getNextState(currentState: string, cycle: readonly string[] = STATE_CYCLE): string {
+  const currentIndex = cycle.indexOf(currentState);
   if (currentIndex === -1) {
     // Unknown state, start from beginning
-    return STATE_CYCLE[0];
+    return cycle[0];
   }
-  const nextIndex = (currentIndex + 1) % STATE_CYCLE.length;
-  return STATE_CYCLE[nextIndex];
+  const nextIndex = (currentIndex + 1) % cycle.length;
+  return cycle[nextIndex];
 }
 
 // =============================================================================
@@ -328,26 +627,104 @@ export interface ToggleResult {
   success: boolean;
   newState?: string;
   error?: string;
+  /** Next occurrence inserted below a completed recurring task */
+  nextTask?: { lineNumber: number; text: string };
+  /** Line numbers of parent tasks completed because all their subtasks were done */
+  completedParents?: number[];
+  /** The line no longer holds the expected task */
+  conflict?: boolean;
+}
+
+/**
+ * Settings a vault applies when toggling a task.
+ */
+export interface ToggleOptions {
+  /** State cycle order used when no state is given (defaults to STATE_CYCLE) */
+  cycle?: readonly string[];
+  /** States that count as done, for completion dates, recurrence, and parent checks (defaults to 'x') */
+  doneStates?: readonly string[];
+  /** Complete a parent task once all of its subtasks are done */
+  autoCompleteParents?: boolean;
+  /** When the task was toggled, for completion dates (defaults to now) */
+  date?: Date;
+  /**
+   * Text the caller last saw on the line. If the task now reads differently
+   * (ignoring its ✅ date), the file changed underneath and nothing is toggled.
+   */
+  expectedText?: string;
+}
+
+/**
+ * Marks the ancestors of a task done while all of their subtasks are done,
+ * stopping at the first ancestor that still has open subtasks. Recurring
+ * parents are left alone, since completing one would need its own next
+ * occurrence. Updates `lines` in place.
+ *
+ * @returns Line numbers of the parents that were completed
+ */
+function completeFinishedParents(
+  lines: string[],
+  lineNumber: number,
+  doneStates: readonly string[],
+  doneDate: string
+): number[] {
+  const parents = findTaskParents(lines);
+  const stateAt = (line: number) => lines[line - 1].match(TASK_REGEX)?.[2];
+  const completed: number[] = [];
+
+  let parent = parents.get(lineNumber);
+  while (parent !== undefined) {
+    const match = lines[parent - 1].match(TASK_REGEX);
+    if (!match || doneStates.includes(match[2])) break;
+
+    const siblings = [...parents].filter(([, p]) => p === parent).map(([child]) => child);
+    const allDone = siblings.every((child) => doneStates.includes(stateAt(child) ?? " "));
+    const text = match[3].slice(2);
+    if (!allDone || parseTaskMetadata(text).recurrence !== undefined) break;
+
+    lines[parent - 1] = match[1] + "x] " + setTaskDoneDate(text, doneDate);
+    completed.push(parent);
+    parent = parents.get(parent);
+  }
+
+  return completed;
 }
 
 /**
  * Toggles or sets the state of a task checkbox in a file.
  *
  * If newState is provided, sets the task to that state directly.
- * Otherwise cycles: ' ' -> 'x' -> '/' -> '?' -> 'b' -> 'f' -> ' '
+ * Otherwise cycles through `cycle`, by default:
+ * ' ' -> 'x' -> '/' -> '?' -> 'b' -> 'f' -> ' '
+ *
+ * Moving a task into a done state stamps a ✅ completion date. For a task
+ * with a 🔁 recurrence rule it also inserts the next occurrence below the
+ * task and its subtasks (which stay with the completed task), shifting the
+ * line numbers of everything after it.
+ * With `autoCompleteParents`, a task whose subtasks are now all done is
+ * completed too, up through its ancestors.
  *
  * @param vaultPath - Absolute path to the vault root
  * @param filePath - Relative file path from vault root
  * @param lineNumber - 1-indexed line number of the task
  * @param newState - Optional: set to this state instead of cycling
+ * @param options - Cycle order, parent auto-completion, and toggle date
  * @returns ToggleResult with success status and new state
  */
 export async function toggleTask(
   vaultPath: string,
   filePath: string,
   lineNumber: number,
-  newState?: string
+  newState?: string,
+  options: ToggleOptions = {}
 ): Promise<ToggleResult> {
+  const {
+    cycle = STATE_CYCLE,
+    doneStates = ["x"],
+    autoCompleteParents = false,
+    date = new Date(),
+    expectedText,
+  } = options;
   log.debug(`Toggling task: ${filePath}:${lineNumber} in ${vaultPath}`);
 
   // 1. Validate path is within vault
@@ -393,6 +770,12 @@ export async function toggleTask(
     return { success: false, error: message };
   }
 
+  if (!isExpectedTask(match, expectedText)) {
+    const message = `Line ${lineNumber} no longer holds the expected task`;
+    log.warn(message);
+    return { success: false, error: message, conflict: true };
+  }
+
   // 7. Extract current state from regex match
   // TASK_REGEX captures: group 1 = prefix including "- [", group 2 = state char, group 3 = "] text..."
   const prefix = match[1]; // e.g., "  - ["
@@ -400,15 +783,42 @@ export async function toggleTask(
   const suffix = match[3]; // e.g., "] Buy groceries"
 
   // 8. Calculate next state: use provided state or cycle
-  const targetState = newState ?? getNextState(currentState);
+  const targetState = newState ?? getNextState(currentState, cycle);
 
-  // 9. Reconstruct the line with only the state character changed
-  const newLine = prefix + targetState + suffix;
+  // 9. Reconstruct the line with the state character changed. Moving into a
+  // done state appends a ✅ completion date; moving out of one removes it.
+  const wasDone = doneStates.includes(currentState);
+  const isDone = doneStates.includes(targetState);
+  let newSuffix = suffix;
+  let nextTaskLine: string | null = null;
+  const nextTaskIndex = findBlockEnd(lines, lineNumber - 1);
+  if (isDone && !wasDone) {
+    const today = formatDateForFilename(date);
+    newSuffix = "] " + setTaskDoneDate(suffix.slice(2), today);
+    const nextText = createNextOccurrence(suffix.slice(2), today);
+    if (nextText !== null && !isNextOccurrence(lines[nextTaskIndex], prefix, nextText)) {
+      nextTaskLine = prefix + " ] " + nextText;
+    }
+  } else if (!isDone && wasDone) {
+    newSuffix = "] " + setTaskDoneDate(suffix.slice(2), null);
+  }
+  const newLine = prefix + targetState + newSuffix;
 
-  // 10. Update the array
+  // 10. Update the array, inserting a recurring task's next occurrence after
+  // its subtasks so they stay with the completed instance
   lines[lineNumber - 1] = newLine;
+  if (nextTaskLine !== null) {
+    lines.splice(nextTaskIndex, 0, nextTaskLine);
+  }
+
+  // 11. Complete parents whose subtasks are now all done. Parents sit above
+  // the task, so the inserted next occurrence doesn't shift them.
+  const completedParents =
+    autoCompleteParents && isDone
+      ? completeFinishedParents(lines, lineNumber, doneStates, formatDateForFilename(date))
+      : [];
 
-  // 11. Join with \n and write back to file
+  // 12. Join with \n and write back to file
   const newContent = lines.join("\n");
 
   try {
@@ -421,6 +831,325 @@ export async function toggleTask(
 
   log.info(`Toggled task ${filePath}:${lineNumber} from '${currentState}' to '${targetState}'`);
 
-  // 12. Return success with new state
-  return { success: true, newState: targetState };
+  // 13. Return success with new state
+  const result: ToggleResult = { success: true, newState: targetState };
+  if (nextTaskLine !== null) {
+    log.info(`Inserted next occurrence of recurring task at ${filePath}:${nextTaskIndex + 1}`);
+    result.nextTask = { lineNumber: nextTaskIndex + 1, text: nextTaskLine.slice(prefix.length + 3) };
+  }
+  if (completedParents.length > 0) {
+    log.info(`Completed parent tasks at ${filePath}:${completedParents.join(", ")}`);
+    result.completedParents = completedParents;
+  }
+  return result;
+}
+
+// =============================================================================
+// Task Editing
+// =============================================================================
+
+/**
+ * Result of adding, editing, deleting, or moving a task.
+ */
+export interface TaskWriteResult {
+  success: boolean;
+  error?: string;
+  /** File the task is now in (for delete, the file it was removed from) */
+  filePath?: string;
+  /** 1-indexed line number of the task in that file */
+  lineNumber?: number;
+  /** Task text after the change (everything after "- [ ] ") */
+  text?: string;
+  /** The line no longer holds the expected task */
+  conflict?: boolean;
+}
+
+/**
+ * Guards and file history for editing, deleting, and moving a task.
+ */
+export interface TaskWriteOptions {
+  /**
+   * Text the caller last saw on the line. If the task now reads differently
+   * (ignoring its ✅ date), the file changed underneath and nothing is written.
+   */
+  expectedText?: string;
+  /** Vault whose file history gets each file's content before it's written */
+  history?: HistoryVault;
+}
+
+/**
+ * Whether a task line still holds the task the caller saw. Completion dates
+ * are ignored, since toggling the task adds or removes them.
+ */
+function isExpectedTask(match: RegExpMatchArray, expectedText?: string): boolean {
+  return (
+    expectedText === undefined ||
+    setTaskDoneDate(match[3].slice(2), null) === setTaskDoneDate(expectedText, null)
+  );
+}
+
+/** A task line loaded for editing */
+interface LoadedTask {
+  targetPath: string;
+  lines: string[];
+  /** TASK_REGEX match for the task line */
+  match: RegExpMatchArray;
+}
+
+/**
+ * Validates the path and reads a markdown file for a task write.
+ */
+async function readTaskFile(
+  vaultPath: string,
+  filePath: string
+): Promise<{ targetPath: string; lines: string[] } | { error: string }> {
+  let targetPath: string;
+  try {
+    targetPath = await validatePath(vaultPath, filePath);
+  } catch (error) {
+    if (error instanceof FileBrowserError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+
+  try {
+    const content = await readFile(targetPath, "utf-8");
+    return { targetPath, lines: content.split("\n") };
+  } catch {
+    return { error: `File not found: ${filePath}` };
+  }
+}
+
+/**
+ * Reads a file and checks that the given line is a task, and the expected
+ * one when `expectedText` is given.
+ */
+async function loadTask(
+  vaultPath: string,
+  filePath: string,
+  lineNumber: number,
+  expectedText?: string
+): Promise<LoadedTask | { error: string; conflict?: boolean }> {
+  const file = await readTaskFile(vaultPath, filePath);
+  if ("error" in file) {
+    return file;
+  }
+  if (lineNumber < 1 || lineNumber > file.lines.length) {
+    return { error: `Line number ${lineNumber} out of bounds (file has ${file.lines.length} lines)` };
+  }
+  const match = file.lines[lineNumber - 1].match(TASK_REGEX);
+  if (!match) {
+    return { error: `Line ${lineNumber} is not a task` };
+  }
+  if (!isExpectedTask(match, expectedText)) {
+    return { error: `Line ${lineNumber} no longer holds the expected task`, conflict: true };
+  }
+  return { ...file, match };
+}
+
+/**
+ * Records a file's content in file history before a task write, when the
+ * caller passed a vault.
+ */
+async function recordTaskHistory(
+  history: HistoryVault | undefined,
+  filePath: string,
+  lines: string[]
+): Promise<void> {
+  if (history) {
+    await recordVersion(history, filePath, lines.join("\n"), "edit");
+  }
+}
+
+async function writeTaskFile(targetPath: string, lines: string[]): Promise<string | null> {
+  try {
+    await writeFile(targetPath, lines.join("\n"), "utf-8");
+    return null;
+  } catch (error) {
+    return `Failed to write file: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+function failure(error: string, conflict?: boolean): TaskWriteResult {
+  log.warn(error);
+  return { success: false, error, ...(conflict ? { conflict } : {}) };
+}
+
+/**
+ * Inserts a line at the end of a heading's section, or at the end of the
+ * file when no heading is given. A missing heading is appended as "## heading".
+ *
+ * @returns 1-indexed line number of the inserted line
+ */
+export function insertLine(lines: string[], line: string, heading?: string): number {
+  if (heading) {
+    const section = findHeadingSection(lines, heading);
+    if (!section) {
+      return appendHeadingSection(lines, heading, [line]) + 1;
+    }
+    const index = lastContentIndex(lines, section.heading + 1, section.end) + 1;
+    lines.splice(index, 0, line);
+    return index + 1;
+  }
+
+  const index = lastContentIndex(lines, 0, lines.length) + 1;
+  lines.splice(index, 0, line);
+  return index + 1;
+}
+
+/**
+ * Adds an open task to a markdown file, at the end of a heading's section or
+ * at the end of the file. Metadata typed in the text is normalized.
+ *
+ * @param vaultPath - Absolute path to the vault root
+ * @param filePath - Relative path of the file to add to
+ * @param changes - Description and metadata for the new task
+ * @param options.heading - Section to add the task under (created if missing)
+ * @param options.template - Content for the file if it doesn't exist yet;
+ *   without one, a missing file is an error
+ */
+export async function addTask(
+  vaultPath: string,
+  filePath: string,
+  changes: TaskChanges & { description: string },
+  options: { heading?: string; template?: string } = {}
+): Promise<TaskWriteResult> {
+  if (extname(filePath).toLowerCase() !== ".md") {
+    return failure(`Tasks can only be added to markdown files: ${filePath}`);
+  }
+
+  let file = await readTaskFile(vaultPath, filePath);
+  if ("error" in file && options.template !== undefined && file.error.startsWith("File not found")) {
+    const targetPath = await validatePath(vaultPath, filePath);
+    await mkdir(dirname(targetPath), { recursive: true });
+    file = { targetPath, lines: options.template.split("\n") };
+  }
+  if ("error" in file) {
+    return failure(file.error);
+  }
+
+  const text = updateTaskText("", changes);
+  const lineNumber = insertLine(file.lines, `- [ ] ${text}`, options.heading);
+
+  const writeError = await writeTaskFile(file.targetPath, file.lines);
+  if (writeError) {
+    return failure(writeError);
+  }
+
+  log.info(`Added task at ${filePath}:${lineNumber}`);
+  return { success: true, filePath, lineNumber, text };
+}
+
+/**
+ * Edits a task's description and metadata in place, keeping its checkbox
+ * state and indentation.
+ */
+export async function editTask(
+  vaultPath: string,
+  filePath: string,
+  lineNumber: number,
+  changes: TaskChanges,
+  options: TaskWriteOptions = {}
+): Promise<TaskWriteResult> {
+  const task = await loadTask(vaultPath, filePath, lineNumber, options.expectedText);
+  if ("error" in task) {
+    return failure(task.error, task.conflict);
+  }
+
+  await recordTaskHistory(options.history, filePath, task.lines);
+  const [, prefix, state, suffix] = task.match;
+  const text = updateTaskText(suffix.slice(2), changes);
+  task.lines[lineNumber - 1] = `${prefix}${state}] ${text}`;
+
+  const writeError = await writeTaskFile(task.targetPath, task.lines);
+  if (writeError) {
+    return failure(writeError);
+  }
+
+  log.info(`Edited task ${filePath}:${lineNumber}`);
+  return { success: true, filePath, lineNumber, text };
+}
+
+/**
+ * Removes a task line from a file. Nested lines below it are left in place.
+ */
+export async function deleteTask(
+  vaultPath: string,
+  filePath: string,
+  lineNumber: number,
+  options: TaskWriteOptions = {}
+): Promise<TaskWriteResult> {
+  const task = await loadTask(vaultPath, filePath, lineNumber, options.expectedText);
+  if ("error" in task) {
+    return failure(task.error, task.conflict);
+  }
+
+  await recordTaskHistory(options.history, filePath, task.lines);
+  task.lines.splice(lineNumber - 1, 1);
+
+  const writeError = await writeTaskFile(task.targetPath, task.lines);
+  if (writeError) {
+    return failure(writeError);
+  }
+
+  log.info(`Deleted task ${filePath}:${lineNumber}`);
+  return { success: true, filePath, lineNumber, text: task.match[3].slice(2) };
+}
+
+/**
+ * Moves a task to another markdown file (or another section of the same
+ * file), keeping its state and text. Indentation is dropped because the task
+ * leaves its parent list.
+ *
+ * The destination is written before the task is removed from the source, so
+ * a failure part-way leaves a duplicate rather than losing the task.
+ */
+export async function moveTask(
+  vaultPath: string,
+  filePath: string,
+  lineNumber: number,
+  toFilePath: string,
+  heading?: string,
+  options: TaskWriteOptions = {}
+): Promise<TaskWriteResult> {
+  if (extname(toFilePath).toLowerCase() !== ".md") {
+    return failure(`Tasks can only be moved to markdown files: ${toFilePath}`);
+  }
+
+  const task = await loadTask(vaultPath, filePath, lineNumber, options.expectedText);
+  if ("error" in task) {
+    return failure(task.error, task.conflict);
+  }
+
+  const [, , state, suffix] = task.match;
+  const line = `- [${state}${suffix}`;
+  let newLineNumber: number;
+
+  const target = await readTaskFile(vaultPath, toFilePath);
+  if ("error" in target) {
+    return failure(target.error);
+  }
+
+  await recordTaskHistory(options.history, filePath, task.lines);
+  if (target.targetPath === task.targetPath) {
+    task.lines.splice(lineNumber - 1, 1);
+    newLineNumber = insertLine(task.lines, line, heading);
+  } else {
+    await recordTaskHistory(options.history, toFilePath, target.lines);
+    newLineNumber = insertLine(target.lines, line, heading);
+    const targetError = await writeTaskFile(target.targetPath, target.lines);
+    if (targetError) {
+      return failure(targetError);
+    }
+    task.lines.splice(lineNumber - 1, 1);
+  }
+
+  const writeError = await writeTaskFile(task.targetPath, task.lines);
+  if (writeError) {
+    return failure(writeError);
+  }
+
+  log.info(`Moved task ${filePath}:${lineNumber} to ${toFilePath}:${newLineNumber}`);
+  return { success: true, filePath: toFilePath, lineNumber: newLineNumber, text: suffix.slice(2) };
 }
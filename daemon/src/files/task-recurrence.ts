@@ -0,0 +1,286 @@
+/**
+ * Task Recurrence
+ *
+ * Parses Obsidian Tasks recurrence rules ("every week", "every weekday",
+ * "every month on the 1st", "every 2 weeks on Monday, Friday when done")
+ * and computes the next occurrence date.
+ *
+ * Dates are YYYY-MM-DD strings and all arithmetic is done in UTC so that
+ * daylight saving changes never shift a date.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type RecurrenceUnit = "day" | "week" | "month" | "year";
+
+/**
+ * A parsed recurrence rule.
+ */
+export interface RecurrenceRule {
+  unit: RecurrenceUnit;
+  /** Repeat every N units (1 for "every week") */
+  interval: number;
+  /** Weekly rules: days of the week (0 = Sunday) the task falls on */
+  weekdays?: number[];
+  /** Monthly rules: day of the month, or "last" for the last day */
+  monthDay?: number | "last";
+  /** Monthly rules: nth weekday of the month ("2nd Tuesday"); n = -1 means last */
+  nthWeekday?: { n: number; weekday: number };
+  /** Compute the next date from the completion date instead of the due date */
+  whenDone: boolean;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const UNIT_PATTERN = "(day|week|month|year)s?";
+const WEEKDAY_PATTERN =
+  "(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)";
+const WEEKDAY_LIST_PATTERN = `${WEEKDAY_PATTERN}(?:\\s*(?:,|and)\\s*${WEEKDAY_PATTERN})*`;
+
+const INTERVAL_REGEX = new RegExp(`^(?:(\\d+)\\s+)?${UNIT_PATTERN}(?:\\s+on\\s+(.+))?$`);
+const WEEKDAY_LIST_REGEX = new RegExp(`^(?:the\\s+)?(${WEEKDAY_LIST_PATTERN})$`);
+const MONTH_DAY_REGEX = /^the\s+(\d{1,2})(?:st|nd|rd|th)?$/;
+const NTH_WEEKDAY_REGEX = new RegExp(`^the\\s+(\\d)(?:st|nd|rd|th)?\\s+(${WEEKDAY_PATTERN})$`);
+const LAST_WEEKDAY_REGEX = new RegExp(`^the\\s+last\\s+(${WEEKDAY_PATTERN})$`);
+
+function parseWeekday(name: string): number {
+  return WEEKDAY_NAMES.findIndex((day) => day.startsWith(name.slice(0, 3)));
+}
+
+function parseWeekdayList(list: string): number[] {
+  const days = list.split(/\s*(?:,|and)\s*/).map(parseWeekday);
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Parses the "on ..." part of a weekly or monthly rule into `rule`.
+ * Returns false if the clause doesn't fit the unit.
+ */
+function applyOnClause(rule: RecurrenceRule, clause: string): boolean {
+  if (rule.unit === "week") {
+    const weekdays = clause.match(WEEKDAY_LIST_REGEX);
+    if (!weekdays) return false;
+    rule.weekdays = parseWeekdayList(weekdays[1]);
+    return true;
+  }
+
+  if (rule.unit === "month") {
+    if (clause === "the last" || clause === "the last day") {
+      rule.monthDay = "last";
+      return true;
+    }
+    const monthDay = clause.match(MONTH_DAY_REGEX);
+    if (monthDay) {
+      const day = Number(monthDay[1]);
+      if (day < 1 || day > 31) return false;
+      rule.monthDay = day;
+      return true;
+    }
+    const nth = clause.match(NTH_WEEKDAY_REGEX);
+    if (nth) {
+      const n = Number(nth[1]);
+      if (n < 1 || n > 5) return false;
+      rule.nthWeekday = { n, weekday: parseWeekday(nth[2]) };
+      return true;
+    }
+    const last = clause.match(LAST_WEEKDAY_REGEX);
+    if (last) {
+      rule.nthWeekday = { n: -1, weekday: parseWeekday(last[1]) };
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Parses a recurrence rule as written after 🔁.
+ *
+ * @example
+ *   parseRecurrence("every 2 weeks on Monday, Friday")
+ *   // { unit: "week", interval: 2, weekdays: [1, 5], whenDone: false }
+ * @returns The rule, or null if it isn't a supported rule
+ */
+export function parseRecurrence(text: string): RecurrenceRule | null {
+  let rule = text.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!rule.startsWith("every ")) return null;
+  rule = rule.slice("every ".length);
+
+  const whenDone = rule.endsWith(" when done");
+  if (whenDone) {
+    rule = rule.slice(0, -" when done".length);
+  }
+
+  if (rule === "weekday") {
+    return { unit: "week", interval: 1, weekdays: [1, 2, 3, 4, 5], whenDone };
+  }
+
+  const weekdayList = rule.match(WEEKDAY_LIST_REGEX);
+  if (weekdayList) {
+    return { unit: "week", interval: 1, weekdays: parseWeekdayList(weekdayList[1]), whenDone };
+  }
+
+  const match = rule.match(INTERVAL_REGEX);
+  if (!match) return null;
+
+  const interval = match[1] ? Number(match[1]) : 1;
+  if (interval < 1) return null;
+
+  const parsed: RecurrenceRule = { unit: match[2] as RecurrenceUnit, interval, whenDone };
+  if (match[3] && !applyOnClause(parsed, match[3])) {
+    return null;
+  }
+  return parsed;
+}
+
+// =============================================================================
+// Date Arithmetic
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Adds a number of days to a YYYY-MM-DD date.
+ */
+export function addDays(date: string, days: number): string {
+  return fromDate(new Date(toDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Number of days from `from` to `to` (negative if `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Builds a date in the given month (month may overflow into later years),
+ * clamping the day to the month's length.
+ */
+function dateInMonth(year: number, month: number, day: number): Date {
+  const first = new Date(Date.UTC(year, month, 1));
+  const length = daysInMonth(first.getUTCFullYear(), first.getUTCMonth());
+  return new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(day, length)));
+}
+
+/**
+ * Date of the nth weekday in a month (n = -1 for the last), or null when the
+ * month has no such day (e.g. a 5th Friday).
+ */
+function nthWeekdayOfMonth(year: number, month: number, n: number, weekday: number): Date | null {
+  const first = new Date(Date.UTC(year, month, 1));
+  const y = first.getUTCFullYear();
+  const m = first.getUTCMonth();
+  const length = daysInMonth(y, m);
+
+  if (n === -1) {
+    const lastWeekday = new Date(Date.UTC(y, m, length)).getUTCDay();
+    return new Date(Date.UTC(y, m, length - ((lastWeekday - weekday + 7) % 7)));
+  }
+
+  const day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7;
+  return day <= length ? new Date(Date.UTC(y, m, day)) : null;
+}
+
+/**
+ * Candidate date for a monthly rule in the given month.
+ */
+function monthlyCandidate(rule: RecurrenceRule, year: number, month: number, fallbackDay: number): Date | null {
+  if (rule.nthWeekday) {
+    return nthWeekdayOfMonth(year, month, rule.nthWeekday.n, rule.nthWeekday.weekday);
+  }
+  if (rule.monthDay === "last") {
+    return dateInMonth(year, month, 31);
+  }
+  return dateInMonth(year, month, rule.monthDay ?? fallbackDay);
+}
+
+function nextWeekly(rule: RecurrenceRule, start: Date): Date {
+  const weekdays = rule.weekdays;
+  if (!weekdays || weekdays.length === 0) {
+    return new Date(start.getTime() + rule.interval * 7 * DAY_MS);
+  }
+
+  // Later in the same week (weeks start on Monday)
+  const startWeekday = (start.getUTCDay() + 6) % 7;
+  for (let offset = 1; startWeekday + offset < 7; offset++) {
+    const candidate = new Date(start.getTime() + offset * DAY_MS);
+    if (weekdays.includes(candidate.getUTCDay())) {
+      return candidate;
+    }
+  }
+
+  // First listed day of the week `interval` weeks on
+  const nextMonday = new Date(start.getTime() + (7 - startWeekday + (rule.interval - 1) * 7) * DAY_MS);
+  for (let offset = 0; ; offset++) {
+    const candidate = new Date(nextMonday.getTime() + offset * DAY_MS);
+    if (weekdays.includes(candidate.getUTCDay())) {
+      return candidate;
+    }
+  }
+}
+
+function nextMonthly(rule: RecurrenceRule, start: Date): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+
+  // A fixed day or weekday later in the same month comes first
+  if (rule.monthDay !== undefined || rule.nthWeekday) {
+    const sameMonth = monthlyCandidate(rule, year, month, day);
+    if (sameMonth && sameMonth > start) {
+      return sameMonth;
+    }
+  }
+
+  for (let months = rule.interval; ; months += rule.interval) {
+    const candidate = monthlyCandidate(rule, year, month + months, day);
+    if (candidate) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Computes the next occurrence strictly after `from`.
+ *
+ * Days that don't exist in a month ("on the 31st", or Feb 29 in a yearly
+ * rule) fall on the last day of that month.
+ *
+ * @param rule - Parsed recurrence rule
+ * @param from - Reference date as YYYY-MM-DD
+ * @returns Next date as YYYY-MM-DD
+ */
+export function nextOccurrence(rule: RecurrenceRule, from: string): string {
+  const start = toDate(from);
+  switch (rule.unit) {
+    case "day":
+      return addDays(from, rule.interval);
+    case "week":
+      return fromDate(nextWeekly(rule, start));
+    case "month":
+      return fromDate(nextMonthly(rule, start));
+    case "year":
+      return fromDate(
+        dateInMonth(start.getUTCFullYear() + rule.interval, start.getUTCMonth(), start.getUTCDate())
+      );
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Task Rollover
+ *
+ * Carries unfinished tasks from earlier daily notes into today's note, so
+ * they don't have to be copied over by hand each morning. Runs once a day
+ * for vaults with `taskRolloverEnabled`, and on demand.
+ *
+ * Open tasks from the last `taskRolloverDays` daily notes are added under a
+ * "## Rolled Over" heading in today's note, after a "From [[note]]:" line
+ * linking back to the note they came from. Daily notes are found with the
+ * vault's daily note folder and format, as captures write them. Subtasks and notes indented
+ * under a task come along with it. In move mode the tasks are removed from
+ * the earlier note and a "Rolled over to [[today]]" line is left in their
+ * place; in copy mode they stay and are marked forwarded ([>]), so they
+ * aren't rolled over again.
+ */
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname, relative } from "node:path";
+import type { VaultInfo } from "@memory-loop/shared";
+import {
+  createLogger,
+  formatDateForFilename,
+  getDailyNotePath,
+  isDoneTaskState,
+  DEFAULT_TASK_STATES,
+  DEFAULT_TASK_ROLLOVER_DAYS,
+  DEFAULT_TASK_ROLLOVER_MODE,
+} from "@memory-loop/shared";
+import { fileExists } from "@memory-loop/shared/server";
+import { discoverVaults } from "../vault/vault-manager";
+import { TASK_REGEX, findBlockEnd, findTaskParents, insertLine } from "./task-manager";
+import { createDailyNoteContent, getDailyNoteTitle } from "./note-capture";
+import { recordVersion } from "./file-history";
+
+const log = createLogger("TaskRollover");
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Heading rolled-over tasks are added under in today's note */
+export const ROLLOVER_HEADING = "Rolled Over";
+
+/** State that marks a task as copied forward (copy mode) */
+export const FORWARDED_STATE = ">";
+
+/** Default hour of day for the scheduled rollover (4am local time) */
+export const DEFAULT_ROLLOVER_HOUR = 4;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of rolling over a vault's tasks.
+ */
+export interface RolloverResult {
+  /** Today's daily note, relative to the content root */
+  notePath: string;
+  /** Number of tasks rolled over, including subtasks that came along */
+  tasks: number;
+  /** Daily notes tasks were rolled over from, relative to the content root */
+  sources: string[];
+}
+
+/**
+ * Lines of a task and everything indented under it.
+ */
+interface TaskBlock {
+  /** 0-indexed first line */
+  start: number;
+  /** 0-indexed line after the block */
+  end: number;
+  /** Indentation of the task line */
+  indent: string;
+}
+
+/**
+ * Options for the rollover scheduler.
+ */
+export interface RolloverSchedulerOptions {
+  /** Hour of day to roll over (0-23, default: 4) */
+  rolloverHour?: number;
+  /** Function to get current time (for testing) */
+  getNow?: () => Date;
+}
+
+// =============================================================================
+// Rollover
+// =============================================================================
+
+/**
+ * Finds the open tasks to roll over from a note's lines. Only the outermost
+ * open tasks are returned; open subtasks come along inside their parent's
+ * block, and stay behind with a parent that was already copied forward.
+ *
+ * @param lines - Note content split into lines
+ * @param isOpen - Whether a checkbox state counts as unfinished (never for forwarded)
+ * @returns Blocks in file order
+ */
+export function findOpenTaskBlocks(
+  lines: string[],
+  isOpen: (state: string) => boolean
+): TaskBlock[] {
+  const parents = findTaskParents(lines);
+  const stateAt = (lineNumber: number) => lines[lineNumber - 1].replace(/\r$/, "").match(TASK_REGEX)?.[2];
+  const blocks: TaskBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].replace(/\r$/, "").match(TASK_REGEX);
+    if (!match || !isOpen(match[2])) continue;
+
+    // Skip tasks that roll over (or were copied forward) with an ancestor
+    let parent = parents.get(i + 1);
+    let carried = false;
+    while (parent !== undefined && !carried) {
+      const parentState = stateAt(parent) ?? "x";
+      carried = parentState === FORWARDED_STATE || isOpen(parentState);
+      parent = parents.get(parent);
+    }
+    if (carried) continue;
+
+    const indent = match[1].slice(0, -"- [".length);
+    const end = findBlockEnd(lines, i);
+
+    blocks.push({ start: i, end, indent });
+    i = end - 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Rolls a vault's unfinished tasks from earlier daily notes into today's.
+ *
+ * Today's note is written before the earlier notes, so a failure partway
+ * leaves a duplicate rather than losing a task. Notes are recorded in file
+ * history before they change.
+ *
+ * @param vault - Vault to roll over (uses its rollover settings and task states)
+ * @param date - Today's date (defaults to now)
+ * @returns What was rolled over; nothing is written when there's nothing to roll over
+ */
+export async function rolloverTasks(
+  vault: VaultInfo,
+  date: Date = new Date()
+): Promise<RolloverResult> {
+  const notePath = getDailyNotePath(vault, date);
+  const today = getDailyNoteTitle(vault, date);
+  const result: RolloverResult = {
+    notePath: relative(vault.contentRoot, notePath),
+    tasks: 0,
+    sources: [],
+  };
+
+  const states = vault.taskStates ?? DEFAULT_TASK_STATES;
+  const isOpen = (state: string) => state !== FORWARDED_STATE && !isDoneTaskState(states, state);
+  const days = vault.taskRolloverDays ?? DEFAULT_TASK_ROLLOVER_DAYS;
+  const mode = vault.taskRolloverMode ?? DEFAULT_TASK_ROLLOVER_MODE;
+
+  // Collect tasks oldest note first, so they keep their order in today's note
+  const rolled: string[] = [];
+  const sourceWrites: { path: string; original: string; updated: string }[] = [];
+  for (let offset = days; offset >= 1; offset--) {
+    const dayDate = new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+    const day = getDailyNoteTitle(vault, dayDate);
+    const sourcePath = getDailyNotePath(vault, dayDate);
+    if (!(await fileExists(sourcePath))) continue;
+
+    const original = await readFile(sourcePath, "utf-8");
+    const lines = original.split("\n");
+    const blocks = findOpenTaskBlocks(lines, isOpen);
+    if (blocks.length === 0) continue;
+
+    rolled.push(`From [[${day}]]:`);
+    for (const block of blocks) {
+      for (const line of lines.slice(block.start, block.end)) {
+        const text = line.replace(/\r$/, "");
+        rolled.push(text.startsWith(block.indent) ? text.slice(block.indent.length) : text.trimStart());
+        if (TASK_REGEX.test(text)) result.tasks++;
+      }
+    }
+
+    // Work from the last block up so earlier line numbers stay valid
+    for (let b = blocks.length - 1; b >= 0; b--) {
+      const { start, end, indent } = blocks[b];
+      if (mode === "copy") {
+        const state = indent.length + "- [".length;
+        lines[start] = lines[start].slice(0, state) + FORWARDED_STATE + lines[start].slice(state + 1);
+      } else if (b === 0) {
+        const eol = lines[end - 1].endsWith("\r") ? "\r" : "";
+        lines.splice(start, end - start, `${indent}- Rolled over to [[${today}]]${eol}`);
+      } else {
+        lines.splice(start, end - start);
+      }
+    }
+
+    sourceWrites.push({ path: sourcePath, original, updated: lines.join("\n") });
+    result.sources.push(relative(vault.contentRoot, sourcePath));
+  }
+
+  if (rolled.length === 0) {
+    log.debug(`Nothing to roll over in ${vault.name}`);
+    return result;
+  }
+
+  // Add the tasks to today's note, creating it from the template if needed
+  const noteExists = await fileExists(notePath);
+  const existing = noteExists ? await readFile(notePath, "utf-8") : await createDailyNoteContent(vault, date);
+  const noteLines = existing.split("\n");
+  for (const line of rolled) {
+    insertLine(noteLines, line, ROLLOVER_HEADING);
+  }
+
+  await mkdir(dirname(notePath), { recursive: true });
+  if (noteExists) {
+    await recordVersion(vault, result.notePath, existing, "rollover");
+  }
+  await writeFile(notePath, noteLines.join("\n"), "utf-8");
+
+  for (const write of sourceWrites) {
+    await recordVersion(vault, relative(vault.contentRoot, write.path), write.original, "rollover");
+    await writeFile(write.path, write.updated, "utf-8");
+  }
+
+  log.info(
+    `Rolled over ${result.tasks} tasks from ${result.sources.length} notes to ${result.notePath} in ${vault.name} (${mode})`
+  );
+  return result;
+}
+
+// =============================================================================
+// Scheduler
+// =============================================================================
+
+interface RolloverSchedulerState {
+  timerId: ReturnType<typeof setInterval> | null;
+  running: boolean;
+  /** Date (YYYY-MM-DD) each vault was last rolled over, by vault ID */
+  lastRun: Map<string, string>;
+}
+
+const schedulerState: RolloverSchedulerState = {
+  timerId: null,
+  running: false,
+  lastRun: new Map(),
+};
+
+/**
+ * Rolls over every vault with rollover enabled that hasn't been rolled over
+ * today, once the rollover hour has passed.
+ *
+ * @param rolloverHour - Hour of day (0-23) before which nothing runs
+ * @param getNow - Function to get current time (for testing)
+ * @returns Number of vaults rolled over
+ */
+export async function runScheduledRollover(
+  rolloverHour: number = DEFAULT_ROLLOVER_HOUR,
+  getNow: () => Date = () => new Date()
+): Promise<number> {
+  const now = getNow();
+  if (now.getHours() < rolloverHour) return 0;
+
+  const today = formatDateForFilename(now);
+  let count = 0;
+  for (const vault of await discoverVaults()) {
+    if (!vault.taskRolloverEnabled || schedulerState.lastRun.get(vault.id) === today) continue;
+
+    try {
+      await rolloverTasks(vault, now);
+      count++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`Task rollover failed for ${vault.name}: ${message}`);
+    }
+    // Failed vaults aren't retried until tomorrow, so a broken note
+    // doesn't log an error every hour
+    schedulerState.lastRun.set(vault.id, today);
+  }
+  return count;
+}
+
+/**
+ * Start the task rollover scheduler. Catches up immediately if the rollover
+ * hour has already passed today, then checks hourly.
+ *
+ * @param options - Scheduler configuration
+ */
+export async function startScheduler(options: RolloverSchedulerOptions = {}): Promise<void> {
+  if (schedulerState.running) {
+    log.warn("Scheduler already running");
+    return;
+  }
+
+  const rolloverHour = options.rolloverHour ?? DEFAULT_ROLLOVER_HOUR;
+  const getNow = options.getNow ?? (() => new Date());
+
+  log.info(`Starting task rollover scheduler (daily at ${rolloverHour}:00)`);
+  schedulerState.running = true;
+
+  const check = async () => {
+    try {
+      await runScheduledRollover(rolloverHour, getNow);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`Scheduled rollover check failed: ${message}`);
+    }
+  };
+
+  await check();
+  schedulerState.timerId = setInterval(() => void check(), 60 * 60 * 1000); // Check every hour
+}
+
+/**
+ * Stop the task rollover scheduler.
+ */
+export function stopScheduler(): void {
+  if (!schedulerState.running) {
+    log.warn("Scheduler not running");
+    return;
+  }
+
+  if (schedulerState.timerId) {
+    clearInterval(schedulerState.timerId);
+    schedulerState.timerId = null;
+  }
+
+  schedulerState.running = false;
+  log.info("Task rollover scheduler stopped");
+}
+
+/**
+ * Get the configured rollover hour from environment.
+ *
+ * @returns Hour (0-23) or default
+ */
+export function getRolloverHourFromEnv(): number {
+  const envValue = process.env.TASK_ROLLOVER_HOUR;
+  if (!envValue) {
+    return DEFAULT_ROLLOVER_HOUR;
+  }
+
+  const hour = parseInt(envValue, 10);
+  if (isNaN(hour) || hour < 0 || hour > 23) {
+    log.warn(`Invalid TASK_ROLLOVER_HOUR: ${envValue}, using default ${DEFAULT_ROLLOVER_HOUR}`);
+    return DEFAULT_ROLLOVER_HOUR;
+  }
+
+  return hour;
+}
+
+/**
+ * Reset scheduler state for testing.
+ */
+export function resetSchedulerState(): void {
+  if (schedulerState.timerId) {
+    clearInterval(schedulerState.timerId);
+  }
+  schedulerState.timerId = null;
+  schedulerState.running = false;
+  schedulerState.lastRun.clear();
+}
@@ -0,0 +1,283 @@
+/**
+ * Trash
+ *
+ * Deleted files and directories are moved into .memory-loop/trash/ under the
+ * vault root instead of being removed, so a mistaken delete can be undone:
+ *
+ *   .memory-loop/trash/<id>/meta.json     - { id, originalPath, isDirectory, deletedAt }
+ *   .memory-loop/trash/<id>/files/<name>  - the deleted file or directory
+ *
+ * Items older than the vault's retention period are purged opportunistically
+ * when the trash is listed or something new is trashed.
+ */
+
+import { randomBytes } from "node:crypto";
+import { cp, lstat, mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, isAbsolute, join, normalize, relative } from "node:path";
+import type { TrashItem, VaultInfo } from "@memory-loop/shared";
+import { createLogger } from "@memory-loop/shared";
+import { FileNotFoundError, PathTraversalError } from "./file-browser";
+
+const log = createLogger("Trash");
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Trash directory relative to the vault root */
+export const TRASH_DIR = ".memory-loop/trash";
+
+const META_FILE = "meta.json";
+const FILES_DIR = "files";
+const TRASH_ID_PATTERN = /^[a-z0-9-]+$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The vault fields the trash needs: where to store it, and what paths are relative to */
+export type TrashVault = Pick<VaultInfo, "path" | "contentRoot">;
+
+/**
+ * Result of restoring an item from the trash.
+ */
+export interface RestoreResult {
+  /** Path the item was restored to, relative to the content root */
+  path: string;
+  /** Whether the item is a directory */
+  isDirectory: boolean;
+}
+
+// =============================================================================
+// Storage Helpers
+// =============================================================================
+
+function trashRoot(vault: TrashVault): string {
+  return join(vault.path, TRASH_DIR);
+}
+
+let lastIdTime = 0;
+
+/**
+ * Generates an entry ID that sorts by deletion time. The time part is kept
+ * strictly increasing so items trashed in the same millisecond still sort.
+ */
+function generateTrashId(): string {
+  lastIdTime = Math.max(Date.now(), lastIdTime + 1);
+  return `${lastIdTime.toString(36).padStart(9, "0")}-${randomBytes(3).toString("hex")}`;
+}
+
+function entryDir(vault: TrashVault, id: string): string {
+  if (!TRASH_ID_PATTERN.test(id)) {
+    throw new FileNotFoundError(`Trash item "${id}" not found`);
+  }
+  return join(trashRoot(vault), id);
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Moves a file or directory, copying when the two paths are on different
+ * filesystems (e.g. a content root mounted separately from the vault).
+ */
+async function moveItem(from: string, to: string): Promise<void> {
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    await cp(from, to, { recursive: true });
+    await rm(from, { recursive: true });
+  }
+}
+
+async function loadItem(dir: string): Promise<TrashItem | null> {
+  try {
+    const raw = await readFile(join(dir, META_FILE), "utf-8");
+    return JSON.parse(raw) as TrashItem;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds a free path for a restore by appending " (restored)", then
+ * " (restored 2)", and so on before the extension.
+ */
+async function findFreePath(targetPath: string, isDirectory: boolean): Promise<string> {
+  if (!(await pathExists(targetPath))) {
+    return targetPath;
+  }
+  const ext = isDirectory ? "" : extname(targetPath);
+  const stem = targetPath.slice(0, targetPath.length - ext.length);
+  for (let n = 1; ; n++) {
+    const candidate = `${stem} (restored${n === 1 ? "" : ` ${n}`})${ext}`;
+    if (!(await pathExists(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+// =============================================================================
+// Trashing
+// =============================================================================
+
+/**
+ * Moves a file or directory into the trash.
+ *
+ * @param vault - Vault the item belongs to
+ * @param targetPath - Absolute path of the item (already validated)
+ * @param isDirectory - Whether the item is a directory
+ * @returns The new trash entry
+ */
+export async function moveToTrash(
+  vault: TrashVault,
+  targetPath: string,
+  isDirectory: boolean
+): Promise<TrashItem> {
+  const id = generateTrashId();
+  const dir = join(trashRoot(vault), id);
+  const item: TrashItem = {
+    id,
+    originalPath: relative(vault.contentRoot, targetPath).split("\\").join("/"),
+    isDirectory,
+    deletedAt: new Date().toISOString(),
+  };
+
+  await mkdir(join(dir, FILES_DIR), { recursive: true });
+  try {
+    await moveItem(targetPath, join(dir, FILES_DIR, basename(targetPath)));
+  } catch (error) {
+    await rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+  await writeFile(join(dir, META_FILE), JSON.stringify(item, null, 2), "utf-8");
+
+  log.info(`Moved ${item.originalPath} to trash (${id})`);
+  return item;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Lists items in the trash, most recently deleted first.
+ */
+export async function listTrash(vault: TrashVault): Promise<TrashItem[]> {
+  let ids: string[];
+  try {
+    ids = await readdir(trashRoot(vault));
+  } catch {
+    return [];
+  }
+
+  const items: TrashItem[] = [];
+  for (const id of ids.filter((name) => TRASH_ID_PATTERN.test(name))) {
+    const item = await loadItem(join(trashRoot(vault), id));
+    if (item) {
+      items.push(item);
+    }
+  }
+  return items.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+// =============================================================================
+// Restoring and Removing
+// =============================================================================
+
+/**
+ * Moves an item back to where it was deleted from. If that path has been
+ * taken since, the item is restored beside it under a " (restored)" name.
+ * Missing parent directories are recreated.
+ *
+ * @throws FileNotFoundError if the trash item does not exist
+ * @throws PathTraversalError if the recorded path is outside the content root
+ */
+export async function restoreFromTrash(vault: TrashVault, id: string): Promise<RestoreResult> {
+  const dir = entryDir(vault, id);
+  const item = await loadItem(dir);
+  if (!item) {
+    throw new FileNotFoundError(`Trash item "${id}" not found`);
+  }
+
+  const originalPath = normalize(item.originalPath);
+  if (originalPath === ".." || originalPath.startsWith("../") || isAbsolute(originalPath)) {
+    throw new PathTraversalError(`Path "${item.originalPath}" is outside the vault boundary`);
+  }
+
+  const source = join(dir, FILES_DIR, basename(originalPath));
+  const target = await findFreePath(join(vault.contentRoot, originalPath), item.isDirectory);
+  await mkdir(dirname(target), { recursive: true });
+  await moveItem(source, target);
+  await rm(dir, { recursive: true, force: true });
+
+  const path = relative(vault.contentRoot, target).split("\\").join("/");
+  log.info(`Restored ${path} from trash (${id})`);
+  return { path, isDirectory: item.isDirectory };
+}
+
+/**
+ * Permanently removes one item from the trash.
+ *
+ * @throws FileNotFoundError if the trash item does not exist
+ */
+export async function deleteFromTrash(vault: TrashVault, id: string): Promise<void> {
+  const dir = entryDir(vault, id);
+  if (!(await pathExists(dir))) {
+    throw new FileNotFoundError(`Trash item "${id}" not found`);
+  }
+  await rm(dir, { recursive: true, force: true });
+  log.info(`Permanently deleted trash item ${id}`);
+}
+
+/**
+ * Permanently removes everything in the trash.
+ *
+ * @returns Number of items removed
+ */
+export async function emptyTrash(vault: TrashVault): Promise<number> {
+  const items = await listTrash(vault);
+  await rm(trashRoot(vault), { recursive: true, force: true });
+  log.info(`Emptied trash (${items.length} items)`);
+  return items.length;
+}
+
+/**
+ * Permanently removes items deleted more than `retentionDays` ago.
+ * Never throws; failures are logged.
+ *
+ * @returns Number of items removed
+ */
+export async function purgeTrash(
+  vault: TrashVault,
+  retentionDays: number,
+  now: number = Date.now()
+): Promise<number> {
+  const cutoff = now - retentionDays * DAY_MS;
+  let purged = 0;
+  try {
+    for (const item of await listTrash(vault)) {
+      if (Date.parse(item.deletedAt) < cutoff) {
+        await rm(join(trashRoot(vault), item.id), { recursive: true, force: true });
+        purged++;
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Failed to purge trash: ${message}`);
+  }
+  if (purged > 0) {
+    log.info(`Purged ${purged} items older than ${retentionDays} days from trash`);
+  }
+  return purged;
+}
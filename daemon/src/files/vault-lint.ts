@@ -0,0 +1,179 @@
+/**
+ * Vault Lint
+ *
+ * Scans a vault's content root for link problems left behind by renames
+ * made outside Memory Loop:
+ * - Broken links: wikilinks, markdown links and embeds that resolve to nothing
+ * - Orphan notes: notes that no other note links to
+ * - Unused attachments: files under the attachment folder nothing references
+ *
+ * Fixing rewrites a broken link only when exactly one file in the vault has
+ * the target's file name, using the same reference updater as in-app renames.
+ */
+
+import { readdir, readFile, lstat } from "node:fs/promises";
+import { join, posix } from "node:path";
+import type { BrokenLink, LintFix, VaultLintReport } from "@memory-loop/shared";
+import { createLogger } from "@memory-loop/shared";
+import { extractNoteLinks, LinkGraph, type LinkedFile } from "./search/note-links";
+import { updateReferences } from "./reference-updater";
+
+const log = createLogger("VaultLint");
+
+/**
+ * Vault locations the lint needs.
+ */
+export interface VaultLintTarget {
+  /** Absolute path to the content root */
+  contentRoot: string;
+  /** Attachment folder, relative to the content root */
+  attachmentPath: string;
+}
+
+// =============================================================================
+// Scanning
+// =============================================================================
+
+/**
+ * Lists every file under the content root as a relative path.
+ * Hidden entries and symlinks are skipped.
+ */
+async function listFiles(contentRoot: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function scanDir(relativeDir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(join(contentRoot, relativeDir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+
+      const relativePath = relativeDir ? posix.join(relativeDir, entry.name) : entry.name;
+      try {
+        const stats = await lstat(join(contentRoot, relativePath));
+        if (stats.isSymbolicLink()) continue;
+        if (stats.isDirectory()) {
+          await scanDir(relativePath);
+        } else if (stats.isFile()) {
+          files.push(relativePath);
+        }
+      } catch {
+        // Skip entries we can't stat
+      }
+    }
+  }
+
+  await scanDir("");
+  return files.sort();
+}
+
+function isNote(path: string): boolean {
+  return path.toLowerCase().endsWith(".md");
+}
+
+// =============================================================================
+// Lint
+// =============================================================================
+
+/**
+ * Builds a lint report for a vault.
+ *
+ * @param target - Vault content root and attachment folder
+ * @returns Broken links, orphan notes and unused attachments
+ */
+export async function lintVault(target: VaultLintTarget): Promise<VaultLintReport> {
+  const paths = await listFiles(target.contentRoot);
+  const files: LinkedFile[] = [];
+  let notesScanned = 0;
+
+  for (const path of paths) {
+    if (!isNote(path)) {
+      files.push({ path });
+      continue;
+    }
+    notesScanned++;
+    try {
+      const content = await readFile(join(target.contentRoot, path), "utf-8");
+      files.push({ path, links: extractNoteLinks(content, { includeAttachments: true }) });
+    } catch (error) {
+      log.warn(`Failed to read ${path}:`, error);
+      files.push({ path });
+    }
+  }
+
+  const graph = new LinkGraph(files);
+
+  const brokenLinks: BrokenLink[] = graph.getUnresolved().map((link) => ({
+    ...link,
+    candidates: graph.findByName(link.target),
+  }));
+
+  const referenced = new Set<string>();
+  for (const path of paths) {
+    for (const link of graph.getOutgoing(path)) {
+      if (link.resolvedPath !== null && link.resolvedPath !== path) {
+        referenced.add(link.resolvedPath);
+      }
+    }
+  }
+
+  const attachmentDir = posix.normalize(target.attachmentPath.replace(/^\/+|\/+$/g, "") || ".");
+  const inAttachmentDir = (path: string) =>
+    attachmentDir === "." || path.startsWith(`${attachmentDir}/`);
+
+  const orphanNotes = paths.filter((path) => isNote(path) && !referenced.has(path));
+  const unusedAttachments = paths.filter(
+    (path) => !isNote(path) && inAttachmentDir(path) && !referenced.has(path)
+  );
+
+  log.info(
+    `Linted ${notesScanned} notes: ${brokenLinks.length} broken links, ` +
+      `${orphanNotes.length} orphans, ${unusedAttachments.length} unused attachments`
+  );
+
+  return {
+    brokenLinks,
+    orphanNotes,
+    unusedAttachments,
+    notesScanned,
+    attachmentsScanned: paths.length - notesScanned,
+  };
+}
+
+/**
+ * Rewrites broken links that have exactly one candidate, then re-lints.
+ *
+ * Wikilinks with aliases or headings and URL-encoded markdown links aren't
+ * matched by the reference updater, so they stay in the report.
+ *
+ * @param target - Vault content root and attachment folder
+ * @returns The report after fixing, with the rewrites applied
+ */
+export async function fixVaultLinks(target: VaultLintTarget): Promise<VaultLintReport> {
+  const before = await lintVault(target);
+
+  // The updater works on paths with extensions; wikilinks usually omit .md
+  const rewrites = new Map<string, string>();
+  for (const link of before.brokenLinks) {
+    if (link.candidates.length !== 1) continue;
+    const [candidate] = link.candidates;
+    const from =
+      isNote(candidate) && !isNote(link.target) ? `${link.target}.md` : link.target;
+    rewrites.set(from, candidate);
+  }
+
+  const fixes: LintFix[] = [];
+  for (const [from, to] of rewrites) {
+    const result = await updateReferences(target.contentRoot, from, to, false);
+    if (result.referencesUpdated > 0) {
+      fixes.push({ from, to, ...result });
+    }
+  }
+
+  const after = await lintVault(target);
+  return { ...after, fixes };
+}
@@ -0,0 +1,424 @@
+/**
+ * Vault Watcher
+ *
+ * Watches each vault's content root for changes made on disk (including
+ * edits from external editors like Obsidian) and keeps derived state live:
+ *
+ * - Incrementally updates the cached search index for changed .md files
+ * - Invalidates the vault list cache when top-level entries change
+ *   (inbox/goals/attachment detection depends on them)
+ * - Publishes file-created / file-changed / file-deleted events to
+ *   subscribers (the /vaults/:id/events SSE endpoint)
+ *
+ * Raw fs.watch events are coalesced per vault over a short debounce window,
+ * then classified by comparing the filesystem against the set of paths the
+ * watcher already knows about. Hidden files/directories and symlinks are
+ * ignored, matching the file browser and search index.
+ */
+
+import { watch, type FSWatcher } from "node:fs";
+import { readdir, lstat } from "node:fs/promises";
+import { join, extname } from "node:path";
+import type { VaultInfo, VaultChangeEvent, VaultChangeType } from "@memory-loop/shared";
+import { createLogger } from "@memory-loop/shared";
+import { getVaults, invalidateCache as invalidateVaultCache } from "../vault/vault-cache";
+import { getCachedIndex } from "./search/search-cache";
+
+const log = createLogger("vault-watcher");
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Callback invoked for each change event in a subscribed vault.
+ */
+export type VaultEventListener = (event: VaultChangeEvent) => void;
+
+/**
+ * Per-vault watcher state.
+ */
+interface VaultWatch {
+  vaultId: string;
+  contentRoot: string;
+  watcher: FSWatcher;
+  /** Known paths relative to contentRoot, mapped to whether they are directories */
+  known: Map<string, boolean>;
+  /** Paths reported by fs.watch since the last flush */
+  pending: Set<string>;
+  flushTimer: ReturnType<typeof setTimeout> | null;
+  /** Resolves once the initial crawl has populated `known` */
+  ready: Promise<void>;
+  /** Serializes flushes so classification never interleaves */
+  flushing: Promise<void>;
+  closed: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Debounce window for coalescing raw fs.watch events (ms) */
+const DEBOUNCE_MS = 100;
+
+// =============================================================================
+// Module State
+// =============================================================================
+
+/** Active watchers: Map<vaultId, VaultWatch> */
+const watches = new Map<string, VaultWatch>();
+
+/** Subscribers: Map<vaultId, Set<listener>> */
+const listeners = new Map<string, Set<VaultEventListener>>();
+
+// =============================================================================
+// Subscriptions
+// =============================================================================
+
+/**
+ * Subscribes to change events for a vault.
+ *
+ * Subscribing does not start a watcher; call `watchVault()` for that.
+ *
+ * @param vaultId - Vault to receive events for
+ * @param listener - Called with each event
+ * @returns Unsubscribe function
+ */
+export function subscribeToVaultEvents(vaultId: string, listener: VaultEventListener): () => void {
+  let set = listeners.get(vaultId);
+  if (!set) {
+    set = new Set();
+    listeners.set(vaultId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    const current = listeners.get(vaultId);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(vaultId);
+    }
+  };
+}
+
+/**
+ * Returns the number of subscribers for a vault.
+ */
+export function getSubscriberCount(vaultId: string): number {
+  return listeners.get(vaultId)?.size ?? 0;
+}
+
+function publish(event: VaultChangeEvent): void {
+  const set = listeners.get(event.vaultId);
+  if (!set) return;
+  for (const listener of [...set]) {
+    try {
+      listener(event);
+    } catch (error) {
+      log.warn(`Vault event listener failed for ${event.vaultId}`, error);
+    }
+  }
+}
+
+// =============================================================================
+// Watcher Lifecycle
+// =============================================================================
+
+/**
+ * Starts watching a vault's content root. Idempotent.
+ *
+ * @param vault - Vault to watch
+ * @returns true if the vault is being watched after the call
+ */
+export function watchVault(vault: VaultInfo): boolean {
+  if (watches.has(vault.id)) {
+    return true;
+  }
+
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(vault.contentRoot, { recursive: true });
+  } catch (error) {
+    log.warn(`Failed to watch vault ${vault.id} at ${vault.contentRoot}`, error);
+    return false;
+  }
+
+  const state: VaultWatch = {
+    vaultId: vault.id,
+    contentRoot: vault.contentRoot,
+    watcher,
+    known: new Map(),
+    pending: new Set(),
+    flushTimer: null,
+    ready: Promise.resolve(),
+    flushing: Promise.resolve(),
+    closed: false,
+  };
+
+  // Start listening before the crawl so nothing is missed in between;
+  // flushes wait for `ready`.
+  watcher.on("change", (_eventType, filename) => {
+    if (filename === null) return;
+    onRawChange(state, String(filename));
+  });
+  watcher.on("error", (error) => {
+    log.warn(`Watcher error for vault ${vault.id}, stopping`, error);
+    unwatchVault(vault.id);
+  });
+
+  state.ready = crawl(state, "", []);
+  watches.set(vault.id, state);
+  log.info(`Watching vault ${vault.id}: ${vault.contentRoot}`);
+  return true;
+}
+
+/**
+ * Stops watching a vault. Pending changes are discarded.
+ *
+ * @param vaultId - Vault to stop watching
+ * @returns true if a watcher was stopped
+ */
+export function unwatchVault(vaultId: string): boolean {
+  const state = watches.get(vaultId);
+  if (!state) return false;
+
+  state.closed = true;
+  if (state.flushTimer) {
+    clearTimeout(state.flushTimer);
+    state.flushTimer = null;
+  }
+  state.watcher.close();
+  watches.delete(vaultId);
+  log.debug(`Stopped watching vault ${vaultId}`);
+  return true;
+}
+
+/**
+ * Returns whether a vault currently has an active watcher.
+ */
+export function isWatchingVault(vaultId: string): boolean {
+  return watches.has(vaultId);
+}
+
+/**
+ * Starts watchers for every discovered vault.
+ *
+ * @returns Number of vaults being watched
+ */
+export async function startVaultWatchers(): Promise<number> {
+  const vaults = await getVaults();
+  for (const vault of vaults) {
+    watchVault(vault);
+  }
+  return watches.size;
+}
+
+/**
+ * Stops all watchers. Subscribers are kept.
+ */
+export function stopVaultWatchers(): void {
+  for (const vaultId of [...watches.keys()]) {
+    unwatchVault(vaultId);
+  }
+}
+
+/**
+ * Waits until all pending changes for a vault have been processed.
+ * Intended for tests; events arriving later are not awaited.
+ *
+ * @param vaultId - Vault to wait for
+ */
+export async function flushVaultWatcher(vaultId: string): Promise<void> {
+  const state = watches.get(vaultId);
+  if (!state) return;
+  await state.ready;
+  if (state.flushTimer) {
+    clearTimeout(state.flushTimer);
+    state.flushTimer = null;
+    state.flushing = state.flushing.then(() => flush(state));
+  }
+  await state.flushing;
+}
+
+// =============================================================================
+// Internal Functions
+// =============================================================================
+
+/**
+ * Checks whether any segment of a relative path is hidden.
+ */
+function isHiddenPath(relativePath: string): boolean {
+  return relativePath.split("/").some((segment) => segment.startsWith("."));
+}
+
+function onRawChange(state: VaultWatch, filename: string): void {
+  if (state.closed) return;
+
+  const relativePath = filename.replace(/\\/g, "/").replace(/\/+$/, "");
+  if (!relativePath || isHiddenPath(relativePath)) {
+    return;
+  }
+
+  state.pending.add(relativePath);
+  if (state.flushTimer) {
+    clearTimeout(state.flushTimer);
+  }
+  state.flushTimer = setTimeout(() => {
+    state.flushTimer = null;
+    state.flushing = state.flushing.then(() => flush(state));
+  }, DEBOUNCE_MS);
+}
+
+/**
+ * Recursively records paths under a directory as known.
+ *
+ * @param state - Watcher state
+ * @param relativePath - Directory relative to contentRoot ("" for root)
+ * @param files - Collects newly found file paths
+ */
+async function crawl(state: VaultWatch, relativePath: string, files: string[]): Promise<void> {
+  let entries;
+  try {
+    entries = await readdir(join(state.contentRoot, relativePath), { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || entry.isSymbolicLink()) {
+      continue;
+    }
+    const entryPath = relativePath === "" ? entry.name : `${relativePath}/${entry.name}`;
+    if (entry.isDirectory()) {
+      state.known.set(entryPath, true);
+      await crawl(state, entryPath, files);
+    } else if (entry.isFile()) {
+      state.known.set(entryPath, false);
+      files.push(entryPath);
+    }
+  }
+}
+
+/**
+ * Drops a path and everything beneath it from the known set.
+ */
+function forget(state: VaultWatch, relativePath: string): void {
+  const prefix = `${relativePath}/`;
+  for (const path of [...state.known.keys()]) {
+    if (path === relativePath || path.startsWith(prefix)) {
+      state.known.delete(path);
+    }
+  }
+}
+
+/**
+ * Processes all pending paths for a vault: classifies each change,
+ * updates the search index, publishes events, and invalidates the
+ * vault cache when top-level entries changed.
+ */
+async function flush(state: VaultWatch): Promise<void> {
+  await state.ready;
+  if (state.closed || state.pending.size === 0) return;
+
+  // Parents sort before children, so a created directory is crawled
+  // before its contents are considered.
+  const paths = [...state.pending].sort();
+  state.pending.clear();
+
+  const createdDirs: string[] = [];
+  let topLevelChanged = false;
+
+  for (const path of paths) {
+    if (createdDirs.some((dir) => path.startsWith(`${dir}/`))) {
+      continue;
+    }
+
+    let stats;
+    try {
+      stats = await lstat(join(state.contentRoot, path));
+    } catch {
+      stats = null;
+    }
+    if (stats?.isSymbolicLink()) continue;
+
+    const wasKnown = state.known.has(path);
+    let type: VaultChangeType;
+    let isDirectory: boolean;
+    const newFiles: string[] = [];
+
+    if (!stats) {
+      if (!wasKnown) continue;
+      isDirectory = state.known.get(path) ?? false;
+      forget(state, path);
+      type = "file-deleted";
+    } else if (!wasKnown) {
+      isDirectory = stats.isDirectory();
+      state.known.set(path, isDirectory);
+      if (isDirectory) {
+        createdDirs.push(path);
+        await crawl(state, path, newFiles);
+      } else {
+        newFiles.push(path);
+      }
+      type = "file-created";
+    } else if (stats.isFile()) {
+      isDirectory = false;
+      newFiles.push(path);
+      type = "file-changed";
+    } else {
+      // Directory mtime changes; its entries report their own events
+      continue;
+    }
+
+    await updateSearchIndex(state.vaultId, type, path, newFiles);
+
+    if (!path.includes("/")) {
+      topLevelChanged = true;
+    }
+
+    publish({
+      type,
+      vaultId: state.vaultId,
+      path,
+      isDirectory,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  if (topLevelChanged) {
+    try {
+      await invalidateVaultCache();
+    } catch (error) {
+      log.warn("Failed to refresh vault cache after change", error);
+    }
+  }
+}
+
+/**
+ * Applies a change to the vault's cached search index, if one exists.
+ * Uncached vaults build a fresh index on their next search.
+ */
+async function updateSearchIndex(
+  vaultId: string,
+  type: VaultChangeType,
+  path: string,
+  files: string[]
+): Promise<void> {
+  const index = getCachedIndex(vaultId);
+  if (!index) return;
+
+  try {
+    if (type === "file-deleted") {
+      index.removeFile(path);
+      return;
+    }
+    for (const file of files) {
+      if (extname(file).toLowerCase() === ".md") {
+        await index.updateFile(file);
+      }
+    }
+  } catch (error) {
+    log.warn(`Failed to update search index for ${path}`, error);
+  }
+}
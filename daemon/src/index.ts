@@ -8,7 +8,8 @@
 
 import { createLogger } from "@memory-loop/shared";
 import { startServer } from "./server";
-import { initVaultCache } from "./vault";
+import { initVaultCache, getVaults } from "./vault";
+import { restoreActiveMeetings } from "./files/meeting-store";
 import { checkCwebpAvailability } from "./files/utils/image-converter";
 import { initializeSdkProvider } from "./sdk-provider";
 import {
@@ -21,6 +22,12 @@ import {
   stopScheduler as stopCardDiscoveryScheduler,
   getDiscoveryHourFromEnv,
 } from "./spaced-repetition/card-discovery-scheduler";
+import {
+  startScheduler as startTaskRolloverScheduler,
+  stopScheduler as stopTaskRolloverScheduler,
+  getRolloverHourFromEnv,
+} from "./files/task-rollover";
+import { startVaultWatchers, stopVaultWatchers } from "./files/vault-watcher";
 
 const log = createLogger("daemon");
 const startTime = Date.now();
@@ -43,6 +50,17 @@ initializeSdkProvider();
 // early requests hitting an empty cache.
 await initVaultCache();
 
+// Resume meetings that were active when the daemon last stopped, so their
+// captures keep going to the meeting file.
+try {
+  const resumed = await restoreActiveMeetings(await getVaults());
+  if (resumed > 0) {
+    log.info(`Resumed ${resumed} active meeting(s)`);
+  }
+} catch (error: unknown) {
+  log.error("Failed to restore active meetings", error);
+}
+
 // Check cwebp binary availability (REQ-IMAGE-WEBP-15)
 // Server continues regardless of result (REQ-IMAGE-WEBP-16)
 await checkCwebpAvailability();
@@ -71,6 +89,23 @@ try {
   log.error("Failed to start card discovery scheduler", error);
 }
 
+try {
+  const hour = getRolloverHourFromEnv();
+  await startTaskRolloverScheduler({ rolloverHour: hour });
+  log.info(`Task rollover scheduler started (daily at ${hour}:00)`);
+} catch (error: unknown) {
+  log.error("Failed to start task rollover scheduler", error);
+}
+
+// Watch vault content roots so external edits reach the search index and
+// connected clients without a rebuild.
+try {
+  const watched = await startVaultWatchers();
+  log.info(`Watching ${watched} vault(s) for changes`);
+} catch (error: unknown) {
+  log.error("Failed to start vault watchers", error);
+}
+
 const server = startServer({ socketPath, port, startTime });
 
 log.info("Memory Loop daemon started");
@@ -79,6 +114,8 @@ function shutdown() {
   log.info("Shutting down...");
   stopExtractionScheduler();
   stopCardDiscoveryScheduler();
+  stopTaskRolloverScheduler();
+  stopVaultWatchers();
   server.stop();
   process.exit(0);
 }
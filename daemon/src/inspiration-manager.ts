@@ -15,7 +15,7 @@
 import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
 import type { VaultInfo } from "@memory-loop/shared";
-import { DEFAULT_MAX_POOL_SIZE } from "@memory-loop/shared";
+import { DEFAULT_MAX_POOL_SIZE, getDailyNotePath } from "@memory-loop/shared";
 import { getSdkQuery, type QueryFunction } from "./sdk-provider";
 import { createLogger } from "@memory-loop/shared";
 
@@ -324,7 +324,7 @@ export function getDateWithOffset(baseDate: Date, dayOffset: number): Date {
 }
 
 /**
- * Read a daily note file from the inbox
+ * Read a daily note file, using the vault's daily note folder and format
  *
  * @param vault - VaultInfo object
  * @param dateStr - Date string in YYYY-MM-DD format
@@ -334,7 +334,8 @@ export async function readDailyNote(
   vault: VaultInfo,
   dateStr: string
 ): Promise<string | null> {
-  const filePath = join(vault.contentRoot, vault.inboxPath, `${dateStr}.md`);
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const filePath = getDailyNotePath(vault, new Date(year, month - 1, day));
   try {
     return await readFile(filePath, "utf-8");
   } catch {
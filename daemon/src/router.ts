@@ -30,6 +30,14 @@ import {
   deleteDirectoryHandler,
   uploadFileHandler,
   getGoalsHandler,
+  listFileHistoryHandler,
+  diffFileHistoryHandler,
+  readFileVersionHandler,
+  restoreFileVersionHandler,
+  listTrashHandler,
+  restoreTrashItemHandler,
+  deleteTrashItemHandler,
+  emptyTrashHandler,
 } from "./routes/files";
 import {
   captureHandler,
@@ -44,13 +52,38 @@ import {
 import {
   listTasksHandler,
   toggleTaskHandler,
+  createTaskHandler,
+  editTaskHandler,
+  deleteTaskHandler,
+  moveTaskHandler,
+  rolloverTasksHandler,
 } from "./routes/tasks";
-import { dailyPrepTodayHandler } from "./routes/daily-prep";
+import {
+  dailyPrepTodayHandler,
+  createDailyPrepHandler,
+  updateDailyPrepHandler,
+  addCommitmentHandler,
+  updateCommitmentHandler,
+  removeCommitmentHandler,
+  closeDailyPrepHandler,
+  dailyPrepHistoryHandler,
+} from "./routes/daily-prep";
 import {
   searchFilesHandler,
   searchContentHandler,
   getSnippetsHandler,
+  searchAllFilesHandler,
+  searchAllContentHandler,
+  indexAllHandler,
 } from "./routes/search";
+import {
+  getBacklinksHandler,
+  getOutgoingLinksHandler,
+  getUnresolvedLinksHandler,
+  getUnlinkedMentionsHandler,
+} from "./routes/links";
+import { lintVaultHandler, fixVaultLintHandler } from "./routes/lint";
+import { vaultEventsHandler } from "./routes/events";
 import {
   initTranscriptHandler,
   appendTranscriptHandler,
@@ -66,9 +99,11 @@ import {
 } from "./routes/extraction";
 import {
   dueCardsHandler,
+  cardStatsHandler,
   cardDetailHandler,
   cardReviewHandler,
   cardArchiveHandler,
+  fsrsOptimizeHandler,
 } from "./routes/cards";
 import {
   cardGeneratorConfigGetHandler,
@@ -112,6 +147,15 @@ export function registerRoutes(app: Hono, startTime: number): void {
   // File routes (specific paths before catch-all)
   app.get("/vaults/:id/files", (c) => listFilesHandler(c));
   app.post("/vaults/:id/files", (c) => createFileHandler(c));
+
+  // File history (the path must end in a text extension so a folder named
+  // "history" still reads through the catch-all; diff before :versionId)
+  const historyPath = "/vaults/:id/files/:path{.+\\.(?:md|json|txt|csv|tsv)}/history";
+  app.get(historyPath, (c) => listFileHistoryHandler(c));
+  app.get(`${historyPath}/diff`, (c) => diffFileHistoryHandler(c));
+  app.get(`${historyPath}/:versionId`, (c) => readFileVersionHandler(c));
+  app.post(`${historyPath}/:versionId/restore`, (c) => restoreFileVersionHandler(c));
+
   app.get("/vaults/:id/files/*", (c) => readFileHandler(c));
   app.put("/vaults/:id/files/*", (c) => writeFileHandler(c));
   app.patch("/vaults/:id/files/*", (c) => patchFileHandler(c));
@@ -122,6 +166,12 @@ export function registerRoutes(app: Hono, startTime: number): void {
   app.get("/vaults/:id/directories/*", (c) => getDirectoryContentsHandler(c));
   app.delete("/vaults/:id/directories/*", (c) => deleteDirectoryHandler(c));
 
+  // Trash (deleted files and directories, restorable until purged)
+  app.get("/vaults/:id/trash", (c) => listTrashHandler(c));
+  app.delete("/vaults/:id/trash", (c) => emptyTrashHandler(c));
+  app.post("/vaults/:id/trash/:itemId/restore", (c) => restoreTrashItemHandler(c));
+  app.delete("/vaults/:id/trash/:itemId", (c) => deleteTrashItemHandler(c));
+
   // Assets (binary file serving)
   app.get("/vaults/:id/assets/*", (c) => assetHandler(c));
 
@@ -144,14 +194,42 @@ export function registerRoutes(app: Hono, startTime: number): void {
   // Tasks
   app.get("/vaults/:id/tasks", (c) => listTasksHandler(c));
   app.patch("/vaults/:id/tasks", (c) => toggleTaskHandler(c));
+  app.post("/vaults/:id/tasks", (c) => createTaskHandler(c));
+  app.put("/vaults/:id/tasks", (c) => editTaskHandler(c));
+  app.delete("/vaults/:id/tasks", (c) => deleteTaskHandler(c));
+  app.post("/vaults/:id/tasks/move", (c) => moveTaskHandler(c));
+  app.post("/vaults/:id/tasks/rollover", (c) => rolloverTasksHandler(c));
 
   // Daily prep
   app.get("/vaults/:id/daily-prep/today", (c) => dailyPrepTodayHandler(c));
+  app.post("/vaults/:id/daily-prep/today", (c) => createDailyPrepHandler(c));
+  app.patch("/vaults/:id/daily-prep/today", (c) => updateDailyPrepHandler(c));
+  app.post("/vaults/:id/daily-prep/today/commitments", (c) => addCommitmentHandler(c));
+  app.patch("/vaults/:id/daily-prep/today/commitments/:index", (c) => updateCommitmentHandler(c));
+  app.delete("/vaults/:id/daily-prep/today/commitments/:index", (c) => removeCommitmentHandler(c));
+  app.post("/vaults/:id/daily-prep/today/closure", (c) => closeDailyPrepHandler(c));
+  app.get("/vaults/:id/daily-prep/history", (c) => dailyPrepHistoryHandler(c));
 
   // Search
   app.get("/vaults/:id/search/files", (c) => searchFilesHandler(c));
   app.get("/vaults/:id/search/content", (c) => searchContentHandler(c));
   app.get("/vaults/:id/search/snippets", (c) => getSnippetsHandler(c));
+  app.get("/search/files", (c) => searchAllFilesHandler(c));
+  app.get("/search/content", (c) => searchAllContentHandler(c));
+  app.post("/search/index", (c) => indexAllHandler(c));
+
+  // Links
+  app.get("/vaults/:id/links/backlinks", (c) => getBacklinksHandler(c));
+  app.get("/vaults/:id/links/outgoing", (c) => getOutgoingLinksHandler(c));
+  app.get("/vaults/:id/links/unresolved", (c) => getUnresolvedLinksHandler(c));
+  app.get("/vaults/:id/links/unlinked", (c) => getUnlinkedMentionsHandler(c));
+
+  // Lint
+  app.get("/vaults/:id/lint", (c) => lintVaultHandler(c));
+  app.post("/vaults/:id/lint/fix", (c) => fixVaultLintHandler(c));
+
+  // Live file change events (SSE)
+  app.get("/vaults/:id/events", (c) => vaultEventsHandler(c));
 
   // Transcripts
   app.post("/vaults/:id/transcripts", (c) => initTranscriptHandler(c));
@@ -168,6 +246,8 @@ export function registerRoutes(app: Hono, startTime: number): void {
 
   // Card routes (vault-scoped)
   app.get("/vaults/:id/cards/due", (c) => dueCardsHandler(c));
+  app.get("/vaults/:id/cards/stats", (c) => cardStatsHandler(c));
+  app.post("/vaults/:id/cards/fsrs/optimize", (c) => fsrsOptimizeHandler(c));
   app.get("/vaults/:id/cards/:cardId", (c) => cardDetailHandler(c));
   app.post("/vaults/:id/cards/:cardId/review", (c) => cardReviewHandler(c));
   app.post("/vaults/:id/cards/:cardId/archive", (c) => cardArchiveHandler(c));
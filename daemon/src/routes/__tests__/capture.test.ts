@@ -1,15 +1,17 @@
 /**
  * Capture Route Tests
  *
- * Tests for GET /vaults/:id/recent-activity returning discussions.
+ * Tests for GET /vaults/:id/recent-activity returning discussions, and
+ * POST /vaults/:id/capture to named capture targets and with client timestamps.
  */
 
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { mkdir, writeFile, rm } from "node:fs/promises";
+import { mkdir, writeFile, readFile, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir as osTmpdir } from "node:os";
 import { createApp } from "../../server";
 import { resetCache } from "../../vault";
+import { clearAllMeetings } from "../../files/meeting-store";
 import type { SessionMetadata, RecentDiscussionEntry } from "@memory-loop/shared";
 
 function tmpdir(): string {
@@ -116,3 +118,97 @@ describe("GET /vaults/:id/recent-activity", () => {
     expect(response.status).toBe(404);
   });
 });
+
+describe("POST /vaults/:id/capture with a target", () => {
+  beforeEach(async () => {
+    await writeFile(
+      join(vaultDir, ".memory-loop.json"),
+      JSON.stringify({
+        captureTargets: [
+          { name: "Reading list", path: "Lists/reading", heading: "To Read", format: "- [ ] {{text}}" },
+        ],
+      }),
+    );
+    resetCache();
+  });
+
+  async function capture(body: unknown): Promise<Response> {
+    const app = createApp(Date.now());
+    return await app.request("/vaults/test-vault/capture", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  test("captures to the named target", async () => {
+    const response = await capture({ text: "Dune", target: "reading list" });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { target: string; targetName: string };
+    expect(body.target).toBe("custom");
+    expect(body.targetName).toBe("Reading list");
+
+    const content = await readFile(join(vaultDir, "Lists", "reading.md"), "utf-8");
+    expect(content).toBe("## To Read\n\n- [ ] Dune\n");
+  });
+
+  test("returns 404 for an unknown target", async () => {
+    const response = await capture({ text: "Dune", target: "Ideas" });
+
+    expect(response.status).toBe(404);
+    const body = (await response.json()) as { code: string };
+    expect(body.code).toBe("TARGET_NOT_FOUND");
+  });
+});
+
+describe("POST /vaults/:id/capture with a timestamp", () => {
+  afterEach(() => {
+    clearAllMeetings();
+  });
+
+  async function post(path: string, body: unknown): Promise<Response> {
+    const app = createApp(Date.now());
+    return await app.request(`/vaults/test-vault${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  test("captures to the daily note of the timestamp's day", async () => {
+    const written = new Date(2026, 9, 18, 8, 30);
+    const response = await post("/capture", { text: "On the train", timestamp: written.toISOString() });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { target: string; timestamp: string; notePath: string };
+    expect(body.target).toBe("daily");
+    expect(body.timestamp).toBe(written.toISOString());
+    expect(body.notePath).toContain("2026-10-18");
+
+    const content = await readFile(body.notePath, "utf-8");
+    expect(content).toContain("- [08:30] On the train");
+  });
+
+  test("sends captures from before the active meeting to the daily note", async () => {
+    const started = await post("/meetings", { title: "Standup" });
+    expect(started.status).toBe(201);
+
+    const response = await post("/capture", {
+      text: "Written before the meeting",
+      timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { target: string };
+    expect(body.target).toBe("daily");
+  });
+
+  test("returns 400 for an invalid timestamp", async () => {
+    const response = await post("/capture", { text: "Hello", timestamp: "yesterday" });
+
+    expect(response.status).toBe(400);
+    const body = (await response.json()) as { code: string };
+    expect(body.code).toBe("INVALID_REQUEST");
+  });
+});
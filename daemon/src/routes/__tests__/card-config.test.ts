@@ -37,6 +37,7 @@ describe("GET /config/card-generator", () => {
     expect(typeof body.isOverride).toBe("boolean");
     expect(typeof body.weeklyByteLimit).toBe("number");
     expect(typeof body.weeklyBytesUsed).toBe("number");
+    expect(typeof body.clozeCards).toBe("boolean");
   });
 });
 
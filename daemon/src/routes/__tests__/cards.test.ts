@@ -1,15 +1,17 @@
 /**
  * Card Route Tests
  *
- * Tests for vault-scoped card endpoints: due, detail, review, archive.
+ * Tests for vault-scoped card endpoints: due, stats, detail, review,
+ * archive, and FSRS optimization.
  */
 
 import { describe, test, expect, beforeEach, afterEach } from "bun:test";
-import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { mkdtemp, mkdir, writeFile, readFile, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { createApp } from "../../server";
 import { initVaultCache, resetCache } from "../../vault/vault-cache";
+import { createClozeCards, createNewCardMetadata, serializeCard } from "../../spaced-repetition";
 
 let app: ReturnType<typeof createApp>;
 let tempDir: string;
@@ -63,6 +65,76 @@ describe("GET /vaults/:id/cards/due", () => {
     const response = await app.request("/vaults/nonexistent/cards/due");
     expect(response.status).toBe(404);
   });
+
+  test("includes the cloze text for cloze cards", async () => {
+    const created = await createClozeCards(
+      { contentRoot: vaultDir, metadataPath: "06_Metadata/memory-loop" },
+      { text: "{{c1::Paris}} is the capital of France." },
+      "2026-01-10"
+    );
+    expect(created.success).toBe(true);
+
+    const response = await app.request(`/vaults/${vaultId}/cards/due`);
+    const body = await response.json() as { cards: Array<Record<string, unknown>> };
+    expect(body.cards[0]).toMatchObject({
+      type: "cloze",
+      question: "[...] is the capital of France.",
+      cloze_text: "{{c1::Paris}} is the capital of France.",
+      cloze_index: 1,
+    });
+
+    const detail = await app.request(`/vaults/${vaultId}/cards/${body.cards[0].id as string}`);
+    const detailBody = await detail.json() as Record<string, unknown>;
+    expect(detailBody).toMatchObject({
+      type: "cloze",
+      answer: "**Paris** is the capital of France.",
+      cloze_index: 1,
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /vaults/:id/cards/stats
+// ---------------------------------------------------------------------------
+
+describe("GET /vaults/:id/cards/stats", () => {
+  test("returns empty stats for a vault without reviews", async () => {
+    const response = await app.request(`/vaults/${vaultId}/cards/stats`);
+    expect(response.status).toBe(200);
+
+    const body = await response.json() as {
+      summary: { totalCards: number; recentReviews: number; recentRetention: number | null };
+      daily: unknown[];
+      retention: unknown[];
+      forecast: Array<{ due: number }>;
+      heatmap: unknown[];
+    };
+    expect(body.summary).toMatchObject({ totalCards: 0, recentReviews: 0, recentRetention: null });
+    expect(body.daily).toHaveLength(30);
+    expect(body.retention).toHaveLength(5);
+    expect(body.forecast).toHaveLength(30);
+    expect(body.forecast.every((day) => day.due === 0)).toBe(true);
+    expect(body.heatmap).toHaveLength(365);
+  });
+
+  test("counts cards in the forecast", async () => {
+    const cardsDir = join(vaultDir, "06_Metadata/memory-loop/cards");
+    await mkdir(cardsDir, { recursive: true });
+    const card = {
+      metadata: createNewCardMetadata("550e8400-e29b-41d4-a716-446655440000", "2026-01-10"),
+      content: { question: "Overdue?", answer: "Yes" },
+    };
+    await writeFile(join(cardsDir, `${card.metadata.id}.md`), serializeCard(card));
+
+    const response = await app.request(`/vaults/${vaultId}/cards/stats`);
+    const body = await response.json() as { summary: { totalCards: number; dueToday: number } };
+    expect(body.summary).toMatchObject({ totalCards: 1, dueToday: 1 });
+  });
+
+  test("returns 404 for unknown vault", async () => {
+    const response = await app.request("/vaults/nonexistent/cards/stats");
+    expect(response.status).toBe(404);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -132,6 +204,76 @@ describe("POST /vaults/:id/cards/:cardId/review", () => {
     expect(body.error.message).toContain("again, hard, good, easy");
   });
 
+  test("rejects an invalid timestamp", async () => {
+    const response = await app.request(
+      `/vaults/${vaultId}/cards/${cardId}/review`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response: "good", timestamp: "yesterday" }),
+      },
+    );
+    expect(response.status).toBe(400);
+
+    const body = await response.json() as { error: { message: string } };
+    expect(body.error.message).toContain("timestamp");
+  });
+
+  test("schedules with FSRS when the vault uses it and logs the review", async () => {
+    await writeFile(join(vaultDir, ".memory-loop.json"), JSON.stringify({ reviewAlgorithm: "fsrs" }));
+    resetCache();
+    await initVaultCache();
+
+    const cardsDir = join(vaultDir, "06_Metadata/memory-loop/cards");
+    await mkdir(cardsDir, { recursive: true });
+    const card = {
+      metadata: createNewCardMetadata(cardId, "2026-01-10"),
+      content: { question: "What is FSRS?", answer: "A scheduler" },
+    };
+    await writeFile(join(cardsDir, `${cardId}.md`), serializeCard(card));
+
+    const response = await app.request(
+      `/vaults/${vaultId}/cards/${cardId}/review`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response: "good", timestamp: "2026-01-10T09:00:00.000Z", timeToAnswerMs: 4200.4 }),
+      },
+    );
+    expect(response.status).toBe(200);
+
+    const body = await response.json() as { interval: number; stability?: number; difficulty?: number };
+    expect(body.stability).toBeGreaterThan(0);
+    expect(body.difficulty).toBeGreaterThanOrEqual(1);
+    expect(body.interval).toBe(3);
+
+    const reviewLog = await readFile(join(cardsDir, "review-log.jsonl"), "utf-8");
+    expect(JSON.parse(reviewLog.trim())).toMatchObject({
+      card_id: cardId,
+      response: "good",
+      timestamp: "2026-01-10T09:00:00.000Z",
+      elapsed_days: null,
+      previous_interval: 0,
+      interval: 3,
+      time_to_answer_ms: 4200,
+    });
+  });
+
+  test("rejects a negative timeToAnswerMs", async () => {
+    const response = await app.request(
+      `/vaults/${vaultId}/cards/${cardId}/review`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response: "good", timeToAnswerMs: -5 }),
+      },
+    );
+    expect(response.status).toBe(400);
+
+    const body = await response.json() as { error: { message: string } };
+    expect(body.error.message).toContain("timeToAnswerMs");
+  });
+
   test("rejects invalid card ID format", async () => {
     const response = await app.request(
       `/vaults/${vaultId}/cards/bad-id/review`,
@@ -166,3 +308,23 @@ describe("POST /vaults/:id/cards/:cardId/archive", () => {
     expect(response.status).toBe(400);
   });
 });
+
+// ---------------------------------------------------------------------------
+// POST /vaults/:id/cards/fsrs/optimize
+// ---------------------------------------------------------------------------
+
+describe("POST /vaults/:id/cards/fsrs/optimize", () => {
+  test("rejects a vault without enough logged reviews", async () => {
+    const response = await app.request(`/vaults/${vaultId}/cards/fsrs/optimize`, { method: "POST" });
+    expect(response.status).toBe(400);
+
+    const body = await response.json() as { error: { code: string; message: string } };
+    expect(body.error.code).toBe("INSUFFICIENT_REVIEWS");
+    expect(body.error.message).toContain("0 of 100");
+  });
+
+  test("returns 404 for an unknown vault", async () => {
+    const response = await app.request("/vaults/missing/cards/fsrs/optimize", { method: "POST" });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Daily Prep Route Tests
+ *
+ * Tests writing today's prep through the REST API: the morning create,
+ * commitment edits, and evening closure, plus the error statuses.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, readFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir as osTmpdir } from "node:os";
+import { createApp } from "../../server";
+import { resetCache } from "../../vault";
+import { formatDateAsYYYYMMDD, type DailyPrepStatus } from "../../files/daily-prep-manager";
+
+function tmpdir(): string {
+  return process.env.TMPDIR ?? osTmpdir();
+}
+
+let testDir: string;
+let vaultDir: string;
+let originalVaultsDir: string | undefined;
+
+beforeEach(async () => {
+  originalVaultsDir = process.env.VAULTS_DIR;
+
+  testDir = join(tmpdir(), `daily-prep-route-test-${Date.now()}`);
+  vaultDir = join(testDir, "test-vault");
+
+  await mkdir(join(vaultDir, "00_Inbox"), { recursive: true });
+  await writeFile(join(vaultDir, "CLAUDE.md"), "# Test Vault\n");
+
+  process.env.VAULTS_DIR = testDir;
+  resetCache();
+});
+
+afterEach(async () => {
+  if (originalVaultsDir !== undefined) {
+    process.env.VAULTS_DIR = originalVaultsDir;
+  } else {
+    delete process.env.VAULTS_DIR;
+  }
+  resetCache();
+  await rm(testDir, { recursive: true, force: true });
+});
+
+function send(app: ReturnType<typeof createApp>, method: string, path: string, body?: unknown) {
+  return app.request(`/vaults/test-vault/daily-prep/today${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function prepFile(): string {
+  return join(vaultDir, "00_Inbox", "daily-prep", `${formatDateAsYYYYMMDD(new Date())}.md`);
+}
+
+describe("POST /vaults/:id/daily-prep/today", () => {
+  test("creates today's prep and returns its status", async () => {
+    const app = createApp(Date.now());
+    const response = await send(app, "POST", "", {
+      energy: "sharp",
+      calendar: "clear",
+      commitments: ["Review the PR", "Write the ADR"],
+    });
+
+    expect(response.status).toBe(201);
+    const status = (await response.json()) as DailyPrepStatus;
+    expect(status).toMatchObject({
+      exists: true,
+      energy: "sharp",
+      calendar: "clear",
+      commitment: ["Review the PR", "Write the ADR"],
+    });
+
+    const content = await readFile(prepFile(), "utf-8");
+    expect(content).toContain('  - text: "Review the PR"');
+    expect(content).toContain("1. Review the PR");
+  });
+
+  test("returns 409 when today's prep already exists", async () => {
+    const app = createApp(Date.now());
+    await send(app, "POST", "", { commitments: ["One"] });
+
+    const response = await send(app, "POST", "", { commitments: ["Two"] });
+
+    expect(response.status).toBe(409);
+    expect(((await response.json()) as { code: string }).code).toBe("DAILY_PREP_EXISTS");
+  });
+
+  test("rejects unknown energy levels", async () => {
+    const app = createApp(Date.now());
+    const response = await send(app, "POST", "", { energy: "wired" });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("commitment routes", () => {
+  test("adds, edits, and removes commitments", async () => {
+    const app = createApp(Date.now());
+    await send(app, "POST", "", { commitments: ["First"] });
+
+    let response = await send(app, "POST", "/commitments", { text: "Second" });
+    expect(response.status).toBe(200);
+
+    response = await send(app, "PATCH", "/commitments/1", { assessment: "blocked", note: "Waiting on legal" });
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as DailyPrepStatus).commitmentItems?.[1]).toEqual({
+      text: "Second",
+      assessment: "blocked",
+      note: "Waiting on legal",
+    });
+
+    response = await send(app, "DELETE", "/commitments/0");
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as DailyPrepStatus).commitment).toEqual(["Second"]);
+  });
+
+  test("returns 404 without a prep or for a missing commitment", async () => {
+    const app = createApp(Date.now());
+    expect((await send(app, "POST", "/commitments", { text: "Orphan" })).status).toBe(404);
+
+    await send(app, "POST", "", { commitments: ["Only"] });
+    expect((await send(app, "PATCH", "/commitments/3", { assessment: "done" })).status).toBe(404);
+    expect((await send(app, "DELETE", "/commitments/abc")).status).toBe(400);
+  });
+});
+
+describe("POST /vaults/:id/daily-prep/today/closure", () => {
+  test("records assessments and the reflection", async () => {
+    const app = createApp(Date.now());
+    await send(app, "POST", "", { energy: "low", commitments: ["Inbox zero", "Call the bank"] });
+
+    const response = await send(app, "POST", "/closure", {
+      reflection: "Slow day.",
+      assessments: [{ assessment: "done" }, { assessment: "skipped", note: "Closed early" }],
+    });
+
+    expect(response.status).toBe(200);
+    const status = (await response.json()) as DailyPrepStatus;
+    expect(status.commitmentItems?.map((item) => item.assessment)).toEqual(["done", "skipped"]);
+    expect(status.closure?.reflection).toBe("Slow day.");
+
+    const content = await readFile(prepFile(), "utf-8");
+    expect(content).toContain("- Call the bank: Skipped. Closed early");
+    expect(content).toContain("**Reflection**: Slow day.");
+  });
+
+  test("rejects more assessments than commitments", async () => {
+    const app = createApp(Date.now());
+    await send(app, "POST", "", { commitments: ["Only"] });
+
+    const response = await send(app, "POST", "/closure", {
+      reflection: "",
+      assessments: [{ assessment: "done" }, { assessment: "done" }],
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("GET /vaults/:id/daily-prep/history", () => {
+  test("aggregates preps in the range", async () => {
+    const prepDir = join(vaultDir, "00_Inbox", "daily-prep");
+    await mkdir(prepDir, { recursive: true });
+    await writeFile(
+      join(prepDir, "2026-10-05.md"),
+      `---\ndate: 2026-10-05\nenergy: sharp\ncommitment:\n  - text: "Ship"\n    assessment: done\n---\n`,
+    );
+
+    const app = createApp(Date.now());
+    const response = await app.request("/vaults/test-vault/daily-prep/history?from=2026-10-01&to=2026-10-31");
+
+    expect(response.status).toBe(200);
+    const history = (await response.json()) as {
+      from: string;
+      to: string;
+      days: Array<{ date: string }>;
+      byEnergy: Record<string, { completionRate: number | null }>;
+    };
+    expect(history.from).toBe("2026-10-01");
+    expect(history.days.map((d) => d.date)).toEqual(["2026-10-05"]);
+    expect(history.byEnergy.sharp.completionRate).toBe(1);
+  });
+
+  test("defaults to the last 90 days", async () => {
+    const app = createApp(Date.now());
+    const response = await app.request("/vaults/test-vault/daily-prep/history?to=2026-10-19");
+
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as { from: string }).from).toBe("2026-07-22");
+  });
+
+  test("rejects invalid dates and reversed ranges", async () => {
+    const app = createApp(Date.now());
+
+    expect((await app.request("/vaults/test-vault/daily-prep/history?from=2026-02-30")).status).toBe(400);
+    expect((await app.request("/vaults/test-vault/daily-prep/history?from=2026-10-05&to=2026-10-01")).status).toBe(400);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Vault Events Route Tests
+ *
+ * Tests for GET /vaults/:id/events (SSE file change stream).
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir as osTmpdir } from "node:os";
+import { createApp } from "../../server";
+import { resetCache } from "../../vault";
+import { stopVaultWatchers, flushVaultWatcher, getSubscriberCount } from "../../files/vault-watcher";
+import type { VaultChangeEvent } from "@memory-loop/shared";
+
+function tmpdir(): string {
+  return process.env.TMPDIR ?? osTmpdir();
+}
+
+let testDir: string;
+let vaultDir: string;
+let originalVaultsDir: string | undefined;
+
+beforeEach(async () => {
+  originalVaultsDir = process.env.VAULTS_DIR;
+
+  testDir = join(tmpdir(), `events-route-test-${Date.now()}`);
+  vaultDir = join(testDir, "test-vault");
+
+  await mkdir(join(vaultDir, "00_Inbox"), { recursive: true });
+  await writeFile(join(vaultDir, "CLAUDE.md"), "# Test Vault\n");
+
+  process.env.VAULTS_DIR = testDir;
+  resetCache();
+});
+
+afterEach(async () => {
+  stopVaultWatchers();
+  if (originalVaultsDir !== undefined) {
+    process.env.VAULTS_DIR = originalVaultsDir;
+  } else {
+    delete process.env.VAULTS_DIR;
+  }
+  resetCache();
+  await rm(testDir, { recursive: true, force: true });
+});
+
+/**
+ * Reads from an SSE body until a data event arrives.
+ */
+async function readEvent(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<VaultChangeEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) throw new Error("Stream ended before an event arrived");
+    buffer += decoder.decode(value, { stream: true });
+    const line = buffer.split("\n").find((l) => l.startsWith("data: "));
+    if (line) {
+      return JSON.parse(line.slice(6)) as VaultChangeEvent;
+    }
+  }
+}
+
+describe("GET /vaults/:id/events", () => {
+  test("returns 404 for unknown vault", async () => {
+    const app = createApp(Date.now());
+    const res = await app.request("/vaults/nope/events");
+    expect(res.status).toBe(404);
+    const body = (await res.json()) as { code: string };
+    expect(body.code).toBe("VAULT_NOT_FOUND");
+  });
+
+  test("streams file change events", async () => {
+    const app = createApp(Date.now());
+    const controller = new AbortController();
+    const res = await app.request("/vaults/test-vault/events", { signal: controller.signal });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+
+    const reader = res.body!.getReader();
+    await flushVaultWatcher("test-vault");
+    await writeFile(join(vaultDir, "00_Inbox", "note.md"), "hello");
+
+    const event = await readEvent(reader);
+    expect(event).toMatchObject({
+      type: "file-created",
+      vaultId: "test-vault",
+      path: "00_Inbox/note.md",
+    });
+
+    await reader.cancel();
+    controller.abort();
+    expect(getSubscriberCount("test-vault")).toBe(0);
+  });
+});
@@ -1,16 +1,22 @@
 /**
  * Capture API route handlers.
  *
- * Handles text capture (to daily notes or active meetings),
- * recent notes retrieval, and recent activity.
+ * Handles text capture (to daily notes, named capture targets, or active
+ * meetings), recent notes retrieval, and recent activity.
  */
 
 import type { Context } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { parseClientTimestamp } from "@memory-loop/shared";
 import { getCachedVaultById } from "../vault";
-import { captureToDaily, getRecentNotes } from "../files/note-capture";
+import { captureToDaily, captureToTarget, getRecentNotes } from "../files/note-capture";
 import { captureToMeeting } from "../files/meeting-capture";
-import { getActiveMeeting, incrementMeetingEntryCount } from "../files/meeting-store";
+import {
+  getActiveMeeting,
+  incrementMeetingEntryCount,
+  persistActiveMeeting,
+  stopStaleMeeting,
+} from "../files/meeting-store";
 import { getRecentSessions } from "../session-manager";
 
 function jsonError(
@@ -26,8 +32,15 @@ function jsonError(
 /**
  * POST /vaults/:id/capture - Capture text.
  *
- * If a meeting is active for this vault, routes to the meeting file.
- * Otherwise captures to the daily note.
+ * With a `target`, captures to the vault's capture target of that name.
+ * Otherwise, if a meeting is active for this vault, routes to the meeting
+ * file, and falls back to the daily note. A meeting that has gone stale is
+ * stopped first; the response's `meetingEnded` then names it.
+ *
+ * An optional `timestamp` (ISO 8601 or epoch milliseconds) dates the entry
+ * when it was written rather than when it arrived, so captures queued
+ * offline land in the right daily note. A queued capture from before the
+ * active meeting started goes to the daily note instead of the meeting.
  */
 export async function captureHandler(c: Context): Promise<Response> {
   const vaultId = c.req.param("id") ?? "";
@@ -52,24 +65,57 @@ export async function captureHandler(c: Context): Promise<Response> {
     return jsonError(c, "text must be a non-empty string", "INVALID_REQUEST", 400);
   }
 
-  // Check for active meeting
+  const date = parseClientTimestamp((body as { timestamp?: unknown }).timestamp);
+  if (date === null) {
+    return jsonError(c, "timestamp must be an ISO 8601 string or epoch milliseconds", "INVALID_REQUEST", 400);
+  }
+
+  const { target: targetName } = body as { target?: unknown };
+  if (targetName !== undefined) {
+    if (typeof targetName !== "string" || targetName.trim().length === 0) {
+      return jsonError(c, "target must be a non-empty string", "INVALID_REQUEST", 400);
+    }
+    const wanted = targetName.trim().toLowerCase();
+    const target = (vault.captureTargets ?? []).find((t) => t.name.toLowerCase() === wanted);
+    if (!target) {
+      return jsonError(c, `Unknown capture target: ${targetName}`, "TARGET_NOT_FOUND", 404);
+    }
+
+    const result = await captureToTarget(vault, target, text, date);
+    if (!result.success) {
+      return jsonError(c, result.error ?? "Capture failed", "CAPTURE_FAILED", 500);
+    }
+    return c.json({ ...result, target: "custom", targetName: target.name });
+  }
+
+  // Check for active meeting, stopping it first if it has gone stale
+  const staleMeeting = await stopStaleMeeting(vault);
   const activeMeeting = getActiveMeeting(vaultId);
-  if (activeMeeting) {
-    const result = await captureToMeeting(activeMeeting, text);
+  const beforeMeeting =
+    activeMeeting !== null && date !== undefined && date.getTime() < Date.parse(activeMeeting.startedAt);
+  if (activeMeeting && !beforeMeeting) {
+    const result = await captureToMeeting(activeMeeting, text, date);
     if (!result.success) {
       return jsonError(c, result.error ?? "Capture failed", "CAPTURE_FAILED", 500);
     }
     incrementMeetingEntryCount(vaultId);
+    // Capturing again is acknowledgement enough that the meeting resumed
+    delete activeMeeting.resumedAt;
+    await persistActiveMeeting(vault);
     return c.json({ ...result, target: "meeting" });
   }
 
   // Capture to daily note
-  const result = await captureToDaily(vault, text);
+  const result = await captureToDaily(vault, text, date);
   if (!result.success) {
     return jsonError(c, result.error ?? "Capture failed", "CAPTURE_FAILED", 500);
   }
 
-  return c.json({ ...result, target: "daily" });
+  return c.json({
+    ...result,
+    target: "daily",
+    ...(staleMeeting ? { meetingEnded: staleMeeting.title } : {}),
+  });
 }
 
 /**
@@ -7,11 +7,13 @@
 
 import type { Context } from "hono";
 import {
+  loadCardGeneratorConfig,
   saveCardGeneratorConfig,
   loadRequirements,
   saveRequirementsOverride,
   deleteRequirementsOverride,
   getDefaultRequirements,
+  type CardGeneratorConfig,
 } from "../spaced-repetition/card-generator-config";
 import {
   isGenerationRunning,
@@ -25,9 +27,10 @@ import {
 
 export async function cardGeneratorConfigGetHandler(c: Context): Promise<Response> {
   try {
-    const [requirementsInfo, usage] = await Promise.all([
+    const [requirementsInfo, usage, config] = await Promise.all([
       loadRequirements(),
       getWeeklyUsage(),
+      loadCardGeneratorConfig(),
     ]);
 
     return c.json({
@@ -35,6 +38,7 @@ export async function cardGeneratorConfigGetHandler(c: Context): Promise<Respons
       isOverride: requirementsInfo.isOverride,
       weeklyByteLimit: usage.byteLimit,
       weeklyBytesUsed: usage.bytesUsed,
+      clozeCards: config.clozeCards,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to get config";
@@ -48,19 +52,27 @@ export async function cardGeneratorConfigGetHandler(c: Context): Promise<Respons
 
 export async function cardGeneratorConfigPutHandler(c: Context): Promise<Response> {
   try {
-    const body: { requirements?: unknown; weeklyByteLimit?: unknown } = await c.req.json();
+    const body: { requirements?: unknown; weeklyByteLimit?: unknown; clozeCards?: unknown } = await c.req.json();
 
     if (typeof body.requirements === "string") {
       await saveRequirementsOverride(body.requirements);
     }
 
+    const changes: Partial<CardGeneratorConfig> = {};
     if (typeof body.weeklyByteLimit === "number") {
-      await saveCardGeneratorConfig({ weeklyByteLimit: body.weeklyByteLimit });
+      changes.weeklyByteLimit = body.weeklyByteLimit;
+    }
+    if (typeof body.clozeCards === "boolean") {
+      changes.clozeCards = body.clozeCards;
+    }
+    if (Object.keys(changes).length > 0) {
+      await saveCardGeneratorConfig(changes);
     }
 
-    const [requirementsInfo, usage] = await Promise.all([
+    const [requirementsInfo, usage, config] = await Promise.all([
       loadRequirements(),
       getWeeklyUsage(),
+      loadCardGeneratorConfig(),
     ]);
 
     return c.json({
@@ -69,6 +81,7 @@ export async function cardGeneratorConfigPutHandler(c: Context): Promise<Respons
       isOverride: requirementsInfo.isOverride,
       weeklyByteLimit: usage.byteLimit,
       weeklyBytesUsed: usage.bytesUsed,
+      clozeCards: config.clozeCards,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to save config";
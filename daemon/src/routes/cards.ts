@@ -2,17 +2,22 @@
  * Card routes (vault-scoped).
  *
  * Daemon endpoints for spaced repetition card operations:
- * due cards, card detail, review submission, and archival.
+ * due cards, review stats, card detail, review submission, archival,
+ * and FSRS parameter fitting.
  */
 
 import type { Context } from "hono";
+import { formatDateForFilename, parseClientTimestamp } from "@memory-loop/shared";
 import { getCachedVaultById } from "../vault";
 import {
   getDueCards,
   getCard,
   submitReview,
   archiveCard,
+  optimizeFSRS,
+  getReviewStats,
   isValidResponse,
+  type Card,
 } from "../spaced-repetition";
 
 // ---------------------------------------------------------------------------
@@ -32,6 +37,12 @@ async function getVaultOrError(c: Context) {
   return { vault } as const;
 }
 
+/** Cloze source fields for cloze cards, so clients can render the blanks */
+function clozeFields(card: Card) {
+  if (!("text" in card.content)) return {};
+  return { cloze_text: card.content.text, cloze_index: card.metadata.cloze_index };
+}
+
 const UUID_RE = /^[a-f0-9-]{36}$/i;
 
 function validateCardId(c: Context): string | Response {
@@ -55,7 +66,9 @@ export async function dueCardsHandler(c: Context) {
 
     const previews = cards.map((card) => ({
       id: card.metadata.id,
+      type: card.metadata.type,
       question: card.content.question,
+      ...clozeFields(card),
       next_review: card.metadata.next_review,
       card_file: `${result.vault.metadataPath}/cards/${card.metadata.id}.md`,
     }));
@@ -67,6 +80,22 @@ export async function dueCardsHandler(c: Context) {
   }
 }
 
+// ---------------------------------------------------------------------------
+// GET /vaults/:id/cards/stats
+// ---------------------------------------------------------------------------
+
+export async function cardStatsHandler(c: Context) {
+  const result = await getVaultOrError(c);
+  if ("error" in result) return result.error;
+
+  try {
+    return c.json(await getReviewStats(result.vault));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to get review stats";
+    return jsonError(c, "INTERNAL_ERROR", message, 500);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // GET /vaults/:id/cards/:cardId
 // ---------------------------------------------------------------------------
@@ -88,11 +117,15 @@ export async function cardDetailHandler(c: Context) {
     const card = result.data;
     return c.json({
       id: card.metadata.id,
+      type: card.metadata.type,
       question: card.content.question,
       answer: card.content.answer,
+      ...clozeFields(card),
       ease_factor: card.metadata.ease_factor,
       interval: card.metadata.interval,
       repetitions: card.metadata.repetitions,
+      stability: card.metadata.stability,
+      difficulty: card.metadata.difficulty,
       last_reviewed: card.metadata.last_reviewed,
       next_review: card.metadata.next_review,
       source_file: card.metadata.source_file,
@@ -114,7 +147,7 @@ export async function cardReviewHandler(c: Context) {
   const cardId = validateCardId(c);
   if (cardId instanceof Response) return cardId;
 
-  let body: { response?: string };
+  let body: { response?: string; timestamp?: unknown; timeToAnswerMs?: unknown };
   try {
     body = await c.req.json();
   } catch {
@@ -133,8 +166,33 @@ export async function cardReviewHandler(c: Context) {
     );
   }
 
+  // Reviews queued offline carry the time they were made, so the schedule
+  // counts from that day
+  const reviewedAt = parseClientTimestamp(body.timestamp);
+  if (reviewedAt === null) {
+    return jsonError(c, "VALIDATION_ERROR", "timestamp must be an ISO 8601 string or epoch milliseconds");
+  }
+
+  const { timeToAnswerMs } = body;
+  if (
+    timeToAnswerMs !== undefined &&
+    (typeof timeToAnswerMs !== "number" || !Number.isFinite(timeToAnswerMs) || timeToAnswerMs < 0)
+  ) {
+    return jsonError(c, "VALIDATION_ERROR", "timeToAnswerMs must be a non-negative number");
+  }
+
   try {
-    const result = await submitReview(vaultResult.vault, cardId, body.response);
+    const result = await submitReview(
+      vaultResult.vault,
+      cardId,
+      body.response,
+      reviewedAt ? formatDateForFilename(reviewedAt) : undefined,
+      {
+        algorithm: vaultResult.vault.reviewAlgorithm,
+        reviewedAt,
+        timeToAnswerMs: timeToAnswerMs === undefined ? undefined : Math.round(timeToAnswerMs),
+      },
+    );
 
     if (!result.success) {
       if (result.error.includes("not found") || result.error.includes("Not found")) {
@@ -149,6 +207,8 @@ export async function cardReviewHandler(c: Context) {
       next_review: card.metadata.next_review,
       interval: card.metadata.interval,
       ease_factor: card.metadata.ease_factor,
+      stability: card.metadata.stability,
+      difficulty: card.metadata.difficulty,
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to submit review";
@@ -180,3 +240,28 @@ export async function cardArchiveHandler(c: Context) {
     return jsonError(c, "INTERNAL_ERROR", message, 500);
   }
 }
+
+// ---------------------------------------------------------------------------
+// POST /vaults/:id/cards/fsrs/optimize
+// ---------------------------------------------------------------------------
+
+export async function fsrsOptimizeHandler(c: Context) {
+  const vaultResult = await getVaultOrError(c);
+  if ("error" in vaultResult) return vaultResult.error;
+
+  try {
+    const result = await optimizeFSRS(vaultResult.vault);
+
+    if (!result.success) {
+      if (result.error.startsWith("Not enough reviews")) {
+        return jsonError(c, "INSUFFICIENT_REVIEWS", result.error);
+      }
+      return jsonError(c, "INTERNAL_ERROR", result.error, 500);
+    }
+
+    return c.json(result.data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to optimize FSRS parameters";
+    return jsonError(c, "INTERNAL_ERROR", message, 500);
+  }
+}
@@ -1,13 +1,37 @@
 /**
  * Daily prep API route handlers.
  *
- * Handles reading daily prep status for today.
+ * Handles reading today's daily prep status, writing the morning prep
+ * (energy, calendar, commitments) and evening closure (assessments and
+ * reflection) without a discussion session, and trends over past preps.
  */
 
 import type { Context } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type { z } from "zod";
+import {
+  CreateDailyPrepRequestSchema,
+  UpdateDailyPrepRequestSchema,
+  AddCommitmentRequestSchema,
+  UpdateCommitmentRequestSchema,
+  DailyPrepClosureRequestSchema,
+} from "@memory-loop/shared";
 import { getCachedVaultById } from "../vault";
-import { getDailyPrepStatus } from "../files/daily-prep-manager";
+import {
+  getDailyPrepStatus,
+  createDailyPrep,
+  updateDailyPrepContext,
+  addCommitment,
+  updateCommitment,
+  removeCommitment,
+  closeDailyPrep,
+  formatDateAsYYYYMMDD,
+  type DailyPrepWriteResult,
+} from "../files/daily-prep-manager";
+import { getDailyPrepHistory } from "../files/daily-prep-history";
+
+/** Days covered by /daily-prep/history when `from` is omitted */
+const DEFAULT_HISTORY_DAYS = 90;
 
 function jsonError(
   c: Context,
@@ -18,16 +42,231 @@ function jsonError(
   return c.json({ error, code }, status);
 }
 
+async function parseBody<T extends z.ZodTypeAny>(
+  c: Context,
+  schema: T,
+): Promise<z.infer<T> | Response> {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return jsonError(c, "Invalid JSON body", "INVALID_REQUEST", 400);
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    return jsonError(
+      c,
+      result.error.issues[0]?.message ?? "Invalid request",
+      "INVALID_REQUEST",
+      400,
+    );
+  }
+  const data: z.infer<T> = result.data;
+  return data;
+}
+
+async function resolveVault(c: Context) {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return { vault: null, error: jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404) };
+  }
+  return { vault, error: null };
+}
+
+/** Parses a YYYY-MM-DD query value, or returns null if it isn't a real date */
+function parseDateParam(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return formatDateAsYYYYMMDD(date) === value ? date : null;
+}
+
+/** Reads the :index path parameter, or null if it isn't a non-negative integer */
+function parseIndex(c: Context): number | null {
+  const raw = c.req.param("index") ?? "";
+  return /^\d+$/.test(raw) ? Number(raw) : null;
+}
+
+function writeResponse(c: Context, result: DailyPrepWriteResult, successStatus: ContentfulStatusCode = 200): Response {
+  if (!result.success) {
+    const error = result.error ?? "Daily prep update failed";
+    if (result.reason === "exists") {
+      return jsonError(c, error, "DAILY_PREP_EXISTS", 409);
+    }
+    if (result.reason === "not_found") {
+      return jsonError(c, error, "DAILY_PREP_NOT_FOUND", 404);
+    }
+    return jsonError(c, error, "DAILY_PREP_WRITE_FAILED", 400);
+  }
+  return c.json(result.status, successStatus);
+}
+
 /**
  * GET /vaults/:id/daily-prep/today - Get daily prep status for today.
  */
 export async function dailyPrepTodayHandler(c: Context): Promise<Response> {
-  const vaultId = c.req.param("id") ?? "";
-  const vault = await getCachedVaultById(vaultId);
-  if (!vault) {
-    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
   }
 
   const status = await getDailyPrepStatus(vault);
   return c.json(status);
 }
+
+/**
+ * POST /vaults/:id/daily-prep/today - Create today's prep.
+ *
+ * Body: { energy?, calendar?, commitments? }
+ * Returns 201 with the new status, or 409 if today's prep already exists.
+ */
+export async function createDailyPrepHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
+  }
+
+  const body = await parseBody(c, CreateDailyPrepRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  return writeResponse(c, await createDailyPrep(vault, body), 201);
+}
+
+/**
+ * PATCH /vaults/:id/daily-prep/today - Change today's energy or calendar.
+ *
+ * Body: { energy?, calendar? }
+ */
+export async function updateDailyPrepHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
+  }
+
+  const body = await parseBody(c, UpdateDailyPrepRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  return writeResponse(c, await updateDailyPrepContext(vault, body));
+}
+
+/**
+ * POST /vaults/:id/daily-prep/today/commitments - Add a commitment.
+ *
+ * Body: { text }
+ */
+export async function addCommitmentHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
+  }
+
+  const body = await parseBody(c, AddCommitmentRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  return writeResponse(c, await addCommitment(vault, body.text));
+}
+
+/**
+ * PATCH /vaults/:id/daily-prep/today/commitments/:index - Edit a commitment.
+ *
+ * Body: { text?, assessment?, note? }
+ * The index is 0-based. A null assessment clears it; an empty note removes it.
+ */
+export async function updateCommitmentHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
+  }
+
+  const index = parseIndex(c);
+  if (index === null) {
+    return jsonError(c, "Commitment index must be a non-negative integer", "INVALID_REQUEST", 400);
+  }
+
+  const body = await parseBody(c, UpdateCommitmentRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  return writeResponse(c, await updateCommitment(vault, index, body));
+}
+
+/**
+ * DELETE /vaults/:id/daily-prep/today/commitments/:index - Remove a commitment.
+ */
+export async function removeCommitmentHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
+  }
+
+  const index = parseIndex(c);
+  if (index === null) {
+    return jsonError(c, "Commitment index must be a non-negative integer", "INVALID_REQUEST", 400);
+  }
+
+  return writeResponse(c, await removeCommitment(vault, index));
+}
+
+/**
+ * POST /vaults/:id/daily-prep/today/closure - Close the day.
+ *
+ * Body: { reflection, assessments?: [{ assessment, note? }] }
+ * Assessments apply to the commitments in order. Closing again replaces
+ * the earlier closure.
+ */
+export async function closeDailyPrepHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
+  }
+
+  const body = await parseBody(c, DailyPrepClosureRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  return writeResponse(c, await closeDailyPrep(vault, body));
+}
+
+/**
+ * GET /vaults/:id/daily-prep/history?from=&to= - Trends over past preps.
+ *
+ * Both dates are YYYY-MM-DD and inclusive. `to` defaults to today and
+ * `from` to 90 days before `to`.
+ */
+export async function dailyPrepHistoryHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) {
+    return error;
+  }
+
+  const toParam = c.req.query("to");
+  const to = toParam === undefined ? new Date() : parseDateParam(toParam);
+  if (!to) {
+    return jsonError(c, "to must be a date in YYYY-MM-DD format", "INVALID_REQUEST", 400);
+  }
+
+  const fromParam = c.req.query("from");
+  const from =
+    fromParam === undefined
+      ? new Date(to.getFullYear(), to.getMonth(), to.getDate() - (DEFAULT_HISTORY_DAYS - 1))
+      : parseDateParam(fromParam);
+  if (!from) {
+    return jsonError(c, "from must be a date in YYYY-MM-DD format", "INVALID_REQUEST", 400);
+  }
+  if (from > to) {
+    return jsonError(c, "from must not be after to", "INVALID_REQUEST", 400);
+  }
+
+  const history = await getDailyPrepHistory(vault, formatDateAsYYYYMMDD(from), formatDateAsYYYYMMDD(to));
+  return c.json(history);
+}
@@ -0,0 +1,92 @@
+/**
+ * Vault Events Endpoint (SSE)
+ *
+ * GET /vaults/:id/events - Stream file change events for a vault
+ *
+ * Each event is a VaultChangeEvent (file-created, file-changed,
+ * file-deleted) published by the vault watcher. The stream stays open
+ * until the client disconnects; keep-alive comments are sent so proxies
+ * don't time out idle connections. Starts a watcher for the vault if one
+ * isn't already running (e.g. vaults created after daemon startup).
+ */
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { createLogger } from "@memory-loop/shared";
+import { getCachedVaultById } from "../vault";
+import { watchVault, subscribeToVaultEvents } from "../files/vault-watcher";
+import { encodeSSE, encodeSSEComment, createSSEResponse } from "../sse";
+
+const log = createLogger("vault-events");
+
+/** Keep-alive interval in milliseconds */
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+function jsonError(
+  c: Context,
+  error: string,
+  code: string,
+  status: ContentfulStatusCode,
+): Response {
+  return c.json({ error, code }, status);
+}
+
+export async function vaultEventsHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  if (!watchVault(vault)) {
+    return jsonError(c, "Failed to watch vault", "INTERNAL_ERROR", 500);
+  }
+
+  const signal = c.req.raw.signal;
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      // Flush headers immediately so clients know the stream is live
+      controller.enqueue(encodeSSEComment("connected"));
+
+      const unsubscribe = subscribeToVaultEvents(vault.id, (event) => {
+        try {
+          controller.enqueue(encodeSSE(event));
+        } catch {
+          cleanup?.();
+        }
+      });
+
+      const keepAlive = setInterval(() => {
+        try {
+          controller.enqueue(encodeSSEComment("keep-alive"));
+        } catch {
+          cleanup?.();
+        }
+      }, KEEPALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed or cancelled
+        }
+        log.debug(`Client disconnected from vault ${vault.id} events`);
+      };
+
+      signal.addEventListener("abort", () => cleanup?.(), { once: true });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return createSSEResponse(stream);
+}
@@ -7,7 +7,8 @@
 
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { createLogger } from "@memory-loop/shared";
+import { createLogger, DEFAULT_TRASH_RETENTION_DAYS } from "@memory-loop/shared";
+import type { VaultInfo } from "@memory-loop/shared";
 import type { Context } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
 import { getCachedVaultById } from "../vault";
@@ -22,10 +23,30 @@ import {
   createDirectory,
   getDirectoryContents,
   deleteDirectory,
+  checkFileVersion,
   FileBrowserError,
+  FileConflictError,
+  type DeleteOptions,
 } from "../files/file-browser";
 import { uploadFile } from "../files/file-upload";
 import { updateReferences } from "../files/reference-updater";
+import {
+  diffVersions,
+  listVersions,
+  moveHistory,
+  readVersion,
+  recordVersion,
+  restoreVersion,
+  CURRENT_VERSION,
+} from "../files/file-history";
+import {
+  deleteFromTrash,
+  emptyTrash,
+  listTrash,
+  moveToTrash,
+  purgeTrash,
+  restoreFromTrash,
+} from "../files/trash";
 
 const log = createLogger("file-routes");
 
@@ -44,6 +65,7 @@ const ERROR_CODE_TO_STATUS: Record<string, ContentfulStatusCode> = {
   VALIDATION_ERROR: 400,
   FILE_EXISTS: 409,
   DIRECTORY_EXISTS: 409,
+  FILE_CONFLICT: 409,
 };
 
 function jsonError(
@@ -70,6 +92,13 @@ function extractWildcardPath(c: Context, resource: string): string {
 }
 
 function handleFileBrowserError(c: Context, error: unknown): Response {
+  if (error instanceof FileConflictError) {
+    // Include the current version so the client can merge without a re-read
+    return c.json(
+      { error: error.message, code: error.code, content: error.currentContent, etag: error.etag },
+      409,
+    );
+  }
   if (error instanceof FileBrowserError) {
     const status = ERROR_CODE_TO_STATUS[error.code] ?? 500;
     return jsonError(c, error.message, error.code, status);
@@ -88,6 +117,23 @@ async function resolveVault(c: Context) {
   return { vault, error: null };
 }
 
+function trashRetentionDays(vault: VaultInfo): number {
+  return vault.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Delete options that move the target into the vault's trash, then purge
+ * items past the retention period.
+ */
+function trashOptions(vault: VaultInfo, isDirectory: boolean): DeleteOptions {
+  return {
+    trash: async (targetPath) => {
+      await moveToTrash(vault, targetPath, isDirectory);
+      await purgeTrash(vault, trashRetentionDays(vault));
+    },
+  };
+}
+
 // =============================================================================
 // File Handlers
 // =============================================================================
@@ -142,6 +188,7 @@ export async function createFileHandler(c: Context): Promise<Response> {
 
 /**
  * GET /vaults/:id/files/* - Read a file.
+ * The response's etag is also sent as the ETag header.
  */
 export async function readFileHandler(c: Context): Promise<Response> {
   const { vault, error } = await resolveVault(c);
@@ -154,6 +201,7 @@ export async function readFileHandler(c: Context): Promise<Response> {
 
   try {
     const result = await readMarkdownFile(vault.contentRoot, filePath);
+    c.header("ETag", result.etag);
     return c.json(result);
   } catch (err) {
     return handleFileBrowserError(c, err);
@@ -162,6 +210,8 @@ export async function readFileHandler(c: Context): Promise<Response> {
 
 /**
  * PUT /vaults/:id/files/* - Write file content.
+ * With an If-Match header, returns 409 FILE_CONFLICT (with the current
+ * content and etag) if the file changed since it was read.
  */
 export async function writeFileHandler(c: Context): Promise<Response> {
   const { vault, error } = await resolveVault(c);
@@ -189,8 +239,15 @@ export async function writeFileHandler(c: Context): Promise<Response> {
   }
 
   try {
-    await writeMarkdownFile(vault.contentRoot, filePath, content);
-    return c.json({ success: true });
+    const ifMatch = c.req.header("If-Match");
+    const result = await writeMarkdownFile(vault.contentRoot, filePath, content, {
+      ifMatch,
+      beforeWrite: async (previous) => {
+        await recordVersion(vault, filePath, previous, "edit");
+      },
+    });
+    c.header("ETag", result.etag);
+    return c.json({ success: true, etag: result.etag });
   } catch (err) {
     return handleFileBrowserError(c, err);
   }
@@ -198,6 +255,7 @@ export async function writeFileHandler(c: Context): Promise<Response> {
 
 /**
  * PATCH /vaults/:id/files/* - Rename or move a file.
+ * Honors If-Match like PUT.
  */
 export async function patchFileHandler(c: Context): Promise<Response> {
   const { vault, error } = await resolveVault(c);
@@ -222,6 +280,11 @@ export async function patchFileHandler(c: Context): Promise<Response> {
   const { newName, newPath } = body as { newName?: string; newPath?: string };
 
   try {
+    const ifMatch = c.req.header("If-Match");
+    if (ifMatch !== undefined && (newPath !== undefined || newName !== undefined)) {
+      await checkFileVersion(vault.contentRoot, filePath, ifMatch);
+    }
+
     let result: { oldPath: string; newPath: string };
 
     if (newPath !== undefined) {
@@ -232,8 +295,18 @@ export async function patchFileHandler(c: Context): Promise<Response> {
       return jsonError(c, "Must provide newName or newPath", "INVALID_REQUEST", 400);
     }
 
+    await moveHistory(vault, result.oldPath, result.newPath);
+
     // Update references across the vault
-    await updateReferences(vault.contentRoot, result.oldPath, result.newPath, false);
+    await updateReferences(
+      vault.contentRoot,
+      result.oldPath,
+      result.newPath,
+      false,
+      async (path, previous) => {
+        await recordVersion(vault, path, previous, "rename");
+      },
+    );
 
     return c.json(result);
   } catch (err) {
@@ -242,7 +315,7 @@ export async function patchFileHandler(c: Context): Promise<Response> {
 }
 
 /**
- * DELETE /vaults/:id/files/* - Delete a file.
+ * DELETE /vaults/:id/files/* - Move a file to the trash.
  */
 export async function deleteFileHandler(c: Context): Promise<Response> {
   const { vault, error } = await resolveVault(c);
@@ -254,13 +327,92 @@ export async function deleteFileHandler(c: Context): Promise<Response> {
   }
 
   try {
-    await deleteFile(vault.contentRoot, filePath);
+    await deleteFile(vault.contentRoot, filePath, trashOptions(vault, false));
     return c.json({ success: true });
   } catch (err) {
     return handleFileBrowserError(c, err);
   }
 }
 
+// =============================================================================
+// File History Handlers
+// =============================================================================
+
+/**
+ * GET /vaults/:id/files/:path/history - List a file's versions, newest first.
+ */
+export async function listFileHistoryHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  try {
+    return c.json(await listVersions(vault, c.req.param("path") ?? ""));
+  } catch (err) {
+    return handleFileBrowserError(c, err);
+  }
+}
+
+/**
+ * GET /vaults/:id/files/:path/history/diff?from=&to= - Line diff between two
+ * versions. Either side may be "current"; to defaults to "current".
+ */
+export async function diffFileHistoryHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  const from = c.req.query("from");
+  if (!from) {
+    return jsonError(c, "Missing required query parameter: from", "INVALID_REQUEST", 400);
+  }
+  const to = c.req.query("to") ?? CURRENT_VERSION;
+
+  try {
+    return c.json(await diffVersions(vault, c.req.param("path") ?? "", from, to));
+  } catch (err) {
+    return handleFileBrowserError(c, err);
+  }
+}
+
+/**
+ * GET /vaults/:id/files/:path/history/:versionId - Read one version's content.
+ */
+export async function readFileVersionHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  try {
+    const result = await readVersion(
+      vault,
+      c.req.param("path") ?? "",
+      c.req.param("versionId") ?? "",
+    );
+    return c.json(result);
+  } catch (err) {
+    return handleFileBrowserError(c, err);
+  }
+}
+
+/**
+ * POST /vaults/:id/files/:path/history/:versionId/restore - Replace the file
+ * with an older version. The replaced content is kept as a new version.
+ */
+export async function restoreFileVersionHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  try {
+    const result = await restoreVersion(
+      vault,
+      c.req.param("path") ?? "",
+      c.req.param("versionId") ?? "",
+    );
+    c.header("ETag", result.etag);
+    return c.json({ success: true, etag: result.etag });
+  } catch (err) {
+    return handleFileBrowserError(c, err);
+  }
+}
+
 // =============================================================================
 // Directory Handlers
 // =============================================================================
@@ -314,7 +466,7 @@ export async function getDirectoryContentsHandler(c: Context): Promise<Response>
 }
 
 /**
- * DELETE /vaults/:id/directories/* - Delete a directory.
+ * DELETE /vaults/:id/directories/* - Move a directory to the trash.
  */
 export async function deleteDirectoryHandler(c: Context): Promise<Response> {
   const { vault, error } = await resolveVault(c);
@@ -326,13 +478,76 @@ export async function deleteDirectoryHandler(c: Context): Promise<Response> {
   }
 
   try {
-    await deleteDirectory(vault.contentRoot, dirPath);
+    await deleteDirectory(vault.contentRoot, dirPath, trashOptions(vault, true));
     return c.json({ success: true });
   } catch (err) {
     return handleFileBrowserError(c, err);
   }
 }
 
+// =============================================================================
+// Trash Handlers
+// =============================================================================
+
+/**
+ * GET /vaults/:id/trash - List trashed items, newest first. Expired items are
+ * purged first.
+ */
+export async function listTrashHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  const retentionDays = trashRetentionDays(vault);
+  await purgeTrash(vault, retentionDays);
+  return c.json({ items: await listTrash(vault), retentionDays });
+}
+
+/**
+ * POST /vaults/:id/trash/:itemId/restore - Move an item back to its original
+ * path (or beside it, if that path is taken).
+ */
+export async function restoreTrashItemHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  try {
+    const result = await restoreFromTrash(vault, c.req.param("itemId") ?? "");
+    return c.json({ success: true, ...result });
+  } catch (err) {
+    return handleFileBrowserError(c, err);
+  }
+}
+
+/**
+ * DELETE /vaults/:id/trash/:itemId - Permanently delete one trashed item.
+ */
+export async function deleteTrashItemHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  try {
+    await deleteFromTrash(vault, c.req.param("itemId") ?? "");
+    return c.json({ success: true });
+  } catch (err) {
+    return handleFileBrowserError(c, err);
+  }
+}
+
+/**
+ * DELETE /vaults/:id/trash - Permanently delete everything in the trash.
+ */
+export async function emptyTrashHandler(c: Context): Promise<Response> {
+  const { vault, error } = await resolveVault(c);
+  if (error) return error;
+
+  try {
+    const deleted = await emptyTrash(vault);
+    return c.json({ success: true, deleted });
+  } catch (err) {
+    return handleFileBrowserError(c, err);
+  }
+}
+
 // =============================================================================
 // Upload Handler
 // =============================================================================
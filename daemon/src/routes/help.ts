@@ -42,15 +42,25 @@ export function helpHandler(c: Context): Response {
       // Files
       { path: "/vaults/:id/files", method: "GET", description: "List directory contents (query: path)" },
       { path: "/vaults/:id/files", method: "POST", description: "Create a new file (body: { path, name })" },
-      { path: "/vaults/:id/files/*", method: "GET", description: "Read a file" },
-      { path: "/vaults/:id/files/*", method: "PUT", description: "Write file content (body: { content })" },
-      { path: "/vaults/:id/files/*", method: "PATCH", description: "Rename/move a file (body: { newName?, newPath? })" },
-      { path: "/vaults/:id/files/*", method: "DELETE", description: "Delete a file" },
+      { path: "/vaults/:id/files/*", method: "GET", description: "Read a file (returns content, truncated, etag)" },
+      { path: "/vaults/:id/files/*", method: "PUT", description: "Write file content (body: { content }; header: If-Match, 409 on conflict)" },
+      { path: "/vaults/:id/files/*", method: "PATCH", description: "Rename/move a file (body: { newName?, newPath? }; header: If-Match)" },
+      { path: "/vaults/:id/files/*", method: "DELETE", description: "Move a file to the trash" },
+      { path: "/vaults/:id/files/*/history", method: "GET", description: "List a file's saved versions, newest first" },
+      { path: "/vaults/:id/files/*/history/diff", method: "GET", description: "Diff two versions (query: from, to; either may be \"current\")" },
+      { path: "/vaults/:id/files/*/history/:versionId", method: "GET", description: "Read one saved version" },
+      { path: "/vaults/:id/files/*/history/:versionId/restore", method: "POST", description: "Restore a saved version (the replaced content is kept)" },
 
       // Directories
       { path: "/vaults/:id/directories", method: "POST", description: "Create a directory (body: { path, name })" },
       { path: "/vaults/:id/directories/*", method: "GET", description: "Get directory contents" },
-      { path: "/vaults/:id/directories/*", method: "DELETE", description: "Delete a directory" },
+      { path: "/vaults/:id/directories/*", method: "DELETE", description: "Move a directory to the trash" },
+
+      // Trash
+      { path: "/vaults/:id/trash", method: "GET", description: "List trashed items, newest first (expired items are purged)" },
+      { path: "/vaults/:id/trash", method: "DELETE", description: "Empty the trash" },
+      { path: "/vaults/:id/trash/:itemId/restore", method: "POST", description: "Restore a trashed item to its original path" },
+      { path: "/vaults/:id/trash/:itemId", method: "DELETE", description: "Permanently delete a trashed item" },
 
       // Upload
       { path: "/vaults/:id/upload", method: "POST", description: "Upload a file (multipart)" },
@@ -59,7 +69,7 @@ export function helpHandler(c: Context): Response {
       { path: "/vaults/:id/goals", method: "GET", description: "Read goals file" },
 
       // Capture
-      { path: "/vaults/:id/capture", method: "POST", description: "Capture text (body: { text })" },
+      { path: "/vaults/:id/capture", method: "POST", description: "Capture text (body: { text, target?, timestamp? })" },
       { path: "/vaults/:id/recent-notes", method: "GET", description: "Get recent captured notes (query: limit)" },
       { path: "/vaults/:id/recent-activity", method: "GET", description: "Get recent activity" },
 
@@ -70,15 +80,41 @@ export function helpHandler(c: Context): Response {
 
       // Tasks
       { path: "/vaults/:id/tasks", method: "GET", description: "List all tasks" },
-      { path: "/vaults/:id/tasks", method: "PATCH", description: "Toggle a task (body: { filePath, lineNumber, newState? })" },
+      { path: "/vaults/:id/tasks", method: "PATCH", description: "Toggle a task (body: { filePath, lineNumber, newState?, expectedText?, timestamp? }); 409 if the line no longer holds expectedText" },
+      { path: "/vaults/:id/tasks", method: "POST", description: "Create a task, in today's daily note by default (body: { text, filePath?, heading?, dueDate?, priority?, recurrence?, ... })" },
+      { path: "/vaults/:id/tasks", method: "PUT", description: "Edit a task's text and metadata (body: { filePath, lineNumber, expectedText?, text?, dueDate?, priority?, ... }; null clears a field); 409 if the line no longer holds expectedText" },
+      { path: "/vaults/:id/tasks", method: "DELETE", description: "Delete a task (query: filePath, lineNumber, expectedText?); 409 if the line no longer holds expectedText" },
+      { path: "/vaults/:id/tasks/move", method: "POST", description: "Move a task to another file (body: { filePath, lineNumber, toFilePath, heading?, expectedText? }); 409 if the line no longer holds expectedText" },
+      { path: "/vaults/:id/tasks/rollover", method: "POST", description: "Roll unfinished tasks from earlier daily notes into today's" },
 
       // Daily Prep
-      { path: "/vaults/:id/daily-prep/today", method: "GET", description: "Get daily prep status" },
+      { path: "/vaults/:id/daily-prep/today", method: "GET", description: "Get daily prep status, including commitment assessments and closure" },
+      { path: "/vaults/:id/daily-prep/today", method: "POST", description: "Create today's prep (body: { energy?, calendar?, commitments? }); 409 if it exists" },
+      { path: "/vaults/:id/daily-prep/today", method: "PATCH", description: "Change today's energy or calendar (body: { energy?, calendar? })" },
+      { path: "/vaults/:id/daily-prep/today/commitments", method: "POST", description: "Add a commitment (body: { text })" },
+      { path: "/vaults/:id/daily-prep/today/commitments/:index", method: "PATCH", description: "Edit a commitment (body: { text?, assessment?, note? }; 0-based index)" },
+      { path: "/vaults/:id/daily-prep/today/commitments/:index", method: "DELETE", description: "Remove a commitment (0-based index)" },
+      { path: "/vaults/:id/daily-prep/today/closure", method: "POST", description: "Close the day (body: { reflection, assessments?: [{ assessment, note? }] })" },
+      { path: "/vaults/:id/daily-prep/history", method: "GET", description: "Completion trends by energy, calendar, and weekday, plus blocked/skipped streaks (query: from?, to? as YYYY-MM-DD; last 90 days by default)" },
 
       // Search
       { path: "/vaults/:id/search/files", method: "GET", description: "Fuzzy file name search (query: q, limit)" },
       { path: "/vaults/:id/search/content", method: "GET", description: "Full-text content search (query: q, limit)" },
       { path: "/vaults/:id/search/snippets", method: "GET", description: "Get context snippets (query: path, q)" },
+      { path: "/search/files", method: "GET", description: "Fuzzy file name search across vaults with a built index (query: q, limit)" },
+      { path: "/search/content", method: "GET", description: "Full-text content search across vaults with a built index (query: q, limit)" },
+      { path: "/search/index", method: "POST", description: "Build the indexes of vaults the cross-vault search skips, up to the search cache size" },
+
+      // Links
+      { path: "/vaults/:id/links/backlinks", method: "GET", description: "Notes linking to a note (query: path)" },
+      { path: "/vaults/:id/links/outgoing", method: "GET", description: "Links from a note, resolved or not (query: path)" },
+      { path: "/vaults/:id/links/unresolved", method: "GET", description: "Links to missing notes, vault-wide or for one note (query: path?)" },
+      { path: "/vaults/:id/links/unlinked", method: "GET", description: "Plain-text mentions of a note's title (query: path, limit)" },
+      { path: "/vaults/:id/lint", method: "GET", description: "Broken links, orphan notes and unused attachments" },
+      { path: "/vaults/:id/lint/fix", method: "POST", description: "Rewrite broken links that match exactly one file" },
+
+      // Events
+      { path: "/vaults/:id/events", method: "GET", description: "Stream file change events (SSE)" },
 
       // Transcripts
       { path: "/vaults/:id/transcripts", method: "POST", description: "Initialize transcript (body: { sessionId, firstMessage })" },
@@ -99,13 +135,15 @@ export function helpHandler(c: Context): Response {
 
       // Cards (vault-scoped)
       { path: "/vaults/:id/cards/due", method: "GET", description: "Get due cards for review" },
+      { path: "/vaults/:id/cards/stats", method: "GET", description: "Review stats: daily counts, retention by interval, 30-day due forecast, heatmap" },
       { path: "/vaults/:id/cards/:cardId", method: "GET", description: "Get card detail" },
-      { path: "/vaults/:id/cards/:cardId/review", method: "POST", description: "Submit card review (body: { response })" },
+      { path: "/vaults/:id/cards/:cardId/review", method: "POST", description: "Submit card review (body: { response, timestamp?, timeToAnswerMs? })" },
       { path: "/vaults/:id/cards/:cardId/archive", method: "POST", description: "Archive a card" },
+      { path: "/vaults/:id/cards/fsrs/optimize", method: "POST", description: "Fit FSRS parameters to the vault's review log" },
 
       // Card generator config
       { path: "/config/card-generator", method: "GET", description: "Get card generator configuration" },
-      { path: "/config/card-generator", method: "PUT", description: "Update card generator config (body: { requirements })" },
+      { path: "/config/card-generator", method: "PUT", description: "Update card generator config (body: { requirements?, weeklyByteLimit?, clozeCards? })" },
       { path: "/config/card-generator/requirements", method: "DELETE", description: "Reset card generator requirements to default" },
       { path: "/config/card-generator/status", method: "GET", description: "Get card generation status" },
       { path: "/config/card-generator/trigger", method: "POST", description: "Manually trigger card generation" },
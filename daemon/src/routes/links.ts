@@ -0,0 +1,98 @@
+/**
+ * Link API route handlers.
+ *
+ * Exposes the vault link graph: backlinks, outgoing links and unresolved
+ * links of a note, plus unlinked mentions of its title. The graph is built
+ * from links stored in the search index, so it shares the search cache.
+ */
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { getCachedVaultById } from "../vault";
+import { getOrCreateIndex } from "../files/search/search-cache";
+import type { SearchIndexManager } from "../files/search/search-index";
+
+function jsonError(
+  c: Context,
+  error: string,
+  code: string,
+  status: ContentfulStatusCode,
+): Response {
+  return c.json({ error, code }, status);
+}
+
+/**
+ * Resolves the vault's search index, or an error response.
+ */
+async function getIndex(c: Context): Promise<SearchIndexManager | Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+  return getOrCreateIndex(vaultId, vault.contentRoot);
+}
+
+function missingPath(c: Context): Response {
+  return jsonError(c, "Missing required query param: path", "INVALID_REQUEST", 400);
+}
+
+/**
+ * GET /vaults/:id/links/backlinks - Notes linking to a note (query: path).
+ */
+export async function getBacklinksHandler(c: Context): Promise<Response> {
+  const index = await getIndex(c);
+  if (index instanceof Response) return index;
+
+  const path = c.req.query("path") ?? "";
+  if (!path) return missingPath(c);
+
+  const graph = await index.getLinkGraph();
+  return c.json({ path, links: graph.getBacklinks(path) });
+}
+
+/**
+ * GET /vaults/:id/links/outgoing - Links from a note (query: path).
+ */
+export async function getOutgoingLinksHandler(c: Context): Promise<Response> {
+  const index = await getIndex(c);
+  if (index instanceof Response) return index;
+
+  const path = c.req.query("path") ?? "";
+  if (!path) return missingPath(c);
+
+  const graph = await index.getLinkGraph();
+  return c.json({ path, links: graph.getOutgoing(path) });
+}
+
+/**
+ * GET /vaults/:id/links/unresolved - Links to notes that don't exist.
+ *
+ * Scoped to one note when `path` is given, otherwise the whole vault.
+ */
+export async function getUnresolvedLinksHandler(c: Context): Promise<Response> {
+  const index = await getIndex(c);
+  if (index instanceof Response) return index;
+
+  const path = c.req.query("path") || undefined;
+  const graph = await index.getLinkGraph();
+  return c.json({ ...(path && { path }), links: graph.getUnresolved(path) });
+}
+
+/**
+ * GET /vaults/:id/links/unlinked - Plain-text mentions of a note's title
+ * in other notes (query: path, limit).
+ */
+export async function getUnlinkedMentionsHandler(c: Context): Promise<Response> {
+  const index = await getIndex(c);
+  if (index instanceof Response) return index;
+
+  const path = c.req.query("path") ?? "";
+  if (!path) return missingPath(c);
+
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  const links = await index.findUnlinkedMentions(path, { limit });
+  return c.json({ path, links });
+}
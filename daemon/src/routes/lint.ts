@@ -0,0 +1,49 @@
+/**
+ * Vault lint route handlers.
+ *
+ * Reports broken links, orphan notes and unused attachments, and applies
+ * unambiguous link fixes.
+ */
+
+import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { getCachedVaultById } from "../vault";
+import { lintVault, fixVaultLinks } from "../files/vault-lint";
+
+function jsonError(
+  c: Context,
+  error: string,
+  code: string,
+  status: ContentfulStatusCode,
+): Response {
+  return c.json({ error, code }, status);
+}
+
+/**
+ * GET /vaults/:id/lint - Link health report for a vault.
+ */
+export async function lintVaultHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  const report = await lintVault(vault);
+  return c.json(report);
+}
+
+/**
+ * POST /vaults/:id/lint/fix - Rewrite broken links with a single candidate,
+ * then return the updated report with the fixes applied.
+ */
+export async function fixVaultLintHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  const report = await fixVaultLinks(vault);
+  return c.json(report);
+}
@@ -6,14 +6,19 @@
 
 import type { Context } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
+import { createLogger } from "@memory-loop/shared";
 import { getCachedVaultById } from "../vault";
 import { startMeeting, stopMeeting, toMeetingState } from "../files/meeting-capture";
 import {
   getActiveMeeting,
   setActiveMeeting,
   clearActiveMeeting,
+  persistActiveMeeting,
+  stopStaleMeeting,
 } from "../files/meeting-store";
 
+const log = createLogger("meeting-routes");
+
 function jsonError(
   c: Context,
   error: string,
@@ -24,8 +29,21 @@ function jsonError(
   return c.json({ error, code, ...(detail ? { detail } : {}) }, status);
 }
 
+/**
+ * Reads an optional list of strings from the request body.
+ * Returns null if the value is present but isn't a list of strings.
+ */
+function parseStringList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    return null;
+  }
+  return value;
+}
+
 /**
  * POST /vaults/:id/meetings - Start a new meeting.
+ * Body: { title, attendees?: string[], agenda?: string[] }
  */
 export async function startMeetingHandler(c: Context): Promise<Response> {
   const vaultId = c.req.param("id") ?? "";
@@ -34,7 +52,8 @@ export async function startMeetingHandler(c: Context): Promise<Response> {
     return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
   }
 
-  // Check if there's already an active meeting
+  // Check if there's already an active meeting (a stale one is stopped first)
+  await stopStaleMeeting(vault);
   const existing = getActiveMeeting(vaultId);
   if (existing) {
     return jsonError(
@@ -57,17 +76,28 @@ export async function startMeetingHandler(c: Context): Promise<Response> {
     return jsonError(c, "Missing required field: title", "INVALID_REQUEST", 400);
   }
 
-  const { title } = body as { title: unknown };
+  const { title, attendees: rawAttendees, agenda: rawAgenda } = body as {
+    title: unknown;
+    attendees?: unknown;
+    agenda?: unknown;
+  };
   if (typeof title !== "string" || title.trim().length === 0) {
     return jsonError(c, "Title must be a non-empty string", "INVALID_REQUEST", 400);
   }
 
-  const result = await startMeeting(vault, title);
+  const attendees = parseStringList(rawAttendees);
+  const agenda = parseStringList(rawAgenda);
+  if (!attendees || !agenda) {
+    return jsonError(c, "Attendees and agenda must be lists of strings", "INVALID_REQUEST", 400);
+  }
+
+  const result = await startMeeting(vault, title, new Date(), { attendees, agenda });
   if (!result.success || !result.meeting) {
     return jsonError(c, result.error ?? "Failed to start meeting", "MEETING_FAILED", 500);
   }
 
   setActiveMeeting(vaultId, result.meeting);
+  await persistActiveMeeting(vault);
 
   return c.json({
     meeting: toMeetingState(result.meeting),
@@ -76,6 +106,7 @@ export async function startMeetingHandler(c: Context): Promise<Response> {
 
 /**
  * GET /vaults/:id/meetings/current - Get current meeting state.
+ * A meeting that has gone stale is stopped and reported as inactive.
  */
 export async function getCurrentMeetingHandler(c: Context): Promise<Response> {
   const vaultId = c.req.param("id") ?? "";
@@ -84,12 +115,15 @@ export async function getCurrentMeetingHandler(c: Context): Promise<Response> {
     return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
   }
 
+  await stopStaleMeeting(vault);
   const meeting = getActiveMeeting(vaultId);
   return c.json({ meeting: toMeetingState(meeting) });
 }
 
 /**
  * DELETE /vaults/:id/meetings/current - Stop the current meeting.
+ * With `meetingWrapUp` on, the response includes the appended wrap-up, or
+ * `wrapUpError` if it couldn't be generated.
  */
 export async function stopMeetingHandler(c: Context): Promise<Response> {
   const vaultId = c.req.param("id") ?? "";
@@ -103,16 +137,25 @@ export async function stopMeetingHandler(c: Context): Promise<Response> {
     return jsonError(c, "No active meeting", "NO_MEETING", 404);
   }
 
-  const result = await stopMeeting(meeting);
+  // Clear the meeting before the wrap-up runs, so captures made meanwhile go
+  // elsewhere and a second stop finds no meeting
   clearActiveMeeting(vaultId);
+  await persistActiveMeeting(vault);
+  const result = await stopMeeting(meeting, vault);
 
   if (!result.success) {
     return jsonError(c, result.error ?? "Failed to stop meeting", "MEETING_FAILED", 500);
   }
 
+  if (result.wrapUpError) {
+    log.warn(`Meeting wrap-up failed for ${meeting.relativePath}: ${result.wrapUpError}`);
+  }
+
   return c.json({
     content: result.content,
     entryCount: result.entryCount,
     filePath: result.filePath,
+    ...(result.wrapUp ? { wrapUp: result.wrapUp } : {}),
+    ...(result.wrapUpError ? { wrapUpError: result.wrapUpError } : {}),
   });
 }
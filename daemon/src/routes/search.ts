@@ -2,13 +2,20 @@
  * Search API route handlers.
  *
  * Handles file name search, content search, and snippet retrieval.
- * Uses the search cache for per-vault index management.
+ * Uses the search cache for per-vault index management. The unscoped
+ * /search/* routes fan out across every vault.
  */
 
 import type { Context } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
-import { getCachedVaultById } from "../vault";
+import { getCachedVaultById, getVaults } from "../vault";
 import { getOrCreateIndex } from "../files/search/search-cache";
+import {
+  searchFilesAcrossVaults,
+  searchContentAcrossVaults,
+  indexVaults,
+} from "../files/search/cross-vault-search";
+import { DEFAULT_TASK_STATES, getDoneTaskStates, parseSearchQuery } from "@memory-loop/shared";
 
 function jsonError(
   c: Context,
@@ -51,6 +58,10 @@ export async function searchFilesHandler(c: Context): Promise<Response> {
 
 /**
  * GET /vaults/:id/search/content - Full-text content search.
+ *
+ * Accepts the structured query syntax (tag:, path:, after:/before:,
+ * has:task, task:, quoted phrases, -exclusions). Malformed filter values
+ * return 400 INVALID_QUERY rather than silently matching nothing.
  */
 export async function searchContentHandler(c: Context): Promise<Response> {
   const vaultId = c.req.param("id") ?? "";
@@ -64,12 +75,20 @@ export async function searchContentHandler(c: Context): Promise<Response> {
     return c.json({ results: [], totalMatches: 0, searchTimeMs: 0 });
   }
 
+  const { errors } = parseSearchQuery(query);
+  if (errors.length > 0) {
+    return jsonError(c, errors.join("; "), "INVALID_QUERY", 400);
+  }
+
   const limitParam = c.req.query("limit");
   const limit = limitParam ? parseInt(limitParam, 10) : undefined;
 
   const startTime = Date.now();
   const index = getOrCreateIndex(vaultId, vault.contentRoot);
-  const results = await index.searchContent(query, { limit });
+  const results = await index.searchContent(query, {
+    limit,
+    doneStates: getDoneTaskStates(vault.taskStates ?? DEFAULT_TASK_STATES),
+  });
   const searchTimeMs = Date.now() - startTime;
 
   return c.json({
@@ -101,3 +120,82 @@ export async function getSnippetsHandler(c: Context): Promise<Response> {
 
   return c.json({ snippets });
 }
+
+/**
+ * GET /search/files - Fuzzy file name search across all vaults.
+ *
+ * Results carry vaultId and vaultName; the limit applies to the merged list.
+ * Vaults whose index isn't built yet are listed in vaultsSkipped.
+ */
+export async function searchAllFilesHandler(c: Context): Promise<Response> {
+  const query = c.req.query("q") ?? "";
+  if (!query.trim()) {
+    return c.json({ results: [], totalMatches: 0, searchTimeMs: 0, vaultsSearched: 0, vaultsSkipped: [] });
+  }
+
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  const startTime = Date.now();
+  const vaults = await getVaults();
+  const { results, vaultsSearched, vaultsSkipped } = await searchFilesAcrossVaults(vaults, query, {
+    limit,
+  });
+  const searchTimeMs = Date.now() - startTime;
+
+  return c.json({
+    results,
+    totalMatches: results.length,
+    searchTimeMs,
+    vaultsSearched,
+    vaultsSkipped,
+  });
+}
+
+/**
+ * GET /search/content - Full-text content search across all vaults.
+ *
+ * Same query syntax and INVALID_QUERY handling as the vault-scoped route.
+ * Results carry vaultId and vaultName; the limit applies to the merged list.
+ */
+export async function searchAllContentHandler(c: Context): Promise<Response> {
+  const query = c.req.query("q") ?? "";
+  if (!query.trim()) {
+    return c.json({ results: [], totalMatches: 0, searchTimeMs: 0, vaultsSearched: 0, vaultsSkipped: [] });
+  }
+
+  const { errors } = parseSearchQuery(query);
+  if (errors.length > 0) {
+    return jsonError(c, errors.join("; "), "INVALID_QUERY", 400);
+  }
+
+  const limitParam = c.req.query("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  const startTime = Date.now();
+  const vaults = await getVaults();
+  const { results, vaultsSearched, vaultsSkipped } = await searchContentAcrossVaults(vaults, query, {
+    limit,
+  });
+  const searchTimeMs = Date.now() - startTime;
+
+  return c.json({
+    results,
+    totalMatches: results.length,
+    searchTimeMs,
+    vaultsSearched,
+    vaultsSkipped,
+  });
+}
+
+/**
+ * POST /search/index - Build the indexes the cross-vault routes skip.
+ *
+ * Builds one vault at a time, up to the search cache size. Vaults left
+ * over (or whose build failed) are listed in vaultsSkipped.
+ */
+export async function indexAllHandler(c: Context): Promise<Response> {
+  const vaults = await getVaults();
+  const { vaultsIndexed, vaultsSkipped } = await indexVaults(vaults);
+  return c.json({ vaultsIndexed, vaultsSkipped });
+}
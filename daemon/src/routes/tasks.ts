@@ -1,13 +1,38 @@
 /**
  * Task API route handlers.
  *
- * Handles task listing and toggling across vault directories.
+ * Handles task listing, toggling, and editing across vault directories.
  */
 
+import { relative } from "node:path";
 import type { Context } from "hono";
 import type { ContentfulStatusCode } from "hono/utils/http-status";
+import type { z } from "zod";
+import {
+  CreateTaskRequestSchema,
+  EditTaskRequestSchema,
+  MoveTaskRequestSchema,
+  getDailyNotePath,
+  resolveTaskStates,
+  getDoneTaskStates,
+  resolveTaskStateCycle,
+  resolveAutoCompleteParentTasks,
+  parseClientTimestamp,
+  type TaskFields,
+} from "@memory-loop/shared";
 import { getCachedVaultById, loadVaultConfig } from "../vault";
-import { getAllTasks, toggleTask } from "../files/task-manager";
+import {
+  getAllTasks,
+  toggleTask,
+  addTask,
+  editTask,
+  deleteTask,
+  moveTask,
+  type TaskWriteResult,
+} from "../files/task-manager";
+import { parseRecurrence } from "../files/task-recurrence";
+import { rolloverTasks } from "../files/task-rollover";
+import { createDailyNoteContent } from "../files/note-capture";
 
 function jsonError(
   c: Context,
@@ -36,6 +61,17 @@ export async function listTasksHandler(c: Context): Promise<Response> {
 
 /**
  * PATCH /vaults/:id/tasks - Toggle a task's state.
+ *
+ * Without `newState`, the task moves to the next state in the vault's
+ * configured cycle ([ ] and [x] by default).
+ *
+ * Completing a recurring task also inserts its next occurrence after it and
+ * its subtasks; the response's `nextTask` says where. When the vault enables
+ * `autoCompleteParentTasks`, parents completed along with the task are
+ * listed in `completedParents`. An optional `timestamp` dates completions
+ * for toggles queued offline, and an optional `expectedText` guards them:
+ * if the line no longer holds that task, nothing changes and the response
+ * is 409 TASK_CHANGED.
  */
 export async function toggleTaskHandler(c: Context): Promise<Response> {
   const vaultId = c.req.param("id") ?? "";
@@ -55,10 +91,12 @@ export async function toggleTaskHandler(c: Context): Promise<Response> {
     return jsonError(c, "Request body must be an object", "INVALID_REQUEST", 400);
   }
 
-  const { filePath, lineNumber, newState } = body as {
+  const { filePath, lineNumber, newState, expectedText, timestamp } = body as {
     filePath?: string;
     lineNumber?: number;
     newState?: string;
+    expectedText?: unknown;
+    timestamp?: unknown;
   };
 
   if (typeof filePath !== "string" || typeof lineNumber !== "number") {
@@ -70,10 +108,235 @@ export async function toggleTaskHandler(c: Context): Promise<Response> {
     );
   }
 
-  const result = await toggleTask(vault.contentRoot, filePath, lineNumber, newState);
+  if (expectedText !== undefined && typeof expectedText !== "string") {
+    return jsonError(c, "expectedText must be a string", "INVALID_REQUEST", 400);
+  }
+
+  const date = parseClientTimestamp(timestamp);
+  if (date === null) {
+    return jsonError(c, "timestamp must be an ISO 8601 string or epoch milliseconds", "INVALID_REQUEST", 400);
+  }
+
+  const config = await loadVaultConfig(vault.path);
+  const result = await toggleTask(vault.contentRoot, filePath, lineNumber, newState, {
+    cycle: resolveTaskStateCycle(config),
+    doneStates: getDoneTaskStates(resolveTaskStates(config)),
+    autoCompleteParents: resolveAutoCompleteParentTasks(config),
+    date,
+    expectedText,
+  });
+  if (result.conflict) {
+    return jsonError(c, result.error ?? "Task changed", "TASK_CHANGED", 409);
+  }
   if (!result.success) {
     return jsonError(c, result.error ?? "Toggle failed", "TOGGLE_FAILED", 400);
   }
 
+  return c.json({ ...result, filePath, lineNumber });
+}
+
+/**
+ * Parses and validates a JSON request body. Returns the data, or an error
+ * response to send back.
+ */
+async function parseBody<T extends z.ZodTypeAny>(
+  c: Context,
+  schema: T,
+): Promise<z.infer<T> | Response> {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return jsonError(c, "Invalid JSON body", "INVALID_REQUEST", 400);
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    return jsonError(
+      c,
+      result.error.issues[0]?.message ?? "Invalid request",
+      "INVALID_REQUEST",
+      400,
+    );
+  }
+  const data: z.infer<T> = result.data;
+  return data;
+}
+
+/**
+ * Rejects recurrence rules the daemon can't compute a next date for.
+ */
+function checkRecurrence(c: Context, fields: TaskFields): Response | null {
+  if (fields.recurrence && !parseRecurrence(fields.recurrence)) {
+    return jsonError(
+      c,
+      `Unsupported recurrence rule: "${fields.recurrence}"`,
+      "INVALID_REQUEST",
+      400,
+    );
+  }
+  return null;
+}
+
+function writeResponse(c: Context, result: TaskWriteResult): Response {
+  if (result.conflict) {
+    return jsonError(c, result.error ?? "Task changed", "TASK_CHANGED", 409);
+  }
+  if (!result.success) {
+    return jsonError(c, result.error ?? "Task update failed", "TASK_WRITE_FAILED", 400);
+  }
   return c.json(result);
 }
+
+/**
+ * POST /vaults/:id/tasks - Create a task.
+ *
+ * Body: { text, filePath?, heading?, dueDate?, scheduledDate?, startDate?, priority?, recurrence? }
+ * Without filePath the task is added to today's daily note, which is
+ * created if needed.
+ */
+export async function createTaskHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  const body = await parseBody(c, CreateTaskRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+  const invalid = checkRecurrence(c, body);
+  if (invalid) {
+    return invalid;
+  }
+
+  const { text, filePath, heading, ...fields } = body;
+  const now = new Date();
+  const dailyNotePath = relative(vault.contentRoot, getDailyNotePath(vault, now)).split("\\").join("/");
+
+  const result = await addTask(
+    vault.contentRoot,
+    filePath ?? dailyNotePath,
+    { ...fields, description: text },
+    { heading, template: filePath ? undefined : await createDailyNoteContent(vault, now) },
+  );
+  if (!result.success) {
+    return writeResponse(c, result);
+  }
+  return c.json(result, 201);
+}
+
+/**
+ * PUT /vaults/:id/tasks - Edit a task's text and metadata in place.
+ *
+ * Body: { filePath, lineNumber, expectedText?, text?, dueDate?, scheduledDate?, startDate?, priority?, recurrence? }
+ * Omitted fields are unchanged; null removes a metadata field. If the line
+ * no longer holds `expectedText`, the response is 409 TASK_CHANGED.
+ */
+export async function editTaskHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  const body = await parseBody(c, EditTaskRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+  const invalid = checkRecurrence(c, body);
+  if (invalid) {
+    return invalid;
+  }
+
+  const { filePath, lineNumber, text, expectedText, ...fields } = body;
+  const result = await editTask(
+    vault.contentRoot,
+    filePath,
+    lineNumber,
+    { ...fields, description: text },
+    { expectedText, history: vault },
+  );
+  return writeResponse(c, result);
+}
+
+/**
+ * DELETE /vaults/:id/tasks?filePath=...&lineNumber=...&expectedText=... - Remove a task line.
+ * If the line no longer holds `expectedText`, the response is 409 TASK_CHANGED.
+ */
+export async function deleteTaskHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  const filePath = c.req.query("filePath");
+  const lineNumber = Number(c.req.query("lineNumber"));
+  if (!filePath || !Number.isInteger(lineNumber) || lineNumber < 1) {
+    return jsonError(
+      c,
+      "Missing required query parameters: filePath, lineNumber",
+      "INVALID_REQUEST",
+      400,
+    );
+  }
+
+  const result = await deleteTask(vault.contentRoot, filePath, lineNumber, {
+    expectedText: c.req.query("expectedText"),
+    history: vault,
+  });
+  return writeResponse(c, result);
+}
+
+/**
+ * POST /vaults/:id/tasks/move - Move a task to another file or section.
+ *
+ * Body: { filePath, lineNumber, toFilePath, heading?, expectedText? }
+ * If the line no longer holds `expectedText`, the response is 409 TASK_CHANGED.
+ */
+export async function moveTaskHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  const body = await parseBody(c, MoveTaskRequestSchema);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  const result = await moveTask(
+    vault.contentRoot,
+    body.filePath,
+    body.lineNumber,
+    body.toFilePath,
+    body.heading,
+    { expectedText: body.expectedText, history: vault },
+  );
+  return writeResponse(c, result);
+}
+
+/**
+ * POST /vaults/:id/tasks/rollover - Roll unfinished tasks from earlier daily
+ * notes into today's, using the vault's rollover settings. Runs whether or
+ * not the daily rollover is enabled.
+ *
+ * Response: { notePath, tasks, sources }
+ */
+export async function rolloverTasksHandler(c: Context): Promise<Response> {
+  const vaultId = c.req.param("id") ?? "";
+  const vault = await getCachedVaultById(vaultId);
+  if (!vault) {
+    return jsonError(c, "Vault not found", "VAULT_NOT_FOUND", 404);
+  }
+
+  try {
+    return c.json(await rolloverTasks(vault));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return jsonError(c, `Task rollover failed: ${message}`, "ROLLOVER_FAILED", 500);
+  }
+}
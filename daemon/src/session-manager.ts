@@ -6,11 +6,12 @@
  */
 
 import { mkdir, readFile, writeFile, readdir, unlink } from "node:fs/promises";
-import { join } from "node:path";
+import { isAbsolute, join, relative, resolve } from "node:path";
 import type {
   Query,
   SDKMessage,
   Options,
+  HookCallback,
   SlashCommand as SDKSlashCommand,
 } from "@anthropic-ai/claude-agent-sdk";
 import { getSdkQuery, type QueryFunction } from "./sdk-provider";
@@ -24,7 +25,7 @@ export type { SessionMetadata, ConversationMessage } from "@memory-loop/shared";
 // Re-export QueryFunction for backward compatibility
 export type { QueryFunction } from "./sdk-provider";
 import type { SessionMetadata, VaultInfo, RecentDiscussionEntry, ConversationMessage } from "@memory-loop/shared";
-import { directoryExists, fileExists } from "@memory-loop/shared/server";
+import { directoryExists, fileExists, resolveContentRoot } from "@memory-loop/shared/server";
 import { getVaultById } from "./vault/vault-manager";
 import {
   initializeTranscript,
@@ -38,6 +39,7 @@ const log = createLogger("Session");
 import { createVaultTransferServer } from "./vault-transfer";
 import { isSessionExpiryError } from "./streaming/event-translator";
 import { loadVaultConfig } from "./vault/vault-config";
+import { snapshotFile, type HistoryVault } from "./files/file-history";
 import { resolveRecentDiscussions, resolveDiscussionModel } from "@memory-loop/shared";
 
 /**
@@ -778,6 +780,41 @@ function createCanUseTool(
   };
 }
 
+/** Tools that modify files; matched by the history hook */
+const FILE_EDIT_TOOLS = "Edit|Write|MultiEdit|NotebookEdit";
+
+/**
+ * Creates a PreToolUse hook that snapshots a vault file before an edit tool
+ * changes it. Discussion mode accepts edits without asking, so this is what
+ * lets the user roll back an AI change from the file's history.
+ */
+export function createFileHistoryHook(vault: HistoryVault): HookCallback {
+  return async (input) => {
+    if (input.hook_event_name !== "PreToolUse") {
+      return { continue: true };
+    }
+
+    const toolInput = input.tool_input as { file_path?: unknown; notebook_path?: unknown };
+    const filePath = toolInput.file_path ?? toolInput.notebook_path;
+    if (typeof filePath !== "string") {
+      return { continue: true };
+    }
+
+    const absolute = isAbsolute(filePath) ? filePath : resolve(vault.path, filePath);
+    const relativePath = relative(vault.contentRoot, absolute);
+    const isInContent =
+      relativePath !== "" &&
+      !relativePath.startsWith("..") &&
+      !isAbsolute(relativePath) &&
+      !relativePath.split("/").some((segment) => segment.startsWith("."));
+
+    if (isInContent) {
+      await snapshotFile(vault, relativePath, "ai");
+    }
+    return { continue: true };
+  };
+}
+
 /**
  * Input for preparing per-turn SDK options.
  */
@@ -790,13 +827,17 @@ export interface TurnPrepInput {
 
 /**
  * Assembles SDK options for a single turn. Handles vault config loading,
- * model resolution, and MCP server setup. Used by both createSession()
- * and resumeSession() to eliminate duplicated option construction.
+ * model resolution, MCP server setup, and the file history hook. Used by both
+ * createSession() and resumeSession() to eliminate duplicated option construction.
  */
 export async function prepareTurnOptions(input: TurnPrepInput): Promise<Partial<Options>> {
   const config = await loadVaultConfig(input.vaultPath);
   const model = resolveDiscussionModel(config);
   const vaultTransferServer = createVaultTransferServer();
+  const historyHook = createFileHistoryHook({
+    path: input.vaultPath,
+    contentRoot: resolveContentRoot(input.vaultPath, config),
+  });
 
   return {
     ...DISCUSSION_MODE_OPTIONS,
@@ -808,6 +849,13 @@ export async function prepareTurnOptions(input: TurnPrepInput): Promise<Partial<
       ...input.additionalOptions?.mcpServers,
       "vault-transfer": vaultTransferServer,
     },
+    hooks: {
+      ...input.additionalOptions?.hooks,
+      PreToolUse: [
+        ...(input.additionalOptions?.hooks?.PreToolUse ?? []),
+        { matcher: FILE_EDIT_TOOLS, hooks: [historyHook] },
+      ],
+    },
     ...(input.canUseTool ? { canUseTool: input.canUseTool } : {}),
   };
 }
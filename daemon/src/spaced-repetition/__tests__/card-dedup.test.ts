@@ -12,6 +12,7 @@ import {
   verifyDuplicateWithLLM,
   verifyDuplicatesWithLLM,
   checkAndHandleDuplicate,
+  checkAndHandleClozeDuplicate,
   createDedupContext,
   createDedupStats,
   STOPWORDS,
@@ -106,6 +107,14 @@ function createMockCard(
   };
 }
 
+function createMockClozeCard(id: string, text: string, clozeIndex: number): Card {
+  const card = createMockCard(id, `Question ${clozeIndex}`);
+  return {
+    metadata: { ...card.metadata, type: "cloze", cloze_index: clozeIndex },
+    content: { ...card.content, text },
+  };
+}
+
 afterEach(() => {
   _resetForTesting();
 });
@@ -604,6 +613,57 @@ describe("checkAndHandleDuplicate", () => {
   });
 });
 
+describe("checkAndHandleClozeDuplicate", () => {
+  const mockVaultPathInfo = {
+    contentRoot: "/test/vault",
+    metadataPath: "06_Metadata/memory-loop",
+  };
+  const text = "The {{c1::Eiffel Tower}} was finished in {{c2::1889}}.";
+
+  it("archives every sibling of a passage with the same text without asking the LLM", async () => {
+    const counter = { count: 0 };
+    configureSdkForTesting(createCountingMockSdk("YES", counter));
+    const mockArchiveCard = spyOn(cardStorage, "archiveCard").mockResolvedValue(true);
+
+    const other = createMockCard("qa-1", "What is the capital of France?");
+    const context = createDedupContext(
+      [createMockClozeCard("c-1", text, 1), createMockClozeCard("c-2", `  ${text}\n`, 2), other],
+      mockVaultPathInfo
+    );
+    const stats = createDedupStats();
+
+    const result = await checkAndHandleClozeDuplicate(text, context, stats);
+
+    expect(result.isDuplicate).toBe(false);
+    expect(counter.count).toBe(0);
+    expect(stats.duplicatesDetected).toBe(1);
+    expect(stats.duplicatesArchived).toBe(2);
+    expect(mockArchiveCard).toHaveBeenCalledWith(mockVaultPathInfo, "c-1");
+    expect(mockArchiveCard).toHaveBeenCalledWith(mockVaultPathInfo, "c-2");
+    expect(context.existingCards).toEqual([other]);
+
+    mockArchiveCard.mockRestore();
+  });
+
+  it("archives every sibling of a cloze card the LLM confirms", async () => {
+    configureSdkForTesting(createMockSdk("YES"));
+    const mockArchiveCard = spyOn(cardStorage, "archiveCard").mockResolvedValue(true);
+
+    const oldText = "The {{c1::Eiffel Tower}} was finished in {{c2::1889}}!";
+    const siblings = [createMockClozeCard("c-1", oldText, 1), createMockClozeCard("c-2", oldText, 2)];
+    siblings[0].content.question = "The [...] was finished in 1889!";
+    const context = createDedupContext(siblings, mockVaultPathInfo);
+    const stats = createDedupStats();
+
+    await checkAndHandleClozeDuplicate(text, context, stats);
+
+    expect(stats.duplicatesArchived).toBe(2);
+    expect(context.existingCards).toHaveLength(0);
+
+    mockArchiveCard.mockRestore();
+  });
+});
+
 // =============================================================================
 // Helper Function Tests
 // =============================================================================
@@ -29,6 +29,7 @@ import {
   createEmptyState,
 } from "../card-discovery-state";
 import * as cardGenerator from "../card-generator";
+import { saveCardGeneratorConfig } from "../card-generator-config";
 import * as cardManager from "../card-manager";
 import { resetCache } from "../../vault/vault-cache";
 
@@ -583,6 +584,81 @@ describe("runDailyPass", () => {
     expect(stats.errors).toBe(0);
   });
 
+  it("creates cloze cards when enabled in the generator config", async () => {
+    const vaultPath = await createTestVault(join(testDir, "vaults"), "test-vault");
+    await createMarkdownFile(vaultPath, "paris.md", "# Paris\nThe Eiffel Tower opened in 1889.");
+    await saveCardGeneratorConfig({ clozeCards: true });
+
+    const mockGenerate = spyOn(cardGenerator, "createQACardGenerator").mockImplementation(() => ({
+      type: "qa",
+      generate: () => Promise.resolve({ success: true, cards: [] }),
+    }));
+    const mockClozeGenerate = spyOn(cardGenerator, "createClozeCardGenerator").mockImplementation(() => ({
+      type: "cloze",
+      generate: () =>
+        Promise.resolve({
+          success: true,
+          cards: [{ text: "The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris}}." }],
+        }),
+    }));
+
+    const getNow = () => new Date("2026-01-24T03:00:00Z");
+    const stats = await runDailyPass(getNow);
+
+    expect(stats.cardsCreated).toBe(2);
+    expect(stats.errors).toBe(0);
+
+    mockGenerate.mockRestore();
+    mockClozeGenerate.mockRestore();
+  });
+
+  it("skips cloze generation by default", async () => {
+    const vaultPath = await createTestVault(join(testDir, "vaults"), "test-vault");
+    await createMarkdownFile(vaultPath, "note.md", "# Test Note\nThe sky is blue.");
+
+    const mockGenerate = spyOn(cardGenerator, "createQACardGenerator").mockImplementation(() => ({
+      type: "qa",
+      generate: () => Promise.resolve({ success: true, cards: [] }),
+    }));
+    const mockClozeGenerate = spyOn(cardGenerator, "createClozeCardGenerator");
+
+    const getNow = () => new Date("2026-01-24T03:00:00Z");
+    await runDailyPass(getNow);
+
+    expect(mockClozeGenerate).not.toHaveBeenCalled();
+
+    mockGenerate.mockRestore();
+    mockClozeGenerate.mockRestore();
+  });
+
+  it("leaves the file for retry without creating Q&A cards when cloze generation hits a retriable error", async () => {
+    const vaultPath = await createTestVault(join(testDir, "vaults"), "test-vault");
+    await createMarkdownFile(vaultPath, "note.md", "# Test Note\nThe sky is blue.");
+    await saveCardGeneratorConfig({ clozeCards: true });
+
+    const mockGenerate = spyOn(cardGenerator, "createQACardGenerator").mockImplementation(() => ({
+      type: "qa",
+      generate: () => Promise.resolve({ success: true, cards: [{ question: "Sky color?", answer: "Blue" }] }),
+    }));
+    const mockClozeGenerate = spyOn(cardGenerator, "createClozeCardGenerator").mockImplementation(() => ({
+      type: "cloze",
+      generate: () => Promise.resolve({ success: false, error: "rate limit exceeded", retriable: true }),
+    }));
+    const mockCreateCard = spyOn(cardManager, "createCard");
+
+    const getNow = () => new Date("2026-01-24T03:00:00Z");
+    const stats = await runDailyPass(getNow);
+
+    expect(stats.filesRetriable).toBe(1);
+    expect(mockCreateCard).not.toHaveBeenCalled();
+    const state = await readDiscoveryState();
+    expect(state.processedFiles[join(vaultPath, "note.md")]).toBeUndefined();
+
+    mockGenerate.mockRestore();
+    mockClozeGenerate.mockRestore();
+    mockCreateCard.mockRestore();
+  });
+
   it("logs progress and updates state", async () => {
     const vaultPath = await createTestVault(join(testDir, "vaults"), "test-vault");
     await createMarkdownFile(vaultPath, "note.md", "# Test Note");
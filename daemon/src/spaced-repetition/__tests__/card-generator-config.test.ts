@@ -139,6 +139,19 @@ describe("card-generator-config", () => {
       expect(loaded.weeklyByteLimit).toBe(1000000);
     });
 
+    test("defaults cloze cards to off", async () => {
+      const config = await loadCardGeneratorConfig();
+      expect(config.clozeCards).toBe(false);
+    });
+
+    test("keeps fields that aren't being saved", async () => {
+      await saveCardGeneratorConfig({ weeklyByteLimit: 1000000, clozeCards: true });
+      await saveCardGeneratorConfig({ weeklyByteLimit: 2000000 });
+
+      const loaded = await loadCardGeneratorConfig();
+      expect(loaded).toEqual({ weeklyByteLimit: 2000000, clozeCards: true });
+    });
+
     test("returns default for invalid JSON", async () => {
       const configPath = getConfigFilePath();
       await mkdir(join(testDir, ".config/memory-loop"), { recursive: true });
@@ -8,9 +8,13 @@
 import { describe, test, expect, afterEach } from "bun:test";
 import {
   QACardGenerator,
+  ClozeCardGenerator,
   createQACardGenerator,
+  createClozeCardGenerator,
   buildQAExtractionPrompt,
+  buildClozeExtractionPrompt,
   parseQAResponse,
+  parseClozeResponse,
   GENERATION_MODEL,
   MIN_CONTENT_LENGTH,
   MAX_CONTENT_LENGTH,
@@ -505,6 +509,87 @@ describe("createQACardGenerator", () => {
   });
 });
 
+// =============================================================================
+// Cloze Generation Tests
+// =============================================================================
+
+describe("parseClozeResponse", () => {
+  test("parses passages with cloze deletions", () => {
+    const response = `[
+      {"text": "  The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris}}.  "},
+      {"text": "Water boils at {{c1::100}} degrees Celsius."}
+    ]`;
+
+    expect(parseClozeResponse(response)).toEqual([
+      { text: "The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris}}." },
+      { text: "Water boils at {{c1::100}} degrees Celsius." },
+    ]);
+  });
+
+  test("drops passages without a deletion and non-string text", () => {
+    const response = JSON.stringify([{ text: "No deletions here." }, { text: 42 }, { question: "Q" }]);
+
+    expect(parseClozeResponse(response)).toEqual([]);
+  });
+
+  test("parses JSON wrapped in markdown code block", () => {
+    const response = '```json\n[{"text": "{{c1::Rust}} has no garbage collector."}]\n```';
+
+    expect(parseClozeResponse(response)).toHaveLength(1);
+  });
+});
+
+describe("buildClozeExtractionPrompt", () => {
+  test("includes content, file path, and cloze syntax", () => {
+    const prompt = buildClozeExtractionPrompt("Some facts", "notes/facts.md");
+
+    expect(prompt).toContain("Some facts");
+    expect(prompt).toContain("notes/facts.md");
+    expect(prompt).toContain("{{c1::");
+    expect(prompt).toContain("respond with: []");
+  });
+});
+
+describe("ClozeCardGenerator", () => {
+  test("has type 'cloze'", () => {
+    const generator = createClozeCardGenerator();
+
+    expect(generator).toBeInstanceOf(ClozeCardGenerator);
+    expect(generator.type).toBe("cloze");
+  });
+
+  test("extracts cloze passages from content", async () => {
+    const calls: Array<{ prompt: string; options: unknown }> = [];
+    configureSdkForTesting(
+      createCapturingMockSdk('[{"text": "TypeScript is a typed superset of {{c1::JavaScript}}."}]', calls)
+    );
+
+    const content = "TypeScript is a typed superset of JavaScript. ".repeat(10);
+    const result = await createClozeCardGenerator().generate(content, "notes/ts.md");
+
+    expect(result).toEqual({
+      success: true,
+      cards: [{ text: "TypeScript is a typed superset of {{c1::JavaScript}}." }],
+    });
+    expect(calls[0].prompt).toContain("cloze deletion");
+  });
+
+  test("skips content below minimum length", async () => {
+    const result = await createClozeCardGenerator().generate("Too short", "short.md");
+
+    expect(result).toEqual({ success: true, cards: [], skipped: true });
+  });
+
+  test("reports retriable errors", async () => {
+    configureSdkForTesting(createErrorMockSdk(new Error("Rate limit exceeded")));
+
+    const content = "Some content to extract from. ".repeat(10);
+    const result = await createClozeCardGenerator().generate(content, "notes.md");
+
+    expect(result).toEqual({ success: false, error: "Rate limit exceeded", retriable: true });
+  });
+});
+
 // =============================================================================
 // Integration-Style Tests
 // =============================================================================
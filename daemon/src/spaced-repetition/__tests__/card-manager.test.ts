@@ -15,9 +15,14 @@ import {
   submitReview,
   archiveCard,
   createCard,
+  createClozeCards,
+  optimizeFSRS,
   type CreateCardInput,
 } from "../card-manager";
 import { saveCard, getCardPath, getArchivedCardPath } from "../card-storage";
+import { appendReviewLog, readReviewLog } from "../review-log";
+import { DEFAULT_FSRS_PARAMETERS } from "../fsrs-algorithm";
+import { loadFSRSParameters } from "../fsrs-optimizer";
 import type { VaultPathInfo } from "../card-storage";
 import type { Card } from "../card-schema";
 
@@ -327,6 +332,157 @@ describe("card-manager", () => {
         expect(result.error).toContain("not found");
       }
     });
+
+    test("logs each review with its intervals and time to answer", async () => {
+      const card = makeCard({
+        id: "550e8400-e29b-41d4-a716-446655440046",
+      });
+      await saveCard(vault, card);
+      const reviewedAt = new Date("2026-01-23T09:30:00.000Z");
+
+      await submitReview(vault, card.metadata.id, "good", "2026-01-23", { reviewedAt, timeToAnswerMs: 5300 });
+      await submitReview(vault, card.metadata.id, "hard", "2026-01-25");
+
+      const entries = await readReviewLog(vault);
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toEqual({
+        card_id: card.metadata.id,
+        date: "2026-01-23",
+        timestamp: "2026-01-23T09:30:00.000Z",
+        response: "good",
+        elapsed_days: null,
+        previous_interval: 0,
+        interval: 1,
+        time_to_answer_ms: 5300,
+      });
+      expect(entries[1]).toMatchObject({
+        date: "2026-01-25",
+        response: "hard",
+        elapsed_days: 2,
+        previous_interval: 1,
+        time_to_answer_ms: null,
+      });
+    });
+
+    test("schedules new cards with FSRS when selected", async () => {
+      const today = "2026-01-23";
+      const card = makeCard({
+        id: "550e8400-e29b-41d4-a716-446655440047",
+      });
+      await saveCard(vault, card);
+
+      const result = await submitReview(vault, card.metadata.id, "good", today, { algorithm: "fsrs" });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.metadata.stability).toBe(Math.round(DEFAULT_FSRS_PARAMETERS[2] * 10_000) / 10_000);
+        expect(result.data.metadata.difficulty).toBeGreaterThan(1);
+        expect(result.data.metadata.interval).toBe(3);
+        expect(result.data.metadata.next_review).toBe("2026-01-26");
+        // Ease factor is left alone so switching back to SM-2 resumes cleanly
+        expect(result.data.metadata.ease_factor).toBe(2.5);
+      }
+
+      const content = await readFile(getCardPath(vault, card.metadata.id), "utf-8");
+      expect(content).toContain("stability: 3.173");
+    });
+
+    test("migrates SM-2 cards to FSRS from their current interval", async () => {
+      const card = makeCard({
+        id: "550e8400-e29b-41d4-a716-446655440048",
+        last_reviewed: "2026-01-13",
+        next_review: "2026-01-23",
+        interval: 10,
+        repetitions: 3,
+      });
+      await saveCard(vault, card);
+
+      const result = await submitReview(vault, card.metadata.id, "good", "2026-01-23", { algorithm: "fsrs" });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.metadata.stability).toBeGreaterThan(10);
+        expect(result.data.metadata.interval).toBeGreaterThan(10);
+        expect(result.data.metadata.repetitions).toBe(4);
+      }
+    });
+
+    test("clears FSRS state when reviewed with SM-2", async () => {
+      const card = makeCard({
+        id: "550e8400-e29b-41d4-a716-446655440049",
+        last_reviewed: "2026-01-13",
+        interval: 10,
+        repetitions: 3,
+        stability: 12.5,
+        difficulty: 4.2,
+      });
+      await saveCard(vault, card);
+
+      const result = await submitReview(vault, card.metadata.id, "good", "2026-01-23");
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.metadata.stability).toBeUndefined();
+        expect(result.data.metadata.difficulty).toBeUndefined();
+        expect(result.data.metadata.interval).toBe(25);
+      }
+      const content = await readFile(getCardPath(vault, card.metadata.id), "utf-8");
+      expect(content).not.toContain("stability");
+    });
+  });
+
+  // =============================================================================
+  // optimizeFSRS Tests
+  // =============================================================================
+
+  describe("optimizeFSRS", () => {
+    async function logHistory(cardId: string, reviews: Array<[string, "again" | "hard" | "good" | "easy"]>) {
+      let previous: string | null = null;
+      for (const [date, response] of reviews) {
+        await appendReviewLog(vault, {
+          card_id: cardId,
+          date,
+          timestamp: `${date}T09:00:00.000Z`,
+          response,
+          elapsed_days: previous === null ? null : Math.round((Date.parse(date) - Date.parse(previous)) / 86_400_000),
+        });
+        previous = date;
+      }
+    }
+
+    test("returns error when the log is too short", async () => {
+      await logHistory("550e8400-e29b-41d4-a716-446655440050", [
+        ["2026-01-01", "good"],
+        ["2026-01-04", "good"],
+      ]);
+
+      const result = await optimizeFSRS(vault);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe("Not enough reviews to optimize: 1 of 100 needed");
+      }
+    });
+
+    test("fits and saves parameters used by later reviews", async () => {
+      for (let i = 0; i < 50; i++) {
+        await logHistory(`550e8400-e29b-41d4-a716-${String(i).padStart(12, "0")}`, [
+          ["2026-01-01", "good"],
+          ["2026-01-04", i % 3 === 0 ? "good" : "again"],
+          ["2026-01-11", "again"],
+        ]);
+      }
+
+      const result = await optimizeFSRS(vault, new Date("2026-01-23T12:00:00.000Z"));
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.reviewCount).toBe(100);
+        expect(result.data.cardCount).toBe(50);
+        expect(result.data.lossAfter).toBeLessThan(result.data.lossBefore);
+        expect(await loadFSRSParameters(vault)).toEqual(result.data.parameters);
+      }
+    });
   });
 
   // =============================================================================
@@ -525,6 +681,61 @@ describe("card-manager", () => {
     });
   });
 
+  // =============================================================================
+  // createClozeCards Tests
+  // =============================================================================
+
+  describe("createClozeCards", () => {
+    const text = "The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris}}.";
+
+    test("creates one sibling card per deletion number", async () => {
+      const result = await createClozeCards(vault, { text, sourceFile: "notes/paris.md" }, "2026-01-23");
+
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      expect(result.data.map((card) => card.metadata.cloze_index)).toEqual([1, 2]);
+      expect(result.data[0].metadata.id).not.toBe(result.data[1].metadata.id);
+      expect(result.data[1].metadata).toMatchObject({
+        type: "cloze",
+        next_review: "2026-01-23",
+        interval: 0,
+        source_file: "notes/paris.md",
+      });
+      expect(result.data[1].content.question).toBe("The Eiffel Tower opened in 1889 in [...].");
+    });
+
+    test("saves cards that load back with the same content", async () => {
+      const result = await createClozeCards(vault, { text }, "2026-01-23");
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const loaded = await getCard(vault, result.data[0].metadata.id);
+      expect(loaded.success).toBe(true);
+      if (loaded.success) {
+        expect(loaded.data.content).toEqual(result.data[0].content);
+      }
+    });
+
+    test("rejects text without deletions", async () => {
+      const result = await createClozeCards(vault, { text: "No deletions" }, "2026-01-23");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe("Text has no cloze deletions");
+      }
+    });
+
+    test("rejects empty text", async () => {
+      const result = await createClozeCards(vault, { text: "   " }, "2026-01-23");
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toBe("Text is required");
+      }
+    });
+  });
+
   // =============================================================================
   // Integration: Full Review Cycle
   // =============================================================================
@@ -22,6 +22,7 @@ import {
   parseDate,
   getToday,
   addDays,
+  daysBetween,
   isDueToday,
   type CardMetadata,
   type QACardContent,
@@ -207,6 +208,17 @@ describe("card-schema", () => {
       const result = CardMetadataSchema.parse(metadataWithoutReps);
       expect(result.repetitions).toBe(0);
     });
+
+    test("accepts FSRS memory state", () => {
+      const result = CardMetadataSchema.parse({ ...validMetadata, stability: 12.5, difficulty: 4.2 });
+      expect(result.stability).toBe(12.5);
+      expect(result.difficulty).toBe(4.2);
+    });
+
+    test("rejects out-of-range FSRS memory state", () => {
+      expect(() => CardMetadataSchema.parse({ ...validMetadata, stability: 0 })).toThrow();
+      expect(() => CardMetadataSchema.parse({ ...validMetadata, difficulty: 11 })).toThrow();
+    });
   });
 
   // =============================================================================
@@ -310,6 +322,25 @@ describe("card-schema", () => {
       const result = CardSchema.safeParse(card);
       expect(result.success).toBe(false);
     });
+
+    test("accepts cloze card and keeps its text", () => {
+      const result = CardSchema.safeParse({
+        metadata: { ...validCard.metadata, type: "cloze", cloze_index: 1 },
+        content: { text: "{{c1::SM-2}} is an algorithm", question: "[...] is an algorithm", answer: "**SM-2** is an algorithm" },
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.content).toHaveProperty("text", "{{c1::SM-2}} is an algorithm");
+      }
+    });
+
+    test("rejects cloze_index below 1", () => {
+      const result = CardSchema.safeParse({
+        ...validCard,
+        metadata: { ...validCard.metadata, type: "cloze", cloze_index: 0 },
+      });
+      expect(result.success).toBe(false);
+    });
   });
 
   // =============================================================================
@@ -632,6 +663,24 @@ describe("card-schema", () => {
     });
   });
 
+  describe("daysBetween", () => {
+    test("counts days forward", () => {
+      expect(daysBetween("2026-01-23", "2026-01-28")).toBe(5);
+    });
+
+    test("handles month and year rollover", () => {
+      expect(daysBetween("2026-12-28", "2027-01-02")).toBe(5);
+    });
+
+    test("is negative when the second date is earlier", () => {
+      expect(daysBetween("2026-01-23", "2026-01-18")).toBe(-5);
+    });
+
+    test("throws for invalid date string", () => {
+      expect(() => daysBetween("bad-date", "2026-01-23")).toThrow("Invalid date");
+    });
+  });
+
   describe("isDueToday", () => {
     test("returns true when next_review equals today", () => {
       expect(isDueToday("2026-01-23", "2026-01-23")).toBe(true);
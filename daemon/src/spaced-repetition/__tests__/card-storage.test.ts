@@ -355,6 +355,97 @@ Answer here
         expect(result.error).toContain("Question is required");
       }
     });
+
+    test("parses cloze card and renders its question and answer", () => {
+      const content = `---
+id: "550e8400-e29b-41d4-a716-446655440000"
+type: "cloze"
+cloze_index: 2
+created_date: "2026-01-23"
+last_reviewed: null
+next_review: "2026-01-23"
+---
+
+## Text
+
+The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris::city}}.
+`;
+
+      const result = parseCardFile(content);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.card.metadata.cloze_index).toBe(2);
+        expect(result.card.content).toEqual({
+          text: "The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris::city}}.",
+          question: "The Eiffel Tower opened in 1889 in [city].",
+          answer: "The Eiffel Tower opened in 1889 in **Paris**.",
+        });
+      }
+    });
+
+    test("returns error for cloze card without Text section", () => {
+      const content = `---
+id: "550e8400-e29b-41d4-a716-446655440000"
+type: "cloze"
+cloze_index: 1
+created_date: "2026-01-23"
+last_reviewed: null
+next_review: "2026-01-23"
+---
+
+## Question
+Q
+`;
+
+      const result = parseCardFile(content);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain("Missing '## Text' section");
+      }
+    });
+
+    test("returns error for cloze card whose text lacks its deletion", () => {
+      const content = `---
+id: "550e8400-e29b-41d4-a716-446655440000"
+type: "cloze"
+cloze_index: 3
+created_date: "2026-01-23"
+last_reviewed: null
+next_review: "2026-01-23"
+---
+
+## Text
+
+Only {{c1::one}} deletion.
+`;
+
+      const result = parseCardFile(content);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain("no c3 cloze deletion");
+      }
+    });
+
+    test("returns error for cloze card without cloze_index", () => {
+      const content = `---
+id: "550e8400-e29b-41d4-a716-446655440000"
+type: "cloze"
+created_date: "2026-01-23"
+last_reviewed: null
+next_review: "2026-01-23"
+---
+
+## Text
+
+Only {{c1::one}} deletion.
+`;
+
+      const result = parseCardFile(content);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain("missing cloze_index");
+      }
+    });
   });
 
   // =============================================================================
@@ -412,11 +503,34 @@ Answer here
       expect(output).not.toContain("source_file");
     });
 
+    test("includes FSRS state only when present", () => {
+      expect(serializeCard(card)).not.toContain("stability");
+
+      const output = serializeCard({
+        ...card,
+        metadata: { ...card.metadata, stability: 12.5, difficulty: 4.2 },
+      });
+      expect(output).toContain("stability: 12.5");
+      expect(output).toContain("difficulty: 4.2");
+    });
+
     test("includes question and answer content", () => {
       const output = serializeCard(card);
       expect(output).toContain(card.content.question);
       expect(output).toContain(card.content.answer);
     });
+
+    test("writes cloze cards as a Text section with cloze_index", () => {
+      const output = serializeCard({
+        metadata: { ...card.metadata, type: "cloze", cloze_index: 1 },
+        content: { text: "{{c1::Paris}} is in France.", question: "[...] is in France.", answer: "**Paris** is in France." },
+      });
+
+      expect(output).toContain("cloze_index: 1");
+      expect(output).toContain("## Text\n\n{{c1::Paris}} is in France.\n");
+      expect(output).not.toContain("## Question");
+      expect(serializeCard(card)).not.toContain("cloze_index");
+    });
   });
 
   // =============================================================================
@@ -462,6 +576,35 @@ Answer here
       }
     });
 
+    test("cloze card survives serialization and parsing", () => {
+      const original: Card = {
+        metadata: {
+          id: "550e8400-e29b-41d4-a716-446655440000",
+          type: "cloze",
+          cloze_index: 1,
+          created_date: "2026-01-23",
+          last_reviewed: "2026-01-22",
+          next_review: "2026-01-25",
+          ease_factor: 2.5,
+          interval: 3,
+          repetitions: 1,
+          source_file: "01_Projects/paris.md",
+        },
+        content: {
+          text: "The Eiffel Tower opened in {{c1::1889}}\nin {{c2::Paris}}.",
+          question: "The Eiffel Tower opened in [...]\nin Paris.",
+          answer: "The Eiffel Tower opened in **1889**\nin Paris.",
+        },
+      };
+
+      const result = parseCardFile(serializeCard(original));
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.card).toEqual(original);
+      }
+    });
+
     test("handles null last_reviewed correctly", () => {
       const original: Card = {
         metadata: {
@@ -0,0 +1,210 @@
+/**
+ * FSRS Algorithm Tests
+ *
+ * Tests validate FSRS-5 behavior with the default weights:
+ * - First reviews start from the per-grade initial stability and difficulty
+ * - Successful reviews grow stability, more for easier answers
+ * - "again" shrinks stability and raises difficulty
+ * - Intervals hit the requested retention
+ * - SM-2 cards migrate to an equivalent memory state
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  calculateFSRS,
+  intervalForStability,
+  isValidFSRSParameters,
+  memoryStateFromSM2,
+  nextMemoryState,
+  retrievability,
+  DEFAULT_FSRS_PARAMETERS,
+  MAX_FSRS_INTERVAL,
+  type FSRSMemoryState,
+} from "../fsrs-algorithm";
+
+// Fixed date for deterministic tests
+const TODAY = "2026-01-23";
+
+const w = DEFAULT_FSRS_PARAMETERS;
+
+// =============================================================================
+// Forgetting Curve
+// =============================================================================
+
+describe("retrievability", () => {
+  test("is 1 right after a review", () => {
+    expect(retrievability(0, 10)).toBe(1);
+  });
+
+  test("falls to 90% after one stability period", () => {
+    expect(retrievability(10, 10)).toBeCloseTo(0.9, 10);
+  });
+
+  test("keeps falling over time", () => {
+    expect(retrievability(30, 10)).toBeLessThan(retrievability(20, 10));
+  });
+});
+
+describe("intervalForStability", () => {
+  test("equals stability at 90% retention", () => {
+    expect(intervalForStability(10)).toBe(10);
+  });
+
+  test("is shorter for higher retention targets", () => {
+    expect(intervalForStability(10, 0.95)).toBeLessThan(10);
+    expect(intervalForStability(10, 0.8)).toBeGreaterThan(10);
+  });
+
+  test("is clamped to at least 1 day and at most the maximum", () => {
+    expect(intervalForStability(0.1)).toBe(1);
+    expect(intervalForStability(1e9)).toBe(MAX_FSRS_INTERVAL);
+  });
+});
+
+// =============================================================================
+// Memory State
+// =============================================================================
+
+describe("nextMemoryState", () => {
+  describe("first review", () => {
+    test.each([
+      ["again", 0],
+      ["hard", 1],
+      ["good", 2],
+      ["easy", 3],
+    ] as const)("%s uses initial stability weight %i", (response, index) => {
+      expect(nextMemoryState(null, 0, response).stability).toBe(w[index]);
+    });
+
+    test("easier answers start with lower difficulty", () => {
+      const again = nextMemoryState(null, 0, "again").difficulty;
+      const good = nextMemoryState(null, 0, "good").difficulty;
+      const easy = nextMemoryState(null, 0, "easy").difficulty;
+
+      expect(again).toBeGreaterThan(good);
+      expect(good).toBeGreaterThan(easy);
+      expect(easy).toBeGreaterThanOrEqual(1);
+      expect(again).toBeLessThanOrEqual(10);
+    });
+  });
+
+  describe("later reviews", () => {
+    const memory: FSRSMemoryState = { stability: 10, difficulty: 5 };
+
+    test("successful reviews grow stability, more for easier answers", () => {
+      const hard = nextMemoryState(memory, 10, "hard").stability;
+      const good = nextMemoryState(memory, 10, "good").stability;
+      const easy = nextMemoryState(memory, 10, "easy").stability;
+
+      expect(hard).toBeGreaterThan(memory.stability);
+      expect(good).toBeGreaterThan(hard);
+      expect(easy).toBeGreaterThan(good);
+    });
+
+    test("reviews at lower recall probability grow stability more", () => {
+      const early = nextMemoryState(memory, 2, "good").stability;
+      const late = nextMemoryState(memory, 20, "good").stability;
+
+      expect(late).toBeGreaterThan(early);
+    });
+
+    test("again shrinks stability and raises difficulty", () => {
+      const result = nextMemoryState(memory, 10, "again");
+
+      expect(result.stability).toBeLessThan(memory.stability);
+      expect(result.difficulty).toBeGreaterThan(memory.difficulty);
+    });
+
+    test("same-day reviews use the short-term formula", () => {
+      const again = nextMemoryState(memory, 0, "again").stability;
+      const good = nextMemoryState(memory, 0, "good").stability;
+
+      expect(again).toBeLessThan(good);
+      expect(good).toBeCloseTo(memory.stability * Math.exp(w[17] * w[18]), 10);
+    });
+
+    test("difficulty stays within 1-10", () => {
+      let hardest: FSRSMemoryState = { stability: 1, difficulty: 9.9 };
+      let easiest: FSRSMemoryState = { stability: 1, difficulty: 1.1 };
+      for (let i = 0; i < 20; i++) {
+        hardest = nextMemoryState(hardest, 1, "again");
+        easiest = nextMemoryState(easiest, 1, "easy");
+      }
+
+      expect(hardest.difficulty).toBeLessThanOrEqual(10);
+      expect(easiest.difficulty).toBeGreaterThanOrEqual(1);
+    });
+  });
+});
+
+// =============================================================================
+// Core Algorithm
+// =============================================================================
+
+describe("calculateFSRS", () => {
+  test("schedules a new card from its first answer", () => {
+    const result = calculateFSRS({ memory: null, elapsedDays: 0, repetitions: 0 }, "good", TODAY);
+
+    expect(result.stability).toBe(w[2]);
+    expect(result.interval).toBe(3);
+    expect(result.repetitions).toBe(1);
+    expect(result.next_review).toBe("2026-01-26");
+  });
+
+  test("resets repetitions on again", () => {
+    const result = calculateFSRS(
+      { memory: { stability: 20, difficulty: 5 }, elapsedDays: 20, repetitions: 4 },
+      "again",
+      TODAY
+    );
+
+    expect(result.repetitions).toBe(0);
+    expect(result.interval).toBeLessThan(20);
+  });
+
+  test("uses the given weights and retention", () => {
+    const state = { memory: null, elapsedDays: 0, repetitions: 0 };
+    const parameters = [...w];
+    parameters[2] = 30;
+
+    expect(calculateFSRS(state, "good", TODAY, { parameters }).interval).toBe(30);
+    expect(calculateFSRS(state, "good", TODAY, { parameters, requestRetention: 0.8 }).interval).toBeGreaterThan(30);
+  });
+});
+
+// =============================================================================
+// Migration and Validation
+// =============================================================================
+
+describe("memoryStateFromSM2", () => {
+  test("keeps the interval as stability at SM-2's assumed retention", () => {
+    const state = memoryStateFromSM2(2.5, 10);
+
+    expect(state.stability).toBeCloseTo(10, 10);
+    expect(intervalForStability(state.stability)).toBe(10);
+  });
+
+  test("maps lower ease to higher difficulty", () => {
+    expect(memoryStateFromSM2(1.3, 10).difficulty).toBeGreaterThan(memoryStateFromSM2(2.5, 10).difficulty);
+  });
+
+  test("keeps difficulty within 1-10", () => {
+    expect(memoryStateFromSM2(3.0, 1).difficulty).toBeGreaterThanOrEqual(1);
+    expect(memoryStateFromSM2(1.3, 1000).difficulty).toBeLessThanOrEqual(10);
+  });
+});
+
+describe("isValidFSRSParameters", () => {
+  test("accepts the defaults", () => {
+    expect(isValidFSRSParameters([...DEFAULT_FSRS_PARAMETERS])).toBe(true);
+  });
+
+  test("rejects wrong lengths, non-numbers, and out-of-bounds weights", () => {
+    expect(isValidFSRSParameters(DEFAULT_FSRS_PARAMETERS.slice(0, 17))).toBe(false);
+    expect(isValidFSRSParameters("0.4, 1.2")).toBe(false);
+
+    const outOfBounds = [...DEFAULT_FSRS_PARAMETERS];
+    outOfBounds[4] = 20;
+    expect(isValidFSRSParameters(outOfBounds)).toBe(false);
+  });
+});
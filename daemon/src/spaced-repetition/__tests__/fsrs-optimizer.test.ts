@@ -0,0 +1,198 @@
+/**
+ * FSRS Optimizer Tests
+ *
+ * Tests history building, loss, fitting, and parameter storage.
+ * Uses real filesystem operations in temp directories (no mocks).
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdir, rm, writeFile, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  buildReviewHistories,
+  computeLoss,
+  countPredictableReviews,
+  fitFSRSParameters,
+  getFSRSParametersPath,
+  loadFSRSParameters,
+  saveFSRSParameters,
+  type HistoryReview,
+} from "../fsrs-optimizer";
+import { DEFAULT_FSRS_PARAMETERS, isValidFSRSParameters } from "../fsrs-algorithm";
+import type { ReviewLogEntry } from "../review-log";
+import type { VaultPathInfo } from "../card-storage";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function entry(
+  cardId: string,
+  timestamp: string,
+  response: ReviewLogEntry["response"],
+  elapsedDays: number | null
+): ReviewLogEntry {
+  return { card_id: cardId, date: timestamp.slice(0, 10), timestamp, response, elapsed_days: elapsedDays };
+}
+
+/**
+ * Histories where every card is forgotten after a week, far more often than
+ * the default weights predict.
+ */
+function forgetfulHistories(count: number): HistoryReview[][] {
+  return Array.from({ length: count }, (_, i) => [
+    { elapsedDays: 0, response: "good" },
+    { elapsedDays: 3, response: i % 2 === 0 ? "again" : "good" },
+    { elapsedDays: 7, response: "again" },
+  ]);
+}
+
+// =============================================================================
+// Histories and Loss
+// =============================================================================
+
+describe("buildReviewHistories", () => {
+  test("groups by card in timestamp order", () => {
+    const histories = buildReviewHistories([
+      entry("a", "2026-01-05T09:00:00.000Z", "good", 4),
+      entry("b", "2026-01-02T09:00:00.000Z", "easy", null),
+      entry("a", "2026-01-01T09:00:00.000Z", "hard", null),
+    ]);
+
+    expect(histories).toEqual([
+      [
+        { elapsedDays: 0, response: "hard" },
+        { elapsedDays: 4, response: "good" },
+      ],
+      [{ elapsedDays: 0, response: "easy" }],
+    ]);
+  });
+
+  test("drops cards whose first review isn't in the log", () => {
+    const histories = buildReviewHistories([
+      entry("a", "2026-01-05T09:00:00.000Z", "good", 6),
+      entry("a", "2026-01-15T09:00:00.000Z", "good", 10),
+    ]);
+
+    expect(histories).toEqual([]);
+  });
+});
+
+describe("countPredictableReviews", () => {
+  test("counts reviews after the first with a gap of a day or more", () => {
+    expect(
+      countPredictableReviews([
+        [
+          { elapsedDays: 0, response: "good" },
+          { elapsedDays: 0, response: "good" },
+          { elapsedDays: 2, response: "good" },
+        ],
+        [{ elapsedDays: 0, response: "again" }],
+      ])
+    ).toBe(1);
+  });
+});
+
+describe("computeLoss", () => {
+  test("is 0 when nothing can be scored", () => {
+    expect(computeLoss(DEFAULT_FSRS_PARAMETERS, [[{ elapsedDays: 0, response: "good" }]])).toBe(0);
+  });
+
+  test("is lower when predictions match the answers", () => {
+    const remembered: HistoryReview[][] = [[
+      { elapsedDays: 0, response: "good" },
+      { elapsedDays: 1, response: "good" },
+    ]];
+    const forgotten: HistoryReview[][] = [[
+      { elapsedDays: 0, response: "good" },
+      { elapsedDays: 1, response: "again" },
+    ]];
+
+    expect(computeLoss(DEFAULT_FSRS_PARAMETERS, remembered)).toBeLessThan(
+      computeLoss(DEFAULT_FSRS_PARAMETERS, forgotten)
+    );
+  });
+});
+
+// =============================================================================
+// Fitting
+// =============================================================================
+
+describe("fitFSRSParameters", () => {
+  test("lowers the loss on a log the defaults predict badly", async () => {
+    const histories = forgetfulHistories(60);
+    const result = await fitFSRSParameters(histories, DEFAULT_FSRS_PARAMETERS, 40);
+
+    expect(result.cardCount).toBe(60);
+    expect(result.reviewCount).toBe(120);
+    expect(result.lossAfter).toBeLessThan(result.lossBefore);
+    expect(isValidFSRSParameters(result.parameters)).toBe(true);
+    // Cards are forgotten quickly, so the fitted first-"good" stability drops
+    expect(result.parameters[2]).toBeLessThan(DEFAULT_FSRS_PARAMETERS[2]);
+  });
+
+  test("keeps the starting weights when fitting doesn't help", async () => {
+    const result = await fitFSRSParameters([[{ elapsedDays: 0, response: "good" }]], DEFAULT_FSRS_PARAMETERS, 2);
+
+    expect(result.parameters).toEqual([...DEFAULT_FSRS_PARAMETERS]);
+    expect(result.lossAfter).toBe(result.lossBefore);
+  });
+
+  test("lets other work run while it fits", async () => {
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 0);
+    try {
+      await fitFSRSParameters(forgetfulHistories(60), DEFAULT_FSRS_PARAMETERS, 5);
+    } finally {
+      clearInterval(timer);
+    }
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+});
+
+// =============================================================================
+// Parameter Storage
+// =============================================================================
+
+describe("parameter storage", () => {
+  let testDir: string;
+  let vault: VaultPathInfo;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `fsrs-optimizer-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    vault = { contentRoot: testDir, metadataPath: "06_Metadata/memory-loop" };
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("returns the defaults when nothing has been fitted", async () => {
+    expect(await loadFSRSParameters(vault)).toEqual([...DEFAULT_FSRS_PARAMETERS]);
+  });
+
+  test("round-trips fitted weights", async () => {
+    const parameters = [...DEFAULT_FSRS_PARAMETERS];
+    parameters[2] = 2.5;
+
+    await saveFSRSParameters(
+      vault,
+      { parameters, cardCount: 10, reviewCount: 150, lossBefore: 0.4, lossAfter: 0.3 },
+      new Date("2026-01-23T12:00:00.000Z")
+    );
+
+    expect(await loadFSRSParameters(vault)).toEqual(parameters);
+    const stored = JSON.parse(await readFile(getFSRSParametersPath(vault), "utf-8")) as Record<string, unknown>;
+    expect(stored).toMatchObject({ optimized_at: "2026-01-23T12:00:00.000Z", review_count: 150, loss: 0.3 });
+  });
+
+  test("falls back to the defaults for an invalid file", async () => {
+    await mkdir(join(testDir, "06_Metadata/memory-loop/cards"), { recursive: true });
+    await writeFile(getFSRSParametersPath(vault), JSON.stringify({ parameters: [1, 2, 3] }));
+
+    expect(await loadFSRSParameters(vault)).toEqual([...DEFAULT_FSRS_PARAMETERS]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Review Log Tests
+ *
+ * Tests appending and reading the per-vault review log.
+ * Uses real filesystem operations in temp directories (no mocks).
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { appendFile, mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { appendReviewLog, getReviewLogPath, readReviewLog, type ReviewLogEntry } from "../review-log";
+import type { VaultPathInfo } from "../card-storage";
+
+describe("review-log", () => {
+  let testDir: string;
+  let vault: VaultPathInfo;
+
+  const first: ReviewLogEntry = {
+    card_id: "11111111-1111-1111-1111-111111111111",
+    date: "2026-01-20",
+    timestamp: "2026-01-20T08:00:00.000Z",
+    response: "good",
+    elapsed_days: null,
+  };
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `review-log-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(testDir, { recursive: true });
+    vault = { contentRoot: testDir, metadataPath: "06_Metadata/memory-loop" };
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test("returns an empty log before any review", async () => {
+    expect(await readReviewLog(vault)).toEqual([]);
+  });
+
+  test("appends entries in order, creating the cards directory", async () => {
+    const second: ReviewLogEntry = { ...first, date: "2026-01-23", timestamp: "2026-01-23T08:00:00.000Z", response: "again", elapsed_days: 3 };
+
+    await appendReviewLog(vault, first);
+    await appendReviewLog(vault, second);
+
+    expect(getReviewLogPath(vault)).toBe(join(testDir, "06_Metadata/memory-loop/cards/review-log.jsonl"));
+    expect(await readReviewLog(vault)).toEqual([first, second]);
+  });
+
+  test("skips malformed lines", async () => {
+    await appendReviewLog(vault, first);
+    await appendFile(getReviewLogPath(vault), '{"card_id": "x", "response": "maybe"}\n{not json\n');
+    await appendReviewLog(vault, first);
+
+    expect(await readReviewLog(vault)).toEqual([first, first]);
+  });
+});
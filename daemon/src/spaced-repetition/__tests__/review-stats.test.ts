@@ -0,0 +1,157 @@
+/**
+ * Review Stats Tests
+ *
+ * Tests aggregation of the review log and card schedules into daily counts,
+ * retention by interval, due forecast, heatmap, and summary.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { computeReviewStats, HEATMAP_DAYS, STATS_WINDOW_DAYS } from "../review-stats";
+import type { ReviewLogEntry } from "../review-log";
+
+// Fixed date for deterministic tests
+const TODAY = "2026-01-23";
+
+function entry(
+  date: string,
+  response: ReviewLogEntry["response"],
+  fields: Partial<ReviewLogEntry> = {}
+): ReviewLogEntry {
+  return {
+    card_id: "550e8400-e29b-41d4-a716-446655440000",
+    date,
+    timestamp: `${date}T09:00:00.000Z`,
+    response,
+    elapsed_days: 3,
+    previous_interval: 3,
+    interval: 8,
+    time_to_answer_ms: null,
+    ...fields,
+  };
+}
+
+describe("computeReviewStats", () => {
+  test("covers fixed windows ending (or starting) today", () => {
+    const stats = computeReviewStats([], [], TODAY);
+
+    expect(stats.today).toBe(TODAY);
+    expect(stats.daily).toHaveLength(STATS_WINDOW_DAYS);
+    expect(stats.daily[0].date).toBe("2025-12-25");
+    expect(stats.daily[STATS_WINDOW_DAYS - 1].date).toBe(TODAY);
+    expect(stats.forecast).toHaveLength(STATS_WINDOW_DAYS);
+    expect(stats.forecast[0].date).toBe(TODAY);
+    expect(stats.heatmap).toHaveLength(HEATMAP_DAYS);
+    expect(stats.heatmap[HEATMAP_DAYS - 1].date).toBe(TODAY);
+    expect(stats.summary).toEqual({
+      totalCards: 0,
+      dueToday: 0,
+      recentReviews: 0,
+      recentRetention: null,
+      medianTimeToAnswerMs: null,
+      currentStreak: 0,
+    });
+  });
+
+  test("counts reviews, lapses, and new cards per day", () => {
+    const stats = computeReviewStats(
+      [
+        entry("2026-01-22", "good"),
+        entry("2026-01-22", "again"),
+        entry("2026-01-22", "good", { elapsed_days: null, previous_interval: 0 }),
+      ],
+      [],
+      TODAY
+    );
+
+    expect(stats.daily.find((day) => day.date === "2026-01-22")).toEqual({
+      date: "2026-01-22",
+      reviews: 3,
+      again: 1,
+      newCards: 1,
+    });
+    expect(stats.summary.recentReviews).toBe(3);
+  });
+
+  test("buckets true retention by the interval tested, skipping first reviews", () => {
+    const stats = computeReviewStats(
+      [
+        entry("2026-01-20", "good", { previous_interval: 1 }),
+        entry("2026-01-20", "again", { previous_interval: 1 }),
+        entry("2026-01-21", "hard", { previous_interval: 30 }),
+        entry("2026-01-21", "easy", { previous_interval: 90 }),
+        entry("2026-01-22", "again", { elapsed_days: null, previous_interval: 0 }),
+      ],
+      [],
+      TODAY
+    );
+
+    expect(stats.retention.map((bucket) => [bucket.label, bucket.reviews, bucket.retention])).toEqual([
+      ["1 day", 2, 0.5],
+      ["2-6 days", 0, null],
+      ["1-3 weeks", 0, null],
+      ["3-8 weeks", 1, 1],
+      ["2+ months", 1, 1],
+    ]);
+    expect(stats.summary.recentRetention).toBe(0.75);
+  });
+
+  test("falls back to elapsed days for entries without intervals", () => {
+    const stats = computeReviewStats(
+      [entry("2026-01-20", "good", { elapsed_days: 10, previous_interval: undefined, interval: undefined })],
+      [],
+      TODAY
+    );
+
+    expect(stats.retention[2]).toMatchObject({ label: "1-3 weeks", reviews: 1, passed: 1 });
+  });
+
+  test("forecasts due cards, counting overdue ones today", () => {
+    const stats = computeReviewStats([], ["2026-01-01", TODAY, "2026-01-25", "2026-06-01"], TODAY);
+
+    expect(stats.forecast[0]).toEqual({ date: TODAY, due: 2 });
+    expect(stats.forecast[2]).toEqual({ date: "2026-01-25", due: 1 });
+    expect(stats.forecast.reduce((sum, day) => sum + day.due, 0)).toBe(3);
+    expect(stats.summary).toMatchObject({ totalCards: 4, dueToday: 2 });
+  });
+
+  test("scales heatmap levels to the busiest day", () => {
+    const entries = [
+      ...Array.from({ length: 8 }, () => entry("2026-01-10", "good")),
+      entry("2026-01-11", "good"),
+      entry("2025-03-01", "good"),
+    ];
+    const stats = computeReviewStats(entries, [], TODAY);
+    const cell = (date: string) => stats.heatmap.find((day) => day.date === date);
+
+    expect(cell("2026-01-10")).toEqual({ date: "2026-01-10", reviews: 8, level: 4 });
+    expect(cell("2026-01-11")?.level).toBe(1);
+    expect(cell("2026-01-12")?.level).toBe(0);
+    expect(cell("2025-03-01")?.reviews).toBe(1);
+  });
+
+  test("takes the median of measured answer times in the window", () => {
+    const stats = computeReviewStats(
+      [
+        entry("2026-01-20", "good", { time_to_answer_ms: 2000 }),
+        entry("2026-01-21", "good", { time_to_answer_ms: 9000 }),
+        entry("2026-01-22", "good", { time_to_answer_ms: 4000 }),
+        entry("2026-01-22", "good", { time_to_answer_ms: null }),
+        entry("2025-11-01", "good", { time_to_answer_ms: 60000 }),
+      ],
+      [],
+      TODAY
+    );
+
+    expect(stats.summary.medianTimeToAnswerMs).toBe(4000);
+  });
+
+  test("counts the current streak through yesterday when today has no reviews", () => {
+    const stats = computeReviewStats(
+      [entry("2026-01-22", "good"), entry("2026-01-21", "good"), entry("2026-01-19", "good")],
+      [],
+      TODAY
+    );
+
+    expect(stats.summary.currentStreak).toBe(2);
+  });
+});
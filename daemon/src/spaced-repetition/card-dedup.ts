@@ -15,13 +15,22 @@
  * - REQ-10: Archive older card when duplicate confirmed
  * - REQ-14: Fail open on LLM errors (safer to allow duplicates)
  *
+ * Cloze cards are deduplicated as passages: siblings share their text, so a
+ * passage whose text is already on a card replaces it without asking the
+ * LLM, and archiving a cloze card archives all of its siblings.
+ *
  * Issue Reference: GitHub #440
  */
 
 import type { Card } from "./card-schema";
 import { archiveCard, type VaultPathInfo } from "./card-storage";
 import { getSdkQuery, type QueryFunction } from "../sdk-provider";
-import { createLogger } from "@memory-loop/shared";
+import {
+  createLogger,
+  getClozeIndices,
+  renderClozeAnswer,
+  renderClozeQuestion,
+} from "@memory-loop/shared";
 
 const log = createLogger("card-dedup");
 
@@ -358,6 +367,55 @@ export async function verifyDuplicatesWithLLM(
   return { duplicates: [] };
 }
 
+// =============================================================================
+// Archiving
+// =============================================================================
+
+/**
+ * Cloze text with whitespace runs collapsed, for comparing passages.
+ */
+function normalizeClozeText(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Cloze text of a card, or null for a Q&A card.
+ */
+function getClozeText(card: Card): string | null {
+  return "text" in card.content ? normalizeClozeText(card.content.text) : null;
+}
+
+/**
+ * Archive a duplicate card, along with its siblings if it's a cloze card,
+ * and drop the archived cards from the context.
+ */
+async function archiveDuplicate(
+  duplicateCard: Card,
+  context: DedupContext,
+  stats: DedupStats
+): Promise<void> {
+  const text = getClozeText(duplicateCard);
+  const targets =
+    text === null
+      ? [duplicateCard]
+      : [...context.existingCards, ...context.newCards].filter((c) => getClozeText(c) === text);
+
+  const archivedIds = new Set<string>();
+  for (const card of targets) {
+    if (await archiveCard(context.vaultPathInfo, card.metadata.id)) {
+      archivedIds.add(card.metadata.id);
+      stats.duplicatesArchived++;
+      log.info(
+        `Archived duplicate card ${card.metadata.id}: "${card.content.question.slice(0, 50)}..."`
+      );
+    }
+  }
+
+  // Remove from context so they don't match future cards
+  context.existingCards = context.existingCards.filter((c) => !archivedIds.has(c.metadata.id));
+  context.newCards = context.newCards.filter((c) => !archivedIds.has(c.metadata.id));
+}
+
 // =============================================================================
 // Main Entry Point
 // =============================================================================
@@ -402,30 +460,51 @@ export async function checkAndHandleDuplicate(
     return { isDuplicate: false };
   }
 
-  // Found a confirmed duplicate - archive the older one
-  const duplicateCard = duplicates[0];
-
   // The new card is newer, so archive the existing duplicate
-  const archived = await archiveCard(context.vaultPathInfo, duplicateCard.metadata.id);
-  if (archived) {
-    stats.duplicatesArchived++;
-    log.info(
-      `Archived duplicate card ${duplicateCard.metadata.id}: "${duplicateCard.content.question.slice(0, 50)}..."`
-    );
-
-    // Remove from context so it doesn't match future cards
-    context.existingCards = context.existingCards.filter(
-      (c) => c.metadata.id !== duplicateCard.metadata.id
-    );
-    context.newCards = context.newCards.filter(
-      (c) => c.metadata.id !== duplicateCard.metadata.id
-    );
-  }
+  await archiveDuplicate(duplicates[0], context, stats);
 
   // The new card should still be created (it replaces the duplicate)
   return { isDuplicate: false };
 }
 
+/**
+ * Check if a new cloze passage is a duplicate and handle archiving if so.
+ *
+ * A passage with the same text as existing cloze cards replaces all of them.
+ * Otherwise the passage is checked like a Q&A card, as its first card's
+ * question.
+ *
+ * @param text - Cloze text of the new passage
+ * @param context - Dedup context with existing and new cards
+ * @param stats - Stats to update
+ * @returns Result indicating if duplicate was found
+ */
+export async function checkAndHandleClozeDuplicate(
+  text: string,
+  context: DedupContext,
+  stats: DedupStats
+): Promise<DedupCheckResult> {
+  const normalized = normalizeClozeText(text);
+  const sameText = [...context.existingCards, ...context.newCards].find(
+    (c) => getClozeText(c) === normalized
+  );
+
+  if (sameText) {
+    log.debug(`Cloze passage already on card ${sameText.metadata.id}: "${text.slice(0, 50)}..."`);
+    stats.duplicatesDetected++;
+    await archiveDuplicate(sameText, context, stats);
+    return { isDuplicate: false };
+  }
+
+  const firstIndex = getClozeIndices(text)[0];
+  return checkAndHandleDuplicate(
+    renderClozeQuestion(text, firstIndex),
+    renderClozeAnswer(text, firstIndex),
+    context,
+    stats
+  );
+}
+
 /**
  * Create an empty dedup context for a discovery pass.
  *
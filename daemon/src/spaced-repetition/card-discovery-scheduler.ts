@@ -2,7 +2,8 @@
  * Card Discovery Scheduler
  *
  * Scheduled card discovery with daily and weekly passes.
- * Discovers markdown files across all vaults and extracts Q&A cards.
+ * Discovers markdown files across all vaults and extracts Q&A cards, plus
+ * cloze cards when they're enabled in the card generator config.
  *
  * Spec Requirements:
  * - REQ-F-3: System scans notes for knowledge-worthy blocks during discovery
@@ -29,11 +30,12 @@ import {
   markRunComplete,
   type CardDiscoveryState,
 } from "./card-discovery-state";
-import { createQACardGenerator } from "./card-generator";
-import { createCard, type VaultPathInfo } from "./card-manager";
+import { createClozeCardGenerator, createQACardGenerator } from "./card-generator";
+import { createCard, createClozeCards, type VaultPathInfo } from "./card-manager";
 import { loadCardGeneratorConfig } from "./card-generator-config";
 import { loadAllCards } from "./card-storage";
 import {
+  checkAndHandleClozeDuplicate,
   checkAndHandleDuplicate,
   createDedupContext,
   createDedupStats,
@@ -250,6 +252,7 @@ export async function discoverAllFiles(): Promise<FileToProcess[]> {
  * @param stats - Stats to update
  * @param dedupContext - Deduplication context for detecting duplicates
  * @param dedupStats - Deduplication statistics
+ * @param clozeCards - Whether to generate cloze cards too
  * @returns Updated state (file marked as processed only on success)
  */
 async function processFile(
@@ -257,7 +260,8 @@ async function processFile(
   state: CardDiscoveryState,
   stats: DiscoveryStats,
   dedupContext: DedupContext,
-  dedupStats: DedupStats
+  dedupStats: DedupStats,
+  clozeCards: boolean
 ): Promise<CardDiscoveryState> {
   // Read file content
   let content: string;
@@ -280,9 +284,13 @@ async function processFile(
     return state;
   }
 
-  // Generate cards from content
-  const generator = createQACardGenerator();
-  const result = await generator.generate(content, file.relativePath);
+  // Generate cards from content. Cloze passages are generated only after the
+  // Q&A pass succeeds, and a cloze failure fails the file as a whole so a
+  // retry doesn't create the Q&A cards twice.
+  const qaResult = await createQACardGenerator().generate(content, file.relativePath);
+  const clozeResult =
+    clozeCards && qaResult.success ? await createClozeCardGenerator().generate(content, file.relativePath) : null;
+  const result = clozeResult && !clozeResult.success ? clozeResult : qaResult;
 
   // Handle generation failure - don't mark as processed so it retries
   if (!result.success) {
@@ -303,7 +311,7 @@ async function processFile(
   stats.bytesProcessed += file.size;
 
   // Skipped files (too short) are marked as processed but don't create cards
-  if (result.skipped) {
+  if (!qaResult.success || qaResult.skipped) {
     return markFileProcessed(state, file.absolutePath, checksum);
   }
 
@@ -313,7 +321,7 @@ async function processFile(
     metadataPath: file.vault.metadataPath,
   };
 
-  for (const card of result.cards) {
+  for (const card of qaResult.cards) {
     try {
       // Check for duplicates before creating the card
       await checkAndHandleDuplicate(
@@ -343,6 +351,29 @@ async function processFile(
     }
   }
 
+  for (const passage of clozeResult?.success ? clozeResult.cards : []) {
+    try {
+      // Siblings share their text, so the passage is checked once
+      await checkAndHandleClozeDuplicate(passage.text, dedupContext, dedupStats);
+
+      const createResult = await createClozeCards(vaultPathInfo, {
+        text: passage.text,
+        sourceFile: file.relativePath,
+      });
+      if (createResult.success) {
+        stats.cardsCreated += createResult.data.length;
+        dedupContext.newCards.push(...createResult.data);
+      } else {
+        log.warn(`Failed to create cloze cards: ${createResult.error}`);
+        stats.errors++;
+      }
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      log.error(`Exception creating cloze cards: ${msg}`);
+      stats.errors++;
+    }
+  }
+
   // Mark file as processed only after successful generation
   return markFileProcessed(state, file.absolutePath, checksum);
 }
@@ -422,6 +453,7 @@ export async function runDailyPass(getNow: () => Date = () => new Date()): Promi
   log.debug(`Loaded ${allExistingCards.length} existing cards for dedup`);
 
   const dedupContext = createDedupContext(allExistingCards, dedupVaultPathInfo);
+  const { clozeCards } = await loadCardGeneratorConfig();
 
   // Process each file, saving state after each to prevent repeat work on crash
   for (const file of recentFiles) {
@@ -432,7 +464,7 @@ export async function runDailyPass(getNow: () => Date = () => new Date()): Promi
     };
 
     const prevState = state;
-    state = await processFile(file, state, stats, dedupContext, dedupStats);
+    state = await processFile(file, state, stats, dedupContext, dedupStats, clozeCards);
     // Save immediately if state changed (file was processed or marked)
     if (state !== prevState) {
       await writeDiscoveryState(state);
@@ -571,6 +603,7 @@ export async function runWeeklyPass(
   log.debug(`Loaded ${allExistingCards.length} existing cards for dedup`);
 
   const dedupContext = createDedupContext(allExistingCards, dedupVaultPathInfo);
+  const { clozeCards } = await loadCardGeneratorConfig();
 
   // Process files up to byte limit, saving state after each to prevent repeat work
   let bytesThisRun = 0;
@@ -587,7 +620,7 @@ export async function runWeeklyPass(
     };
 
     const prevState = state;
-    state = await processFile(file, state, stats, dedupContext, dedupStats);
+    state = await processFile(file, state, stats, dedupContext, dedupStats, clozeCards);
     bytesThisRun += file.size;
     // Save immediately if state changed (file was processed or marked)
     if (state !== prevState) {
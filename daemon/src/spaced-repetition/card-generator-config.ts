@@ -3,6 +3,7 @@
  *
  * Manages configuration for the card generator:
  * - Weekly byte limit for card generation
+ * - Whether discovery also writes cloze cards
  * - Requirements prompt override
  *
  * Files:
@@ -43,6 +44,11 @@ const REQUIREMENTS_FILE = "card-generator-requirements.md";
  */
 export const DEFAULT_WEEKLY_BYTE_LIMIT = 500 * 1024;
 
+/**
+ * Cloze cards are opt-in, since each note costs a second LLM call.
+ */
+export const DEFAULT_CLOZE_CARDS = false;
+
 /**
  * Default requirements for Q&A extraction.
  * This is the content that can be customized by users.
@@ -73,6 +79,8 @@ export const DEFAULT_REQUIREMENTS = `- Generate zero questions rather than quest
 const CardGeneratorConfigSchema = z.object({
   /** Weekly byte limit for card generation (100KB - 10MB) */
   weeklyByteLimit: z.number().int().min(102400).max(10485760).default(DEFAULT_WEEKLY_BYTE_LIMIT),
+  /** Generate cloze cards alongside Q&A cards during discovery */
+  clozeCards: z.boolean().default(DEFAULT_CLOZE_CARDS),
 });
 
 // =============================================================================
@@ -136,7 +144,7 @@ export async function loadCardGeneratorConfig(): Promise<CardGeneratorConfig> {
   } catch (e) {
     if ((e as NodeJS.ErrnoException).code === "ENOENT") {
       log.debug("Config file not found, returning defaults");
-      return { weeklyByteLimit: DEFAULT_WEEKLY_BYTE_LIMIT };
+      return { weeklyByteLimit: DEFAULT_WEEKLY_BYTE_LIMIT, clozeCards: DEFAULT_CLOZE_CARDS };
     }
     log.error(`Failed to read config file: ${(e as Error).message}`);
     throw e;
@@ -148,7 +156,7 @@ export async function loadCardGeneratorConfig(): Promise<CardGeneratorConfig> {
     parsed = JSON.parse(content);
   } catch {
     log.warn(`Invalid JSON in config file at ${configPath}, returning defaults`);
-    return { weeklyByteLimit: DEFAULT_WEEKLY_BYTE_LIMIT };
+    return { weeklyByteLimit: DEFAULT_WEEKLY_BYTE_LIMIT, clozeCards: DEFAULT_CLOZE_CARDS };
   }
 
   // Validate against schema
@@ -158,7 +166,7 @@ export async function loadCardGeneratorConfig(): Promise<CardGeneratorConfig> {
       `Invalid config schema at ${configPath}, returning defaults`,
       result.error.issues
     );
-    return { weeklyByteLimit: DEFAULT_WEEKLY_BYTE_LIMIT };
+    return { weeklyByteLimit: DEFAULT_WEEKLY_BYTE_LIMIT, clozeCards: DEFAULT_CLOZE_CARDS };
   }
 
   return result.data;
@@ -166,12 +174,14 @@ export async function loadCardGeneratorConfig(): Promise<CardGeneratorConfig> {
 
 /**
  * Save the card generator config to disk.
+ * Fields left out keep their current values.
  *
- * @param config - Config to save
+ * @param changes - Config fields to save
  */
-export async function saveCardGeneratorConfig(config: CardGeneratorConfig): Promise<void> {
+export async function saveCardGeneratorConfig(changes: Partial<CardGeneratorConfig>): Promise<void> {
   const configPath = getConfigFilePath();
   const dir = dirname(configPath);
+  const config = { ...(await loadCardGeneratorConfig()), ...changes };
 
   // Ensure config directory exists
   await mkdir(dir, { recursive: true });
@@ -1,8 +1,8 @@
 /**
  * Card Generator
  *
- * LLM-based extraction of Q&A pairs from markdown content.
- * Uses Claude Haiku for cost-efficient card generation.
+ * LLM-based extraction of Q&A pairs, and optionally cloze deletions, from
+ * markdown content. Uses Claude Haiku for cost-efficient card generation.
  *
  * Spec Requirements:
  * - REQ-F-5: LLM extracts knowledge-worthy Q&A pairs from content
@@ -14,7 +14,7 @@
  */
 
 import { getSdkQuery, type QueryFunction } from "../sdk-provider";
-import { createLogger } from "@memory-loop/shared";
+import { createLogger, getClozeIndices } from "@memory-loop/shared";
 import {
   DEFAULT_REQUIREMENTS,
   loadRequirements,
@@ -39,23 +39,31 @@ export interface CardContent {
   answer: string;
 }
 
+/**
+ * Content for a generated cloze note: a passage with {{cN::...}} deletions.
+ * Each deletion number becomes its own card when the note is saved.
+ */
+export interface ClozeContent {
+  text: string;
+}
+
 /**
  * Result of card generation - either success with cards or failure with error.
  * Using a discriminated union makes failure handling explicit.
  */
-export type GenerationResult =
-  | { success: true; cards: CardContent[]; skipped?: boolean }
+export type GenerationResult<T = CardContent> =
+  | { success: true; cards: T[]; skipped?: boolean }
   | { success: false; error: string; retriable: boolean };
 
 /**
  * Interface for card type generators.
  * Allows different extraction strategies for different card types.
  */
-export interface CardTypeGenerator {
-  /** Identifier for the card type (e.g., "qa") */
+export interface CardTypeGenerator<T = CardContent> {
+  /** Identifier for the card type (e.g., "qa", "cloze") */
   type: string;
   /** Extract cards from content */
-  generate(content: string, filePath: string): Promise<GenerationResult>;
+  generate(content: string, filePath: string): Promise<GenerationResult<T>>;
 }
 
 // =============================================================================
@@ -111,6 +119,48 @@ Respond ONLY with a JSON array in this exact format (no markdown, no explanation
 If no suitable Q&A pairs can be extracted, respond with: []`;
 }
 
+/**
+ * Requirements for cloze extraction. Unlike the Q&A requirements these
+ * aren't user-editable.
+ */
+export const CLOZE_REQUIREMENTS = `- Generate zero passages rather than passages that don't fully satisfy these requirements
+- Each passage is one or two sentences stating key facts, definitions, or relationships from the content
+- Passages must be self-contained and make sense without seeing the source
+- Never use "this", "the above", first/second person pronouns, or author references
+- Delete only the key terms, names, numbers, or dates worth recalling, never filler words
+- Number deletions {{c1::...}}, {{c2::...}} and so on; each number becomes a separate card
+- Give deletions that test the same fact the same number
+- Keep the surrounding text specific enough that each deletion has one unambiguous answer
+- An optional hint goes after a second "::", e.g. {{c1::1889::year}}
+- Skip subjective opinions, TODOs, or transient information
+- If the content has no extractable facts, return an empty array`;
+
+/**
+ * Builds the prompt for cloze extraction from content.
+ *
+ * @param content - The markdown content to extract from
+ * @param filePath - Path to source file (for context)
+ * @returns The prompt to send to the LLM
+ */
+export function buildClozeExtractionPrompt(content: string, filePath: string): string {
+  return `Write cloze deletion passages from the following content for spaced repetition learning.
+
+Requirements:
+${CLOZE_REQUIREMENTS}
+
+Source file: ${filePath}
+
+Content:
+---
+${content}
+---
+
+Respond ONLY with a JSON array in this exact format (no markdown, no explanation):
+[{"text": "The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris}}."}]
+
+If no suitable passages can be written, respond with: []`;
+}
+
 // =============================================================================
 // Type Guards
 // =============================================================================
@@ -135,22 +185,34 @@ function isQAObject(value: unknown): value is QAObject {
   );
 }
 
+/**
+ * Type guard to check if a value is an object with a string `text`.
+ */
+function isClozeObject(value: unknown): value is ClozeContent {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "text" in value &&
+    typeof (value as Record<string, unknown>).text === "string"
+  );
+}
+
 // =============================================================================
 // Response Parsing
 // =============================================================================
 
 /**
- * Parse JSON array of Q&A pairs from LLM response.
+ * Parse a JSON array of objects from LLM response.
  *
  * Handles common response formats:
  * - Clean JSON array
  * - JSON wrapped in markdown code blocks
- * - Single Q&A object (wraps in array)
+ * - Single object (wraps in array)
  *
  * @param response - Raw LLM response text
- * @returns Array of parsed CardContent, empty array on parse failure
+ * @returns Array items, empty array on parse failure
  */
-export function parseQAResponse(response: string): CardContent[] {
+function parseJsonArray(response: string): unknown[] {
   const trimmed = response.trim();
 
   // Handle empty response
@@ -185,9 +247,19 @@ export function parseQAResponse(response: string): CardContent[] {
     return [];
   }
 
+  return parsed;
+}
+
+/**
+ * Parse JSON array of Q&A pairs from LLM response.
+ *
+ * @param response - Raw LLM response text
+ * @returns Array of parsed CardContent, empty array on parse failure
+ */
+export function parseQAResponse(response: string): CardContent[] {
   // Validate and extract Q&A pairs
   const results: CardContent[] = [];
-  for (const item of parsed) {
+  for (const item of parseJsonArray(response)) {
     if (!isQAObject(item)) {
       continue;
     }
@@ -201,6 +273,28 @@ export function parseQAResponse(response: string): CardContent[] {
   return results;
 }
 
+/**
+ * Parse JSON array of cloze passages from LLM response.
+ * Passages without a valid deletion are dropped.
+ *
+ * @param response - Raw LLM response text
+ * @returns Array of parsed ClozeContent, empty array on parse failure
+ */
+export function parseClozeResponse(response: string): ClozeContent[] {
+  const results: ClozeContent[] = [];
+  for (const item of parseJsonArray(response)) {
+    if (!isClozeObject(item)) {
+      continue;
+    }
+    const text = item.text.trim();
+    if (getClozeIndices(text).length > 0) {
+      results.push({ text });
+    }
+  }
+
+  return results;
+}
+
 // =============================================================================
 // SDK Response Collection
 // =============================================================================
@@ -278,6 +372,80 @@ function isRetriableError(message: string): boolean {
   return retriablePatterns.some((pattern) => pattern.test(message));
 }
 
+// =============================================================================
+// Extraction
+// =============================================================================
+
+/**
+ * Trim content to the size sent to the LLM.
+ *
+ * @returns Content to extract from, or null if it's too short to bother
+ */
+function prepareContent(content: string, filePath: string): string | null {
+  // Skip if content is too short
+  if (content.length < MIN_CONTENT_LENGTH) {
+    log.debug(`Skipping ${filePath}: content too short (${content.length} chars)`);
+    return null;
+  }
+
+  // Truncate if content is too long
+  return content.length > MAX_CONTENT_LENGTH
+    ? content.slice(0, MAX_CONTENT_LENGTH) + "\n\n[Content truncated...]"
+    : content;
+}
+
+/**
+ * Send an extraction prompt to the LLM and parse the cards it returns.
+ *
+ * @param prompt - Extraction prompt
+ * @param filePath - Path to source file (for logging)
+ * @param contentLength - Length of the original content (for logging)
+ * @param parse - Response parser
+ * @param label - What the parser extracts, for logging (e.g., "Q&A pairs")
+ */
+async function runExtraction<T>(
+  prompt: string,
+  filePath: string,
+  contentLength: number,
+  parse: (response: string) => T[],
+  label: string
+): Promise<GenerationResult<T>> {
+  try {
+    // Call the LLM
+    const queryResult = getSdkQuery()({
+      prompt,
+      options: {
+        model: GENERATION_MODEL,
+        maxTurns: 1,
+        allowedTools: [], // No tools needed for extraction
+      },
+    });
+
+    // Collect the response
+    const response = await collectResponse(queryResult);
+
+    // Parse the response
+    const cards = parse(response);
+
+    log.info(`Extracted ${cards.length} ${label} from ${filePath}`);
+    return { success: true, cards };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Determine if this is a retriable error (rate limits, network issues)
+    // vs a permanent failure (invalid content, parsing errors)
+    const retriable = isRetriableError(message);
+
+    // Log with context for diagnosability
+    log.error(
+      `Card generation failed for ${filePath}: ${message}`,
+      { model: GENERATION_MODEL, contentLength, retriable }
+    );
+
+    return { success: false, error: message, retriable };
+  }
+}
+
 // =============================================================================
 // QA Card Generator
 // =============================================================================
@@ -319,58 +487,50 @@ export class QACardGenerator implements CardTypeGenerator {
    * @returns GenerationResult with cards on success, error details on failure
    */
   async generate(content: string, filePath: string): Promise<GenerationResult> {
-    // Skip if content is too short
-    if (content.length < MIN_CONTENT_LENGTH) {
-      log.debug(`Skipping ${filePath}: content too short (${content.length} chars)`);
+    const prepared = prepareContent(content, filePath);
+    if (prepared === null) {
       return { success: true, cards: [], skipped: true };
     }
 
-    // Truncate if content is too long
-    const truncatedContent =
-      content.length > MAX_CONTENT_LENGTH
-        ? content.slice(0, MAX_CONTENT_LENGTH) + "\n\n[Content truncated...]"
-        : content;
-
     // Load custom requirements if available
     const customRequirements = await this.ensureRequirementsLoaded();
 
     // Build the prompt
-    const prompt = buildQAExtractionPrompt(truncatedContent, filePath, customRequirements);
-
-    try {
-      // Call the LLM
-      const queryResult = getSdkQuery()({
-        prompt,
-        options: {
-          model: GENERATION_MODEL,
-          maxTurns: 1,
-          allowedTools: [], // No tools needed for extraction
-        },
-      });
-
-      // Collect the response
-      const response = await collectResponse(queryResult);
-
-      // Parse the response
-      const cards = parseQAResponse(response);
-
-      log.info(`Extracted ${cards.length} Q&A pairs from ${filePath}`);
-      return { success: true, cards };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-
-      // Determine if this is a retriable error (rate limits, network issues)
-      // vs a permanent failure (invalid content, parsing errors)
-      const retriable = isRetriableError(message);
-
-      // Log with context for diagnosability
-      log.error(
-        `Card generation failed for ${filePath}: ${message}`,
-        { model: GENERATION_MODEL, contentLength: content.length, retriable }
-      );
-
-      return { success: false, error: message, retriable };
+    const prompt = buildQAExtractionPrompt(prepared, filePath, customRequirements);
+
+    return runExtraction(prompt, filePath, content.length, parseQAResponse, "Q&A pairs");
+  }
+}
+
+// =============================================================================
+// Cloze Card Generator
+// =============================================================================
+
+/**
+ * Cloze card generator implementation.
+ *
+ * Has the LLM rewrite facts from markdown content as short passages with
+ * cloze deletions. Returns 0-N passages per file; each becomes one card per
+ * deletion number.
+ */
+export class ClozeCardGenerator implements CardTypeGenerator<ClozeContent> {
+  readonly type = "cloze";
+
+  /**
+   * Generate cloze passages from markdown content.
+   *
+   * @param content - Markdown content to extract from
+   * @param filePath - Path to source file (for context and logging)
+   * @returns GenerationResult with passages on success, error details on failure
+   */
+  async generate(content: string, filePath: string): Promise<GenerationResult<ClozeContent>> {
+    const prepared = prepareContent(content, filePath);
+    if (prepared === null) {
+      return { success: true, cards: [], skipped: true };
     }
+
+    const prompt = buildClozeExtractionPrompt(prepared, filePath);
+    return runExtraction(prompt, filePath, content.length, parseClozeResponse, "cloze passages");
   }
 }
 
@@ -386,3 +546,10 @@ export class QACardGenerator implements CardTypeGenerator {
 export function createQACardGenerator(): CardTypeGenerator {
   return new QACardGenerator();
 }
+
+/**
+ * Create a new cloze card generator instance.
+ */
+export function createClozeCardGenerator(): CardTypeGenerator<ClozeContent> {
+  return new ClozeCardGenerator();
+}
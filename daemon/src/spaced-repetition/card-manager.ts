@@ -2,13 +2,15 @@
  * Card Manager
  *
  * High-level CRUD operations for spaced repetition cards.
- * Coordinates card-storage, card-schema, and sm2-algorithm modules.
+ * Coordinates card-storage, card-schema, the SM-2 and FSRS schedulers, and
+ * the review log.
  *
  * Spec Requirements:
  * - REQ-F-17: Display question, allow reveal answer
  * - REQ-F-19: "Archive" action removes card from review queue
  * - REQ-F-21: Archived cards move to cards/archive/
- * - REQ-F-26: SM-2 scheduling for cards
+ * - REQ-F-26: SM-2 scheduling for cards (FSRS when the vault's
+ *   reviewAlgorithm is "fsrs")
  *
  * Plan Reference:
  * - CardManager (TASK-003): CRUD operations for card files, SM-2 calculations
@@ -16,6 +18,7 @@
 
 import { randomUUID } from "node:crypto";
 import {
+  loadAllCards,
   loadDueCards,
   loadCard,
   saveCard,
@@ -24,8 +27,10 @@ import {
 } from "./card-storage";
 import {
   type Card,
+  type CardMetadata,
   type QACardContent,
   createNewCardMetadata,
+  daysBetween,
   getToday,
 } from "./card-schema";
 import {
@@ -34,7 +39,25 @@ import {
   type CardState,
   isValidResponse,
 } from "./sm2-algorithm";
-import { createLogger } from "@memory-loop/shared";
+import { calculateFSRS, memoryStateFromSM2, type FSRSMemoryState } from "./fsrs-algorithm";
+import {
+  buildReviewHistories,
+  countPredictableReviews,
+  fitFSRSParameters,
+  loadFSRSParameters,
+  saveFSRSParameters,
+  MIN_OPTIMIZATION_REVIEWS,
+  type FSRSOptimizationResult,
+} from "./fsrs-optimizer";
+import { appendReviewLog, readReviewLog } from "./review-log";
+import { computeReviewStats, type ReviewStats } from "./review-stats";
+import {
+  createLogger,
+  getClozeIndices,
+  renderClozeAnswer,
+  renderClozeQuestion,
+  type ReviewAlgorithm,
+} from "@memory-loop/shared";
 
 const log = createLogger("card-manager");
 
@@ -45,6 +68,94 @@ const log = createLogger("card-manager");
 /** Result type for operations that can fail */
 export type Result<T> = { success: true; data: T } | { success: false; error: string };
 
+/** Options for submitReview */
+export interface ReviewOptions {
+  /** Scheduler to use (defaults to "sm2") */
+  algorithm?: ReviewAlgorithm;
+  /** When the review was made, for the review log (defaults to now) */
+  reviewedAt?: Date;
+  /** Milliseconds the user took to recall the answer, for the review log */
+  timeToAnswerMs?: number;
+}
+
+/** Decimal places kept for FSRS state in frontmatter */
+const FSRS_STATE_PRECISION = 10_000;
+
+function roundState(value: number): number {
+  return Math.round(value * FSRS_STATE_PRECISION) / FSRS_STATE_PRECISION;
+}
+
+/**
+ * Current FSRS memory state of a card. Cards last scheduled by SM-2 get one
+ * derived from their ease factor and interval; new cards have none.
+ */
+function getMemoryState(metadata: CardMetadata, parameters: readonly number[]): FSRSMemoryState | null {
+  if (metadata.stability !== undefined && metadata.difficulty !== undefined) {
+    return { stability: metadata.stability, difficulty: metadata.difficulty };
+  }
+  if (metadata.last_reviewed === null) {
+    return null;
+  }
+  return memoryStateFromSM2(metadata.ease_factor, metadata.interval, parameters);
+}
+
+/**
+ * Compute a card's schedule after a review with the given algorithm.
+ */
+async function scheduleReview(
+  vault: VaultPathInfo,
+  metadata: CardMetadata,
+  response: ReviewResponse,
+  elapsedDays: number | null,
+  algorithm: ReviewAlgorithm,
+  today: string
+): Promise<CardMetadata> {
+  if (algorithm === "fsrs") {
+    const parameters = await loadFSRSParameters(vault);
+    const result = calculateFSRS(
+      {
+        memory: getMemoryState(metadata, parameters),
+        elapsedDays: elapsedDays ?? 0,
+        repetitions: metadata.repetitions,
+      },
+      response,
+      today,
+      { parameters }
+    );
+
+    // ease_factor is left alone so switching back to SM-2 picks up where it was
+    return {
+      ...metadata,
+      interval: result.interval,
+      repetitions: result.repetitions,
+      next_review: result.next_review,
+      last_reviewed: today,
+      stability: roundState(result.stability),
+      difficulty: roundState(result.difficulty),
+    };
+  }
+
+  const state: CardState = {
+    interval: metadata.interval,
+    ease_factor: metadata.ease_factor,
+    repetitions: metadata.repetitions,
+  };
+  const sm2Result = calculateSM2(state, response, today);
+
+  // FSRS state would be stale after an SM-2 review; it's derived again from
+  // the SM-2 fields if the vault switches to FSRS
+  return {
+    ...metadata,
+    interval: sm2Result.interval,
+    ease_factor: sm2Result.ease_factor,
+    repetitions: sm2Result.repetitions,
+    next_review: sm2Result.next_review,
+    last_reviewed: today,
+    stability: undefined,
+    difficulty: undefined,
+  };
+}
+
 // =============================================================================
 // Card Manager
 // =============================================================================
@@ -87,20 +198,25 @@ export async function getCard(
 
 /**
  * Submit a review response for a card.
- * Applies SM-2 algorithm and updates card metadata.
+ * Applies the vault's scheduler (SM-2 or FSRS), updates card metadata, and
+ * appends the review to the review log.
  *
  * @param vault - Vault path information
  * @param cardId - UUID of the card
  * @param response - User's review response (again, hard, good, easy)
  * @param today - Today's date in YYYY-MM-DD format (defaults to actual today)
+ * @param options - Scheduler and review time
  * @returns Updated card if successful, or error result
  */
 export async function submitReview(
   vault: VaultPathInfo,
   cardId: string,
   response: string,
-  today: string = getToday()
+  today: string = getToday(),
+  options: ReviewOptions = {}
 ): Promise<Result<Card>> {
+  const algorithm = options.algorithm ?? "sm2";
+
   // Validate response
   if (!isValidResponse(response)) {
     return {
@@ -117,44 +233,99 @@ export async function submitReview(
 
   const card = loadResult.card;
   log.debug(
-    `Submitting review for card ${cardId}: response=${response}, current_interval=${card.metadata.interval}`
+    `Submitting review for card ${cardId}: response=${response}, algorithm=${algorithm}, current_interval=${card.metadata.interval}`
   );
 
-  // Extract current state for SM-2
-  const state: CardState = {
-    interval: card.metadata.interval,
-    ease_factor: card.metadata.ease_factor,
-    repetitions: card.metadata.repetitions,
-  };
-
-  // Calculate new values
-  const sm2Result = calculateSM2(state, response, today);
+  // Reviews replayed out of order can predate the last review; count those as same-day
+  const elapsedDays =
+    card.metadata.last_reviewed === null ? null : Math.max(daysBetween(card.metadata.last_reviewed, today), 0);
 
-  // Update card metadata
   const updatedCard: Card = {
     ...card,
-    metadata: {
-      ...card.metadata,
-      interval: sm2Result.interval,
-      ease_factor: sm2Result.ease_factor,
-      repetitions: sm2Result.repetitions,
-      next_review: sm2Result.next_review,
-      last_reviewed: today,
-    },
+    metadata: await scheduleReview(vault, card.metadata, response, elapsedDays, algorithm, today),
   };
 
   // Save the updated card
   try {
     await saveCard(vault, updatedCard);
     log.info(
-      `Card ${cardId} reviewed: ${response} -> next_review=${sm2Result.next_review}, interval=${sm2Result.interval}`
+      `Card ${cardId} reviewed: ${response} -> next_review=${updatedCard.metadata.next_review}, interval=${updatedCard.metadata.interval}`
     );
-    return { success: true, data: updatedCard };
   } catch (e) {
     const message = e instanceof Error ? e.message : String(e);
     log.error(`Failed to save card ${cardId} after review: ${message}`);
     return { success: false, error: `Failed to save card: ${message}` };
   }
+
+  // The card is already saved, so a log failure doesn't fail the review
+  try {
+    await appendReviewLog(vault, {
+      card_id: cardId,
+      date: today,
+      timestamp: (options.reviewedAt ?? new Date()).toISOString(),
+      response,
+      elapsed_days: elapsedDays,
+      previous_interval: card.metadata.interval,
+      interval: updatedCard.metadata.interval,
+      time_to_answer_ms: options.timeToAnswerMs ?? null,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    log.warn(`Failed to log review of card ${cardId}: ${message}`);
+  }
+
+  return { success: true, data: updatedCard };
+}
+
+/**
+ * Fit FSRS parameters to the vault's review log and save them.
+ * Later FSRS reviews in the vault use the fitted parameters.
+ *
+ * @param vault - Vault path information
+ * @param now - When the fit runs (for testing)
+ * @returns Fit summary, or an error if the log is too short
+ */
+export async function optimizeFSRS(
+  vault: VaultPathInfo,
+  now: Date = new Date()
+): Promise<Result<FSRSOptimizationResult>> {
+  const histories = buildReviewHistories(await readReviewLog(vault));
+  const reviewCount = countPredictableReviews(histories);
+  if (reviewCount < MIN_OPTIMIZATION_REVIEWS) {
+    return {
+      success: false,
+      error: `Not enough reviews to optimize: ${reviewCount} of ${MIN_OPTIMIZATION_REVIEWS} needed`,
+    };
+  }
+
+  const result = await fitFSRSParameters(histories, await loadFSRSParameters(vault));
+  try {
+    await saveFSRSParameters(vault, result, now);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    log.error(`Failed to save FSRS parameters: ${message}`);
+    return { success: false, error: `Failed to save FSRS parameters: ${message}` };
+  }
+
+  log.info(
+    `Fitted FSRS parameters on ${result.reviewCount} reviews: loss ${result.lossBefore.toFixed(4)} -> ${result.lossAfter.toFixed(4)}`
+  );
+  return { success: true, data: result };
+}
+
+/**
+ * Review stats for the vault, from the review log and the cards in rotation.
+ *
+ * @param vault - Vault path information
+ * @param today - Today's date in YYYY-MM-DD format (defaults to actual today)
+ */
+export async function getReviewStats(vault: VaultPathInfo, today: string = getToday()): Promise<ReviewStats> {
+  const [entries, cards] = await Promise.all([readReviewLog(vault), loadAllCards(vault)]);
+  return computeReviewStats(
+    entries,
+    cards.map((card) => card.metadata.next_review),
+    today
+  );
 }
 
 /**
@@ -238,6 +409,69 @@ export async function createCard(
   }
 }
 
+/**
+ * Input data for creating cloze cards.
+ */
+export interface CreateClozeCardsInput {
+  /** Text with {{cN::...}} deletions (required) */
+  text: string;
+  /** Optional source file path */
+  sourceFile?: string;
+}
+
+/**
+ * Create cloze cards from a text, one per deletion number.
+ *
+ * The cards are siblings: they share the text and are scheduled
+ * independently, each starting with the same defaults as createCard.
+ *
+ * @param vault - Vault path information
+ * @param input - Cloze text and optional sourceFile
+ * @param today - Today's date in YYYY-MM-DD format (defaults to actual today)
+ * @returns Created cards, in deletion number order, or error result
+ */
+export async function createClozeCards(
+  vault: VaultPathInfo,
+  input: CreateClozeCardsInput,
+  today: string = getToday()
+): Promise<Result<Card[]>> {
+  const text = input.text?.trim() ?? "";
+  if (text.length === 0) {
+    return { success: false, error: "Text is required" };
+  }
+
+  const indices = getClozeIndices(text);
+  if (indices.length === 0) {
+    return { success: false, error: "Text has no cloze deletions" };
+  }
+
+  const cards: Card[] = indices.map((index) => ({
+    metadata: {
+      ...createNewCardMetadata(randomUUID(), today, input.sourceFile),
+      type: "cloze",
+      cloze_index: index,
+    },
+    content: {
+      text,
+      question: renderClozeQuestion(text, index),
+      answer: renderClozeAnswer(text, index),
+    },
+  }));
+
+  // Save the cards
+  try {
+    for (const card of cards) {
+      await saveCard(vault, card);
+    }
+    log.info(`Created ${cards.length} cloze cards: "${text.slice(0, 50)}..."`);
+    return { success: true, data: cards };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    log.error(`Failed to create cloze cards: ${message}`);
+    return { success: false, error: `Failed to create cloze cards: ${message}` };
+  }
+}
+
 // =============================================================================
 // Exports
 // =============================================================================
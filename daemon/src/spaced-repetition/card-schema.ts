@@ -9,6 +9,7 @@
  * - REQ-F-11: Each card is one file with YAML frontmatter containing metadata
  * - REQ-F-12: Card metadata includes SM-2 algorithm fields
  * - REQ-F-13: Card body contains question and answer in markdown format
+ *   (cloze cards: the cloze text, with question and answer rendered from it)
  *
  * Plan Reference:
  * - TD-1: Card Storage as Markdown Files
@@ -39,6 +40,10 @@ const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
  * - interval: Days until next review (starts at 0 for new cards)
  * - repetitions: Number of successful reviews (reset on "again")
  *
+ * FSRS fields (only on cards scheduled by FSRS, see fsrs-algorithm.ts):
+ * - stability: Days until recall probability falls to 90%
+ * - difficulty: 1 (easy) to 10 (hard)
+ *
  * Lifecycle fields:
  * - created_date: When the card was created
  * - last_reviewed: When the card was last reviewed (null for new cards)
@@ -48,9 +53,12 @@ export const CardMetadataSchema = z.object({
   /** UUID v4 identifier for the card (also used as filename) */
   id: z.string().uuid(),
 
-  /** Card type for extensibility. Currently only "qa" is supported. */
+  /** Card type: "qa" or "cloze". Unknown types are read as "qa". */
   type: z.string().default("qa"),
 
+  /** Deletion number this card tests. Cloze cards only. */
+  cloze_index: z.number().int().min(1).optional(),
+
   /** Date when card was created (YYYY-MM-DD) */
   created_date: z.string().regex(DATE_PATTERN, "Date must be YYYY-MM-DD format"),
 
@@ -72,6 +80,12 @@ export const CardMetadataSchema = z.object({
   /** SM-2 repetition count. Reset to 0 on "again" response. */
   repetitions: z.number().int().min(0).default(0),
 
+  /** FSRS stability in days. Absent until the card is reviewed with FSRS. */
+  stability: z.number().positive().optional(),
+
+  /** FSRS difficulty (1-10). Absent until the card is reviewed with FSRS. */
+  difficulty: z.number().min(1).max(10).optional(),
+
   /** Optional path to the source file that generated this card */
   source_file: z.string().optional(),
 });
@@ -103,12 +117,22 @@ export const QACardContentSchema = z.object({
   answer: z.string().min(1, "Answer is required"),
 });
 
+/**
+ * Schema for cloze card content. The body stores only the text; question
+ * and answer are rendered from it for the card's cloze_index, so code that
+ * only knows Q&A cards can still show a cloze card.
+ */
+export const ClozeCardContentSchema = QACardContentSchema.extend({
+  /** Text with {{cN::...}} deletions, shared by sibling cards */
+  text: z.string().min(1, "Cloze text is required"),
+});
+
 /**
  * Schema for a complete card (metadata + content).
  */
 export const CardSchema = z.object({
   metadata: CardMetadataSchema,
-  content: QACardContentSchema,
+  content: z.union([ClozeCardContentSchema, QACardContentSchema]),
 });
 
 // =============================================================================
@@ -118,6 +142,7 @@ export const CardSchema = z.object({
 export type CardMetadata = z.infer<typeof CardMetadataSchema>;
 export type NewCardMetadata = z.input<typeof NewCardMetadataSchema>;
 export type QACardContent = z.infer<typeof QACardContentSchema>;
+export type ClozeCardContent = z.infer<typeof ClozeCardContentSchema>;
 export type Card = z.infer<typeof CardSchema>;
 
 // =============================================================================
@@ -273,6 +298,20 @@ export function addDays(dateStr: string, days: number): string {
   return formatDate(date);
 }
 
+/**
+ * Whole days from one date string to another (negative if `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  const fromDate = parseDate(from);
+  const toDate = parseDate(to);
+  if (!fromDate || !toDate) {
+    throw new Error(`Invalid date: ${fromDate ? to : from}`);
+  }
+
+  // Round to absorb daylight saving shifts
+  return Math.round((toDate.getTime() - fromDate.getTime()) / 86_400_000);
+}
+
 /**
  * Check if a date string is on or before today.
  */
@@ -2,7 +2,8 @@
  * Card Storage
  *
  * File operations for reading and writing spaced repetition cards.
- * Cards are stored as markdown files with YAML frontmatter.
+ * Cards are stored as markdown files with YAML frontmatter. Q&A cards have
+ * Question and Answer sections; cloze cards have a single Text section.
  *
  * Spec Requirements:
  * - REQ-F-10: Cards stored as Markdown files in 06_Metadata/memory-loop/cards/
@@ -21,14 +22,22 @@ import { dirname, join } from "node:path";
 import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 import {
   type Card,
+  type CardMetadata,
+  type ClozeCardContent,
   type QACardContent,
+  ClozeCardContentSchema,
   safeParseCardMetadata,
   safeParseQACardContent,
   formatCardError,
   isDueToday,
   getToday,
 } from "./card-schema";
-import { createLogger } from "@memory-loop/shared";
+import {
+  createLogger,
+  getClozeIndices,
+  renderClozeAnswer,
+  renderClozeQuestion,
+} from "@memory-loop/shared";
 
 const log = createLogger("card-storage");
 
@@ -139,6 +148,13 @@ export type ParseCardResult =
  * The answer text...
  * ```
  *
+ * Cloze cards (`type: "cloze"`, with a `cloze_index`) have one section instead:
+ * ```markdown
+ * ## Text
+ *
+ * The Eiffel Tower opened in {{c1::1889}} in {{c2::Paris}}.
+ * ```
+ *
  * @param content - Raw markdown content of the card file
  * @returns Parsed card or error
  */
@@ -166,17 +182,20 @@ export function parseCardFile(content: string): ParseCardResult {
     return { success: false, error: formatCardError(metadataResult.error) };
   }
 
-  // Extract question and answer from body
-  const qaResult = extractQAFromBody(bodyContent);
-  if (!qaResult.success) {
-    return qaResult;
+  const metadata = metadataResult.data;
+
+  // Extract question and answer (or cloze text) from body
+  const contentResult =
+    metadata.type === "cloze" ? extractClozeFromBody(bodyContent, metadata) : extractQAFromBody(bodyContent);
+  if (!contentResult.success) {
+    return contentResult;
   }
 
   return {
     success: true,
     card: {
-      metadata: metadataResult.data,
-      content: qaResult.content,
+      metadata,
+      content: contentResult.content,
     },
   };
 }
@@ -212,6 +231,41 @@ function extractQAFromBody(
   return { success: true, content: contentResult.data };
 }
 
+/**
+ * Extract cloze text from the card body and render the question and answer
+ * for the card's cloze_index.
+ *
+ * Expects header: ## Text
+ */
+function extractClozeFromBody(
+  body: string,
+  metadata: CardMetadata
+): { success: true; content: ClozeCardContent } | { success: false; error: string } {
+  const textMatch = body.match(/##\s*Text\s*\n([\s\S]*)$/i);
+  if (!textMatch) {
+    return { success: false, error: "Missing '## Text' section" };
+  }
+  if (metadata.cloze_index === undefined) {
+    return { success: false, error: "Cloze card is missing cloze_index" };
+  }
+
+  const text = textMatch[1].trim();
+  if (!getClozeIndices(text).includes(metadata.cloze_index)) {
+    return { success: false, error: `Text has no c${metadata.cloze_index} cloze deletion` };
+  }
+
+  const contentResult = ClozeCardContentSchema.safeParse({
+    text,
+    question: renderClozeQuestion(text, metadata.cloze_index),
+    answer: renderClozeAnswer(text, metadata.cloze_index),
+  });
+  if (!contentResult.success) {
+    return { success: false, error: formatCardError(contentResult.error) };
+  }
+
+  return { success: true, content: contentResult.data };
+}
+
 // =============================================================================
 // Card File Serialization
 // =============================================================================
@@ -220,13 +274,15 @@ function extractQAFromBody(
  * Serialize a card to markdown file content.
  *
  * @param card - Card to serialize
- * @returns Markdown string with YAML frontmatter and Q&A body
+ * @returns Markdown string with YAML frontmatter and Q&A (or cloze text) body
  */
 export function serializeCard(card: Card): string {
   // Build frontmatter with explicit field order for readability
   const metadata: Record<string, unknown> = {
     id: card.metadata.id,
     type: card.metadata.type,
+    // Only cloze cards carry a deletion number
+    ...(card.metadata.cloze_index !== undefined && { cloze_index: card.metadata.cloze_index }),
     created_date: card.metadata.created_date,
     last_reviewed: card.metadata.last_reviewed,
     next_review: card.metadata.next_review,
@@ -235,6 +291,15 @@ export function serializeCard(card: Card): string {
     repetitions: card.metadata.repetitions,
   };
 
+  // FSRS memory state only exists once FSRS has scheduled the card, so SM-2
+  // cards keep their original frontmatter
+  if (card.metadata.stability !== undefined) {
+    metadata.stability = card.metadata.stability;
+  }
+  if (card.metadata.difficulty !== undefined) {
+    metadata.difficulty = card.metadata.difficulty;
+  }
+
   // Only include source_file if present
   if (card.metadata.source_file) {
     metadata.source_file = card.metadata.source_file;
@@ -247,7 +312,13 @@ export function serializeCard(card: Card): string {
     defaultKeyType: "PLAIN",
   });
 
-  const body = `## Question
+  const body =
+    "text" in card.content
+      ? `## Text
+
+${card.content.text}
+`
+      : `## Question
 
 ${card.content.question}
 
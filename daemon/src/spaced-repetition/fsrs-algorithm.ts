@@ -0,0 +1,306 @@
+/**
+ * FSRS Spaced Repetition Algorithm
+ *
+ * Pure functions implementing FSRS-5 (Free Spaced Repetition Scheduler,
+ * Jarrett Ye et al.) as an alternative to SM-2. Instead of an ease factor,
+ * each card carries a memory state:
+ * - stability: days until recall probability falls to 90%
+ * - difficulty: 1 (easy) to 10 (hard), how much each review grows stability
+ *
+ * Intervals are chosen so the predicted recall probability at the next review
+ * equals the requested retention. The 19 model weights can be fitted to a
+ * vault's own review log (see fsrs-optimizer.ts); the defaults are the
+ * published FSRS-5 weights.
+ *
+ * Cards scheduled by SM-2 carry no memory state. The first FSRS review derives
+ * one from the card's ease factor and interval (memoryStateFromSM2), so
+ * switching a vault to FSRS keeps every card's progress.
+ */
+
+import { addDays } from "./card-schema";
+import type { ReviewResponse } from "./sm2-algorithm";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Forgetting curve exponent */
+export const FSRS_DECAY = -0.5;
+
+/** Forgetting curve scale, chosen so R(t = S) = 0.9 */
+export const FSRS_FACTOR = 19 / 81;
+
+/** Published FSRS-5 default weights */
+export const DEFAULT_FSRS_PARAMETERS: readonly number[] = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192, 1.01925,
+  1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+];
+
+/** Allowed range for each weight, as [min, max] (matches the reference optimizer) */
+export const FSRS_PARAMETER_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.01, 100],
+  [0.01, 100],
+  [0.01, 100],
+  [0.01, 100],
+  [1, 10],
+  [0.001, 4],
+  [0.001, 4],
+  [0.001, 0.75],
+  [0, 4.5],
+  [0, 0.8],
+  [0.001, 3.5],
+  [0.001, 5],
+  [0.001, 0.25],
+  [0.001, 0.9],
+  [0, 4],
+  [0, 1],
+  [1, 6],
+  [0, 2],
+  [0, 2],
+];
+
+/** Target recall probability at the next review */
+export const DEFAULT_REQUEST_RETENTION = 0.9;
+
+/** Recall probability SM-2 intervals are assumed to target when migrating */
+const SM2_RETENTION = 0.9;
+
+/** Longest interval FSRS will schedule (100 years) */
+export const MAX_FSRS_INTERVAL = 36500;
+
+const MIN_STABILITY = 0.01;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+
+/** Numeric grade per response, as used in the FSRS formulas */
+const GRADES: Record<ReviewResponse, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** FSRS memory state stored on the card */
+export interface FSRSMemoryState {
+  /** Days until recall probability falls to 90% */
+  stability: number;
+  /** 1 (easy) to 10 (hard) */
+  difficulty: number;
+}
+
+/** Current card state needed for FSRS calculation */
+export interface FSRSCardState {
+  /** Memory state, null for cards never reviewed */
+  memory: FSRSMemoryState | null;
+  /** Days since the last review (0 for same-day reviews) */
+  elapsedDays: number;
+  /** Number of successful reviews */
+  repetitions: number;
+}
+
+/** Result of FSRS calculation */
+export interface FSRSResult extends FSRSMemoryState {
+  /** New interval in days */
+  interval: number;
+  /** Updated repetition count (reset to 0 on "again", as with SM-2) */
+  repetitions: number;
+  /** Next review date in YYYY-MM-DD format */
+  next_review: string;
+}
+
+/** Optional FSRS tuning */
+export interface FSRSOptions {
+  /** Model weights (19 numbers), defaults to DEFAULT_FSRS_PARAMETERS */
+  parameters?: readonly number[];
+  /** Target recall probability at the next review, defaults to 0.9 */
+  requestRetention?: number;
+}
+
+// =============================================================================
+// Model
+// =============================================================================
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function clampDifficulty(difficulty: number): number {
+  return clamp(difficulty, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+/**
+ * Probability of recalling a card `elapsedDays` after its last review.
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FSRS_FACTOR * elapsedDays) / stability, FSRS_DECAY);
+}
+
+function initialDifficulty(grade: number, w: readonly number[]): number {
+  return w[4] - Math.exp(w[5] * (grade - 1)) + 1;
+}
+
+function nextDifficulty(difficulty: number, grade: number, w: readonly number[]): number {
+  const delta = -w[6] * (grade - 3);
+  const damped = difficulty + (delta * (10 - difficulty)) / 9;
+  // Mean reversion towards the difficulty of a first "easy" answer
+  return clampDifficulty(w[7] * initialDifficulty(4, w) + (1 - w[7]) * damped);
+}
+
+function nextRecallStability(memory: FSRSMemoryState, r: number, grade: number, w: readonly number[]): number {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  return (
+    memory.stability *
+    (1 +
+      Math.exp(w[8]) *
+        (11 - memory.difficulty) *
+        Math.pow(memory.stability, -w[9]) *
+        (Math.exp(w[10] * (1 - r)) - 1) *
+        hardPenalty *
+        easyBonus)
+  );
+}
+
+function nextForgetStability(memory: FSRSMemoryState, r: number, w: readonly number[]): number {
+  const stability =
+    w[11] *
+    Math.pow(memory.difficulty, -w[12]) *
+    (Math.pow(memory.stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - r));
+  // Forgetting never makes a memory more stable
+  return Math.min(stability, memory.stability);
+}
+
+function nextShortTermStability(stability: number, grade: number, w: readonly number[]): number {
+  return stability * Math.exp(w[17] * (grade - 3 + w[18]));
+}
+
+/**
+ * Computes the memory state after a review.
+ *
+ * @param memory - State before the review, null for a card's first review
+ * @param elapsedDays - Days since the previous review
+ * @param response - Review response
+ * @param parameters - Model weights
+ */
+export function nextMemoryState(
+  memory: FSRSMemoryState | null,
+  elapsedDays: number,
+  response: ReviewResponse,
+  parameters: readonly number[] = DEFAULT_FSRS_PARAMETERS
+): FSRSMemoryState {
+  const grade = GRADES[response];
+  const w = parameters;
+
+  if (!memory) {
+    return {
+      stability: Math.max(w[grade - 1], MIN_STABILITY),
+      difficulty: clampDifficulty(initialDifficulty(grade, w)),
+    };
+  }
+
+  let stability: number;
+  if (elapsedDays <= 0) {
+    stability = nextShortTermStability(memory.stability, grade, w);
+  } else {
+    const r = retrievability(elapsedDays, memory.stability);
+    stability =
+      grade === 1 ? nextForgetStability(memory, r, w) : nextRecallStability(memory, r, grade, w);
+  }
+
+  return {
+    stability: Math.max(stability, MIN_STABILITY),
+    difficulty: nextDifficulty(memory.difficulty, grade, w),
+  };
+}
+
+/**
+ * Interval (whole days, at least 1) after which recall probability falls to
+ * the requested retention.
+ */
+export function intervalForStability(
+  stability: number,
+  requestRetention: number = DEFAULT_REQUEST_RETENTION
+): number {
+  const interval = (stability / FSRS_FACTOR) * (Math.pow(requestRetention, 1 / FSRS_DECAY) - 1);
+  return clamp(Math.round(interval), 1, MAX_FSRS_INTERVAL);
+}
+
+// =============================================================================
+// Core Algorithm
+// =============================================================================
+
+/**
+ * Calculate new FSRS parameters based on review response.
+ *
+ * @param state - Current card state
+ * @param response - User's review response
+ * @param today - Today's date in YYYY-MM-DD format (for testing)
+ * @param options - Model weights and requested retention
+ * @returns Updated memory state, interval, and next_review date
+ */
+export function calculateFSRS(
+  state: FSRSCardState,
+  response: ReviewResponse,
+  today: string,
+  options: FSRSOptions = {}
+): FSRSResult {
+  const memory = nextMemoryState(state.memory, state.elapsedDays, response, options.parameters);
+  const interval = intervalForStability(memory.stability, options.requestRetention);
+
+  return {
+    ...memory,
+    interval,
+    repetitions: response === "again" ? 0 : state.repetitions + 1,
+    next_review: addDays(today, interval),
+  };
+}
+
+// =============================================================================
+// Migration and Validation
+// =============================================================================
+
+/**
+ * Derive an FSRS memory state from a card's SM-2 fields.
+ *
+ * Stability is the interval rescaled to the SM-2 retention target. Difficulty
+ * is solved from the ease factor, treating the ease as the growth a "good"
+ * review would give at that retention.
+ *
+ * @param easeFactor - SM-2 ease factor
+ * @param interval - SM-2 interval in days
+ * @param parameters - Model weights
+ */
+export function memoryStateFromSM2(
+  easeFactor: number,
+  interval: number,
+  parameters: readonly number[] = DEFAULT_FSRS_PARAMETERS
+): FSRSMemoryState {
+  const w = parameters;
+  const stability = Math.max(
+    (Math.max(interval, MIN_STABILITY) * FSRS_FACTOR) / (Math.pow(SM2_RETENTION, 1 / FSRS_DECAY) - 1),
+    MIN_STABILITY
+  );
+  const growth = Math.exp(w[8]) * Math.pow(stability, -w[9]) * (Math.exp((1 - SM2_RETENTION) * w[10]) - 1);
+  const difficulty = 11 - (easeFactor - 1) / growth;
+
+  return { stability, difficulty: clampDifficulty(difficulty) };
+}
+
+/**
+ * Check that a parameter array has 19 finite weights within bounds.
+ */
+export function isValidFSRSParameters(parameters: unknown): parameters is number[] {
+  return (
+    Array.isArray(parameters) &&
+    parameters.length === DEFAULT_FSRS_PARAMETERS.length &&
+    parameters.every((value, index) => {
+      const [min, max] = FSRS_PARAMETER_BOUNDS[index];
+      return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+    })
+  );
+}
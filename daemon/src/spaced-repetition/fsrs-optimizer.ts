@@ -0,0 +1,325 @@
+/**
+ * FSRS Parameter Optimizer
+ *
+ * Fits the 19 FSRS weights to a vault's review log and stores them next to
+ * the cards (cards/fsrs-parameters.json).
+ *
+ * Each card's logged reviews are replayed through the FSRS model. Every
+ * review after a gap of at least a day is a prediction: the model's recall
+ * probability at that moment against whether the answer was "again". The
+ * optimizer minimizes the mean log loss of those predictions with Adam on
+ * weights rescaled to [0, 1] within their bounds, using central-difference
+ * gradients. A pull towards the default weights, which fades as reviews
+ * accumulate, keeps small logs from overfitting.
+ *
+ * Only cards whose first review is in the log are replayed, since the model
+ * can't be started partway through a card's history.
+ */
+
+import { readFile, writeFile, rename, unlink, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import { createLogger } from "@memory-loop/shared";
+import { getCardsDir, type VaultPathInfo } from "./card-storage";
+import {
+  DEFAULT_FSRS_PARAMETERS,
+  FSRS_PARAMETER_BOUNDS,
+  isValidFSRSParameters,
+  nextMemoryState,
+  retrievability,
+  type FSRSMemoryState,
+} from "./fsrs-algorithm";
+import type { ReviewLogEntry } from "./review-log";
+import type { ReviewResponse } from "./sm2-algorithm";
+
+const log = createLogger("fsrs-optimizer");
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Parameters file name within the cards directory.
+ */
+export const FSRS_PARAMETERS_FILE = "fsrs-parameters.json";
+
+/**
+ * Fewest predictable reviews (reviews after a gap of a day or more) needed to fit.
+ */
+export const MIN_OPTIMIZATION_REVIEWS = 100;
+
+/** Adam iterations */
+const DEFAULT_ITERATIONS = 150;
+
+/** Adam step size in normalized weight space */
+const LEARNING_RATE = 0.02;
+
+/** Central-difference step in normalized weight space */
+const GRADIENT_STEP = 1e-4;
+
+/** Strength of the pull towards the default weights (divided by review count) */
+const PRIOR_STRENGTH = 10;
+
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+
+/** Keeps log loss finite when the model is certain */
+const PROBABILITY_EPSILON = 1e-6;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One review in a replayable card history */
+export interface HistoryReview {
+  /** Days since the previous review (ignored for the first review) */
+  elapsedDays: number;
+  response: ReviewResponse;
+}
+
+/** Result of fitting weights to a review log */
+export interface FSRSOptimizationResult {
+  /** Fitted weights, or the starting weights if fitting didn't improve them */
+  parameters: number[];
+  /** Cards with a replayable history */
+  cardCount: number;
+  /** Reviews the loss was measured on */
+  reviewCount: number;
+  /** Mean log loss with the starting weights */
+  lossBefore: number;
+  /** Mean log loss with the returned weights */
+  lossAfter: number;
+}
+
+/**
+ * Schema for the stored parameters file.
+ */
+const StoredParametersSchema = z.object({
+  parameters: z.array(z.number()),
+  optimized_at: z.string(),
+  review_count: z.number().int().min(0),
+  loss: z.number(),
+});
+
+// =============================================================================
+// Histories and Loss
+// =============================================================================
+
+/**
+ * Group log entries into per-card review histories, oldest review first.
+ * Cards whose first logged review isn't their first review are dropped.
+ */
+export function buildReviewHistories(entries: ReviewLogEntry[]): HistoryReview[][] {
+  const byCard = new Map<string, ReviewLogEntry[]>();
+  for (const entry of entries) {
+    const list = byCard.get(entry.card_id) ?? [];
+    list.push(entry);
+    byCard.set(entry.card_id, list);
+  }
+
+  const histories: HistoryReview[][] = [];
+  for (const list of byCard.values()) {
+    list.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    if (list[0].elapsed_days !== null) continue;
+
+    histories.push(
+      list.map((entry) => ({ elapsedDays: entry.elapsed_days ?? 0, response: entry.response }))
+    );
+  }
+  return histories;
+}
+
+/**
+ * Count the reviews a set of histories can be scored on.
+ */
+export function countPredictableReviews(histories: HistoryReview[][]): number {
+  let count = 0;
+  for (const history of histories) {
+    for (let i = 1; i < history.length; i++) {
+      if (history[i].elapsedDays > 0) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Mean log loss of recall predictions over all histories.
+ * Returns 0 when there is nothing to score.
+ */
+export function computeLoss(parameters: readonly number[], histories: HistoryReview[][]): number {
+  let total = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let memory: FSRSMemoryState | null = null;
+    for (const review of history) {
+      if (memory && review.elapsedDays > 0) {
+        const r = Math.min(
+          Math.max(retrievability(review.elapsedDays, memory.stability), PROBABILITY_EPSILON),
+          1 - PROBABILITY_EPSILON
+        );
+        total -= review.response === "again" ? Math.log(1 - r) : Math.log(r);
+        count++;
+      }
+      memory = nextMemoryState(memory, review.elapsedDays, review.response, parameters);
+    }
+  }
+
+  return count > 0 ? total / count : 0;
+}
+
+// =============================================================================
+// Optimization
+// =============================================================================
+
+function normalize(parameters: readonly number[]): number[] {
+  return parameters.map((value, i) => {
+    const [min, max] = FSRS_PARAMETER_BOUNDS[i];
+    return (value - min) / (max - min);
+  });
+}
+
+function denormalize(normalized: readonly number[]): number[] {
+  return normalized.map((value, i) => {
+    const [min, max] = FSRS_PARAMETER_BOUNDS[i];
+    return min + Math.min(Math.max(value, 0), 1) * (max - min);
+  });
+}
+
+/**
+ * Let pending I/O and timers run. Each gradient component replays the
+ * whole log twice, so a large log would otherwise hold the daemon for the
+ * length of the fit.
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Fit FSRS weights to a set of review histories. Yields to the event loop
+ * between gradient components so other requests are served during the fit.
+ *
+ * @param histories - Replayable card histories (see buildReviewHistories)
+ * @param initial - Starting weights, defaults to DEFAULT_FSRS_PARAMETERS
+ * @param iterations - Adam iterations
+ */
+export async function fitFSRSParameters(
+  histories: HistoryReview[][],
+  initial: readonly number[] = DEFAULT_FSRS_PARAMETERS,
+  iterations: number = DEFAULT_ITERATIONS
+): Promise<FSRSOptimizationResult> {
+  const reviewCount = countPredictableReviews(histories);
+  const prior = normalize(DEFAULT_FSRS_PARAMETERS);
+  const priorWeight = PRIOR_STRENGTH / Math.max(reviewCount, 1);
+
+  const objective = (normalized: number[]): number => {
+    let penalty = 0;
+    for (let i = 0; i < normalized.length; i++) {
+      penalty += (normalized[i] - prior[i]) ** 2;
+    }
+    return computeLoss(denormalize(normalized), histories) + priorWeight * penalty;
+  };
+
+  let current = normalize(initial);
+  const m = new Array<number>(current.length).fill(0);
+  const v = new Array<number>(current.length).fill(0);
+
+  for (let step = 1; step <= iterations; step++) {
+    const gradient: number[] = [];
+    for (let i = 0; i < current.length; i++) {
+      const up = [...current];
+      const down = [...current];
+      up[i] += GRADIENT_STEP;
+      down[i] -= GRADIENT_STEP;
+      gradient.push((objective(up) - objective(down)) / (2 * GRADIENT_STEP));
+      await yieldToEventLoop();
+    }
+
+    current = current.map((value, i) => {
+      m[i] = ADAM_BETA1 * m[i] + (1 - ADAM_BETA1) * gradient[i];
+      v[i] = ADAM_BETA2 * v[i] + (1 - ADAM_BETA2) * gradient[i] ** 2;
+      const mHat = m[i] / (1 - ADAM_BETA1 ** step);
+      const vHat = v[i] / (1 - ADAM_BETA2 ** step);
+      return Math.min(Math.max(value - (LEARNING_RATE * mHat) / (Math.sqrt(vHat) + ADAM_EPSILON), 0), 1);
+    });
+  }
+
+  const fitted = denormalize(current);
+  const lossBefore = computeLoss(initial, histories);
+  const lossAfter = computeLoss(fitted, histories);
+
+  if (lossAfter >= lossBefore) {
+    return { parameters: [...initial], cardCount: histories.length, reviewCount, lossBefore, lossAfter: lossBefore };
+  }
+  return { parameters: fitted, cardCount: histories.length, reviewCount, lossBefore, lossAfter };
+}
+
+// =============================================================================
+// Parameter Storage
+// =============================================================================
+
+/**
+ * Get the absolute path to a vault's fitted FSRS parameters.
+ */
+export function getFSRSParametersPath(vault: VaultPathInfo): string {
+  return join(getCardsDir(vault), FSRS_PARAMETERS_FILE);
+}
+
+/**
+ * Load a vault's fitted FSRS weights, falling back to the defaults when none
+ * have been fitted or the file is invalid.
+ *
+ * @param vault - Vault path information
+ */
+export async function loadFSRSParameters(vault: VaultPathInfo): Promise<number[]> {
+  const path = getFSRSParametersPath(vault);
+  try {
+    const result = StoredParametersSchema.safeParse(JSON.parse(await readFile(path, "utf-8")));
+    if (result.success && isValidFSRSParameters(result.data.parameters)) {
+      return result.data.parameters;
+    }
+    log.warn(`Ignoring invalid FSRS parameters in ${path}`);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+      const message = e instanceof Error ? e.message : String(e);
+      log.warn(`Failed to read FSRS parameters from ${path}: ${message}`);
+    }
+  }
+  return [...DEFAULT_FSRS_PARAMETERS];
+}
+
+/**
+ * Save fitted FSRS weights atomically (temp+rename).
+ *
+ * @param vault - Vault path information
+ * @param result - Optimization result to store
+ * @param now - When the weights were fitted
+ */
+export async function saveFSRSParameters(
+  vault: VaultPathInfo,
+  result: FSRSOptimizationResult,
+  now: Date = new Date()
+): Promise<void> {
+  const path = getFSRSParametersPath(vault);
+  const tempPath = `${path}.${Date.now()}.tmp`;
+  const content = {
+    parameters: result.parameters,
+    optimized_at: now.toISOString(),
+    review_count: result.reviewCount,
+    loss: result.lossAfter,
+  };
+
+  try {
+    await mkdir(getCardsDir(vault), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(content, null, 2) + "\n", "utf-8");
+    await rename(tempPath, path);
+  } catch (e) {
+    try {
+      await unlink(tempPath);
+    } catch {
+      // Ignore cleanup errors
+    }
+    throw e;
+  }
+}
@@ -11,8 +11,13 @@ export {
   submitReview,
   archiveCard,
   createCard,
+  createClozeCards,
+  optimizeFSRS,
+  getReviewStats,
   type Result,
   type CreateCardInput,
+  type CreateClozeCardsInput,
+  type ReviewOptions,
 } from "./card-manager";
 
 // SM-2 algorithm
@@ -27,11 +32,34 @@ export {
   type SM2Result,
 } from "./sm2-algorithm";
 
+// FSRS algorithm
+export {
+  calculateFSRS,
+  memoryStateFromSM2,
+  DEFAULT_FSRS_PARAMETERS,
+  type FSRSMemoryState,
+  type FSRSResult,
+} from "./fsrs-algorithm";
+
+// FSRS optimizer, review log, and stats
+export { MIN_OPTIMIZATION_REVIEWS, type FSRSOptimizationResult } from "./fsrs-optimizer";
+export { readReviewLog, type ReviewLogEntry } from "./review-log";
+export {
+  STATS_WINDOW_DAYS,
+  HEATMAP_DAYS,
+  type ReviewStats,
+  type DailyReviewCount,
+  type RetentionBucket,
+  type DueForecastDay,
+  type HeatmapDay,
+} from "./review-stats";
+
 // Card schema
 export {
   type Card,
   type CardMetadata,
   type QACardContent,
+  type ClozeCardContent,
   createNewCardMetadata,
   getToday,
   parseCard,
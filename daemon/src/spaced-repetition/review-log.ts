@@ -0,0 +1,120 @@
+/**
+ * Review Log
+ *
+ * Append-only record of card reviews, one JSON object per line, stored next
+ * to the cards (cards/review-log.jsonl). Card frontmatter only holds the
+ * current schedule; the log keeps every answer so FSRS parameters can be
+ * fitted to how this vault's cards are actually remembered, and so review
+ * stats can show whether that schedule is working.
+ *
+ * Malformed lines are skipped on read, so a partially written line never
+ * blocks the rest of the log.
+ */
+
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import { createLogger } from "@memory-loop/shared";
+import { getCardsDir, type VaultPathInfo } from "./card-storage";
+
+const log = createLogger("review-log");
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Log file name within the cards directory.
+ */
+export const REVIEW_LOG_FILE = "review-log.jsonl";
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+/**
+ * Schema for one logged review.
+ */
+export const ReviewLogEntrySchema = z.object({
+  /** UUID of the reviewed card */
+  card_id: z.string(),
+  /** Day the review counts for (YYYY-MM-DD) */
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  /** ISO datetime the review was recorded */
+  timestamp: z.string(),
+  /** Review response */
+  response: z.enum(["again", "hard", "good", "easy"]),
+  /** Days since the previous review, null for the card's first review */
+  elapsed_days: z.number().int().min(0).nullable(),
+  /** Scheduled interval before the review, in days (absent in early entries) */
+  previous_interval: z.number().int().min(0).optional(),
+  /** Interval the review scheduled, in days (absent in early entries) */
+  interval: z.number().int().min(0).optional(),
+  /** Milliseconds from seeing the question to revealing the answer, if measured */
+  time_to_answer_ms: z.number().int().min(0).nullable().optional(),
+});
+
+export type ReviewLogEntry = z.infer<typeof ReviewLogEntrySchema>;
+
+// =============================================================================
+// Log Operations
+// =============================================================================
+
+/**
+ * Get the absolute path to a vault's review log.
+ */
+export function getReviewLogPath(vault: VaultPathInfo): string {
+  return join(getCardsDir(vault), REVIEW_LOG_FILE);
+}
+
+/**
+ * Append a review to the log.
+ *
+ * @param vault - Vault path information
+ * @param entry - Review to record
+ */
+export async function appendReviewLog(vault: VaultPathInfo, entry: ReviewLogEntry): Promise<void> {
+  await mkdir(getCardsDir(vault), { recursive: true });
+  await appendFile(getReviewLogPath(vault), JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/**
+ * Read every valid entry from the log, in the order they were written.
+ * Returns an empty array if the log doesn't exist yet.
+ *
+ * @param vault - Vault path information
+ */
+export async function readReviewLog(vault: VaultPathInfo): Promise<ReviewLogEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(getReviewLogPath(vault), "utf-8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw e;
+  }
+
+  const entries: ReviewLogEntry[] = [];
+  let skipped = 0;
+
+  for (const line of content.split("\n")) {
+    if (line.trim() === "") continue;
+    try {
+      const result = ReviewLogEntrySchema.safeParse(JSON.parse(line));
+      if (result.success) {
+        entries.push(result.data);
+        continue;
+      }
+    } catch {
+      // Fall through to count the line as skipped
+    }
+    skipped++;
+  }
+
+  if (skipped > 0) {
+    log.warn(`Skipped ${skipped} malformed review log lines in ${getReviewLogPath(vault)}`);
+  }
+
+  return entries;
+}
@@ -0,0 +1,242 @@
+/**
+ * Review Stats
+ *
+ * Aggregates the review log and current card schedules into the numbers
+ * shown in the Spaced Repetition widget: reviews per day, true retention
+ * by interval, upcoming due cards, and a year-long calendar heatmap.
+ *
+ * True retention is the share of reviews of already-seen cards that weren't
+ * answered "again". It's bucketed by the interval the card was scheduled
+ * at, so a scheduler that stretches intervals too far shows up as falling
+ * retention in the longer buckets. First reviews of new cards are left out.
+ */
+
+import { addDays } from "./card-schema";
+import type { ReviewLogEntry } from "./review-log";
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Days covered by the daily review counts and the due forecast */
+export const STATS_WINDOW_DAYS = 30;
+
+/** Days covered by the calendar heatmap */
+export const HEATMAP_DAYS = 365;
+
+/** Interval buckets for true retention, in days */
+export const RETENTION_BUCKETS: ReadonlyArray<{ label: string; minInterval: number; maxInterval: number | null }> = [
+  { label: "1 day", minInterval: 1, maxInterval: 1 },
+  { label: "2-6 days", minInterval: 2, maxInterval: 6 },
+  { label: "1-3 weeks", minInterval: 7, maxInterval: 20 },
+  { label: "3-8 weeks", minInterval: 21, maxInterval: 59 },
+  { label: "2+ months", minInterval: 60, maxInterval: null },
+];
+
+/** Heatmap intensity levels above zero */
+const HEATMAP_LEVELS = 4;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Reviews made on one day */
+export interface DailyReviewCount {
+  /** YYYY-MM-DD */
+  date: string;
+  reviews: number;
+  /** Reviews answered "again" */
+  again: number;
+  /** First reviews of new cards */
+  newCards: number;
+}
+
+/** True retention for one interval bucket */
+export interface RetentionBucket {
+  label: string;
+  minInterval: number;
+  /** Inclusive upper bound, null for the open-ended bucket */
+  maxInterval: number | null;
+  reviews: number;
+  /** Reviews not answered "again" */
+  passed: number;
+  /** passed / reviews (0-1), or null with no reviews */
+  retention: number | null;
+}
+
+/** Cards due on one upcoming day */
+export interface DueForecastDay {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Cards due that day; today includes overdue cards */
+  due: number;
+}
+
+/** One heatmap cell */
+export interface HeatmapDay {
+  /** YYYY-MM-DD */
+  date: string;
+  reviews: number;
+  /** 0 for no reviews, otherwise 1-4 relative to the busiest day */
+  level: number;
+}
+
+/** Headline numbers */
+export interface ReviewStatsSummary {
+  /** Cards in the review rotation (archived cards excluded) */
+  totalCards: number;
+  /** Cards due today, including overdue */
+  dueToday: number;
+  /** Reviews in the last STATS_WINDOW_DAYS days */
+  recentReviews: number;
+  /** True retention over the last STATS_WINDOW_DAYS days (0-1), or null */
+  recentRetention: number | null;
+  /** Median time to answer over the last STATS_WINDOW_DAYS days, or null if none were measured */
+  medianTimeToAnswerMs: number | null;
+  /** Consecutive days with reviews, ending today or yesterday */
+  currentStreak: number;
+}
+
+/** Full stats response */
+export interface ReviewStats {
+  /** YYYY-MM-DD the stats were computed for */
+  today: string;
+  summary: ReviewStatsSummary;
+  /** Oldest first, ending today */
+  daily: DailyReviewCount[];
+  retention: RetentionBucket[];
+  /** Starting today */
+  forecast: DueForecastDay[];
+  /** Oldest first, ending today */
+  heatmap: HeatmapDay[];
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Interval a review tested, or null for a card's first review.
+ * Entries logged without intervals fall back to the days since the last review.
+ */
+function testedInterval(entry: ReviewLogEntry): number | null {
+  if (entry.elapsed_days === null) return null;
+  return entry.previous_interval ?? entry.elapsed_days;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Compute review stats.
+ *
+ * @param entries - Review log entries, in any order
+ * @param nextReviews - next_review dates (YYYY-MM-DD) of cards in rotation
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function computeReviewStats(entries: ReviewLogEntry[], nextReviews: string[], today: string): ReviewStats {
+  const windowStart = addDays(today, -(STATS_WINDOW_DAYS - 1));
+  const heatmapStart = addDays(today, -(HEATMAP_DAYS - 1));
+
+  const byDate = new Map<string, DailyReviewCount>();
+  const buckets: RetentionBucket[] = RETENTION_BUCKETS.map((bucket) => ({
+    ...bucket,
+    reviews: 0,
+    passed: 0,
+    retention: null,
+  }));
+  let recentTested = 0;
+  let recentPassed = 0;
+  const recentTimes: number[] = [];
+
+  for (const entry of entries) {
+    const day = byDate.get(entry.date) ?? { date: entry.date, reviews: 0, again: 0, newCards: 0 };
+    day.reviews++;
+    if (entry.response === "again") day.again++;
+    if (entry.elapsed_days === null) day.newCards++;
+    byDate.set(entry.date, day);
+
+    const recent = entry.date >= windowStart && entry.date <= today;
+    if (recent && entry.time_to_answer_ms != null) {
+      recentTimes.push(entry.time_to_answer_ms);
+    }
+
+    const interval = testedInterval(entry);
+    if (interval === null) continue;
+    const passed = entry.response !== "again";
+
+    if (recent) {
+      recentTested++;
+      if (passed) recentPassed++;
+    }
+
+    const bucket = buckets.find(
+      (b) => interval >= b.minInterval && (b.maxInterval === null || interval <= b.maxInterval)
+    );
+    if (bucket) {
+      bucket.reviews++;
+      if (passed) bucket.passed++;
+    }
+  }
+
+  for (const bucket of buckets) {
+    bucket.retention = bucket.reviews > 0 ? bucket.passed / bucket.reviews : null;
+  }
+
+  const daily: DailyReviewCount[] = [];
+  for (let i = 0; i < STATS_WINDOW_DAYS; i++) {
+    const date = addDays(windowStart, i);
+    daily.push(byDate.get(date) ?? { date, reviews: 0, again: 0, newCards: 0 });
+  }
+
+  const forecast: DueForecastDay[] = [];
+  const dueByDate = new Map<string, number>();
+  for (const nextReview of nextReviews) {
+    const date = nextReview < today ? today : nextReview;
+    dueByDate.set(date, (dueByDate.get(date) ?? 0) + 1);
+  }
+  for (let i = 0; i < STATS_WINDOW_DAYS; i++) {
+    const date = addDays(today, i);
+    forecast.push({ date, due: dueByDate.get(date) ?? 0 });
+  }
+
+  let busiest = 0;
+  const heatmap: HeatmapDay[] = [];
+  for (let i = 0; i < HEATMAP_DAYS; i++) {
+    const date = addDays(heatmapStart, i);
+    const reviews = byDate.get(date)?.reviews ?? 0;
+    busiest = Math.max(busiest, reviews);
+    heatmap.push({ date, reviews, level: 0 });
+  }
+  for (const cell of heatmap) {
+    cell.level = cell.reviews === 0 ? 0 : Math.ceil((cell.reviews / busiest) * HEATMAP_LEVELS);
+  }
+
+  // A streak still counts if today's reviews haven't happened yet
+  let currentStreak = 0;
+  let cursor = byDate.has(today) ? today : addDays(today, -1);
+  while (byDate.has(cursor)) {
+    currentStreak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return {
+    today,
+    summary: {
+      totalCards: nextReviews.length,
+      dueToday: forecast[0].due,
+      recentReviews: daily.reduce((sum, day) => sum + day.reviews, 0),
+      recentRetention: recentTested > 0 ? recentPassed / recentTested : null,
+      medianTimeToAnswerMs: median(recentTimes),
+      currentStreak,
+    },
+    daily,
+    retention: buckets,
+    forecast,
+    heatmap,
+  };
+}
@@ -106,13 +106,15 @@ export const CLAUDEMD_BACKUP_PATH = ".memory-loop/claude-md-backup.md";
 
 /**
  * Files and directories that should be gitignored within .memory-loop/.
- * Includes SQLite cache files, session data, and slash command cache.
+ * Includes SQLite cache files, session data, file history, trash, and slash command cache.
  */
 export const MEMORY_LOOP_IGNORE_PATTERNS = [
   "cache.db",
   "cache.db-shm",
   "cache.db-wal",
   "sessions/",
+  "history/",
+  "trash/",
   "slash-commands.json",
 ];
 
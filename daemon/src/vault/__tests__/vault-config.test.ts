@@ -42,6 +42,17 @@ import {
   resolveDiscussionModel,
   resolveCardsEnabled,
   resolveViMode,
+  resolveAutoCompleteParentTasks,
+  resolveTaskRolloverEnabled,
+  resolveTaskRolloverDays,
+  resolveTaskRolloverMode,
+  resolveReviewAlgorithm,
+  resolveTaskStates,
+  resolveTaskStateCycle,
+  resolveTaskScopes,
+  resolveTaskConfigUpdate,
+  DEFAULT_TASK_STATES,
+  DEFAULT_TASK_STATE_CYCLE,
   slashCommandsEqual,
 } from "@memory-loop/shared";
 import { resolveContentRoot } from "@memory-loop/shared/server";
@@ -267,12 +278,16 @@ describe("vault-config", () => {
       });
     });
 
-    describe("boolean fields (cardsEnabled, viMode)", () => {
+    describe("boolean fields (cardsEnabled, viMode, autoCompleteParentTasks, taskRolloverEnabled, meetingWrapUp)", () => {
       test.each([
         ["cardsEnabled", true],
         ["cardsEnabled", false],
         ["viMode", true],
         ["viMode", false],
+        ["autoCompleteParentTasks", true],
+        ["autoCompleteParentTasks", false],
+        ["taskRolloverEnabled", true],
+        ["meetingWrapUp", true],
       ])("loads %s when set to %s", async (field, value) => {
         await writeConfig(testDir, { [field]: value });
 
@@ -285,6 +300,8 @@ describe("vault-config", () => {
         ["cardsEnabled", 1],
         ["viMode", "true"],
         ["viMode", 1],
+        ["autoCompleteParentTasks", "yes"],
+        ["meetingWrapUp", "on"],
       ])("ignores non-boolean %s value %s", async (field, value) => {
         await writeConfig(testDir, { [field]: value });
 
@@ -293,6 +310,89 @@ describe("vault-config", () => {
       });
     });
 
+    describe("captureTargets", () => {
+      test("keeps targets with a name and path and drops invalid fields", async () => {
+        await writeConfig(testDir, {
+          captureTargets: [
+            { name: "Reading list", path: "Lists/reading.md", heading: "To Read", position: "prepend" },
+            { name: "Ideas", path: "ideas.md", format: "- {{text}}", position: "sideways" },
+            { name: "reading LIST", path: "other.md" },
+            { name: "", path: "nameless.md" },
+            { name: "No path" },
+            "invalid",
+          ],
+        });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.captureTargets).toEqual([
+          { name: "Reading list", path: "Lists/reading.md", heading: "To Read", position: "prepend" },
+          { name: "Ideas", path: "ideas.md", format: "- {{text}}" },
+        ]);
+      });
+    });
+
+    describe("daily note settings", () => {
+      test("loads the daily note format, folder, and template", async () => {
+        await writeConfig(testDir, {
+          dailyNoteFormat: "YYYY/MM/YYYY-MM-DD dddd",
+          dailyNoteFolder: "Journal",
+          dailyNoteTemplatePath: "Templates/Daily.md",
+        });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.dailyNoteFormat).toBe("YYYY/MM/YYYY-MM-DD dddd");
+        expect(config.dailyNoteFolder).toBe("Journal");
+        expect(config.dailyNoteTemplatePath).toBe("Templates/Daily.md");
+      });
+
+      test("ignores empty values and paths outside the vault", async () => {
+        await writeConfig(testDir, {
+          dailyNoteFormat: "",
+          dailyNoteFolder: "../elsewhere",
+          dailyNoteTemplatePath: "/etc/template.md",
+        });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.dailyNoteFormat).toBeUndefined();
+        expect(config.dailyNoteFolder).toBeUndefined();
+        expect(config.dailyNoteTemplatePath).toBeUndefined();
+      });
+    });
+
+    describe("task rollover settings", () => {
+      test("loads rollover days and mode", async () => {
+        await writeConfig(testDir, { taskRolloverDays: 3.5, taskRolloverMode: "copy" });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.taskRolloverDays).toBe(3);
+        expect(config.taskRolloverMode).toBe("copy");
+      });
+
+      test("ignores invalid rollover days and mode", async () => {
+        await writeConfig(testDir, { taskRolloverDays: 0, taskRolloverMode: "archive" });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.taskRolloverDays).toBeUndefined();
+        expect(config.taskRolloverMode).toBeUndefined();
+      });
+    });
+
+    describe("reviewAlgorithm", () => {
+      test("loads a valid review algorithm", async () => {
+        await writeConfig(testDir, { reviewAlgorithm: "fsrs" });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.reviewAlgorithm).toBe("fsrs");
+      });
+
+      test("ignores an unknown review algorithm", async () => {
+        await writeConfig(testDir, { reviewAlgorithm: "leitner" });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.reviewAlgorithm).toBeUndefined();
+      });
+    });
+
     describe("badges", () => {
       test("loads config with valid badges array", async () => {
         const badges = [
@@ -391,6 +491,55 @@ describe("vault-config", () => {
         expect(config.pinnedAssets).toEqual([]);
       });
     });
+
+    describe("task settings", () => {
+      test("loads task states, cycle, and scopes", async () => {
+        const taskStates = [
+          { symbol: " ", label: "todo" },
+          { symbol: "x", label: "done", done: true },
+          { symbol: "-", label: "cancelled", color: "red", done: true },
+          { symbol: ">", label: "deferred", color: "blue" },
+        ];
+        const taskScopes = [
+          { path: "00_Inbox", label: "Inbox", category: "inbox" },
+          { path: "Work", label: "Work" },
+        ];
+        await writeConfig(testDir, { taskStates, taskStateCycle: [" ", ">", "x"], taskScopes });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.taskStates).toEqual(taskStates as VaultConfig["taskStates"]);
+        expect(config.taskStateCycle).toEqual([" ", ">", "x"]);
+        expect(config.taskScopes).toEqual(taskScopes);
+      });
+
+      test("filters out invalid task states and scopes", async () => {
+        await writeConfig(testDir, {
+          taskStates: [
+            { symbol: "-", label: "cancelled", color: "pink", done: "yes" },
+            { symbol: "ab", label: "two characters" },
+            { symbol: ">", label: "" },
+            { symbol: "-", label: "duplicate" },
+            null,
+          ],
+          taskStateCycle: [" ", "xx", 1, "-"],
+          taskScopes: [{ path: "Work", label: "Work" }, { path: "", label: "Empty" }, { label: "No path" }],
+        });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.taskStates).toEqual([{ symbol: "-", label: "cancelled" }]);
+        expect(config.taskStateCycle).toEqual([" ", "-"]);
+        expect(config.taskScopes).toEqual([{ path: "Work", label: "Work" }]);
+      });
+
+      test("leaves task settings undefined when not arrays", async () => {
+        await writeConfig(testDir, { taskStates: "x", taskStateCycle: {}, taskScopes: 3 });
+
+        const config = await loadVaultConfig(testDir);
+        expect(config.taskStates).toBeUndefined();
+        expect(config.taskStateCycle).toBeUndefined();
+        expect(config.taskScopes).toBeUndefined();
+      });
+    });
   });
 
   describe("resolveContentRoot", () => {
@@ -522,6 +671,26 @@ describe("vault-config", () => {
       expect(resolveViMode({ viMode: true })).toBe(true);
       expect(resolveViMode({ viMode: false })).toBe(false);
     });
+
+    test("resolveAutoCompleteParentTasks returns default or configured value", () => {
+      expect(resolveAutoCompleteParentTasks({})).toBe(false);
+      expect(resolveAutoCompleteParentTasks({ autoCompleteParentTasks: true })).toBe(true);
+    });
+
+    test("task rollover resolvers return defaults or configured values", () => {
+      expect(resolveTaskRolloverEnabled({})).toBe(false);
+      expect(resolveTaskRolloverDays({})).toBe(7);
+      expect(resolveTaskRolloverDays({ taskRolloverDays: 14 })).toBe(14);
+      expect(resolveTaskRolloverMode({})).toBe("move");
+      expect(resolveTaskRolloverMode({ taskRolloverMode: "copy" })).toBe("copy");
+      expect(resolveTaskRolloverMode({ taskRolloverMode: "archive" })).toBe("move");
+    });
+
+    test("resolveReviewAlgorithm returns default or configured value", () => {
+      expect(resolveReviewAlgorithm({})).toBe("sm2");
+      expect(resolveReviewAlgorithm({ reviewAlgorithm: "fsrs" })).toBe("fsrs");
+      expect(resolveReviewAlgorithm({ reviewAlgorithm: "leitner" })).toBe("sm2");
+    });
   });
 
   describe("resolveBadges", () => {
@@ -540,6 +709,70 @@ describe("vault-config", () => {
     });
   });
 
+  describe("task setting resolvers", () => {
+    const cancelled = { symbol: "-", label: "cancelled", done: true };
+
+    test("returns defaults when not configured", () => {
+      expect(resolveTaskStates({})).toEqual(DEFAULT_TASK_STATES);
+      expect(resolveTaskStates({ taskStates: [] })).toEqual(DEFAULT_TASK_STATES);
+      expect(resolveTaskStateCycle({})).toEqual(DEFAULT_TASK_STATE_CYCLE);
+      expect(resolveTaskScopes({ inboxPath: "Inbox", projectPath: "P" })).toEqual([
+        { category: "inbox", label: "Inbox", path: "Inbox" },
+        { category: "projects", label: "Projects", path: "P" },
+        { category: "areas", label: "Areas", path: DEFAULT_AREA_PATH },
+      ]);
+    });
+
+    test("configured states replace the defaults but keep open and done", () => {
+      expect(resolveTaskStates({ taskStates: [cancelled] })).toEqual([
+        DEFAULT_TASK_STATES[0],
+        DEFAULT_TASK_STATES[1],
+        cancelled,
+      ]);
+
+      const relabeled = [{ symbol: "x", label: "finished", done: true }, { symbol: " ", label: "todo" }];
+      expect(resolveTaskStates({ taskStates: relabeled })).toEqual(relabeled);
+    });
+
+    test("cycle drops unknown and repeated symbols", () => {
+      expect(resolveTaskStateCycle({ taskStates: [cancelled], taskStateCycle: [" ", "-", "?", "-", "x"] }))
+        .toEqual([" ", "-", "x"]);
+    });
+
+    test("cycle falls back to the default with fewer than two states", () => {
+      expect(resolveTaskStateCycle({ taskStateCycle: ["x", "-"] })).toEqual(DEFAULT_TASK_STATE_CYCLE);
+      expect(resolveTaskStateCycle({ taskStateCycle: [] })).toEqual(DEFAULT_TASK_STATE_CYCLE);
+    });
+
+    test("scope category defaults to its label", () => {
+      expect(resolveTaskScopes({ taskScopes: [{ path: "Work", label: "Work" }, { path: "Home", label: "Home", category: "home" }] }))
+        .toEqual([
+          { path: "Work", label: "Work", category: "Work" },
+          { path: "Home", label: "Home", category: "home" },
+        ]);
+    });
+
+    test("resolveTaskConfigUpdate resolves saved settings and keeps the rest", () => {
+      const vault = {
+        inboxPath: "00_Inbox",
+        taskStates: DEFAULT_TASK_STATES,
+        taskStateCycle: [" ", "/", "x"],
+        taskScopes: resolveTaskScopes({}),
+      };
+
+      expect(resolveTaskConfigUpdate({}, vault)).toEqual({
+        taskStates: vault.taskStates,
+        taskStateCycle: vault.taskStateCycle,
+        taskScopes: vault.taskScopes,
+      });
+
+      // New states without "/" drop it from the kept cycle
+      const updated = resolveTaskConfigUpdate({ taskStates: [cancelled] }, vault);
+      expect(updated.taskStates?.map((s) => s.symbol)).toEqual([" ", "x", "-"]);
+      expect(updated.taskStateCycle).toEqual([" ", "x"]);
+    });
+  });
+
   describe("resolvePinnedAssets", () => {
     test("returns empty array when not configured", () => {
       expect(resolvePinnedAssets({})).toEqual([]);
@@ -1020,10 +1253,29 @@ describe("vault-config", () => {
       expect(() => JSON.parse(content) as unknown).not.toThrow();
     });
 
-    describe("cardsEnabled and viMode persistence", () => {
+    test("saves task settings", async () => {
+      const taskStates = [{ symbol: "-", label: "cancelled", color: "red" as const, done: true }];
+      const taskScopes = [{ path: "Work", label: "Work" }];
+      await saveVaultConfig(testDir, { taskStates, taskStateCycle: [" ", "-"], taskScopes });
+
+      const parsed = await readConfig(testDir);
+      expect(parsed.taskStates).toEqual(taskStates);
+      expect(parsed.taskStateCycle).toEqual([" ", "-"]);
+      expect(parsed.taskScopes).toEqual(taskScopes);
+    });
+
+    describe("cardsEnabled, viMode, and autoCompleteParentTasks persistence", () => {
       test.each([
         ["cardsEnabled", false],
         ["viMode", true],
+        ["autoCompleteParentTasks", true],
+        ["taskRolloverEnabled", true],
+        ["taskRolloverDays", 3],
+        ["taskRolloverMode", "copy"],
+        ["reviewAlgorithm", "fsrs"],
+        ["captureTargets", [{ name: "Ideas", path: "ideas.md" }]],
+        ["dailyNoteFormat", "YYYY/MM/YYYY-MM-DD"],
+        ["meetingWrapUp", true],
       ])("saves %s field correctly", async (field, value) => {
         const editableConfig: EditableVaultConfig = { title: "Test", [field]: value };
         const result = await saveVaultConfig(testDir, editableConfig);
@@ -1032,7 +1284,7 @@ describe("vault-config", () => {
 
         const parsed = await readConfig(testDir);
         expect(parsed.title).toBe("Test");
-        expect(parsed[field]).toBe(value);
+        expect(parsed[field]).toEqual(value);
       });
 
       test.each([
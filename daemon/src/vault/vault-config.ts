@@ -7,18 +7,107 @@
 
 import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { join, dirname } from "node:path";
-import type { SlashCommand, Badge, BadgeColor, EditableVaultConfig, VaultConfig, SaveConfigResult } from "@memory-loop/shared";
+import type {
+  SlashCommand,
+  Badge,
+  BadgeColor,
+  EditableVaultConfig,
+  VaultConfig,
+  SaveConfigResult,
+  TaskStateDefinition,
+  TaskScope,
+  CaptureTarget,
+} from "@memory-loop/shared";
 import {
   createLogger,
   CONFIG_FILE_NAME,
   SLASH_COMMANDS_FILE,
   VALID_DISCUSSION_MODELS,
+  VALID_TASK_ROLLOVER_MODES,
+  VALID_REVIEW_ALGORITHMS,
   VALID_BADGE_COLORS,
+  DEFAULT_DAILY_NOTE_FORMAT,
 } from "@memory-loop/shared";
 import { fileExists } from "@memory-loop/shared/server";
 
 const log = createLogger("VaultConfig");
 
+/**
+ * Keeps the task states that have a single-character symbol and a label.
+ * An unknown color is dropped rather than rejecting the state.
+ */
+function parseTaskStates(value: unknown[]): TaskStateDefinition[] {
+  const states: TaskStateDefinition[] = [];
+  for (const item of value) {
+    if (typeof item !== "object" || item === null) continue;
+    const { symbol, label, color, done } = item as Record<string, unknown>;
+    if (typeof symbol !== "string" || symbol.length !== 1) continue;
+    if (typeof label !== "string" || label === "") continue;
+    if (states.some((state) => state.symbol === symbol)) continue;
+
+    const state: TaskStateDefinition = { symbol, label };
+    if (typeof color === "string" && VALID_BADGE_COLORS.includes(color as BadgeColor)) {
+      state.color = color as BadgeColor;
+    }
+    if (typeof done === "boolean") state.done = done;
+    states.push(state);
+  }
+  return states;
+}
+
+/**
+ * Keeps the task scopes that have a path and a label.
+ */
+function parseTaskScopes(value: unknown[]): TaskScope[] {
+  const scopes: TaskScope[] = [];
+  for (const item of value) {
+    if (typeof item !== "object" || item === null) continue;
+    const { path, label, category } = item as Record<string, unknown>;
+    if (typeof path !== "string" || path === "") continue;
+    if (typeof label !== "string" || label === "") continue;
+
+    const scope: TaskScope = { path, label };
+    if (typeof category === "string" && category !== "") scope.category = category;
+    scopes.push(scope);
+  }
+  return scopes;
+}
+
+/**
+ * Keeps the capture targets that have a name and a path, dropping later
+ * targets with a name already taken. Invalid optional fields are dropped.
+ */
+function parseCaptureTargets(value: unknown[]): CaptureTarget[] {
+  const targets: CaptureTarget[] = [];
+  for (const item of value) {
+    if (typeof item !== "object" || item === null) continue;
+    const { name, path, heading, format, position } = item as Record<string, unknown>;
+    if (typeof name !== "string" || name === "") continue;
+    if (typeof path !== "string" || path === "") continue;
+    if (targets.some((target) => target.name.toLowerCase() === name.toLowerCase())) continue;
+
+    const target: CaptureTarget = { name, path };
+    if (typeof heading === "string" && heading !== "") target.heading = heading;
+    if (typeof format === "string" && format !== "") target.format = format;
+    if (position === "append" || position === "prepend") target.position = position;
+    targets.push(target);
+  }
+  return targets;
+}
+
+/**
+ * Whether a configured daily note path stays inside the content root: not
+ * absolute and without ".." segments. Empty values count as unset.
+ */
+function isVaultRelativePath(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.trim() !== "" &&
+    !value.startsWith("/") &&
+    !value.split(/[\\/]/).includes("..")
+  );
+}
+
 /**
  * Loads vault configuration from .memory-loop.json if it exists.
  */
@@ -65,6 +154,12 @@ export async function loadVaultConfig(vaultPath: string): Promise<VaultConfig> {
     if (typeof obj.recentDiscussions === "number" && obj.recentDiscussions > 0) {
       config.recentDiscussions = Math.floor(obj.recentDiscussions);
     }
+    if (typeof obj.trashRetentionDays === "number" && obj.trashRetentionDays > 0) {
+      config.trashRetentionDays = Math.floor(obj.trashRetentionDays);
+    }
+    if (typeof obj.taskRolloverDays === "number" && obj.taskRolloverDays > 0) {
+      config.taskRolloverDays = Math.floor(obj.taskRolloverDays);
+    }
 
     if (
       typeof obj.discussionModel === "string" &&
@@ -77,6 +172,12 @@ export async function loadVaultConfig(vaultPath: string): Promise<VaultConfig> {
       config.order = obj.order;
     }
     if (typeof obj.cardsEnabled === "boolean") config.cardsEnabled = obj.cardsEnabled;
+    if (
+      typeof obj.reviewAlgorithm === "string" &&
+      VALID_REVIEW_ALGORITHMS.includes(obj.reviewAlgorithm as typeof VALID_REVIEW_ALGORITHMS[number])
+    ) {
+      config.reviewAlgorithm = obj.reviewAlgorithm;
+    }
     if (typeof obj.viMode === "boolean") config.viMode = obj.viMode;
 
     if (Array.isArray(obj.badges)) {
@@ -97,6 +198,43 @@ export async function loadVaultConfig(vaultPath: string): Promise<VaultConfig> {
       );
     }
 
+    if (Array.isArray(obj.taskStates)) {
+      config.taskStates = parseTaskStates(obj.taskStates);
+    }
+    if (Array.isArray(obj.taskStateCycle)) {
+      config.taskStateCycle = obj.taskStateCycle.filter(
+        (symbol): symbol is string => typeof symbol === "string" && symbol.length === 1
+      );
+    }
+    if (Array.isArray(obj.taskScopes)) {
+      config.taskScopes = parseTaskScopes(obj.taskScopes);
+    }
+    if (typeof obj.autoCompleteParentTasks === "boolean") {
+      config.autoCompleteParentTasks = obj.autoCompleteParentTasks;
+    }
+    if (typeof obj.taskRolloverEnabled === "boolean") {
+      config.taskRolloverEnabled = obj.taskRolloverEnabled;
+    }
+    if (
+      typeof obj.taskRolloverMode === "string" &&
+      VALID_TASK_ROLLOVER_MODES.includes(obj.taskRolloverMode as typeof VALID_TASK_ROLLOVER_MODES[number])
+    ) {
+      config.taskRolloverMode = obj.taskRolloverMode;
+    }
+    if (Array.isArray(obj.captureTargets)) {
+      config.captureTargets = parseCaptureTargets(obj.captureTargets);
+    }
+    for (const key of ["dailyNoteFormat", "dailyNoteFolder", "dailyNoteTemplatePath"] as const) {
+      if (isVaultRelativePath(obj[key])) {
+        config[key] = obj[key];
+      } else if (typeof obj[key] === "string" && obj[key] !== "") {
+        log.warn(`Ignoring ${key} outside the vault in ${configPath}: ${obj[key]}`);
+      }
+    }
+    if (typeof obj.meetingWrapUp === "boolean") {
+      config.meetingWrapUp = obj.meetingWrapUp;
+    }
+
     return config;
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -120,7 +258,21 @@ function isAllDefaults(config: EditableVaultConfig): boolean {
     (config.badges === undefined || config.badges.length === 0) &&
     config.order === undefined &&
     config.cardsEnabled === undefined &&
-    config.viMode === undefined
+    config.reviewAlgorithm === undefined &&
+    config.viMode === undefined &&
+    config.trashRetentionDays === undefined &&
+    config.taskStates === undefined &&
+    config.taskStateCycle === undefined &&
+    config.taskScopes === undefined &&
+    config.autoCompleteParentTasks === undefined &&
+    config.taskRolloverEnabled === undefined &&
+    config.taskRolloverDays === undefined &&
+    config.taskRolloverMode === undefined &&
+    (config.captureTargets === undefined || config.captureTargets.length === 0) &&
+    (!config.dailyNoteFormat || config.dailyNoteFormat === DEFAULT_DAILY_NOTE_FORMAT) &&
+    !config.dailyNoteFolder &&
+    !config.dailyNoteTemplatePath &&
+    config.meetingWrapUp === undefined
   );
 }
 
@@ -165,7 +317,21 @@ export async function saveVaultConfig(
     if (editableConfig.badges !== undefined) mergedConfig.badges = editableConfig.badges;
     if (editableConfig.order !== undefined) mergedConfig.order = editableConfig.order;
     if (editableConfig.cardsEnabled !== undefined) mergedConfig.cardsEnabled = editableConfig.cardsEnabled;
+    if (editableConfig.reviewAlgorithm !== undefined) mergedConfig.reviewAlgorithm = editableConfig.reviewAlgorithm;
     if (editableConfig.viMode !== undefined) mergedConfig.viMode = editableConfig.viMode;
+    if (editableConfig.trashRetentionDays !== undefined) mergedConfig.trashRetentionDays = editableConfig.trashRetentionDays;
+    if (editableConfig.taskStates !== undefined) mergedConfig.taskStates = editableConfig.taskStates;
+    if (editableConfig.taskStateCycle !== undefined) mergedConfig.taskStateCycle = editableConfig.taskStateCycle;
+    if (editableConfig.taskScopes !== undefined) mergedConfig.taskScopes = editableConfig.taskScopes;
+    if (editableConfig.autoCompleteParentTasks !== undefined) mergedConfig.autoCompleteParentTasks = editableConfig.autoCompleteParentTasks;
+    if (editableConfig.taskRolloverEnabled !== undefined) mergedConfig.taskRolloverEnabled = editableConfig.taskRolloverEnabled;
+    if (editableConfig.taskRolloverDays !== undefined) mergedConfig.taskRolloverDays = editableConfig.taskRolloverDays;
+    if (editableConfig.taskRolloverMode !== undefined) mergedConfig.taskRolloverMode = editableConfig.taskRolloverMode;
+    if (editableConfig.captureTargets !== undefined) mergedConfig.captureTargets = editableConfig.captureTargets;
+    if (editableConfig.dailyNoteFormat !== undefined) mergedConfig.dailyNoteFormat = editableConfig.dailyNoteFormat;
+    if (editableConfig.dailyNoteFolder !== undefined) mergedConfig.dailyNoteFolder = editableConfig.dailyNoteFolder;
+    if (editableConfig.dailyNoteTemplatePath !== undefined) mergedConfig.dailyNoteTemplatePath = editableConfig.dailyNoteTemplatePath;
+    if (editableConfig.meetingWrapUp !== undefined) mergedConfig.meetingWrapUp = editableConfig.meetingWrapUp;
 
     await writeFile(configPath, JSON.stringify(mergedConfig, null, 2) + "\n", "utf-8");
 
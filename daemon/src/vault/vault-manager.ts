@@ -27,7 +27,21 @@ import {
   resolveBadges,
   resolveOrder,
   resolveCardsEnabled,
+  resolveReviewAlgorithm,
   resolveViMode,
+  resolveTrashRetentionDays,
+  resolveTaskStates,
+  resolveTaskStateCycle,
+  resolveTaskScopes,
+  resolveAutoCompleteParentTasks,
+  resolveTaskRolloverEnabled,
+  resolveTaskRolloverDays,
+  resolveTaskRolloverMode,
+  resolveCaptureTargets,
+  resolveDailyNoteFormat,
+  resolveDailyNoteFolder,
+  resolveDailyNoteTemplatePath,
+  resolveMeetingWrapUp,
 } from "@memory-loop/shared";
 import { fileExists, directoryExists, resolveContentRoot } from "@memory-loop/shared/server";
 import { loadVaultConfig } from "./vault-config";
@@ -175,7 +189,21 @@ export async function parseVault(
     badges: resolveBadges(config),
     order: resolveOrder(config),
     cardsEnabled: resolveCardsEnabled(config),
+    reviewAlgorithm: resolveReviewAlgorithm(config),
     viMode: resolveViMode(config),
+    trashRetentionDays: resolveTrashRetentionDays(config),
+    taskStates: resolveTaskStates(config),
+    taskStateCycle: resolveTaskStateCycle(config),
+    taskScopes: resolveTaskScopes(config),
+    autoCompleteParentTasks: resolveAutoCompleteParentTasks(config),
+    taskRolloverEnabled: resolveTaskRolloverEnabled(config),
+    taskRolloverDays: resolveTaskRolloverDays(config),
+    taskRolloverMode: resolveTaskRolloverMode(config),
+    captureTargets: resolveCaptureTargets(config),
+    dailyNoteFormat: resolveDailyNoteFormat(config),
+    dailyNoteFolder: resolveDailyNoteFolder(config),
+    dailyNoteTemplatePath: resolveDailyNoteTemplatePath(config),
+    meetingWrapUp: resolveMeetingWrapUp(config),
   };
 }
 
@@ -0,0 +1,36 @@
+/**
+ * Cross-Vault Content Search API Route - Daemon Proxy
+ *
+ * GET /api/search/content - Search file contents in every vault
+ *
+ * Proxies requests to daemon endpoint:
+ *   GET /search/content (query: q, limit)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+/**
+ * GET /api/search/content
+ *
+ * Search file contents across all vaults. Results are merged by relevance
+ * and labelled with vaultId and vaultName.
+ *
+ * Query parameters:
+ * - q: Search query (required, non-empty). Same structured syntax as the
+ *   vault-scoped endpoint.
+ * - limit: Maximum merged results (optional)
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q") ?? "";
+  const limitParam = request.nextUrl.searchParams.get("limit");
+
+  let url = `/search/content?q=${encodeURIComponent(query)}`;
+  if (limitParam) {
+    url += `&limit=${encodeURIComponent(limitParam)}`;
+  }
+
+  const res = await daemonFetch(url);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
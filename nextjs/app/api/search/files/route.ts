@@ -0,0 +1,35 @@
+/**
+ * Cross-Vault File Search API Route - Daemon Proxy
+ *
+ * GET /api/search/files - Search file names in every vault
+ *
+ * Proxies requests to daemon endpoint:
+ *   GET /search/files (query: q, limit)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+/**
+ * GET /api/search/files
+ *
+ * Fuzzy file name search across all vaults. Results are merged by score
+ * and labelled with vaultId and vaultName.
+ *
+ * Query parameters:
+ * - q: Search query (required, non-empty)
+ * - limit: Maximum merged results (optional)
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q") ?? "";
+  const limitParam = request.nextUrl.searchParams.get("limit");
+
+  let url = `/search/files?q=${encodeURIComponent(query)}`;
+  if (limitParam) {
+    url += `&limit=${encodeURIComponent(limitParam)}`;
+  }
+
+  const res = await daemonFetch(url);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
@@ -0,0 +1,18 @@
+/**
+ * Cross-Vault Search Index API Route - Daemon Proxy
+ *
+ * POST /api/search/index - Build the indexes all-vaults search skips
+ *
+ * Proxies to daemon: POST /search/index
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+export async function POST() {
+  const res = await daemonFetch("/search/index", {
+    method: "POST",
+  });
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
@@ -4,7 +4,7 @@
  * POST /api/vaults/:vaultId/capture - Capture text to daily/meeting note
  *
  * Proxies requests to daemon endpoint:
- *   POST /vaults/:id/capture (body: { text })
+ *   POST /vaults/:id/capture (body: { text, target?, timestamp? })
  */
 
 import { NextResponse } from "next/server";
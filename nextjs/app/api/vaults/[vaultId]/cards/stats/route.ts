@@ -0,0 +1,21 @@
+/**
+ * Card Stats API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * GET /api/vaults/:vaultId/cards/stats - Get review stats
+ *
+ * Proxies to daemon: GET /vaults/:id/cards/stats
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const res = await daemonFetch(`/vaults/${encodeURIComponent(vaultId)}/cards/stats`);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
@@ -0,0 +1,44 @@
+/**
+ * Daily Prep History Route (Vault-Scoped) - Daemon Proxy
+ *
+ * GET /api/vaults/:vaultId/daily-prep/history - Get daily prep trends
+ *
+ * Proxies requests to daemon endpoint:
+ *   GET /vaults/:id/daily-prep/history (query: from, to)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * GET /api/vaults/:vaultId/daily-prep/history
+ *
+ * Returns completion trends for the daily prep files in a date range.
+ *
+ * Query parameters:
+ * - from: First day, YYYY-MM-DD (optional, defaults to 89 days before `to`)
+ * - to: Last day, YYYY-MM-DD (optional, defaults to today)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const query = new URLSearchParams();
+  for (const key of ["from", "to"]) {
+    const value = request.nextUrl.searchParams.get(key);
+    if (value) {
+      query.set(key, value);
+    }
+  }
+
+  let url = `/vaults/${encodeURIComponent(vaultId)}/daily-prep/history`;
+  if (query.size > 0) {
+    url += `?${query.toString()}`;
+  }
+
+  const res = await daemonFetch(url);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
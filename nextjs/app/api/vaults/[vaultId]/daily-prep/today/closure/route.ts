@@ -0,0 +1,35 @@
+/**
+ * Daily Prep Closure Route (Vault-Scoped) - Daemon Proxy
+ *
+ * POST /api/vaults/:vaultId/daily-prep/today/closure - Close the day
+ *
+ * Proxies requests to daemon endpoint:
+ *   POST /vaults/:id/daily-prep/today/closure (body: { reflection, assessments? })
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * POST /api/vaults/:vaultId/daily-prep/today/closure
+ *
+ * Records per-commitment assessments and the evening reflection.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/daily-prep/today/closure`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
@@ -0,0 +1,52 @@
+/**
+ * Daily Prep Commitment Route (Vault-Scoped) - Daemon Proxy
+ *
+ * PATCH /api/vaults/:vaultId/daily-prep/today/commitments/:index - Edit a commitment
+ * DELETE /api/vaults/:vaultId/daily-prep/today/commitments/:index - Remove a commitment
+ *
+ * Proxies requests to daemon endpoints:
+ *   PATCH /vaults/:id/daily-prep/today/commitments/:index (body: { text?, assessment?, note? })
+ *   DELETE /vaults/:id/daily-prep/today/commitments/:index
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string; index: string }>;
+}
+
+/**
+ * PATCH /api/vaults/:vaultId/daily-prep/today/commitments/:index
+ *
+ * Edits a commitment's text, assessment, or note (0-based index).
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { vaultId, index } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/daily-prep/today/commitments/${encodeURIComponent(index)}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
+
+/**
+ * DELETE /api/vaults/:vaultId/daily-prep/today/commitments/:index
+ *
+ * Removes a commitment (0-based index).
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  const { vaultId, index } = await params;
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/daily-prep/today/commitments/${encodeURIComponent(index)}`,
+    { method: "DELETE" }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
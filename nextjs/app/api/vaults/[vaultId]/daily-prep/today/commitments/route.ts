@@ -0,0 +1,35 @@
+/**
+ * Daily Prep Commitments Route (Vault-Scoped) - Daemon Proxy
+ *
+ * POST /api/vaults/:vaultId/daily-prep/today/commitments - Add a commitment
+ *
+ * Proxies requests to daemon endpoint:
+ *   POST /vaults/:id/daily-prep/today/commitments (body: { text })
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * POST /api/vaults/:vaultId/daily-prep/today/commitments
+ *
+ * Adds a commitment to the end of today's list.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/daily-prep/today/commitments`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
@@ -1,10 +1,14 @@
 /**
- * Daily Prep Status Route (Vault-Scoped) - Daemon Proxy
+ * Daily Prep Route (Vault-Scoped) - Daemon Proxy
  *
  * GET /api/vaults/:vaultId/daily-prep/today - Get today's prep status
+ * POST /api/vaults/:vaultId/daily-prep/today - Create today's prep
+ * PATCH /api/vaults/:vaultId/daily-prep/today - Change energy or calendar
  *
- * Proxies requests to daemon endpoint:
+ * Proxies requests to daemon endpoints:
  *   GET /vaults/:id/daily-prep/today
+ *   POST /vaults/:id/daily-prep/today (body: { energy?, calendar?, commitments? })
+ *   PATCH /vaults/:id/daily-prep/today (body: { energy?, calendar? })
  */
 
 import { NextResponse } from "next/server";
@@ -18,7 +22,7 @@ interface RouteParams {
  * GET /api/vaults/:vaultId/daily-prep/today
  *
  * Returns the daily prep status for today.
- * Used by Ground tab to determine button visibility and show commitment.
+ * Used by Ground tab to determine button visibility and drive the prep card.
  */
 export async function GET(_request: Request, { params }: RouteParams) {
   const { vaultId } = await params;
@@ -28,3 +32,43 @@ export async function GET(_request: Request, { params }: RouteParams) {
   const body: unknown = await res.json();
   return NextResponse.json(body, { status: res.status });
 }
+
+/**
+ * POST /api/vaults/:vaultId/daily-prep/today
+ *
+ * Creates today's prep from the morning answers. 409 if it already exists.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/daily-prep/today`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
+
+/**
+ * PATCH /api/vaults/:vaultId/daily-prep/today
+ *
+ * Changes today's energy or calendar self-report.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/daily-prep/today`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
@@ -2,7 +2,7 @@
  * Directories API Route (Vault-Scoped, Path-Based) - Daemon Proxy
  *
  * GET /api/vaults/:vaultId/directories/:path/contents - Get directory contents for delete preview
- * DELETE /api/vaults/:vaultId/directories/:path - Delete directory and contents
+ * DELETE /api/vaults/:vaultId/directories/:path - Move directory and contents to the trash
  *
  * Proxies requests to daemon endpoints.
  */
@@ -41,7 +41,7 @@ export async function GET(_request: Request, { params }: RouteParams) {
 /**
  * DELETE /api/vaults/:vaultId/directories/:path
  *
- * Deletes a directory and all its contents.
+ * Moves a directory and all its contents to the trash.
  */
 export async function DELETE(_request: Request, { params }: RouteParams) {
   const { vaultId, path } = await params;
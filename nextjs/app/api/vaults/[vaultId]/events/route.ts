@@ -0,0 +1,60 @@
+/**
+ * Vault Events API Route (Vault-Scoped) - Daemon SSE Proxy
+ *
+ * GET /api/vaults/:vaultId/events - Stream file change events
+ *
+ * Proxies requests to daemon endpoint:
+ *   GET /vaults/:id/events
+ *
+ * Byte-transparent: the daemon's SSE bytes flow through unchanged.
+ * Cancelling the response body (client disconnect) closes the daemon
+ * stream, which unsubscribes from the vault watcher.
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch, DaemonUnavailableError } from "@/lib/daemon/fetch";
+import { createLogger } from "@memory-loop/shared";
+
+const log = createLogger("api/vaults/events");
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+};
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * GET /api/vaults/:vaultId/events
+ *
+ * Returns an SSE stream of VaultChangeEvent messages. Errors before the
+ * stream starts (unknown vault, daemon down) are returned as JSON.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+
+  try {
+    const res = await daemonFetch(
+      `/vaults/${encodeURIComponent(vaultId)}/events`,
+      { signal: request.signal }
+    );
+    if (!res.ok || !res.body) {
+      const body: unknown = await res.json();
+      return NextResponse.json(body, { status: res.status });
+    }
+    return new Response(res.body, { headers: SSE_HEADERS });
+  } catch (err) {
+    if (err instanceof DaemonUnavailableError) {
+      log.warn("Daemon unavailable for vault events", err);
+      return NextResponse.json(
+        { error: "Daemon is not available", code: "DAEMON_UNAVAILABLE" },
+        { status: 503 }
+      );
+    }
+    throw err;
+  }
+}
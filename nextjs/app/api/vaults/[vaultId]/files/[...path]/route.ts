@@ -2,15 +2,19 @@
  * Files API Routes (Vault-Scoped, Path-Based) - Daemon Proxy
  *
  * GET /api/vaults/:vaultId/files/:path - Read file content
+ * POST /api/vaults/:vaultId/files/:path/history/:versionId/restore - Restore a version
  * PUT /api/vaults/:vaultId/files/:path - Write file content
  * PATCH /api/vaults/:vaultId/files/:path - Rename/move file
- * DELETE /api/vaults/:vaultId/files/:path - Delete file
+ * DELETE /api/vaults/:vaultId/files/:path - Move file to the trash
  *
  * Proxies requests to daemon endpoints:
- *   GET /vaults/:id/files/*
+ *   GET /vaults/:id/files/* (and the file's /history, /history/diff, /history/:versionId)
+ *   POST /vaults/:id/files/:path/history/:versionId/restore
  *   PUT /vaults/:id/files/* (body: { content })
  *   PATCH /vaults/:id/files/* (body: { newName } or { newPath })
  *   DELETE /vaults/:id/files/*
+ *
+ * ETag and If-Match headers are passed through for conflict detection.
  */
 
 import { NextResponse } from "next/server";
@@ -26,16 +30,51 @@ function buildFilePath(vaultId: string, path: string[]): string {
   return `/vaults/${encodedVaultId}/files/${encodedPath}`;
 }
 
+/**
+ * Builds headers for a JSON write, forwarding the client's If-Match.
+ */
+function buildWriteHeaders(request: Request): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const ifMatch = request.headers.get("If-Match");
+  if (ifMatch) headers["If-Match"] = ifMatch;
+  return headers;
+}
+
+/**
+ * Copies the daemon's ETag onto the proxied response.
+ */
+function withEtag(res: Response, body: unknown): NextResponse {
+  const etag = res.headers.get("ETag");
+  return NextResponse.json(body, {
+    status: res.status,
+    ...(etag ? { headers: { ETag: etag } } : {}),
+  });
+}
+
 /**
  * GET /api/vaults/:vaultId/files/:path
  *
- * Reads file content.
+ * Reads file content, or a file's history when the path ends in /history/...
+ * The query string is forwarded.
  */
-export async function GET(_request: Request, { params }: RouteParams) {
+export async function GET(request: Request, { params }: RouteParams) {
   const { vaultId, path } = await params;
-  const res = await daemonFetch(buildFilePath(vaultId, path));
+  const { search } = new URL(request.url);
+  const res = await daemonFetch(buildFilePath(vaultId, path) + search);
   const body: unknown = await res.json();
-  return NextResponse.json(body, { status: res.status });
+  return withEtag(res, body);
+}
+
+/**
+ * POST /api/vaults/:vaultId/files/:path/history/:versionId/restore
+ *
+ * Restores an older version of a file.
+ */
+export async function POST(_request: Request, { params }: RouteParams) {
+  const { vaultId, path } = await params;
+  const res = await daemonFetch(buildFilePath(vaultId, path), { method: "POST" });
+  const body: unknown = await res.json();
+  return withEtag(res, body);
 }
 
 /**
@@ -48,11 +87,11 @@ export async function PUT(request: Request, { params }: RouteParams) {
   const body = await request.text();
   const res = await daemonFetch(buildFilePath(vaultId, path), {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
+    headers: buildWriteHeaders(request),
     body,
   });
   const responseBody: unknown = await res.json();
-  return NextResponse.json(responseBody, { status: res.status });
+  return withEtag(res, responseBody);
 }
 
 /**
@@ -66,7 +105,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
   const body = await request.text();
   const res = await daemonFetch(buildFilePath(vaultId, path), {
     method: "PATCH",
-    headers: { "Content-Type": "application/json" },
+    headers: buildWriteHeaders(request),
     body,
   });
   const responseBody: unknown = await res.json();
@@ -76,7 +115,7 @@ export async function PATCH(request: Request, { params }: RouteParams) {
 /**
  * DELETE /api/vaults/:vaultId/files/:path
  *
- * Deletes a file.
+ * Moves a file to the trash.
  */
 export async function DELETE(_request: Request, { params }: RouteParams) {
   const { vaultId, path } = await params;
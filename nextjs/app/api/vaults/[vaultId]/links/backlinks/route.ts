@@ -0,0 +1,30 @@
+/**
+ * Backlinks API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * GET /api/vaults/:vaultId/links/backlinks - Notes linking to a note
+ *
+ * Proxies requests to daemon endpoint:
+ *   GET /vaults/:id/links/backlinks (query: path)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * GET /api/vaults/:vaultId/links/backlinks
+ *
+ * Returns { path, links: NoteLink[] }.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const search = request.nextUrl.searchParams.toString();
+
+  const url = `/vaults/${encodeURIComponent(vaultId)}/links/backlinks${search ? `?${search}` : ""}`;
+  const res = await daemonFetch(url);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
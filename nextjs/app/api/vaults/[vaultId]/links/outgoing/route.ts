@@ -0,0 +1,30 @@
+/**
+ * Outgoing Links API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * GET /api/vaults/:vaultId/links/outgoing - Links from a note
+ *
+ * Proxies requests to daemon endpoint:
+ *   GET /vaults/:id/links/outgoing (query: path)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * GET /api/vaults/:vaultId/links/outgoing
+ *
+ * Returns { path, links: NoteLink[] }.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const search = request.nextUrl.searchParams.toString();
+
+  const url = `/vaults/${encodeURIComponent(vaultId)}/links/outgoing${search ? `?${search}` : ""}`;
+  const res = await daemonFetch(url);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
@@ -0,0 +1,30 @@
+/**
+ * Unresolved Links API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * GET /api/vaults/:vaultId/links/unresolved - Links to notes that don't exist
+ *
+ * Proxies requests to daemon endpoint:
+ *   GET /vaults/:id/links/unresolved (query: path?)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * GET /api/vaults/:vaultId/links/unresolved
+ *
+ * Returns { path?, links: NoteLink[] }; without path, covers the whole vault.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const search = request.nextUrl.searchParams.toString();
+
+  const url = `/vaults/${encodeURIComponent(vaultId)}/links/unresolved${search ? `?${search}` : ""}`;
+  const res = await daemonFetch(url);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
@@ -20,7 +20,9 @@ interface RouteParams {
  * Search file contents using full-text search.
  *
  * Query parameters:
- * - q: Search query (required, non-empty)
+ * - q: Search query (required, non-empty). Supports the structured syntax
+ *   (tag:, path:, after:/before:, has:task, "phrases", -exclusions);
+ *   malformed filters return 400 INVALID_QUERY from the daemon.
  * - limit: Maximum results (optional)
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
@@ -0,0 +1,36 @@
+/**
+ * Task Move API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * POST /api/vaults/:vaultId/tasks/move - Move a task to another file
+ *
+ * Proxies requests to daemon endpoint:
+ *   POST /vaults/:id/tasks/move (body: { filePath, lineNumber, toFilePath, heading? })
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * POST /api/vaults/:vaultId/tasks/move
+ *
+ * Moves a task line to the end of another file, or of a heading's section in
+ * that file. The task keeps its state and metadata.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks/move`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
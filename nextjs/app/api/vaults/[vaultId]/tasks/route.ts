@@ -3,13 +3,19 @@
  *
  * GET /api/vaults/:vaultId/tasks - Get tasks list
  * PATCH /api/vaults/:vaultId/tasks - Toggle task completion
+ * POST /api/vaults/:vaultId/tasks - Create a task
+ * PUT /api/vaults/:vaultId/tasks - Edit a task
+ * DELETE /api/vaults/:vaultId/tasks - Delete a task
  *
  * Proxies requests to daemon endpoints:
  *   GET /vaults/:id/tasks
- *   PATCH /vaults/:id/tasks (body: { filePath, lineNumber, newState? })
+ *   PATCH /vaults/:id/tasks (body: { filePath, lineNumber, newState?, timestamp? })
+ *   POST /vaults/:id/tasks (body: { text, filePath?, heading?, dueDate?, ... })
+ *   PUT /vaults/:id/tasks (body: { filePath, lineNumber, text?, dueDate?, ... })
+ *   DELETE /vaults/:id/tasks (query: filePath, lineNumber)
  */
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { daemonFetch } from "@/lib/daemon/fetch";
 
 interface RouteParams {
@@ -52,3 +58,63 @@ export async function PATCH(request: Request, { params }: RouteParams) {
   const responseBody: unknown = await res.json();
   return NextResponse.json(responseBody, { status: res.status });
 }
+
+/**
+ * POST /api/vaults/:vaultId/tasks
+ *
+ * Creates a task in a file, under an optional heading. Without filePath the
+ * task goes into today's daily note.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
+
+/**
+ * PUT /api/vaults/:vaultId/tasks
+ *
+ * Edits a task's text and metadata in place. Null clears a metadata field.
+ */
+export async function PUT(request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const body = await request.text();
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body,
+    }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
+
+/**
+ * DELETE /api/vaults/:vaultId/tasks
+ *
+ * Query parameters:
+ * - filePath: File containing the task
+ * - lineNumber: 1-indexed line of the task
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const filePath = request.nextUrl.searchParams.get("filePath") ?? "";
+  const lineNumber = request.nextUrl.searchParams.get("lineNumber") ?? "";
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/tasks?filePath=${encodeURIComponent(filePath)}&lineNumber=${encodeURIComponent(lineNumber)}`,
+    { method: "DELETE" }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
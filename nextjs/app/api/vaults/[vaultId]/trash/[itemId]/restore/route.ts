@@ -0,0 +1,29 @@
+/**
+ * Trash Restore API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * POST /api/vaults/:vaultId/trash/:itemId/restore - Restore a trashed item
+ *
+ * Proxies requests to daemon endpoint POST /vaults/:id/trash/:itemId/restore
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string; itemId: string }>;
+}
+
+/**
+ * POST /api/vaults/:vaultId/trash/:itemId/restore
+ *
+ * Moves the item back to its original path (or beside it, if taken).
+ */
+export async function POST(_request: Request, { params }: RouteParams) {
+  const { vaultId, itemId } = await params;
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/trash/${encodeURIComponent(itemId)}/restore`,
+    { method: "POST" }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
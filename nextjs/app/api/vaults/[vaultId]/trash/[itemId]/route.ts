@@ -0,0 +1,29 @@
+/**
+ * Trash Item API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * DELETE /api/vaults/:vaultId/trash/:itemId - Permanently delete a trashed item
+ *
+ * Proxies requests to daemon endpoint DELETE /vaults/:id/trash/:itemId
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string; itemId: string }>;
+}
+
+/**
+ * DELETE /api/vaults/:vaultId/trash/:itemId
+ *
+ * Permanently deletes one item from the trash.
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  const { vaultId, itemId } = await params;
+  const res = await daemonFetch(
+    `/vaults/${encodeURIComponent(vaultId)}/trash/${encodeURIComponent(itemId)}`,
+    { method: "DELETE" }
+  );
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
@@ -0,0 +1,43 @@
+/**
+ * Trash API Route (Vault-Scoped) - Daemon Proxy
+ *
+ * GET /api/vaults/:vaultId/trash - List trashed items
+ * DELETE /api/vaults/:vaultId/trash - Empty the trash
+ *
+ * Proxies requests to daemon endpoints:
+ *   GET /vaults/:id/trash
+ *   DELETE /vaults/:id/trash
+ */
+
+import { NextResponse } from "next/server";
+import { daemonFetch } from "@/lib/daemon/fetch";
+
+interface RouteParams {
+  params: Promise<{ vaultId: string }>;
+}
+
+/**
+ * GET /api/vaults/:vaultId/trash
+ *
+ * Returns deleted files and directories, newest first, with the retention period.
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const res = await daemonFetch(`/vaults/${encodeURIComponent(vaultId)}/trash`);
+  const body: unknown = await res.json();
+  return NextResponse.json(body, { status: res.status });
+}
+
+/**
+ * DELETE /api/vaults/:vaultId/trash
+ *
+ * Permanently deletes everything in the trash.
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  const { vaultId } = await params;
+  const res = await daemonFetch(`/vaults/${encodeURIComponent(vaultId)}/trash`, {
+    method: "DELETE",
+  });
+  const responseBody: unknown = await res.json();
+  return NextResponse.json(responseBody, { status: res.status });
+}
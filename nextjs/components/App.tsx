@@ -23,8 +23,14 @@ import { BrowseMode } from "@/components/browse";
 import { ConfigEditorDialog, type EditableVaultConfig } from "@/components/vault";
 import { useHoliday } from "@/hooks/useHoliday";
 import { useMeetings } from "@/hooks/useMeetings";
+import { useOutboxSync } from "@/hooks/useOutbox";
 import { useConfig } from "@/hooks/useConfig";
-import { createLogger } from "@memory-loop/shared";
+import {
+  createLogger,
+  DEFAULT_TASK_STATES,
+  DEFAULT_TASK_STATE_CYCLE,
+  resolveTaskScopes,
+} from "@memory-loop/shared";
 import "@/styles/App.css";
 
 const log = createLogger("App");
@@ -66,6 +72,8 @@ function MainContent(): React.ReactNode {
             title: state.title,
             filePath: state.filePath,
             startedAt: state.startedAt,
+            lastCaptureAt: state.lastCaptureAt,
+            resumedAt: state.resumedAt,
           });
         }
       });
@@ -230,7 +238,21 @@ function MainContent(): React.ReactNode {
             badges: vault.badges,
             order: vault.order === Infinity ? undefined : vault.order,
             cardsEnabled: vault.cardsEnabled,
+            reviewAlgorithm: vault.reviewAlgorithm ?? "sm2",
             viMode: vault.viMode,
+            trashRetentionDays: vault.trashRetentionDays,
+            autoCompleteParentTasks: vault.autoCompleteParentTasks ?? false,
+            taskRolloverEnabled: vault.taskRolloverEnabled ?? false,
+            taskRolloverDays: vault.taskRolloverDays ?? 7,
+            taskRolloverMode: vault.taskRolloverMode ?? "move",
+            captureTargets: vault.captureTargets ?? [],
+            dailyNoteFormat: vault.dailyNoteFormat ?? "",
+            dailyNoteFolder: vault.dailyNoteFolder ?? "",
+            dailyNoteTemplatePath: vault.dailyNoteTemplatePath ?? "",
+            meetingWrapUp: vault.meetingWrapUp ?? false,
+            taskStates: vault.taskStates ?? DEFAULT_TASK_STATES,
+            taskStateCycle: vault.taskStateCycle ?? DEFAULT_TASK_STATE_CYCLE,
+            taskScopes: vault.taskScopes ?? resolveTaskScopes({ inboxPath: vault.inboxPath }),
           }}
           onSave={handleConfigSave}
           onCancel={handleConfigCancel}
@@ -267,6 +289,9 @@ function AppShell(): React.ReactNode {
   const [isReady, setIsReady] = useState(false);
   const holiday = useHoliday();
 
+  // Replay writes queued while offline, whichever screen is showing
+  useOutboxSync();
+
   // Set holiday attribute on <html> so it covers portaled dialogs
   React.useEffect(() => {
     if (holiday) {
@@ -11,8 +11,9 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useSession } from "../../contexts/SessionContext";
-import type { BrowseViewMode, SearchMode } from "../../contexts/SessionContext";
+import type { BrowseViewMode, SearchMode, SearchScope } from "../../contexts/SessionContext";
 import { useFileBrowser } from "../../hooks/useFileBrowser";
+import { FileConflictError } from "../../lib/api/types";
 import { useSearch } from "../../hooks/useSearch";
 import { useHome } from "../../hooks/useHome";
 import { useConfig } from "../../hooks/useConfig";
@@ -28,10 +29,12 @@ import { TxtViewer } from "./viewers/TxtViewer";
 import { CsvViewer } from "./viewers/CsvViewer";
 import { DownloadViewer } from "./viewers/DownloadViewer";
 import { SearchHeader } from "./SearchHeader";
-import { SearchResults } from "./SearchResults";
+import { SearchResults, getSearchResultKey } from "./SearchResults";
 import { PairWritingMode } from "../pair-writing/PairWritingMode";
 import { ConfirmDialog } from "../shared/ConfirmDialog";
+import { FileHistoryDialog } from "./FileHistoryDialog";
 import { isImageFile, isVideoFile, isPdfFile, isMarkdownFile, isJsonFile, isTxtFile, isCsvFile, hasSupportedViewer } from "@memory-loop/shared";
+import type { VaultChangeEvent, VaultInfo } from "@memory-loop/shared";
 import { createLogger } from "@memory-loop/shared";
 // Note: FileSearchResult, ContentSearchResult types removed - now handled internally by REST API hooks
 import "./BrowseMode.css";
@@ -56,11 +59,23 @@ export function BrowseMode(): React.ReactNode {
   const [pendingDirectoryContents, setPendingDirectoryContents] = useState<DirectoryContents | null>(null);
   const [isPairWritingActive, setIsPairWritingActive] = useState(false);
   const [pendingViewerDeletePath, setPendingViewerDeletePath] = useState<string | null>(null);
+  const [historyPath, setHistoryPath] = useState<string | null>(null);
+  // Vaults the last all-vaults search skipped because their index isn't built
+  const [skippedVaultIds, setSkippedVaultIds] = useState<string[]>([]);
+  const [isIndexingVaults, setIsIndexingVaults] = useState(false);
 
-  const { browser, vault, cacheDirectory, clearDirectoryCache, setCurrentPath, setFileContent, setFileError, setFileLoading, startSave, saveSuccess, saveError, setViewMode, setTasks, setTasksLoading, setTasksError, updateTask, setSearchActive, setSearchMode, setSearchQuery, setSearchResults, setSearchLoading, toggleResultExpanded, setSnippets, clearSearch, setMode, setPinnedAssets } = useSession();
+  const { browser, vault, selectVault, cacheDirectory, clearDirectoryCache, setCurrentPath, setFileContent, setFileError, setFileLoading, startSave, saveSuccess, saveError, saveConflict, setViewMode, setTasks, setTasksLoading, setTasksError, updateTask, setSearchActive, setSearchMode, setSearchScope, setSearchQuery, setSearchResults, setSearchLoading, toggleResultExpanded, setSnippets, clearSearch, setMode, setPinnedAssets } = useSession();
+
+  // Live refresh handlers are defined below (they need fileBrowser), so the
+  // hook calls through refs
+  const vaultChangeRef = useRef<((events: VaultChangeEvent[]) => void) | null>(null);
+  const vaultResyncRef = useRef<(() => void) | null>(null);
 
   // REST API hooks for file operations
-  const fileBrowser = useFileBrowser(vault?.id);
+  const fileBrowser = useFileBrowser(vault?.id, {
+    onVaultChange: (events) => vaultChangeRef.current?.(events),
+    onVaultResync: () => vaultResyncRef.current?.(),
+  });
   const searchApi = useSearch(vault?.id);
   const homeApi = useHome(vault?.id);
   const configApi = useConfig(vault?.id);
@@ -187,7 +202,7 @@ export function BrowseMode(): React.ReactNode {
       hasAutoLoadedRef.current = path;
       setFileLoading(true);
       fileBrowser.readFile(path).then((result) => {
-        setFileContent(result.content, result.truncated);
+        setFileContent(result.content, result.truncated, result.etag);
         setIsMobileTreeOpen(false);
       }).catch((err) => {
         setFileError(err instanceof Error ? err.message : "Failed to load file");
@@ -219,6 +234,49 @@ export function BrowseMode(): React.ReactNode {
     [fileBrowser, cacheDirectory]
   );
 
+  // Live refresh from vault change events (edits here or in other apps).
+  // Re-lists affected directories that are already cached and reloads the
+  // open file unless it is being edited.
+  const handleVaultChange = useCallback(
+    (events: VaultChangeEvent[]) => {
+      const parents = new Set<string>();
+      for (const event of events) {
+        const parentPath = event.path.includes("/")
+          ? event.path.substring(0, event.path.lastIndexOf("/"))
+          : "";
+        if (browser.directoryCache.has(parentPath)) {
+          parents.add(parentPath);
+        }
+      }
+      for (const parentPath of parents) {
+        void fileBrowser.listDirectory(parentPath).then((listing) => {
+          cacheDirectory(listing.path, listing.entries);
+        }).catch((err) => {
+          log.warn("Failed to refresh directory after change", err);
+        });
+      }
+
+      const path = browser.currentPath;
+      const current = events.filter((event) => event.path === path).pop();
+      if (!current || browser.isAdjusting || isSavingRef.current || isPairWritingActiveRef.current) return;
+      if (!(isMarkdownFile(path) || isJsonFile(path) || isTxtFile(path) || isCsvFile(path))) return;
+
+      if (current.type === "file-deleted") {
+        setFileError("This file was deleted outside Memory Loop");
+        return;
+      }
+      void fileBrowser.readFile(path).then((result) => {
+        if (result.content !== browser.currentFileContent || result.etag !== browser.currentFileEtag) {
+          setFileContent(result.content, result.truncated, result.etag);
+        }
+      }).catch((err) => {
+        log.warn("Failed to reload file after change", err);
+      });
+    },
+    [browser.directoryCache, browser.currentPath, browser.currentFileContent, browser.currentFileEtag, browser.isAdjusting, fileBrowser, cacheDirectory, setFileContent, setFileError]
+  );
+  vaultChangeRef.current = handleVaultChange;
+
   // Handle directory load request from FileTree (REST API)
   const handleLoadDirectory = useCallback(
     async (path: string) => {
@@ -411,7 +469,7 @@ export function BrowseMode(): React.ReactNode {
       setFileLoading(true);
       try {
         const result = await fileBrowser.readFile(path);
-        setFileContent(result.content, result.truncated);
+        setFileContent(result.content, result.truncated, result.etag);
         setIsMobileTreeOpen(false);
       } catch (err) {
         setFileError(err instanceof Error ? err.message : "Failed to load file");
@@ -430,7 +488,7 @@ export function BrowseMode(): React.ReactNode {
       setFileLoading(true);
       try {
         const result = await fileBrowser.readFile(path);
-        setFileContent(result.content, result.truncated);
+        setFileContent(result.content, result.truncated, result.etag);
       } catch (err) {
         setFileError(err instanceof Error ? err.message : "Failed to load file");
       } finally {
@@ -440,25 +498,40 @@ export function BrowseMode(): React.ReactNode {
     [fileBrowser, setCurrentPath, setFileLoading, setFileContent, setFileError]
   );
 
-  // Handle save from MarkdownViewer adjust mode (REST API)
+  // Handle save from MarkdownViewer adjust mode (REST API).
+  // Saves are conditional on the version last read; when resolving a
+  // conflict, on the disk version the user has now seen.
   const handleSave = useCallback(
     async (content: string) => {
       if (!browser.currentPath) return;
 
+      const conflict = browser.saveConflict;
+      const ifMatch = conflict?.serverEtag ?? browser.currentFileEtag ?? undefined;
+      const baseContent = conflict?.serverContent ?? browser.currentFileContent ?? "";
+
       // Start save operation (sets isSaving state)
       startSave();
 
       try {
-        await fileBrowser.writeFile(browser.currentPath, content);
+        await fileBrowser.writeFile(browser.currentPath, content, { ifMatch });
         saveSuccess();
         // Re-request file content to refresh the view with saved content
         const result = await fileBrowser.readFile(browser.currentPath);
-        setFileContent(result.content, result.truncated);
+        setFileContent(result.content, result.truncated, result.etag);
       } catch (err) {
+        if (err instanceof FileConflictError) {
+          saveConflict({
+            localContent: content,
+            baseContent,
+            serverContent: err.serverContent,
+            serverEtag: err.serverEtag,
+          });
+          return;
+        }
         saveError(err instanceof Error ? err.message : "Failed to save file");
       }
     },
-    [browser.currentPath, fileBrowser, startSave, saveSuccess, saveError, setFileContent]
+    [browser.currentPath, browser.currentFileEtag, browser.currentFileContent, browser.saveConflict, fileBrowser, startSave, saveSuccess, saveError, saveConflict, setFileContent]
   );
 
   // Handle pinned assets change from FileTree - sync to server (REST API)
@@ -504,6 +577,20 @@ export function BrowseMode(): React.ReactNode {
       setTasksLoading(false);
     }
   }, [clearDirectoryCache, setFileLoading, setTasksLoading, fileBrowser, homeApi, cacheDirectory, setFileError, setTasks, setTasksError]);
+  vaultResyncRef.current = () => void handleReload();
+
+  // Refetch tasks in the background when notes change (no loading state,
+  // so the list doesn't flash on every external edit)
+  const handleRefreshTasks = useCallback(() => {
+    if (pendingTaskTogglesRef.current.size > 0) return;
+    getTasks().then((result) => {
+      if (result) {
+        setTasks(result.tasks);
+      }
+    }).catch((err) => {
+      log.warn("Failed to refresh tasks after change", err);
+    });
+  }, [getTasks, setTasks]);
 
   // Toggle mobile tree overlay
   const toggleMobileTree = useCallback(() => {
@@ -536,8 +623,12 @@ export function BrowseMode(): React.ReactNode {
       const taskKey = `${filePath}:${lineNumber}`;
       pendingTaskTogglesRef.current.set(taskKey, originalState);
 
-      // Fire-and-forget async operation
-      homeApi.toggleTask(filePath, lineNumber, newState)
+      // Fire-and-forget async operation. The task's text lets the daemon
+      // refuse a queued toggle if the note changed before it was replayed.
+      const taskText = browser.tasks.find(
+        (task) => task.filePath === filePath && task.lineNumber === lineNumber
+      )?.text;
+      homeApi.toggleTask(filePath, lineNumber, newState, taskText)
         .then((result) => {
           // Clear from pending toggles
           pendingTaskTogglesRef.current.delete(taskKey);
@@ -545,6 +636,11 @@ export function BrowseMode(): React.ReactNode {
           if (result) {
             updateTask(result.filePath, result.lineNumber, result.newState);
           }
+          // A recurring task's next occurrence was inserted (shifting line
+          // numbers), or parents were completed along with the task
+          if (result?.nextTask || result?.completedParents) {
+            handleRefreshTasks();
+          }
         })
         .catch((err) => {
           // Rollback on error
@@ -555,63 +651,104 @@ export function BrowseMode(): React.ReactNode {
 
       return true;
     },
-    [vault, homeApi, updateTask, setTasksError]
+    [vault, browser.tasks, homeApi, updateTask, setTasksError, handleRefreshTasks]
   );
 
-  // Handle search query change - use REST API
-  const handleSearchQueryChange = useCallback(
-    async (query: string) => {
-      setSearchQuery(query);
-      if (query.trim()) {
-        setSearchLoading(true);
-        try {
-          if (search.mode === "files") {
-            const result = await searchApi.searchFiles(query);
-            if (result) {
-              setSearchResults("files", result.results);
-            }
-          } else {
-            const result = await searchApi.searchContent(query);
-            if (result) {
-              setSearchResults("content", undefined, result.results);
-            }
+  // Run a search and store its results (REST API)
+  const runSearch = useCallback(
+    async (query: string, mode: SearchMode, scope: SearchScope) => {
+      if (!query.trim()) return;
+      setSearchLoading(true);
+      try {
+        if (mode === "files") {
+          const result = await searchApi.searchFiles(query, undefined, scope);
+          if (result) {
+            setSearchResults("files", result.results);
+            setSkippedVaultIds(result.vaultsSkipped ?? []);
+          }
+        } else {
+          const result = await searchApi.searchContent(query, undefined, scope);
+          if (result) {
+            setSearchResults("content", undefined, result.results);
+            setSkippedVaultIds(result.vaultsSkipped ?? []);
           }
-        } catch (err) {
-          log.warn("Search failed", err);
-        } finally {
-          setSearchLoading(false);
         }
+      } catch (err) {
+        log.warn("Search failed", err);
+      } finally {
+        setSearchLoading(false);
       }
     },
-    [search.mode, setSearchQuery, setSearchLoading, searchApi, setSearchResults]
+    [setSearchLoading, searchApi, setSearchResults]
   );
 
-  // Handle search mode change - re-search if query exists (REST API)
+  // Index the vaults an all-vaults search skipped, then search again so
+  // they show up in the results
+  const handleIndexSkippedVaults = useCallback(async () => {
+    setIsIndexingVaults(true);
+    try {
+      const result = await searchApi.indexVaults();
+      if (result) {
+        await runSearch(search.query, search.mode, search.scope);
+      }
+    } finally {
+      setIsIndexingVaults(false);
+    }
+  }, [searchApi, runSearch, search.query, search.mode, search.scope]);
+
+  // Handle search query change
+  const handleSearchQueryChange = useCallback(
+    async (query: string) => {
+      setSearchQuery(query);
+      await runSearch(query, search.mode, search.scope);
+    },
+    [search.mode, search.scope, setSearchQuery, runSearch]
+  );
+
+  // Handle search mode change - re-search if query exists
   const handleSearchModeChange = useCallback(
     async (mode: SearchMode) => {
       setSearchMode(mode);
-      if (search.query.trim()) {
-        setSearchLoading(true);
-        try {
-          if (mode === "files") {
-            const result = await searchApi.searchFiles(search.query);
-            if (result) {
-              setSearchResults("files", result.results);
-            }
-          } else {
-            const result = await searchApi.searchContent(search.query);
-            if (result) {
-              setSearchResults("content", undefined, result.results);
-            }
-          }
-        } catch (err) {
-          log.warn("Search failed", err);
-        } finally {
-          setSearchLoading(false);
+      await runSearch(search.query, mode, search.scope);
+    },
+    [search.query, search.scope, setSearchMode, runSearch]
+  );
+
+  // Handle search scope change - re-search if query exists
+  const handleSearchScopeChange = useCallback(
+    async (scope: SearchScope) => {
+      setSearchScope(scope);
+      await runSearch(search.query, search.mode, scope);
+    },
+    [search.query, search.mode, setSearchScope, runSearch]
+  );
+
+  // Open a search result. Results from another vault (all-vaults scope)
+  // switch to that vault first; the auto-load effect then loads the file.
+  const handleSearchResultSelect = useCallback(
+    async (path: string, resultVaultId?: string) => {
+      if (!resultVaultId || resultVaultId === vault?.id) {
+        await handleFileSelect(path);
+        return;
+      }
+      try {
+        const response = await fetch("/api/vaults");
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const data = (await response.json()) as { vaults: VaultInfo[] };
+        const target = data.vaults.find((v) => v.id === resultVaultId);
+        if (!target) {
+          throw new Error(`Vault not found: ${resultVaultId}`);
         }
+        selectVault(target);
+        setCurrentPath(path);
+      } catch (err) {
+        log.warn("Failed to open result from another vault", err);
+        setFileError(err instanceof Error ? err.message : "Failed to open file");
       }
     },
-    [search.query, setSearchMode, setSearchLoading, searchApi, setSearchResults]
+    [vault?.id, handleFileSelect, selectVault, setCurrentPath, setFileError]
   );
 
   // Handle clear search
@@ -629,11 +766,11 @@ export function BrowseMode(): React.ReactNode {
 
   // Handle request for snippets (lazy load on expand) (REST API)
   const handleRequestSnippets = useCallback(
-    async (path: string) => {
+    async (path: string, resultVaultId?: string) => {
       try {
-        const snippets = await searchApi.getSnippets(path, search.query);
+        const snippets = await searchApi.getSnippets(path, search.query, resultVaultId);
         if (snippets) {
-          setSnippets(path, snippets);
+          setSnippets(getSearchResultKey(path, resultVaultId), snippets);
         }
       } catch (err) {
         log.warn("Failed to get snippets", err);
@@ -672,6 +809,32 @@ export function BrowseMode(): React.ReactNode {
     setPendingViewerDeletePath(null);
   }, []);
 
+  // Open version history for the current file
+  const handleShowHistory = useCallback(() => {
+    if (browser.currentPath) {
+      setHistoryPath(browser.currentPath);
+    }
+  }, [browser.currentPath]);
+
+  const handleCloseHistory = useCallback(() => {
+    setHistoryPath(null);
+  }, []);
+
+  // Reload the file after a version is restored (REST API)
+  const handleVersionRestored = useCallback(
+    async (etag: string) => {
+      if (!historyPath) return;
+      setHistoryPath(null);
+      try {
+        const result = await fileBrowser.readFile(historyPath);
+        setFileContent(result.content, result.truncated, result.etag ?? etag);
+      } catch (err) {
+        setFileError(err instanceof Error ? err.message : "Failed to reload file");
+      }
+    },
+    [historyPath, fileBrowser, setFileContent, setFileError]
+  );
+
   // Get the view mode title text
   const viewModeTitle = viewMode === "files" ? "Files" : "Tasks";
 
@@ -689,7 +852,10 @@ export function BrowseMode(): React.ReactNode {
             isLoading={search.isLoading}
             onQueryChange={handleSearchQueryChange}
             onModeChange={handleSearchModeChange}
+            scope={search.scope}
+            onScopeChange={handleSearchScopeChange}
             onClear={handleClearSearch}
+            error={search.mode === "content" ? searchApi.error : null}
           />
         ) : (
           <div className="browse-mode__tree-header">
@@ -745,14 +911,17 @@ export function BrowseMode(): React.ReactNode {
                 query={search.query}
                 expandedPaths={search.expandedPaths}
                 snippetsCache={search.snippetsCache}
-                onFileSelect={handleFileSelect}
+                onFileSelect={handleSearchResultSelect}
                 onToggleExpand={handleToggleExpand}
                 onRequestSnippets={handleRequestSnippets}
+                skippedVaultCount={search.scope === "all" ? skippedVaultIds.length : 0}
+                isIndexing={isIndexingVaults}
+                onIndexSkipped={() => void handleIndexSkippedVaults()}
               />
             ) : viewMode === "files" ? (
               <FileTree onFileSelect={handleFileSelect} onLoadDirectory={handleLoadDirectory} onDeleteFile={handleDeleteFile} onDeleteDirectory={handleDeleteDirectory} onGetDirectoryContents={handleGetDirectoryContents} pendingDirectoryContents={pendingDirectoryContents} onThinkAbout={handleThinkAbout} onPinnedAssetsChange={handlePinnedAssetsChange} onCreateDirectory={handleCreateDirectory} onCreateFile={handleCreateFile} onRenameFile={handleRenameFile} onMoveFile={handleMoveFile} />
             ) : (
-              <TaskList onToggleTask={handleToggleTask} onFileSelect={handleFileSelect} />
+              <TaskList onToggleTask={handleToggleTask} onFileSelect={handleFileSelect} onRefresh={handleRefreshTasks} />
             )}
           </div>
         )}
@@ -786,6 +955,7 @@ export function BrowseMode(): React.ReactNode {
               onExit={handleExitPairWriting}
               onSave={handleSave}
               onQuickActionComplete={handleNavigate}
+              onShowHistory={handleShowHistory}
             />
           ) : isImageFile(browser.currentPath) ? (
             <ImageViewer path={browser.currentPath} assetBaseUrl={assetBaseUrl} onMobileMenuClick={toggleMobileTree} onDelete={handleViewerDelete} />
@@ -807,6 +977,8 @@ export function BrowseMode(): React.ReactNode {
               onMobileMenuClick={toggleMobileTree}
               onEnterPairWriting={handleEnterPairWriting}
               onDelete={handleViewerDelete}
+              onShowHistory={browser.currentPath ? handleShowHistory : undefined}
+              showLinks
             />
           ) : (
             <DownloadViewer path={browser.currentPath} assetBaseUrl={assetBaseUrl} onMobileMenuClick={toggleMobileTree} onDelete={handleViewerDelete} />
@@ -830,7 +1002,10 @@ export function BrowseMode(): React.ReactNode {
                 isLoading={search.isLoading}
                 onQueryChange={handleSearchQueryChange}
                 onModeChange={handleSearchModeChange}
+                scope={search.scope}
+                onScopeChange={handleSearchScopeChange}
                 onClear={handleClearSearch}
+                error={search.mode === "content" ? searchApi.error : null}
               />
             ) : (
               <div className="browse-mode__mobile-tree-header">
@@ -880,14 +1055,17 @@ export function BrowseMode(): React.ReactNode {
                   query={search.query}
                   expandedPaths={search.expandedPaths}
                   snippetsCache={search.snippetsCache}
-                  onFileSelect={handleFileSelect}
+                  onFileSelect={handleSearchResultSelect}
                   onToggleExpand={handleToggleExpand}
                   onRequestSnippets={handleRequestSnippets}
+                  skippedVaultCount={search.scope === "all" ? skippedVaultIds.length : 0}
+                  isIndexing={isIndexingVaults}
+                  onIndexSkipped={() => void handleIndexSkippedVaults()}
                 />
               ) : viewMode === "files" ? (
                 <FileTree onFileSelect={handleFileSelect} onLoadDirectory={handleLoadDirectory} onDeleteFile={handleDeleteFile} onDeleteDirectory={handleDeleteDirectory} onGetDirectoryContents={handleGetDirectoryContents} pendingDirectoryContents={pendingDirectoryContents} onThinkAbout={handleThinkAbout} onPinnedAssetsChange={handlePinnedAssetsChange} onCreateDirectory={handleCreateDirectory} onCreateFile={handleCreateFile} onRenameFile={handleRenameFile} onMoveFile={handleMoveFile} />
               ) : (
-                <TaskList onToggleTask={handleToggleTask} onFileSelect={handleFileSelect} />
+                <TaskList onToggleTask={handleToggleTask} onFileSelect={handleFileSelect} onRefresh={handleRefreshTasks} />
               )}
             </div>
           </aside>
@@ -898,11 +1076,20 @@ export function BrowseMode(): React.ReactNode {
       <ConfirmDialog
         isOpen={pendingViewerDeletePath !== null}
         title="Delete File?"
-        message={`This cannot be undone! The file "${pendingViewerDeletePath?.split("/").pop() ?? ""}" will be permanently deleted.`}
+        message={`The file "${pendingViewerDeletePath?.split("/").pop() ?? ""}" will be moved to the Trash. You can restore it from there.`}
         confirmLabel="Delete"
         onConfirm={handleConfirmViewerDelete}
         onCancel={handleCancelViewerDelete}
       />
+
+      {historyPath && vault && (
+        <FileHistoryDialog
+          vaultId={vault.id}
+          path={historyPath}
+          onRestored={(etag) => void handleVersionRestored(etag)}
+          onClose={handleCloseHistory}
+        />
+      )}
     </div>
   );
 }
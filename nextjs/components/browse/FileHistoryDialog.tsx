@@ -0,0 +1,197 @@
+/**
+ * FileHistoryDialog Component
+ *
+ * Lists a file's saved versions (recorded before each edit, capture, rename
+ * rewrite, or AI change) and shows what changed between the selected version
+ * and the file as it is now. Restoring replaces the file; the replaced
+ * content is saved as a version too, so a restore can be undone.
+ */
+
+import React, { useEffect, useId, useState } from "react";
+import { createPortal } from "react-dom";
+import type { DiffLine, FileVersion, FileVersionSource } from "@memory-loop/shared";
+import { useFileHistory } from "../../hooks/useFileHistory";
+import type { FetchFn } from "@/lib/api/types";
+import "./FileHistoryDialog.css";
+
+export interface FileHistoryDialogProps {
+  /** Vault containing the file */
+  vaultId: string;
+  /** Path of the file, relative to the content root */
+  path: string;
+  /** Called after a restore with the file's new etag */
+  onRestored: (etag: string) => void;
+  /** Close the dialog */
+  onClose: () => void;
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+const SOURCE_LABELS: Record<FileVersionSource, string> = {
+  edit: "Before edit",
+  capture: "Before capture",
+  rename: "Before link update",
+  ai: "Before AI edit",
+  restore: "Before restore",
+  rollover: "Before task rollover",
+};
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function FileHistoryDialog({
+  vaultId,
+  path,
+  onRestored,
+  onClose,
+  fetch,
+}: FileHistoryDialogProps): React.ReactNode {
+  const titleId = useId();
+  const { listVersions, getDiff, restoreVersion, isLoading, error } = useFileHistory(vaultId, {
+    fetch,
+  });
+  const [versions, setVersions] = useState<FileVersion[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<DiffLine[] | null>(null);
+
+  // Load versions and select the newest
+  useEffect(() => {
+    let cancelled = false;
+    void listVersions(path).then((result) => {
+      if (cancelled) return;
+      setVersions(result);
+      setSelectedId(result[0]?.id ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path, listVersions]);
+
+  // Diff the selected version against the current file
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    setDiff(null);
+    void getDiff(path, selectedId).then((lines) => {
+      if (!cancelled) setDiff(lines);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path, selectedId, getDiff]);
+
+  async function handleRestore() {
+    if (!selectedId) return;
+    const etag = await restoreVersion(path, selectedId);
+    if (etag) {
+      onRestored(etag);
+    }
+  }
+
+  function handleBackdropClick(e: React.MouseEvent) {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "Escape") {
+      onClose();
+    }
+  }
+
+  const fileName = path.split("/").pop() ?? path;
+  const isUnchanged = diff !== null && diff.every((line) => line.type === "same");
+
+  return createPortal(
+    <div className="file-history-dialog__backdrop" onClick={handleBackdropClick} onKeyDown={handleKeyDown}>
+      <div className="file-history-dialog" role="dialog" aria-modal="true" aria-labelledby={titleId}>
+        <h2 id={titleId} className="file-history-dialog__title">
+          History: {fileName}
+        </h2>
+
+        {versions !== null && versions.length === 0 ? (
+          <p className="file-history-dialog__empty">
+            No earlier versions yet. A version is saved each time this file is changed.
+          </p>
+        ) : (
+          <div className="file-history-dialog__body">
+            <ul className="file-history-dialog__versions" aria-label="Versions">
+              {versions?.map((version) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    className={`file-history-dialog__version${
+                      version.id === selectedId ? " file-history-dialog__version--selected" : ""
+                    }`}
+                    aria-pressed={version.id === selectedId}
+                    onClick={() => setSelectedId(version.id)}
+                  >
+                    <span className="file-history-dialog__version-time">
+                      {formatTimestamp(version.timestamp)}
+                    </span>
+                    <span className="file-history-dialog__version-source">
+                      {SOURCE_LABELS[version.source]}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <pre className="file-history-dialog__diff" data-testid="history-diff">
+              {isUnchanged && (
+                <div className="file-history-dialog__diff-note">Same as the current file.</div>
+              )}
+              {diff?.map((line, index) => (
+                <div
+                  key={index}
+                  className={`file-history-dialog__line file-history-dialog__line--${line.type}`}
+                >
+                  {line.type === "added" ? "+ " : line.type === "removed" ? "− " : "  "}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          </div>
+        )}
+
+        {versions !== null && versions.length > 0 && (
+          <p className="file-history-dialog__hint">
+            Lines marked − are in this version only; lines marked + are in the current file only.
+          </p>
+        )}
+
+        {error && (
+          <p className="file-history-dialog__error" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="file-history-dialog__actions">
+          <button
+            type="button"
+            className="file-history-dialog__btn file-history-dialog__btn--cancel"
+            onClick={onClose}
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            className="file-history-dialog__btn file-history-dialog__btn--confirm"
+            onClick={() => void handleRestore()}
+            disabled={!selectedId || isLoading || isUnchanged}
+          >
+            Restore This Version
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
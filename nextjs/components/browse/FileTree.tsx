@@ -3,6 +3,7 @@
  *
  * Collapsible file tree for navigating vault directories.
  * Supports lazy-loading, expand/collapse, file selection, and pinned folders.
+ * Deleted items go to the vault's trash, shown in a Trash section below the tree.
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
@@ -11,6 +12,7 @@ import { useSession } from "../../contexts/SessionContext";
 import { ConfirmDialog } from "../shared/ConfirmDialog";
 import { InputDialog } from "../shared/InputDialog";
 import { MoveDialog } from "../shared/MoveDialog";
+import { TrashView } from "./TrashView";
 import "./FileTree.css";
 
 /**
@@ -450,7 +452,7 @@ interface ContextMenuState {
  * - Pinned folders for quick access
  */
 export function FileTree({ onFileSelect, onLoadDirectory, onDeleteFile, onDeleteDirectory, onGetDirectoryContents, pendingDirectoryContents, onThinkAbout, onPinnedAssetsChange, onCreateDirectory, onCreateFile, onRenameFile, onMoveFile }: FileTreeProps): React.ReactNode {
-  const { browser, toggleDirectory, setCurrentPath, pinFolder, unpinFolder } = useSession();
+  const { vault, browser, toggleDirectory, setCurrentPath, pinFolder, unpinFolder } = useSession();
   const { currentPath, expandedDirs, directoryCache, isLoading, pinnedFolders } = browser;
   const [contextMenu, setContextMenu] = useState<ContextMenuState>({
     isOpen: false,
@@ -753,6 +755,22 @@ export function FileTree({ onFileSelect, onLoadDirectory, onDeleteFile, onDelete
 
   const isPinned = pinnedFolders.includes(contextMenu.path);
 
+  /**
+   * Reloads the cached directories a restored item reappears in, from the
+   * root down to its parent (missing parents are recreated by the restore).
+   */
+  function handleTrashRestored(path: string) {
+    const segments = path.split("/").slice(0, -1);
+    for (let i = 0; i <= segments.length; i++) {
+      const dirPath = segments.slice(0, i).join("/");
+      if (directoryCache.has(dirPath)) {
+        onLoadDirectory?.(dirPath);
+      }
+    }
+  }
+
+  const trashView = vault && <TrashView vaultId={vault.id} onRestored={handleTrashRestored} />;
+
   // Show loading state for root
   if (isLoading && rootEntries.length === 0) {
     return (
@@ -770,6 +788,7 @@ export function FileTree({ onFileSelect, onLoadDirectory, onDeleteFile, onDelete
     return (
       <div className="file-tree file-tree--empty">
         <p className="file-tree__empty-message">No files in vault</p>
+        {trashView}
       </div>
     );
   }
@@ -832,6 +851,9 @@ export function FileTree({ onFileSelect, onLoadDirectory, onDeleteFile, onDelete
         ))}
       </ul>
 
+      {/* Trash */}
+      {trashView}
+
       {/* Context menu */}
       {contextMenu.isOpen && (
         <div
@@ -936,7 +958,7 @@ export function FileTree({ onFileSelect, onLoadDirectory, onDeleteFile, onDelete
       <ConfirmDialog
         isOpen={pendingDeletePath !== null}
         title="Delete File?"
-        message={`This cannot be undone! The file "${pendingDeletePath?.split("/").pop() ?? ""}" will be permanently deleted from your vault.`}
+        message={`The file "${pendingDeletePath?.split("/").pop() ?? ""}" will be moved to the Trash. You can restore it from there.`}
         confirmLabel="Delete"
         onConfirm={handleConfirmDelete}
         onCancel={handleCancelDelete}
@@ -949,12 +971,12 @@ export function FileTree({ onFileSelect, onLoadDirectory, onDeleteFile, onDelete
         message={
           <div className="file-tree__delete-dir-message">
             <p className="file-tree__delete-dir-warning">
-              This cannot be undone! The folder "{pendingDeleteDirPath?.split("/").pop() ?? ""}" and all its contents will be permanently deleted.
+              The folder "{pendingDeleteDirPath?.split("/").pop() ?? ""}" and all its contents will be moved to the Trash. You can restore them from there.
             </p>
             {pendingDirectoryContents && (pendingDirectoryContents.totalFiles > 0 || pendingDirectoryContents.totalDirectories > 0) && (
               <div className="file-tree__delete-dir-contents">
                 <p className="file-tree__delete-dir-summary">
-                  This will delete{" "}
+                  This will move{" "}
                   <strong>{pendingDirectoryContents.totalFiles} file{pendingDirectoryContents.totalFiles !== 1 ? "s" : ""}</strong>
                   {pendingDirectoryContents.totalDirectories > 0 && (
                     <>
@@ -0,0 +1,224 @@
+/**
+ * LinkedMentions Component
+ *
+ * Panel under a rendered note listing the notes that link to it
+ * (backlinks) and, on demand, plain-text mentions of its title that
+ * aren't links yet (unlinked mentions). Each entry shows the line the
+ * reference appears on; clicking the note name opens it.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { NoteLink } from "@memory-loop/shared";
+import { useLinks } from "../../hooks/useLinks";
+import type { FetchFn } from "@/lib/api/types";
+import "./LinkedMentions.css";
+
+export interface LinkedMentionsProps {
+  /** Vault containing the note */
+  vaultId: string;
+  /** Path of the note being viewed */
+  path: string;
+  /** Callback to open a linking note */
+  onNavigate: (path: string) => void;
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+/**
+ * Groups references by the note they appear in, keeping order.
+ */
+function groupBySource(links: NoteLink[]): Array<[string, NoteLink[]]> {
+  const groups = new Map<string, NoteLink[]>();
+  for (const link of links) {
+    const group = groups.get(link.sourcePath) ?? [];
+    group.push(link);
+    groups.set(link.sourcePath, group);
+  }
+  return [...groups.entries()];
+}
+
+export function LinkedMentions({
+  vaultId,
+  path,
+  onNavigate,
+  fetch,
+}: LinkedMentionsProps): React.ReactNode {
+  const { getBacklinks, getUnlinkedMentions, error } = useLinks(vaultId, { fetch });
+  const [backlinks, setBacklinks] = useState<NoteLink[] | null>(null);
+  const [unlinked, setUnlinked] = useState<NoteLink[] | null>(null);
+  const [isLinkedOpen, setIsLinkedOpen] = useState(true);
+  const [isUnlinkedOpen, setIsUnlinkedOpen] = useState(false);
+
+  // Load backlinks whenever the note changes
+  useEffect(() => {
+    let cancelled = false;
+    setBacklinks(null);
+    setUnlinked(null);
+    void getBacklinks(path).then((links) => {
+      if (!cancelled) setBacklinks(links);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path, getBacklinks]);
+
+  // Unlinked mentions read file contents, so only load them when expanded
+  useEffect(() => {
+    if (!isUnlinkedOpen || unlinked !== null) return;
+    let cancelled = false;
+    void getUnlinkedMentions(path).then((links) => {
+      if (!cancelled) setUnlinked(links);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isUnlinkedOpen, unlinked, path, getUnlinkedMentions]);
+
+  const toggleLinked = useCallback(() => setIsLinkedOpen((prev) => !prev), []);
+  const toggleUnlinked = useCallback(() => setIsUnlinkedOpen((prev) => !prev), []);
+
+  return (
+    <section className="linked-mentions" aria-label="Mentions" data-testid="linked-mentions">
+      <MentionSection
+        title="Linked mentions"
+        links={backlinks}
+        isOpen={isLinkedOpen}
+        onToggle={toggleLinked}
+        emptyText="No notes link here yet."
+        error={error}
+        onNavigate={onNavigate}
+      />
+      <MentionSection
+        title="Unlinked mentions"
+        links={unlinked}
+        isOpen={isUnlinkedOpen}
+        onToggle={toggleUnlinked}
+        emptyText="No unlinked mentions of this note's title."
+        error={error}
+        onNavigate={onNavigate}
+      />
+    </section>
+  );
+}
+
+/**
+ * Collapsible list of references grouped by source note.
+ */
+function MentionSection({
+  title,
+  links,
+  isOpen,
+  onToggle,
+  emptyText,
+  error,
+  onNavigate,
+}: {
+  title: string;
+  links: NoteLink[] | null;
+  isOpen: boolean;
+  onToggle: () => void;
+  emptyText: string;
+  error: string | null;
+  onNavigate: (path: string) => void;
+}): React.ReactNode {
+  const groups = links ? groupBySource(links) : [];
+
+  return (
+    <div className="linked-mentions__section">
+      <button
+        type="button"
+        className="linked-mentions__header"
+        onClick={onToggle}
+        aria-expanded={isOpen}
+      >
+        <ChevronIcon expanded={isOpen} />
+        <span>{title}</span>
+        {links && (
+          <span className="linked-mentions__count" data-testid="mention-count">
+            {groups.length}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="linked-mentions__body">
+          {links === null && !error && (
+            <p className="linked-mentions__status">Loading...</p>
+          )}
+          {links === null && error && (
+            <p className="linked-mentions__status linked-mentions__status--error">{error}</p>
+          )}
+          {links !== null && groups.length === 0 && (
+            <p className="linked-mentions__status">{emptyText}</p>
+          )}
+          {groups.map(([sourcePath, refs]) => (
+            <MentionGroup
+              key={sourcePath}
+              sourcePath={sourcePath}
+              refs={refs}
+              onNavigate={onNavigate}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One source note and the lines that reference the viewed note.
+ */
+function MentionGroup({
+  sourcePath,
+  refs,
+  onNavigate,
+}: {
+  sourcePath: string;
+  refs: NoteLink[];
+  onNavigate: (path: string) => void;
+}): React.ReactNode {
+  const handleClick = useCallback(() => {
+    onNavigate(sourcePath);
+  }, [sourcePath, onNavigate]);
+
+  const name = sourcePath.split("/").pop()?.replace(/\.md$/, "") ?? sourcePath;
+  const dirPath = sourcePath.includes("/")
+    ? sourcePath.substring(0, sourcePath.lastIndexOf("/"))
+    : "";
+
+  return (
+    <div className="linked-mentions__group" data-testid="mention-group">
+      <button type="button" className="linked-mentions__source" onClick={handleClick}>
+        <span className="linked-mentions__name">{name}</span>
+        {dirPath && <span className="linked-mentions__path">{dirPath}</span>}
+      </button>
+      <ul className="linked-mentions__refs">
+        {refs.map((ref) => (
+          <li key={`${ref.line}-${ref.target}`} className="linked-mentions__ref">
+            <span className="linked-mentions__line">{ref.line}</span>
+            <span className="linked-mentions__context">{ref.context}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Chevron icon for expand/collapse.
+ */
+function ChevronIcon({ expanded }: { expanded: boolean }): React.ReactNode {
+  return (
+    <svg
+      className={`linked-mentions__chevron ${expanded ? "linked-mentions__chevron--expanded" : ""}`}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <polyline points="9 18 15 12 9 6" />
+    </svg>
+  );
+}
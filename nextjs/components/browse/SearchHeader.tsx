@@ -7,18 +7,32 @@
  * Features:
  * - Debounced input (250ms) per TD-4
  * - Files/Content mode toggle via dropdown menu
+ * - This vault/All vaults scope toggle via dropdown menu
+ * - Query syntax reference for content search (tag:, path:, after:, ...)
+ * - Inline error for rejected queries (e.g. malformed dates)
  * - Clear button to dismiss search via dropdown menu
  * - Touch-friendly (44px min height per REQ-NF-6)
  * - Keyboard accessible (Escape to clear)
  */
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { SearchMode } from "../../contexts/SessionContext";
+import type { SearchMode, SearchScope } from "../../contexts/SessionContext";
 import "./SearchHeader.css";
 
 /** Debounce delay for search input in milliseconds */
 const DEBOUNCE_DELAY = 250;
 
+/** Content search operators shown in the syntax reference */
+const SYNTAX_EXAMPLES: Array<{ example: string; description: string }> = [
+  { example: '"exact phrase"', description: "Match the phrase literally" },
+  { example: "-word", description: "Exclude notes containing a word" },
+  { example: "tag:#project", description: "Frontmatter or inline tag" },
+  { example: "path:01_Projects/", description: "Notes under a folder" },
+  { example: "after:2026-01-01", description: "Modified on or after a date" },
+  { example: "before:2026-02-01", description: "Modified before a date" },
+  { example: "has:task", description: "Notes with tasks (task:open, task:done)" },
+];
+
 export interface SearchHeaderProps {
   /** Current search mode */
   mode: SearchMode;
@@ -30,8 +44,14 @@ export interface SearchHeaderProps {
   onQueryChange: (query: string) => void | Promise<void>;
   /** Callback when mode changes */
   onModeChange: (mode: SearchMode) => void | Promise<void>;
+  /** Current search scope (defaults to "vault") */
+  scope?: SearchScope;
+  /** Callback when scope changes; the scope toggle is hidden without it */
+  onScopeChange?: (scope: SearchScope) => void | Promise<void>;
   /** Callback to clear/close search */
   onClear: () => void;
+  /** Error from the last search (e.g. invalid query syntax) */
+  error?: string | null;
 }
 
 /**
@@ -47,11 +67,15 @@ export function SearchHeader({
   isLoading,
   onQueryChange,
   onModeChange,
+  scope = "vault",
+  onScopeChange,
   onClear,
+  error,
 }: SearchHeaderProps): React.ReactNode {
   // Local state for immediate input feedback
   const [localQuery, setLocalQuery] = useState(query);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSyntaxOpen, setIsSyntaxOpen] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -123,6 +147,18 @@ export function SearchHeader({
     setIsMenuOpen(false);
   }, [mode, onModeChange]);
 
+  // Toggle scope
+  const handleScopeToggle = useCallback(() => {
+    void onScopeChange?.(scope === "vault" ? "all" : "vault");
+    setIsMenuOpen(false);
+  }, [scope, onScopeChange]);
+
+  // Toggle query syntax reference
+  const handleSyntaxToggle = useCallback(() => {
+    setIsSyntaxOpen((prev) => !prev);
+    setIsMenuOpen(false);
+  }, []);
+
   // Close search
   const handleClose = useCallback(() => {
     setIsMenuOpen(false);
@@ -130,62 +166,106 @@ export function SearchHeader({
   }, [onClear]);
 
   return (
-    <div className="search-header">
-      <div className="search-header__menu-container" ref={menuRef}>
-        <button
-          type="button"
-          className="search-header__menu-trigger"
-          onClick={handleMenuToggle}
-          aria-label="Search options"
-          aria-expanded={isMenuOpen}
-          aria-haspopup="true"
-        >
-          <SearchIcon />
-          <ChevronIcon isOpen={isMenuOpen} />
-        </button>
-        {isMenuOpen && (
-          <div className="search-header__menu" role="menu">
-            <button
-              type="button"
-              className="search-header__menu-item"
-              onClick={handleModeToggle}
-              role="menuitem"
-            >
-              <ModeIcon />
-              <span>
-                Switch to {mode === "files" ? "Content" : "File Name"} Search
-              </span>
-            </button>
-            <button
-              type="button"
-              className="search-header__menu-item search-header__menu-item--close"
-              onClick={handleClose}
-              role="menuitem"
-            >
-              <CloseIcon />
-              <span>Close Search</span>
-            </button>
-          </div>
-        )}
+    <>
+      <div className="search-header">
+        <div className="search-header__menu-container" ref={menuRef}>
+          <button
+            type="button"
+            className="search-header__menu-trigger"
+            onClick={handleMenuToggle}
+            aria-label="Search options"
+            aria-expanded={isMenuOpen}
+            aria-haspopup="true"
+          >
+            <SearchIcon />
+            <ChevronIcon isOpen={isMenuOpen} />
+          </button>
+          {isMenuOpen && (
+            <div className="search-header__menu" role="menu">
+              <button
+                type="button"
+                className="search-header__menu-item"
+                onClick={handleModeToggle}
+                role="menuitem"
+              >
+                <ModeIcon />
+                <span>
+                  Switch to {mode === "files" ? "Content" : "File Name"} Search
+                </span>
+              </button>
+              {onScopeChange && (
+                <button
+                  type="button"
+                  className="search-header__menu-item"
+                  onClick={handleScopeToggle}
+                  role="menuitem"
+                >
+                  <ScopeIcon />
+                  <span>
+                    Search {scope === "vault" ? "All Vaults" : "This Vault"}
+                  </span>
+                </button>
+              )}
+              {mode === "content" && (
+                <button
+                  type="button"
+                  className="search-header__menu-item"
+                  onClick={handleSyntaxToggle}
+                  role="menuitem"
+                >
+                  <HelpIcon />
+                  <span>{isSyntaxOpen ? "Hide" : "Show"} Search Syntax</span>
+                </button>
+              )}
+              <button
+                type="button"
+                className="search-header__menu-item search-header__menu-item--close"
+                onClick={handleClose}
+                role="menuitem"
+              >
+                <CloseIcon />
+                <span>Close Search</span>
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="search-header__input-wrapper">
+          <input
+            ref={inputRef}
+            type="text"
+            className="search-header__input"
+            placeholder={
+              (mode === "files" ? "Search file names" : "Search content") +
+              (scope === "all" ? " in all vaults..." : "...")
+            }
+            value={localQuery}
+            onChange={handleInputChange}
+            onKeyDown={handleKeyDown}
+            aria-label="Search query"
+          />
+          {isLoading && (
+            <span className="search-header__spinner" aria-label="Searching" />
+          )}
+        </div>
       </div>
-      <div className="search-header__input-wrapper">
-        <input
-          ref={inputRef}
-          type="text"
-          className="search-header__input"
-          placeholder={
-            mode === "files" ? "Search file names..." : "Search content..."
-          }
-          value={localQuery}
-          onChange={handleInputChange}
-          onKeyDown={handleKeyDown}
-          aria-label="Search query"
-        />
-        {isLoading && (
-          <span className="search-header__spinner" aria-label="Searching" />
-        )}
-      </div>
-    </div>
+      {error && (
+        <div className="search-header__error" role="alert">
+          {error}
+        </div>
+      )}
+      {mode === "content" && isSyntaxOpen && (
+        <dl className="search-header__syntax" aria-label="Search syntax">
+          {SYNTAX_EXAMPLES.map(({ example, description }) => (
+            <div key={example} className="search-header__syntax-row">
+              <dt>
+                <code>{example}</code>
+              </dt>
+              <dd>{description}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </>
   );
 }
 
@@ -251,6 +331,50 @@ function ModeIcon(): React.ReactNode {
   );
 }
 
+/**
+ * Scope icon (stacked layers) for the vault scope toggle.
+ */
+function ScopeIcon(): React.ReactNode {
+  return (
+    <svg
+      className="search-header__menu-icon"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <polygon points="12 2 2 7 12 12 22 7 12 2" />
+      <polyline points="2 17 12 22 22 17" />
+      <polyline points="2 12 12 17 22 12" />
+    </svg>
+  );
+}
+
+/**
+ * Help icon for the syntax reference option.
+ */
+function HelpIcon(): React.ReactNode {
+  return (
+    <svg
+      className="search-header__menu-icon"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <circle cx="12" cy="12" r="10" />
+      <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3" />
+      <line x1="12" y1="17" x2="12.01" y2="17" />
+    </svg>
+  );
+}
+
 /**
  * Close icon for the close option.
  */
@@ -3,6 +3,11 @@
  *
  * Displays search results for the browse tab.
  * Replaces FileTree when search is active.
+ *
+ * Results from an all-vaults search carry a vaultId and show a vault label;
+ * they are keyed by vault and path since the same path can exist in
+ * several vaults. Vaults the search skipped (index not built yet) are
+ * counted in a notice that offers to index them.
  */
 
 import { useCallback, useRef, useState, useEffect } from "react";
@@ -11,6 +16,7 @@ import type {
   ContentSearchResult,
   ContextSnippet,
 } from "@memory-loop/shared";
+import { getSearchHighlightTerms } from "@memory-loop/shared";
 import type { SearchMode } from "../../contexts/SessionContext";
 import "./SearchResults.css";
 
@@ -25,16 +31,30 @@ export interface SearchResultsProps {
   isLoading: boolean;
   /** Current search query (for empty state message) */
   query: string;
-  /** Expanded content result paths */
+  /** Expanded content result keys (see getSearchResultKey) */
   expandedPaths: Set<string>;
-  /** Snippets cache for expanded results */
+  /** Snippets cache for expanded results, keyed by result key */
   snippetsCache: Map<string, ContextSnippet[]>;
-  /** Callback when file is selected */
-  onFileSelect: (path: string) => void;
-  /** Callback to toggle result expansion */
-  onToggleExpand: (path: string) => void;
-  /** Callback to request snippets for a path */
-  onRequestSnippets: (path: string) => void;
+  /** Callback when file is selected (vaultId set for all-vaults results) */
+  onFileSelect: (path: string, vaultId?: string) => void;
+  /** Callback to toggle result expansion, called with the result key */
+  onToggleExpand: (key: string) => void;
+  /** Callback to request snippets for a path (vaultId set for all-vaults results) */
+  onRequestSnippets: (path: string, vaultId?: string) => void;
+  /** Number of vaults an all-vaults search skipped because their index isn't built */
+  skippedVaultCount?: number;
+  /** Whether the skipped vaults are being indexed */
+  isIndexing?: boolean;
+  /** Callback to index the skipped vaults */
+  onIndexSkipped?: () => void;
+}
+
+/**
+ * Key identifying a search result in expandedPaths and snippetsCache.
+ * Plain path for single-vault results, vault-qualified otherwise.
+ */
+export function getSearchResultKey(path: string, vaultId?: string): string {
+  return vaultId ? `${vaultId}:${path}` : path;
 }
 
 export function SearchResults({
@@ -48,6 +68,9 @@ export function SearchResults({
   onFileSelect,
   onToggleExpand,
   onRequestSnippets,
+  skippedVaultCount = 0,
+  isIndexing = false,
+  onIndexSkipped,
 }: SearchResultsProps): React.ReactNode {
   const listRef = useRef<HTMLDivElement>(null);
   const [selectedIndex, setSelectedIndex] = useState(-1);
@@ -62,16 +85,33 @@ export function SearchResults({
 
   // Handle content result expansion
   const handleToggleExpand = useCallback(
-    (path: string) => {
-      onToggleExpand(path);
+    (result: ContentSearchResult) => {
+      const key = getSearchResultKey(result.path, result.vaultId);
+      onToggleExpand(key);
       // Request snippets if not cached
-      if (!snippetsCache.has(path)) {
-        onRequestSnippets(path);
+      if (!snippetsCache.has(key)) {
+        if (result.vaultId) {
+          onRequestSnippets(result.path, result.vaultId);
+        } else {
+          onRequestSnippets(result.path);
+        }
       }
     },
     [onToggleExpand, snippetsCache, onRequestSnippets]
   );
 
+  // Select a result, passing its vault when it has one
+  const handleSelect = useCallback(
+    (result: FileSearchResult | ContentSearchResult) => {
+      if (result.vaultId) {
+        onFileSelect(result.path, result.vaultId);
+      } else {
+        onFileSelect(result.path);
+      }
+    },
+    [onFileSelect]
+  );
+
   // Handle keyboard navigation
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -85,10 +125,10 @@ export function SearchResults({
         setSelectedIndex((prev) => Math.max(prev - 1, 0));
       } else if (e.key === "Enter" && selectedIndex >= 0) {
         e.preventDefault();
-        onFileSelect(results[selectedIndex].path);
+        handleSelect(results[selectedIndex]);
       }
     },
-    [results, selectedIndex, onFileSelect]
+    [results, selectedIndex, handleSelect]
   );
 
   // Scroll selected item into view
@@ -104,6 +144,11 @@ export function SearchResults({
     }
   }, [selectedIndex]);
 
+  const skippedNotice =
+    skippedVaultCount > 0 ? (
+      <SkippedVaultsNotice count={skippedVaultCount} isIndexing={isIndexing} onIndex={onIndexSkipped} />
+    ) : null;
+
   // Loading state
   if (isLoading && results.length === 0) {
     return (
@@ -124,6 +169,7 @@ export function SearchResults({
         className="search-results search-results--empty"
         data-testid="search-empty"
       >
+        {skippedNotice}
         No results for "{query}"
       </div>
     );
@@ -150,27 +196,63 @@ export function SearchResults({
       onKeyDown={handleKeyDown}
       data-testid="search-results"
     >
+      {skippedNotice}
       {mode === "files"
         ? fileResults.map((result, index) => (
             <FileResultItem
-              key={result.path}
+              key={getSearchResultKey(result.path, result.vaultId)}
               result={result}
               isSelected={selectedIndex === index}
-              onSelect={onFileSelect}
+              onSelect={handleSelect}
             />
           ))
-        : contentResults.map((result, index) => (
-            <ContentResultItem
-              key={result.path}
-              result={result}
-              isSelected={selectedIndex === index}
-              isExpanded={expandedPaths.has(result.path)}
-              snippets={snippetsCache.get(result.path)}
-              onSelect={onFileSelect}
-              onToggleExpand={handleToggleExpand}
-              query={query}
-            />
-          ))}
+        : contentResults.map((result, index) => {
+            const key = getSearchResultKey(result.path, result.vaultId);
+            return (
+              <ContentResultItem
+                key={key}
+                result={result}
+                isSelected={selectedIndex === index}
+                isExpanded={expandedPaths.has(key)}
+                snippets={snippetsCache.get(key)}
+                onSelect={handleSelect}
+                onToggleExpand={handleToggleExpand}
+                query={query}
+              />
+            );
+          })}
+    </div>
+  );
+}
+
+/**
+ * Notice for vaults an all-vaults search left out, with a button to index
+ * them.
+ */
+function SkippedVaultsNotice({
+  count,
+  isIndexing,
+  onIndex,
+}: {
+  count: number;
+  isIndexing: boolean;
+  onIndex?: () => void;
+}): React.ReactNode {
+  return (
+    <div className="search-results__skipped" role="status" data-testid="search-skipped">
+      <span>
+        {count} {count === 1 ? "vault" : "vaults"} not indexed yet
+      </span>
+      {onIndex && (
+        <button
+          type="button"
+          className="search-results__index-btn"
+          onClick={onIndex}
+          disabled={isIndexing}
+        >
+          {isIndexing ? "Indexing..." : "Index now"}
+        </button>
+      )}
     </div>
   );
 }
@@ -185,11 +267,11 @@ function FileResultItem({
 }: {
   result: FileSearchResult;
   isSelected: boolean;
-  onSelect: (path: string) => void;
+  onSelect: (result: FileSearchResult) => void;
 }): React.ReactNode {
   const handleClick = useCallback(() => {
-    onSelect(result.path);
-  }, [result.path, onSelect]);
+    onSelect(result);
+  }, [result, onSelect]);
 
   // Extract directory path from full path
   const dirPath = result.path.includes("/")
@@ -212,6 +294,7 @@ function FileResultItem({
         <HighlightedText text={result.name} positions={result.matchPositions} />
       </span>
       {dirPath && <span className="search-results__path">{dirPath}</span>}
+      {result.vaultName && <VaultLabel name={result.vaultName} />}
     </button>
   );
 }
@@ -232,20 +315,20 @@ function ContentResultItem({
   isSelected: boolean;
   isExpanded: boolean;
   snippets?: ContextSnippet[];
-  onSelect: (path: string) => void;
-  onToggleExpand: (path: string) => void;
+  onSelect: (result: ContentSearchResult) => void;
+  onToggleExpand: (result: ContentSearchResult) => void;
   query: string;
 }): React.ReactNode {
   const handleClick = useCallback(() => {
-    onSelect(result.path);
-  }, [result.path, onSelect]);
+    onSelect(result);
+  }, [result, onSelect]);
 
   const handleExpand = useCallback(
     (e: React.MouseEvent) => {
       e.stopPropagation();
-      onToggleExpand(result.path);
+      onToggleExpand(result);
     },
-    [result.path, onToggleExpand]
+    [result, onToggleExpand]
   );
 
   const handleKeyDown = useCallback(
@@ -253,10 +336,10 @@ function ContentResultItem({
       if (e.key === "Enter" || e.key === " ") {
         e.preventDefault();
         e.stopPropagation();
-        onToggleExpand(result.path);
+        onToggleExpand(result);
       }
     },
-    [result.path, onToggleExpand]
+    [result, onToggleExpand]
   );
 
   // Extract directory path from full path
@@ -292,6 +375,7 @@ function ContentResultItem({
           </span>
           <span className="search-results__name">{result.name}</span>
           {dirPath && <span className="search-results__path">{dirPath}</span>}
+          {result.vaultName && <VaultLabel name={result.vaultName} />}
           <span className="search-results__count" data-testid="match-count">
             {result.matchCount} {result.matchCount === 1 ? "match" : "matches"}
           </span>
@@ -317,6 +401,17 @@ function ContentResultItem({
   );
 }
 
+/**
+ * Label naming the vault a result came from (all-vaults search).
+ */
+function VaultLabel({ name }: { name: string }): React.ReactNode {
+  return (
+    <span className="search-results__vault" data-testid="result-vault">
+      {name}
+    </span>
+  );
+}
+
 /**
  * Snippet display with context.
  */
@@ -404,6 +499,9 @@ function HighlightedText({
 
 /**
  * Highlight query matches in a line.
+ *
+ * Highlights each positive text term of a structured query; filter
+ * operators (tag:, path:, ...) and exclusions are not highlighted.
  */
 function HighlightedLine({
   text,
@@ -412,17 +510,19 @@ function HighlightedLine({
   text: string;
   query: string;
 }): React.ReactNode {
-  if (!query) {
+  const terms = getSearchHighlightTerms(query);
+  if (terms.length === 0) {
     return <>{text}</>;
   }
 
-  const regex = new RegExp(`(${escapeRegex(query)})`, "gi");
+  const regex = new RegExp(`(${terms.map(escapeRegex).join("|")})`, "gi");
+  const lowerTerms = new Set(terms.map((t) => t.toLowerCase()));
   const parts = text.split(regex);
 
   return (
     <>
       {parts.map((part, i) =>
-        part.toLowerCase() === query.toLowerCase() ? (
+        lowerTerms.has(part.toLowerCase()) ? (
           <mark key={i} className="search-results__highlight">
             {part}
           </mark>
@@ -0,0 +1,247 @@
+/**
+ * Task Forms
+ *
+ * Small forms used by TaskList: quick-add for new tasks, and edit and move
+ * forms for an existing task. The forms only collect input; TaskList sends
+ * the writes and refreshes the list.
+ */
+
+import React, { useState } from "react";
+import type { TaskEntry, TaskFields, TaskPriority } from "@memory-loop/shared";
+
+const PRIORITY_OPTIONS: { value: TaskPriority | ""; label: string }[] = [
+  { value: "", label: "No priority" },
+  { value: "highest", label: "Highest" },
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+  { value: "lowest", label: "Lowest" },
+];
+
+function PrioritySelect({
+  value,
+  onChange,
+}: {
+  value: TaskPriority | "";
+  onChange: (value: TaskPriority | "") => void;
+}): React.ReactNode {
+  return (
+    <select
+      className="task-form__input"
+      value={value}
+      onChange={(e) => onChange(e.target.value as TaskPriority | "")}
+      aria-label="Priority"
+    >
+      {PRIORITY_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// =============================================================================
+// Quick Add
+// =============================================================================
+
+export interface TaskQuickAddProps {
+  /** Adds the task; resolves to false if the write failed (input is kept) */
+  onAdd: (text: string, fields: TaskFields) => Promise<boolean>;
+  /** Disables the form while a write is in flight */
+  disabled?: boolean;
+}
+
+/**
+ * One-line form for adding a task to today's daily note, with an optional
+ * due date and priority.
+ */
+export function TaskQuickAdd({ onAdd, disabled }: TaskQuickAddProps): React.ReactNode {
+  const [text, setText] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [priority, setPriority] = useState<TaskPriority | "">("");
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!text.trim()) return;
+
+    const added = await onAdd(text.trim(), {
+      ...(dueDate ? { dueDate } : {}),
+      ...(priority ? { priority } : {}),
+    });
+    if (added) {
+      setText("");
+      setDueDate("");
+      setPriority("");
+    }
+  }
+
+  return (
+    <form className="task-form task-form--quick-add" onSubmit={(e) => void handleSubmit(e)}>
+      <input
+        type="text"
+        className="task-form__input task-form__text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Add a task to today's note"
+        aria-label="New task"
+      />
+      <div className="task-form__row">
+        <input
+          type="date"
+          className="task-form__input"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          aria-label="Due date"
+        />
+        <PrioritySelect value={priority} onChange={setPriority} />
+        <button type="submit" className="task-form__btn task-form__btn--primary" disabled={disabled || !text.trim()}>
+          Add
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// =============================================================================
+// Edit
+// =============================================================================
+
+export interface TaskEditFormProps {
+  task: TaskEntry;
+  /** Saves the changes; cleared fields are sent as null */
+  onSave: (text: string, fields: TaskFields) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Form for editing a task's text and Obsidian Tasks metadata.
+ */
+export function TaskEditForm({ task, onSave, onCancel, disabled }: TaskEditFormProps): React.ReactNode {
+  const [text, setText] = useState(task.description ?? task.text);
+  const [dueDate, setDueDate] = useState(task.dueDate ?? "");
+  const [scheduledDate, setScheduledDate] = useState(task.scheduledDate ?? "");
+  const [priority, setPriority] = useState<TaskPriority | "">(task.priority ?? "");
+  const [recurrence, setRecurrence] = useState(task.recurrence ?? "");
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onSave(text.trim(), {
+      dueDate: dueDate || null,
+      scheduledDate: scheduledDate || null,
+      priority: priority || null,
+      recurrence: recurrence.trim() || null,
+    });
+  }
+
+  return (
+    <form className="task-form" onSubmit={handleSubmit} aria-label="Edit task">
+      <input
+        type="text"
+        className="task-form__input task-form__text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        aria-label="Task text"
+        autoFocus
+      />
+      <div className="task-form__row">
+        <label className="task-form__field">
+          <span>Due</span>
+          <input
+            type="date"
+            className="task-form__input"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+        </label>
+        <label className="task-form__field">
+          <span>Scheduled</span>
+          <input
+            type="date"
+            className="task-form__input"
+            value={scheduledDate}
+            onChange={(e) => setScheduledDate(e.target.value)}
+          />
+        </label>
+      </div>
+      <div className="task-form__row">
+        <PrioritySelect value={priority} onChange={setPriority} />
+        <input
+          type="text"
+          className="task-form__input"
+          value={recurrence}
+          onChange={(e) => setRecurrence(e.target.value)}
+          placeholder="every week"
+          aria-label="Repeats"
+        />
+      </div>
+      <div className="task-form__actions">
+        <button type="button" className="task-form__btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="task-form__btn task-form__btn--primary" disabled={disabled || !text.trim()}>
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// =============================================================================
+// Move
+// =============================================================================
+
+export interface TaskMoveFormProps {
+  task: TaskEntry;
+  /** Moves the task to the file, under the heading if one was entered */
+  onMove: (toFilePath: string, heading?: string) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Form for moving a task to another file, optionally under a heading.
+ */
+export function TaskMoveForm({ task, onMove, onCancel, disabled }: TaskMoveFormProps): React.ReactNode {
+  const [toFilePath, setToFilePath] = useState(task.filePath);
+  const [heading, setHeading] = useState("");
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!toFilePath.trim()) return;
+    onMove(toFilePath.trim(), heading.trim() || undefined);
+  }
+
+  return (
+    <form className="task-form" onSubmit={handleSubmit} aria-label="Move task">
+      <p className="task-form__title">Move &ldquo;{task.description ?? task.text}&rdquo;</p>
+      <input
+        type="text"
+        className="task-form__input"
+        value={toFilePath}
+        onChange={(e) => setToFilePath(e.target.value)}
+        placeholder="Projects/plan.md"
+        aria-label="Destination file"
+        autoFocus
+      />
+      <input
+        type="text"
+        className="task-form__input"
+        value={heading}
+        onChange={(e) => setHeading(e.target.value)}
+        placeholder="Heading (optional)"
+        aria-label="Destination heading"
+      />
+      <div className="task-form__actions">
+        <button type="button" className="task-form__btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="task-form__btn task-form__btn--primary" disabled={disabled || !toFilePath.trim()}>
+          Move
+        </button>
+      </div>
+    </form>
+  );
+}
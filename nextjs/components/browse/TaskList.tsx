@@ -1,13 +1,29 @@
 /**
  * TaskList Component
  *
- * Displays tasks from vault directories grouped by file with toggle indicators.
- * Supports optimistic updates with rollback on error.
+ * Displays tasks from vault directories grouped by file with toggle indicators,
+ * or grouped by due date (Overdue / Today / Upcoming) using Obsidian Tasks
+ * metadata. Supports optimistic updates with rollback on error, quick-add to
+ * today's daily note, and editing, moving, or deleting a task from its
+ * context menu. Indented tasks are shown as collapsible subtasks of the task
+ * above them, with a done/total progress badge on the parent.
  */
 
 import { useMemo, useCallback, useRef, useState, useEffect } from "react";
-import type { TaskEntry, TaskCategory } from "@memory-loop/shared";
+import type { TaskEntry, TaskCategory, TaskPriority, TaskFields, TaskStateDefinition } from "@memory-loop/shared";
+import {
+  formatDateForFilename,
+  DEFAULT_TASK_STATES,
+  DEFAULT_TASK_STATE_CYCLE,
+  resolveTaskScopes,
+  isDoneTaskState,
+} from "@memory-loop/shared";
 import { useSession } from "../../contexts/SessionContext";
+import { useVaultEvents } from "../../hooks/useVaultEvents";
+import { useTaskEditor } from "../../hooks/useTaskEditor";
+import { ConfirmDialog } from "../shared/ConfirmDialog";
+import { TaskQuickAdd, TaskEditForm, TaskMoveForm } from "./TaskForms";
+import type { FetchFn } from "@/lib/api/types";
 import "./TaskList.css";
 
 /**
@@ -18,28 +34,30 @@ export interface TaskListProps {
   onToggleTask?: (filePath: string, lineNumber: number, newState: string, originalState: string) => boolean;
   /** Callback when a task's file is selected for viewing */
   onFileSelect?: (path: string) => void;
+  /** Callback to refetch tasks when markdown files change on disk. Enables live refresh. */
+  onRefresh?: () => void;
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
 }
 
 /**
- * Available task states for context menu selection.
- * These are the "special" states beyond basic incomplete/complete.
+ * States left-click toggles between; the context menu offers the others.
  */
-const CONTEXT_MENU_STATES: string[] = ["/", "?", "b", "f"];
+const TOGGLE_STATES = [" ", "x"];
 
 /**
- * Get the next state for left-click toggle.
- * Left-click toggles between ' ' (incomplete) and 'x' (complete).
- * Any other state goes to ' ' (incomplete).
+ * Get the next state for left-click toggle, following the vault's cycle.
+ * By default left-click toggles between ' ' (incomplete) and 'x' (complete).
+ * A state outside the cycle goes to the cycle's first state.
  */
-function getNextState(currentState: string): string {
-  if (currentState === " ") {
-    return "x";
-  }
-  return " ";
+function getNextState(currentState: string, cycle: string[]): string {
+  const index = cycle.indexOf(currentState);
+  return index === -1 ? cycle[0] : cycle[(index + 1) % cycle.length];
 }
 
 /**
  * Get the visual indicator for a task state.
+ * Custom states show their own symbol.
  */
 function getStateIndicator(state: string): string {
   switch (state) {
@@ -56,30 +74,108 @@ function getStateIndicator(state: string): string {
     case "f":
       return "\uD83D\uDD25"; // Fire emoji
     default:
-      return "\u2610"; // Default to empty checkbox
+      return state;
   }
 }
 
 /**
- * Get ARIA label for a task state.
+ * Get ARIA label for a task state from the vault's configured states.
  */
-function getStateLabel(state: string): string {
-  switch (state) {
-    case " ":
-      return "incomplete";
-    case "x":
-      return "complete";
-    case "/":
-      return "partial";
-    case "?":
-      return "needs info";
-    case "b":
-      return "bookmarked";
-    case "f":
-      return "urgent";
-    default:
-      return "unknown";
+function getStateLabel(state: string, states: TaskStateDefinition[]): string {
+  return states.find((s) => s.symbol === state)?.label ?? "unknown";
+}
+
+/**
+ * Get the configured color for a task state, if any.
+ */
+function getStateColor(state: string, states: TaskStateDefinition[]): string | undefined {
+  return states.find((s) => s.symbol === state)?.color;
+}
+
+/**
+ * The vault's configured task states, or the defaults.
+ */
+function useTaskStates(): TaskStateDefinition[] {
+  const { vault } = useSession();
+  return vault?.taskStates ?? DEFAULT_TASK_STATES;
+}
+
+/**
+ * How tasks are grouped: by source file, or by due date.
+ */
+type TaskView = "file" | "due";
+
+/**
+ * Minimum priority filter. "all" shows every task.
+ */
+type PriorityFilter = "all" | "highest" | "high" | "medium";
+
+/**
+ * Sort rank for each priority. Tasks without a priority sit between medium
+ * and low, matching the Obsidian Tasks plugin.
+ */
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  highest: 0,
+  high: 1,
+  medium: 2,
+  low: 4,
+  lowest: 5,
+};
+const NO_PRIORITY_RANK = 3;
+
+const PRIORITY_FILTER_LABELS: Record<PriorityFilter, string> = {
+  all: "Any priority",
+  highest: "Highest only",
+  high: "High and above",
+  medium: "Medium and above",
+};
+
+const PRIORITY_INDICATORS: Record<TaskPriority, string> = {
+  highest: "\uD83D\uDD3A", // Red triangle
+  high: "\u23EB", // Double up arrow
+  medium: "\uD83D\uDD3C", // Up arrow
+  low: "\uD83D\uDD3D", // Down arrow
+  lowest: "\u23EC", // Double down arrow
+};
+
+/**
+ * Due date groups, in display order.
+ */
+type DueGroupKey = "overdue" | "today" | "upcoming" | "none";
+
+const DUE_GROUP_ORDER: DueGroupKey[] = ["overdue", "today", "upcoming", "none"];
+
+const DUE_GROUP_LABELS: Record<DueGroupKey, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  upcoming: "Upcoming",
+  none: "No due date",
+};
+
+function getPriorityRank(task: TaskEntry): number {
+  return task.priority ? PRIORITY_RANK[task.priority] : NO_PRIORITY_RANK;
+}
+
+/**
+ * Get the due date group for a task, comparing YYYY-MM-DD strings.
+ */
+function getDueGroup(task: TaskEntry, today: string): DueGroupKey {
+  if (!task.dueDate) return "none";
+  if (task.dueDate < today) return "overdue";
+  if (task.dueDate === today) return "today";
+  return "upcoming";
+}
+
+/**
+ * Sort by due date (earliest first, undated last), then priority.
+ */
+function compareByDue(a: TaskEntry, b: TaskEntry): number {
+  if (a.dueDate !== b.dueDate) {
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return a.dueDate < b.dueDate ? -1 : 1;
   }
+  return getPriorityRank(a) - getPriorityRank(b);
 }
 
 /**
@@ -95,50 +191,304 @@ interface TaskContextMenuState {
 }
 
 /**
- * Props for TaskGroup component (internal).
+ * A task open in the edit or move form.
  */
-interface TaskGroupProps {
-  filePath: string;
-  tasks: TaskEntry[];
+interface TaskFormState {
+  mode: "edit" | "move";
+  task: TaskEntry;
+}
+
+type ContextMenuHandler = (
+  filePath: string,
+  lineNumber: number,
+  currentState: string,
+  event: React.MouseEvent | React.TouchEvent
+) => void;
+
+/**
+ * Done and total counts of a parent task's subtasks, at every depth.
+ */
+interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+function getTaskKey(filePath: string, lineNumber: number): string {
+  return `${filePath}:${lineNumber}`;
+}
+
+/**
+ * Counts each parent task's subtasks, keyed by "filePath:lineNumber".
+ * Every task counts toward all of its ancestors.
+ */
+function getSubtaskProgress(
+  tasks: TaskEntry[],
+  states: TaskStateDefinition[]
+): Map<string, SubtaskProgress> {
+  const byKey = new Map(tasks.map((t) => [getTaskKey(t.filePath, t.lineNumber), t]));
+  const progress = new Map<string, SubtaskProgress>();
+
+  for (const task of tasks) {
+    const isDone = isDoneTaskState(states, task.state);
+    let parentLine = task.parentLineNumber;
+    while (parentLine !== undefined) {
+      const key = getTaskKey(task.filePath, parentLine);
+      const counts = progress.get(key) ?? { done: 0, total: 0 };
+      counts.total++;
+      if (isDone) counts.done++;
+      progress.set(key, counts);
+      parentLine = byKey.get(key)?.parentLineNumber;
+    }
+  }
+
+  return progress;
+}
+
+/**
+ * Arranges one file's tasks into a tree. A task whose parent isn't in the
+ * list (e.g. hidden by a filter) is shown at the top level.
+ */
+function buildTaskTree(tasks: TaskEntry[]): { roots: TaskEntry[]; subtasks: Map<number, TaskEntry[]> } {
+  const lines = new Set(tasks.map((t) => t.lineNumber));
+  const roots: TaskEntry[] = [];
+  const subtasks = new Map<number, TaskEntry[]>();
+
+  for (const task of tasks) {
+    const parent = task.parentLineNumber;
+    if (parent === undefined || !lines.has(parent)) {
+      roots.push(task);
+      continue;
+    }
+    const siblings = subtasks.get(parent);
+    if (siblings) {
+      siblings.push(task);
+    } else {
+      subtasks.set(parent, [task]);
+    }
+  }
+
+  return { roots, subtasks };
+}
+
+/**
+ * Props for TaskItem component (internal).
+ */
+interface TaskItemProps {
+  task: TaskEntry;
+  /** Today's date as YYYY-MM-DD, for overdue styling */
+  today: string;
+  /** Show the source file name in the metadata row */
+  showFile?: boolean;
+  /** Subtask progress by task key, for the parent's progress badge */
+  progress?: Map<string, SubtaskProgress>;
+  /** Subtasks by parent line number; omit to show the task without its subtasks */
+  subtasks?: Map<number, TaskEntry[]>;
   onToggle: (filePath: string, lineNumber: number, currentState: string) => void;
   onFileSelect?: (path: string) => void;
-  onContextMenu: (filePath: string, lineNumber: number, currentState: string, event: React.MouseEvent | React.TouchEvent) => void;
+  onContextMenu: ContextMenuHandler;
 }
 
 /**
- * TaskGroup displays tasks from a single file.
+ * TaskItem displays one task with its toggle, text, and metadata badges,
+ * followed by its subtasks when it has any.
  */
-function TaskGroup({ filePath, tasks, onToggle, onFileSelect, onContextMenu }: TaskGroupProps): React.ReactNode {
-  const [isCollapsed, setIsCollapsed] = useState(false);
+function TaskItem({
+  task,
+  today,
+  showFile,
+  progress,
+  subtasks,
+  onToggle,
+  onFileSelect,
+  onContextMenu,
+}: TaskItemProps): React.ReactNode {
   const { setCurrentPath } = useSession();
-  const longPressTimerRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
-
-  // Cleanup long press timers on unmount
-  useEffect(() => {
-    return () => {
-      for (const timer of longPressTimerRef.current.values()) {
-        clearTimeout(timer);
-      }
-    };
+  const states = useTaskStates();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearLongPress = useCallback(() => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
   }, []);
 
-  // Calculate rollup count: completed (state = 'x') / total
-  const completedCount = tasks.filter((t) => t.state === "x").length;
-  const totalCount = tasks.length;
+  // Cleanup long press timer on unmount
+  useEffect(() => clearLongPress, [clearLongPress]);
+
+  // Handle task text click to view the file
+  const handleTextClick = useCallback(() => {
+    setCurrentPath(task.filePath);
+    onFileSelect?.(task.filePath);
+  }, [setCurrentPath, onFileSelect, task.filePath]);
+
+  const handleRightClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onContextMenu(task.filePath, task.lineNumber, task.state, e);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    longPressTimerRef.current = setTimeout(() => {
+      onContextMenu(task.filePath, task.lineNumber, task.state, e);
+    }, 500);
+  };
+
+  const text = task.description ?? task.text;
+  const isOverdue = !isDoneTaskState(states, task.state) && task.dueDate !== undefined && task.dueDate < today;
+  const subtaskProgress = progress?.get(getTaskKey(task.filePath, task.lineNumber));
+  const children = subtasks?.get(task.lineNumber);
+  const hasMeta =
+    showFile || task.dueDate || task.scheduledDate || task.priority || task.recurrence || subtaskProgress;
 
-  // Extract just the filename for display
-  const fileName = filePath.includes("/")
+  return (
+    <li className={`task-list__item${children ? " task-list__item--parent" : ""}`}>
+      <button
+        type="button"
+        className="task-list__toggle"
+        onClick={() => onToggle(task.filePath, task.lineNumber, task.state)}
+        onContextMenu={handleRightClick}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={clearLongPress}
+        onTouchMove={clearLongPress}
+        aria-label={`Toggle task: ${text} (currently ${getStateLabel(task.state, states)})`}
+      >
+        <span
+          className="task-list__indicator"
+          data-state={task.state}
+          data-color={getStateColor(task.state, states)}
+        >
+          {getStateIndicator(task.state)}
+        </span>
+      </button>
+      <button
+        type="button"
+        className="task-list__text-btn"
+        onClick={handleTextClick}
+        aria-label={`View file: ${task.filePath}`}
+      >
+        <span className="task-list__text-label">{text}</span>
+        {hasMeta && (
+          <span className="task-list__meta">
+            {subtaskProgress && (
+              <span
+                className="task-list__badge task-list__badge--progress"
+                data-complete={subtaskProgress.done === subtaskProgress.total}
+                title="Subtasks done"
+              >
+                {subtaskProgress.done}/{subtaskProgress.total}
+              </span>
+            )}
+            {task.priority && (
+              <span
+                className="task-list__badge task-list__badge--priority"
+                data-priority={task.priority}
+                title={`${task.priority} priority`}
+              >
+                {PRIORITY_INDICATORS[task.priority]} {task.priority}
+              </span>
+            )}
+            {task.dueDate && (
+              <span
+                className={`task-list__badge task-list__badge--due${isOverdue ? " task-list__badge--overdue" : ""}`}
+                title={isOverdue ? "Overdue" : "Due date"}
+              >
+                {"\uD83D\uDCC5"} {task.dueDate}
+              </span>
+            )}
+            {task.scheduledDate && (
+              <span className="task-list__badge" title="Scheduled date">
+                {"\u23F3"} {task.scheduledDate}
+              </span>
+            )}
+            {task.recurrence && (
+              <span className="task-list__badge" title="Recurrence">
+                {"\uD83D\uDD01"} {task.recurrence}
+              </span>
+            )}
+            {showFile && (
+              <span className="task-list__badge task-list__badge--file" title={task.filePath}>
+                {getFileName(task.filePath)}
+              </span>
+            )}
+          </span>
+        )}
+      </button>
+      {children && (
+        <button
+          type="button"
+          className="task-list__subtasks-toggle"
+          onClick={() => setIsExpanded(!isExpanded)}
+          aria-expanded={isExpanded}
+          aria-label={`${isExpanded ? "Hide" : "Show"} subtasks of ${text}`}
+        >
+          <span className="task-list__group-chevron" data-collapsed={!isExpanded}>
+            <ChevronIcon />
+          </span>
+        </button>
+      )}
+      {children && isExpanded && (
+        <ul className="task-list__subtasks">
+          {children.map((child) => (
+            <TaskItem
+              key={getTaskKey(child.filePath, child.lineNumber)}
+              task={child}
+              today={today}
+              progress={progress}
+              subtasks={subtasks}
+              onToggle={onToggle}
+              onFileSelect={onFileSelect}
+              onContextMenu={onContextMenu}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Extract just the filename from a vault path for display.
+ */
+function getFileName(filePath: string): string {
+  return filePath.includes("/")
     ? filePath.substring(filePath.lastIndexOf("/") + 1)
     : filePath;
+}
 
-  // Handle task text click to view the file
-  const handleTextClick = useCallback(
-    (taskFilePath: string) => {
-      setCurrentPath(taskFilePath);
-      onFileSelect?.(taskFilePath);
-    },
-    [setCurrentPath, onFileSelect]
-  );
+/**
+ * Props for TaskGroup component (internal).
+ */
+interface TaskGroupProps {
+  filePath: string;
+  tasks: TaskEntry[];
+  today: string;
+  progress: Map<string, SubtaskProgress>;
+  onToggle: (filePath: string, lineNumber: number, currentState: string) => void;
+  onFileSelect?: (path: string) => void;
+  onContextMenu: ContextMenuHandler;
+}
+
+/**
+ * TaskGroup displays tasks from a single file, nested by outline.
+ */
+function TaskGroup({
+  filePath,
+  tasks,
+  today,
+  progress,
+  onToggle,
+  onFileSelect,
+  onContextMenu,
+}: TaskGroupProps): React.ReactNode {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const states = useTaskStates();
+  const { roots, subtasks } = useMemo(() => buildTaskTree(tasks), [tasks]);
+
+  // Calculate rollup count: completed (done states) / total
+  const completedCount = tasks.filter((t) => isDoneTaskState(states, t.state)).length;
+  const totalCount = tasks.length;
 
   return (
     <div className="task-list__group">
@@ -158,7 +508,7 @@ function TaskGroup({ filePath, tasks, onToggle, onFileSelect, onContextMenu }: T
           <FileIcon />
         </span>
         <span className="task-list__group-name" title={filePath}>
-          {fileName}
+          {getFileName(filePath)}
         </span>
         <span className="task-list__group-count">
           {completedCount} / {totalCount}
@@ -166,65 +516,18 @@ function TaskGroup({ filePath, tasks, onToggle, onFileSelect, onContextMenu }: T
       </button>
       {!isCollapsed && (
         <ul className="task-list__items">
-          {tasks.map((task) => {
-            const taskKey = `${task.filePath}:${task.lineNumber}`;
-
-            const handleRightClick = (e: React.MouseEvent) => {
-              e.preventDefault();
-              e.stopPropagation();
-              onContextMenu(task.filePath, task.lineNumber, task.state, e);
-            };
-
-            const handleTouchStart = (e: React.TouchEvent) => {
-              const timer = setTimeout(() => {
-                onContextMenu(task.filePath, task.lineNumber, task.state, e);
-              }, 500);
-              longPressTimerRef.current.set(taskKey, timer);
-            };
-
-            const handleTouchEnd = () => {
-              const timer = longPressTimerRef.current.get(taskKey);
-              if (timer) {
-                clearTimeout(timer);
-                longPressTimerRef.current.delete(taskKey);
-              }
-            };
-
-            const handleTouchMove = () => {
-              const timer = longPressTimerRef.current.get(taskKey);
-              if (timer) {
-                clearTimeout(timer);
-                longPressTimerRef.current.delete(taskKey);
-              }
-            };
-
-            return (
-              <li key={taskKey} className="task-list__item">
-                <button
-                  type="button"
-                  className="task-list__toggle"
-                  onClick={() => onToggle(task.filePath, task.lineNumber, task.state)}
-                  onContextMenu={handleRightClick}
-                  onTouchStart={handleTouchStart}
-                  onTouchEnd={handleTouchEnd}
-                  onTouchMove={handleTouchMove}
-                  aria-label={`Toggle task: ${task.text} (currently ${getStateLabel(task.state)})`}
-                >
-                  <span className="task-list__indicator" data-state={task.state}>
-                    {getStateIndicator(task.state)}
-                  </span>
-                </button>
-                <button
-                  type="button"
-                  className="task-list__text-btn"
-                  onClick={() => handleTextClick(task.filePath)}
-                  aria-label={`View file: ${task.filePath}`}
-                >
-                  {task.text}
-                </button>
-              </li>
-            );
-          })}
+          {roots.map((task) => (
+            <TaskItem
+              key={getTaskKey(task.filePath, task.lineNumber)}
+              task={task}
+              today={today}
+              progress={progress}
+              subtasks={subtasks}
+              onToggle={onToggle}
+              onFileSelect={onFileSelect}
+              onContextMenu={onContextMenu}
+            />
+          ))}
         </ul>
       )}
     </div>
@@ -274,22 +577,49 @@ function ChevronIcon(): React.ReactNode {
  * TaskList displays tasks grouped by source file with toggle indicators.
  *
  * Features:
- * - Groups tasks by source file path
+ * - Groups tasks by source file path, or open tasks by due date
+ *   (Overdue / Today / Upcoming / No due date) sorted by due date then priority
+ * - Filters by minimum priority
+ * - Shows due date, priority, and recurrence badges from Obsidian Tasks metadata
  * - Displays rollup count (incomplete / total) per file
+ * - Nests subtasks under their parent with a collapse toggle and progress badge
  * - Visual indicators for each task state
  * - Click indicator to toggle task state
  * - Optimistic updates with rollback on error
+ * - Quick-add to today's daily note; edit, move, and delete from the context menu
  * - 44px minimum touch targets (REQ-NF-2)
  */
-export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.ReactNode {
-  const { browser, updateTask, setTasksError } = useSession();
+export function TaskList({ onToggleTask, onFileSelect, onRefresh, fetch }: TaskListProps): React.ReactNode {
+  const { vault, browser, updateTask, setTasksError } = useSession();
   const { tasks, isTasksLoading, tasksError } = browser;
+  const editor = useTaskEditor(vault?.id, { fetch });
+  const states = useTaskStates();
+  const cycle = vault?.taskStateCycle ?? DEFAULT_TASK_STATE_CYCLE;
+
+  // Task open in the edit/move form, and task awaiting delete confirmation
+  const [taskForm, setTaskForm] = useState<TaskFormState | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<TaskEntry | null>(null);
+
+  // Live refresh when notes are edited (here or in another app)
+  useVaultEvents(vault?.id, () => onRefresh?.(), {
+    enabled: onRefresh !== undefined,
+    filter: (event) => !event.isDirectory && event.path.toLowerCase().endsWith(".md"),
+    onResync: onRefresh,
+  });
 
   // State for hiding completed tasks
   const [hideCompleted, setHideCompleted] = useState(false);
 
-  // State for collapsed categories
+  // Grouping and priority filter
+  const [view, setView] = useState<TaskView>("file");
+  const [priorityFilter, setPriorityFilter] = useState<PriorityFilter>("all");
+
+  // State for collapsed categories and due date groups
   const [collapsedCategories, setCollapsedCategories] = useState<Set<TaskCategory>>(new Set());
+  const [collapsedDueGroups, setCollapsedDueGroups] = useState<Set<DueGroupKey>>(new Set());
+
+  // Today's date in local time, matching the YYYY-MM-DD dates in task metadata
+  const today = formatDateForFilename(new Date());
 
   // Context menu state for task state selection
   const [contextMenu, setContextMenu] = useState<TaskContextMenuState>({
@@ -305,23 +635,28 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
   // Track original states for rollback on error
   const pendingTogglesRef = useRef<Map<string, string>>(new Map());
 
-  // Category display order: Inbox first, then Projects, then Areas
-  const CATEGORY_ORDER: TaskCategory[] = ["inbox", "projects", "areas"];
+  // Category display order and header names come from the vault's task
+  // scopes (Inbox, Projects, Areas by default)
+  const categoryLabels = useMemo(() => {
+    const scopes = vault?.taskScopes ?? resolveTaskScopes({});
+    return new Map<TaskCategory, string>(
+      scopes.map((scope) => [scope.category ?? scope.label, scope.label])
+    );
+  }, [vault?.taskScopes]);
+
+  // Apply the hide-completed and minimum priority filters
+  const filteredTasks = useMemo(() => {
+    const maxRank = priorityFilter === "all" ? Infinity : PRIORITY_RANK[priorityFilter];
+    return tasks.filter(
+      (t) => !(hideCompleted && isDoneTaskState(states, t.state)) && getPriorityRank(t) <= maxRank
+    );
+  }, [tasks, hideCompleted, priorityFilter, states]);
 
-  // Category display names for headers
-  const CATEGORY_LABELS: Record<TaskCategory, string> = {
-    inbox: "Inbox",
-    projects: "Projects",
-    areas: "Areas",
-  };
+  // Subtask progress counts every subtask, including ones the filters hide
+  const subtaskProgress = useMemo(() => getSubtaskProgress(tasks, states), [tasks, states]);
 
   // Filter and group tasks by category, then by file path
   const groupedByCategory = useMemo(() => {
-    // Filter out completed tasks if hideCompleted is true
-    const filteredTasks = hideCompleted
-      ? tasks.filter((t) => t.state !== "x")
-      : tasks;
-
     // Group by category first, then by file path within each category
     const categoryGroups = new Map<TaskCategory, Map<string, TaskEntry[]>>();
 
@@ -348,12 +683,37 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
     }
 
     return categoryGroups;
-  }, [tasks, hideCompleted]);
+  }, [filteredTasks]);
+
+  // Group open tasks by due date, sorted by due date then priority.
+  // Completed tasks are left out: a done task is never overdue.
+  const dueGroups = useMemo(() => {
+    const groups = new Map<DueGroupKey, TaskEntry[]>();
+    for (const task of filteredTasks) {
+      if (isDoneTaskState(states, task.state)) continue;
+      const key = getDueGroup(task, today);
+      const existing = groups.get(key);
+      if (existing) {
+        existing.push(task);
+      } else {
+        groups.set(key, [task]);
+      }
+    }
+    for (const groupTasks of groups.values()) {
+      groupTasks.sort(compareByDue);
+    }
+    return DUE_GROUP_ORDER
+      .filter((key) => groups.has(key))
+      .map((key) => ({ key, tasks: groups.get(key)! }));
+  }, [filteredTasks, today, states]);
 
   // Get file paths sorted by mtime within each category
-  // Returns array of { category, filePaths } in category order
+  // Returns array of { category, filePaths } in scope order; categories
+  // without a configured scope come last
   const sortedCategories = useMemo(() => {
-    return CATEGORY_ORDER
+    const order = [...categoryLabels.keys()];
+    const unknown = [...groupedByCategory.keys()].filter((category) => !order.includes(category));
+    return [...order, ...unknown]
       .filter((category) => groupedByCategory.has(category))
       .map((category) => {
         const fileGroups = groupedByCategory.get(category)!;
@@ -370,10 +730,10 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
 
         return { category, filePaths: paths };
       });
-  }, [groupedByCategory]);
+  }, [groupedByCategory, categoryLabels]);
 
   // Calculate total counts for display (before early returns for consistent hook ordering)
-  const completedCount = tasks.filter((t) => t.state === "x").length;
+  const completedCount = tasks.filter((t) => isDoneTaskState(states, t.state)).length;
   const totalCount = tasks.length;
 
   // Toggle category collapse state
@@ -389,11 +749,24 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
     });
   }, []);
 
+  // Toggle due date group collapse state
+  const toggleDueGroup = useCallback((key: DueGroupKey) => {
+    setCollapsedDueGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
   // Handle task toggle with optimistic update
   const handleToggle = useCallback(
     (filePath: string, lineNumber: number, currentState: string) => {
       const taskKey = `${filePath}:${lineNumber}`;
-      const newState = getNextState(currentState);
+      const newState = getNextState(currentState, cycle);
 
       // Store original state for potential rollback
       if (!pendingTogglesRef.current.has(taskKey)) {
@@ -416,7 +789,7 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
         pendingTogglesRef.current.delete(taskKey);
       }
     },
-    [updateTask, setTasksError, onToggleTask]
+    [updateTask, setTasksError, onToggleTask, cycle]
   );
 
   // Handle opening context menu for state selection
@@ -438,7 +811,7 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
       const target = event.target as HTMLElement;
       const taskList = target.closest(".task-list");
       const menuWidth = 160;
-      const menuHeight = 200;
+      const menuHeight = 320;
 
       let x = clientX;
       let y = clientY;
@@ -500,6 +873,82 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
     [contextMenu, updateTask, setTasksError, onToggleTask, closeContextMenu]
   );
 
+  // Open the edit or move form for the task the context menu was opened on
+  const handleOpenTaskForm = useCallback(
+    (mode: TaskFormState["mode"]) => {
+      const task = tasks.find(
+        (t) => t.filePath === contextMenu.filePath && t.lineNumber === contextMenu.lineNumber
+      );
+      if (task) {
+        editor.clearError();
+        setTaskForm({ mode, task });
+      }
+      closeContextMenu();
+    },
+    [tasks, contextMenu, editor, closeContextMenu]
+  );
+
+  const handleRequestDelete = useCallback(() => {
+    const task = tasks.find(
+      (t) => t.filePath === contextMenu.filePath && t.lineNumber === contextMenu.lineNumber
+    );
+    setPendingDelete(task ?? null);
+    closeContextMenu();
+  }, [tasks, contextMenu, closeContextMenu]);
+
+  // Writes shift line numbers, so refetch the list after each one
+  const handleAdd = useCallback(
+    async (text: string, fields: TaskFields): Promise<boolean> => {
+      const result = await editor.createTask({ text, ...fields });
+      if (result) onRefresh?.();
+      return result !== null;
+    },
+    [editor, onRefresh]
+  );
+
+  const handleSave = useCallback(
+    async (text: string, fields: TaskFields) => {
+      if (!taskForm) return;
+      const { filePath, lineNumber } = taskForm.task;
+      if (await editor.editTask(filePath, lineNumber, { text, ...fields }, taskForm.task.text)) {
+        setTaskForm(null);
+        onRefresh?.();
+      }
+    },
+    [taskForm, editor, onRefresh]
+  );
+
+  const handleMove = useCallback(
+    async (toFilePath: string, heading?: string) => {
+      if (!taskForm) return;
+      const { filePath, lineNumber } = taskForm.task;
+      if (await editor.moveTask(filePath, lineNumber, toFilePath, heading, taskForm.task.text)) {
+        setTaskForm(null);
+        onRefresh?.();
+      }
+    },
+    [taskForm, editor, onRefresh]
+  );
+
+  const handleConfirmDelete = useCallback(async () => {
+    const task = pendingDelete;
+    setPendingDelete(null);
+    if (task && (await editor.deleteTask(task.filePath, task.lineNumber, task.text))) {
+      onRefresh?.();
+    }
+  }, [pendingDelete, editor, onRefresh]);
+
+  const quickAdd = (
+    <TaskQuickAdd onAdd={handleAdd} disabled={editor.isLoading || !vault} />
+  );
+
+  // Errors from a failed add or delete (edit and move errors show in their form)
+  const writeError = editor.error && !taskForm && (
+    <p className="task-list__write-error" role="alert">
+      {editor.error}
+    </p>
+  );
+
   // Close context menu when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -553,6 +1002,8 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
   if (tasks.length === 0) {
     return (
       <div className="task-list task-list--empty">
+        {quickAdd}
+        {writeError}
         <p className="task-list__empty-message">No tasks found</p>
       </div>
     );
@@ -573,7 +1024,110 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
           {completedCount} / {totalCount}
         </span>
       </div>
-      {sortedCategories.map(({ category, filePaths }) => {
+      <div className="task-list__controls">
+        <div className="task-list__view-toggle" role="group" aria-label="Group tasks">
+          <button
+            type="button"
+            className="task-list__view-btn"
+            aria-pressed={view === "file"}
+            onClick={() => setView("file")}
+          >
+            By file
+          </button>
+          <button
+            type="button"
+            className="task-list__view-btn"
+            aria-pressed={view === "due"}
+            onClick={() => setView("due")}
+          >
+            By due date
+          </button>
+        </div>
+        <select
+          className="task-list__priority-filter"
+          value={priorityFilter}
+          onChange={(e) => setPriorityFilter(e.target.value as PriorityFilter)}
+          aria-label="Filter by priority"
+        >
+          {(Object.keys(PRIORITY_FILTER_LABELS) as PriorityFilter[]).map((value) => (
+            <option key={value} value={value}>
+              {PRIORITY_FILTER_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+      {quickAdd}
+      {writeError}
+      {taskForm && (
+        <div className="task-list__editor">
+          {taskForm.mode === "edit" ? (
+            <TaskEditForm
+              key={`${taskForm.task.filePath}:${taskForm.task.lineNumber}`}
+              task={taskForm.task}
+              onSave={(text, fields) => void handleSave(text, fields)}
+              onCancel={() => setTaskForm(null)}
+              disabled={editor.isLoading}
+            />
+          ) : (
+            <TaskMoveForm
+              key={`${taskForm.task.filePath}:${taskForm.task.lineNumber}`}
+              task={taskForm.task}
+              onMove={(toFilePath, heading) => void handleMove(toFilePath, heading)}
+              onCancel={() => setTaskForm(null)}
+              disabled={editor.isLoading}
+            />
+          )}
+          {editor.error && (
+            <p className="task-list__write-error" role="alert">
+              {editor.error}
+            </p>
+          )}
+        </div>
+      )}
+      {(view === "due" ? dueGroups.length : sortedCategories.length) === 0 && (
+        <p className="task-list__empty-message task-list__filter-empty">
+          {view === "due" ? "No open tasks match" : "No tasks match"}
+        </p>
+      )}
+      {view === "due" && dueGroups.map(({ key, tasks: groupTasks }) => {
+        const isGroupCollapsed = collapsedDueGroups.has(key);
+        return (
+          <section key={key} className={`task-list__category task-list__due-group task-list__due-group--${key}`}>
+            <button
+              type="button"
+              className="task-list__category-header"
+              onClick={() => toggleDueGroup(key)}
+              aria-expanded={!isGroupCollapsed}
+            >
+              <span
+                className="task-list__group-chevron"
+                data-collapsed={isGroupCollapsed}
+              >
+                <ChevronIcon />
+              </span>
+              <span className="task-list__category-name">{DUE_GROUP_LABELS[key]}</span>
+              <span className="task-list__category-count">{groupTasks.length}</span>
+            </button>
+            {!isGroupCollapsed && (
+              <ul className="task-list__items">
+                {groupTasks.map((task) => (
+                  <TaskItem
+                    key={`${task.filePath}:${task.lineNumber}`}
+                    task={task}
+                    today={today}
+                    showFile
+                    progress={subtaskProgress}
+                    onToggle={handleToggle}
+                    onFileSelect={onFileSelect}
+                    onContextMenu={handleContextMenu}
+                  />
+                ))}
+              </ul>
+            )}
+          </section>
+        );
+      })}
+      {view === "file" && sortedCategories.map(({ category, filePaths }) => {
         const fileGroups = groupedByCategory.get(category);
         if (!fileGroups) return null;
         const isCategoryCollapsed = collapsedCategories.has(category);
@@ -584,7 +1138,7 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
         for (const taskList of fileGroups.values()) {
           for (const task of taskList) {
             categoryTotal++;
-            if (task.state === "x") categoryCompleted++;
+            if (isDoneTaskState(states, task.state)) categoryCompleted++;
           }
         }
 
@@ -602,7 +1156,7 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
               >
                 <ChevronIcon />
               </span>
-              <span className="task-list__category-name">{CATEGORY_LABELS[category]}</span>
+              <span className="task-list__category-name">{categoryLabels.get(category) ?? category}</span>
               <span className="task-list__category-count">
                 {categoryCompleted} / {categoryTotal}
               </span>
@@ -615,6 +1169,8 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
                   key={filePath}
                   filePath={filePath}
                   tasks={fileTasks}
+                  today={today}
+                  progress={subtaskProgress}
                   onToggle={handleToggle}
                   onFileSelect={onFileSelect}
                   onContextMenu={handleContextMenu}
@@ -637,22 +1193,56 @@ export function TaskList({ onToggleTask, onFileSelect }: TaskListProps): React.R
           role="menu"
         >
           <div className="task-list__context-menu-header">Set status</div>
-          {CONTEXT_MENU_STATES.map((state) => (
+          {states.filter(({ symbol }) => !TOGGLE_STATES.includes(symbol)).map(({ symbol, label, color }) => (
             <button
-              key={state}
+              key={symbol}
               type="button"
-              className={`task-list__context-menu-item ${contextMenu.currentState === state ? "task-list__context-menu-item--active" : ""}`}
-              onClick={() => handleStateSelect(state)}
+              className={`task-list__context-menu-item ${contextMenu.currentState === symbol ? "task-list__context-menu-item--active" : ""}`}
+              onClick={() => handleStateSelect(symbol)}
               role="menuitem"
             >
-              <span className="task-list__context-menu-indicator" data-state={state}>
-                {getStateIndicator(state)}
+              <span className="task-list__context-menu-indicator" data-state={symbol} data-color={color}>
+                {getStateIndicator(symbol)}
               </span>
-              <span>{getStateLabel(state)}</span>
+              <span>{label}</span>
             </button>
           ))}
+          <div className="task-list__context-menu-separator" role="separator" />
+          <button
+            type="button"
+            className="task-list__context-menu-item"
+            onClick={() => handleOpenTaskForm("edit")}
+            role="menuitem"
+          >
+            Edit
+          </button>
+          <button
+            type="button"
+            className="task-list__context-menu-item"
+            onClick={() => handleOpenTaskForm("move")}
+            role="menuitem"
+          >
+            Move to file
+          </button>
+          <button
+            type="button"
+            className="task-list__context-menu-item task-list__context-menu-item--danger"
+            onClick={handleRequestDelete}
+            role="menuitem"
+          >
+            Delete
+          </button>
         </div>
       )}
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title="Delete Task?"
+        message={`"${pendingDelete ? (pendingDelete.description ?? pendingDelete.text) : ""}" will be removed from ${pendingDelete?.filePath ?? ""}.`}
+        confirmLabel="Delete"
+        onConfirm={() => void handleConfirmDelete()}
+        onCancel={() => setPendingDelete(null)}
+      />
     </nav>
   );
 }
@@ -0,0 +1,179 @@
+/**
+ * TrashView Component
+ *
+ * Collapsible Trash section at the bottom of the file tree. Deleted files and
+ * folders can be restored to where they were, deleted forever one at a time,
+ * or all at once with Empty Trash. Items are purged automatically after the
+ * vault's retention period.
+ */
+
+import React, { useState } from "react";
+import type { TrashItem } from "@memory-loop/shared";
+import { useTrash } from "../../hooks/useTrash";
+import { ConfirmDialog } from "../shared/ConfirmDialog";
+import type { FetchFn } from "@/lib/api/types";
+import "./TrashView.css";
+
+export interface TrashViewProps {
+  /** Vault whose trash is shown */
+  vaultId: string;
+  /** Called after an item is restored with the path it was restored to */
+  onRestored?: (path: string) => void;
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+function itemName(item: TrashItem): string {
+  return item.originalPath.split("/").pop() ?? item.originalPath;
+}
+
+function itemFolder(item: TrashItem): string {
+  const index = item.originalPath.lastIndexOf("/");
+  return index === -1 ? "/" : item.originalPath.slice(0, index);
+}
+
+function formatDeletedAt(deletedAt: string): string {
+  return new Date(deletedAt).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function TrashView({ vaultId, onRestored, fetch }: TrashViewProps): React.ReactNode {
+  const { items, retentionDays, loadTrash, restoreItem, deleteItem, emptyTrash, isLoading, error } =
+    useTrash(vaultId, { fetch });
+  const [isOpen, setIsOpen] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<TrashItem | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  function handleToggle() {
+    if (!isOpen) {
+      void loadTrash();
+    }
+    setIsOpen(!isOpen);
+  }
+
+  async function handleRestore(item: TrashItem) {
+    const path = await restoreItem(item.id);
+    if (path) {
+      onRestored?.(path);
+    }
+  }
+
+  function handleConfirmDelete() {
+    if (pendingDelete) {
+      void deleteItem(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  }
+
+  function handleConfirmEmpty() {
+    void emptyTrash();
+    setConfirmEmpty(false);
+  }
+
+  return (
+    <div className="trash-view">
+      <button
+        type="button"
+        className="trash-view__toggle"
+        aria-expanded={isOpen}
+        onClick={handleToggle}
+      >
+        <span className="trash-view__chevron" aria-hidden="true">
+          {isOpen ? "▾" : "▸"}
+        </span>
+        <span>Trash</span>
+        {isOpen && items.length > 0 && <span className="trash-view__count">{items.length}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="trash-view__body">
+          {retentionDays !== null && (
+            <p className="trash-view__hint">
+              Deleted items are kept for {retentionDays} day{retentionDays !== 1 ? "s" : ""}.
+            </p>
+          )}
+
+          {error && (
+            <p className="trash-view__error" role="alert">
+              {error}
+            </p>
+          )}
+
+          {!isLoading && retentionDays !== null && items.length === 0 && (
+            <p className="trash-view__empty">Trash is empty</p>
+          )}
+
+          {items.length > 0 && (
+            <>
+              <ul className="trash-view__list" aria-label="Trashed items">
+                {items.map((item) => (
+                  <li key={item.id} className="trash-view__item">
+                    <div className="trash-view__item-info">
+                      <span className="trash-view__item-name">
+                        {itemName(item)}
+                        {item.isDirectory ? "/" : ""}
+                      </span>
+                      <span className="trash-view__item-meta">
+                        {itemFolder(item)} · {formatDeletedAt(item.deletedAt)}
+                      </span>
+                    </div>
+                    <div className="trash-view__item-actions">
+                      <button
+                        type="button"
+                        className="trash-view__btn"
+                        onClick={() => void handleRestore(item)}
+                        disabled={isLoading}
+                        aria-label={`Restore ${itemName(item)}`}
+                      >
+                        Restore
+                      </button>
+                      <button
+                        type="button"
+                        className="trash-view__btn trash-view__btn--danger"
+                        onClick={() => setPendingDelete(item)}
+                        disabled={isLoading}
+                        aria-label={`Delete ${itemName(item)} forever`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                className="trash-view__btn trash-view__btn--danger trash-view__empty-btn"
+                onClick={() => setConfirmEmpty(true)}
+                disabled={isLoading}
+              >
+                Empty Trash
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title="Delete Forever?"
+        message={`This cannot be undone! "${pendingDelete ? itemName(pendingDelete) : ""}" will be permanently deleted.`}
+        confirmLabel="Delete Forever"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmEmpty}
+        title="Empty Trash?"
+        message={`This cannot be undone! All ${items.length} item${items.length !== 1 ? "s" : ""} in the trash will be permanently deleted.`}
+        confirmLabel="Empty Trash"
+        onConfirm={handleConfirmEmpty}
+        onCancel={() => setConfirmEmpty(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for FileHistoryDialog component
+ *
+ * Tests the version list, diff view, and restore.
+ */
+
+import { describe, it, expect, afterEach, mock } from "bun:test";
+import { render, screen, fireEvent, cleanup, waitFor } from "@testing-library/react";
+import type { FileVersion } from "@memory-loop/shared";
+import { FileHistoryDialog } from "../FileHistoryDialog";
+import type { FetchFn } from "@/lib/api/types";
+
+afterEach(() => {
+  cleanup();
+});
+
+const versions: FileVersion[] = [
+  { id: "0mvf52sz0-aaaaaa", timestamp: "2026-01-05T10:30:00.000Z", size: 20, source: "ai" },
+  { id: "0mvf52sxz-bbbbbb", timestamp: "2026-01-05T09:00:00.000Z", size: 18, source: "edit" },
+];
+
+/**
+ * Creates a fetch that answers each history endpoint and records requests.
+ */
+function createHistoryFetch(
+  requests: string[],
+  historyVersions: FileVersion[] = versions
+): FetchFn {
+  return (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    requests.push(`${init?.method ?? "GET"} ${url}`);
+    let data: unknown;
+    if (url.endsWith("/restore")) {
+      data = { success: true, etag: '"restored"' };
+    } else if (url.includes("/history/diff")) {
+      data = url.includes(versions[0].id)
+        ? { lines: [{ type: "same", text: "# Note" }, { type: "removed", text: "before AI" }, { type: "added", text: "after AI" }] }
+        : { lines: [{ type: "removed", text: "older" }] };
+    } else {
+      data = { path: "notes/Note.md", versions: historyVersions };
+    }
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(data),
+    } as Response);
+  };
+}
+
+function renderDialog(fetch: FetchFn) {
+  const handlers = {
+    onRestored: mock(() => {}),
+    onClose: mock(() => {}),
+  };
+  render(<FileHistoryDialog vaultId="vault-1" path="notes/Note.md" fetch={fetch} {...handlers} />);
+  return handlers;
+}
+
+describe("FileHistoryDialog", () => {
+  it("lists versions and diffs the newest against the current file", async () => {
+    const requests: string[] = [];
+    renderDialog(createHistoryFetch(requests));
+
+    expect(await screen.findByText("Before AI edit")).toBeDefined();
+    expect(screen.getByText("Before edit")).toBeDefined();
+
+    await waitFor(() => {
+      const diff = screen.getByTestId("history-diff");
+      expect(diff.querySelector(".file-history-dialog__line--removed")?.textContent).toBe("− before AI");
+      expect(diff.querySelector(".file-history-dialog__line--added")?.textContent).toBe("+ after AI");
+    });
+    expect(requests).toContain(
+      `GET /api/vaults/vault-1/files/notes/Note.md/history/diff?from=${versions[0].id}&to=current`
+    );
+  });
+
+  it("diffs another version when it is selected", async () => {
+    const requests: string[] = [];
+    renderDialog(createHistoryFetch(requests));
+
+    fireEvent.click(await screen.findByText("Before edit"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("history-diff").textContent).toBe("− older");
+    });
+  });
+
+  it("restores the selected version and reports the new etag", async () => {
+    const requests: string[] = [];
+    const handlers = renderDialog(createHistoryFetch(requests));
+
+    await screen.findByText("Before AI edit");
+    await waitFor(() => {
+      expect((screen.getByText("Restore This Version") as HTMLButtonElement).disabled).toBe(false);
+    });
+    fireEvent.click(screen.getByText("Restore This Version"));
+
+    await waitFor(() => {
+      expect(handlers.onRestored).toHaveBeenCalledWith('"restored"');
+    });
+    expect(requests).toContain(
+      `POST /api/vaults/vault-1/files/notes/Note.md/history/${versions[0].id}/restore`
+    );
+  });
+
+  it("explains when there are no versions yet", async () => {
+    const handlers = renderDialog(createHistoryFetch([], []));
+
+    expect(await screen.findByText(/No earlier versions yet/)).toBeDefined();
+    fireEvent.click(screen.getByText("Close"));
+    expect(handlers.onClose).toHaveBeenCalledTimes(1);
+  });
+});
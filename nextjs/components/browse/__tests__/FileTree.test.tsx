@@ -555,7 +555,7 @@ describe("FileTree", () => {
 
       // Should show confirmation dialog
       expect(screen.getByText("Delete File?")).toBeDefined();
-      expect(screen.getByText('This cannot be undone! The file "README.md" will be permanently deleted from your vault.')).toBeDefined();
+      expect(screen.getByText('The file "README.md" will be moved to the Trash. You can restore it from there.')).toBeDefined();
     });
 
     it("calls onDeleteFile when deletion is confirmed", () => {
@@ -0,0 +1,141 @@
+/**
+ * Tests for LinkedMentions component
+ *
+ * Tests backlink grouping, navigation, and lazy unlinked mentions.
+ */
+
+import { describe, it, expect, afterEach, mock } from "bun:test";
+import { render, screen, fireEvent, cleanup, waitFor } from "@testing-library/react";
+import type { NoteLink } from "@memory-loop/shared";
+import { LinkedMentions } from "../LinkedMentions";
+import type { FetchFn } from "@/lib/api/types";
+
+const backlinks: NoteLink[] = [
+  {
+    sourcePath: "daily/2026-01-05.md",
+    target: "Roadmap",
+    resolvedPath: "projects/Roadmap.md",
+    kind: "wikilink",
+    line: 4,
+    context: "Walked through [[Roadmap]] with the team",
+  },
+  {
+    sourcePath: "daily/2026-01-05.md",
+    target: "Roadmap",
+    resolvedPath: "projects/Roadmap.md",
+    kind: "wikilink",
+    line: 9,
+    context: "Follow-up on [[Roadmap|the roadmap]]",
+  },
+  {
+    sourcePath: "Ideas.md",
+    target: "projects/Roadmap.md",
+    resolvedPath: "projects/Roadmap.md",
+    kind: "markdown",
+    line: 2,
+    context: "See [roadmap](projects/Roadmap.md)",
+  },
+];
+
+const mentions: NoteLink[] = [
+  {
+    sourcePath: "journal.md",
+    target: "Roadmap",
+    resolvedPath: "projects/Roadmap.md",
+    kind: "mention",
+    line: 1,
+    context: "The roadmap needs another pass",
+  },
+];
+
+/**
+ * Creates a fetch that answers each links endpoint and records URLs.
+ */
+function createLinksFetch(urls: string[]): FetchFn {
+  return (input) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    urls.push(url);
+    const links = url.includes("/links/unlinked") ? mentions : backlinks;
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ path: "projects/Roadmap.md", links }),
+    } as Response);
+  };
+}
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("LinkedMentions", () => {
+  it("groups backlinks by source note", async () => {
+    const urls: string[] = [];
+    render(
+      <LinkedMentions
+        vaultId="vault-1"
+        path="projects/Roadmap.md"
+        onNavigate={() => {}}
+        fetch={createLinksFetch(urls)}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getAllByTestId("mention-group")).toHaveLength(2);
+    });
+    expect(screen.getByTestId("mention-count").textContent).toBe("2");
+    expect(screen.getByText("2026-01-05")).toBeDefined();
+    expect(screen.getByText("daily")).toBeDefined();
+    expect(screen.getByText("Follow-up on [[Roadmap|the roadmap]]")).toBeDefined();
+    expect(urls).toEqual(["/api/vaults/vault-1/links/backlinks?path=projects%2FRoadmap.md"]);
+  });
+
+  it("navigates to the linking note", async () => {
+    const onNavigate = mock(() => {});
+    render(
+      <LinkedMentions
+        vaultId="vault-1"
+        path="projects/Roadmap.md"
+        onNavigate={onNavigate}
+        fetch={createLinksFetch([])}
+      />
+    );
+
+    fireEvent.click(await screen.findByText("Ideas"));
+    expect(onNavigate).toHaveBeenCalledWith("Ideas.md");
+  });
+
+  it("loads unlinked mentions only when expanded", async () => {
+    const urls: string[] = [];
+    render(
+      <LinkedMentions
+        vaultId="vault-1"
+        path="projects/Roadmap.md"
+        onNavigate={() => {}}
+        fetch={createLinksFetch(urls)}
+      />
+    );
+
+    await screen.findByText("Ideas");
+    expect(urls.some((u) => u.includes("/links/unlinked"))).toBe(false);
+
+    fireEvent.click(screen.getByRole("button", { name: /Unlinked mentions/ }));
+
+    expect(await screen.findByText("The roadmap needs another pass")).toBeDefined();
+    expect(urls.some((u) => u.includes("/links/unlinked?path=projects%2FRoadmap.md"))).toBe(true);
+  });
+
+  it("shows an empty state when nothing links to the note", async () => {
+    const emptyFetch: FetchFn = () =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ path: "lonely.md", links: [] }),
+      } as Response);
+    render(
+      <LinkedMentions vaultId="vault-1" path="lonely.md" onNavigate={() => {}} fetch={emptyFetch} />
+    );
+
+    expect(await screen.findByText("No notes link here yet.")).toBeDefined();
+  });
+});
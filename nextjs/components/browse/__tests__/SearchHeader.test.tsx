@@ -345,6 +345,73 @@ describe("SearchHeader", () => {
     });
   });
 
+  describe("scope toggle", () => {
+    it("hides the scope toggle without onScopeChange", () => {
+      render(<SearchHeader {...defaultProps} />);
+      openMenu();
+
+      expect(screen.queryByRole("menuitem", { name: /Vault/ })).toBeNull();
+    });
+
+    it("switches between this vault and all vaults", () => {
+      const onScopeChange = mock(() => {});
+      const { rerender } = render(
+        <SearchHeader {...defaultProps} scope="vault" onScopeChange={onScopeChange} />
+      );
+      openMenu();
+      fireEvent.click(screen.getByRole("menuitem", { name: /Search All Vaults/ }));
+      expect(onScopeChange).toHaveBeenCalledWith("all");
+
+      rerender(<SearchHeader {...defaultProps} scope="all" onScopeChange={onScopeChange} />);
+      openMenu();
+      fireEvent.click(screen.getByRole("menuitem", { name: /Search This Vault/ }));
+      expect(onScopeChange).toHaveBeenCalledWith("vault");
+    });
+
+    it("names the scope in the placeholder", () => {
+      render(<SearchHeader {...defaultProps} mode="content" scope="all" />);
+
+      const input = screen.getByRole("textbox");
+      expect(input.getAttribute("placeholder")).toBe("Search content in all vaults...");
+    });
+  });
+
+  describe("content search syntax", () => {
+    it("offers the syntax reference only in content mode", () => {
+      render(<SearchHeader {...defaultProps} mode="files" />);
+      openMenu();
+
+      expect(
+        screen.queryByRole("menuitem", { name: /Search Syntax/ })
+      ).toBeNull();
+    });
+
+    it("toggles the syntax reference from the menu", () => {
+      render(<SearchHeader {...defaultProps} mode="content" />);
+      openMenu();
+      fireEvent.click(screen.getByRole("menuitem", { name: /Show Search Syntax/ }));
+
+      expect(screen.getByText("tag:#project")).toBeDefined();
+      expect(screen.getByText("has:task")).toBeDefined();
+
+      openMenu();
+      fireEvent.click(screen.getByRole("menuitem", { name: /Hide Search Syntax/ }));
+      expect(screen.queryByText("tag:#project")).toBeNull();
+    });
+
+    it("shows query errors", () => {
+      render(
+        <SearchHeader
+          {...defaultProps}
+          mode="content"
+          error='Invalid date for after: "soon" (expected YYYY-MM-DD)'
+        />
+      );
+
+      expect(screen.getByRole("alert").textContent).toContain("Invalid date");
+    });
+  });
+
   describe("accessibility", () => {
     it("has proper aria-label on search input", () => {
       render(<SearchHeader {...defaultProps} />);
@@ -6,7 +6,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
 import { render, screen, fireEvent, cleanup } from "@testing-library/react";
-import { SearchResults, type SearchResultsProps } from "../SearchResults";
+import { SearchResults, getSearchResultKey, type SearchResultsProps } from "../SearchResults";
 import type {
   FileSearchResult,
   ContentSearchResult,
@@ -443,6 +443,30 @@ describe("SearchResults", () => {
       );
       expect(highlights.length).toBe(2);
     });
+
+    it("highlights each text term of a structured query, not filters", () => {
+      const expandedPaths = new Set(["docs/guide.md"]);
+      const snippetsCache = new Map([["docs/guide.md", testSnippets]]);
+
+      render(
+        <SearchResults
+          {...createProps({
+            mode: "content",
+            query: "matching term tag:#docs -another",
+            contentResults,
+            expandedPaths,
+            snippetsCache,
+          })}
+        />
+      );
+
+      const highlightText = Array.from(
+        document.querySelectorAll(
+          ".search-results__match-line .search-results__highlight"
+        )
+      ).map((el) => el.textContent);
+      expect(highlightText).toEqual(["matching", "term", "term"]);
+    });
   });
 
   describe("keyboard navigation", () => {
@@ -572,6 +596,116 @@ describe("SearchResults", () => {
     });
   });
 
+  describe("all-vaults results", () => {
+    const crossVaultResults: ContentSearchResult[] = [
+      { path: "README.md", name: "README.md", matchCount: 2, vaultId: "work", vaultName: "Work" },
+      { path: "README.md", name: "README.md", matchCount: 1, vaultId: "home", vaultName: "Home" },
+    ];
+
+    it("labels each result with its vault", () => {
+      render(
+        <SearchResults
+          {...createProps({ mode: "content", query: "readme", contentResults: crossVaultResults })}
+        />
+      );
+
+      const labels = screen.getAllByTestId("result-vault").map((el) => el.textContent);
+      expect(labels).toEqual(["Work", "Home"]);
+    });
+
+    it("passes the vault when selecting and expanding", () => {
+      const onFileSelect = mock(() => {});
+      const onToggleExpand = mock(() => {});
+      const onRequestSnippets = mock(() => {});
+      render(
+        <SearchResults
+          {...createProps({
+            mode: "content",
+            query: "readme",
+            contentResults: crossVaultResults,
+            onFileSelect,
+            onToggleExpand,
+            onRequestSnippets,
+          })}
+        />
+      );
+
+      fireEvent.click(screen.getAllByTestId("expand-button")[1]);
+      expect(onToggleExpand).toHaveBeenCalledWith(getSearchResultKey("README.md", "home"));
+      expect(onRequestSnippets).toHaveBeenCalledWith("README.md", "home");
+
+      fireEvent.click(screen.getAllByText("README.md")[1]);
+      expect(onFileSelect).toHaveBeenCalledWith("README.md", "home");
+    });
+
+    it("keys expansion by vault and path", () => {
+      render(
+        <SearchResults
+          {...createProps({
+            mode: "content",
+            query: "search",
+            contentResults: crossVaultResults,
+            expandedPaths: new Set([getSearchResultKey("README.md", "work")]),
+            snippetsCache: new Map([[getSearchResultKey("README.md", "work"), testSnippets]]),
+          })}
+        />
+      );
+
+      const buttons = screen.getAllByTestId("expand-button");
+      expect(buttons[0].getAttribute("aria-expanded")).toBe("true");
+      expect(buttons[1].getAttribute("aria-expanded")).toBe("false");
+    });
+
+    it("counts skipped vaults and offers to index them", () => {
+      const onIndexSkipped = mock(() => {});
+      render(
+        <SearchResults
+          {...createProps({
+            mode: "content",
+            query: "readme",
+            contentResults: crossVaultResults,
+            skippedVaultCount: 2,
+            onIndexSkipped,
+          })}
+        />
+      );
+
+      expect(screen.getByTestId("search-skipped").textContent).toContain("2 vaults not indexed yet");
+      fireEvent.click(screen.getByText("Index now"));
+      expect(onIndexSkipped).toHaveBeenCalled();
+    });
+
+    it("shows the skipped notice when nothing matched", () => {
+      render(
+        <SearchResults {...createProps({ mode: "content", query: "kayak", skippedVaultCount: 1 })} />
+      );
+
+      expect(screen.getByTestId("search-empty").textContent).toContain("1 vault not indexed yet");
+    });
+
+    it("disables the index button while indexing", () => {
+      render(
+        <SearchResults
+          {...createProps({
+            mode: "content",
+            query: "kayak",
+            skippedVaultCount: 1,
+            isIndexing: true,
+            onIndexSkipped: mock(() => {}),
+          })}
+        />
+      );
+
+      expect((screen.getByText("Indexing...") as HTMLButtonElement).disabled).toBe(true);
+    });
+
+    it("shows no notice when no vault was skipped", () => {
+      render(<SearchResults {...createProps({ mode: "content", query: "readme", contentResults: crossVaultResults })} />);
+
+      expect(screen.queryByTestId("search-skipped")).toBeNull();
+    });
+  });
+
   describe("accessibility", () => {
     it("has listbox role", () => {
       render(
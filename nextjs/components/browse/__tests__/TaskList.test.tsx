@@ -5,11 +5,13 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { render, screen, fireEvent, cleanup, waitFor } from "@testing-library/react";
 import { useEffect } from "react";
 import { TaskList } from "../TaskList";
 import { SessionProvider, useSession } from "../../../contexts/SessionContext";
-import type { TaskEntry } from "@memory-loop/shared";
+import type { TaskEntry, VaultInfo } from "@memory-loop/shared";
+import { formatDateForFilename } from "@memory-loop/shared";
+import type { FetchFn } from "@/lib/api/types";
 
 // Clear localStorage and cleanup DOM before/after each test
 beforeEach(() => {
@@ -37,6 +39,104 @@ function TaskListWithTasks({
   return <TaskList onToggleTask={onToggleTask} />;
 }
 
+const testVault: VaultInfo = {
+  id: "vault-1",
+  name: "Test Vault",
+  path: "/test/vault",
+  hasClaudeMd: true,
+  contentRoot: "/test/vault",
+  inboxPath: "inbox",
+  metadataPath: "06_Metadata/memory-loop",
+  attachmentPath: "05_Attachments",
+  setupComplete: true,
+  promptsPerGeneration: 5,
+  maxPoolSize: 50,
+  quotesPerWeek: 1,
+  badges: [],
+  order: 999999,
+  cardsEnabled: true,
+  viMode: false,
+};
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body?: unknown;
+}
+
+/**
+ * Creates a mock fetch that records requests and answers every write with
+ * a successful task write response.
+ */
+function createRecordingFetch(requests: RecordedRequest[]): FetchFn {
+  return (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    requests.push({
+      url,
+      method: init?.method ?? "GET",
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined,
+    });
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ success: true, filePath: "file.md", lineNumber: 1, text: "" }),
+    } as Response);
+  };
+}
+
+// Helper component with a selected vault, for task writes
+function EditableTaskList({
+  tasks,
+  fetch,
+  onRefresh,
+}: {
+  tasks: TaskEntry[];
+  fetch: FetchFn;
+  onRefresh: () => void;
+}) {
+  const { selectVault, setTasks } = useSession();
+
+  useEffect(() => {
+    selectVault(testVault);
+    setTasks(tasks);
+  }, [selectVault, setTasks, tasks]);
+
+  return <TaskList fetch={fetch} onRefresh={onRefresh} />;
+}
+
+const configuredVault: VaultInfo = {
+  ...testVault,
+  taskStates: [
+    { symbol: " ", label: "todo" },
+    { symbol: "x", label: "done", done: true },
+    { symbol: "-", label: "cancelled", color: "red", done: true },
+    { symbol: ">", label: "deferred" },
+  ],
+  taskStateCycle: [" ", ">", "x"],
+  taskScopes: [
+    { path: "Work", label: "Work", category: "Work" },
+    { path: "Clients", label: "Clients", category: "Clients" },
+  ],
+};
+
+// Helper component with a vault that configures task states and folders
+function ConfiguredTaskList({
+  tasks,
+  onToggleTask,
+}: {
+  tasks: TaskEntry[];
+  onToggleTask: (filePath: string, lineNumber: number, newState: string, originalState: string) => boolean;
+}) {
+  const { selectVault, setTasks } = useSession();
+
+  useEffect(() => {
+    selectVault(configuredVault);
+    setTasks(tasks);
+  }, [selectVault, setTasks, tasks]);
+
+  return <TaskList onToggleTask={onToggleTask} />;
+}
+
 // Helper component to set loading state
 function TaskListLoading() {
   const { setTasksLoading } = useSession();
@@ -48,6 +148,15 @@ function TaskListLoading() {
   return <TaskList />;
 }
 
+/**
+ * Returns a YYYY-MM-DD date offset from today by the given number of days.
+ */
+function dateFromToday(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return formatDateForFilename(date);
+}
+
 describe("TaskList", () => {
   describe("empty state", () => {
     it("displays 'No tasks found' when empty (REQ-F-23)", () => {
@@ -114,6 +223,152 @@ describe("TaskList", () => {
     });
   });
 
+  describe("task metadata", () => {
+    const tasks: TaskEntry[] = [
+      {
+        text: `Pay rent ⏫ 🔁 every month 📅 ${dateFromToday(3)}`,
+        description: "Pay rent",
+        dueDate: dateFromToday(3),
+        priority: "high",
+        recurrence: "every month",
+        state: " ",
+        filePath: "home/bills.md",
+        lineNumber: 1,
+        fileMtime: 1000,
+        category: "areas",
+      },
+      {
+        text: `File taxes 📅 ${dateFromToday(-2)}`,
+        description: "File taxes",
+        dueDate: dateFromToday(-2),
+        state: " ",
+        filePath: "home/bills.md",
+        lineNumber: 2,
+        fileMtime: 1000,
+        category: "areas",
+      },
+      {
+        text: `Call bank 🔺 📅 ${dateFromToday(0)}`,
+        description: "Call bank",
+        dueDate: dateFromToday(0),
+        priority: "highest",
+        state: " ",
+        filePath: "inbox.md",
+        lineNumber: 1,
+        fileMtime: 2000,
+        category: "inbox",
+      },
+      {
+        text: `Book flights 🔽 📅 ${dateFromToday(3)}`,
+        description: "Book flights",
+        dueDate: dateFromToday(3),
+        priority: "low",
+        state: " ",
+        filePath: "inbox.md",
+        lineNumber: 2,
+        fileMtime: 2000,
+        category: "inbox",
+      },
+      { text: "Read book", state: " ", filePath: "inbox.md", lineNumber: 3, fileMtime: 2000, category: "inbox" },
+      {
+        text: `Old chore ✅ ${dateFromToday(-5)} 📅 ${dateFromToday(-6)}`,
+        description: "Old chore",
+        dueDate: dateFromToday(-6),
+        doneDate: dateFromToday(-5),
+        state: "x",
+        filePath: "inbox.md",
+        lineNumber: 4,
+        fileMtime: 2000,
+        category: "inbox",
+      },
+    ];
+
+    function taskOrder(container: HTMLElement): string[] {
+      return Array.from(container.querySelectorAll(".task-list__text-label")).map(
+        (el) => el.textContent ?? ""
+      );
+    }
+
+    it("shows the description with due date, priority, and recurrence badges", () => {
+      render(
+        <SessionProvider>
+          <TaskListWithTasks tasks={tasks} />
+        </SessionProvider>
+      );
+
+      expect(screen.getByText("Pay rent")).toBeDefined();
+      expect(screen.queryByText(/every month 📅/)).toBeNull();
+      expect(screen.getByText(/every month/)).toBeDefined();
+      expect(screen.getByTitle("high priority")).toBeDefined();
+
+      const overdue = document.querySelector(".task-list__badge--overdue");
+      expect(overdue?.textContent).toContain(dateFromToday(-2));
+      expect(document.querySelectorAll(".task-list__badge--overdue")).toHaveLength(1);
+    });
+
+    it("groups open tasks into Overdue, Today, Upcoming, and No due date", () => {
+      const { container } = render(
+        <SessionProvider>
+          <TaskListWithTasks tasks={tasks} />
+        </SessionProvider>
+      );
+
+      fireEvent.click(screen.getByRole("button", { name: "By due date" }));
+
+      const headers = Array.from(container.querySelectorAll(".task-list__category-name")).map(
+        (el) => el.textContent
+      );
+      expect(headers).toEqual(["Overdue", "Today", "Upcoming", "No due date"]);
+
+      // Sorted by due date, then priority; completed tasks are left out
+      expect(taskOrder(container)).toEqual([
+        "File taxes",
+        "Call bank",
+        "Pay rent",
+        "Book flights",
+        "Read book",
+      ]);
+
+      // Due view shows which file each task is from
+      expect(screen.getAllByTitle("home/bills.md").length).toBeGreaterThan(0);
+    });
+
+    it("filters by minimum priority in both views", () => {
+      const { container } = render(
+        <SessionProvider>
+          <TaskListWithTasks tasks={tasks} />
+        </SessionProvider>
+      );
+
+      fireEvent.change(screen.getByLabelText("Filter by priority"), {
+        target: { value: "high" },
+      });
+      expect(taskOrder(container).sort()).toEqual(["Call bank", "Pay rent"]);
+
+      fireEvent.click(screen.getByRole("button", { name: "By due date" }));
+      expect(taskOrder(container)).toEqual(["Call bank", "Pay rent"]);
+
+      fireEvent.change(screen.getByLabelText("Filter by priority"), {
+        target: { value: "highest" },
+      });
+      expect(taskOrder(container)).toEqual(["Call bank"]);
+    });
+
+    it("shows a message when no tasks match the filter", () => {
+      render(
+        <SessionProvider>
+          <TaskListWithTasks tasks={[tasks[4]]} />
+        </SessionProvider>
+      );
+
+      fireEvent.change(screen.getByLabelText("Filter by priority"), {
+        target: { value: "medium" },
+      });
+
+      expect(screen.getByText("No tasks match")).toBeDefined();
+    });
+  });
+
   describe("state indicators", () => {
     it("shows empty checkbox for incomplete tasks (state=' ')", () => {
       const tasks: TaskEntry[] = [
@@ -592,4 +847,264 @@ describe("TaskList", () => {
       expect(screen.queryByRole("menu")).toBeNull();
     });
   });
+
+  describe("task writes", () => {
+    const tasks: TaskEntry[] = [
+      {
+        text: "Pay rent 🔼 📅 2026-11-01",
+        description: "Pay rent",
+        priority: "medium",
+        dueDate: "2026-11-01",
+        state: " ",
+        filePath: "notes/bills.md",
+        lineNumber: 3,
+        fileMtime: 1000,
+        category: "areas",
+      },
+    ];
+
+    function openMenu() {
+      fireEvent.contextMenu(screen.getByRole("button", { name: /Toggle task: Pay rent/i }));
+    }
+
+    it("quick-adds a task to today's note and refreshes", async () => {
+      const requests: RecordedRequest[] = [];
+      let refreshes = 0;
+      render(
+        <SessionProvider initialVaults={[testVault]}>
+          <EditableTaskList tasks={tasks} fetch={createRecordingFetch(requests)} onRefresh={() => refreshes++} />
+        </SessionProvider>
+      );
+
+      fireEvent.change(screen.getByLabelText("New task"), { target: { value: "Call Bob" } });
+      fireEvent.change(screen.getByLabelText("Due date"), { target: { value: "2026-10-20" } });
+      fireEvent.change(screen.getByLabelText("Priority"), { target: { value: "high" } });
+      fireEvent.click(screen.getByRole("button", { name: "Add" }));
+
+      await waitFor(() => expect(refreshes).toBe(1));
+      expect(requests[0]).toEqual({
+        url: "/api/vaults/vault-1/tasks",
+        method: "POST",
+        body: { text: "Call Bob", dueDate: "2026-10-20", priority: "high" },
+      });
+      expect((screen.getByLabelText("New task") as HTMLInputElement).value).toBe("");
+    });
+
+    it("shows quick-add when there are no tasks", () => {
+      render(
+        <SessionProvider initialVaults={[testVault]}>
+          <EditableTaskList tasks={[]} fetch={createRecordingFetch([])} onRefresh={() => {}} />
+        </SessionProvider>
+      );
+
+      expect(screen.getByText("No tasks found")).toBeDefined();
+      expect(screen.getByLabelText("New task")).toBeDefined();
+    });
+
+    it("edits a task from the context menu, clearing emptied fields", async () => {
+      const requests: RecordedRequest[] = [];
+      let refreshes = 0;
+      render(
+        <SessionProvider initialVaults={[testVault]}>
+          <EditableTaskList tasks={tasks} fetch={createRecordingFetch(requests)} onRefresh={() => refreshes++} />
+        </SessionProvider>
+      );
+
+      openMenu();
+      fireEvent.click(screen.getByRole("menuitem", { name: "Edit" }));
+
+      const form = screen.getByRole("form", { name: "Edit task" });
+      expect((screen.getByLabelText("Task text") as HTMLInputElement).value).toBe("Pay rent");
+      fireEvent.change(screen.getByLabelText("Task text"), { target: { value: "Pay the rent" } });
+      fireEvent.change(screen.getByLabelText("Due"), { target: { value: "" } });
+      fireEvent.submit(form);
+
+      await waitFor(() => expect(refreshes).toBe(1));
+      expect(requests[0]).toEqual({
+        url: "/api/vaults/vault-1/tasks",
+        method: "PUT",
+        body: {
+          filePath: "notes/bills.md",
+          lineNumber: 3,
+          expectedText: "Pay rent 🔼 📅 2026-11-01",
+          text: "Pay the rent",
+          dueDate: null,
+          scheduledDate: null,
+          priority: "medium",
+          recurrence: null,
+        },
+      });
+      expect(screen.queryByRole("form", { name: "Edit task" })).toBeNull();
+    });
+
+    it("moves a task to another file", async () => {
+      const requests: RecordedRequest[] = [];
+      let refreshes = 0;
+      render(
+        <SessionProvider initialVaults={[testVault]}>
+          <EditableTaskList tasks={tasks} fetch={createRecordingFetch(requests)} onRefresh={() => refreshes++} />
+        </SessionProvider>
+      );
+
+      openMenu();
+      fireEvent.click(screen.getByRole("menuitem", { name: "Move to file" }));
+      fireEvent.change(screen.getByLabelText("Destination file"), { target: { value: "notes/done.md" } });
+      fireEvent.change(screen.getByLabelText("Destination heading"), { target: { value: "Paid" } });
+      fireEvent.click(screen.getByRole("button", { name: "Move" }));
+
+      await waitFor(() => expect(refreshes).toBe(1));
+      expect(requests[0]).toEqual({
+        url: "/api/vaults/vault-1/tasks/move",
+        method: "POST",
+        body: {
+          filePath: "notes/bills.md",
+          lineNumber: 3,
+          toFilePath: "notes/done.md",
+          heading: "Paid",
+          expectedText: "Pay rent 🔼 📅 2026-11-01",
+        },
+      });
+    });
+
+    it("deletes a task after confirmation", async () => {
+      const requests: RecordedRequest[] = [];
+      let refreshes = 0;
+      render(
+        <SessionProvider initialVaults={[testVault]}>
+          <EditableTaskList tasks={tasks} fetch={createRecordingFetch(requests)} onRefresh={() => refreshes++} />
+        </SessionProvider>
+      );
+
+      openMenu();
+      fireEvent.click(screen.getByRole("menuitem", { name: "Delete" }));
+      expect(requests).toHaveLength(0);
+
+      fireEvent.click(screen.getByRole("button", { name: "Delete" }));
+
+      await waitFor(() => expect(refreshes).toBe(1));
+      expect(requests[0]).toEqual({
+        url: `/api/vaults/vault-1/tasks?filePath=notes%2Fbills.md&lineNumber=3&expectedText=${encodeURIComponent("Pay rent 🔼 📅 2026-11-01")}`,
+        method: "DELETE",
+        body: undefined,
+      });
+    });
+  });
+
+  describe("configured task states and folders", () => {
+    const tasks: TaskEntry[] = [
+      { text: "Client call", state: " ", filePath: "Clients/acme.md", lineNumber: 1, fileMtime: 1000, category: "Clients" },
+      { text: "Dropped idea", state: "-", filePath: "Work/plan.md", lineNumber: 1, fileMtime: 2000, category: "Work" },
+      { text: "Write report", state: " ", filePath: "Work/plan.md", lineNumber: 2, fileMtime: 2000, category: "Work" },
+      { text: "Stray task", state: " ", filePath: "Other/x.md", lineNumber: 1, fileMtime: 500, category: "Other" },
+    ];
+
+    function renderConfigured(toggles: string[] = []) {
+      render(
+        <SessionProvider initialVaults={[configuredVault]}>
+          <ConfiguredTaskList
+            tasks={tasks}
+            onToggleTask={(_path, _line, newState) => {
+              toggles.push(newState);
+              return true;
+            }}
+          />
+        </SessionProvider>
+      );
+    }
+
+    it("groups tasks under the configured folder labels in order", () => {
+      renderConfigured();
+
+      const headers = screen.getAllByRole("button", { expanded: true })
+        .map((el) => el.querySelector(".task-list__category-name")?.textContent)
+        .filter(Boolean);
+      expect(headers).toEqual(["Work", "Clients", "Other"]);
+    });
+
+    it("counts and hides custom done states as completed", () => {
+      renderConfigured();
+
+      expect(screen.getByText("1 / 4")).toBeDefined();
+      expect(screen.getByRole("button", { name: /currently cancelled/ })).toBeDefined();
+
+      fireEvent.click(screen.getByLabelText("Hide completed"));
+      expect(screen.queryByText("Dropped idea")).toBeNull();
+      expect(screen.getByText("Write report")).toBeDefined();
+    });
+
+    it("follows the configured cycle on left-click", () => {
+      const toggles: string[] = [];
+      renderConfigured(toggles);
+
+      fireEvent.click(screen.getByRole("button", { name: /Toggle task: Write report/ }));
+      expect(toggles).toEqual([">"]);
+    });
+
+    it("offers configured states in the context menu", () => {
+      renderConfigured();
+
+      fireEvent.contextMenu(screen.getByRole("button", { name: /Toggle task: Write report/ }));
+
+      expect(screen.getByRole("menuitem", { name: /cancelled/ })).toBeDefined();
+      expect(screen.getByRole("menuitem", { name: /deferred/ })).toBeDefined();
+      expect(screen.queryByRole("menuitem", { name: /partial/ })).toBeNull();
+    });
+  });
+
+  describe("subtasks", () => {
+    const outline: TaskEntry[] = [
+      { text: "Launch", state: " ", filePath: "plan.md", lineNumber: 1, fileMtime: 1000, category: "projects" },
+      { text: "Write copy", state: "x", filePath: "plan.md", lineNumber: 2, fileMtime: 1000, category: "projects", parentLineNumber: 1 },
+      { text: "Venue", state: " ", filePath: "plan.md", lineNumber: 3, fileMtime: 1000, category: "projects", parentLineNumber: 1 },
+      { text: "Book venue", state: "x", filePath: "plan.md", lineNumber: 4, fileMtime: 1000, category: "projects", parentLineNumber: 3 },
+      { text: "Unrelated", state: " ", filePath: "plan.md", lineNumber: 5, fileMtime: 1000, category: "projects" },
+    ];
+
+    function renderOutline() {
+      return render(
+        <SessionProvider>
+          <TaskListWithTasks tasks={outline} />
+        </SessionProvider>
+      );
+    }
+
+    it("nests subtasks under their parent", () => {
+      const { container } = renderOutline();
+
+      const subtasks = container.querySelectorAll(".task-list__subtasks .task-list__text-label");
+      expect(Array.from(subtasks).map((el) => el.textContent)).toEqual(["Write copy", "Venue", "Book venue"]);
+      const topLevel = container.querySelectorAll(".task-list__items > .task-list__item > .task-list__text-btn .task-list__text-label");
+      expect(Array.from(topLevel).map((el) => el.textContent)).toEqual(["Launch", "Unrelated"]);
+    });
+
+    it("shows progress over all descendants", () => {
+      renderOutline();
+
+      expect(screen.getByText("2/3")).toBeDefined();
+      expect(screen.getByText("1/1")).toBeDefined();
+    });
+
+    it("collapses and expands a parent's subtasks", () => {
+      renderOutline();
+
+      const toggle = screen.getByRole("button", { name: "Hide subtasks of Launch" });
+      expect(toggle.getAttribute("aria-expanded")).toBe("true");
+
+      fireEvent.click(toggle);
+      expect(screen.queryByText("Write copy")).toBeNull();
+      expect(screen.queryByText("Book venue")).toBeNull();
+
+      fireEvent.click(screen.getByRole("button", { name: "Show subtasks of Launch" }));
+      expect(screen.getByText("Write copy")).toBeDefined();
+    });
+
+    it("keeps counting hidden completed subtasks", () => {
+      renderOutline();
+
+      fireEvent.click(screen.getByLabelText("Hide completed"));
+
+      expect(screen.queryByText("Write copy")).toBeNull();
+      expect(screen.getByText("2/3")).toBeDefined();
+    });
+  });
 });
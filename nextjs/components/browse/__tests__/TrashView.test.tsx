@@ -0,0 +1,98 @@
+/**
+ * Tests for TrashView component
+ *
+ * Tests loading on expand, restore, delete forever, and empty trash.
+ */
+
+import { describe, it, expect, afterEach, mock } from "bun:test";
+import { render, screen, fireEvent, cleanup, waitFor } from "@testing-library/react";
+import type { TrashItem } from "@memory-loop/shared";
+import { TrashView } from "../TrashView";
+import type { FetchFn } from "@/lib/api/types";
+
+afterEach(() => {
+  cleanup();
+});
+
+const items: TrashItem[] = [
+  { id: "0mvf52sz0-aaaaaa", originalPath: "notes/Note.md", isDirectory: false, deletedAt: "2026-01-05T10:30:00.000Z" },
+  { id: "0mvf52sxz-bbbbbb", originalPath: "Old Project", isDirectory: true, deletedAt: "2026-01-04T09:00:00.000Z" },
+];
+
+/**
+ * Creates a fetch that answers each trash endpoint and records requests.
+ */
+function createTrashFetch(requests: string[], trashItems: TrashItem[] = items): FetchFn {
+  return (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    const method = init?.method ?? "GET";
+    requests.push(`${method} ${url}`);
+    let data: unknown = { success: true };
+    if (url.endsWith("/restore")) {
+      data = { success: true, path: "notes/Note.md", isDirectory: false };
+    } else if (method === "GET") {
+      data = { items: trashItems, retentionDays: 30 };
+    }
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(data),
+    } as Response);
+  };
+}
+
+describe("TrashView", () => {
+  it("loads the trash only when expanded", async () => {
+    const requests: string[] = [];
+    render(<TrashView vaultId="vault-1" fetch={createTrashFetch(requests)} />);
+
+    expect(requests).toEqual([]);
+    fireEvent.click(screen.getByText("Trash"));
+
+    expect(await screen.findByText("Note.md")).toBeDefined();
+    expect(screen.getByText("Old Project/")).toBeDefined();
+    expect(screen.getByText("Deleted items are kept for 30 days.")).toBeDefined();
+    expect(requests).toEqual(["GET /api/vaults/vault-1/trash"]);
+  });
+
+  it("restores an item and reports where it went", async () => {
+    const requests: string[] = [];
+    const onRestored = mock(() => {});
+    render(<TrashView vaultId="vault-1" onRestored={onRestored} fetch={createTrashFetch(requests)} />);
+
+    fireEvent.click(screen.getByText("Trash"));
+    fireEvent.click(await screen.findByLabelText("Restore Note.md"));
+
+    await waitFor(() => {
+      expect(onRestored).toHaveBeenCalledWith("notes/Note.md");
+    });
+    expect(screen.queryByText("Note.md")).toBeNull();
+    expect(requests).toContain(`POST /api/vaults/vault-1/trash/${items[0].id}/restore`);
+  });
+
+  it("deletes an item forever after confirmation", async () => {
+    const requests: string[] = [];
+    render(<TrashView vaultId="vault-1" fetch={createTrashFetch(requests)} />);
+
+    fireEvent.click(screen.getByText("Trash"));
+    fireEvent.click(await screen.findByLabelText("Delete Old Project forever"));
+    fireEvent.click(screen.getByText("Delete Forever"));
+
+    await waitFor(() => {
+      expect(screen.queryByText("Old Project/")).toBeNull();
+    });
+    expect(requests).toContain(`DELETE /api/vaults/vault-1/trash/${items[1].id}`);
+  });
+
+  it("empties the trash after confirmation", async () => {
+    const requests: string[] = [];
+    render(<TrashView vaultId="vault-1" fetch={createTrashFetch(requests)} />);
+
+    fireEvent.click(screen.getByText("Trash"));
+    fireEvent.click(await screen.findByText("Empty Trash"));
+    fireEvent.click(screen.getAllByText("Empty Trash")[1]);
+
+    expect(await screen.findByText("Trash is empty")).toBeDefined();
+    expect(requests).toContain("DELETE /api/vaults/vault-1/trash");
+  });
+});
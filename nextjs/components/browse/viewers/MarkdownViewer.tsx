@@ -19,6 +19,8 @@ import remarkFrontmatter from "remark-frontmatter";
 import { parse as parseYaml } from "yaml";
 import { useSession } from "../../../contexts/SessionContext";
 import { encodeAssetPath } from "@memory-loop/shared";
+import { LinkedMentions } from "../LinkedMentions";
+import { SaveConflictDialog } from "../../shared/SaveConflictDialog";
 import "./MarkdownViewer.css";
 
 /**
@@ -37,6 +39,10 @@ export interface MarkdownViewerProps {
   onEnterPairWriting?: () => void;
   /** Callback to delete the current file */
   onDelete?: () => void;
+  /** Callback to open the current file's version history */
+  onShowHistory?: () => void;
+  /** Show linked and unlinked mentions below the note */
+  showLinks?: boolean;
 }
 
 /**
@@ -401,13 +407,18 @@ export function MarkdownViewer({
   onMobileMenuClick,
   onEnterPairWriting,
   onDelete,
+  onShowHistory,
+  showLinks = false,
 }: MarkdownViewerProps): ReactNode {
   const {
+    vault,
     browser,
     setCurrentPath,
+    setFileContent,
     startAdjust,
     updateAdjustContent,
     cancelAdjust,
+    dismissSaveConflict,
   } = useSession();
   const {
     currentPath,
@@ -419,6 +430,7 @@ export function MarkdownViewer({
     adjustContent,
     adjustError,
     isSaving,
+    saveConflict,
   } = browser;
 
   // Handle wiki-link clicks - resolve paths
@@ -521,6 +533,25 @@ export function MarkdownViewer({
     onSave?.(adjustContent);
   }, [onSave, adjustContent]);
 
+  // Save conflict resolution (file changed on disk while adjusting)
+  const handleKeepMine = useCallback(() => {
+    if (saveConflict) onSave?.(saveConflict.localContent);
+  }, [onSave, saveConflict]);
+
+  const handleSaveMerged = useCallback(
+    (content: string) => {
+      updateAdjustContent(content);
+      onSave?.(content);
+    },
+    [onSave, updateAdjustContent]
+  );
+
+  const handleUseTheirs = useCallback(() => {
+    if (!saveConflict) return;
+    setFileContent(saveConflict.serverContent, false, saveConflict.serverEtag);
+    cancelAdjust();
+  }, [saveConflict, setFileContent, cancelAdjust]);
+
   // Loading state
   if (isLoading) {
     return (
@@ -624,6 +655,17 @@ export function MarkdownViewer({
             aria-label="File content editor"
           />
         </div>
+
+        {saveConflict && (
+          <SaveConflictDialog
+            key={saveConflict.serverEtag}
+            conflict={saveConflict}
+            onKeepMine={handleKeepMine}
+            onUseTheirs={handleUseTheirs}
+            onSaveMerged={handleSaveMerged}
+            onCancel={dismissSaveConflict}
+          />
+        )}
       </div>
     );
   }
@@ -676,6 +718,16 @@ export function MarkdownViewer({
               Pair Writing
             </button>
           )}
+          {onShowHistory && (
+            <button
+              type="button"
+              className="markdown-viewer__adjust-btn"
+              onClick={onShowHistory}
+              aria-label="Show file history"
+            >
+              History
+            </button>
+          )}
           {onDelete && (
             <button
               type="button"
@@ -703,6 +755,9 @@ export function MarkdownViewer({
         >
           {markdownContent}
         </Markdown>
+        {showLinks && vault && currentPath && onNavigate && (
+          <LinkedMentions vaultId={vault.id} path={currentPath} onNavigate={onNavigate} />
+        )}
       </article>
     </div>
   );
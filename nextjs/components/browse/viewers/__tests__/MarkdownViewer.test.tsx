@@ -10,6 +10,7 @@ import { render, screen, fireEvent, cleanup } from "@testing-library/react";
 import { useEffect, type ReactNode } from "react";
 import { MarkdownViewer } from "../MarkdownViewer";
 import { SessionProvider, useSession } from "../../../../contexts/SessionContext";
+import type { SaveConflict } from "../../../../contexts/SessionContext";
 
 // Custom wrapper that pre-populates browser state
 interface BrowserStateConfig {
@@ -22,6 +23,7 @@ interface BrowserStateConfig {
   adjustContent?: string;
   adjustError?: string | null;
   isSaving?: boolean;
+  saveConflict?: SaveConflict;
 }
 
 function createTestWrapper(config: BrowserStateConfig = {}) {
@@ -72,6 +74,9 @@ function StatePopulator({
     if (config.adjustError !== undefined && config.adjustError !== null) {
       session.saveError(config.adjustError);
     }
+    if (config.saveConflict) {
+      session.saveConflict(config.saveConflict);
+    }
   }, []);
 
   return <>{children}</>;
@@ -899,6 +904,60 @@ title: Test
       });
     });
 
+    describe("save conflict", () => {
+      const conflict: SaveConflict = {
+        localContent: "# Test\nmine",
+        baseContent: "# Test",
+        serverContent: "# Test\nfrom obsidian",
+        serverEtag: '"b-2"',
+      };
+
+      it("shows the conflict dialog when a save conflicts", () => {
+        render(<MarkdownViewer />, {
+          wrapper: createTestWrapper({
+            currentPath: "test.md",
+            currentFileContent: "# Test",
+            isAdjusting: true,
+            saveConflict: conflict,
+          }),
+        });
+
+        expect(screen.getByText("File Changed on Disk")).toBeDefined();
+      });
+
+      it("Keep Mine re-saves the local content", () => {
+        const onSave = mock(() => {});
+        render(<MarkdownViewer onSave={onSave} />, {
+          wrapper: createTestWrapper({
+            currentPath: "test.md",
+            currentFileContent: "# Test",
+            isAdjusting: true,
+            saveConflict: conflict,
+          }),
+        });
+
+        fireEvent.click(screen.getByText("Keep Mine"));
+        expect(onSave).toHaveBeenCalledWith("# Test\nmine");
+      });
+
+      it("Use Disk Version loads the disk content and leaves adjust mode", () => {
+        render(<MarkdownViewer />, {
+          wrapper: createTestWrapper({
+            currentPath: "test.md",
+            currentFileContent: "# Test",
+            isAdjusting: true,
+            saveConflict: conflict,
+          }),
+        });
+
+        fireEvent.click(screen.getByText("Use Disk Version"));
+
+        expect(screen.queryByText("File Changed on Disk")).toBeNull();
+        expect(screen.queryByRole("textbox", { name: "File content editor" })).toBeNull();
+        expect(screen.getByText("from obsidian")).toBeDefined();
+      });
+    });
+
     describe("saving state", () => {
       it("shows 'Saving...' text when isSaving is true", () => {
         render(<MarkdownViewer />, {
@@ -5,7 +5,8 @@
  * Submits via REST API and shows toast feedback.
  *
  * Supports two modes:
- * - Normal: Captures go to daily note
+ * - Normal: Captures go to daily note, or to a capture target picked from
+ *   the dropdown (shown when the vault configures any)
  * - Meeting: Captures go to meeting-specific file
  */
 
@@ -39,6 +40,13 @@ interface ToastState {
   message: string;
 }
 
+/**
+ * Splits attendees or agenda input into trimmed, non-empty items.
+ */
+function splitList(value: string, separator: string): string[] {
+  return value.split(separator).map((item) => item.trim()).filter(Boolean);
+}
+
 /**
  * Note capture input with auto-growing textarea and submit button.
  *
@@ -53,10 +61,15 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [toast, setToast] = useState<ToastState>({ visible: false, type: "success", message: "" });
   const [isTouchDevice, setIsTouchDevice] = useState(false);
+  // Name of the chosen capture target ("" = daily note)
+  const [targetName, setTargetName] = useState("");
 
   // Meeting mode state
   const [showMeetingPrompt, setShowMeetingPrompt] = useState(false);
   const [meetingTitle, setMeetingTitle] = useState("");
+  // Comma-separated attendees and one agenda item per line
+  const [meetingAttendees, setMeetingAttendees] = useState("");
+  const [meetingAgenda, setMeetingAgenda] = useState("");
   const [isStartingMeeting, setIsStartingMeeting] = useState(false);
   const [isStoppingMeeting, setIsStoppingMeeting] = useState(false);
 
@@ -71,6 +84,13 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
   const { captureNote, getRecentActivity } = useCapture(vault?.id);
   const { startMeeting: startMeetingApi, stopMeeting: stopMeetingApi } = useMeetings(vault?.id);
 
+  // Meetings take every capture; otherwise use the chosen target if the
+  // vault still has it
+  const captureTargets = vault?.captureTargets ?? [];
+  const activeTarget = meeting.isActive
+    ? undefined
+    : captureTargets.find((target) => target.name === targetName);
+
   // Detect touch-only devices (no hover capability)
   // On touch devices, Enter adds newlines; send button is the only way to submit
   useEffect(() => {
@@ -155,7 +175,7 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
     if (!content.trim() || !vault) return;
 
     try {
-      const result = await captureNote(content.trim());
+      const result = await captureNote(content.trim(), activeTarget?.name);
       if (result) {
         // Success - clear everything
         setContent("");
@@ -163,10 +183,33 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
         setIsSubmitting(false);
         retryCountRef.current = 0;
 
+        // Offline: the note waits in the outbox and is sent, dated now,
+        // when the connection returns
+        if (result.queued) {
+          showToast("success", "Offline. Note saved and will sync when you're back online");
+          onCaptured?.();
+          requestAnimationFrame(() => {
+            textareaRef.current?.focus();
+          });
+          return;
+        }
+
+        // A meeting that went quiet for too long is ended by the server and
+        // the note goes to the daily note instead
+        if (result.meetingEnded) {
+          clearMeeting();
+        } else if (meeting.isActive && meeting.resumedAt) {
+          setMeetingState({ ...meeting, resumedAt: undefined });
+        }
+
         // Context-aware success message
-        const message = meeting.isActive
-          ? "Note added to meeting"
-          : `Note saved at ${result.timestamp}`;
+        const message = result.meetingEnded
+          ? `Meeting "${result.meetingEnded}" had ended after going quiet. Note added to daily note`
+          : meeting.isActive
+            ? "Note added to meeting"
+            : result.targetName
+              ? `Note added to ${result.targetName}`
+              : `Note saved at ${result.timestamp}`;
         showToast("success", message);
         onCaptured?.();
         // Delay focus to ensure it happens after toast renders
@@ -224,6 +267,8 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
   function handleCancelMeetingPrompt() {
     setShowMeetingPrompt(false);
     setMeetingTitle("");
+    setMeetingAttendees("");
+    setMeetingAgenda("");
   }
 
   function handleMeetingTitleChange(e: React.ChangeEvent<HTMLInputElement>) {
@@ -249,10 +294,15 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
     setIsStartingMeeting(true);
 
     try {
-      const result = await startMeetingApi(meetingTitle.trim());
+      const result = await startMeetingApi(meetingTitle.trim(), {
+        attendees: splitList(meetingAttendees, ","),
+        agenda: splitList(meetingAgenda, "\n"),
+      });
       if (result) {
         setShowMeetingPrompt(false);
         setMeetingTitle("");
+        setMeetingAttendees("");
+        setMeetingAgenda("");
         // Update session context with meeting state
         setMeetingState({
           isActive: true,
@@ -283,9 +333,14 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
       if (result) {
         // Clear meeting state in session context
         clearMeeting();
+        const actionItems = result.wrapUp?.actionItems.length ?? 0;
         showToast(
-          "success",
-          `Meeting ended: ${result.entryCount} notes captured`
+          result.wrapUpError ? "error" : "success",
+          result.wrapUpError
+            ? `Meeting ended: ${result.entryCount} notes captured. Wrap-up failed: ${result.wrapUpError}`
+            : result.wrapUp
+              ? `Meeting ended: ${result.entryCount} notes captured, ${actionItems} action ${actionItems === 1 ? "item" : "items"} added`
+              : `Meeting ended: ${result.entryCount} notes captured`
         );
         // Transition to Discussion tab with expand-note command
         setDiscussionPrefill(`/expand-note ${result.filePath}`);
@@ -305,7 +360,9 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
   // Determine placeholder text based on meeting state
   const placeholderText = meeting.isActive
     ? `Capturing to: ${meeting.title}`
-    : "What's on your mind? Goes to your daily note.";
+    : activeTarget
+      ? `What's on your mind? Goes to ${activeTarget.name}.`
+      : "What's on your mind? Goes to your daily note.";
 
   // Determine button text based on meeting state
   const submitButtonText = isSubmitting
@@ -332,6 +389,21 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
         </div>
       )}
 
+      {/* Shown when the meeting was restored after the server restarted */}
+      {meeting.isActive && meeting.resumedAt && (
+        <div className="note-capture__meeting-resumed" role="status">
+          <span>Meeting resumed after a restart. Notes still go to {meeting.title}.</span>
+          <button
+            type="button"
+            className="note-capture__meeting-resumed-dismiss"
+            onClick={() => setMeetingState({ ...meeting, resumedAt: undefined })}
+            aria-label="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
       {/* Meeting title prompt modal */}
       {showMeetingPrompt && (
         <div className="note-capture__meeting-prompt">
@@ -347,6 +419,25 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
               placeholder="e.g., Q3 Planning with Sarah"
               disabled={isStartingMeeting}
             />
+            <label htmlFor="meeting-attendees">Attendees</label>
+            <input
+              id="meeting-attendees"
+              type="text"
+              value={meetingAttendees}
+              onChange={(e) => setMeetingAttendees(e.target.value)}
+              onKeyDown={handleMeetingTitleKeyDown}
+              placeholder="e.g., Sarah, Dev"
+              disabled={isStartingMeeting}
+            />
+            <label htmlFor="meeting-agenda">Agenda</label>
+            <textarea
+              id="meeting-agenda"
+              value={meetingAgenda}
+              onChange={(e) => setMeetingAgenda(e.target.value)}
+              placeholder="One topic per line"
+              disabled={isStartingMeeting}
+              rows={3}
+            />
             <div className="note-capture__meeting-prompt-buttons">
               <button
                 type="button"
@@ -386,6 +477,22 @@ export function NoteCapture({ onCaptured }: NoteCaptureProps): React.ReactNode {
               Start Meeting
             </button>
           )}
+          {!meeting.isActive && captureTargets.length > 0 && (
+            <select
+              className="note-capture__target"
+              value={activeTarget?.name ?? ""}
+              onChange={(e) => setTargetName(e.target.value)}
+              disabled={isDisabled}
+              aria-label="Capture to"
+            >
+              <option value="">Daily note</option>
+              {captureTargets.map((target) => (
+                <option key={target.name} value={target.name}>
+                  {target.name}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
         <textarea
           ref={textareaRef}
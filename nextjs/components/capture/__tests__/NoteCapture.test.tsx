@@ -236,6 +236,15 @@ describe("NoteCapture", () => {
       expect(buttonTexts.filter((t) => t === "Start Meeting").length).toBe(2); // One in prompt
     });
 
+    it("asks for optional attendees and agenda", () => {
+      render(<NoteCapture />, { wrapper: WrapperWithVault });
+
+      fireEvent.click(screen.getByText("Start Meeting"));
+
+      expect(screen.getByLabelText("Attendees")).toBeTruthy();
+      expect(screen.getByLabelText("Agenda")).toBeTruthy();
+    });
+
     it("closes meeting prompt when Cancel is clicked", () => {
       render(<NoteCapture />, { wrapper: WrapperWithVault });
 
@@ -368,6 +377,56 @@ describe("NoteCapture", () => {
     });
   });
 
+  describe("capture targets", () => {
+    const vaultWithTargets: VaultInfo = {
+      ...testVault,
+      captureTargets: [
+        { name: "Reading list", path: "Lists/reading.md" },
+        { name: "Ideas", path: "ideas.md", heading: "Ideas" },
+      ],
+    };
+
+    function WrapperWithTargets({ children }: { children: ReactNode }) {
+      return (
+        <SessionProvider initialVaults={[vaultWithTargets]}>
+          <TargetVaultSelector>{children}</TargetVaultSelector>
+        </SessionProvider>
+      );
+    }
+
+    function TargetVaultSelector({ children }: { children: ReactNode }) {
+      const { selectVault } = useSession();
+      React.useEffect(() => {
+        selectVault(vaultWithTargets);
+      }, [selectVault]);
+      return <>{children}</>;
+    }
+
+    it("hides the target dropdown when the vault has no targets", () => {
+      render(<NoteCapture />, { wrapper: WrapperWithVault });
+
+      expect(screen.queryByRole("combobox", { name: "Capture to" })).toBeNull();
+    });
+
+    it("lists the daily note and the vault's targets", async () => {
+      render(<NoteCapture />, { wrapper: WrapperWithTargets });
+
+      const select = await screen.findByRole("combobox", { name: "Capture to" });
+      const options = Array.from((select as HTMLSelectElement).options).map((o) => o.textContent);
+      expect(options).toEqual(["Daily note", "Reading list", "Ideas"]);
+    });
+
+    it("shows the chosen target in the placeholder", async () => {
+      render(<NoteCapture />, { wrapper: WrapperWithTargets });
+
+      const select = await screen.findByRole("combobox", { name: "Capture to" });
+      fireEvent.change(select, { target: { value: "Ideas" } });
+
+      const textarea = screen.getByRole("textbox", { name: /note content/i });
+      expect(textarea.getAttribute("placeholder")).toBe("What's on your mind? Goes to Ideas.");
+    });
+  });
+
   describe("meeting active state UI", () => {
     // Helper wrapper that sets meeting state
     function WrapperWithMeeting({ children }: { children: ReactNode }) {
@@ -434,6 +493,62 @@ describe("NoteCapture", () => {
         expect(textarea.getAttribute("placeholder")).toContain("Sprint Planning");
       });
     });
+
+    it("does not show the resumed notice for a meeting started this session", async () => {
+      render(<NoteCapture />, { wrapper: WrapperWithMeeting });
+
+      await waitFor(() => {
+        expect(screen.getByText("Sprint Planning")).toBeTruthy();
+      });
+      expect(screen.queryByText(/Meeting resumed after a restart/)).toBeNull();
+    });
+  });
+
+  describe("resumed meeting notice", () => {
+    function WrapperWithResumedMeeting({ children }: { children: ReactNode }) {
+      return (
+        <SessionProvider initialVaults={[testVault]}>
+          <VaultSelectorWithResumedMeeting>{children}</VaultSelectorWithResumedMeeting>
+        </SessionProvider>
+      );
+    }
+
+    function VaultSelectorWithResumedMeeting({ children }: { children: ReactNode }) {
+      const { selectVault, setMeetingState } = useSession();
+
+      React.useEffect(() => {
+        selectVault(testVault);
+        setMeetingState({
+          isActive: true,
+          title: "Sprint Planning",
+          filePath: "meetings/sprint-planning.md",
+          startedAt: new Date().toISOString(),
+          resumedAt: new Date().toISOString(),
+        });
+      }, [selectVault, setMeetingState]);
+
+      return <>{children}</>;
+    }
+
+    it("tells the user the meeting carried over a restart", async () => {
+      render(<NoteCapture />, { wrapper: WrapperWithResumedMeeting });
+
+      await waitFor(() => {
+        expect(screen.getByText(/Meeting resumed after a restart/)).toBeTruthy();
+      });
+    });
+
+    it("hides the notice when dismissed", async () => {
+      render(<NoteCapture />, { wrapper: WrapperWithResumedMeeting });
+
+      await waitFor(() => {
+        expect(screen.getByText(/Meeting resumed after a restart/)).toBeTruthy();
+      });
+      fireEvent.click(screen.getByRole("button", { name: "Dismiss" }));
+
+      expect(screen.queryByText(/Meeting resumed after a restart/)).toBeNull();
+      expect(screen.getByText("Stop Meeting")).toBeTruthy();
+    });
   });
 
   // Note: REST API submission tests removed because the API client
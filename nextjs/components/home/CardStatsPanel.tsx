@@ -0,0 +1,179 @@
+/**
+ * CardStatsPanel Component
+ *
+ * Review stats shown inside the Spaced Repetition widget:
+ * - Headline numbers (due today, recent reviews and retention, answer time, streak)
+ * - Reviews per day over the last 30 days
+ * - True retention by the interval each review tested
+ * - Cards coming due over the next 30 days
+ * - A year-long calendar heatmap of reviews
+ *
+ * True retention is the share of repeat reviews not answered "Again".
+ */
+
+import React from "react";
+import type { CardStatsResponse } from "@memory-loop/shared";
+import "./CardStatsPanel.css";
+
+type DailyReviews = CardStatsResponse["daily"][number];
+type ForecastDay = CardStatsResponse["forecast"][number];
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+function formatSeconds(ms: number | null): string {
+  return ms === null ? "–" : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+/** Day of week (0 = Sunday) of a YYYY-MM-DD date, in local time */
+function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).getDay();
+}
+
+/** Short label for a YYYY-MM-DD date, e.g. "1/23" */
+function shortDate(date: string): string {
+  const [, month, day] = date.split("-").map(Number);
+  return `${month}/${day}`;
+}
+
+/**
+ * Props for CardStatsPanel component.
+ */
+export interface CardStatsPanelProps {
+  stats: CardStatsResponse;
+}
+
+/**
+ * CardStatsPanel renders review stats from GET /cards/stats.
+ */
+export function CardStatsPanel({ stats }: CardStatsPanelProps): React.ReactNode {
+  const { summary } = stats;
+  const maxDaily = Math.max(1, ...stats.daily.map((day) => day.reviews));
+  const maxDue = Math.max(1, ...stats.forecast.map((day) => day.due));
+  const heatmapOffset = stats.heatmap.length > 0 ? weekdayOf(stats.heatmap[0].date) : 0;
+
+  return (
+    <div className="card-stats" role="group" aria-label="Spaced repetition stats">
+      <dl className="card-stats__summary">
+        <div className="card-stats__summary-item">
+          <dt>Due today</dt>
+          <dd>{summary.dueToday}</dd>
+        </div>
+        <div className="card-stats__summary-item">
+          <dt>Reviews (30d)</dt>
+          <dd>{summary.recentReviews}</dd>
+        </div>
+        <div className="card-stats__summary-item">
+          <dt>Retention (30d)</dt>
+          <dd>{formatRate(summary.recentRetention)}</dd>
+        </div>
+        <div className="card-stats__summary-item">
+          <dt>Time to answer</dt>
+          <dd>{formatSeconds(summary.medianTimeToAnswerMs)}</dd>
+        </div>
+        <div className="card-stats__summary-item">
+          <dt>Streak</dt>
+          <dd>{plural(summary.currentStreak, "day")}</dd>
+        </div>
+      </dl>
+
+      <ColumnChart
+        title="Reviews, last 30 days"
+        days={stats.daily}
+        value={(day: DailyReviews) => day.reviews}
+        max={maxDaily}
+        describe={(day: DailyReviews) => `${day.date}: ${plural(day.reviews, "review")}, ${day.again} again`}
+      />
+
+      <div className="card-stats__group">
+        <span className="card-stats__group-title">Retention by interval</span>
+        {stats.retention.map((bucket) => (
+          <div
+            key={bucket.label}
+            className="card-stats__bar"
+            role="img"
+            aria-label={
+              bucket.retention === null
+                ? `${bucket.label}: no reviews`
+                : `${bucket.label}: ${formatRate(bucket.retention)} recalled over ${plural(bucket.reviews, "review")}`
+            }
+          >
+            <span className="card-stats__bar-label">{bucket.label}</span>
+            <div className="card-stats__bar-track">
+              <div className="card-stats__bar-fill" style={{ width: `${(bucket.retention ?? 0) * 100}%` }} />
+            </div>
+            <span className="card-stats__bar-value">{formatRate(bucket.retention)}</span>
+          </div>
+        ))}
+      </div>
+
+      <ColumnChart
+        title="Due, next 30 days"
+        days={stats.forecast}
+        value={(day: ForecastDay) => day.due}
+        max={maxDue}
+        describe={(day: ForecastDay) => `${day.date}: ${plural(day.due, "card")} due`}
+      />
+
+      <div className="card-stats__group">
+        <span className="card-stats__group-title">Past year</span>
+        <div className="card-stats__heatmap-scroll">
+          <div className="card-stats__heatmap" role="list" aria-label="Reviews per day, past year">
+            {Array.from({ length: heatmapOffset }, (_, i) => (
+              <span key={`pad-${i}`} className="card-stats__cell card-stats__cell--pad" aria-hidden="true" />
+            ))}
+            {stats.heatmap.map((day) => (
+              <span
+                key={day.date}
+                role="listitem"
+                className={`card-stats__cell card-stats__cell--level-${day.level}`}
+                title={`${day.date}: ${plural(day.reviews, "review")}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface ColumnChartProps<T extends { date: string }> {
+  title: string;
+  days: T[];
+  value: (day: T) => number;
+  max: number;
+  describe: (day: T) => string;
+}
+
+function ColumnChart<T extends { date: string }>({
+  title,
+  days,
+  value,
+  max,
+  describe,
+}: ColumnChartProps<T>): React.ReactNode {
+  return (
+    <div className="card-stats__group">
+      <span className="card-stats__group-title">{title}</span>
+      <div className="card-stats__columns">
+        {days.map((day) => (
+          <div key={day.date} className="card-stats__column" role="img" aria-label={describe(day)}>
+            <div className="card-stats__column-fill" style={{ height: `${(value(day) / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      {days.length > 0 && (
+        <div className="card-stats__axis" aria-hidden="true">
+          <span>{shortDate(days[0].date)}</span>
+          <span>{shortDate(days[days.length - 1].date)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
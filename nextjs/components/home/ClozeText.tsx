@@ -0,0 +1,78 @@
+/**
+ * ClozeText Component
+ *
+ * Renders the text of a cloze card as markdown. Before the reveal, the tested
+ * deletion shows as a blank (with its hint if it has one); after, it is
+ * highlighted. Other deletions on the card always show their text.
+ */
+
+import React from "react";
+import Markdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { renderClozeAnswer, splitCloze } from "@memory-loop/shared";
+import "./ClozeText.css";
+
+/**
+ * Props for ClozeText component.
+ */
+export interface ClozeTextProps {
+  /** Card text with cloze deletions */
+  text: string;
+  /** Deletion number this card tests */
+  clozeIndex: number;
+  /** Whether the answer is shown */
+  revealed: boolean;
+}
+
+/**
+ * Question side as markdown: like renderClozeQuestion, but with the blanks
+ * in bold so they can be picked out when rendering.
+ */
+function renderBlankedQuestion(text: string, clozeIndex: number): string {
+  return splitCloze(text, clozeIndex)
+    .map((segment) => {
+      if (segment.type === "text") return segment.text;
+      if (!segment.active) return segment.answer;
+      return `**\\[${segment.hint ?? "..."}\\]**`;
+    })
+    .join("");
+}
+
+export function ClozeText({ text, clozeIndex, revealed }: ClozeTextProps): React.ReactNode {
+  // Tested deletions are the bold runs holding a blank or an answer; other
+  // bold text in the passage stays bold
+  const deletions = splitCloze(text, clozeIndex).flatMap((segment) =>
+    segment.type === "cloze" && segment.active ? [segment] : []
+  );
+
+  const components: Components = {
+    strong: ({ children }) => {
+      if (revealed) {
+        if (deletions.some((d) => d.answer === children)) {
+          return <mark className="cloze-text__answer">{children}</mark>;
+        }
+      } else {
+        const deletion = deletions.find((d) => `[${d.hint ?? "..."}]` === children);
+        if (deletion) {
+          return (
+            <span
+              className="cloze-text__blank"
+              aria-label={deletion.hint ? `Blank, hint: ${deletion.hint}` : "Blank"}
+            >
+              {children}
+            </span>
+          );
+        }
+      }
+      return <strong>{children}</strong>;
+    },
+  };
+
+  return (
+    <div className="cloze-text">
+      <Markdown remarkPlugins={[remarkGfm]} components={components}>
+        {revealed ? renderClozeAnswer(text, clozeIndex) : renderBlankedQuestion(text, clozeIndex)}
+      </Markdown>
+    </div>
+  );
+}
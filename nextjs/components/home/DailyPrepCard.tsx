@@ -0,0 +1,521 @@
+/**
+ * DailyPrepCard Component
+ *
+ * Guided daily prep on Ground, without a discussion session:
+ * - Morning: energy, then calendar, then 1-3 commitments
+ * - During the day: today's commitments, editable
+ * - Evening: assess each commitment, add notes, write a reflection
+ *
+ * Writes the same daily prep file as the /daily-prep skill.
+ */
+
+import React, { useState, useCallback } from "react";
+import type { CalendarDensity, CommitmentAssessment, EnergyLevel } from "@memory-loop/shared";
+import { useDailyPrep } from "../../hooks/useDailyPrep";
+import type { DailyPrepCommitment, DailyPrepStatusResponse } from "../../hooks/useHome";
+import type { FetchFn } from "@/lib/api/types";
+import "./DailyPrepCard.css";
+
+const ENERGY_OPTIONS: Array<{ value: EnergyLevel; label: string; hint: string }> = [
+  { value: "sharp", label: "Sharp", hint: "Ready for deep work" },
+  { value: "steady", label: "Steady", hint: "Can handle a mix" },
+  { value: "low", label: "Low", hint: "Easy wins today" },
+];
+
+const CALENDAR_OPTIONS: Array<{ value: CalendarDensity; label: string; hint: string }> = [
+  { value: "clear", label: "Clear", hint: "Long open blocks" },
+  { value: "scattered", label: "Scattered", hint: "Workable gaps" },
+  { value: "heavy", label: "Heavy", hint: "Back-to-back meetings" },
+];
+
+const ASSESSMENT_OPTIONS: Array<{ value: CommitmentAssessment; label: string }> = [
+  { value: "done", label: "Done" },
+  { value: "partial", label: "Partial" },
+  { value: "blocked", label: "Blocked" },
+  { value: "skipped", label: "Skipped" },
+];
+
+/** Commitment inputs offered in the morning; research warns against over-planning */
+const MORNING_COMMITMENT_SLOTS = 3;
+
+function labelFor<T extends string>(options: Array<{ value: T; label: string }>, value: T | null | undefined): string {
+  return options.find((option) => option.value === value)?.label ?? "";
+}
+
+/**
+ * Props for DailyPrepCard component.
+ */
+export interface DailyPrepCardProps {
+  /** Vault to write the prep to */
+  vaultId: string | undefined;
+  /** Today's prep status, or null if it hasn't loaded */
+  status: DailyPrepStatusResponse | null;
+  /** Called with the new status after every write */
+  onStatusChange: (status: DailyPrepStatusResponse) => void;
+  /** Custom fetch implementation for testing */
+  fetchFn?: FetchFn;
+}
+
+type View = "idle" | "morning" | "evening";
+
+/**
+ * DailyPrepCard walks through the morning prep and evening closure.
+ */
+export function DailyPrepCard({
+  vaultId,
+  status,
+  onStatusChange,
+  fetchFn,
+}: DailyPrepCardProps): React.ReactNode {
+  const { createPrep, addCommitment, updateCommitment, removeCommitment, closeDay, isLoading, error } =
+    useDailyPrep(vaultId, { fetch: fetchFn });
+  const [view, setView] = useState<View>("idle");
+
+  const apply = useCallback(
+    async (write: Promise<DailyPrepStatusResponse | null>): Promise<boolean> => {
+      const next = await write;
+      if (next) {
+        onStatusChange(next);
+      }
+      return next !== null;
+    },
+    [onStatusChange]
+  );
+
+  if (!vaultId || !status) {
+    return null;
+  }
+
+  const items = status.commitmentItems ?? [];
+  let content: React.ReactNode;
+
+  if (!status.exists) {
+    content =
+      view === "morning" ? (
+        <MorningFlow
+          isSaving={isLoading}
+          onCancel={() => setView("idle")}
+          onSubmit={(morning) => {
+            void apply(createPrep(morning)).then((saved) => saved && setView("idle"));
+          }}
+        />
+      ) : (
+        <div className="daily-prep-card__start">
+          <p className="daily-prep-card__prompt">What are you committing to today?</p>
+          <button type="button" className="daily-prep-card__primary" onClick={() => setView("morning")}>
+            Plan the day
+          </button>
+        </div>
+      );
+  } else if (view === "evening") {
+    content = (
+      <EveningFlow
+        items={items}
+        reflection={status.closure?.reflection ?? ""}
+        isSaving={isLoading}
+        onCancel={() => setView("idle")}
+        onSubmit={(closure) => {
+          void apply(closeDay(closure)).then((saved) => saved && setView("idle"));
+        }}
+      />
+    );
+  } else if (status.closure) {
+    content = (
+      <ClosureSummary
+        items={items}
+        reflection={status.closure.reflection}
+        onEdit={() => setView("evening")}
+      />
+    );
+  } else {
+    content = (
+      <CommitmentList
+        items={items}
+        energy={status.energy}
+        calendar={status.calendar}
+        isSaving={isLoading}
+        onAdd={(text) => apply(addCommitment(text))}
+        onEdit={(index, text) => apply(updateCommitment(index, { text }))}
+        onRemove={(index) => void apply(removeCommitment(index))}
+        onClose={() => setView("evening")}
+      />
+    );
+  }
+
+  return (
+    <section className="daily-prep-card" aria-label="Daily prep">
+      <span className="daily-prep-card__label">Today's Commitment</span>
+      {content}
+      {error && (
+        <p className="daily-prep-card__error" role="alert">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
+
+// =============================================================================
+// Morning
+// =============================================================================
+
+interface MorningFlowProps {
+  isSaving: boolean;
+  onCancel: () => void;
+  onSubmit: (morning: { energy?: EnergyLevel; calendar?: CalendarDensity; commitments: string[] }) => void;
+}
+
+function MorningFlow({ isSaving, onCancel, onSubmit }: MorningFlowProps): React.ReactNode {
+  const [step, setStep] = useState<"energy" | "calendar" | "commitments">("energy");
+  const [energy, setEnergy] = useState<EnergyLevel>();
+  const [calendar, setCalendar] = useState<CalendarDensity>();
+  const [commitments, setCommitments] = useState<string[]>(() => Array<string>(MORNING_COMMITMENT_SLOTS).fill(""));
+
+  const filled = commitments.map((text) => text.trim()).filter(Boolean);
+
+  if (step === "energy") {
+    return (
+      <OptionStep
+        question="How's your energy?"
+        options={ENERGY_OPTIONS}
+        selected={energy}
+        onSelect={(value) => {
+          setEnergy(value);
+          setStep("calendar");
+        }}
+        onBack={onCancel}
+        backLabel="Cancel"
+      />
+    );
+  }
+
+  if (step === "calendar") {
+    return (
+      <OptionStep
+        question="How full is your calendar?"
+        options={CALENDAR_OPTIONS}
+        selected={calendar}
+        onSelect={(value) => {
+          setCalendar(value);
+          setStep("commitments");
+        }}
+        onBack={() => setStep("energy")}
+        backLabel="Back"
+      />
+    );
+  }
+
+  return (
+    <form
+      className="daily-prep-card__step"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (filled.length > 0) {
+          onSubmit({ energy, calendar, commitments: filled });
+        }
+      }}
+    >
+      <p className="daily-prep-card__prompt">What will you get done today?</p>
+      <p className="daily-prep-card__context">
+        {labelFor(ENERGY_OPTIONS, energy)} energy, {labelFor(CALENDAR_OPTIONS, calendar).toLowerCase()} calendar
+      </p>
+      {commitments.map((text, index) => (
+        <input
+          key={index}
+          type="text"
+          className="daily-prep-card__input"
+          aria-label={`Commitment ${index + 1}`}
+          placeholder={index === 0 ? "The one thing that matters most" : "Optional"}
+          value={text}
+          onChange={(event) =>
+            setCommitments((current) => current.map((other, i) => (i === index ? event.target.value : other)))
+          }
+        />
+      ))}
+      <div className="daily-prep-card__actions">
+        <button type="button" className="daily-prep-card__secondary" onClick={() => setStep("calendar")}>
+          Back
+        </button>
+        <button type="submit" className="daily-prep-card__primary" disabled={isSaving || filled.length === 0}>
+          Commit
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface OptionStepProps<T extends string> {
+  question: string;
+  options: Array<{ value: T; label: string; hint: string }>;
+  selected: T | undefined;
+  onSelect: (value: T) => void;
+  onBack: () => void;
+  backLabel: string;
+}
+
+function OptionStep<T extends string>({
+  question,
+  options,
+  selected,
+  onSelect,
+  onBack,
+  backLabel,
+}: OptionStepProps<T>): React.ReactNode {
+  return (
+    <div className="daily-prep-card__step" role="group" aria-label={question}>
+      <p className="daily-prep-card__prompt">{question}</p>
+      <div className="daily-prep-card__options">
+        {options.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={`daily-prep-card__option${selected === option.value ? " daily-prep-card__option--selected" : ""}`}
+            aria-pressed={selected === option.value}
+            onClick={() => onSelect(option.value)}
+          >
+            <span className="daily-prep-card__option-label">{option.label}</span>
+            <span className="daily-prep-card__option-hint">{option.hint}</span>
+          </button>
+        ))}
+      </div>
+      <div className="daily-prep-card__actions">
+        <button type="button" className="daily-prep-card__secondary" onClick={onBack}>
+          {backLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// During the day
+// =============================================================================
+
+interface CommitmentListProps {
+  items: DailyPrepCommitment[];
+  energy?: EnergyLevel;
+  calendar?: CalendarDensity;
+  isSaving: boolean;
+  onAdd: (text: string) => Promise<boolean>;
+  onEdit: (index: number, text: string) => Promise<boolean>;
+  onRemove: (index: number) => void;
+  onClose: () => void;
+}
+
+function CommitmentList({
+  items,
+  energy,
+  calendar,
+  isSaving,
+  onAdd,
+  onEdit,
+  onRemove,
+  onClose,
+}: CommitmentListProps): React.ReactNode {
+  const [draft, setDraft] = useState("");
+  const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
+
+  return (
+    <div className="daily-prep-card__step">
+      {(energy || calendar) && (
+        <p className="daily-prep-card__context">
+          {[energy && `${labelFor(ENERGY_OPTIONS, energy)} energy`, calendar && `${labelFor(CALENDAR_OPTIONS, calendar).toLowerCase()} calendar`]
+            .filter(Boolean)
+            .join(", ")}
+        </p>
+      )}
+      <ol className="daily-prep-card__list">
+        {items.map((item, index) =>
+          editing?.index === index ? (
+            <li key={index} className="daily-prep-card__item">
+              <form
+                className="daily-prep-card__inline-form"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  if (!editing.text.trim()) return;
+                  void onEdit(index, editing.text.trim()).then((saved) => saved && setEditing(null));
+                }}
+              >
+                <input
+                  type="text"
+                  className="daily-prep-card__input"
+                  aria-label={`Edit commitment ${index + 1}`}
+                  value={editing.text}
+                  onChange={(event) => setEditing({ index, text: event.target.value })}
+                  autoFocus
+                />
+                <button type="submit" className="daily-prep-card__secondary" disabled={isSaving}>
+                  Save
+                </button>
+                <button type="button" className="daily-prep-card__secondary" onClick={() => setEditing(null)}>
+                  Cancel
+                </button>
+              </form>
+            </li>
+          ) : (
+            <li key={index} className="daily-prep-card__item">
+              <span className="daily-prep-card__item-text">{item.text}</span>
+              <button
+                type="button"
+                className="daily-prep-card__icon-button"
+                aria-label={`Edit "${item.text}"`}
+                onClick={() => setEditing({ index, text: item.text })}
+              >
+                ✎
+              </button>
+              <button
+                type="button"
+                className="daily-prep-card__icon-button"
+                aria-label={`Remove "${item.text}"`}
+                disabled={isSaving}
+                onClick={() => onRemove(index)}
+              >
+                ×
+              </button>
+            </li>
+          )
+        )}
+      </ol>
+      <form
+        className="daily-prep-card__inline-form"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!draft.trim()) return;
+          void onAdd(draft.trim()).then((saved) => saved && setDraft(""));
+        }}
+      >
+        <input
+          type="text"
+          className="daily-prep-card__input"
+          aria-label="New commitment"
+          placeholder="Add a commitment"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+        />
+        <button type="submit" className="daily-prep-card__secondary" disabled={isSaving || !draft.trim()}>
+          Add
+        </button>
+      </form>
+      <div className="daily-prep-card__actions">
+        <button type="button" className="daily-prep-card__primary" onClick={onClose}>
+          Close the day
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Evening
+// =============================================================================
+
+interface EveningFlowProps {
+  items: DailyPrepCommitment[];
+  reflection: string;
+  isSaving: boolean;
+  onCancel: () => void;
+  onSubmit: (closure: {
+    reflection: string;
+    assessments: Array<{ assessment: CommitmentAssessment | null; note?: string }>;
+  }) => void;
+}
+
+function EveningFlow({ items, reflection: initialReflection, isSaving, onCancel, onSubmit }: EveningFlowProps): React.ReactNode {
+  const [assessments, setAssessments] = useState(() =>
+    items.map((item) => ({ assessment: item.assessment, note: item.note ?? "" }))
+  );
+  const [reflection, setReflection] = useState(initialReflection);
+
+  const update = (index: number, change: Partial<(typeof assessments)[number]>) =>
+    setAssessments((current) => current.map((entry, i) => (i === index ? { ...entry, ...change } : entry)));
+
+  return (
+    <form
+      className="daily-prep-card__step"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit({ reflection: reflection.trim(), assessments });
+      }}
+    >
+      <p className="daily-prep-card__prompt">How did it go?</p>
+      {items.map((item, index) => (
+        <div key={index} className="daily-prep-card__assessment" role="group" aria-label={item.text}>
+          <span className="daily-prep-card__item-text">{item.text}</span>
+          <div className="daily-prep-card__options daily-prep-card__options--compact">
+            {ASSESSMENT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                className={`daily-prep-card__option daily-prep-card__option--${option.value}${
+                  assessments[index].assessment === option.value ? " daily-prep-card__option--selected" : ""
+                }`}
+                aria-pressed={assessments[index].assessment === option.value}
+                onClick={() => update(index, { assessment: option.value })}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            className="daily-prep-card__input"
+            aria-label={`Note for "${item.text}"`}
+            placeholder="Note (optional)"
+            value={assessments[index].note}
+            onChange={(event) => update(index, { note: event.target.value })}
+          />
+        </div>
+      ))}
+      <textarea
+        className="daily-prep-card__input daily-prep-card__reflection"
+        aria-label="Reflection"
+        placeholder="What happened today? What would you change?"
+        rows={3}
+        value={reflection}
+        onChange={(event) => setReflection(event.target.value)}
+      />
+      <div className="daily-prep-card__actions">
+        <button type="button" className="daily-prep-card__secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="daily-prep-card__primary" disabled={isSaving}>
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface ClosureSummaryProps {
+  items: DailyPrepCommitment[];
+  reflection: string;
+  onEdit: () => void;
+}
+
+function ClosureSummary({ items, reflection, onEdit }: ClosureSummaryProps): React.ReactNode {
+  return (
+    <div className="daily-prep-card__step">
+      <ul className="daily-prep-card__list daily-prep-card__list--assessed">
+        {items.map((item, index) => (
+          <li key={index} className="daily-prep-card__item">
+            {item.assessment && (
+              <span className={`daily-prep-card__badge daily-prep-card__badge--${item.assessment}`}>
+                {labelFor(ASSESSMENT_OPTIONS, item.assessment)}
+              </span>
+            )}
+            <span className="daily-prep-card__item-text">
+              {item.text}
+              {item.note && <span className="daily-prep-card__note"> ({item.note})</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {reflection && <p className="daily-prep-card__reflection-text">{reflection}</p>}
+      <div className="daily-prep-card__actions">
+        <button type="button" className="daily-prep-card__secondary" onClick={onEdit}>
+          Edit closure
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * DailyPrepTrendsCard Component
+ *
+ * Charts the daily prep frontmatter series on Ground:
+ * - Completion rate by energy level and by calendar density
+ * - Completion rate by weekday
+ * - One mark per prep day, shaded by how much got done
+ * - Current and longest runs of days with blocked or skipped commitments
+ *
+ * Completion rate is done / assessed commitments. Hidden until at least one
+ * prep day has been found.
+ */
+
+import React, { useEffect, useState } from "react";
+import { formatDateForFilename, type CalendarDensity, type EnergyLevel } from "@memory-loop/shared";
+import {
+  useDailyPrep,
+  type DailyPrepCompletionStats,
+  type DailyPrepHistoryDay,
+  type DailyPrepHistoryResponse,
+  type DailyPrepStreak,
+} from "../../hooks/useDailyPrep";
+import type { FetchFn } from "@/lib/api/types";
+import "./DailyPrepTrendsCard.css";
+
+const RANGE_OPTIONS = [
+  { days: 30, label: "30d" },
+  { days: 90, label: "90d" },
+  { days: 365, label: "1y" },
+];
+
+const DEFAULT_RANGE_DAYS = 90;
+
+const ENERGY_ROWS: Array<{ value: EnergyLevel; label: string }> = [
+  { value: "sharp", label: "Sharp" },
+  { value: "steady", label: "Steady" },
+  { value: "low", label: "Low" },
+];
+
+const CALENDAR_ROWS: Array<{ value: CalendarDensity; label: string }> = [
+  { value: "clear", label: "Clear" },
+  { value: "scattered", label: "Scattered" },
+  { value: "heavy", label: "Heavy" },
+];
+
+/** Monday first; values index byWeekday (0 = Sunday) */
+const WEEKDAYS = [
+  { index: 1, label: "Mon" },
+  { index: 2, label: "Tue" },
+  { index: 3, label: "Wed" },
+  { index: 4, label: "Thu" },
+  { index: 5, label: "Fri" },
+  { index: 6, label: "Sat" },
+  { index: 0, label: "Sun" },
+];
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+function describeStats(label: string, stats: DailyPrepCompletionStats): string {
+  const days = `${stats.days} ${stats.days === 1 ? "day" : "days"}`;
+  return stats.completionRate === null
+    ? `${label}: no assessed commitments over ${days}`
+    : `${label}: ${formatRate(stats.completionRate)} done over ${days}`;
+}
+
+function dayLevel(day: DailyPrepHistoryDay): "open" | "high" | "mid" | "low" {
+  const assessed = day.commitments - day.unassessed;
+  if (assessed === 0) return "open";
+  const rate = day.done / assessed;
+  if (rate >= 0.75) return "high";
+  if (rate >= 0.4) return "mid";
+  return "low";
+}
+
+function describeStreak(streak: DailyPrepStreak): string {
+  if (streak.length === 0) return "none";
+  const days = `${streak.length} ${streak.length === 1 ? "day" : "days"}`;
+  return streak.start === streak.end ? `${days} (${streak.start})` : `${days} (${streak.start} – ${streak.end})`;
+}
+
+/**
+ * Props for DailyPrepTrendsCard component.
+ */
+export interface DailyPrepTrendsCardProps {
+  /** Vault to read the prep history from */
+  vaultId: string | undefined;
+  /** Changing this reloads the history (e.g. after closing the day) */
+  refreshKey?: string;
+  /** Custom fetch implementation for testing */
+  fetchFn?: FetchFn;
+}
+
+/**
+ * DailyPrepTrendsCard charts completion patterns across daily preps.
+ */
+export function DailyPrepTrendsCard({
+  vaultId,
+  refreshKey,
+  fetchFn,
+}: DailyPrepTrendsCardProps): React.ReactNode {
+  const { getHistory } = useDailyPrep(vaultId, { fetch: fetchFn });
+  const [rangeDays, setRangeDays] = useState(DEFAULT_RANGE_DAYS);
+  const [history, setHistory] = useState<DailyPrepHistoryResponse | null>(null);
+  const [hasPreps, setHasPreps] = useState(false);
+
+  useEffect(() => {
+    if (!vaultId) return;
+
+    let cancelled = false;
+    const to = new Date();
+    const from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - (rangeDays - 1));
+    void getHistory(formatDateForFilename(from), formatDateForFilename(to)).then((result) => {
+      if (cancelled || !result) return;
+      setHistory(result);
+      if (result.overall.days > 0) {
+        setHasPreps(true);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vaultId, rangeDays, refreshKey, getHistory]);
+
+  if (!vaultId || !history || !hasPreps) {
+    return null;
+  }
+
+  return (
+    <section className="daily-prep-trends" aria-label="Daily prep trends">
+      <header className="daily-prep-trends__header">
+        <span className="daily-prep-trends__label">Prep Trends</span>
+        <div className="daily-prep-trends__ranges" role="group" aria-label="Range">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option.days}
+              type="button"
+              className={`daily-prep-trends__range${option.days === rangeDays ? " daily-prep-trends__range--selected" : ""}`}
+              aria-pressed={option.days === rangeDays}
+              onClick={() => setRangeDays(option.days)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      {history.overall.days === 0 ? (
+        <p className="daily-prep-trends__empty">No daily preps in this range.</p>
+      ) : (
+        <>
+          <p className="daily-prep-trends__summary">
+            {formatRate(history.overall.completionRate)} of commitments done over {history.overall.days}{" "}
+            {history.overall.days === 1 ? "day" : "days"}
+          </p>
+
+          <div className="daily-prep-trends__strip" role="list" aria-label="Prep days">
+            {history.days.map((day) => (
+              <span
+                key={day.date}
+                role="listitem"
+                className={`daily-prep-trends__mark daily-prep-trends__mark--${dayLevel(day)}`}
+                title={`${day.date}: ${day.done}/${day.commitments} done`}
+              />
+            ))}
+          </div>
+
+          <div className="daily-prep-trends__groups">
+            <BarGroup
+              title="By energy"
+              rows={ENERGY_ROWS.map((row) => ({ label: row.label, stats: history.byEnergy[row.value] }))}
+            />
+            <BarGroup
+              title="By calendar"
+              rows={CALENDAR_ROWS.map((row) => ({ label: row.label, stats: history.byCalendar[row.value] }))}
+            />
+          </div>
+
+          <div className="daily-prep-trends__group">
+            <span className="daily-prep-trends__group-title">By weekday</span>
+            <div className="daily-prep-trends__columns">
+              {WEEKDAYS.map((weekday) => {
+                const stats = history.byWeekday[weekday.index];
+                return (
+                  <div
+                    key={weekday.index}
+                    className="daily-prep-trends__column"
+                    role="img"
+                    aria-label={describeStats(weekday.label, stats)}
+                  >
+                    <div className="daily-prep-trends__column-track">
+                      <div
+                        className="daily-prep-trends__column-fill"
+                        style={{ height: `${(stats.completionRate ?? 0) * 100}%` }}
+                      />
+                    </div>
+                    <span className="daily-prep-trends__column-label">{weekday.label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <dl className="daily-prep-trends__streaks">
+            <dt>Blocked streak</dt>
+            <dd>
+              current {describeStreak(history.streaks.blocked.current)}, longest{" "}
+              {describeStreak(history.streaks.blocked.longest)}
+            </dd>
+            <dt>Skipped streak</dt>
+            <dd>
+              current {describeStreak(history.streaks.skipped.current)}, longest{" "}
+              {describeStreak(history.streaks.skipped.longest)}
+            </dd>
+          </dl>
+        </>
+      )}
+    </section>
+  );
+}
+
+interface BarGroupProps {
+  title: string;
+  rows: Array<{ label: string; stats: DailyPrepCompletionStats }>;
+}
+
+function BarGroup({ title, rows }: BarGroupProps): React.ReactNode {
+  return (
+    <div className="daily-prep-trends__group">
+      <span className="daily-prep-trends__group-title">{title}</span>
+      {rows.map(({ label, stats }) => (
+        <div key={label} className="daily-prep-trends__bar" role="img" aria-label={describeStats(label, stats)}>
+          <span className="daily-prep-trends__bar-label">{label}</span>
+          <div className="daily-prep-trends__bar-track">
+            <div
+              className="daily-prep-trends__bar-fill"
+              style={{ width: `${(stats.completionRate ?? 0) * 100}%` }}
+            />
+          </div>
+          <span className="daily-prep-trends__bar-value">{formatRate(stats.completionRate)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,7 +6,9 @@
  *
  * Ground tab restructure:
  * - VaultInfoCard: Vault name and subtitle (left/top)
- * - SessionActionsCard: Action buttons + commitment (right/bottom)
+ * - SessionActionsCard: Action buttons (right/bottom)
+ * - DailyPrepCard: Morning commitments and evening closure
+ * - DailyPrepTrendsCard: Completion patterns across past preps
  */
 
 // REST API calls in useEffect use fire-and-forget patterns with explicit catch handlers
@@ -18,6 +20,8 @@ import { useHome, type DailyPrepStatusResponse } from "../../hooks/useHome";
 import { useSessions } from "../../hooks/useSessions";
 import { VaultInfoCard } from "./VaultInfoCard";
 import { SessionActionsCard } from "./SessionActionsCard";
+import { DailyPrepCard } from "./DailyPrepCard";
+import { DailyPrepTrendsCard } from "./DailyPrepTrendsCard";
 import { RecentActivity } from "./RecentActivity";
 import { GoalsCard } from "./GoalsCard";
 import { InspirationCard } from "./InspirationCard";
@@ -79,6 +83,20 @@ export function HomeView(): React.ReactNode {
     [deleteSession, removeDiscussion]
   );
 
+  // Background refresh of recent activity (live updates, no loading state)
+  const handleRefreshActivity = useCallback(() => {
+    getRecentActivity()
+      .then((activity) => {
+        if (activity) {
+          setRecentNotes(activity.captures);
+          setRecentDiscussions(activity.discussions);
+        }
+      })
+      .catch((err) => {
+        log.warn("Failed to refresh activity", err);
+      });
+  }, [getRecentActivity, setRecentNotes, setRecentDiscussions]);
+
   // Load data via REST API when vault.id changes
   useEffect(() => {
     log.debug(`Effect triggered - vault?.id: ${vault?.id}`);
@@ -177,6 +195,19 @@ export function HomeView(): React.ReactNode {
         />
       </div>
 
+      {/* Daily Prep - hidden until status loads */}
+      <DailyPrepCard
+        vaultId={vault?.id}
+        status={dailyPrepLoading ? null : dailyPrepStatus}
+        onStatusChange={setDailyPrepStatus}
+      />
+
+      {/* Daily Prep Trends - hidden until a prep exists; reloads when today closes */}
+      <DailyPrepTrendsCard
+        vaultId={vault?.id}
+        refreshKey={dailyPrepStatus?.closure?.completed_at}
+      />
+
       {/* Inspiration - always rendered, shows skeleton when loading */}
       <InspirationCard
         contextual={inspirationContextual}
@@ -191,7 +222,11 @@ export function HomeView(): React.ReactNode {
       <GoalsCard isLoading={goalsLoading} />
 
       {/* Recent Activity */}
-      <RecentActivity isLoading={activityLoading} onDeleteSession={handleDeleteSession} />
+      <RecentActivity
+        isLoading={activityLoading}
+        onDeleteSession={handleDeleteSession}
+        onRefresh={handleRefreshActivity}
+      />
     </div>
   );
 }
@@ -11,6 +11,7 @@
 import React, { useCallback, useState } from "react";
 import { useSession } from "../../contexts/SessionContext";
 import { ConfirmDialog } from "../shared/ConfirmDialog";
+import { useVaultEvents } from "../../hooks/useVaultEvents";
 import type { RecentNoteEntry, RecentDiscussionEntry, ConversationMessage, SlashCommand } from "@memory-loop/shared";
 import { createLogger } from "@memory-loop/shared";
 import "./RecentActivity.css";
@@ -56,6 +57,8 @@ export interface RecentActivityProps {
   onViewCapture?: (date: string) => void;
   /** Callback when user confirms session deletion */
   onDeleteSession?: (sessionId: string) => void;
+  /** Callback to refetch activity when inbox notes change on disk. Enables live refresh. */
+  onRefresh?: () => void;
 }
 
 /**
@@ -72,6 +75,7 @@ export function RecentActivity({
   onResumeDiscussion,
   onViewCapture,
   onDeleteSession,
+  onRefresh,
 }: RecentActivityProps): React.ReactNode {
   const {
     vault,
@@ -86,18 +90,27 @@ export function RecentActivity({
     setPendingSessionId,
   } = useSession();
 
+  // Live refresh when daily notes change (e.g. captures from another device)
+  const dailyNoteFolder = vault?.dailyNoteFolder ?? vault?.inboxPath;
+  const dailyNotePrefix = dailyNoteFolder ? `${dailyNoteFolder}/` : "";
+  useVaultEvents(vault?.id, () => onRefresh?.(), {
+    enabled: onRefresh !== undefined,
+    filter: (event) => !event.isDirectory && event.path.startsWith(dailyNotePrefix),
+    onResync: onRefresh,
+  });
+
   // State for delete confirmation dialog
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
 
   // Handle view capture click - open the daily note file in browse mode
   const handleViewCapture = useCallback(
-    (date: string) => {
+    (date: string, notePath?: string) => {
       if (onViewCapture) {
         onViewCapture(date);
       } else {
         // Navigate to the specific daily note file
         const inboxPath = vault?.inboxPath ?? "";
-        const filePath = inboxPath ? `${inboxPath}/${date}.md` : `${date}.md`;
+        const filePath = notePath ?? (inboxPath ? `${inboxPath}/${date}.md` : `${date}.md`);
         setCurrentPath(filePath);
         setMode("browse");
       }
@@ -213,7 +226,7 @@ export function RecentActivity({
                 key={note.id}
                 note={note}
                 animationDelay={index * 50}
-                onView={() => handleViewCapture(note.date)}
+                onView={() => handleViewCapture(note.date, note.path)}
               />
             ))}
           </div>
@@ -1,8 +1,8 @@
 /**
  * SessionActionsCard Component
  *
- * Displays action buttons (Daily Prep/Debrief, Weekly, Monthly) and
- * shows today's commitment summary if daily prep exists.
+ * Displays action buttons (Daily Prep/Debrief, Weekly, Monthly) that start
+ * AI-guided sessions. Today's commitments live in DailyPrepCard.
  *
  * Part of the Ground tab restructure (split from context card).
  */
@@ -95,7 +95,7 @@ export function getSessionButtons(
 }
 
 /**
- * SessionActionsCard displays action buttons and commitment summary.
+ * SessionActionsCard displays session action buttons.
  */
 export function SessionActionsCard({
   dailyPrepStatus,
@@ -134,20 +134,6 @@ export function SessionActionsCard({
         ))}
       </div>
 
-      {/* Commitment Summary - shown when prep exists */}
-      {dailyPrepStatus?.exists && dailyPrepStatus.commitment && dailyPrepStatus.commitment.length > 0 && (
-        <div className="session-actions-card__commitment">
-          <span className="session-actions-card__commitment-label">Today's Commitment</span>
-          <ul className="session-actions-card__commitment-list">
-            {dailyPrepStatus.commitment.map((item, index) => (
-              <li key={index} className="session-actions-card__commitment-item">
-                {item}
-              </li>
-            ))}
-          </ul>
-        </div>
-      )}
-
       {/* Loading state */}
       {isLoading && (
         <div className="session-actions-card__loading" aria-label="Loading daily prep status">
@@ -9,6 +9,10 @@
  * - REQ-F-32: Fetch card detail (with answer) via GET /api/vaults/:vaultId/cards/:cardId
  * - REQ-F-33: Submit review via POST /api/vaults/:vaultId/cards/:cardId/review
  * - REQ-F-34: Archive card via POST /api/vaults/:vaultId/cards/:cardId/archive
+ *
+ * The Stats toggle swaps the review for charts from GET /cards/stats.
+ * Reviews carry the time from showing the question to revealing the answer.
+ * Cloze cards show their text with the tested deletion blanked, then filled in.
  */
 
 import React, { useEffect, useState, useCallback, useRef } from "react";
@@ -17,7 +21,9 @@ import remarkGfm from "remark-gfm";
 import { useSession } from "../../contexts/SessionContext";
 import { useCards } from "../../hooks/useCards";
 import { ConfirmDialog } from "../shared/ConfirmDialog";
-import type { DueCard, CardDetail, ReviewResponse } from "@memory-loop/shared";
+import { CardStatsPanel } from "./CardStatsPanel";
+import { ClozeText } from "./ClozeText";
+import type { DueCard, CardDetail, ReviewResponse, CardStatsResponse } from "@memory-loop/shared";
 import type { FetchFn } from "@/lib/api/types";
 import "./SpacedRepetitionWidget.css";
 
@@ -52,6 +58,8 @@ interface WidgetState {
   cardDetail: CardDetail | null;
   /** User's typed answer */
   userAnswer: string;
+  /** Milliseconds from showing the question to revealing the answer */
+  timeToAnswerMs: number | null;
   /** Queue of remaining cards to review */
   queue: DueCard[];
   /** Initial count of due cards (for header display) */
@@ -67,6 +75,7 @@ const INITIAL_STATE: WidgetState = {
   currentCard: null,
   cardDetail: null,
   userAnswer: "",
+  timeToAnswerMs: null,
   queue: [],
   initialCount: 0,
   sessionStarted: false,
@@ -106,10 +115,13 @@ export function SpacedRepetitionWidget({
 }: SpacedRepetitionWidgetProps): React.ReactNode {
   const [state, setState] = useState<WidgetState>(INITIAL_STATE);
   const [showForgetConfirm, setShowForgetConfirm] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [stats, setStats] = useState<CardStatsResponse | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const questionShownAtRef = useRef<number | null>(null);
 
   const { setMode, setCurrentPath } = useSession();
-  const { getDueCards, getCard, submitReview, archiveCard, isLoading, error } =
+  const { getDueCards, getCard, submitReview, archiveCard, getStats, isLoading, error } =
     useCards(vaultId, { fetch: fetchFn });
 
   /**
@@ -148,6 +160,7 @@ export function SpacedRepetitionWidget({
           currentCard: cards[0],
           cardDetail: null,
           userAnswer: "",
+          timeToAnswerMs: null,
           queue: cards.slice(1),
           initialCount: result.count,
           sessionStarted: true,
@@ -161,14 +174,31 @@ export function SpacedRepetitionWidget({
   }, [vaultId, getDueCards]);
 
   /**
-   * Focus input when entering question phase.
+   * Focus input and start the answer timer when entering question phase.
    */
   useEffect(() => {
-    if (state.phase === "question" && inputRef.current) {
+    if (state.phase !== "question") return;
+    questionShownAtRef.current = Date.now();
+    if (inputRef.current) {
       inputRef.current.focus();
     }
   }, [state.phase, state.currentCard?.id]);
 
+  /**
+   * Load stats each time the stats view is opened.
+   */
+  useEffect(() => {
+    if (!showStats) return;
+
+    let cancelled = false;
+    void getStats().then((result) => {
+      if (!cancelled) setStats(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showStats, getStats]);
+
   /**
    * Move to the next card or complete state.
    */
@@ -181,6 +211,7 @@ export function SpacedRepetitionWidget({
           currentCard: null,
           cardDetail: null,
           userAnswer: "",
+          timeToAnswerMs: null,
         };
       }
 
@@ -191,6 +222,7 @@ export function SpacedRepetitionWidget({
         currentCard: nextCard,
         cardDetail: null,
         userAnswer: "",
+        timeToAnswerMs: null,
         queue: remainingQueue,
       };
     });
@@ -212,6 +244,7 @@ export function SpacedRepetitionWidget({
         currentCard: nextCard,
         cardDetail: null,
         userAnswer: "",
+        timeToAnswerMs: null,
         queue: remainingQueue,
       };
     });
@@ -242,12 +275,16 @@ export function SpacedRepetitionWidget({
   const handleShowAnswer = useCallback(async () => {
     if (!state.currentCard) return;
 
+    const shownAt = questionShownAtRef.current;
+    const timeToAnswerMs = shownAt === null ? null : Date.now() - shownAt;
+
     const detail = await getCard(state.currentCard.id);
     if (detail) {
       setState((prev) => ({
         ...prev,
         phase: "revealed",
         cardDetail: detail,
+        timeToAnswerMs,
       }));
     }
   }, [state.currentCard, getCard]);
@@ -259,12 +296,16 @@ export function SpacedRepetitionWidget({
     async (response: ReviewResponse) => {
       if (!state.currentCard) return;
 
-      const result = await submitReview(state.currentCard.id, response);
+      const result = await submitReview(
+        state.currentCard.id,
+        response,
+        state.timeToAnswerMs ?? undefined
+      );
       if (result) {
         advanceToNextCard();
       }
     },
-    [state.currentCard, submitReview, advanceToNextCard]
+    [state.currentCard, state.timeToAnswerMs, submitReview, advanceToNextCard]
   );
 
   /**
@@ -292,7 +333,7 @@ export function SpacedRepetitionWidget({
    * Must be defined after handleAssessment to avoid reference error.
    */
   useEffect(() => {
-    if (state.phase !== "revealed") return;
+    if (state.phase !== "revealed" || showStats) return;
 
     function handleKeyDown(e: KeyboardEvent) {
       // Ignore if typing in an input
@@ -313,7 +354,7 @@ export function SpacedRepetitionWidget({
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [state.phase, state.currentCard?.id, handleAssessment]);
+  }, [state.phase, state.currentCard?.id, showStats, handleAssessment]);
 
   /**
    * Handle answer input change.
@@ -357,15 +398,35 @@ export function SpacedRepetitionWidget({
         {/* Header */}
         <header className="spaced-repetition-widget__header">
           <h3 className="spaced-repetition-widget__title">Spaced Repetition</h3>
-          {!showLoading && state.phase !== "idle" && (
-            <span className="spaced-repetition-widget__count">
-              {remainingCount} {remainingCount === 1 ? "card" : "cards"}
-            </span>
-          )}
+          <div className="spaced-repetition-widget__header-end">
+            {!showLoading && !showStats && state.phase !== "idle" && (
+              <span className="spaced-repetition-widget__count">
+                {remainingCount} {remainingCount === 1 ? "card" : "cards"}
+              </span>
+            )}
+            <button
+              type="button"
+              className={`spaced-repetition-widget__stats-toggle${showStats ? " spaced-repetition-widget__stats-toggle--active" : ""}`}
+              aria-pressed={showStats}
+              aria-label="Review stats"
+              onClick={() => setShowStats((prev) => !prev)}
+            >
+              Stats
+            </button>
+          </div>
         </header>
 
+        {/* Stats view - the review state is kept underneath */}
+        {showStats && stats && <CardStatsPanel stats={stats} />}
+        {showStats && !stats && isLoading && (
+          <div className="spaced-repetition-widget__loading">
+            <div className="spaced-repetition-widget__spinner" />
+            <span>Loading stats...</span>
+          </div>
+        )}
+
         {/* Loading state */}
-        {showLoading && (
+        {!showStats && showLoading && (
           <div className="spaced-repetition-widget__loading">
             <div className="spaced-repetition-widget__spinner" />
             <span>Loading cards...</span>
@@ -373,7 +434,7 @@ export function SpacedRepetitionWidget({
         )}
 
         {/* Idle state - no cards due */}
-        {state.phase === "idle" && (
+        {!showStats && state.phase === "idle" && (
           <div className="spaced-repetition-widget__idle">
             <span className="spaced-repetition-widget__idle-message">
               No cards due today
@@ -389,12 +450,20 @@ export function SpacedRepetitionWidget({
         )}
 
         {/* Question phase */}
-        {state.phase === "question" && state.currentCard && (
+        {!showStats && state.phase === "question" && state.currentCard && (
           <>
             <div className="spaced-repetition-widget__question">
-              <Markdown remarkPlugins={[remarkGfm]}>
-                {state.currentCard.question}
-              </Markdown>
+              {state.currentCard.cloze_text && state.currentCard.cloze_index ? (
+                <ClozeText
+                  text={state.currentCard.cloze_text}
+                  clozeIndex={state.currentCard.cloze_index}
+                  revealed={false}
+                />
+              ) : (
+                <Markdown remarkPlugins={[remarkGfm]}>
+                  {state.currentCard.question}
+                </Markdown>
+              )}
             </div>
 
             <input
@@ -453,12 +522,20 @@ export function SpacedRepetitionWidget({
         )}
 
         {/* Revealed phase */}
-        {state.phase === "revealed" && state.cardDetail && (
+        {!showStats && state.phase === "revealed" && state.cardDetail && (
           <>
             <div className="spaced-repetition-widget__question">
-              <Markdown remarkPlugins={[remarkGfm]}>
-                {state.cardDetail.question}
-              </Markdown>
+              {state.cardDetail.cloze_text && state.cardDetail.cloze_index ? (
+                <ClozeText
+                  text={state.cardDetail.cloze_text}
+                  clozeIndex={state.cardDetail.cloze_index}
+                  revealed
+                />
+              ) : (
+                <Markdown remarkPlugins={[remarkGfm]}>
+                  {state.cardDetail.question}
+                </Markdown>
+              )}
             </div>
 
             {state.userAnswer && (
@@ -472,16 +549,18 @@ export function SpacedRepetitionWidget({
               </div>
             )}
 
-            <div className="spaced-repetition-widget__answer">
-              <span className="spaced-repetition-widget__answer-label">
-                Answer:
-              </span>
-              <div className="spaced-repetition-widget__answer-content">
-                <Markdown remarkPlugins={[remarkGfm]}>
-                  {state.cardDetail.answer}
-                </Markdown>
+            {!state.cardDetail.cloze_text && (
+              <div className="spaced-repetition-widget__answer">
+                <span className="spaced-repetition-widget__answer-label">
+                  Answer:
+                </span>
+                <div className="spaced-repetition-widget__answer-content">
+                  <Markdown remarkPlugins={[remarkGfm]}>
+                    {state.cardDetail.answer}
+                  </Markdown>
+                </div>
               </div>
-            </div>
+            )}
 
             {state.cardDetail.source_file && (
               <div className="spaced-repetition-widget__source">
@@ -527,7 +606,7 @@ export function SpacedRepetitionWidget({
         )}
 
         {/* Complete phase */}
-        {state.phase === "complete" && (
+        {!showStats && state.phase === "complete" && (
           <div className="spaced-repetition-widget__complete">
             <span className="spaced-repetition-widget__complete-icon">
               &#10003;
@@ -0,0 +1,165 @@
+/**
+ * DailyPrepCard Component Tests
+ *
+ * Tests the morning flow, commitment edits, and evening closure.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { render, screen, cleanup, fireEvent, waitFor } from "@testing-library/react";
+import { DailyPrepCard } from "../DailyPrepCard";
+import type { DailyPrepStatusResponse } from "../../../hooks/useHome";
+import type { FetchFn } from "@/lib/api/types";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body?: unknown;
+}
+
+function createRecordingFetch(responseData: unknown, requests: RecordedRequest[]): FetchFn {
+  return (input, init) => {
+    requests.push({
+      url: String(input),
+      method: init?.method ?? "GET",
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined,
+    });
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(responseData),
+    } as Response);
+  };
+}
+
+const inProgress: DailyPrepStatusResponse = {
+  exists: true,
+  energy: "steady",
+  calendar: "scattered",
+  commitment: ["Review PR", "Write spec"],
+  commitmentItems: [
+    { text: "Review PR", assessment: null },
+    { text: "Write spec", assessment: null },
+  ],
+};
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("DailyPrepCard", () => {
+  it("renders nothing until the status loads", () => {
+    const { container } = render(<DailyPrepCard vaultId="v1" status={null} onStatusChange={() => {}} />);
+    expect(container.innerHTML).toBe("");
+  });
+
+  it("walks through energy, calendar, and commitments in the morning", async () => {
+    const requests: RecordedRequest[] = [];
+    const updates: DailyPrepStatusResponse[] = [];
+    render(
+      <DailyPrepCard
+        vaultId="v1"
+        status={{ exists: false }}
+        onStatusChange={(status) => updates.push(status)}
+        fetchFn={createRecordingFetch(inProgress, requests)}
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Plan the day" }));
+    fireEvent.click(screen.getByRole("button", { name: /Steady/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Scattered/ }));
+    fireEvent.change(screen.getByLabelText("Commitment 1"), { target: { value: "Review PR" } });
+    fireEvent.change(screen.getByLabelText("Commitment 3"), { target: { value: "Write spec" } });
+    fireEvent.click(screen.getByRole("button", { name: "Commit" }));
+
+    await waitFor(() => expect(updates).toEqual([inProgress]));
+    expect(requests[0]).toEqual({
+      url: "/api/vaults/v1/daily-prep/today",
+      method: "POST",
+      body: { energy: "steady", calendar: "scattered", commitments: ["Review PR", "Write spec"] },
+    });
+  });
+
+  it("adds and removes commitments during the day", async () => {
+    const requests: RecordedRequest[] = [];
+    render(
+      <DailyPrepCard
+        vaultId="v1"
+        status={inProgress}
+        onStatusChange={() => {}}
+        fetchFn={createRecordingFetch(inProgress, requests)}
+      />
+    );
+
+    expect(screen.getByText("Review PR")).toBeTruthy();
+    expect(screen.getByText("Steady energy, scattered calendar")).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText("New commitment"), { target: { value: "Call Sam" } });
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+    await waitFor(() => expect(requests).toHaveLength(1));
+
+    fireEvent.click(screen.getByRole("button", { name: 'Remove "Write spec"' }));
+    await waitFor(() => expect(requests).toHaveLength(2));
+
+    expect(requests.map(({ method, url, body }) => [method, url, body])).toEqual([
+      ["POST", "/api/vaults/v1/daily-prep/today/commitments", { text: "Call Sam" }],
+      ["DELETE", "/api/vaults/v1/daily-prep/today/commitments/1", undefined],
+    ]);
+  });
+
+  it("records assessments, notes, and a reflection in the evening", async () => {
+    const requests: RecordedRequest[] = [];
+    render(
+      <DailyPrepCard
+        vaultId="v1"
+        status={inProgress}
+        onStatusChange={() => {}}
+        fetchFn={createRecordingFetch(inProgress, requests)}
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Close the day" }));
+    const [first, second] = screen.getAllByRole("button", { name: "Done" });
+    fireEvent.click(first);
+    fireEvent.click(screen.getAllByRole("button", { name: "Blocked" })[1]);
+    expect(second.getAttribute("aria-pressed")).toBe("false");
+    fireEvent.change(screen.getByLabelText('Note for "Write spec"'), { target: { value: "No input yet" } });
+    fireEvent.change(screen.getByLabelText("Reflection"), { target: { value: "Meetings ran long." } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => expect(requests).toHaveLength(1));
+    expect(requests[0]).toEqual({
+      url: "/api/vaults/v1/daily-prep/today/closure",
+      method: "POST",
+      body: {
+        reflection: "Meetings ran long.",
+        assessments: [
+          { assessment: "done", note: "" },
+          { assessment: "blocked", note: "No input yet" },
+        ],
+      },
+    });
+  });
+
+  it("summarizes a closed day", () => {
+    render(
+      <DailyPrepCard
+        vaultId="v1"
+        status={{
+          ...inProgress,
+          commitmentItems: [
+            { text: "Review PR", assessment: "done" },
+            { text: "Write spec", assessment: "blocked", note: "No input yet" },
+          ],
+          closure: { completed_at: "2026-10-19T17:30:00.000Z", reflection: "Meetings ran long." },
+        }}
+        onStatusChange={() => {}}
+      />
+    );
+
+    expect(screen.getByText("Done")).toBeTruthy();
+    expect(screen.getByText("Blocked")).toBeTruthy();
+    expect(screen.getByText("Meetings ran long.")).toBeTruthy();
+    expect(screen.getByRole("button", { name: "Edit closure" })).toBeTruthy();
+  });
+});
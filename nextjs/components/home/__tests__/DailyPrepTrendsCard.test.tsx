@@ -0,0 +1,110 @@
+/**
+ * DailyPrepTrendsCard Component Tests
+ *
+ * Tests the range selector, completion charts, and streaks.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { render, screen, cleanup, fireEvent, waitFor } from "@testing-library/react";
+import { DailyPrepTrendsCard } from "../DailyPrepTrendsCard";
+import type { DailyPrepCompletionStats, DailyPrepHistoryResponse } from "../../../hooks/useDailyPrep";
+import type { FetchFn } from "@/lib/api/types";
+
+function stats(days: number, done: number, assessed: number): DailyPrepCompletionStats {
+  return {
+    days,
+    commitments: assessed,
+    done,
+    partial: 0,
+    blocked: assessed - done,
+    skipped: 0,
+    unassessed: 0,
+    completionRate: assessed > 0 ? done / assessed : null,
+  };
+}
+
+const empty = stats(0, 0, 0);
+
+const history: DailyPrepHistoryResponse = {
+  from: "2026-07-22",
+  to: "2026-10-19",
+  days: [
+    { date: "2026-10-12", weekday: 1, energy: "sharp", calendar: "clear", closed: true, commitments: 2, done: 2, partial: 0, blocked: 0, skipped: 0, unassessed: 0 },
+    { date: "2026-10-13", weekday: 2, energy: "low", calendar: "heavy", closed: true, commitments: 2, done: 0, partial: 0, blocked: 2, skipped: 0, unassessed: 0 },
+  ],
+  overall: stats(2, 2, 4),
+  byEnergy: { sharp: stats(1, 2, 2), steady: empty, low: stats(1, 0, 2) },
+  byCalendar: { clear: stats(1, 2, 2), scattered: empty, heavy: stats(1, 0, 2) },
+  byWeekday: [empty, stats(1, 2, 2), stats(1, 0, 2), empty, empty, empty, empty],
+  streaks: {
+    blocked: {
+      current: { length: 1, start: "2026-10-13", end: "2026-10-13" },
+      longest: { length: 1, start: "2026-10-13", end: "2026-10-13" },
+    },
+    skipped: { current: { length: 0 }, longest: { length: 0 } },
+  },
+};
+
+function createHistoryFetch(responses: DailyPrepHistoryResponse[], urls: string[]): FetchFn {
+  return (input) => {
+    urls.push(String(input));
+    const body = responses[Math.min(urls.length, responses.length) - 1];
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(body),
+    } as Response);
+  };
+}
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("DailyPrepTrendsCard", () => {
+  it("stays hidden when there are no preps", async () => {
+    const urls: string[] = [];
+    const { container } = render(
+      <DailyPrepTrendsCard
+        vaultId="v1"
+        fetchFn={createHistoryFetch([{ ...history, days: [], overall: empty }], urls)}
+      />
+    );
+
+    await waitFor(() => expect(urls).toHaveLength(1));
+    expect(container.innerHTML).toBe("");
+  });
+
+  it("charts completion by energy, calendar, and weekday", async () => {
+    const urls: string[] = [];
+    render(<DailyPrepTrendsCard vaultId="v1" fetchFn={createHistoryFetch([history], urls)} />);
+
+    expect(await screen.findByText("50% of commitments done over 2 days")).toBeTruthy();
+    expect(urls[0]).toMatch(/^\/api\/vaults\/v1\/daily-prep\/history\?from=\d{4}-\d{2}-\d{2}&to=\d{4}-\d{2}-\d{2}$/);
+    expect(screen.getByRole("img", { name: "Sharp: 100% done over 1 day" })).toBeTruthy();
+    expect(screen.getByRole("img", { name: "Heavy: 0% done over 1 day" })).toBeTruthy();
+    expect(screen.getByRole("img", { name: "Steady: no assessed commitments over 0 days" })).toBeTruthy();
+    expect(screen.getByRole("img", { name: "Tue: 0% done over 1 day" })).toBeTruthy();
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+    expect(screen.getByText("current 1 day (2026-10-13), longest 1 day (2026-10-13)")).toBeTruthy();
+    expect(screen.getByText("current none, longest none")).toBeTruthy();
+  });
+
+  it("reloads when the range changes and keeps the card for an empty range", async () => {
+    const urls: string[] = [];
+    render(
+      <DailyPrepTrendsCard
+        vaultId="v1"
+        fetchFn={createHistoryFetch([history, { ...history, days: [], overall: empty }], urls)}
+      />
+    );
+
+    await screen.findByText("50% of commitments done over 2 days");
+    fireEvent.click(screen.getByRole("button", { name: "30d" }));
+
+    expect(await screen.findByText("No daily preps in this range.")).toBeTruthy();
+    expect(screen.getByRole("button", { name: "30d" }).getAttribute("aria-pressed")).toBe("true");
+    expect(urls).toHaveLength(2);
+  });
+});
@@ -10,7 +10,7 @@ import { render, screen, cleanup, fireEvent, waitFor, act } from "@testing-libra
 import { SessionProvider } from "../../../contexts/SessionContext";
 import { SpacedRepetitionWidget } from "../SpacedRepetitionWidget";
 import type { FetchFn } from "../../../api/types";
-import type { DueCardsResponse, CardDetail } from "@memory-loop/shared";
+import type { DueCardsResponse, CardDetail, CardStatsResponse } from "@memory-loop/shared";
 
 /**
  * Wrapper component that provides SessionContext for testing.
@@ -63,6 +63,34 @@ const mockArchiveResponse = {
   archived: true,
 };
 
+const mockStats: CardStatsResponse = {
+  today: "2026-01-23",
+  summary: {
+    totalCards: 40,
+    dueToday: 3,
+    recentReviews: 57,
+    recentRetention: 0.86,
+    medianTimeToAnswerMs: 4200,
+    currentStreak: 5,
+  },
+  daily: [
+    { date: "2026-01-22", reviews: 12, again: 2, newCards: 3 },
+    { date: "2026-01-23", reviews: 0, again: 0, newCards: 0 },
+  ],
+  retention: [
+    { label: "1 day", minInterval: 1, maxInterval: 1, reviews: 10, passed: 8, retention: 0.8 },
+    { label: "2+ months", minInterval: 60, maxInterval: null, reviews: 0, passed: 0, retention: null },
+  ],
+  forecast: [
+    { date: "2026-01-23", due: 3 },
+    { date: "2026-01-24", due: 7 },
+  ],
+  heatmap: [
+    { date: "2026-01-22", reviews: 12, level: 4 },
+    { date: "2026-01-23", reviews: 0, level: 0 },
+  ],
+};
+
 // =============================================================================
 // Mock Fetch Helpers
 // =============================================================================
@@ -72,6 +100,9 @@ interface MockFetchOptions {
   cardDetail?: CardDetail | null;
   reviewResult?: typeof mockReviewResult | null;
   archiveResult?: typeof mockArchiveResponse | null;
+  stats?: CardStatsResponse;
+  /** Receives each review request body */
+  onReview?: (body: unknown) => void;
   dueCardsDelay?: number;
   cardDetailDelay?: number;
   reviewDelay?: number;
@@ -83,6 +114,8 @@ function createMockFetch(options: MockFetchOptions = {}): FetchFn {
     cardDetail = mockCardDetail,
     reviewResult = mockReviewResult,
     archiveResult = mockArchiveResponse,
+    stats = mockStats,
+    onReview,
     dueCardsDelay = 0,
     cardDetailDelay = 0,
     reviewDelay = 0,
@@ -104,6 +137,15 @@ function createMockFetch(options: MockFetchOptions = {}): FetchFn {
       } as Response;
     }
 
+    // GET /cards/stats
+    if (urlStr.endsWith("/cards/stats") && method === "GET") {
+      return {
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(stats),
+      } as Response;
+    }
+
     // GET /cards/:cardId
     if (urlStr.match(/\/cards\/[^/]+$/) && method === "GET") {
       if (cardDetailDelay > 0) {
@@ -118,6 +160,7 @@ function createMockFetch(options: MockFetchOptions = {}): FetchFn {
 
     // POST /cards/:cardId/review
     if (urlStr.includes("/review") && method === "POST") {
+      onReview?.(JSON.parse(init?.body as string));
       if (reviewDelay > 0) {
         await new Promise((r) => setTimeout(r, reviewDelay));
       }
@@ -451,6 +494,114 @@ describe("SpacedRepetitionWidget", () => {
     });
   });
 
+  describe("cloze cards", () => {
+    const clozeText = "The Eiffel Tower opened in {{c1::1889::year}} in {{c2::Paris}}.";
+    const clozeDue: DueCardsResponse = {
+      cards: [
+        {
+          id: "cloze-1",
+          question: "The Eiffel Tower opened in [year] in Paris.",
+          next_review: "2026-01-23",
+          type: "cloze",
+          cloze_text: clozeText,
+          cloze_index: 1,
+        },
+      ],
+      count: 1,
+    };
+    const clozeDetail: CardDetail = {
+      ...mockCardDetail,
+      id: "cloze-1",
+      question: "The Eiffel Tower opened in [year] in Paris.",
+      answer: "The Eiffel Tower opened in **1889** in Paris.",
+      type: "cloze",
+      cloze_text: clozeText,
+      cloze_index: 1,
+    };
+
+    it("blanks the tested deletion with its hint", async () => {
+      const mockFetch = createMockFetch({ dueCards: clozeDue, cardDetail: clozeDetail });
+      renderWithSession(<SpacedRepetitionWidget vaultId="test-vault" fetchFn={mockFetch} />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText("Blank, hint: year")).toBeDefined();
+      });
+      expect(screen.getByText("[year]")).toBeDefined();
+      expect(screen.queryByText("1889")).toBeNull();
+    });
+
+    it("fills in the tested deletion on reveal", async () => {
+      const mockFetch = createMockFetch({ dueCards: clozeDue, cardDetail: clozeDetail });
+      const { container } = renderWithSession(
+        <SpacedRepetitionWidget vaultId="test-vault" fetchFn={mockFetch} />
+      );
+
+      await waitFor(() => {
+        expect(screen.getByRole("button", { name: "Show answer" })).toBeDefined();
+      });
+      fireEvent.click(screen.getByRole("button", { name: "Show answer" }));
+
+      await waitFor(() => {
+        expect(container.querySelector("mark.cloze-text__answer")?.textContent).toBe("1889");
+      });
+      expect(screen.queryByText("[year]")).toBeNull();
+      expect(screen.queryByText("Answer:")).toBeNull();
+    });
+
+    it("renders the passage as markdown", async () => {
+      const text = "The **Eiffel Tower** opened in {{c1::1889::year}} in _{{c2::Paris}}_.";
+      const dueCards: DueCardsResponse = {
+        ...clozeDue,
+        cards: [{ ...clozeDue.cards[0], cloze_text: text }],
+      };
+      const mockFetch = createMockFetch({ dueCards, cardDetail: { ...clozeDetail, cloze_text: text } });
+      const { container } = renderWithSession(
+        <SpacedRepetitionWidget vaultId="test-vault" fetchFn={mockFetch} />
+      );
+
+      await waitFor(() => {
+        expect(screen.getByLabelText("Blank, hint: year")).toBeDefined();
+      });
+      expect(container.querySelector("strong")?.textContent).toBe("Eiffel Tower");
+      expect(container.querySelector("em")?.textContent).toBe("Paris");
+      expect(screen.queryByText(/\*\*/)).toBeNull();
+
+      fireEvent.click(screen.getByRole("button", { name: "Show answer" }));
+
+      await waitFor(() => {
+        expect(container.querySelector("mark.cloze-text__answer")?.textContent).toBe("1889");
+      });
+      expect(container.querySelector("strong")?.textContent).toBe("Eiffel Tower");
+    });
+  });
+
+  describe("time to answer", () => {
+    it("sends the time from question to reveal with the review", async () => {
+      const reviews: unknown[] = [];
+      const mockFetch = createMockFetch({ onReview: (body) => reviews.push(body) });
+      renderWithSession(<SpacedRepetitionWidget vaultId="test-vault" fetchFn={mockFetch} />);
+
+      await waitFor(() => {
+        expect(screen.getByRole("button", { name: "Show answer" })).toBeDefined();
+      });
+
+      fireEvent.click(screen.getByRole("button", { name: "Show answer" }));
+
+      await waitFor(() => {
+        expect(screen.getByText("Good")).toBeDefined();
+      });
+
+      fireEvent.click(screen.getByText("Good"));
+
+      await waitFor(() => {
+        expect(reviews).toHaveLength(1);
+      });
+      const body = reviews[0] as { response: string; timeToAnswerMs: number };
+      expect(body.response).toBe("good");
+      expect(body.timeToAnswerMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+
   describe("forget action", () => {
     it("shows confirmation dialog when clicking Forget", async () => {
       const mockFetch = createMockFetch();
@@ -595,6 +746,33 @@ describe("SpacedRepetitionWidget", () => {
     });
   });
 
+  describe("stats", () => {
+    it("swaps the review for stats and back", async () => {
+      const mockFetch = createMockFetch();
+      renderWithSession(<SpacedRepetitionWidget vaultId="test-vault" fetchFn={mockFetch} />);
+
+      await waitFor(() => {
+        expect(screen.getByText("What is TypeScript?")).toBeDefined();
+      });
+
+      fireEvent.click(screen.getByRole("button", { name: "Review stats" }));
+
+      await waitFor(() => {
+        expect(screen.getByRole("group", { name: "Spaced repetition stats" })).toBeDefined();
+      });
+      expect(screen.queryByText("What is TypeScript?")).toBeNull();
+      expect(screen.getByText("86%")).toBeDefined();
+      expect(screen.getByText("4.2s")).toBeDefined();
+      expect(screen.getByRole("img", { name: "1 day: 80% recalled over 10 reviews" })).toBeDefined();
+      expect(screen.getByRole("img", { name: "2026-01-24: 7 cards due" })).toBeDefined();
+      expect(screen.getAllByRole("listitem")).toHaveLength(2);
+
+      fireEvent.click(screen.getByRole("button", { name: "Review stats" }));
+
+      expect(screen.getByText("What is TypeScript?")).toBeDefined();
+    });
+  });
+
   describe("accessibility", () => {
     it("has aria-label on the section", async () => {
       const mockFetch = createMockFetch();
@@ -5,6 +5,8 @@
 export { HomeView } from "./HomeView";
 export { VaultInfoCard } from "./VaultInfoCard";
 export { SessionActionsCard, getSessionButtons, type DailyPrepStatus } from "./SessionActionsCard";
+export { DailyPrepCard, type DailyPrepCardProps } from "./DailyPrepCard";
+export { DailyPrepTrendsCard, type DailyPrepTrendsCardProps } from "./DailyPrepTrendsCard";
 export { GoalsCard } from "./GoalsCard";
 export { InspirationCard, type InspirationCardProps } from "./InspirationCard";
 export { RecentActivity } from "./RecentActivity";
@@ -64,6 +64,8 @@ export interface PairWritingEditorProps {
   onExit?: () => void;
   /** Called when vi mode :q command is executed with unsaved changes */
   onQuitWithUnsaved?: () => void;
+  /** Called when History is chosen from the context menu (hidden if omitted) */
+  onShowHistory?: () => void;
 }
 
 export function PairWritingEditor({
@@ -80,6 +82,7 @@ export function PairWritingEditor({
   onSave,
   onExit,
   onQuitWithUnsaved,
+  onShowHistory,
 }: PairWritingEditorProps): React.ReactNode {
   const [content, setContent] = useState(initialContent);
   const [menuOpen, setMenuOpen] = useState(false);
@@ -245,6 +248,11 @@ export function PairWritingEditor({
     [closeContextMenu, onAdvisoryAction]
   );
 
+  const handleShowHistory = useCallback(() => {
+    closeContextMenu();
+    onShowHistory?.();
+  }, [closeContextMenu, onShowHistory]);
+
   const processingClass = isProcessingQuickAction ? " pair-writing-editor--processing" : "";
   const textareaProcessingClass = isProcessingQuickAction ? " pair-writing-editor__textarea--processing" : "";
 
@@ -301,6 +309,7 @@ export function PairWritingEditor({
         onDismiss={closeContextMenu}
         mode="pair-writing"
         hasSnapshot={hasSnapshot}
+        onShowHistory={onShowHistory ? handleShowHistory : undefined}
       />
     </div>
   );
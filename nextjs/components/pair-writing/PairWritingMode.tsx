@@ -22,6 +22,7 @@ import { PairWritingToolbar } from "./PairWritingToolbar";
 import { PairWritingEditor } from "./PairWritingEditor";
 import { Discussion, type DiscussionProps, type SendMessageFn } from "../discussion/Discussion";
 import { ConfirmDialog } from "../shared/ConfirmDialog";
+import { SaveConflictDialog } from "../shared/SaveConflictDialog";
 import type { AdvisoryActionType, QuickActionType } from "../shared/EditorContextMenu";
 import { type SelectionContext } from "../../hooks/useTextSelection";
 import "./PairWritingMode.css";
@@ -42,6 +43,8 @@ export interface PairWritingModeProps {
   onSave: (content: string) => void;
   /** Called when Quick Action completes and file should be reloaded */
   onQuickActionComplete?: (path: string) => void;
+  /** Called to open the file's version history */
+  onShowHistory?: () => void;
   // Dependency injection for testing (avoids mock.module pollution)
   /** Editor component to render (defaults to PairWritingEditor) */
   EditorComponent?: typeof PairWritingEditor;
@@ -70,12 +73,14 @@ export function PairWritingMode({
   onExit,
   onSave,
   onQuickActionComplete,
+  onShowHistory,
   EditorComponent = PairWritingEditor,
   DiscussionComponent = Discussion,
 }: PairWritingModeProps): React.ReactNode {
   void _assetBaseUrl; // Preserved for interface stability; Discussion handles its own asset resolution
   const { state, actions } = usePairWritingState();
-  const { vault } = useSession();
+  const { vault, browser, setFileContent, dismissSaveConflict } = useSession();
+  const { saveConflict } = browser;
 
   // Ref to Discussion's sendChatMessage, wired up via sendMessageRef prop.
   // Actions route through Discussion's pipeline so messages appear in conversation.
@@ -137,6 +142,31 @@ export function PairWritingMode({
     actions.markSaved();
   }, [onSave, state.content, actions]);
 
+  // Save conflict resolution (file changed on disk since it was loaded).
+  // The editor reloads from the content prop once the resolved version lands.
+  const handleKeepMine = useCallback(() => {
+    if (saveConflict) onSave(saveConflict.localContent);
+  }, [onSave, saveConflict]);
+
+  const handleSaveMerged = useCallback(
+    (content: string) => {
+      onSave(content);
+    },
+    [onSave]
+  );
+
+  const handleUseTheirs = useCallback(() => {
+    if (saveConflict) {
+      setFileContent(saveConflict.serverContent, false, saveConflict.serverEtag);
+    }
+  }, [saveConflict, setFileContent]);
+
+  // Cancelling leaves the edits in the editor, unsaved
+  const handleCancelConflict = useCallback(() => {
+    if (saveConflict) actions.setContent(saveConflict.localContent);
+    dismissSaveConflict();
+  }, [saveConflict, actions, dismissSaveConflict]);
+
   // Handle exit button (REQ-F-14, REQ-F-30)
   const handleExitClick = useCallback(() => {
     if (state.hasUnsavedChanges) {
@@ -302,6 +332,7 @@ Please ${action === "validate" ? "validate" : action === "critique" ? "critique"
             onSave={handleSave}
             onExit={handleViForceExit}
             onQuitWithUnsaved={handleViQuitWithUnsaved}
+            onShowHistory={onShowHistory}
           />
         </div>
 
@@ -320,6 +351,17 @@ Please ${action === "validate" ? "validate" : action === "critique" ? "critique"
         onConfirm={handleConfirmExit}
         onCancel={handleCancelExit}
       />
+
+      {saveConflict && (
+        <SaveConflictDialog
+          key={saveConflict.serverEtag}
+          conflict={saveConflict}
+          onKeepMine={handleKeepMine}
+          onUseTheirs={handleUseTheirs}
+          onSaveMerged={handleSaveMerged}
+          onCancel={handleCancelConflict}
+        />
+      )}
     </div>
   );
 }
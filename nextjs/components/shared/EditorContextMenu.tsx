@@ -6,7 +6,8 @@
  * Renders via portal at the selection position.
  *
  * In Pair Writing Mode, also shows Advisory Actions (Validate, Critique, Discuss)
- * and Compare to snapshot action.
+ * and Compare to snapshot action. A History item opens the file's saved
+ * versions when the host provides onShowHistory.
  *
  * Implements: TD-1, TD-12 from the Pair Writing Mode plan.
  * Addresses: REQ-F-2, REQ-F-3, REQ-F-15, REQ-F-18, REQ-F-25, REQ-NF-3, REQ-NF-5 from spec.
@@ -71,6 +72,11 @@ export interface EditorContextMenuProps {
    * Only relevant in "pair-writing" mode.
    */
   onAdvisoryAction?: (action: AdvisoryActionType) => void;
+  /**
+   * Callback to open the file's version history. When provided, a
+   * "History" item is shown after the other actions.
+   */
+  onShowHistory?: () => void;
 }
 
 /**
@@ -149,6 +155,15 @@ const COMPARE_ACTION: AdvisoryMenuItem = {
   description: "Show what changed",
 };
 
+/**
+ * History action shown when the host can open file history.
+ */
+const HISTORY_ACTION = {
+  action: "history",
+  label: "History",
+  description: "Browse and restore earlier versions",
+} as const;
+
 /**
  * EditorContextMenu displays Quick Actions for text selections.
  *
@@ -190,12 +205,13 @@ export function EditorContextMenu({
   mode = "browse",
   hasSnapshot = false,
   onAdvisoryAction,
+  onShowHistory,
 }: EditorContextMenuProps): React.ReactNode {
   const menuRef = useRef<HTMLDivElement>(null);
   const [focusedIndex, setFocusedIndex] = useState(0);
 
   // Build the list of all menu items based on mode
-  const allItems = buildMenuItems(mode, hasSnapshot);
+  const allItems = buildMenuItems(mode, hasSnapshot, onShowHistory !== undefined);
   const itemCount = allItems.length;
 
   // Reset focus index when menu opens
@@ -251,11 +267,13 @@ export function EditorContextMenu({
     (item: MenuItem) => {
       if (item.type === "quick") {
         onAction(item.action as QuickActionType);
+      } else if (item.type === "history") {
+        onShowHistory?.();
       } else if (onAdvisoryAction) {
         onAdvisoryAction(item.action as AdvisoryActionType);
       }
     },
-    [onAction, onAdvisoryAction]
+    [onAction, onAdvisoryAction, onShowHistory]
   );
 
   // Keyboard navigation within the menu
@@ -356,19 +374,25 @@ export function EditorContextMenu({
 // ----------------------------------------------------------------------------
 
 /**
- * Unified menu item type that can represent both quick and advisory actions.
+ * Any action a menu item can trigger.
+ */
+type MenuAction = QuickActionType | AdvisoryActionType | typeof HISTORY_ACTION.action;
+
+/**
+ * Unified menu item type that can represent quick, advisory, and history actions.
  */
 interface MenuItem {
-  action: QuickActionType | AdvisoryActionType;
+  action: MenuAction;
   label: string;
   description: string;
-  type: "quick" | "advisory";
+  type: "quick" | "advisory" | "history";
 }
 
 /**
- * Build the list of menu items based on mode and snapshot state.
+ * Build the list of menu items based on mode, snapshot state, and whether
+ * history can be shown.
  */
-function buildMenuItems(mode: EditorMode, hasSnapshot: boolean): MenuItem[] {
+function buildMenuItems(mode: EditorMode, hasSnapshot: boolean, hasHistory: boolean): MenuItem[] {
   // Always include Quick Actions
   const items: MenuItem[] = QUICK_ACTIONS.map((item) => ({
     ...item,
@@ -393,6 +417,10 @@ function buildMenuItems(mode: EditorMode, hasSnapshot: boolean): MenuItem[] {
     }
   }
 
+  if (hasHistory) {
+    items.push({ ...HISTORY_ACTION, type: "history" });
+  }
+
   return items;
 }
 
@@ -440,7 +468,7 @@ function calculateMenuPosition(
 /**
  * Icon component for all menu item types (quick and advisory actions).
  */
-function MenuItemIcon({ action }: { action: QuickActionType | AdvisoryActionType }): React.ReactNode {
+function MenuItemIcon({ action }: { action: MenuAction }): React.ReactNode {
   switch (action) {
     case "tighten":
       return <TightenIcon />;
@@ -458,6 +486,8 @@ function MenuItemIcon({ action }: { action: QuickActionType | AdvisoryActionType
       return <DiscussIcon />;
     case "compare":
       return <CompareIcon />;
+    case "history":
+      return <HistoryIcon />;
   }
 }
 
@@ -628,6 +658,27 @@ function CompareIcon(): React.ReactNode {
   );
 }
 
+/**
+ * History icon (clock with a counter-clockwise arrow).
+ */
+function HistoryIcon(): React.ReactNode {
+  return (
+    <svg
+      className="editor-context-menu__icon-svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+      <polyline points="3 3 3 8 8 8" />
+      <polyline points="12 7 12 12 15 14" />
+    </svg>
+  );
+}
+
 /**
  * Exported for use by parent components that need to extract position
  * from contextmenu or long-press events.
@@ -6,6 +6,7 @@
  */
 
 import { useSession, type AppMode } from "../../contexts/SessionContext";
+import { useOutbox } from "../../hooks/useOutbox";
 import "./ModeToggle.css";
 
 /**
@@ -41,9 +42,11 @@ const modes: ModeOption[] = [
  * - Three segments with visual highlight on selected
  * - 44px minimum height for touch targets
  * - Calls setMode from SessionContext on selection
+ * - Shows how many offline writes are waiting to sync, when there are any
  */
 export function ModeToggle({ disabled = false }: ModeToggleProps): React.ReactNode {
   const { mode, setMode } = useSession();
+  const pendingCount = useOutbox();
 
   function handleClick(newMode: AppMode) {
     if (!disabled && newMode !== mode) {
@@ -71,6 +74,15 @@ export function ModeToggle({ disabled = false }: ModeToggleProps): React.ReactNo
           <span className="mode-toggle__label">{option.label}</span>
         </button>
       ))}
+      {pendingCount > 0 && (
+        <span
+          className="mode-toggle__pending"
+          role="status"
+          title="Saved offline, will sync when you're back online"
+        >
+          {pendingCount} pending
+        </span>
+      )}
     </div>
   );
 }
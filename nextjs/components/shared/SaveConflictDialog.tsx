@@ -0,0 +1,138 @@
+/**
+ * SaveConflictDialog Component
+ *
+ * Shown when a save is rejected because the file changed on disk (e.g. edited
+ * in Obsidian) since it was opened. Shows what changed on disk relative to the
+ * user's version and offers a three-way merge the user can edit before saving.
+ */
+
+import React, { useId, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { diffLines, mergeThreeWay } from "@memory-loop/shared";
+import type { SaveConflict } from "../../contexts/session/types";
+import "./SaveConflictDialog.css";
+
+export interface SaveConflictDialogProps {
+  conflict: SaveConflict;
+  /** Overwrite the disk version with the user's content */
+  onKeepMine: () => void;
+  /** Discard the user's changes and load the disk version */
+  onUseTheirs: () => void;
+  /** Save the (possibly hand-edited) merge */
+  onSaveMerged: (content: string) => void;
+  /** Close without resolving; the user's edits stay in the editor */
+  onCancel: () => void;
+}
+
+export function SaveConflictDialog({
+  conflict,
+  onKeepMine,
+  onUseTheirs,
+  onSaveMerged,
+  onCancel,
+}: SaveConflictDialogProps): React.ReactNode {
+  const titleId = useId();
+  const { localContent, baseContent, serverContent } = conflict;
+
+  const diff = useMemo(() => diffLines(localContent, serverContent), [localContent, serverContent]);
+  const merge = useMemo(
+    () => mergeThreeWay(baseContent, localContent, serverContent),
+    [baseContent, localContent, serverContent]
+  );
+  const [merged, setMerged] = useState(merge.text);
+
+  function handleBackdropClick(e: React.MouseEvent) {
+    if (e.target === e.currentTarget) {
+      onCancel();
+    }
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "Escape") {
+      onCancel();
+    }
+  }
+
+  return createPortal(
+    <div
+      className="save-conflict-dialog__backdrop"
+      onClick={handleBackdropClick}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        className="save-conflict-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        <h2 id={titleId} className="save-conflict-dialog__title">
+          File Changed on Disk
+        </h2>
+        <p className="save-conflict-dialog__message">
+          This file was edited elsewhere since you opened it. Lines marked + are
+          on disk only; lines marked − are yours only.
+        </p>
+
+        <pre className="save-conflict-dialog__diff" data-testid="conflict-diff">
+          {diff.map((line, index) => (
+            <div
+              key={index}
+              className={`save-conflict-dialog__line save-conflict-dialog__line--${line.type}`}
+            >
+              {line.type === "added" ? "+ " : line.type === "removed" ? "− " : "  "}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+
+        <label className="save-conflict-dialog__label" htmlFor={`${titleId}-merged`}>
+          Merged
+          {merge.conflicts > 0 && (
+            <span className="save-conflict-dialog__conflicts">
+              {merge.conflicts === 1 ? "1 conflict to resolve" : `${merge.conflicts} conflicts to resolve`}
+            </span>
+          )}
+        </label>
+        <textarea
+          id={`${titleId}-merged`}
+          className="save-conflict-dialog__merged"
+          value={merged}
+          onChange={(e) => setMerged(e.target.value)}
+          spellCheck={false}
+        />
+
+        <div className="save-conflict-dialog__actions">
+          <button
+            type="button"
+            className="save-conflict-dialog__btn save-conflict-dialog__btn--cancel"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="save-conflict-dialog__btn save-conflict-dialog__btn--secondary"
+            onClick={onUseTheirs}
+          >
+            Use Disk Version
+          </button>
+          <button
+            type="button"
+            className="save-conflict-dialog__btn save-conflict-dialog__btn--secondary"
+            onClick={onKeepMine}
+          >
+            Keep Mine
+          </button>
+          <button
+            type="button"
+            className="save-conflict-dialog__btn save-conflict-dialog__btn--confirm"
+            onClick={() => onSaveMerged(merged)}
+          >
+            Save Merged
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
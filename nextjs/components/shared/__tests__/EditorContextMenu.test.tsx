@@ -619,3 +619,39 @@ describe("Pair Writing Mode (mode='pair-writing')", () => {
     });
   });
 });
+
+describe("History action", () => {
+  const props = {
+    isOpen: true,
+    position: { x: 100, y: 100 },
+    onAction: mock(() => {}),
+    onDismiss: mock(() => {}),
+    mode: "pair-writing" as const,
+    onAdvisoryAction: mock(() => {}),
+  };
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("is hidden without onShowHistory", () => {
+    render(<EditorContextMenu {...props} />);
+
+    expect(screen.queryByText("History")).toBeNull();
+  });
+
+  it("shows last and calls onShowHistory instead of the advisory handler", () => {
+    const onShowHistory = mock(() => {});
+    const onAdvisoryAction = mock(() => {});
+    render(
+      <EditorContextMenu {...props} onAdvisoryAction={onAdvisoryAction} onShowHistory={onShowHistory} />
+    );
+
+    const menuItems = screen.getAllByRole("menuitem");
+    expect(menuItems[menuItems.length - 1].textContent).toContain("History");
+
+    fireEvent.click(screen.getByText("History"));
+    expect(onShowHistory).toHaveBeenCalledTimes(1);
+    expect(onAdvisoryAction).not.toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,16 @@
 /**
  * Tests for ModeToggle component
  *
- * Tests mode switching and visual states for Ground, Capture, Think, and Recall modes.
+ * Tests mode switching and visual states for Ground, Capture, Think, and Recall modes,
+ * and the pending offline writes badge.
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { render, screen, fireEvent, cleanup, act } from "@testing-library/react";
 import type { ReactNode } from "react";
 import { ModeToggle } from "../ModeToggle";
 import { SessionProvider } from "../../../contexts/SessionContext";
+import { enqueueWrite, resetOutboxForTesting } from "@/lib/offline/outbox";
 
 // Wrapper with providers
 function TestWrapper({ children }: { children: ReactNode }) {
@@ -163,4 +165,27 @@ describe("ModeToggle", () => {
       expect(homeTab?.getAttribute("aria-selected")).toBe("true");
     });
   });
+
+  describe("pending offline writes", () => {
+    beforeEach(() => {
+      resetOutboxForTesting();
+    });
+
+    it("shows nothing when the outbox is empty", () => {
+      render(<ModeToggle />, { wrapper: TestWrapper });
+
+      expect(screen.queryByRole("status")).toBeNull();
+    });
+
+    it("shows how many writes are waiting to sync", async () => {
+      render(<ModeToggle />, { wrapper: TestWrapper });
+
+      await act(async () => {
+        await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "a" } });
+        await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "b" } });
+      });
+
+      expect(screen.getByRole("status").textContent).toBe("2 pending");
+    });
+  });
 });
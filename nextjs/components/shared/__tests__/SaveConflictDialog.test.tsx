@@ -0,0 +1,79 @@
+/**
+ * Tests for SaveConflictDialog component
+ *
+ * Tests the diff view, merge editor, and resolution actions.
+ */
+
+import { describe, it, expect, afterEach, mock } from "bun:test";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { SaveConflictDialog } from "../SaveConflictDialog";
+import type { SaveConflict } from "../../../contexts/session/types";
+
+afterEach(() => {
+  cleanup();
+});
+
+const cleanConflict: SaveConflict = {
+  baseContent: "# Note\nintro\nbody",
+  localContent: "# Note\nintro (mine)\nbody",
+  serverContent: "# Note\nintro\nbody\nadded in Obsidian",
+  serverEtag: '"abc-123"',
+};
+
+function renderDialog(conflict: SaveConflict = cleanConflict) {
+  const handlers = {
+    onKeepMine: mock(() => {}),
+    onUseTheirs: mock(() => {}),
+    onSaveMerged: mock(() => {}),
+    onCancel: mock(() => {}),
+  };
+  render(<SaveConflictDialog conflict={conflict} {...handlers} />);
+  return handlers;
+}
+
+describe("SaveConflictDialog", () => {
+  it("shows the diff between your version and the disk version", () => {
+    renderDialog();
+
+    const diff = screen.getByTestId("conflict-diff");
+    expect(diff.querySelector(".save-conflict-dialog__line--removed")?.textContent).toBe("− intro (mine)");
+    expect(
+      Array.from(diff.querySelectorAll(".save-conflict-dialog__line--added")).map((el) => el.textContent)
+    ).toEqual(["+ intro", "+ added in Obsidian"]);
+  });
+
+  it("pre-fills a clean merge and saves it", () => {
+    const handlers = renderDialog();
+
+    const merged = screen.getByLabelText(/Merged/) as HTMLTextAreaElement;
+    expect(merged.value).toBe("# Note\nintro (mine)\nbody\nadded in Obsidian");
+    expect(screen.queryByText(/conflict to resolve/)).toBeNull();
+
+    fireEvent.click(screen.getByText("Save Merged"));
+    expect(handlers.onSaveMerged).toHaveBeenCalledWith("# Note\nintro (mine)\nbody\nadded in Obsidian");
+  });
+
+  it("saves hand-edited merge content", () => {
+    const handlers = renderDialog({
+      ...cleanConflict,
+      serverContent: "# Note\nintro (theirs)\nbody",
+    });
+
+    expect(screen.getByText("1 conflict to resolve")).toBeDefined();
+    fireEvent.change(screen.getByLabelText(/Merged/), { target: { value: "resolved" } });
+    fireEvent.click(screen.getByText("Save Merged"));
+    expect(handlers.onSaveMerged).toHaveBeenCalledWith("resolved");
+  });
+
+  it("calls the matching handler for each action", () => {
+    const handlers = renderDialog();
+
+    fireEvent.click(screen.getByText("Keep Mine"));
+    fireEvent.click(screen.getByText("Use Disk Version"));
+    fireEvent.click(screen.getByText("Cancel"));
+
+    expect(handlers.onKeepMine).toHaveBeenCalledTimes(1);
+    expect(handlers.onUseTheirs).toHaveBeenCalledTimes(1);
+    expect(handlers.onCancel).toHaveBeenCalledTimes(1);
+  });
+});
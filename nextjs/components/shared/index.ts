@@ -7,5 +7,6 @@ export { Toast, type ToastVariant } from "./Toast";
 export { ConfirmDialog } from "./ConfirmDialog";
 export { InputDialog } from "./InputDialog";
 export { MoveDialog } from "./MoveDialog";
+export { SaveConflictDialog } from "./SaveConflictDialog";
 export { ConversationPane, DiscussionEmptyState, type ConversationPaneProps } from "./ConversationPane";
 export { EditorContextMenu, type QuickActionType, type AdvisoryActionType, type EditorContextMenuProps } from "./EditorContextMenu";
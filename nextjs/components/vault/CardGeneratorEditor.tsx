@@ -6,6 +6,7 @@
  * - Textarea for viewing/editing the requirements prompt
  * - Slider for weekly byte limit (100KB - 10MB)
  * - Usage display showing current week's bytes used
+ * - Checkbox for generating cloze cards alongside Q&A cards
  * - Run Generator button to manually trigger generation
  * - Indicator showing if user override is active
  */
@@ -37,6 +38,8 @@ export function CardGeneratorEditor(): React.ReactNode {
   const [weeklyByteLimit, setWeeklyByteLimit] = useState(512000); // 500KB default
   const [originalByteLimit, setOriginalByteLimit] = useState(512000);
   const [weeklyBytesUsed, setWeeklyBytesUsed] = useState(0);
+  const [clozeCards, setClozeCards] = useState(false);
+  const [originalClozeCards, setOriginalClozeCards] = useState(false);
 
   // UI state
   const [isLoading, setIsLoading] = useState(true);
@@ -55,7 +58,7 @@ export function CardGeneratorEditor(): React.ReactNode {
 
   // Calculate if there are unsaved changes
   const hasRequirementsChanges = requirements !== originalRequirements;
-  const hasConfigChanges = weeklyByteLimit !== originalByteLimit;
+  const hasConfigChanges = weeklyByteLimit !== originalByteLimit || clozeCards !== originalClozeCards;
   const hasChanges = hasRequirementsChanges || hasConfigChanges;
 
   // Load config on mount
@@ -74,6 +77,7 @@ export function CardGeneratorEditor(): React.ReactNode {
           isOverride: boolean;
           weeklyByteLimit: number;
           weeklyBytesUsed: number;
+          clozeCards?: boolean;
         };
         setRequirements(data.requirements);
         setOriginalRequirements(data.requirements);
@@ -81,6 +85,8 @@ export function CardGeneratorEditor(): React.ReactNode {
         setWeeklyByteLimit(data.weeklyByteLimit);
         setOriginalByteLimit(data.weeklyByteLimit);
         setWeeklyBytesUsed(data.weeklyBytesUsed);
+        setClozeCards(data.clozeCards ?? false);
+        setOriginalClozeCards(data.clozeCards ?? false);
         setIsLoading(false);
         setError(null);
       } catch (err) {
@@ -119,12 +125,13 @@ export function CardGeneratorEditor(): React.ReactNode {
     setError(null);
 
     try {
-      const body: { requirements?: string; weeklyByteLimit?: number } = {};
+      const body: { requirements?: string; weeklyByteLimit?: number; clozeCards?: boolean } = {};
       if (hasRequirementsChanges) {
         body.requirements = requirements;
       }
       if (hasConfigChanges) {
         body.weeklyByteLimit = weeklyByteLimit;
+        body.clozeCards = clozeCards;
       }
 
       const response = await fetch("/api/config/card-generator", {
@@ -138,6 +145,7 @@ export function CardGeneratorEditor(): React.ReactNode {
         isOverride: boolean;
         weeklyByteLimit: number;
         weeklyBytesUsed: number;
+        clozeCards?: boolean;
         error?: string;
       };
 
@@ -146,6 +154,7 @@ export function CardGeneratorEditor(): React.ReactNode {
         setIsOverride(data.isOverride);
         setOriginalByteLimit(data.weeklyByteLimit);
         setWeeklyBytesUsed(data.weeklyBytesUsed);
+        setOriginalClozeCards(data.clozeCards ?? clozeCards);
         setError(null);
       } else {
         setError(data.error ?? "Failed to save config");
@@ -156,7 +165,7 @@ export function CardGeneratorEditor(): React.ReactNode {
     } finally {
       setIsSaving(false);
     }
-  }, [requirements, weeklyByteLimit, hasRequirementsChanges, hasConfigChanges, isSaving, isResetting]);
+  }, [requirements, weeklyByteLimit, clozeCards, hasRequirementsChanges, hasConfigChanges, isSaving, isResetting]);
 
   // Handle reset requirements to default
   const handleResetRequirements = useCallback(async () => {
@@ -190,8 +199,9 @@ export function CardGeneratorEditor(): React.ReactNode {
   const handleDiscard = useCallback(() => {
     setRequirements(originalRequirements);
     setWeeklyByteLimit(originalByteLimit);
+    setClozeCards(originalClozeCards);
     setError(null);
-  }, [originalRequirements, originalByteLimit]);
+  }, [originalRequirements, originalByteLimit, originalClozeCards]);
 
   // Handle run generation
   const handleRunGeneration = useCallback(async () => {
@@ -323,6 +333,27 @@ export function CardGeneratorEditor(): React.ReactNode {
         </div>
       </div>
 
+      {/* Card types section */}
+      <div className="card-generator-editor__config">
+        <label className="card-generator-editor__checkbox-label">
+          <input
+            type="checkbox"
+            className="card-generator-editor__checkbox"
+            checked={clozeCards}
+            onChange={(e) => {
+              setClozeCards(e.target.checked);
+              setError(null);
+            }}
+            disabled={isLoading}
+          />
+          <span>Also generate cloze cards</span>
+        </label>
+        <p className="card-generator-editor__hint">
+          Fill-in-the-blank cards written from the same notes. Each note takes a second
+          generation call.
+        </p>
+      </div>
+
       {/* Generation section */}
       <div className="card-generator-editor__generation">
         <div className="card-generator-editor__generation-header">
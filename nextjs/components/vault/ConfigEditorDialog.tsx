@@ -15,6 +15,7 @@ import {
   useRef,
 } from "react";
 import { createPortal } from "react-dom";
+import { getDailyNoteFilename, DEFAULT_DAILY_NOTE_FORMAT } from "@memory-loop/shared";
 import { ConfirmDialog } from "../shared/ConfirmDialog";
 import "./ConfigEditorDialog.css";
 
@@ -39,6 +40,36 @@ export interface Badge {
   color: BadgeColor;
 }
 
+/**
+ * Task checkbox state (matches TaskStateDefinitionSchema from protocol.ts)
+ */
+export interface TaskStateDefinition {
+  symbol: string;
+  label: string;
+  color?: BadgeColor;
+  done?: boolean;
+}
+
+/**
+ * Folder scanned for tasks (matches TaskScopeSchema from protocol.ts)
+ */
+export interface TaskScope {
+  path: string;
+  label: string;
+  category?: string;
+}
+
+/**
+ * Named note captures can be sent to (matches CaptureTargetSchema from protocol.ts)
+ */
+export interface CaptureTarget {
+  name: string;
+  path: string;
+  heading?: string;
+  format?: string;
+  position?: "append" | "prepend";
+}
+
 /**
  * Editable vault configuration fields.
  * This represents the subset of vault config that users can modify.
@@ -55,7 +86,21 @@ export interface EditableVaultConfig {
   badges?: Badge[]; // max 5
   order?: number; // display order on vault selection screen
   cardsEnabled?: boolean; // whether spaced repetition card discovery is enabled
+  reviewAlgorithm?: "sm2" | "fsrs"; // card review scheduler
   viMode?: boolean; // whether vi-style editing is enabled in Pair Writing
+  trashRetentionDays?: number; // 1-90
+  taskStates?: TaskStateDefinition[]; // max 20
+  taskStateCycle?: string[]; // symbols, in toggle order
+  taskScopes?: TaskScope[]; // max 20
+  autoCompleteParentTasks?: boolean; // complete a parent task when its subtasks are done
+  taskRolloverEnabled?: boolean; // roll unfinished tasks into today's daily note
+  taskRolloverDays?: number; // 1-30
+  taskRolloverMode?: "move" | "copy";
+  captureTargets?: CaptureTarget[]; // max 20
+  dailyNoteFormat?: string; // moment-style, e.g. "YYYY/MM/YYYY-MM-DD dddd"
+  dailyNoteFolder?: string; // empty for the inbox
+  dailyNoteTemplatePath?: string; // empty for the built-in template
+  meetingWrapUp?: boolean; // AI summary, decisions, and action items when a meeting stops
 }
 
 export interface ConfigEditorDialogProps {
@@ -88,7 +133,23 @@ function hasConfigChanged(
   if (initial.recentDiscussions !== current.recentDiscussions) return true;
   if (initial.order !== current.order) return true;
   if (initial.cardsEnabled !== current.cardsEnabled) return true;
+  if (initial.reviewAlgorithm !== current.reviewAlgorithm) return true;
   if (initial.viMode !== current.viMode) return true;
+  if (initial.trashRetentionDays !== current.trashRetentionDays) return true;
+  if (initial.autoCompleteParentTasks !== current.autoCompleteParentTasks) return true;
+  if (initial.taskRolloverEnabled !== current.taskRolloverEnabled) return true;
+  if (initial.taskRolloverDays !== current.taskRolloverDays) return true;
+  if (initial.taskRolloverMode !== current.taskRolloverMode) return true;
+  if (initial.dailyNoteFormat !== current.dailyNoteFormat) return true;
+  if (initial.dailyNoteFolder !== current.dailyNoteFolder) return true;
+  if (initial.dailyNoteTemplatePath !== current.dailyNoteTemplatePath) return true;
+  if (initial.meetingWrapUp !== current.meetingWrapUp) return true;
+
+  // Compare task settings (small arrays of plain objects)
+  if (JSON.stringify(initial.taskStates) !== JSON.stringify(current.taskStates)) return true;
+  if (JSON.stringify(initial.taskStateCycle) !== JSON.stringify(current.taskStateCycle)) return true;
+  if (JSON.stringify(initial.taskScopes) !== JSON.stringify(current.taskScopes)) return true;
+  if (JSON.stringify(initial.captureTargets) !== JSON.stringify(current.captureTargets)) return true;
 
   // Compare badges array
   const initialBadges = initial.badges ?? [];
@@ -141,6 +202,21 @@ const BADGE_COLOR_VALUES: Record<BadgeColor, string> = {
  */
 const MAX_BADGE_TEXT_LENGTH = 20;
 
+/**
+ * Task states that can't be removed: toggling a task relies on them
+ */
+const REQUIRED_TASK_STATES = [" ", "x"];
+
+/**
+ * Maximum number of task states and task folders
+ */
+const MAX_TASK_CONFIG_ITEMS = 20;
+
+/**
+ * Maximum number of capture targets
+ */
+const MAX_CAPTURE_TARGETS = 20;
+
 /**
  * Props for the BadgeEditor subcomponent
  */
@@ -323,6 +399,433 @@ function BadgeEditor({ badges, onChange, maxBadges = 5 }: BadgeEditorProps) {
   );
 }
 
+/**
+ * Props for the TaskStateEditor subcomponent
+ */
+interface TaskStateEditorProps {
+  states: TaskStateDefinition[];
+  cycle: string[];
+  onChange: (states: TaskStateDefinition[], cycle: string[]) => void;
+}
+
+/**
+ * TaskStateEditor Component
+ *
+ * Lists the vault's checkbox states with their color, whether they count as
+ * done, and whether clicking a task cycles through them. List order is the
+ * cycle order. "[ ]" and "[x]" can be edited but not removed.
+ */
+function TaskStateEditor({ states, cycle, onChange }: TaskStateEditorProps) {
+  const [newSymbol, setNewSymbol] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+
+  const trimmedLabel = newLabel.trim();
+  const canAdd =
+    newSymbol.length === 1 &&
+    !states.some((state) => state.symbol === newSymbol) &&
+    trimmedLabel.length > 0 &&
+    states.length < MAX_TASK_CONFIG_ITEMS;
+
+  // Keeps the cycle in list order after the list or membership changes
+  const update = useCallback(
+    (nextStates: TaskStateDefinition[], inCycle: (symbol: string) => boolean) => {
+      onChange(
+        nextStates,
+        nextStates.map((state) => state.symbol).filter(inCycle)
+      );
+    },
+    [onChange]
+  );
+
+  const handleStateChange = useCallback(
+    (index: number, changes: Partial<TaskStateDefinition>) => {
+      const nextStates = states.map((state, i) => {
+        if (i !== index) return state;
+        const next: TaskStateDefinition = { ...state, ...changes };
+        if (!next.color) delete next.color;
+        if (!next.done) delete next.done;
+        return next;
+      });
+      update(nextStates, (symbol) => cycle.includes(symbol));
+    },
+    [states, cycle, update]
+  );
+
+  const handleMove = useCallback(
+    (index: number, offset: number) => {
+      const target = index + offset;
+      if (target < 0 || target >= states.length) return;
+      const nextStates = [...states];
+      [nextStates[index], nextStates[target]] = [nextStates[target], nextStates[index]];
+      update(nextStates, (symbol) => cycle.includes(symbol));
+    },
+    [states, cycle, update]
+  );
+
+  const handleCycleToggle = useCallback(
+    (symbol: string, checked: boolean) => {
+      update(states, (s) => (s === symbol ? checked : cycle.includes(s)));
+    },
+    [states, cycle, update]
+  );
+
+  const handleRemove = useCallback(
+    (index: number) => {
+      update(
+        states.filter((_, i) => i !== index),
+        (symbol) => cycle.includes(symbol)
+      );
+    },
+    [states, cycle, update]
+  );
+
+  const handleAdd = useCallback(() => {
+    if (!canAdd) return;
+    update([...states, { symbol: newSymbol, label: trimmedLabel }], (symbol) =>
+      cycle.includes(symbol)
+    );
+    setNewSymbol("");
+    setNewLabel("");
+  }, [canAdd, states, cycle, newSymbol, trimmedLabel, update]);
+
+  return (
+    <div className="task-config-editor">
+      <ul className="task-config-editor__list">
+        {states.map((state, index) => (
+          <li key={state.symbol} className="task-config-editor__row">
+            <code className="task-config-editor__symbol">[{state.symbol}]</code>
+            <input
+              type="text"
+              className="task-config-editor__input"
+              value={state.label}
+              maxLength={MAX_BADGE_TEXT_LENGTH}
+              onChange={(e) => {
+                if (e.target.value.trim()) {
+                  handleStateChange(index, { label: e.target.value });
+                }
+              }}
+              aria-label={`Label for [${state.symbol}]`}
+            />
+            <select
+              className="task-config-editor__input"
+              value={state.color ?? ""}
+              onChange={(e) =>
+                handleStateChange(index, {
+                  color: (e.target.value as BadgeColor) || undefined,
+                })
+              }
+              aria-label={`Color for [${state.symbol}]`}
+            >
+              <option value="">Default color</option>
+              {BADGE_COLORS.map((color) => (
+                <option key={color} value={color}>
+                  {color}
+                </option>
+              ))}
+            </select>
+            <label className="task-config-editor__check">
+              <input
+                type="checkbox"
+                checked={state.done ?? false}
+                onChange={(e) => handleStateChange(index, { done: e.target.checked })}
+              />
+              <span>Done</span>
+            </label>
+            <label className="task-config-editor__check">
+              <input
+                type="checkbox"
+                checked={cycle.includes(state.symbol)}
+                onChange={(e) => handleCycleToggle(state.symbol, e.target.checked)}
+              />
+              <span>In cycle</span>
+            </label>
+            <button
+              type="button"
+              className="task-config-editor__icon-btn"
+              onClick={() => handleMove(index, -1)}
+              disabled={index === 0}
+              aria-label={`Move [${state.symbol}] up`}
+            >
+              &uarr;
+            </button>
+            <button
+              type="button"
+              className="task-config-editor__icon-btn"
+              onClick={() => handleMove(index, 1)}
+              disabled={index === states.length - 1}
+              aria-label={`Move [${state.symbol}] down`}
+            >
+              &darr;
+            </button>
+            <button
+              type="button"
+              className="task-config-editor__icon-btn"
+              onClick={() => handleRemove(index)}
+              disabled={REQUIRED_TASK_STATES.includes(state.symbol)}
+              aria-label={`Remove [${state.symbol}]`}
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="task-config-editor__add-row">
+        <input
+          type="text"
+          className="task-config-editor__input task-config-editor__input--symbol"
+          value={newSymbol}
+          maxLength={1}
+          onChange={(e) => setNewSymbol(e.target.value)}
+          placeholder="-"
+          aria-label="New state symbol"
+        />
+        <input
+          type="text"
+          className="task-config-editor__input"
+          value={newLabel}
+          maxLength={MAX_BADGE_TEXT_LENGTH}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="cancelled"
+          aria-label="New state label"
+        />
+        <button
+          type="button"
+          className="badge-editor__add-btn"
+          onClick={handleAdd}
+          disabled={!canAdd}
+        >
+          Add state
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Props for the TaskScopeEditor subcomponent
+ */
+interface TaskScopeEditorProps {
+  scopes: TaskScope[];
+  onChange: (scopes: TaskScope[]) => void;
+}
+
+/**
+ * TaskScopeEditor Component
+ *
+ * Lists the folders scanned for tasks, each with the heading its tasks are
+ * grouped under in the task list.
+ */
+function TaskScopeEditor({ scopes, onChange }: TaskScopeEditorProps) {
+  const [newLabel, setNewLabel] = useState("");
+  const [newPath, setNewPath] = useState("");
+
+  const canAdd =
+    newLabel.trim().length > 0 &&
+    newPath.trim().length > 0 &&
+    scopes.length < MAX_TASK_CONFIG_ITEMS;
+
+  const handleAdd = useCallback(() => {
+    if (!canAdd) return;
+    onChange([...scopes, { label: newLabel.trim(), path: newPath.trim() }]);
+    setNewLabel("");
+    setNewPath("");
+  }, [canAdd, scopes, newLabel, newPath, onChange]);
+
+  return (
+    <div className="task-config-editor">
+      <ul className="task-config-editor__list">
+        {scopes.map((scope, index) => (
+          <li key={`${scope.label}:${scope.path}`} className="task-config-editor__row">
+            <span className="task-config-editor__scope-label">{scope.label}</span>
+            <code className="task-config-editor__scope-path">{scope.path}</code>
+            <button
+              type="button"
+              className="task-config-editor__icon-btn"
+              onClick={() => onChange(scopes.filter((_, i) => i !== index))}
+              aria-label={`Remove ${scope.label} folder`}
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="task-config-editor__add-row">
+        <input
+          type="text"
+          className="task-config-editor__input"
+          value={newLabel}
+          maxLength={30}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="Work"
+          aria-label="New folder label"
+        />
+        <input
+          type="text"
+          className="task-config-editor__input"
+          value={newPath}
+          onChange={(e) => setNewPath(e.target.value)}
+          placeholder="03_Work"
+          aria-label="New folder path"
+        />
+        <button
+          type="button"
+          className="badge-editor__add-btn"
+          onClick={handleAdd}
+          disabled={!canAdd}
+        >
+          Add folder
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Props for the CaptureTargetEditor subcomponent
+ */
+interface CaptureTargetEditorProps {
+  targets: CaptureTarget[];
+  onChange: (targets: CaptureTarget[]) => void;
+}
+
+/**
+ * CaptureTargetEditor Component
+ *
+ * Lists the notes captures can be sent to besides the daily note, and adds
+ * new ones with an optional heading, entry format, and position.
+ */
+function CaptureTargetEditor({ targets, onChange }: CaptureTargetEditorProps) {
+  const [newName, setNewName] = useState("");
+  const [newPath, setNewPath] = useState("");
+  const [newHeading, setNewHeading] = useState("");
+  const [newFormat, setNewFormat] = useState("");
+  const [newPosition, setNewPosition] = useState<"append" | "prepend">("append");
+
+  const nameTaken = targets.some(
+    (target) => target.name.toLowerCase() === newName.trim().toLowerCase()
+  );
+  const canAdd =
+    newName.trim().length > 0 &&
+    newPath.trim().length > 0 &&
+    !nameTaken &&
+    targets.length < MAX_CAPTURE_TARGETS;
+
+  const handleAdd = useCallback(() => {
+    if (!canAdd) return;
+    const target: CaptureTarget = { name: newName.trim(), path: newPath.trim() };
+    if (newHeading.trim()) target.heading = newHeading.trim();
+    if (newFormat.trim()) target.format = newFormat.trim();
+    if (newPosition === "prepend") target.position = "prepend";
+    onChange([...targets, target]);
+    setNewName("");
+    setNewPath("");
+    setNewHeading("");
+    setNewFormat("");
+    setNewPosition("append");
+  }, [canAdd, targets, newName, newPath, newHeading, newFormat, newPosition, onChange]);
+
+  return (
+    <div className="task-config-editor">
+      <ul className="task-config-editor__list">
+        {targets.map((target, index) => (
+          <li key={target.name} className="task-config-editor__row">
+            <span className="task-config-editor__scope-label">{target.name}</span>
+            <code className="task-config-editor__scope-path">
+              {target.path}
+              {target.heading ? ` › ${target.heading}` : ""}
+              {target.position === "prepend" ? " (at start)" : ""}
+            </code>
+            <button
+              type="button"
+              className="task-config-editor__icon-btn"
+              onClick={() => onChange(targets.filter((_, i) => i !== index))}
+              aria-label={`Remove ${target.name} target`}
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="task-config-editor__add-row">
+        <input
+          type="text"
+          className="task-config-editor__input"
+          value={newName}
+          maxLength={30}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Reading list"
+          aria-label="New target name"
+        />
+        <input
+          type="text"
+          className="task-config-editor__input"
+          value={newPath}
+          onChange={(e) => setNewPath(e.target.value)}
+          placeholder="Lists/reading.md"
+          aria-label="New target file"
+        />
+      </div>
+      <div className="task-config-editor__add-row">
+        <input
+          type="text"
+          className="task-config-editor__input"
+          value={newHeading}
+          onChange={(e) => setNewHeading(e.target.value)}
+          placeholder="Heading (optional)"
+          aria-label="New target heading"
+        />
+        <input
+          type="text"
+          className="task-config-editor__input"
+          value={newFormat}
+          onChange={(e) => setNewFormat(e.target.value)}
+          placeholder="- [{{time}}] {{text}}"
+          aria-label="New target entry format"
+        />
+        <select
+          className="task-config-editor__input"
+          value={newPosition}
+          onChange={(e) => setNewPosition(e.target.value as "append" | "prepend")}
+          aria-label="New target position"
+        >
+          <option value="append">Add to end</option>
+          <option value="prepend">Add to start</option>
+        </select>
+        <button
+          type="button"
+          className="badge-editor__add-btn"
+          onClick={handleAdd}
+          disabled={!canAdd}
+        >
+          Add target
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Drops task settings the user didn't touch, so saving other fields doesn't
+ * freeze the defaults (which follow the inbox, project, and area paths)
+ * into the config file.
+ */
+function withoutUnchangedTaskSettings(
+  initial: EditableVaultConfig,
+  current: EditableVaultConfig
+): EditableVaultConfig {
+  const config = { ...current };
+  if (JSON.stringify(initial.taskStates) === JSON.stringify(current.taskStates)) {
+    delete config.taskStates;
+  }
+  if (JSON.stringify(initial.taskStateCycle) === JSON.stringify(current.taskStateCycle)) {
+    delete config.taskStateCycle;
+  }
+  if (JSON.stringify(initial.taskScopes) === JSON.stringify(current.taskScopes)) {
+    delete config.taskScopes;
+  }
+  return config;
+}
+
 export function ConfigEditorDialog({
   isOpen,
   initialConfig,
@@ -344,7 +847,17 @@ export function ConfigEditorDialog({
   const recentCapturesId = useId();
   const recentDiscussionsId = useId();
   const cardsEnabledId = useId();
+  const reviewAlgorithmId = useId();
   const viModeId = useId();
+  const autoCompleteParentTasksId = useId();
+  const taskRolloverEnabledId = useId();
+  const taskRolloverDaysId = useId();
+  const taskRolloverModeId = useId();
+  const trashRetentionDaysId = useId();
+  const dailyNoteFormatId = useId();
+  const dailyNoteFolderId = useId();
+  const dailyNoteTemplatePathId = useId();
+  const meetingWrapUpId = useId();
 
   // Form state - initialized from initialConfig
   const [formState, setFormState] = useState<EditableVaultConfig>(initialConfig);
@@ -410,8 +923,8 @@ export function ConfigEditorDialog({
 
   // Handle save button click
   const handleSave = useCallback(() => {
-    void onSave(formState);
-  }, [onSave, formState]);
+    void onSave(withoutUnchangedTaskSettings(initialConfig, formState));
+  }, [onSave, initialConfig, formState]);
 
   if (!isOpen) return null;
 
@@ -711,6 +1224,117 @@ export function ConfigEditorDialog({
               </div>
             </section>
 
+            {/* Daily Notes Settings Section */}
+            <section className="config-editor__section">
+              <h3 className="config-editor__section-title">Daily Notes</h3>
+              <p className="config-editor__section-description">
+                Where captures, added tasks, and rolled-over tasks find today&rsquo;s note.
+                Match these to Obsidian&rsquo;s Daily Notes settings if you use it.
+              </p>
+              <div className="config-editor__field">
+                <label htmlFor={dailyNoteFormatId} className="config-editor__label">
+                  Date Format
+                </label>
+                <input
+                  id={dailyNoteFormatId}
+                  type="text"
+                  className="config-editor__input"
+                  value={formState.dailyNoteFormat ?? ""}
+                  maxLength={100}
+                  onChange={(e) =>
+                    setFormState((prev) => ({ ...prev, dailyNoteFormat: e.target.value }))
+                  }
+                  placeholder={DEFAULT_DAILY_NOTE_FORMAT}
+                />
+                <p className="config-editor__field-hint">
+                  Today&rsquo;s note:{" "}
+                  {getDailyNoteFilename(new Date(), formState.dailyNoteFormat || DEFAULT_DAILY_NOTE_FORMAT)}
+                </p>
+              </div>
+              <div className="config-editor__field">
+                <label htmlFor={dailyNoteFolderId} className="config-editor__label">
+                  Folder
+                </label>
+                <input
+                  id={dailyNoteFolderId}
+                  type="text"
+                  className="config-editor__input"
+                  value={formState.dailyNoteFolder ?? ""}
+                  maxLength={200}
+                  onChange={(e) =>
+                    setFormState((prev) => ({ ...prev, dailyNoteFolder: e.target.value }))
+                  }
+                  placeholder="Inbox"
+                />
+              </div>
+              <div className="config-editor__field">
+                <label htmlFor={dailyNoteTemplatePathId} className="config-editor__label">
+                  Template File
+                </label>
+                <input
+                  id={dailyNoteTemplatePathId}
+                  type="text"
+                  className="config-editor__input"
+                  value={formState.dailyNoteTemplatePath ?? ""}
+                  maxLength={200}
+                  onChange={(e) =>
+                    setFormState((prev) => ({ ...prev, dailyNoteTemplatePath: e.target.value }))
+                  }
+                  placeholder="Templates/Daily"
+                />
+                <p className="config-editor__field-hint">
+                  New daily notes start from this note, with {"{{date}}"}, {"{{date:FORMAT}}"},
+                  {" {{time}}"}, and {"{{title}}"} filled in.
+                </p>
+              </div>
+            </section>
+
+            {/* Capture Settings Section */}
+            <section className="config-editor__section">
+              <h3 className="config-editor__section-title">Capture</h3>
+              <p className="config-editor__section-description">
+                Notes you can send captures to instead of the daily note, and what
+                happens when a meeting ends.
+              </p>
+
+              <div className="config-editor__field">
+                <label className="config-editor__label">Capture Targets</label>
+                <CaptureTargetEditor
+                  targets={formState.captureTargets ?? []}
+                  onChange={(captureTargets) =>
+                    setFormState((prev) => ({ ...prev, captureTargets }))
+                  }
+                />
+                <p className="config-editor__field-hint">
+                  File paths are relative to the vault and can include {"{{date}}"} or
+                  {" {{date:FORMAT}}"}, like {"{{date:YYYY/MM}}"}. The format can use
+                  {" {{text}}"}, {"{{time}}"}, and the same date placeholders.
+                </p>
+              </div>
+
+              <div className="config-editor__checkbox-field">
+                <label className="config-editor__checkbox-label">
+                  <input
+                    id={meetingWrapUpId}
+                    type="checkbox"
+                    className="config-editor__checkbox"
+                    checked={formState.meetingWrapUp ?? false}
+                    onChange={(e) =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        meetingWrapUp: e.target.checked,
+                      }))
+                    }
+                  />
+                  <span>Meeting Wrap-Up</span>
+                </label>
+                <p className="config-editor__field-hint">
+                  When a meeting stops, add an AI summary, decisions, and action items
+                  to the meeting note. Action items become tasks.
+                </p>
+              </div>
+            </section>
+
             {/* Recent Activity Settings Section */}
             <section className="config-editor__section">
               <h3 className="config-editor__section-title">Recent Activity</h3>
@@ -756,7 +1380,7 @@ export function ConfigEditorDialog({
             <section className="config-editor__section">
               <h3 className="config-editor__section-title">Spaced Repetition</h3>
               <p className="config-editor__section-description">
-                Configure flashcard discovery for this vault.
+                Configure flashcard discovery and review scheduling for this vault.
               </p>
 
               <div className="config-editor__checkbox-field">
@@ -779,6 +1403,32 @@ export function ConfigEditorDialog({
                   Scan notes in this vault to create spaced repetition flashcards.
                 </p>
               </div>
+
+              <div className="config-editor__field">
+                <label
+                  htmlFor={reviewAlgorithmId}
+                  className="config-editor__label"
+                >
+                  Review Scheduler
+                </label>
+                <select
+                  id={reviewAlgorithmId}
+                  className="config-editor__select"
+                  value={formState.reviewAlgorithm ?? "sm2"}
+                  onChange={(e) =>
+                    setFormState((prev) => ({
+                      ...prev,
+                      reviewAlgorithm: e.target.value as "sm2" | "fsrs",
+                    }))
+                  }
+                >
+                  <option value="sm2">SM-2 (classic)</option>
+                  <option value="fsrs">FSRS (adapts to your review history)</option>
+                </select>
+                <p className="config-editor__field-hint">
+                  Existing cards keep their schedule and switch over at their next review.
+                </p>
+              </div>
             </section>
 
             {/* Editing Settings Section */}
@@ -809,6 +1459,184 @@ export function ConfigEditorDialog({
                 </p>
               </div>
             </section>
+
+            {/* Tasks Settings Section */}
+            <section className="config-editor__section">
+              <h3 className="config-editor__section-title">Tasks</h3>
+              <p className="config-editor__section-description">
+                Choose the checkbox states and folders the task list uses.
+              </p>
+
+              <div className="config-editor__field">
+                <label className="config-editor__label">Task States</label>
+                <TaskStateEditor
+                  states={formState.taskStates ?? []}
+                  cycle={formState.taskStateCycle ?? []}
+                  onChange={(taskStates, taskStateCycle) =>
+                    setFormState((prev) => ({ ...prev, taskStates, taskStateCycle }))
+                  }
+                />
+                <p className="config-editor__field-hint">
+                  Clicking a task moves it to the next state marked &ldquo;In cycle&rdquo;, in list
+                  order. Done states are hidden by &ldquo;Hide completed&rdquo;.
+                </p>
+              </div>
+
+              <div className="config-editor__field">
+                <label className="config-editor__label">Task Folders</label>
+                <TaskScopeEditor
+                  scopes={formState.taskScopes ?? []}
+                  onChange={(taskScopes) =>
+                    setFormState((prev) => ({ ...prev, taskScopes }))
+                  }
+                />
+                <p className="config-editor__field-hint">
+                  Paths are relative to the vault. Remove every folder to go back to Inbox,
+                  Projects, and Areas.
+                </p>
+              </div>
+
+              <div className="config-editor__checkbox-field">
+                <label className="config-editor__checkbox-label">
+                  <input
+                    id={autoCompleteParentTasksId}
+                    type="checkbox"
+                    className="config-editor__checkbox"
+                    checked={formState.autoCompleteParentTasks ?? false}
+                    onChange={(e) =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        autoCompleteParentTasks: e.target.checked,
+                      }))
+                    }
+                  />
+                  <span>Complete Parent Tasks</span>
+                </label>
+                <p className="config-editor__field-hint">
+                  Check off a task automatically when all of its subtasks are done.
+                </p>
+              </div>
+
+              <div className="config-editor__checkbox-field">
+                <label className="config-editor__checkbox-label">
+                  <input
+                    id={taskRolloverEnabledId}
+                    type="checkbox"
+                    className="config-editor__checkbox"
+                    checked={formState.taskRolloverEnabled ?? false}
+                    onChange={(e) =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        taskRolloverEnabled: e.target.checked,
+                      }))
+                    }
+                  />
+                  <span>Roll Over Unfinished Tasks</span>
+                </label>
+                <p className="config-editor__field-hint">
+                  Each morning, carry open tasks from earlier daily notes into today&rsquo;s note.
+                </p>
+              </div>
+
+              {formState.taskRolloverEnabled && (
+                <>
+                  <div className="config-editor__slider-field">
+                    <label
+                      htmlFor={taskRolloverDaysId}
+                      className="config-editor__label"
+                    >
+                      Days to Look Back
+                    </label>
+                    <div className="config-editor__slider-row">
+                      <input
+                        id={taskRolloverDaysId}
+                        type="range"
+                        className="config-editor__slider"
+                        min={1}
+                        max={30}
+                        step={1}
+                        value={formState.taskRolloverDays ?? 7}
+                        aria-valuemin={1}
+                        aria-valuemax={30}
+                        aria-valuenow={formState.taskRolloverDays ?? 7}
+                        onChange={(e) =>
+                          setFormState((prev) => ({
+                            ...prev,
+                            taskRolloverDays: parseInt(e.target.value, 10),
+                          }))
+                        }
+                      />
+                      <span className="config-editor__slider-value">
+                        {formState.taskRolloverDays ?? 7}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="config-editor__field">
+                    <label
+                      htmlFor={taskRolloverModeId}
+                      className="config-editor__label"
+                    >
+                      Rolled Over Tasks
+                    </label>
+                    <select
+                      id={taskRolloverModeId}
+                      className="config-editor__select"
+                      value={formState.taskRolloverMode ?? "move"}
+                      onChange={(e) =>
+                        setFormState((prev) => ({
+                          ...prev,
+                          taskRolloverMode: e.target.value as "move" | "copy",
+                        }))
+                      }
+                    >
+                      <option value="move">Move (leave a link behind)</option>
+                      <option value="copy">Copy (mark the original forwarded)</option>
+                    </select>
+                  </div>
+                </>
+              )}
+            </section>
+
+            {/* Trash Settings Section */}
+            <section className="config-editor__section">
+              <h3 className="config-editor__section-title">Trash</h3>
+              <p className="config-editor__section-description">
+                Deleted files and folders can be restored until they are purged.
+              </p>
+
+              <div className="config-editor__slider-field">
+                <label
+                  htmlFor={trashRetentionDaysId}
+                  className="config-editor__label"
+                >
+                  Days to Keep Deleted Items
+                </label>
+                <div className="config-editor__slider-row">
+                  <input
+                    id={trashRetentionDaysId}
+                    type="range"
+                    className="config-editor__slider"
+                    min={1}
+                    max={90}
+                    step={1}
+                    value={formState.trashRetentionDays ?? 30}
+                    aria-valuemin={1}
+                    aria-valuemax={90}
+                    aria-valuenow={formState.trashRetentionDays ?? 30}
+                    onChange={(e) =>
+                      setFormState((prev) => ({
+                        ...prev,
+                        trashRetentionDays: parseInt(e.target.value, 10),
+                      }))
+                    }
+                  />
+                  <span className="config-editor__slider-value">
+                    {formState.trashRetentionDays ?? 30}
+                  </span>
+                </div>
+              </div>
+            </section>
           </div>
 
           {/* Footer with actions */}
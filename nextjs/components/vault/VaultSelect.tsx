@@ -13,7 +13,14 @@ import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import type { VaultInfo, EditableVaultConfig, SlashCommand, ConversationMessage } from "@memory-loop/shared";
 import { useSession, STORAGE_KEY_VAULT } from "../../contexts/SessionContext";
 import { createApiClient, vaultPath } from "@/lib/api/client";
-import { createLogger } from "@memory-loop/shared";
+import {
+  createLogger,
+  DEFAULT_TASK_STATES,
+  DEFAULT_TASK_STATE_CYCLE,
+  resolveTaskScopes,
+  resolveTaskConfigUpdate,
+  resolveDailyNoteConfigUpdate,
+} from "@memory-loop/shared";
 import { Toast, type ToastVariant } from "../shared/Toast";
 
 const log = createLogger("VaultSelect");
@@ -296,7 +303,17 @@ export function VaultSelect({ onReady }: VaultSelectProps): React.ReactNode {
                 badges: config.badges ?? v.badges,
                 order: config.order ?? v.order,
                 cardsEnabled: config.cardsEnabled ?? v.cardsEnabled,
+                reviewAlgorithm: config.reviewAlgorithm ?? v.reviewAlgorithm,
                 viMode: config.viMode ?? v.viMode,
+                trashRetentionDays: config.trashRetentionDays ?? v.trashRetentionDays,
+                autoCompleteParentTasks: config.autoCompleteParentTasks ?? v.autoCompleteParentTasks,
+                taskRolloverEnabled: config.taskRolloverEnabled ?? v.taskRolloverEnabled,
+                taskRolloverDays: config.taskRolloverDays ?? v.taskRolloverDays,
+                taskRolloverMode: config.taskRolloverMode ?? v.taskRolloverMode,
+                captureTargets: config.captureTargets ?? v.captureTargets,
+                meetingWrapUp: config.meetingWrapUp ?? v.meetingWrapUp,
+                ...resolveTaskConfigUpdate(config, v),
+                ...resolveDailyNoteConfigUpdate(config, v),
               }
             : v
         )
@@ -626,7 +643,21 @@ export function VaultSelect({ onReady }: VaultSelectProps): React.ReactNode {
             badges: configEditorVault.badges,
             order: configEditorVault.order === Infinity ? undefined : configEditorVault.order,
             cardsEnabled: configEditorVault.cardsEnabled,
+            reviewAlgorithm: configEditorVault.reviewAlgorithm ?? "sm2",
             viMode: configEditorVault.viMode,
+            trashRetentionDays: configEditorVault.trashRetentionDays,
+            autoCompleteParentTasks: configEditorVault.autoCompleteParentTasks ?? false,
+            taskRolloverEnabled: configEditorVault.taskRolloverEnabled ?? false,
+            taskRolloverDays: configEditorVault.taskRolloverDays ?? 7,
+            taskRolloverMode: configEditorVault.taskRolloverMode ?? "move",
+            captureTargets: configEditorVault.captureTargets ?? [],
+            dailyNoteFormat: configEditorVault.dailyNoteFormat ?? "",
+            dailyNoteFolder: configEditorVault.dailyNoteFolder ?? "",
+            dailyNoteTemplatePath: configEditorVault.dailyNoteTemplatePath ?? "",
+            meetingWrapUp: configEditorVault.meetingWrapUp ?? false,
+            taskStates: configEditorVault.taskStates ?? DEFAULT_TASK_STATES,
+            taskStateCycle: configEditorVault.taskStateCycle ?? DEFAULT_TASK_STATE_CYCLE,
+            taskScopes: configEditorVault.taskScopes ?? resolveTaskScopes({ inboxPath: configEditorVault.inboxPath }),
           }}
           onSave={handleConfigSave}
           onCancel={handleConfigCancel}
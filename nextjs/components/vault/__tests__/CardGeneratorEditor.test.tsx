@@ -309,6 +309,47 @@ describe("CardGeneratorEditor", () => {
       expect(calls[0][1]?.method).toBe("PUT");
     });
 
+    it("saves the cloze cards setting", async () => {
+      setupFetchMock({
+        requirements: "Initial",
+        isOverride: false,
+        weeklyByteLimit: 512000,
+        weeklyBytesUsed: 0,
+        clozeCards: false,
+      });
+
+      render(<CardGeneratorEditor />);
+
+      const checkbox = await screen.findByRole<HTMLInputElement>("checkbox", { name: "Also generate cloze cards" });
+      await waitFor(() => {
+        expect(checkbox.disabled).toBe(false);
+      });
+      expect(checkbox.checked).toBe(false);
+
+      mockFetch.mockClear();
+      setupFetchMock({
+        success: true,
+        requirements: "Initial",
+        isOverride: false,
+        weeklyByteLimit: 512000,
+        weeklyBytesUsed: 0,
+        clozeCards: true,
+      });
+
+      fireEvent.click(checkbox);
+      fireEvent.click(screen.getByRole("button", { name: /save/i }));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      });
+      const body = JSON.parse(mockFetch.mock.calls[0][1]?.body as string) as Record<string, unknown>;
+      expect(body).toEqual({ weeklyByteLimit: 512000, clozeCards: true });
+
+      await waitFor(() => {
+        expect(screen.getByRole<HTMLButtonElement>("button", { name: /save/i }).disabled).toBe(true);
+      });
+    });
+
     it("shows 'Saving...' while save is in progress", async () => {
       setupFetchMock({
         requirements: "Initial",
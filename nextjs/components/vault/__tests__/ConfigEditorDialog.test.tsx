@@ -655,6 +655,172 @@ describe("ConfigEditorDialog", () => {
     });
   });
 
+  describe("task settings", () => {
+    const taskConfig: EditableVaultConfig = {
+      ...defaultConfig,
+      taskStates: [
+        { symbol: " ", label: "incomplete" },
+        { symbol: "x", label: "complete", done: true },
+        { symbol: "/", label: "partial" },
+      ],
+      taskStateCycle: [" ", "x"],
+      taskScopes: [{ path: "00_Inbox", label: "Inbox", category: "inbox" }],
+    };
+
+    function savedConfig(onSave: ReturnType<typeof mock>): EditableVaultConfig {
+      fireEvent.click(screen.getByText("Save"));
+      return onSave.mock.calls[0][0] as EditableVaultConfig;
+    }
+
+    it("adds a custom state that counts as done", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} initialConfig={taskConfig} onSave={onSave} />);
+
+      fireEvent.change(screen.getByLabelText("New state symbol"), { target: { value: "-" } });
+      fireEvent.change(screen.getByLabelText("New state label"), { target: { value: "cancelled" } });
+      fireEvent.click(screen.getByText("Add state"));
+      const doneBoxes = screen.getAllByRole("checkbox", { name: "Done" });
+      fireEvent.click(doneBoxes[doneBoxes.length - 1]);
+
+      const saved = savedConfig(onSave);
+      expect(saved.taskStates?.[3]).toEqual({ symbol: "-", label: "cancelled", done: true });
+      expect(saved.taskStateCycle).toBeUndefined();
+      expect(saved.taskScopes).toBeUndefined();
+    });
+
+    it("keeps the cycle in list order", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} initialConfig={taskConfig} onSave={onSave} />);
+
+      fireEvent.click(screen.getAllByRole("checkbox", { name: "In cycle" })[2]);
+      fireEvent.click(screen.getByLabelText("Move [/] up"));
+
+      const saved = savedConfig(onSave);
+      expect(saved.taskStates?.map((state) => state.symbol)).toEqual([" ", "/", "x"]);
+      expect(saved.taskStateCycle).toEqual([" ", "/", "x"]);
+    });
+
+    it("does not allow removing the open and done states", () => {
+      render(<ConfigEditorDialog {...defaultProps} initialConfig={taskConfig} />);
+
+      expect((screen.getByLabelText("Remove [ ]") as HTMLButtonElement).disabled).toBe(true);
+      expect((screen.getByLabelText("Remove [x]") as HTMLButtonElement).disabled).toBe(true);
+      expect((screen.getByLabelText("Remove [/]") as HTMLButtonElement).disabled).toBe(false);
+    });
+
+    it("adds a scanned folder", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} initialConfig={taskConfig} onSave={onSave} />);
+
+      fireEvent.change(screen.getByLabelText("New folder label"), { target: { value: "Work" } });
+      fireEvent.change(screen.getByLabelText("New folder path"), { target: { value: "03_Work" } });
+      fireEvent.click(screen.getByText("Add folder"));
+
+      const saved = savedConfig(onSave);
+      expect(saved.taskScopes).toEqual([
+        { path: "00_Inbox", label: "Inbox", category: "inbox" },
+        { label: "Work", path: "03_Work" },
+      ]);
+      expect(saved.taskStates).toBeUndefined();
+    });
+
+    it("enables completing parent tasks", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} initialConfig={taskConfig} onSave={onSave} />);
+
+      const checkbox = screen.getByRole("checkbox", { name: "Complete Parent Tasks" });
+      expect((checkbox as HTMLInputElement).checked).toBe(false);
+      fireEvent.click(checkbox);
+
+      expect(savedConfig(onSave).autoCompleteParentTasks).toBe(true);
+    });
+
+    it("shows rollover options once rollover is enabled", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} initialConfig={taskConfig} onSave={onSave} />);
+
+      expect(screen.queryByLabelText("Rolled Over Tasks")).toBeNull();
+      fireEvent.click(screen.getByRole("checkbox", { name: "Roll Over Unfinished Tasks" }));
+      fireEvent.change(screen.getByLabelText("Rolled Over Tasks"), { target: { value: "copy" } });
+      fireEvent.change(screen.getByLabelText("Days to Look Back"), { target: { value: "3" } });
+
+      const saved = savedConfig(onSave);
+      expect(saved.taskRolloverEnabled).toBe(true);
+      expect(saved.taskRolloverMode).toBe("copy");
+      expect(saved.taskRolloverDays).toBe(3);
+    });
+  });
+
+  describe("capture targets", () => {
+    it("adds a target with a heading and position", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} initialConfig={{ ...defaultConfig, captureTargets: [] }} onSave={onSave} />);
+
+      fireEvent.change(screen.getByLabelText("New target name"), { target: { value: "Reading list" } });
+      fireEvent.change(screen.getByLabelText("New target file"), { target: { value: "Lists/reading.md" } });
+      fireEvent.change(screen.getByLabelText("New target heading"), { target: { value: "To Read" } });
+      fireEvent.change(screen.getByLabelText("New target position"), { target: { value: "prepend" } });
+      fireEvent.click(screen.getByText("Add target"));
+      fireEvent.click(screen.getByText("Save"));
+
+      const saved = (onSave.mock.calls[0] as unknown[])[0] as EditableVaultConfig;
+      expect(saved.captureTargets).toEqual([
+        { name: "Reading list", path: "Lists/reading.md", heading: "To Read", position: "prepend" },
+      ]);
+    });
+
+    it("doesn't add a target whose name is taken", () => {
+      render(
+        <ConfigEditorDialog
+          {...defaultProps}
+          initialConfig={{ ...defaultConfig, captureTargets: [{ name: "Ideas", path: "ideas.md" }] }}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText("New target name"), { target: { value: "ideas" } });
+      fireEvent.change(screen.getByLabelText("New target file"), { target: { value: "other.md" } });
+
+      expect(screen.getByText("Add target").hasAttribute("disabled")).toBe(true);
+    });
+
+    it("enables meeting wrap-up", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} onSave={onSave} />);
+
+      fireEvent.click(screen.getByRole("checkbox", { name: "Meeting Wrap-Up" }));
+      fireEvent.click(screen.getByText("Save"));
+
+      const saved = (onSave.mock.calls[0] as unknown[])[0] as EditableVaultConfig;
+      expect(saved.meetingWrapUp).toBe(true);
+    });
+
+    it("switches the review scheduler to FSRS", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} onSave={onSave} />);
+
+      expect((screen.getByLabelText("Review Scheduler") as HTMLSelectElement).value).toBe("sm2");
+      fireEvent.change(screen.getByLabelText("Review Scheduler"), { target: { value: "fsrs" } });
+      fireEvent.click(screen.getByText("Save"));
+
+      const saved = (onSave.mock.calls[0] as unknown[])[0] as EditableVaultConfig;
+      expect(saved.reviewAlgorithm).toBe("fsrs");
+    });
+  });
+
+  describe("daily notes", () => {
+    it("previews today's note for the date format and saves it", () => {
+      const onSave = mock(() => {});
+      render(<ConfigEditorDialog {...defaultProps} onSave={onSave} />);
+
+      fireEvent.change(screen.getByLabelText("Date Format"), { target: { value: "[Journal] YYYY" } });
+
+      expect(screen.getByText(`Today\u2019s note: Journal ${new Date().getFullYear()}.md`)).toBeDefined();
+      fireEvent.click(screen.getByText("Save"));
+      const saved = (onSave.mock.calls[0] as unknown[])[0] as EditableVaultConfig;
+      expect(saved.dailyNoteFormat).toBe("[Journal] YYYY");
+    });
+  });
+
   describe("loading state (isSaving)", () => {
     it("shows 'Saving...' when isSaving is true", () => {
       render(
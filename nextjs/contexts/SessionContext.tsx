@@ -34,7 +34,9 @@ import {
   type AppMode,
   type BrowseViewMode,
   type SearchMode,
+  type SearchScope,
   type ConversationMessage,
+  type SaveConflict,
   type SessionContextValue,
   sessionReducer,
   createInitialSessionState,
@@ -51,11 +53,13 @@ export type {
   AppMode,
   BrowseViewMode,
   SearchMode,
+  SearchScope,
   SearchState,
 
   BrowserState,
   ConversationMessage,
   PendingToolUpdate,
+  SaveConflict,
   SessionState,
   SessionActions,
   SessionContextValue,
@@ -208,8 +212,8 @@ export function SessionProvider({
     dispatch({ type: "CACHE_DIRECTORY", path, entries });
   }, []);
 
-  const setFileContent = useCallback((content: string, truncated: boolean) => {
-    dispatch({ type: "SET_FILE_CONTENT", content, truncated });
+  const setFileContent = useCallback((content: string, truncated: boolean, etag?: string) => {
+    dispatch({ type: "SET_FILE_CONTENT", content, truncated, etag });
   }, []);
 
   const setFileError = useCallback((error: string) => {
@@ -296,6 +300,14 @@ export function SessionProvider({
     dispatch({ type: "SAVE_ERROR", error });
   }, []);
 
+  const saveConflict = useCallback((conflict: SaveConflict) => {
+    dispatch({ type: "SAVE_CONFLICT", conflict });
+  }, []);
+
+  const dismissSaveConflict = useCallback(() => {
+    dispatch({ type: "DISMISS_SAVE_CONFLICT" });
+  }, []);
+
   // Task actions
   const setViewMode = useCallback((mode: BrowseViewMode) => {
     dispatch({ type: "SET_VIEW_MODE", mode });
@@ -394,6 +406,10 @@ export function SessionProvider({
     dispatch({ type: "SET_SEARCH_MODE", mode });
   }, []);
 
+  const setSearchScope = useCallback((scope: SearchScope) => {
+    dispatch({ type: "SET_SEARCH_SCOPE", scope });
+  }, []);
+
   const setSearchQuery = useCallback((query: string) => {
     dispatch({ type: "SET_SEARCH_QUERY", query });
   }, []);
@@ -478,6 +494,8 @@ export function SessionProvider({
     startSave,
     saveSuccess,
     saveError,
+    saveConflict,
+    dismissSaveConflict,
     setViewMode,
     setTasks,
     setTasksLoading,
@@ -497,6 +515,7 @@ export function SessionProvider({
     finalizeStreaming,
     setSearchActive,
     setSearchMode,
+    setSearchScope,
     setSearchQuery,
     setSearchResults,
     setSearchLoading,
@@ -791,6 +791,72 @@ describe("SessionContext", () => {
 
       expect(result.current.browser.isAdjusting).toBe(false);
     });
+
+    it("setFileContent stores the etag and setCurrentPath clears it", () => {
+      const { result } = useTestSession();
+
+      act(() => {
+        result.current.setCurrentPath("notes/test.md");
+        result.current.setFileContent("# Original", false, '"a-1"');
+      });
+
+      expect(result.current.browser.currentFileEtag).toBe('"a-1"');
+
+      act(() => {
+        result.current.setCurrentPath("notes/other.md");
+      });
+
+      expect(result.current.browser.currentFileEtag).toBeNull();
+    });
+
+    it("saveConflict keeps adjust content and records the conflict", () => {
+      const { result } = useTestSession();
+      const conflict = {
+        localContent: "# Mine",
+        baseContent: "# Original",
+        serverContent: "# Theirs",
+        serverEtag: '"b-2"',
+      };
+
+      act(() => {
+        result.current.setFileContent("# Original", false, '"a-1"');
+        result.current.startAdjust();
+        result.current.updateAdjustContent("# Mine");
+        result.current.startSave();
+        result.current.saveConflict(conflict);
+      });
+
+      expect(result.current.browser.isSaving).toBe(false);
+      expect(result.current.browser.isAdjusting).toBe(true);
+      expect(result.current.browser.adjustContent).toBe("# Mine");
+      expect(result.current.browser.saveConflict).toEqual(conflict);
+      expect(result.current.browser.adjustError).not.toBeNull();
+
+      act(() => {
+        result.current.dismissSaveConflict();
+      });
+
+      expect(result.current.browser.saveConflict).toBeNull();
+      expect(result.current.browser.adjustContent).toBe("# Mine");
+    });
+
+    it("loading new content clears a pending conflict", () => {
+      const { result } = useTestSession();
+
+      act(() => {
+        result.current.setFileContent("# Original", false, '"a-1"');
+        result.current.saveConflict({
+          localContent: "# Mine",
+          baseContent: "# Original",
+          serverContent: "# Theirs",
+          serverEtag: '"b-2"',
+        });
+        result.current.setFileContent("# Theirs", false, '"b-2"');
+      });
+
+      expect(result.current.browser.saveConflict).toBeNull();
+      expect(result.current.browser.currentFileEtag).toBe('"b-2"');
+    });
   });
 
   describe("task state", () => {
@@ -1347,6 +1413,22 @@ describe("SessionContext", () => {
       expect(result.current.browser.search.fileResults).toEqual([]);
     });
 
+    it("setSearchScope changes scope and clears results", () => {
+      const { result } = useTestSession();
+      expect(result.current.browser.search.scope).toBe("vault");
+
+      act(() => {
+        result.current.setSearchActive(true);
+        result.current.setSearchResults("files", [
+          { path: "test.md", name: "test.md", score: 100, matchPositions: [0, 1, 2, 3] },
+        ]);
+        result.current.setSearchScope("all");
+      });
+
+      expect(result.current.browser.search.scope).toBe("all");
+      expect(result.current.browser.search.fileResults).toEqual([]);
+    });
+
     it("setSearchResults stores file and content results", () => {
       const { result } = useTestSession();
       const fileResults = [{ path: "file.md", name: "file.md", score: 95, matchPositions: [0, 1, 2, 3, 4] }];
@@ -20,6 +20,7 @@ export function createInitialSearchState(): SearchState {
   return {
     isActive: false,
     mode: "files",
+    scope: "vault",
     query: "",
     fileResults: [],
     contentResults: [],
@@ -48,6 +49,7 @@ export function createInitialBrowserState(): BrowserState {
     directoryCache: new Map(),
     currentFileContent: null,
     currentFileTruncated: false,
+    currentFileEtag: null,
     fileError: null,
     isLoading: false,
     pinnedFolders: [],
@@ -55,6 +57,7 @@ export function createInitialBrowserState(): BrowserState {
     adjustContent: "",
     adjustError: null,
     isSaving: false,
+    saveConflict: null,
     viewMode: loadPersistedViewMode(),
     tasks: [],
     isTasksLoading: false,
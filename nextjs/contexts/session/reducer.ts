@@ -21,7 +21,7 @@ import type {
   EditableVaultConfig,
 } from "@memory-loop/shared";
 
-import { createLogger } from "@memory-loop/shared";
+import { createLogger, resolveTaskConfigUpdate, resolveDailyNoteConfigUpdate } from "@memory-loop/shared";
 import type {
   SessionState,
   ConversationMessage,
@@ -30,6 +30,8 @@ import type {
   AppMode,
   BrowseViewMode,
   SearchMode,
+  SearchScope,
+  SaveConflict,
 } from "./types";
 
 const log = createLogger("SessionReducer");
@@ -57,7 +59,7 @@ export type SessionAction =
   | { type: "SET_CURRENT_PATH"; path: string }
   | { type: "TOGGLE_DIRECTORY"; path: string }
   | { type: "CACHE_DIRECTORY"; path: string; entries: FileEntry[] }
-  | { type: "SET_FILE_CONTENT"; content: string; truncated: boolean }
+  | { type: "SET_FILE_CONTENT"; content: string; truncated: boolean; etag?: string }
   | { type: "SET_FILE_ERROR"; error: string }
   | { type: "SET_FILE_LOADING"; isLoading: boolean }
   | { type: "CLEAR_BROWSER_STATE" }
@@ -78,6 +80,8 @@ export type SessionAction =
   | { type: "START_SAVE" }
   | { type: "SAVE_SUCCESS" }
   | { type: "SAVE_ERROR"; error: string }
+  | { type: "SAVE_CONFLICT"; conflict: SaveConflict }
+  | { type: "DISMISS_SAVE_CONFLICT" }
   | { type: "SET_VIEW_MODE"; mode: BrowseViewMode }
   | { type: "SET_TASKS"; tasks: TaskEntry[] }
   | { type: "SET_TASKS_LOADING"; isLoading: boolean }
@@ -92,6 +96,7 @@ export type SessionAction =
   | { type: "REPLACE_LAST_MESSAGE_CONTENT"; content: string; isStreaming: boolean }
   | { type: "SET_SEARCH_ACTIVE"; isActive: boolean }
   | { type: "SET_SEARCH_MODE"; mode: SearchMode }
+  | { type: "SET_SEARCH_SCOPE"; scope: SearchScope }
   | { type: "SET_SEARCH_QUERY"; query: string }
   | { type: "SET_SEARCH_RESULTS"; mode: SearchMode; fileResults?: FileSearchResult[]; contentResults?: ContentSearchResult[] }
   | { type: "SET_SEARCH_LOADING"; isLoading: boolean }
@@ -624,11 +629,13 @@ export function sessionReducer(
         currentPath: action.path,
         currentFileContent: null,
         currentFileTruncated: false,
+        currentFileEtag: null,
         fileError: null,
         isAdjusting: false,
         adjustContent: "",
         adjustError: null,
         isSaving: false,
+        saveConflict: null,
       });
 
     case "TOGGLE_DIRECTORY":
@@ -646,16 +653,20 @@ export function sessionReducer(
       return updateBrowser(state, {
         currentFileContent: action.content,
         currentFileTruncated: action.truncated,
+        currentFileEtag: action.etag ?? null,
         fileError: null,
         isLoading: false,
+        saveConflict: null,
       });
 
     case "SET_FILE_ERROR":
       return updateBrowser(state, {
         currentFileContent: null,
         currentFileTruncated: false,
+        currentFileEtag: null,
         fileError: action.error,
         isLoading: false,
+        saveConflict: null,
       });
 
     case "SET_FILE_LOADING":
@@ -734,10 +745,11 @@ export function sessionReducer(
         adjustContent: "",
         adjustError: null,
         isSaving: false,
+        saveConflict: null,
       });
 
     case "START_SAVE":
-      return updateBrowser(state, { isSaving: true, adjustError: null });
+      return updateBrowser(state, { isSaving: true, adjustError: null, saveConflict: null });
 
     case "SAVE_SUCCESS":
       return updateBrowser(state, {
@@ -750,6 +762,16 @@ export function sessionReducer(
     case "SAVE_ERROR":
       return updateBrowser(state, { isSaving: false, adjustError: action.error });
 
+    case "SAVE_CONFLICT":
+      return updateBrowser(state, {
+        isSaving: false,
+        adjustError: "This file was changed on disk since you opened it",
+        saveConflict: action.conflict,
+      });
+
+    case "DISMISS_SAVE_CONFLICT":
+      return updateBrowser(state, { saveConflict: null });
+
     case "SET_VIEW_MODE":
       return updateBrowser(state, { viewMode: action.mode });
 
@@ -826,6 +848,15 @@ export function sessionReducer(
         snippetsCache: new Map<string, ContextSnippet[]>(),
       });
 
+    case "SET_SEARCH_SCOPE":
+      return updateSearch(state, {
+        scope: action.scope,
+        fileResults: [],
+        contentResults: [],
+        expandedPaths: new Set<string>(),
+        snippetsCache: new Map<string, ContextSnippet[]>(),
+      });
+
     case "SET_SEARCH_QUERY":
       return updateSearch(state, { query: action.query });
 
@@ -912,7 +943,19 @@ export function sessionReducer(
           badges: action.config.badges ?? state.vault.badges,
           order: action.config.order ?? state.vault.order,
           cardsEnabled: action.config.cardsEnabled ?? state.vault.cardsEnabled,
+          reviewAlgorithm: action.config.reviewAlgorithm ?? state.vault.reviewAlgorithm,
           viMode: action.config.viMode ?? state.vault.viMode,
+          trashRetentionDays: action.config.trashRetentionDays ?? state.vault.trashRetentionDays,
+          autoCompleteParentTasks:
+            action.config.autoCompleteParentTasks ?? state.vault.autoCompleteParentTasks,
+          taskRolloverEnabled:
+            action.config.taskRolloverEnabled ?? state.vault.taskRolloverEnabled,
+          taskRolloverDays: action.config.taskRolloverDays ?? state.vault.taskRolloverDays,
+          taskRolloverMode: action.config.taskRolloverMode ?? state.vault.taskRolloverMode,
+          captureTargets: action.config.captureTargets ?? state.vault.captureTargets,
+          meetingWrapUp: action.config.meetingWrapUp ?? state.vault.meetingWrapUp,
+          ...resolveTaskConfigUpdate(action.config, state.vault),
+          ...resolveDailyNoteConfigUpdate(action.config, state.vault),
         },
       };
 
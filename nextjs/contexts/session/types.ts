@@ -36,6 +36,11 @@ export type BrowseViewMode = "files" | "tasks";
  */
 export type SearchMode = "files" | "content";
 
+/**
+ * Search scope: the selected vault or every vault.
+ */
+export type SearchScope = "vault" | "all";
+
 /**
  * Search state for the browse tab.
  */
@@ -44,6 +49,8 @@ export interface SearchState {
   isActive: boolean;
   /** Current search mode */
   mode: SearchMode;
+  /** Current search scope */
+  scope: SearchScope;
   /** Current search query */
   query: string;
   /** File search results (when mode is "files") */
@@ -52,12 +59,27 @@ export interface SearchState {
   contentResults: ContentSearchResult[];
   /** Whether search is in progress */
   isLoading: boolean;
-  /** Expanded content result paths (for showing snippets) */
+  /** Expanded content result keys (for showing snippets) */
   expandedPaths: Set<string>;
-  /** Snippets for expanded content results, keyed by path */
+  /** Snippets for expanded content results, keyed by result key */
   snippetsCache: Map<string, ContextSnippet[]>;
 }
 
+/**
+ * A save rejected because the file changed on disk since it was loaded.
+ * Holds the three versions needed to merge.
+ */
+export interface SaveConflict {
+  /** Content the user tried to save */
+  localContent: string;
+  /** Content as it was when loaded (common ancestor) */
+  baseContent: string;
+  /** Content now on disk */
+  serverContent: string;
+  /** Version token of the disk content */
+  serverEtag: string;
+}
+
 /**
  * Browser state for vault file browsing.
  */
@@ -72,6 +94,8 @@ export interface BrowserState {
   currentFileContent: string | null;
   /** Whether current file content was truncated */
   currentFileTruncated: boolean;
+  /** Version token of the loaded content, sent as If-Match on save */
+  currentFileEtag: string | null;
   /** Error message if last file operation failed */
   fileError: string | null;
   /** Whether a file operation is in progress */
@@ -86,6 +110,8 @@ export interface BrowserState {
   adjustError: string | null;
   /** Whether a save operation is in progress */
   isSaving: boolean;
+  /** Pending conflict from the last save, awaiting resolution */
+  saveConflict: SaveConflict | null;
   /** Current view mode: files or tasks */
   viewMode: BrowseViewMode;
   /** Task list from configured directories */
@@ -200,8 +226,8 @@ export interface SessionActions {
   toggleDirectory: (path: string) => void;
   /** Cache a directory listing */
   cacheDirectory: (path: string, entries: FileEntry[]) => void;
-  /** Set file content from server response */
-  setFileContent: (content: string, truncated: boolean) => void;
+  /** Set file content from server response (clears any save conflict) */
+  setFileContent: (content: string, truncated: boolean, etag?: string) => void;
   /** Set file error from server response */
   setFileError: (error: string) => void;
   /** Set loading state for file operations */
@@ -242,6 +268,10 @@ export interface SessionActions {
   saveSuccess: () => void;
   /** Save failed with error (preserves adjustContent per REQ-F-15) */
   saveError: (error: string) => void;
+  /** Save rejected because the file changed on disk (preserves adjustContent) */
+  saveConflict: (conflict: SaveConflict) => void;
+  /** Close the conflict dialog without resolving */
+  dismissSaveConflict: () => void;
   /** Set the browse view mode (files or tasks) */
   setViewMode: (mode: BrowseViewMode) => void;
   /** Set tasks from server response */
@@ -281,6 +311,8 @@ export interface SessionActions {
   setSearchActive: (isActive: boolean) => void;
   /** Set search mode (files or content) */
   setSearchMode: (mode: SearchMode) => void;
+  /** Set search scope (this vault or all vaults) */
+  setSearchScope: (scope: SearchScope) => void;
   /** Set search query */
   setSearchQuery: (query: string) => void;
   /** Set search results from server */
@@ -7,8 +7,9 @@
 
 import { describe, it, expect } from "bun:test";
 import { renderHook, act } from "@testing-library/react";
-import { useCapture } from "../useCapture";
+import { useCapture, type CaptureResult } from "../useCapture";
 import type { FetchFn } from "@/lib/api/types";
+import { listPendingWrites, resetOutboxForTesting } from "@/lib/offline/outbox";
 
 /**
  * Creates a mock fetch function that returns a successful response.
@@ -153,6 +154,25 @@ describe("useCapture", () => {
       expect(result.current.error).toBeNull();
     });
 
+    it("sends the capture target when one is given", async () => {
+      let capturedBody: unknown;
+      const mockFetch: FetchFn = (_url, options) => {
+        capturedBody = JSON.parse(options?.body as string);
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ success: true, timestamp: "t", notePath: "ideas.md", targetName: "Ideas" }),
+        } as Response);
+      };
+
+      const { result } = renderHook(() => useCapture(mockVaultId, { fetch: mockFetch }));
+      await act(async () => {
+        await result.current.captureNote("an idea", "Ideas");
+      });
+
+      expect(capturedBody).toEqual({ text: "an idea", target: "Ideas" });
+    });
+
     it("sets error on API error response", async () => {
       const mockFetch = createErrorFetch("NOTE_CAPTURE_FAILED", "Failed to capture note", 500);
       const { result } = renderHook(() => useCapture(mockVaultId, { fetch: mockFetch }));
@@ -166,20 +186,27 @@ describe("useCapture", () => {
       expect(result.current.error).toBe("Failed to capture note");
     });
 
-    it("sets error on network failure", async () => {
+    it("queues the capture on network failure", async () => {
+      resetOutboxForTesting();
       const mockFetch: FetchFn = () => {
         return Promise.reject(new Error("Network error"));
       };
 
       const { result } = renderHook(() => useCapture(mockVaultId, { fetch: mockFetch }));
 
-      let captureResult: unknown;
+      let captureResult: CaptureResult | null = null;
       await act(async () => {
-        captureResult = await result.current.captureNote("test note");
+        captureResult = await result.current.captureNote("test note", "Ideas");
       });
 
-      expect(captureResult).toBeNull();
-      expect(result.current.error).toBe("Network error");
+      expect(captureResult).toMatchObject({ success: true, queued: true });
+      expect(result.current.error).toBeNull();
+
+      const pending = await listPendingWrites();
+      expect(pending).toHaveLength(1);
+      expect(pending[0].path).toBe(`/api/vaults/${mockVaultId}/capture`);
+      expect(pending[0].body).toMatchObject({ text: "test note", target: "Ideas" });
+      expect(typeof pending[0].body.timestamp).toBe("string");
     });
   });
 
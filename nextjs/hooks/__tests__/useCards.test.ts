@@ -9,6 +9,7 @@ import { describe, it, expect } from "bun:test";
 import { renderHook, act } from "@testing-library/react";
 import { useCards } from "../useCards";
 import type { FetchFn } from "@/lib/api/types";
+import { listPendingWrites, resetOutboxForTesting } from "@/lib/offline/outbox";
 import type {
   DueCard,
   CardDetail,
@@ -350,6 +351,78 @@ describe("useCards", () => {
       expect(reviewResult).toBeNull();
       expect(result.current.error).toBe("Invalid response value");
     });
+    it("queues the review on network failure", async () => {
+      resetOutboxForTesting();
+      const mockFetch: FetchFn = () => Promise.reject(new Error("Network error"));
+      const { result } = renderHook(() => useCards(mockVaultId, { fetch: mockFetch }));
+
+      let reviewResult: unknown;
+      await act(async () => {
+        reviewResult = await result.current.submitReview("card-id", "hard");
+      });
+
+      expect(reviewResult).toEqual({ id: "card-id", queued: true });
+      expect(result.current.error).toBeNull();
+
+      const pending = await listPendingWrites();
+      expect(pending[0].path).toBe(`/api/vaults/${mockVaultId}/cards/card-id/review`);
+      expect(pending[0].body).toMatchObject({ response: "hard" });
+    });
+
+    it("sends and queues the time to answer when given", async () => {
+      resetOutboxForTesting();
+      let capturedBody: string | undefined;
+      const mockFetch: FetchFn = (_url, options) => {
+        capturedBody = options?.body as string;
+        return Promise.reject(new Error("Network error"));
+      };
+      const { result } = renderHook(() => useCards(mockVaultId, { fetch: mockFetch }));
+
+      await act(async () => {
+        await result.current.submitReview("card-id", "good", 4200);
+      });
+
+      expect(JSON.parse(capturedBody!)).toEqual({ response: "good", timeToAnswerMs: 4200 });
+      const pending = await listPendingWrites();
+      expect(pending[0].body).toMatchObject({ response: "good", timeToAnswerMs: 4200 });
+    });
+  });
+
+  describe("getStats", () => {
+    it("fetches stats from correct endpoint", async () => {
+      const stats = { today: "2026-01-23", daily: [], retention: [], forecast: [], heatmap: [] };
+      let capturedUrl: string | undefined;
+      const mockFetch: FetchFn = (url) => {
+        capturedUrl = url as string;
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve(stats),
+        } as Response);
+      };
+      const { result } = renderHook(() => useCards(mockVaultId, { fetch: mockFetch }));
+
+      let statsResult: unknown;
+      await act(async () => {
+        statsResult = await result.current.getStats();
+      });
+
+      expect(capturedUrl).toBe(`/api/vaults/${mockVaultId}/cards/stats`);
+      expect(statsResult).toEqual(stats);
+    });
+
+    it("sets error on API error", async () => {
+      const mockFetch = createErrorFetch("INTERNAL_ERROR", "Failed to read review log", 500);
+      const { result } = renderHook(() => useCards(mockVaultId, { fetch: mockFetch }));
+
+      let statsResult: unknown;
+      await act(async () => {
+        statsResult = await result.current.getStats();
+      });
+
+      expect(statsResult).toBeNull();
+      expect(result.current.error).toBe("Failed to read review log");
+    });
   });
 
   describe("archiveCard", () => {
@@ -0,0 +1,157 @@
+/**
+ * useDailyPrep Hook Tests
+ *
+ * Tests for the daily prep write REST API hook.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderHook, act } from "@testing-library/react";
+import { useDailyPrep } from "../useDailyPrep";
+import type { DailyPrepStatusResponse } from "../useHome";
+import type { FetchFn } from "@/lib/api/types";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body?: unknown;
+}
+
+/**
+ * Creates a mock fetch that records requests and answers with `responseData`.
+ */
+function createRecordingFetch(
+  responseData: unknown,
+  requests: RecordedRequest[],
+  status = 200
+): FetchFn {
+  return (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    requests.push({
+      url,
+      method: init?.method ?? "GET",
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined,
+    });
+    return Promise.resolve({
+      ok: status < 400,
+      status,
+      json: () => Promise.resolve(responseData),
+    } as Response);
+  };
+}
+
+const prepStatus: DailyPrepStatusResponse = {
+  exists: true,
+  energy: "steady",
+  calendar: "scattered",
+  commitment: ["Review PR"],
+  commitmentItems: [{ text: "Review PR", assessment: null }],
+};
+
+describe("useDailyPrep", () => {
+  const mockVaultId = "test-vault-123";
+
+  it("creates today's prep and returns the new status", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useDailyPrep(mockVaultId, { fetch: createRecordingFetch(prepStatus, requests, 201) })
+    );
+
+    let status: DailyPrepStatusResponse | null = null;
+    await act(async () => {
+      status = await result.current.createPrep({ energy: "steady", calendar: "scattered", commitments: ["Review PR"] });
+    });
+
+    expect(status).toEqual(prepStatus);
+    expect(requests[0]).toEqual({
+      url: "/api/vaults/test-vault-123/daily-prep/today",
+      method: "POST",
+      body: { energy: "steady", calendar: "scattered", commitments: ["Review PR"] },
+    });
+  });
+
+  it("sends commitment edits to the indexed commitment", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useDailyPrep(mockVaultId, { fetch: createRecordingFetch(prepStatus, requests) })
+    );
+
+    await act(async () => {
+      await result.current.updateCommitment(2, { assessment: "blocked", note: "Waiting" });
+      await result.current.removeCommitment(0);
+    });
+
+    expect(requests.map(({ url, method }) => `${method} ${url}`)).toEqual([
+      "PATCH /api/vaults/test-vault-123/daily-prep/today/commitments/2",
+      "DELETE /api/vaults/test-vault-123/daily-prep/today/commitments/0",
+    ]);
+    expect(requests[0].body).toEqual({ assessment: "blocked", note: "Waiting" });
+  });
+
+  it("posts the closure with assessments", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useDailyPrep(mockVaultId, { fetch: createRecordingFetch(prepStatus, requests) })
+    );
+
+    await act(async () => {
+      await result.current.closeDay({ reflection: "Good day", assessments: [{ assessment: "done" }] });
+    });
+
+    expect(requests[0]).toEqual({
+      url: "/api/vaults/test-vault-123/daily-prep/today/closure",
+      method: "POST",
+      body: { reflection: "Good day", assessments: [{ assessment: "done" }] },
+    });
+  });
+
+  it("requests history with only the given bounds", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useDailyPrep(mockVaultId, { fetch: createRecordingFetch({ days: [] }, requests) })
+    );
+
+    await act(async () => {
+      await result.current.getHistory("2026-09-01", "2026-09-30");
+      await result.current.getHistory();
+      await result.current.getHistory(undefined, "2026-09-30");
+    });
+
+    expect(requests.map(({ url, method }) => `${method} ${url}`)).toEqual([
+      "GET /api/vaults/test-vault-123/daily-prep/history?from=2026-09-01&to=2026-09-30",
+      "GET /api/vaults/test-vault-123/daily-prep/history",
+      "GET /api/vaults/test-vault-123/daily-prep/history?to=2026-09-30",
+    ]);
+  });
+
+  it("sets error and returns null when the daemon refuses", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useDailyPrep(mockVaultId, {
+        fetch: createRecordingFetch(
+          { error: "Daily prep already exists for 2026-10-19", code: "DAILY_PREP_EXISTS" },
+          requests,
+          409
+        ),
+      })
+    );
+
+    let status: DailyPrepStatusResponse | null = prepStatus;
+    await act(async () => {
+      status = await result.current.createPrep({ commitments: ["Again"] });
+    });
+
+    expect(status).toBeNull();
+    expect(result.current.error).toContain("409");
+  });
+
+  it("sets error without a vault", async () => {
+    const { result } = renderHook(() => useDailyPrep(undefined));
+
+    await act(async () => {
+      await result.current.addCommitment("Anything");
+    });
+
+    expect(result.current.error).toBe("No vault selected");
+  });
+});
@@ -8,7 +8,7 @@
 import { describe, it, expect } from "bun:test";
 import { renderHook, act } from "@testing-library/react";
 import { useFileBrowser } from "../useFileBrowser";
-import type { FetchFn } from "@/lib/api/types";
+import { FileConflictError, type FetchFn } from "@/lib/api/types";
 
 // =============================================================================
 // Test Utilities
@@ -398,6 +398,56 @@ describe("useFileBrowser", () => {
       expect(error?.message).toBe("No vault selected");
     });
 
+    it("sends If-Match and returns the new etag", async () => {
+      const captured: { url?: string; options?: RequestInit } = {};
+      const mockData = { success: true, etag: '"b-2"' };
+
+      const { result } = renderHook(() =>
+        useFileBrowser(mockVaultId, {
+          fetch: createCapturingFetch({ data: mockData }, captured),
+        })
+      );
+
+      let etag: string | undefined;
+      await act(async () => {
+        etag = await result.current.writeFile("test.md", "content", { ifMatch: '"a-1"' });
+      });
+
+      expect((captured.options?.headers as Record<string, string>)["If-Match"]).toBe('"a-1"');
+      expect(etag).toBe('"b-2"');
+    });
+
+    it("throws FileConflictError with the server version on 409", async () => {
+      const { result } = renderHook(() =>
+        useFileBrowser(mockVaultId, {
+          fetch: createMockFetch({
+            ok: false,
+            status: 409,
+            data: {
+              error: 'File "test.md" was changed since it was read',
+              code: "FILE_CONFLICT",
+              content: "edited elsewhere",
+              etag: '"c-3"',
+            },
+          }),
+        })
+      );
+
+      let error: unknown;
+      await act(async () => {
+        try {
+          await result.current.writeFile("test.md", "mine", { ifMatch: '"a-1"' });
+        } catch (e) {
+          error = e;
+        }
+      });
+
+      expect(error).toBeInstanceOf(FileConflictError);
+      expect((error as FileConflictError).serverContent).toBe("edited elsewhere");
+      expect((error as FileConflictError).serverEtag).toBe('"c-3"');
+      expect(result.current.error?.code).toBe("FILE_CONFLICT");
+    });
+
     it("throws error when path is empty", async () => {
       const { result } = renderHook(() =>
         useFileBrowser(mockVaultId, { fetch: createMockFetch({}) })
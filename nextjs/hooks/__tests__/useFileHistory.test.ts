@@ -0,0 +1,115 @@
+/**
+ * useFileHistory Hook Tests
+ *
+ * Tests for the file version history REST API hook.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderHook, act } from "@testing-library/react";
+import type { DiffLine, FileVersion } from "@memory-loop/shared";
+import { useFileHistory } from "../useFileHistory";
+import type { FetchFn } from "@/lib/api/types";
+
+const version: FileVersion = {
+  id: "0mvf52sxz-bd4e0d",
+  timestamp: "2026-01-05T10:00:00.000Z",
+  size: 12,
+  source: "ai",
+};
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+}
+
+/**
+ * Creates a mock fetch that records requested URLs and methods.
+ */
+function createRecordingFetch(
+  responseData: unknown,
+  requests: RecordedRequest[],
+  status = 200
+): FetchFn {
+  return (input, init) => {
+    requests.push({
+      url: typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url,
+      method: init?.method ?? "GET",
+    });
+    return Promise.resolve({
+      ok: status < 400,
+      status,
+      json: () => Promise.resolve(responseData),
+    } as Response);
+  };
+}
+
+describe("useFileHistory", () => {
+  const mockVaultId = "test-vault-123";
+
+  it("lists versions for an encoded file path", async () => {
+    const requests: RecordedRequest[] = [];
+    const mockFetch = createRecordingFetch({ path: "notes/my note.md", versions: [version] }, requests);
+    const { result } = renderHook(() => useFileHistory(mockVaultId, { fetch: mockFetch }));
+
+    let versions: FileVersion[] = [];
+    await act(async () => {
+      versions = await result.current.listVersions("notes/my note.md");
+    });
+
+    expect(versions).toEqual([version]);
+    expect(requests[0].url).toBe("/api/vaults/test-vault-123/files/notes/my%20note.md/history");
+  });
+
+  it("diffs a version against the current file", async () => {
+    const requests: RecordedRequest[] = [];
+    const lines: DiffLine[] = [{ type: "removed", text: "old" }];
+    const mockFetch = createRecordingFetch({ path: "a.md", from: version.id, to: "current", lines }, requests);
+    const { result } = renderHook(() => useFileHistory(mockVaultId, { fetch: mockFetch }));
+
+    let diff: DiffLine[] | null = null;
+    await act(async () => {
+      diff = await result.current.getDiff("a.md", version.id);
+    });
+
+    expect(diff).toEqual(lines);
+    expect(requests[0].url).toBe(
+      `/api/vaults/test-vault-123/files/a.md/history/diff?from=${version.id}&to=current`
+    );
+  });
+
+  it("restores a version and returns the new etag", async () => {
+    const requests: RecordedRequest[] = [];
+    const mockFetch = createRecordingFetch({ success: true, etag: '"new-etag"' }, requests);
+    const { result } = renderHook(() => useFileHistory(mockVaultId, { fetch: mockFetch }));
+
+    let etag: string | null = null;
+    await act(async () => {
+      etag = await result.current.restoreVersion("a.md", version.id);
+    });
+
+    expect(etag).toBe('"new-etag"');
+    expect(requests[0]).toEqual({
+      url: `/api/vaults/test-vault-123/files/a.md/history/${version.id}/restore`,
+      method: "POST",
+    });
+  });
+
+  it("sets error and resolves to null when restore fails", async () => {
+    const requests: RecordedRequest[] = [];
+    const mockFetch = createRecordingFetch(
+      { error: { code: "FILE_NOT_FOUND", message: "Version not found" } },
+      requests,
+      404
+    );
+    const { result } = renderHook(() => useFileHistory(mockVaultId, { fetch: mockFetch }));
+
+    let etag: string | null = "unset";
+    await act(async () => {
+      etag = await result.current.restoreVersion("a.md", "missing");
+    });
+
+    expect(etag).toBeNull();
+    expect(result.current.error).toBe("Version not found");
+  });
+});
@@ -9,6 +9,7 @@ import { describe, it, expect } from "bun:test";
 import { renderHook, act } from "@testing-library/react";
 import { useHome } from "../useHome";
 import type { FetchFn } from "@/lib/api/types";
+import { listPendingWrites, resetOutboxForTesting } from "@/lib/offline/outbox";
 
 /**
  * Creates a mock fetch function that returns a successful response.
@@ -370,6 +371,53 @@ describe("useHome", () => {
       expect(toggleResult).toBeNull();
       expect(result.current.error).toBe("Path outside vault root");
     });
+    it("queues a toggle to a set state on network failure", async () => {
+      resetOutboxForTesting();
+      const mockFetch: FetchFn = () => Promise.reject(new Error("Network error"));
+      const { result } = renderHook(() => useHome(mockVaultId, { fetch: mockFetch }));
+
+      let toggleResult: unknown;
+      await act(async () => {
+        toggleResult = await result.current.toggleTask("file.md", 4, "x", "Pay rent");
+      });
+
+      expect(toggleResult).toEqual({ filePath: "file.md", lineNumber: 4, newState: "x", queued: true });
+      const pending = await listPendingWrites();
+      expect(pending[0]).toMatchObject({
+        method: "PATCH",
+        path: `/api/vaults/${mockVaultId}/tasks`,
+        body: { filePath: "file.md", lineNumber: 4, newState: "x", expectedText: "Pay rent" },
+      });
+    });
+
+    it("doesn't queue a toggle without the task's text", async () => {
+      resetOutboxForTesting();
+      const mockFetch: FetchFn = () => Promise.reject(new Error("Network error"));
+      const { result } = renderHook(() => useHome(mockVaultId, { fetch: mockFetch }));
+
+      let toggleResult: unknown;
+      await act(async () => {
+        toggleResult = await result.current.toggleTask("file.md", 4, "x");
+      });
+
+      expect(toggleResult).toBeNull();
+      expect(await listPendingWrites()).toEqual([]);
+    });
+
+    it("doesn't queue a cycling toggle", async () => {
+      resetOutboxForTesting();
+      const mockFetch: FetchFn = () => Promise.reject(new Error("Network error"));
+      const { result } = renderHook(() => useHome(mockVaultId, { fetch: mockFetch }));
+
+      let toggleResult: unknown;
+      await act(async () => {
+        toggleResult = await result.current.toggleTask("file.md", 4);
+      });
+
+      expect(toggleResult).toBeNull();
+      expect(result.current.error).toBe("Network error");
+      expect(await listPendingWrites()).toEqual([]);
+    });
   });
 
   describe("clearError", () => {
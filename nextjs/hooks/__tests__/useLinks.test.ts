@@ -0,0 +1,116 @@
+/**
+ * useLinks Hook Tests
+ *
+ * Tests for the link graph REST API hook.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderHook, act } from "@testing-library/react";
+import type { NoteLink } from "@memory-loop/shared";
+import { useLinks } from "../useLinks";
+import type { FetchFn } from "@/lib/api/types";
+
+const backlink: NoteLink = {
+  sourcePath: "journal.md",
+  target: "Roadmap",
+  resolvedPath: "projects/Roadmap.md",
+  kind: "wikilink",
+  line: 3,
+  context: "Reviewed [[Roadmap]] today",
+};
+
+/**
+ * Creates a mock fetch that records requested URLs.
+ */
+function createRecordingFetch(responseData: unknown, urls: string[]): FetchFn {
+  return (input) => {
+    urls.push(typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url);
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(responseData),
+    } as Response);
+  };
+}
+
+describe("useLinks", () => {
+  const mockVaultId = "test-vault-123";
+
+  it("fetches backlinks for a path", async () => {
+    const urls: string[] = [];
+    const mockFetch = createRecordingFetch({ path: "projects/Roadmap.md", links: [backlink] }, urls);
+    const { result } = renderHook(() => useLinks(mockVaultId, { fetch: mockFetch }));
+
+    let links: NoteLink[] = [];
+    await act(async () => {
+      links = await result.current.getBacklinks("projects/Roadmap.md");
+    });
+
+    expect(links).toEqual([backlink]);
+    expect(urls[0]).toBe(
+      "/api/vaults/test-vault-123/links/backlinks?path=projects%2FRoadmap.md"
+    );
+    expect(result.current.error).toBeNull();
+  });
+
+  it("omits the path for vault-wide unresolved links", async () => {
+    const urls: string[] = [];
+    const mockFetch = createRecordingFetch({ links: [] }, urls);
+    const { result } = renderHook(() => useLinks(mockVaultId, { fetch: mockFetch }));
+
+    await act(async () => {
+      await result.current.getUnresolvedLinks();
+    });
+
+    expect(urls[0]).toBe("/api/vaults/test-vault-123/links/unresolved");
+  });
+
+  it("passes the limit for unlinked mentions", async () => {
+    const urls: string[] = [];
+    const mockFetch = createRecordingFetch({ path: "a.md", links: [] }, urls);
+    const { result } = renderHook(() => useLinks(mockVaultId, { fetch: mockFetch }));
+
+    await act(async () => {
+      await result.current.getUnlinkedMentions("a.md", 10);
+    });
+
+    expect(urls[0]).toBe("/api/vaults/test-vault-123/links/unlinked?path=a.md&limit=10");
+  });
+
+  it("returns an empty list and sets error on failure", async () => {
+    const mockFetch: FetchFn = () =>
+      Promise.resolve({
+        ok: false,
+        status: 404,
+        json: () => Promise.resolve({ error: { code: "VAULT_NOT_FOUND", message: "Vault not found" } }),
+      } as Response);
+    const { result } = renderHook(() => useLinks(mockVaultId, { fetch: mockFetch }));
+
+    let links: NoteLink[] = [backlink];
+    await act(async () => {
+      links = await result.current.getOutgoingLinks("a.md");
+    });
+
+    expect(links).toEqual([]);
+    expect(result.current.error).toBe("Vault not found");
+
+    act(() => {
+      result.current.clearError();
+    });
+    expect(result.current.error).toBeNull();
+  });
+
+  it("sets error when no vault is selected", async () => {
+    const urls: string[] = [];
+    const mockFetch = createRecordingFetch({ links: [] }, urls);
+    const { result } = renderHook(() => useLinks(undefined, { fetch: mockFetch }));
+
+    await act(async () => {
+      await result.current.getBacklinks("a.md");
+    });
+
+    expect(urls).toEqual([]);
+    expect(result.current.error).toBe("No vault selected");
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * useMeetings Hook Tests
+ *
+ * Tests for the meeting REST API hook.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderHook, act } from "@testing-library/react";
+import { useMeetings } from "../useMeetings";
+import type { FetchFn } from "@/lib/api/types";
+
+/**
+ * Creates a mock fetch that records requests and returns a successful response.
+ */
+function createMockFetch(
+  responseData: unknown,
+  requests: Array<{ url: string; init?: RequestInit }> = []
+): FetchFn {
+  return (url, init) => {
+    requests.push({ url: String(url), init });
+    return Promise.resolve({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(responseData),
+    } as Response);
+  };
+}
+
+describe("useMeetings", () => {
+  const mockVaultId = "test-vault-123";
+
+  it("starts a meeting with attendees and agenda and returns the meeting", async () => {
+    const requests: Array<{ url: string; init?: RequestInit }> = [];
+    const meeting = {
+      isActive: true,
+      title: "Sprint Planning",
+      filePath: "00_Inbox/meetings/2026-10-19-sprint-planning.md",
+      startedAt: "2026-10-19T09:00:00.000Z",
+    };
+    const { result } = renderHook(() =>
+      useMeetings(mockVaultId, { fetch: createMockFetch({ meeting }, requests) })
+    );
+
+    let started: unknown;
+    await act(async () => {
+      started = await result.current.startMeeting("Sprint Planning", { attendees: ["Ann"], agenda: [] });
+    });
+
+    expect(started).toEqual(meeting);
+    expect(JSON.parse(requests[0].init?.body as string)).toEqual({
+      title: "Sprint Planning",
+      attendees: ["Ann"],
+      agenda: [],
+    });
+  });
+
+  it("returns the current meeting state", async () => {
+    const meeting = {
+      isActive: true,
+      title: "Sprint Planning",
+      filePath: "00_Inbox/meetings/2026-10-19-sprint-planning.md",
+      startedAt: "2026-10-19T09:00:00.000Z",
+      resumedAt: "2026-10-19T09:30:00.000Z",
+    };
+    const { result } = renderHook(() =>
+      useMeetings(mockVaultId, { fetch: createMockFetch({ meeting }) })
+    );
+
+    let state: unknown;
+    await act(async () => {
+      state = await result.current.getMeetingState();
+    });
+
+    expect(state).toEqual(meeting);
+  });
+});
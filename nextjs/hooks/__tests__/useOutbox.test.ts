@@ -0,0 +1,72 @@
+/**
+ * useOutbox Hook Tests
+ *
+ * Tests the pending count and replaying the outbox on mount and when the
+ * browser comes back online. Uses dependency injection for fetch.
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { useOutbox, useOutboxSync } from "../useOutbox";
+import { enqueueWrite, flushOutbox, getPendingCount, resetOutboxForTesting } from "@/lib/offline/outbox";
+import type { FetchFn } from "@/lib/api/types";
+
+function createFetch(online: { value: boolean }, urls: string[] = []): FetchFn {
+  return (url) => {
+    if (!online.value) {
+      return Promise.reject(new TypeError("Failed to fetch"));
+    }
+    urls.push(String(url));
+    return Promise.resolve({ ok: true, status: 200 } as Response);
+  };
+}
+
+beforeEach(() => {
+  resetOutboxForTesting();
+});
+
+describe("useOutbox", () => {
+  it("returns the pending count", async () => {
+    const { result } = renderHook(() => useOutbox());
+    expect(result.current).toBe(0);
+
+    await act(async () => {
+      await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "a" } });
+    });
+
+    expect(result.current).toBe(1);
+  });
+});
+
+describe("useOutboxSync", () => {
+  it("replays queued writes on mount", async () => {
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "a" } });
+    const urls: string[] = [];
+    const fetchFn = createFetch({ value: true }, urls);
+
+    renderHook(() => useOutboxSync({ fetch: fetchFn, registerServiceWorker: false }));
+
+    await waitFor(() => expect(getPendingCount()).toBe(0));
+    expect(urls).toEqual(["/api/vaults/v1/capture"]);
+  });
+
+  it("replays when the browser comes back online", async () => {
+    const online = { value: false };
+    const fetchFn = createFetch(online);
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "a" } });
+
+    renderHook(() => useOutboxSync({ fetch: fetchFn, registerServiceWorker: false }));
+    // Wait out the replay started on mount, which fails while offline
+    await act(async () => {
+      await flushOutbox(fetchFn);
+    });
+    expect(getPendingCount()).toBe(1);
+
+    online.value = true;
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+
+    await waitFor(() => expect(getPendingCount()).toBe(0));
+  });
+});
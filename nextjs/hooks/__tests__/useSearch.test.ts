@@ -406,6 +406,101 @@ describe("useSearch", () => {
     });
   });
 
+  describe("all-vaults scope", () => {
+    it("uses the cross-vault endpoints", async () => {
+      const capturedUrls: string[] = [];
+      const mockFetch: FetchFn = (url) => {
+        capturedUrls.push(url as string);
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ results: [], totalMatches: 0, searchTimeMs: 5, vaultsSearched: 2 }),
+        } as Response);
+      };
+
+      const { result } = renderHook(() => useSearch(mockVaultId, { fetch: mockFetch }));
+
+      await act(async () => {
+        await result.current.searchFiles("plan", 10, "all");
+        await result.current.searchContent("plan", undefined, "all");
+      });
+
+      expect(capturedUrls).toEqual([
+        "/api/search/files?q=plan&limit=10",
+        "/api/search/content?q=plan",
+      ]);
+    });
+
+    it("searches all vaults without a selected vault", async () => {
+      const { result } = renderHook(() =>
+        useSearch(undefined, { fetch: createMockFetch({ results: [], totalMatches: 0, searchTimeMs: 1 }) })
+      );
+
+      let searchResult: unknown;
+      await act(async () => {
+        searchResult = await result.current.searchContent("plan", undefined, "all");
+      });
+
+      expect(searchResult).not.toBeNull();
+    });
+
+    it("fetches snippets from the result's vault", async () => {
+      let capturedUrl: string | undefined;
+      const mockFetch: FetchFn = (url) => {
+        capturedUrl = url as string;
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ path: "a.md", snippets: [] }),
+        } as Response);
+      };
+
+      const { result } = renderHook(() => useSearch(mockVaultId, { fetch: mockFetch }));
+
+      await act(async () => {
+        await result.current.getSnippets("a.md", "plan", "other-vault");
+      });
+
+      expect(capturedUrl).toBe("/api/vaults/other-vault/search/snippets?path=a.md&q=plan");
+    });
+
+    it("indexes skipped vaults", async () => {
+      let captured: { url: string; method?: string } | undefined;
+      const mockFetch: FetchFn = (url, init) => {
+        captured = { url: url as string, method: init?.method };
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ vaultsIndexed: ["personal"], vaultsSkipped: [] }),
+        } as Response);
+      };
+
+      const { result } = renderHook(() => useSearch(undefined, { fetch: mockFetch }));
+
+      let response: unknown;
+      await act(async () => {
+        response = await result.current.indexVaults();
+      });
+
+      expect(captured).toEqual({ url: "/api/search/index", method: "POST" });
+      expect(response).toEqual({ vaultsIndexed: ["personal"], vaultsSkipped: [] });
+    });
+
+    it("sets error when indexing fails", async () => {
+      const { result } = renderHook(() =>
+        useSearch(undefined, { fetch: createErrorFetch("INTERNAL_ERROR", "Daemon down", 500) })
+      );
+
+      let response: unknown;
+      await act(async () => {
+        response = await result.current.indexVaults();
+      });
+
+      expect(response).toBeNull();
+      expect(result.current.error).toBe("Daemon down");
+    });
+  });
+
   describe("vaultId changes", () => {
     it("uses updated vaultId for operations", async () => {
       const capturedUrls: string[] = [];
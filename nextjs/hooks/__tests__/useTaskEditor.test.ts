@@ -0,0 +1,148 @@
+/**
+ * useTaskEditor Hook Tests
+ *
+ * Tests for the task create/edit/delete/move REST API hook.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderHook, act } from "@testing-library/react";
+import { useTaskEditor, type TaskWriteResponse } from "../useTaskEditor";
+import type { FetchFn } from "@/lib/api/types";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body?: unknown;
+}
+
+/**
+ * Creates a mock fetch that records requests and answers with `responseData`.
+ */
+function createRecordingFetch(
+  responseData: unknown,
+  requests: RecordedRequest[],
+  status = 200
+): FetchFn {
+  return (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    requests.push({
+      url,
+      method: init?.method ?? "GET",
+      body: typeof init?.body === "string" ? JSON.parse(init.body) : undefined,
+    });
+    return Promise.resolve({
+      ok: status < 400,
+      status,
+      json: () => Promise.resolve(responseData),
+    } as Response);
+  };
+}
+
+const written = { success: true, filePath: "00_Inbox/2026-10-19.md", lineNumber: 5, text: "Call Bob 📅 2026-10-20" };
+
+describe("useTaskEditor", () => {
+  const mockVaultId = "test-vault-123";
+
+  it("creates a task and returns where it was written", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useTaskEditor(mockVaultId, { fetch: createRecordingFetch(written, requests, 201) })
+    );
+
+    let response: TaskWriteResponse | null = null;
+    await act(async () => {
+      response = await result.current.createTask({ text: "Call Bob", dueDate: "2026-10-20" });
+    });
+
+    expect(response).toEqual(written);
+    expect(requests[0]).toEqual({
+      url: "/api/vaults/test-vault-123/tasks",
+      method: "POST",
+      body: { text: "Call Bob", dueDate: "2026-10-20" },
+    });
+  });
+
+  it("edits, deletes, and moves tasks", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useTaskEditor(mockVaultId, { fetch: createRecordingFetch(written, requests) })
+    );
+
+    await act(async () => {
+      await result.current.editTask("notes/a b.md", 3, { text: "Renamed", dueDate: null });
+      await result.current.deleteTask("notes/a b.md", 3);
+      await result.current.moveTask("notes/a b.md", 4, "notes/c.md", "Later");
+    });
+
+    expect(requests).toEqual([
+      {
+        url: "/api/vaults/test-vault-123/tasks",
+        method: "PUT",
+        body: { filePath: "notes/a b.md", lineNumber: 3, text: "Renamed", dueDate: null },
+      },
+      {
+        url: "/api/vaults/test-vault-123/tasks?filePath=notes%2Fa%20b.md&lineNumber=3",
+        method: "DELETE",
+        body: undefined,
+      },
+      {
+        url: "/api/vaults/test-vault-123/tasks/move",
+        method: "POST",
+        body: { filePath: "notes/a b.md", lineNumber: 4, toFilePath: "notes/c.md", heading: "Later" },
+      },
+    ]);
+  });
+
+  it("sends the task text the caller saw", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useTaskEditor(mockVaultId, { fetch: createRecordingFetch(written, requests) })
+    );
+
+    await act(async () => {
+      await result.current.editTask("a.md", 3, { text: "Renamed" }, "Call Bob");
+      await result.current.deleteTask("a.md", 3, "Call Bob & Ann");
+      await result.current.moveTask("a.md", 4, "c.md", undefined, "Call Bob");
+    });
+
+    expect(requests[0].body).toEqual({ filePath: "a.md", lineNumber: 3, text: "Renamed", expectedText: "Call Bob" });
+    expect(requests[1].url).toBe(
+      "/api/vaults/test-vault-123/tasks?filePath=a.md&lineNumber=3&expectedText=Call%20Bob%20%26%20Ann"
+    );
+    expect(requests[2].body).toEqual({ filePath: "a.md", lineNumber: 4, toFilePath: "c.md", expectedText: "Call Bob" });
+  });
+
+  it("sets error and resolves to null when a write fails", async () => {
+    const requests: RecordedRequest[] = [];
+    const { result } = renderHook(() =>
+      useTaskEditor(mockVaultId, {
+        fetch: createRecordingFetch(
+          { error: { code: "VALIDATION_ERROR", message: "Line 3 is not a task" } },
+          requests,
+          400
+        ),
+      })
+    );
+
+    let response: TaskWriteResponse | null = written;
+    await act(async () => {
+      response = await result.current.editTask("a.md", 3, { text: "x" });
+    });
+
+    expect(response).toBeNull();
+    expect(result.current.error).toBe("Line 3 is not a task");
+  });
+
+  it("reports an error without a vault", async () => {
+    const { result } = renderHook(() => useTaskEditor(undefined));
+
+    let deleted = true;
+    await act(async () => {
+      deleted = await result.current.deleteTask("a.md", 1);
+    });
+
+    expect(deleted).toBe(false);
+    expect(result.current.error).toBe("No vault selected");
+  });
+});
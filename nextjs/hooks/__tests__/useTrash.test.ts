@@ -0,0 +1,120 @@
+/**
+ * useTrash Hook Tests
+ *
+ * Tests for the vault trash REST API hook.
+ * Uses dependency injection for fetch (no mock.module).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderHook, act } from "@testing-library/react";
+import type { TrashItem } from "@memory-loop/shared";
+import { useTrash } from "../useTrash";
+import type { FetchFn } from "@/lib/api/types";
+
+const item: TrashItem = {
+  id: "0mvf52sxz-bd4e0d",
+  originalPath: "notes/my note.md",
+  isDirectory: false,
+  deletedAt: "2026-01-05T10:00:00.000Z",
+};
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+}
+
+/**
+ * Creates a mock fetch that answers the listing and records requested URLs
+ * and methods. Other requests get `responseData`.
+ */
+function createRecordingFetch(
+  responseData: unknown,
+  requests: RecordedRequest[],
+  status = 200
+): FetchFn {
+  return (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
+    const method = init?.method ?? "GET";
+    requests.push({ url, method });
+    const isListing = method === "GET" && url.endsWith("/trash");
+    return Promise.resolve({
+      ok: isListing || status < 400,
+      status: isListing ? 200 : status,
+      json: () => Promise.resolve(isListing ? { items: [item], retentionDays: 30 } : responseData),
+    } as Response);
+  };
+}
+
+describe("useTrash", () => {
+  const mockVaultId = "test-vault-123";
+
+  it("loads items and the retention period", async () => {
+    const requests: RecordedRequest[] = [];
+    const mockFetch = createRecordingFetch({}, requests);
+    const { result } = renderHook(() => useTrash(mockVaultId, { fetch: mockFetch }));
+
+    await act(async () => {
+      await result.current.loadTrash();
+    });
+
+    expect(result.current.items).toEqual([item]);
+    expect(result.current.retentionDays).toBe(30);
+    expect(requests[0]).toEqual({ url: "/api/vaults/test-vault-123/trash", method: "GET" });
+  });
+
+  it("restores an item, returns its path, and drops it from the list", async () => {
+    const requests: RecordedRequest[] = [];
+    const mockFetch = createRecordingFetch(
+      { success: true, path: "notes/my note (restored).md", isDirectory: false },
+      requests
+    );
+    const { result } = renderHook(() => useTrash(mockVaultId, { fetch: mockFetch }));
+
+    let path: string | null = null;
+    await act(async () => {
+      await result.current.loadTrash();
+      path = await result.current.restoreItem(item.id);
+    });
+
+    expect(path).toBe("notes/my note (restored).md");
+    expect(result.current.items).toEqual([]);
+    expect(requests[1]).toEqual({
+      url: `/api/vaults/test-vault-123/trash/${item.id}/restore`,
+      method: "POST",
+    });
+  });
+
+  it("deletes one item forever and empties the trash", async () => {
+    const requests: RecordedRequest[] = [];
+    const mockFetch = createRecordingFetch({ success: true }, requests);
+    const { result } = renderHook(() => useTrash(mockVaultId, { fetch: mockFetch }));
+
+    await act(async () => {
+      await result.current.deleteItem(item.id);
+      await result.current.emptyTrash();
+    });
+
+    expect(requests).toEqual([
+      { url: `/api/vaults/test-vault-123/trash/${item.id}`, method: "DELETE" },
+      { url: "/api/vaults/test-vault-123/trash", method: "DELETE" },
+    ]);
+  });
+
+  it("sets error and resolves to null when restore fails", async () => {
+    const requests: RecordedRequest[] = [];
+    const mockFetch = createRecordingFetch(
+      { error: { code: "FILE_NOT_FOUND", message: "Trash item not found" } },
+      requests,
+      404
+    );
+    const { result } = renderHook(() => useTrash(mockVaultId, { fetch: mockFetch }));
+
+    let path: string | null = "unset";
+    await act(async () => {
+      path = await result.current.restoreItem("missing");
+    });
+
+    expect(path).toBeNull();
+    expect(result.current.error).toBe("Trash item not found");
+  });
+});
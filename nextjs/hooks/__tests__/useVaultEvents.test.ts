@@ -0,0 +1,170 @@
+/**
+ * useVaultEvents Hook Tests
+ *
+ * Uses injected fetch functions that return controllable SSE streams.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { renderHook, waitFor } from "@testing-library/react";
+import { useVaultEvents, parseVaultEvents, subscribeToVaultEvents } from "../useVaultEvents";
+import type { FetchFn } from "@/lib/api/types";
+import type { VaultChangeEvent } from "@memory-loop/shared";
+
+// =============================================================================
+// Test Utilities
+// =============================================================================
+
+function makeEvent(path: string, type: VaultChangeEvent["type"] = "file-changed"): VaultChangeEvent {
+  return {
+    type,
+    vaultId: "vault-1",
+    path,
+    isDirectory: false,
+    timestamp: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+/**
+ * Creates a fetch returning an SSE stream that the test can push events into.
+ */
+function createStreamFetch(): {
+  fetch: FetchFn;
+  push: (event: VaultChangeEvent) => void;
+  close: () => void;
+  urls: string[];
+  signals: AbortSignal[];
+} {
+  const encoder = new TextEncoder();
+  const urls: string[] = [];
+  const signals: AbortSignal[] = [];
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+  const fetch: FetchFn = (url: RequestInfo | URL, init?: RequestInit) => {
+    urls.push(String(url));
+    if (init?.signal) signals.push(init.signal);
+    const body = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+        c.enqueue(encoder.encode(": connected\n\n"));
+      },
+    });
+    return Promise.resolve(new Response(body, { headers: { "Content-Type": "text/event-stream" } }));
+  };
+
+  return {
+    fetch,
+    push: (event) => controller?.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`)),
+    close: () => controller?.close(),
+    urls,
+    signals,
+  };
+}
+
+// =============================================================================
+// parseVaultEvents
+// =============================================================================
+
+describe("parseVaultEvents", () => {
+  it("parses complete messages and keeps the partial remainder", () => {
+    const event = makeEvent("a.md");
+    const { events, rest } = parseVaultEvents(
+      `: keep-alive\n\ndata: ${JSON.stringify(event)}\n\ndata: {"type"`
+    );
+    expect(events).toEqual([event]);
+    expect(rest).toBe('data: {"type"');
+  });
+
+  it("skips malformed data lines", () => {
+    const { events } = parseVaultEvents("data: not json\n\n");
+    expect(events).toEqual([]);
+  });
+});
+
+// =============================================================================
+// useVaultEvents
+// =============================================================================
+
+describe("useVaultEvents", () => {
+  it("connects to the vault events endpoint and batches events", async () => {
+    const stream = createStreamFetch();
+    const batches: VaultChangeEvent[][] = [];
+
+    const { unmount } = renderHook(() =>
+      useVaultEvents("vault-1", (events) => batches.push(events), {
+        fetch: stream.fetch,
+        debounceMs: 10,
+      })
+    );
+
+    await waitFor(() => expect(stream.urls).toEqual(["/api/vaults/vault-1/events"]));
+    stream.push(makeEvent("a.md"));
+    stream.push(makeEvent("b.md"));
+
+    await waitFor(() => expect(batches.length).toBe(1));
+    expect(batches[0].map((e) => e.path)).toEqual(["a.md", "b.md"]);
+    unmount();
+  });
+
+  it("applies the filter", async () => {
+    const stream = createStreamFetch();
+    const batches: VaultChangeEvent[][] = [];
+
+    const { unmount } = renderHook(() =>
+      useVaultEvents("vault-2", (events) => batches.push(events), {
+        fetch: stream.fetch,
+        debounceMs: 10,
+        filter: (event) => event.path.endsWith(".md"),
+      })
+    );
+
+    await waitFor(() => expect(stream.urls.length).toBe(1));
+    stream.push(makeEvent("image.png"));
+    stream.push(makeEvent("note.md"));
+
+    await waitFor(() => expect(batches.length).toBe(1));
+    expect(batches[0].map((e) => e.path)).toEqual(["note.md"]);
+    unmount();
+  });
+
+  it("does not connect when disabled or without a vault", () => {
+    const stream = createStreamFetch();
+    renderHook(() => useVaultEvents(undefined, () => {}, { fetch: stream.fetch }));
+    renderHook(() => useVaultEvents("vault-3", () => {}, { fetch: stream.fetch, enabled: false }));
+    expect(stream.urls).toEqual([]);
+  });
+
+  it("aborts the connection on unmount", async () => {
+    const stream = createStreamFetch();
+    const { unmount } = renderHook(() =>
+      useVaultEvents("vault-4", () => {}, { fetch: stream.fetch })
+    );
+
+    await waitFor(() => expect(stream.signals.length).toBe(1));
+    unmount();
+    expect(stream.signals[0].aborted).toBe(true);
+  });
+});
+
+// =============================================================================
+// subscribeToVaultEvents
+// =============================================================================
+
+describe("subscribeToVaultEvents", () => {
+  it("shares one connection between subscribers", async () => {
+    const stream = createStreamFetch();
+    const received: string[] = [];
+
+    const off1 = subscribeToVaultEvents("vault-5", { onEvent: (e) => received.push(`1:${e.path}`) }, stream.fetch);
+    const off2 = subscribeToVaultEvents("vault-5", { onEvent: (e) => received.push(`2:${e.path}`) }, stream.fetch);
+
+    await waitFor(() => expect(stream.signals.length).toBe(1));
+    stream.push(makeEvent("a.md"));
+    await waitFor(() => expect(received).toEqual(["1:a.md", "2:a.md"]));
+
+    off1();
+    expect(stream.signals[0].aborted).toBe(false);
+    off2();
+    expect(stream.signals[0].aborted).toBe(true);
+    expect(stream.urls.length).toBe(1);
+  });
+});
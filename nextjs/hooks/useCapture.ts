@@ -8,12 +8,16 @@
  * - REQ-F-16: Note capture via POST /api/vaults/:vaultId/capture
  * - REQ-F-17: Recent notes via GET /api/vaults/:vaultId/recent-notes
  * - REQ-F-18: Recent activity via GET /api/vaults/:vaultId/recent-activity
+ *
+ * Captures made while the daemon can't be reached are queued in the
+ * offline outbox and sent when the connection returns.
  */
 
 import { useState, useCallback, useMemo } from "react";
 import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
 import type { RecentNoteEntry, RecentDiscussionEntry } from "@memory-loop/shared";
 import type { FetchFn } from "@/lib/api/types";
+import { enqueueWrite, isOfflineError } from "@/lib/offline/outbox";
 
 /**
  * Result of a capture operation.
@@ -22,6 +26,12 @@ export interface CaptureResult {
   success: boolean;
   timestamp: string;
   notePath: string;
+  /** Name of the capture target written to, when one was chosen */
+  targetName?: string;
+  /** Title of a meeting that was stopped for going stale, sending this capture to the daily note */
+  meetingEnded?: string;
+  /** Set when the daemon couldn't be reached and the capture was queued to send later */
+  queued?: boolean;
 }
 
 /**
@@ -36,8 +46,8 @@ export interface RecentActivity {
  * Return type for the useCapture hook.
  */
 export interface UseCaptureResult {
-  /** Capture a note to today's daily note */
-  captureNote: (text: string) => Promise<CaptureResult | null>;
+  /** Capture a note to today's daily note, or to a named capture target */
+  captureNote: (text: string, target?: string) => Promise<CaptureResult | null>;
   /** Get recent captured notes from the vault inbox */
   getRecentNotes: (limit?: number) => Promise<RecentNoteEntry[]>;
   /** Get recent activity (captures + discussions) */
@@ -96,10 +106,10 @@ export function useCapture(
   }, []);
 
   /**
-   * Capture a note to today's daily note.
+   * Capture a note to today's daily note, or to a named capture target.
    */
   const captureNote = useCallback(
-    async (text: string): Promise<CaptureResult | null> => {
+    async (text: string, target?: string): Promise<CaptureResult | null> => {
       if (!vaultId) {
         setError("No vault selected");
         return null;
@@ -113,13 +123,20 @@ export function useCapture(
       setIsLoading(true);
       setError(null);
 
+      const path = vaultPath(vaultId, "capture");
+      const body = target ? { text, target } : { text };
       try {
-        const result = await api.post<CaptureResult>(
-          vaultPath(vaultId, "capture"),
-          { text }
-        );
+        const result = await api.post<CaptureResult>(path, body);
         return result;
       } catch (err) {
+        if (isOfflineError(err)) {
+          try {
+            const entry = await enqueueWrite({ method: "POST", path, body });
+            return { success: true, timestamp: entry.createdAt, notePath: "", queued: true };
+          } catch {
+            // Fall through and report the original error
+          }
+        }
         const message =
           err instanceof ApiError
             ? err.message
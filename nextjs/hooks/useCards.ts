@@ -9,6 +9,10 @@
  * - REQ-F-32: Card detail via GET /api/vaults/:vaultId/cards/:cardId
  * - REQ-F-33: Review submission via POST /api/vaults/:vaultId/cards/:cardId/review
  * - REQ-F-34: Card archiving via POST /api/vaults/:vaultId/cards/:cardId/archive
+ * - Review stats via GET /api/vaults/:vaultId/cards/stats
+ *
+ * Reviews made while the daemon can't be reached are queued in the offline
+ * outbox and sent when the connection returns.
  */
 
 import { useState, useCallback, useMemo } from "react";
@@ -19,8 +23,19 @@ import type {
   ReviewResult,
   DueCardsResponse,
   ArchiveResponse,
+  CardStatsResponse,
 } from "@memory-loop/shared";
 import type { FetchFn } from "@/lib/api/types";
+import { enqueueWrite, isOfflineError } from "@/lib/offline/outbox";
+
+/**
+ * Result of a review queued while offline. The schedule isn't known until
+ * the daemon receives it.
+ */
+export interface QueuedReview {
+  id: string;
+  queued: true;
+}
 
 /**
  * Return type for the useCards hook.
@@ -30,10 +45,16 @@ export interface UseCardsResult {
   getDueCards: () => Promise<DueCardsResponse | null>;
   /** Get full card detail (includes answer) */
   getCard: (cardId: string) => Promise<CardDetail | null>;
-  /** Submit a review response for a card */
-  submitReview: (cardId: string, response: ReviewResponse) => Promise<ReviewResult | null>;
+  /** Submit a review response for a card, with how long recall took if measured */
+  submitReview: (
+    cardId: string,
+    response: ReviewResponse,
+    timeToAnswerMs?: number
+  ) => Promise<ReviewResult | QueuedReview | null>;
   /** Archive a card (remove from review rotation) */
   archiveCard: (cardId: string) => Promise<ArchiveResponse | null>;
+  /** Get review stats (daily counts, retention, forecast, heatmap) */
+  getStats: () => Promise<CardStatsResponse | null>;
   /** Whether an operation is currently in progress */
   isLoading: boolean;
   /** Error message from the last failed operation */
@@ -160,10 +181,14 @@ export function useCards(
   );
 
   /**
-   * Submit a review response for a card.
+   * Submit a review response for a card. Queued for later when offline.
    */
   const submitReview = useCallback(
-    async (cardId: string, response: ReviewResponse): Promise<ReviewResult | null> => {
+    async (
+      cardId: string,
+      response: ReviewResponse,
+      timeToAnswerMs?: number
+    ): Promise<ReviewResult | QueuedReview | null> => {
       if (!vaultId) {
         setError("No vault selected");
         return null;
@@ -177,13 +202,20 @@ export function useCards(
       setIsLoading(true);
       setError(null);
 
+      const path = vaultPath(vaultId, `cards/${encodeURIComponent(cardId)}/review`);
+      const body = timeToAnswerMs === undefined ? { response } : { response, timeToAnswerMs };
       try {
-        const result = await api.post<ReviewResult>(
-          vaultPath(vaultId, `cards/${encodeURIComponent(cardId)}/review`),
-          { response }
-        );
+        const result = await api.post<ReviewResult>(path, body);
         return result;
       } catch (err) {
+        if (isOfflineError(err)) {
+          try {
+            await enqueueWrite({ method: "POST", path, body });
+            return { id: cardId, queued: true };
+          } catch {
+            // Fall through and report the original error
+          }
+        }
         const message =
           err instanceof ApiError
             ? err.message
@@ -238,11 +270,40 @@ export function useCards(
     [vaultId, api]
   );
 
+  /**
+   * Get review stats for the vault.
+   */
+  const getStats = useCallback(async (): Promise<CardStatsResponse | null> => {
+    if (!vaultId) {
+      setError("No vault selected");
+      return null;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return await api.get<CardStatsResponse>(vaultPath(vaultId, "cards/stats"));
+    } catch (err) {
+      const message =
+        err instanceof ApiError
+          ? err.message
+          : err instanceof Error
+            ? err.message
+            : "Failed to get review stats";
+      setError(message);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [vaultId, api]);
+
   return {
     getDueCards,
     getCard,
     submitReview,
     archiveCard,
+    getStats,
     isLoading,
     error,
     clearError,
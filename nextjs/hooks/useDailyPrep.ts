@@ -0,0 +1,250 @@
+/**
+ * useDailyPrep Hook
+ *
+ * Writes today's daily prep and reads its history via REST API, for Ground:
+ * - Create via POST /api/vaults/:vaultId/daily-prep/today
+ * - Energy/calendar via PATCH /api/vaults/:vaultId/daily-prep/today
+ * - Add via POST /api/vaults/:vaultId/daily-prep/today/commitments
+ * - Edit/remove via PATCH/DELETE /api/vaults/:vaultId/daily-prep/today/commitments/:index
+ * - Close the day via POST /api/vaults/:vaultId/daily-prep/today/closure
+ * - Trends via GET /api/vaults/:vaultId/daily-prep/history?from&to
+ *
+ * Every write resolves to today's status after the change.
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
+import type {
+  CalendarDensity,
+  CreateDailyPrepRequest,
+  EnergyLevel,
+  UpdateDailyPrepRequest,
+  UpdateCommitmentRequest,
+  DailyPrepClosureRequest,
+} from "@memory-loop/shared";
+import type { FetchFn } from "@/lib/api/types";
+import type { DailyPrepStatusResponse } from "./useHome";
+
+/**
+ * Morning answers for a new prep. Commitments default to none.
+ */
+export type DailyPrepMorning = Partial<CreateDailyPrepRequest>;
+
+/**
+ * Commitment counts for a day or group of days.
+ */
+export interface DailyPrepCompletionStats {
+  days: number;
+  commitments: number;
+  done: number;
+  partial: number;
+  blocked: number;
+  skipped: number;
+  unassessed: number;
+  /** done / assessed commitments (0-1), null if none were assessed */
+  completionRate: number | null;
+}
+
+/**
+ * One day in the history response.
+ */
+export interface DailyPrepHistoryDay extends Omit<DailyPrepCompletionStats, "days" | "completionRate"> {
+  date: string;
+  /** Day of week, 0 = Sunday */
+  weekday: number;
+  energy?: EnergyLevel;
+  calendar?: CalendarDensity;
+  closed: boolean;
+}
+
+/**
+ * A run of prep days with a blocked or skipped commitment.
+ */
+export interface DailyPrepStreak {
+  length: number;
+  start?: string;
+  end?: string;
+}
+
+/**
+ * Daily prep history response from the API.
+ */
+export interface DailyPrepHistoryResponse {
+  from: string;
+  to: string;
+  /** Prep days, oldest first */
+  days: DailyPrepHistoryDay[];
+  overall: DailyPrepCompletionStats;
+  byEnergy: Record<EnergyLevel, DailyPrepCompletionStats>;
+  byCalendar: Record<CalendarDensity, DailyPrepCompletionStats>;
+  /** Indexed by day of week, 0 = Sunday */
+  byWeekday: DailyPrepCompletionStats[];
+  streaks: Record<"blocked" | "skipped", { current: DailyPrepStreak; longest: DailyPrepStreak }>;
+}
+
+/**
+ * Return type for the useDailyPrep hook.
+ */
+export interface UseDailyPrepResult {
+  /** Creates today's prep from the morning answers */
+  createPrep: (morning: DailyPrepMorning) => Promise<DailyPrepStatusResponse | null>;
+  /** Changes today's energy or calendar */
+  updatePrep: (changes: UpdateDailyPrepRequest) => Promise<DailyPrepStatusResponse | null>;
+  /** Adds a commitment to the end of today's list */
+  addCommitment: (text: string) => Promise<DailyPrepStatusResponse | null>;
+  /** Edits a commitment's text, assessment, or note (0-based index) */
+  updateCommitment: (index: number, changes: UpdateCommitmentRequest) => Promise<DailyPrepStatusResponse | null>;
+  /** Removes a commitment (0-based index) */
+  removeCommitment: (index: number) => Promise<DailyPrepStatusResponse | null>;
+  /** Records assessments and the evening reflection */
+  closeDay: (closure: DailyPrepClosureRequest) => Promise<DailyPrepStatusResponse | null>;
+  /** Gets completion trends between two dates (YYYY-MM-DD); the daemon defaults to the last 90 days */
+  getHistory: (from?: string, to?: string) => Promise<DailyPrepHistoryResponse | null>;
+  /** Whether an operation is currently in progress */
+  isLoading: boolean;
+  /** Error message from the last failed operation */
+  error: string | null;
+  /** Clear the current error */
+  clearError: () => void;
+}
+
+/**
+ * Configuration options for useDailyPrep hook.
+ */
+export interface UseDailyPrepOptions {
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError || err instanceof Error) {
+    return err.message;
+  }
+  return fallback;
+}
+
+/**
+ * React hook for writing today's daily prep and reading prep trends.
+ *
+ * Failed requests set `error` and resolve to null.
+ *
+ * @param vaultId - The vault ID to write to
+ * @param options - Optional configuration (fetch for testing)
+ * @returns Daily prep operations, loading state, and error state
+ */
+export function useDailyPrep(
+  vaultId: string | undefined,
+  options: UseDailyPrepOptions = {}
+): UseDailyPrepResult {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Memoize API client to avoid recreating on each render
+  const api = useMemo(
+    () => createApiClient(options.fetch ? { fetch: options.fetch } : {}),
+    [options.fetch]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Runs a daily prep request with loading and error handling.
+   */
+  const run = useCallback(
+    async <T>(failureMessage: string, fn: (prepBase: string) => Promise<T>): Promise<T | null> => {
+      if (!vaultId) {
+        setError("No vault selected");
+        return null;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        return await fn(vaultPath(vaultId, "daily-prep"));
+      } catch (err) {
+        setError(errorMessage(err, failureMessage));
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [vaultId]
+  );
+
+  const createPrep = useCallback(
+    (morning: DailyPrepMorning) =>
+      run("Failed to save daily prep", (base) =>
+        api.post<DailyPrepStatusResponse>(`${base}/today`, morning)
+      ),
+    [run, api]
+  );
+
+  const updatePrep = useCallback(
+    (changes: UpdateDailyPrepRequest) =>
+      run("Failed to update daily prep", (base) =>
+        api.patch<DailyPrepStatusResponse>(`${base}/today`, changes)
+      ),
+    [run, api]
+  );
+
+  const addCommitment = useCallback(
+    (text: string) =>
+      run("Failed to add commitment", (base) =>
+        api.post<DailyPrepStatusResponse>(`${base}/today/commitments`, { text })
+      ),
+    [run, api]
+  );
+
+  const updateCommitment = useCallback(
+    (index: number, changes: UpdateCommitmentRequest) =>
+      run("Failed to update commitment", (base) =>
+        api.patch<DailyPrepStatusResponse>(`${base}/today/commitments/${index}`, changes)
+      ),
+    [run, api]
+  );
+
+  const removeCommitment = useCallback(
+    (index: number) =>
+      run("Failed to remove commitment", (base) =>
+        api.delete<DailyPrepStatusResponse>(`${base}/today/commitments/${index}`)
+      ),
+    [run, api]
+  );
+
+  const closeDay = useCallback(
+    (closure: DailyPrepClosureRequest) =>
+      run("Failed to close the day", (base) =>
+        api.post<DailyPrepStatusResponse>(`${base}/today/closure`, closure)
+      ),
+    [run, api]
+  );
+
+  const getHistory = useCallback(
+    (from?: string, to?: string) => {
+      const query = new URLSearchParams();
+      if (from) query.set("from", from);
+      if (to) query.set("to", to);
+      const search = query.size > 0 ? `?${query.toString()}` : "";
+      return run("Failed to load daily prep history", (base) =>
+        api.get<DailyPrepHistoryResponse>(`${base}/history${search}`)
+      );
+    },
+    [run, api]
+  );
+
+  return {
+    createPrep,
+    updatePrep,
+    addCommitment,
+    updateCommitment,
+    removeCommitment,
+    closeDay,
+    getHistory,
+    isLoading,
+    error,
+    clearError,
+  };
+}
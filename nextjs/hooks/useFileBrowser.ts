@@ -11,8 +11,9 @@
 
 import { useState, useCallback, useMemo } from "react";
 import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
-import type { FetchFn } from "@/lib/api/types";
-import type { FileEntry } from "@memory-loop/shared";
+import { FileConflictError, type FetchFn } from "@/lib/api/types";
+import type { FileEntry, VaultChangeEvent } from "@memory-loop/shared";
+import { useVaultEvents } from "./useVaultEvents";
 
 // =============================================================================
 // Response Types (matching backend route responses)
@@ -33,6 +34,8 @@ export interface FileContent {
   path: string;
   content: string;
   truncated: boolean;
+  /** Version token to send back as If-Match when saving */
+  etag?: string;
 }
 
 /**
@@ -55,6 +58,15 @@ export interface CreateDirectoryResponse {
 export interface WriteFileResponse {
   path: string;
   success: boolean;
+  etag?: string;
+}
+
+/**
+ * Options for writeFile.
+ */
+export interface WriteFileOptions {
+  /** Only write if the file is still at this version (etag from readFile) */
+  ifMatch?: string;
 }
 
 /**
@@ -105,6 +117,13 @@ export interface RenameFileResponse {
 export interface UseFileBrowserConfig {
   /** Custom fetch function for testing */
   fetch?: FetchFn;
+  /**
+   * Called with batched file change events from the vault watcher
+   * (including external edits). Subscribes only when provided.
+   */
+  onVaultChange?: (events: VaultChangeEvent[]) => void;
+  /** Called after the change stream reconnects, when events may have been missed */
+  onVaultResync?: () => void;
 }
 
 // =============================================================================
@@ -119,8 +138,11 @@ export interface UseFileBrowserResult {
   listDirectory: (path: string) => Promise<DirectoryListing>;
   /** Read file content */
   readFile: (path: string) => Promise<FileContent>;
-  /** Write content to an existing file */
-  writeFile: (path: string, content: string) => Promise<void>;
+  /**
+   * Write content to an existing file. Resolves to the new etag.
+   * Rejects with FileConflictError if ifMatch no longer matches.
+   */
+  writeFile: (path: string, content: string, options?: WriteFileOptions) => Promise<string | undefined>;
   /** Delete a file */
   deleteFile: (path: string) => Promise<void>;
   /** Create a new file (path is parent directory, name is the file name without extension) */
@@ -147,6 +169,22 @@ export interface UseFileBrowserResult {
 // Hook Implementation
 // =============================================================================
 
+/**
+ * Converts a 409 response carrying the server's current version into a
+ * FileConflictError. Other errors pass through unchanged.
+ */
+function toConflictError(err: ApiError): ApiError {
+  if (err.status !== 409 || typeof err.body !== "object" || err.body === null) {
+    return err;
+  }
+  const body = err.body as { error?: unknown; content?: unknown; etag?: unknown };
+  if (typeof body.content !== "string" || typeof body.etag !== "string") {
+    return err;
+  }
+  const message = typeof body.error === "string" ? body.error : "File changed on disk";
+  return new FileConflictError(message, body.content, body.etag);
+}
+
 /**
  * React hook for file browser operations on a vault.
  *
@@ -178,6 +216,14 @@ export function useFileBrowser(
     setError(null);
   }, []);
 
+  // Live refresh: forward vault change events to the caller
+  const { onVaultChange, onVaultResync } = config;
+  useVaultEvents(vaultId, (events) => onVaultChange?.(events), {
+    enabled: onVaultChange !== undefined,
+    onResync: onVaultResync,
+    fetch: config.fetch,
+  });
+
   /**
    * Helper to encode a file path for use in URL.
    * Each path segment is encoded separately to preserve slashes.
@@ -264,7 +310,7 @@ export function useFileBrowser(
    * PUT /api/vaults/:vaultId/files/:path
    */
   const writeFile = useCallback(
-    async (path: string, content: string): Promise<void> => {
+    async (path: string, content: string, options: WriteFileOptions = {}): Promise<string | undefined> => {
       if (!vaultId) {
         const err = new ApiError(400, "VALIDATION_ERROR", "No vault selected");
         setError(err);
@@ -281,12 +327,14 @@ export function useFileBrowser(
       setError(null);
 
       try {
-        await api.put<WriteFileResponse>(
+        const result = await api.put<WriteFileResponse>(
           vaultPath(vaultId, `files/${encodeFilePath(path)}`),
-          { content }
+          { content },
+          options.ifMatch ? { headers: { "If-Match": options.ifMatch } } : undefined
         );
+        return result?.etag;
       } catch (err) {
-        const apiError = err instanceof ApiError ? err : new ApiError(500, "INTERNAL_ERROR", String(err));
+        const apiError = err instanceof ApiError ? toConflictError(err) : new ApiError(500, "INTERNAL_ERROR", String(err));
         setError(apiError);
         throw apiError;
       } finally {
@@ -0,0 +1,170 @@
+/**
+ * useFileHistory Hook
+ *
+ * Reads and restores a file's saved versions via REST API:
+ * - Versions via GET /api/vaults/:vaultId/files/:path/history
+ * - Diffs via GET /api/vaults/:vaultId/files/:path/history/diff
+ * - Restore via POST /api/vaults/:vaultId/files/:path/history/:versionId/restore
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
+import type { DiffLine, FileHistory, FileVersion } from "@memory-loop/shared";
+import type { FetchFn } from "@/lib/api/types";
+
+/** Pseudo version ID for the file as it is on disk now */
+export const CURRENT_VERSION = "current";
+
+/**
+ * Diff response from the API.
+ */
+export interface FileVersionDiff {
+  path: string;
+  from: string;
+  to: string;
+  lines: DiffLine[];
+}
+
+/**
+ * Restore response from the API.
+ */
+export interface RestoreVersionResponse {
+  success: boolean;
+  etag: string;
+}
+
+/**
+ * Return type for the useFileHistory hook.
+ */
+export interface UseFileHistoryResult {
+  /** Saved versions of a file, newest first */
+  listVersions: (path: string) => Promise<FileVersion[]>;
+  /** Line diff from one version to another (default: the current file) */
+  getDiff: (path: string, from: string, to?: string) => Promise<DiffLine[] | null>;
+  /** Restores a version; resolves to the file's new etag, or null on failure */
+  restoreVersion: (path: string, versionId: string) => Promise<string | null>;
+  /** Whether an operation is currently in progress */
+  isLoading: boolean;
+  /** Error message from the last failed operation */
+  error: string | null;
+  /** Clear the current error */
+  clearError: () => void;
+}
+
+/**
+ * Configuration options for useFileHistory hook.
+ */
+export interface UseFileHistoryOptions {
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+/**
+ * Encodes each segment of a file path, preserving slashes.
+ */
+function encodeFilePath(filePath: string): string {
+  return filePath.split("/").map(encodeURIComponent).join("/");
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError || err instanceof Error) {
+    return err.message;
+  }
+  return fallback;
+}
+
+/**
+ * React hook for file version history.
+ *
+ * Failed requests set `error` and resolve to an empty or null result.
+ *
+ * @param vaultId - The vault ID to query
+ * @param options - Optional configuration (fetch for testing)
+ * @returns History functions, loading state, and error state
+ */
+export function useFileHistory(
+  vaultId: string | undefined,
+  options: UseFileHistoryOptions = {}
+): UseFileHistoryResult {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Memoize API client to avoid recreating on each render
+  const api = useMemo(
+    () => createApiClient(options.fetch ? { fetch: options.fetch } : {}),
+    [options.fetch]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Runs a history request with loading and error handling.
+   */
+  const run = useCallback(
+    async <T>(
+      fallback: T,
+      failureMessage: string,
+      fn: (historyBase: string) => Promise<T>,
+      path: string
+    ): Promise<T> => {
+      if (!vaultId) {
+        setError("No vault selected");
+        return fallback;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        return await fn(vaultPath(vaultId, `files/${encodeFilePath(path)}/history`));
+      } catch (err) {
+        setError(errorMessage(err, failureMessage));
+        return fallback;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [vaultId]
+  );
+
+  const listVersions = useCallback(
+    (path: string) =>
+      run<FileVersion[]>([], "Failed to load history", async (base) => {
+        const result = await api.get<FileHistory>(base);
+        return result.versions;
+      }, path),
+    [run, api]
+  );
+
+  const getDiff = useCallback(
+    (path: string, from: string, to: string = CURRENT_VERSION) =>
+      run<DiffLine[] | null>(null, "Failed to load diff", async (base) => {
+        const query = new URLSearchParams({ from, to }).toString();
+        const result = await api.get<FileVersionDiff>(`${base}/diff?${query}`);
+        return result.lines;
+      }, path),
+    [run, api]
+  );
+
+  const restoreVersion = useCallback(
+    (path: string, versionId: string) =>
+      run<string | null>(null, "Failed to restore version", async (base) => {
+        const result = await api.post<RestoreVersionResponse>(
+          `${base}/${encodeURIComponent(versionId)}/restore`
+        );
+        return result.etag;
+      }, path),
+    [run, api]
+  );
+
+  return {
+    listVersions,
+    getDiff,
+    restoreVersion,
+    isLoading,
+    error,
+    clearError,
+  };
+}
@@ -9,12 +9,22 @@
  * - REQ-F-20: Inspiration via GET /api/vaults/:vaultId/inspiration
  * - REQ-F-21: Tasks via GET /api/vaults/:vaultId/tasks
  * - REQ-F-22: Task toggle via PATCH /api/vaults/:vaultId/tasks
+ *
+ * Toggles to an explicit state made while the daemon can't be reached are
+ * queued in the offline outbox and sent when the connection returns.
  */
 
 import { useState, useCallback, useMemo } from "react";
 import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
-import type { TaskEntry, InspirationItem } from "@memory-loop/shared";
+import type {
+  TaskEntry,
+  InspirationItem,
+  EnergyLevel,
+  CalendarDensity,
+  CommitmentAssessment,
+} from "@memory-loop/shared";
 import type { FetchFn } from "@/lib/api/types";
+import { enqueueWrite, isOfflineError } from "@/lib/offline/outbox";
 
 /**
  * Goals response from the API.
@@ -47,6 +57,22 @@ export interface TaskToggledResponse {
   filePath: string;
   lineNumber: number;
   newState: string;
+  /** Next occurrence inserted below a completed recurring task */
+  nextTask?: { lineNumber: number; text: string };
+  /** Parent tasks completed because all of their subtasks were done */
+  completedParents?: number[];
+  /** Set when the daemon couldn't be reached and the toggle was queued to send later */
+  queued?: boolean;
+}
+
+/**
+ * A commitment from today's daily prep.
+ */
+export interface DailyPrepCommitment {
+  text: string;
+  /** Evening assessment, null until assessed */
+  assessment: CommitmentAssessment | null;
+  note?: string;
 }
 
 /**
@@ -55,8 +81,12 @@ export interface TaskToggledResponse {
 export interface DailyPrepStatusResponse {
   exists: boolean;
   commitment?: string[];
-  energy?: string;
-  calendar?: string;
+  energy?: EnergyLevel;
+  calendar?: CalendarDensity;
+  /** Commitments with their evening assessments */
+  commitmentItems?: DailyPrepCommitment[];
+  /** Set once the day has been closed */
+  closure?: { completed_at: string; reflection: string };
 }
 
 /**
@@ -73,7 +103,8 @@ export interface UseHomeResult {
   toggleTask: (
     filePath: string,
     lineNumber: number,
-    newState?: string
+    newState?: string,
+    expectedText?: string
   ) => Promise<TaskToggledResponse | null>;
   /** Get daily prep status for today */
   getDailyPrepStatus: () => Promise<DailyPrepStatusResponse | null>;
@@ -217,13 +248,16 @@ export function useHome(
   }, [vaultId, api]);
 
   /**
-   * Toggle a task's completion state.
+   * Toggle a task's completion state. Queued for later when offline and
+   * both `newState` and `expectedText` are given; the daemon refuses the
+   * replay (409) if the line no longer holds that task.
    */
   const toggleTask = useCallback(
     async (
       filePath: string,
       lineNumber: number,
-      newState?: string
+      newState?: string,
+      expectedText?: string
     ): Promise<TaskToggledResponse | null> => {
       if (!vaultId) {
         setError("No vault selected");
@@ -243,21 +277,33 @@ export function useHome(
       setIsLoading(true);
       setError(null);
 
-      try {
-        const body: { filePath: string; lineNumber: number; newState?: string } = {
-          filePath,
-          lineNumber,
-        };
-        if (newState !== undefined) {
-          body.newState = newState;
-        }
+      const path = vaultPath(vaultId, "tasks");
+      const body: { filePath: string; lineNumber: number; newState?: string; expectedText?: string } = {
+        filePath,
+        lineNumber,
+      };
+      if (newState !== undefined) {
+        body.newState = newState;
+      }
+      if (expectedText !== undefined) {
+        body.expectedText = expectedText;
+      }
 
-        const result = await api.patch<TaskToggledResponse>(
-          vaultPath(vaultId, "tasks"),
-          body
-        );
+      try {
+        const result = await api.patch<TaskToggledResponse>(path, body);
         return result;
       } catch (err) {
+        // Only a set state on a known task is safe to replay; a cycle would
+        // depend on whatever state the task has by then, and without the
+        // text the line could hold a different task
+        if (newState !== undefined && expectedText !== undefined && isOfflineError(err)) {
+          try {
+            await enqueueWrite({ method: "PATCH", path, body });
+            return { filePath, lineNumber, newState, queued: true };
+          } catch {
+            // Fall through and report the original error
+          }
+        }
         const message =
           err instanceof ApiError
             ? err.message
@@ -0,0 +1,146 @@
+/**
+ * useLinks Hook
+ *
+ * Reads the vault link graph via REST API:
+ * - Backlinks via GET /api/vaults/:vaultId/links/backlinks
+ * - Outgoing links via GET /api/vaults/:vaultId/links/outgoing
+ * - Unresolved links via GET /api/vaults/:vaultId/links/unresolved
+ * - Unlinked mentions via GET /api/vaults/:vaultId/links/unlinked
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
+import type { NoteLink } from "@memory-loop/shared";
+import type { FetchFn } from "@/lib/api/types";
+
+/**
+ * Links response from the API.
+ */
+export interface LinksResponse {
+  path?: string;
+  links: NoteLink[];
+}
+
+/**
+ * Return type for the useLinks hook.
+ */
+export interface UseLinksResult {
+  /** Notes linking to a note */
+  getBacklinks: (path: string) => Promise<NoteLink[]>;
+  /** Links from a note, resolved or not */
+  getOutgoingLinks: (path: string) => Promise<NoteLink[]>;
+  /** Links to missing notes, for one note or the whole vault */
+  getUnresolvedLinks: (path?: string) => Promise<NoteLink[]>;
+  /** Plain-text mentions of a note's title in other notes */
+  getUnlinkedMentions: (path: string, limit?: number) => Promise<NoteLink[]>;
+  /** Whether an operation is currently in progress */
+  isLoading: boolean;
+  /** Error message from the last failed operation */
+  error: string | null;
+  /** Clear the current error */
+  clearError: () => void;
+}
+
+/**
+ * Configuration options for useLinks hook.
+ */
+export interface UseLinksOptions {
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+/**
+ * React hook for link graph queries.
+ *
+ * Failed requests set `error` and resolve to an empty list.
+ *
+ * @param vaultId - The vault ID to query
+ * @param options - Optional configuration (fetch for testing)
+ * @returns Link query functions, loading state, and error state
+ */
+export function useLinks(
+  vaultId: string | undefined,
+  options: UseLinksOptions = {}
+): UseLinksResult {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Memoize API client to avoid recreating on each render
+  const api = useMemo(
+    () => createApiClient(options.fetch ? { fetch: options.fetch } : {}),
+    [options.fetch]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Fetches one of the links endpoints.
+   */
+  const fetchLinks = useCallback(
+    async (
+      endpoint: "backlinks" | "outgoing" | "unresolved" | "unlinked",
+      params: Record<string, string>
+    ): Promise<NoteLink[]> => {
+      if (!vaultId) {
+        setError("No vault selected");
+        return [];
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const query = new URLSearchParams(params).toString();
+        const result = await api.get<LinksResponse>(
+          `${vaultPath(vaultId, `links/${endpoint}`)}${query ? `?${query}` : ""}`
+        );
+        return result.links;
+      } catch (err) {
+        const message =
+          err instanceof ApiError
+            ? err.message
+            : err instanceof Error
+              ? err.message
+              : "Failed to load links";
+        setError(message);
+        return [];
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [vaultId, api]
+  );
+
+  const getBacklinks = useCallback(
+    (path: string) => fetchLinks("backlinks", { path }),
+    [fetchLinks]
+  );
+
+  const getOutgoingLinks = useCallback(
+    (path: string) => fetchLinks("outgoing", { path }),
+    [fetchLinks]
+  );
+
+  const getUnresolvedLinks = useCallback(
+    (path?: string) => fetchLinks("unresolved", path ? { path } : {}),
+    [fetchLinks]
+  );
+
+  const getUnlinkedMentions = useCallback(
+    (path: string, limit?: number) =>
+      fetchLinks("unlinked", limit !== undefined ? { path, limit: String(limit) } : { path }),
+    [fetchLinks]
+  );
+
+  return {
+    getBacklinks,
+    getOutgoingLinks,
+    getUnresolvedLinks,
+    getUnlinkedMentions,
+    isLoading,
+    error,
+    clearError,
+  };
+}
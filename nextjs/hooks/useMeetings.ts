@@ -14,7 +14,8 @@ import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
 import type { FetchFn } from "@/lib/api/types";
 
 /**
- * Response from POST /meetings (start meeting).
+ * Meeting returned by POST /meetings (start meeting), which the daemon
+ * wraps as `{ meeting }`.
  */
 export interface MeetingStartedResponse {
   title: string;
@@ -22,6 +23,24 @@ export interface MeetingStartedResponse {
   startedAt: string;
 }
 
+/**
+ * Optional details for a new meeting, written to its frontmatter.
+ */
+export interface MeetingDetails {
+  attendees?: string[];
+  agenda?: string[];
+}
+
+/**
+ * Summary, decisions, and action items appended when a meeting stops
+ * (vaults with meeting wrap-up on).
+ */
+export interface MeetingWrapUp {
+  summary: string;
+  decisions: string[];
+  actionItems: Array<{ text: string; owner?: string; due?: string }>;
+}
+
 /**
  * Response from DELETE /meetings/current (stop meeting).
  */
@@ -29,24 +48,32 @@ export interface MeetingStoppedResponse {
   filePath: string;
   content: string;
   entryCount: number;
+  /** Present when the wrap-up ran */
+  wrapUp?: MeetingWrapUp;
+  /** Why the wrap-up failed, if it did */
+  wrapUpError?: string;
 }
 
 /**
- * Response from GET /meetings/current (meeting state).
+ * Meeting state from GET /meetings/current, which the daemon wraps as
+ * `{ meeting }`.
  */
 export interface MeetingStateResponse {
   isActive: boolean;
   title?: string;
   filePath?: string;
   startedAt?: string;
+  lastCaptureAt?: string;
+  /** Set when the meeting was restored after a daemon restart */
+  resumedAt?: string;
 }
 
 /**
  * Return type for the useMeetings hook.
  */
 export interface UseMeetingsResult {
-  /** Start a new meeting with the given title */
-  startMeeting: (title: string) => Promise<MeetingStartedResponse | null>;
+  /** Start a new meeting with the given title, attendees, and agenda */
+  startMeeting: (title: string, details?: MeetingDetails) => Promise<MeetingStartedResponse | null>;
   /** Stop the current meeting */
   stopMeeting: () => Promise<MeetingStoppedResponse | null>;
   /** Get the current meeting state */
@@ -104,10 +131,10 @@ export function useMeetings(
   }, []);
 
   /**
-   * Start a new meeting with the given title.
+   * Start a new meeting with the given title, attendees, and agenda.
    */
   const startMeeting = useCallback(
-    async (title: string): Promise<MeetingStartedResponse | null> => {
+    async (title: string, details: MeetingDetails = {}): Promise<MeetingStartedResponse | null> => {
       if (!vaultId) {
         setError("No vault selected");
         return null;
@@ -122,11 +149,11 @@ export function useMeetings(
       setError(null);
 
       try {
-        const result = await api.post<MeetingStartedResponse>(
+        const { meeting } = await api.post<{ meeting: MeetingStartedResponse }>(
           vaultPath(vaultId, "meetings"),
-          { title }
+          { title, ...details }
         );
-        return result;
+        return meeting;
       } catch (err) {
         const message =
           err instanceof ApiError
@@ -187,10 +214,10 @@ export function useMeetings(
     setError(null);
 
     try {
-      const result = await api.get<MeetingStateResponse>(
+      const { meeting } = await api.get<{ meeting: MeetingStateResponse }>(
         vaultPath(vaultId, "meetings/current")
       );
-      return result;
+      return meeting;
     } catch (err) {
       const message =
         err instanceof ApiError
@@ -0,0 +1,78 @@
+/**
+ * useOutbox Hooks
+ *
+ * Connects the offline outbox (lib/offline/outbox.ts) to React:
+ * - useOutbox: the number of writes waiting to be sent
+ * - useOutboxSync: registers the service worker and replays the outbox
+ *   when the page loads, when the browser comes back online, and when the
+ *   service worker reports that it changed the queue
+ */
+
+import { useEffect, useSyncExternalStore } from "react";
+import { createLogger } from "@memory-loop/shared";
+import {
+  flushOutbox,
+  getPendingCount,
+  refreshPendingCount,
+  subscribeToOutbox,
+} from "@/lib/offline/outbox";
+import type { FetchFn } from "@/lib/api/types";
+
+const log = createLogger("useOutbox");
+
+/**
+ * Configuration options for useOutboxSync.
+ */
+export interface UseOutboxSyncOptions {
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+  /** Register public/sw.js (defaults to production builds only) */
+  registerServiceWorker?: boolean;
+}
+
+/**
+ * Returns how many writes are queued in the outbox.
+ */
+export function useOutbox(): number {
+  return useSyncExternalStore(subscribeToOutbox, getPendingCount, () => 0);
+}
+
+/**
+ * Keeps the outbox draining. Mount once, near the root of the app.
+ *
+ * @param options - Optional configuration (fetch for testing)
+ */
+export function useOutboxSync(options: UseOutboxSyncOptions = {}): void {
+  const { fetch: fetchFn, registerServiceWorker = process.env.NODE_ENV === "production" } = options;
+
+  useEffect(() => {
+    const flush = () => {
+      void flushOutbox(fetchFn).then((result) => {
+        if (result.sent > 0 || result.dropped > 0) {
+          log.info(`Replayed outbox: ${result.sent} sent, ${result.dropped} dropped, ${result.remaining} waiting`);
+        }
+      });
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if ((event.data as { type?: string } | null)?.type === "outbox-changed") {
+        void refreshPendingCount();
+      }
+    };
+
+    window.addEventListener("online", flush);
+    navigator.serviceWorker?.addEventListener("message", handleMessage);
+    flush();
+
+    return () => {
+      window.removeEventListener("online", flush);
+      navigator.serviceWorker?.removeEventListener("message", handleMessage);
+    };
+  }, [fetchFn]);
+
+  useEffect(() => {
+    if (!registerServiceWorker || !navigator.serviceWorker) return;
+    navigator.serviceWorker.register("/sw.js").catch((err: unknown) => {
+      log.warn("Service worker registration failed", err);
+    });
+  }, [registerServiceWorker]);
+}
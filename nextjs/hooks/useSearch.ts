@@ -8,12 +8,17 @@
  * - REQ-F-26: File name search via GET /api/vaults/:vaultId/search/files
  * - REQ-F-27: Content search via GET /api/vaults/:vaultId/search/content
  * - REQ-F-28: Context snippets via GET /api/vaults/:vaultId/search/snippets
+ *
+ * With scope "all", file and content search use GET /api/search/files and
+ * GET /api/search/content, which merge results from every vault with a
+ * built index; indexVaults builds the ones they skip (POST /api/search/index).
  */
 
 import { useState, useCallback, useMemo } from "react";
 import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
 import type { FileSearchResult, ContentSearchResult, ContextSnippet } from "@memory-loop/shared";
 import type { FetchFn } from "@/lib/api/types";
+import type { SearchScope } from "@/contexts/SessionContext";
 
 /**
  * Search results response from the API.
@@ -22,6 +27,20 @@ export interface SearchResultsResponse<T> {
   results: T[];
   totalMatches: number;
   searchTimeMs: number;
+  /** Number of vaults searched (scope "all" only) */
+  vaultsSearched?: number;
+  /** IDs of vaults not searched because their index isn't built yet (scope "all" only) */
+  vaultsSkipped?: string[];
+}
+
+/**
+ * Response from building the indexes all-vaults search skips.
+ */
+export interface IndexVaultsResponse {
+  /** IDs of vaults whose index was built */
+  vaultsIndexed: string[];
+  /** IDs of vaults still without an index */
+  vaultsSkipped: string[];
 }
 
 /**
@@ -37,11 +56,13 @@ export interface SnippetsResponse {
  */
 export interface UseSearchResult {
   /** Search files by name using fuzzy matching */
-  searchFiles: (query: string, limit?: number) => Promise<SearchResultsResponse<FileSearchResult> | null>;
+  searchFiles: (query: string, limit?: number, scope?: SearchScope) => Promise<SearchResultsResponse<FileSearchResult> | null>;
   /** Search file contents using full-text search */
-  searchContent: (query: string, limit?: number) => Promise<SearchResultsResponse<ContentSearchResult> | null>;
-  /** Get context snippets for a file matching a query */
-  getSnippets: (path: string, query: string) => Promise<ContextSnippet[]>;
+  searchContent: (query: string, limit?: number, scope?: SearchScope) => Promise<SearchResultsResponse<ContentSearchResult> | null>;
+  /** Get context snippets for a file matching a query (in another vault when resultVaultId is given) */
+  getSnippets: (path: string, query: string, resultVaultId?: string) => Promise<ContextSnippet[]>;
+  /** Build the indexes of vaults all-vaults search skips */
+  indexVaults: () => Promise<IndexVaultsResponse | null>;
   /** Whether an operation is currently in progress */
   isLoading: boolean;
   /** Error message from the last failed operation */
@@ -58,6 +79,21 @@ export interface UseSearchOptions {
   fetch?: FetchFn;
 }
 
+/**
+ * Builds the search endpoint for a scope. Callers reject scope "vault"
+ * without a vault before getting here.
+ */
+function searchPath(
+  vaultId: string | undefined,
+  scope: SearchScope,
+  kind: "files" | "content"
+): string {
+  if (scope === "all" || !vaultId) {
+    return `/api/search/${kind}`;
+  }
+  return vaultPath(vaultId, `search/${kind}`);
+}
+
 /**
  * React hook for search operations.
  *
@@ -100,9 +136,10 @@ export function useSearch(
   const searchFiles = useCallback(
     async (
       query: string,
-      limit?: number
+      limit?: number,
+      scope: SearchScope = "vault"
     ): Promise<SearchResultsResponse<FileSearchResult> | null> => {
-      if (!vaultId) {
+      if (!vaultId && scope === "vault") {
         setError("No vault selected");
         return null;
       }
@@ -122,7 +159,7 @@ export function useSearch(
         }
 
         const result = await api.get<SearchResultsResponse<FileSearchResult>>(
-          `${vaultPath(vaultId, "search/files")}?${params.toString()}`
+          `${searchPath(vaultId, scope, "files")}?${params.toString()}`
         );
         return result;
       } catch (err) {
@@ -147,9 +184,10 @@ export function useSearch(
   const searchContent = useCallback(
     async (
       query: string,
-      limit?: number
+      limit?: number,
+      scope: SearchScope = "vault"
     ): Promise<SearchResultsResponse<ContentSearchResult> | null> => {
-      if (!vaultId) {
+      if (!vaultId && scope === "vault") {
         setError("No vault selected");
         return null;
       }
@@ -169,7 +207,7 @@ export function useSearch(
         }
 
         const result = await api.get<SearchResultsResponse<ContentSearchResult>>(
-          `${vaultPath(vaultId, "search/content")}?${params.toString()}`
+          `${searchPath(vaultId, scope, "content")}?${params.toString()}`
         );
         return result;
       } catch (err) {
@@ -192,8 +230,9 @@ export function useSearch(
    * Get context snippets for a file matching a query.
    */
   const getSnippets = useCallback(
-    async (path: string, query: string): Promise<ContextSnippet[]> => {
-      if (!vaultId) {
+    async (path: string, query: string, resultVaultId?: string): Promise<ContextSnippet[]> => {
+      const targetVaultId = resultVaultId ?? vaultId;
+      if (!targetVaultId) {
         setError("No vault selected");
         return [];
       }
@@ -214,7 +253,7 @@ export function useSearch(
       try {
         const params = new URLSearchParams({ path, q: query });
         const result = await api.get<SnippetsResponse>(
-          `${vaultPath(vaultId, "search/snippets")}?${params.toString()}`
+          `${vaultPath(targetVaultId, "search/snippets")}?${params.toString()}`
         );
         return result.snippets;
       } catch (err) {
@@ -233,10 +272,34 @@ export function useSearch(
     [vaultId, api]
   );
 
+  /**
+   * Build the indexes of vaults all-vaults search skips.
+   */
+  const indexVaults = useCallback(async (): Promise<IndexVaultsResponse | null> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return await api.post<IndexVaultsResponse>("/api/search/index");
+    } catch (err) {
+      const message =
+        err instanceof ApiError
+          ? err.message
+          : err instanceof Error
+            ? err.message
+            : "Failed to index vaults";
+      setError(message);
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api]);
+
   return {
     searchFiles,
     searchContent,
     getSnippets,
+    indexVaults,
     isLoading,
     error,
     clearError,
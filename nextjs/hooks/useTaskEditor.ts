@@ -0,0 +1,189 @@
+/**
+ * useTaskEditor Hook
+ *
+ * Creates, edits, deletes, and moves tasks via REST API:
+ * - Create via POST /api/vaults/:vaultId/tasks
+ * - Edit via PUT /api/vaults/:vaultId/tasks
+ * - Delete via DELETE /api/vaults/:vaultId/tasks?filePath=&lineNumber=
+ * - Move via POST /api/vaults/:vaultId/tasks/move
+ *
+ * Edit, delete, and move take the task text the caller last saw; the daemon
+ * refuses the write (409) if the line now holds a different task.
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
+import type { CreateTaskRequest, TaskFields } from "@memory-loop/shared";
+import type { FetchFn } from "@/lib/api/types";
+
+/**
+ * Response from a task write: where the task is now and its new text.
+ */
+export interface TaskWriteResponse {
+  success: boolean;
+  filePath: string;
+  lineNumber: number;
+  /** Task text after the change (everything after "- [ ] ") */
+  text: string;
+}
+
+/**
+ * Changes for an edit. Omitted fields are kept; null clears a field.
+ */
+export type TaskEdit = TaskFields & { text?: string };
+
+/**
+ * Return type for the useTaskEditor hook.
+ */
+export interface UseTaskEditorResult {
+  /** Creates a task (in today's daily note unless filePath is given) */
+  createTask: (task: CreateTaskRequest) => Promise<TaskWriteResponse | null>;
+  /** Edits a task's text and metadata in place */
+  editTask: (
+    filePath: string,
+    lineNumber: number,
+    changes: TaskEdit,
+    expectedText?: string
+  ) => Promise<TaskWriteResponse | null>;
+  /** Deletes a task line; resolves to true on success */
+  deleteTask: (filePath: string, lineNumber: number, expectedText?: string) => Promise<boolean>;
+  /** Moves a task to another file, optionally under a heading */
+  moveTask: (
+    filePath: string,
+    lineNumber: number,
+    toFilePath: string,
+    heading?: string,
+    expectedText?: string
+  ) => Promise<TaskWriteResponse | null>;
+  /** Whether an operation is currently in progress */
+  isLoading: boolean;
+  /** Error message from the last failed operation */
+  error: string | null;
+  /** Clear the current error */
+  clearError: () => void;
+}
+
+/**
+ * Configuration options for useTaskEditor hook.
+ */
+export interface UseTaskEditorOptions {
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError || err instanceof Error) {
+    return err.message;
+  }
+  return fallback;
+}
+
+/**
+ * React hook for writing tasks back to vault files.
+ *
+ * Failed requests set `error` and resolve to null or false. Callers refetch
+ * the task list after a successful write, since line numbers may shift.
+ *
+ * @param vaultId - The vault ID to write to
+ * @param options - Optional configuration (fetch for testing)
+ * @returns Task operations, loading state, and error state
+ */
+export function useTaskEditor(
+  vaultId: string | undefined,
+  options: UseTaskEditorOptions = {}
+): UseTaskEditorResult {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Memoize API client to avoid recreating on each render
+  const api = useMemo(
+    () => createApiClient(options.fetch ? { fetch: options.fetch } : {}),
+    [options.fetch]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Runs a task request with loading and error handling.
+   */
+  const run = useCallback(
+    async <T>(
+      fallback: T,
+      failureMessage: string,
+      fn: (tasksBase: string) => Promise<T>
+    ): Promise<T> => {
+      if (!vaultId) {
+        setError("No vault selected");
+        return fallback;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        return await fn(vaultPath(vaultId, "tasks"));
+      } catch (err) {
+        setError(errorMessage(err, failureMessage));
+        return fallback;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [vaultId]
+  );
+
+  const createTask = useCallback(
+    (task: CreateTaskRequest) =>
+      run<TaskWriteResponse | null>(null, "Failed to add task", (base) =>
+        api.post<TaskWriteResponse>(base, task)
+      ),
+    [run, api]
+  );
+
+  const editTask = useCallback(
+    (filePath: string, lineNumber: number, changes: TaskEdit, expectedText?: string) =>
+      run<TaskWriteResponse | null>(null, "Failed to edit task", (base) =>
+        api.put<TaskWriteResponse>(base, { filePath, lineNumber, expectedText, ...changes })
+      ),
+    [run, api]
+  );
+
+  const deleteTask = useCallback(
+    (filePath: string, lineNumber: number, expectedText?: string) =>
+      run<boolean>(false, "Failed to delete task", async (base) => {
+        const expected =
+          expectedText !== undefined ? `&expectedText=${encodeURIComponent(expectedText)}` : "";
+        await api.delete(
+          `${base}?filePath=${encodeURIComponent(filePath)}&lineNumber=${lineNumber}${expected}`
+        );
+        return true;
+      }),
+    [run, api]
+  );
+
+  const moveTask = useCallback(
+    (filePath: string, lineNumber: number, toFilePath: string, heading?: string, expectedText?: string) =>
+      run<TaskWriteResponse | null>(null, "Failed to move task", (base) =>
+        api.post<TaskWriteResponse>(`${base}/move`, {
+          filePath,
+          lineNumber,
+          toFilePath,
+          heading,
+          expectedText,
+        })
+      ),
+    [run, api]
+  );
+
+  return {
+    createTask,
+    editTask,
+    deleteTask,
+    moveTask,
+    isLoading,
+    error,
+    clearError,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * useTrash Hook
+ *
+ * Lists, restores, and permanently deletes trashed items via REST API:
+ * - List via GET /api/vaults/:vaultId/trash
+ * - Restore via POST /api/vaults/:vaultId/trash/:itemId/restore
+ * - Delete forever via DELETE /api/vaults/:vaultId/trash/:itemId
+ * - Empty via DELETE /api/vaults/:vaultId/trash
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import { createApiClient, vaultPath, ApiError } from "@/lib/api/client";
+import type { TrashItem, TrashList } from "@memory-loop/shared";
+import type { FetchFn } from "@/lib/api/types";
+
+/**
+ * Restore response from the API.
+ */
+export interface RestoreTrashResponse {
+  success: boolean;
+  /** Path the item was restored to (may differ if the original was taken) */
+  path: string;
+  isDirectory: boolean;
+}
+
+/**
+ * Return type for the useTrash hook.
+ */
+export interface UseTrashResult {
+  /** Trashed items, newest first (empty until loaded) */
+  items: TrashItem[];
+  /** Days an item is kept before it is purged (null until loaded) */
+  retentionDays: number | null;
+  /** Loads the trash listing */
+  loadTrash: () => Promise<void>;
+  /** Restores an item; resolves to the restored path, or null on failure */
+  restoreItem: (itemId: string) => Promise<string | null>;
+  /** Permanently deletes an item; resolves to true on success */
+  deleteItem: (itemId: string) => Promise<boolean>;
+  /** Permanently deletes everything; resolves to true on success */
+  emptyTrash: () => Promise<boolean>;
+  /** Whether an operation is currently in progress */
+  isLoading: boolean;
+  /** Error message from the last failed operation */
+  error: string | null;
+  /** Clear the current error */
+  clearError: () => void;
+}
+
+/**
+ * Configuration options for useTrash hook.
+ */
+export interface UseTrashOptions {
+  /** Custom fetch implementation for testing */
+  fetch?: FetchFn;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof ApiError || err instanceof Error) {
+    return err.message;
+  }
+  return fallback;
+}
+
+/**
+ * React hook for the vault trash.
+ *
+ * Failed requests set `error` and resolve to a null or false result.
+ * Successful restores and deletes remove the item from `items`.
+ *
+ * @param vaultId - The vault ID to query
+ * @param options - Optional configuration (fetch for testing)
+ * @returns Trash items, operations, loading state, and error state
+ */
+export function useTrash(
+  vaultId: string | undefined,
+  options: UseTrashOptions = {}
+): UseTrashResult {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Memoize API client to avoid recreating on each render
+  const api = useMemo(
+    () => createApiClient(options.fetch ? { fetch: options.fetch } : {}),
+    [options.fetch]
+  );
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Runs a trash request with loading and error handling.
+   */
+  const run = useCallback(
+    async <T>(
+      fallback: T,
+      failureMessage: string,
+      fn: (trashBase: string) => Promise<T>
+    ): Promise<T> => {
+      if (!vaultId) {
+        setError("No vault selected");
+        return fallback;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        return await fn(vaultPath(vaultId, "trash"));
+      } catch (err) {
+        setError(errorMessage(err, failureMessage));
+        return fallback;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [vaultId]
+  );
+
+  const removeItem = useCallback((itemId: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== itemId));
+  }, []);
+
+  const loadTrash = useCallback(
+    () =>
+      run<void>(undefined, "Failed to load trash", async (base) => {
+        const result = await api.get<TrashList>(base);
+        setItems(result.items);
+        setRetentionDays(result.retentionDays);
+      }),
+    [run, api]
+  );
+
+  const restoreItem = useCallback(
+    (itemId: string) =>
+      run<string | null>(null, "Failed to restore item", async (base) => {
+        const result = await api.post<RestoreTrashResponse>(
+          `${base}/${encodeURIComponent(itemId)}/restore`
+        );
+        removeItem(itemId);
+        return result.path;
+      }),
+    [run, api, removeItem]
+  );
+
+  const deleteItem = useCallback(
+    (itemId: string) =>
+      run<boolean>(false, "Failed to delete item", async (base) => {
+        await api.delete(`${base}/${encodeURIComponent(itemId)}`);
+        removeItem(itemId);
+        return true;
+      }),
+    [run, api, removeItem]
+  );
+
+  const emptyTrash = useCallback(
+    () =>
+      run<boolean>(false, "Failed to empty trash", async (base) => {
+        await api.delete(base);
+        setItems([]);
+        return true;
+      }),
+    [run, api]
+  );
+
+  return {
+    items,
+    retentionDays,
+    loadTrash,
+    restoreItem,
+    deleteItem,
+    emptyTrash,
+    isLoading,
+    error,
+    clearError,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * useVaultEvents Hook
+ *
+ * Subscribes to live file change events for a vault via SSE
+ * (GET /api/vaults/:vaultId/events). The daemon's filesystem watcher
+ * publishes an event whenever a file is created, changed or deleted,
+ * including edits made outside Memory Loop (e.g. in Obsidian).
+ *
+ * All subscribers for a vault share one connection, so mounting the hook
+ * in several components doesn't multiply open streams. Dropped connections
+ * reconnect with backoff; subscribers are told to resync afterwards since
+ * events may have been missed while disconnected.
+ */
+
+import { useEffect, useRef } from "react";
+import { vaultPath } from "@/lib/api/client";
+import type { FetchFn } from "@/lib/api/types";
+import type { VaultChangeEvent } from "@memory-loop/shared";
+import { createLogger } from "@memory-loop/shared";
+
+const log = createLogger("useVaultEvents");
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Handlers registered by a subscriber.
+ */
+export interface VaultEventHandlers {
+  /** Called with each change event */
+  onEvent: (event: VaultChangeEvent) => void;
+  /** Called after a dropped connection is re-established */
+  onResync?: () => void;
+}
+
+/**
+ * Configuration options for the useVaultEvents hook.
+ */
+export interface UseVaultEventsOptions {
+  /** Set false to stop listening without unmounting (default: true) */
+  enabled?: boolean;
+  /** Only deliver events matching this predicate */
+  filter?: (event: VaultChangeEvent) => boolean;
+  /**
+   * Coalesce events arriving within this window (ms) into one callback.
+   * Defaults to 250ms so bursts (e.g. a git pull) trigger a single refresh.
+   */
+  debounceMs?: number;
+  /** Called after a dropped connection is re-established */
+  onResync?: () => void;
+  /** Custom fetch function for testing */
+  fetch?: FetchFn;
+}
+
+/**
+ * Shared SSE connection for one vault.
+ */
+interface VaultConnection {
+  subscribers: Set<VaultEventHandlers>;
+  controller: AbortController;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  retryCount: number;
+  /** Whether a connection has succeeded before (reconnects trigger resync) */
+  hasConnected: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_DEBOUNCE_MS = 250;
+
+/** Base reconnect delay; doubles per failed attempt up to the maximum */
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+// =============================================================================
+// Shared Connections
+// =============================================================================
+
+const connections = new Map<string, VaultConnection>();
+
+/**
+ * Parses complete SSE messages, returning events and the unparsed remainder.
+ * Comment lines (keep-alives) are skipped.
+ */
+export function parseVaultEvents(buffer: string): { events: VaultChangeEvent[]; rest: string } {
+  const parts = buffer.split("\n\n");
+  const rest = parts.pop() ?? "";
+  const events: VaultChangeEvent[] = [];
+
+  for (const part of parts) {
+    for (const line of part.split("\n")) {
+      if (!line.startsWith("data: ")) continue;
+      try {
+        events.push(JSON.parse(line.slice(6)) as VaultChangeEvent);
+      } catch {
+        log.warn("Failed to parse vault event", line);
+      }
+    }
+  }
+
+  return { events, rest };
+}
+
+function scheduleReconnect(vaultId: string, conn: VaultConnection, fetchFn: FetchFn): void {
+  if (connections.get(vaultId) !== conn || conn.retryTimer) return;
+
+  const delay = Math.min(RECONNECT_BASE_MS * 2 ** conn.retryCount, RECONNECT_MAX_MS);
+  conn.retryCount++;
+  conn.retryTimer = setTimeout(() => {
+    conn.retryTimer = null;
+    connect(vaultId, conn, fetchFn);
+  }, delay);
+}
+
+function connect(vaultId: string, conn: VaultConnection, fetchFn: FetchFn): void {
+  conn.controller = new AbortController();
+  const { signal } = conn.controller;
+
+  void (async () => {
+    try {
+      const response = await fetchFn(vaultPath(vaultId, "events"), { signal });
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed: HTTP ${response.status}`);
+      }
+
+      if (conn.hasConnected) {
+        for (const subscriber of [...conn.subscribers]) {
+          subscriber.onResync?.();
+        }
+      }
+      conn.hasConnected = true;
+      conn.retryCount = 0;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const parsed = parseVaultEvents(buffer);
+        buffer = parsed.rest;
+
+        for (const event of parsed.events) {
+          for (const subscriber of [...conn.subscribers]) {
+            subscriber.onEvent(event);
+          }
+        }
+      }
+
+      // Server closed the stream (e.g. daemon restart)
+      scheduleReconnect(vaultId, conn, fetchFn);
+    } catch (err) {
+      if (signal.aborted) return;
+      log.warn(`Vault event stream lost for ${vaultId}`, err);
+      scheduleReconnect(vaultId, conn, fetchFn);
+    }
+  })();
+}
+
+/**
+ * Subscribes to change events for a vault, opening the shared connection
+ * if this is the first subscriber. The connection closes when the last
+ * subscriber leaves.
+ *
+ * @param vaultId - Vault to receive events for
+ * @param handlers - Event and resync callbacks
+ * @param fetchFn - Fetch used if a new connection is opened
+ * @returns Unsubscribe function
+ */
+export function subscribeToVaultEvents(
+  vaultId: string,
+  handlers: VaultEventHandlers,
+  fetchFn: FetchFn = globalThis.fetch.bind(globalThis)
+): () => void {
+  let conn = connections.get(vaultId);
+  if (!conn) {
+    conn = {
+      subscribers: new Set(),
+      controller: new AbortController(),
+      retryTimer: null,
+      retryCount: 0,
+      hasConnected: false,
+    };
+    connections.set(vaultId, conn);
+    connect(vaultId, conn, fetchFn);
+  }
+  conn.subscribers.add(handlers);
+
+  const current = conn;
+  return () => {
+    current.subscribers.delete(handlers);
+    if (current.subscribers.size > 0) return;
+
+    if (current.retryTimer) {
+      clearTimeout(current.retryTimer);
+      current.retryTimer = null;
+    }
+    current.controller.abort();
+    if (connections.get(vaultId) === current) {
+      connections.delete(vaultId);
+    }
+  };
+}
+
+// =============================================================================
+// Hook Implementation
+// =============================================================================
+
+/**
+ * React hook that delivers batched vault change events.
+ *
+ * @param vaultId - The vault to watch (no-op when undefined)
+ * @param onChange - Called with the events from each debounce window
+ * @param options - Filtering, debounce and testing options
+ *
+ * @example
+ * ```tsx
+ * useVaultEvents(vault?.id, () => void reloadTasks(), {
+ *   filter: (event) => event.path.endsWith(".md"),
+ *   onResync: () => void reloadTasks(),
+ * });
+ * ```
+ */
+export function useVaultEvents(
+  vaultId: string | undefined,
+  onChange: (events: VaultChangeEvent[]) => void,
+  options: UseVaultEventsOptions = {}
+): void {
+  const { enabled = true, debounceMs = DEFAULT_DEBOUNCE_MS, fetch: fetchFn } = options;
+
+  // Latest callbacks in refs so changing them doesn't reconnect
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const filterRef = useRef(options.filter);
+  filterRef.current = options.filter;
+  const onResyncRef = useRef(options.onResync);
+  onResyncRef.current = options.onResync;
+
+  useEffect(() => {
+    if (!vaultId || !enabled) return;
+
+    let pending: VaultChangeEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      const events = pending;
+      pending = [];
+      if (events.length > 0) {
+        onChangeRef.current(events);
+      }
+    };
+
+    const unsubscribe = subscribeToVaultEvents(
+      vaultId,
+      {
+        onEvent: (event) => {
+          if (filterRef.current && !filterRef.current(event)) return;
+          pending.push(event);
+          if (timer) clearTimeout(timer);
+          timer = setTimeout(flush, debounceMs);
+        },
+        onResync: () => onResyncRef.current?.(),
+      },
+      fetchFn
+    );
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [vaultId, enabled, debounceMs, fetchFn]);
+}
@@ -150,7 +150,8 @@ export function createApiClient(config: ApiClientConfig = {}) {
       mapStatusToErrorCode(response.status),
       typeof errorData === "object" && errorData !== null && "message" in errorData
         ? String((errorData as { message: unknown }).message)
-        : `Request failed with status ${response.status}`
+        : `Request failed with status ${response.status}`,
+      errorData
     );
   }
 
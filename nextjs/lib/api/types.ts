@@ -27,12 +27,15 @@ export class ApiError extends Error {
   readonly status: number;
   /** Error code from ErrorCode enum */
   readonly code: ErrorCode;
+  /** Parsed error response body, when it wasn't in the standard format */
+  readonly body?: unknown;
 
-  constructor(status: number, code: ErrorCode, message: string) {
+  constructor(status: number, code: ErrorCode, message: string, body?: unknown) {
     super(message);
     this.name = "ApiError";
     this.status = status;
     this.code = code;
+    this.body = body;
   }
 
   /**
@@ -71,6 +74,24 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Error thrown when a save is rejected because the file changed on disk
+ * since it was read (HTTP 409 with the current version).
+ */
+export class FileConflictError extends ApiError {
+  /** Current file content on the server */
+  readonly serverContent: string;
+  /** Current version token on the server */
+  readonly serverEtag: string;
+
+  constructor(message: string, serverContent: string, serverEtag: string) {
+    super(409, "FILE_CONFLICT", message);
+    this.name = "FileConflictError";
+    this.serverContent = serverContent;
+    this.serverEtag = serverEtag;
+  }
+}
+
 /**
  * Type guard to check if a value is an ApiErrorResponse.
  */
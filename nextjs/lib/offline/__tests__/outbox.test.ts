@@ -0,0 +1,133 @@
+/**
+ * Offline Outbox Tests
+ *
+ * Tests queueing writes and replaying them. Runs against the in-memory
+ * store (happy-dom has no IndexedDB), with fetch injected.
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  enqueueWrite,
+  flushOutbox,
+  getPendingCount,
+  isOfflineError,
+  listPendingWrites,
+  resetOutboxForTesting,
+  subscribeToOutbox,
+} from "../outbox";
+import { ApiError } from "@/lib/api/types";
+import type { FetchFn } from "@/lib/api/types";
+
+function createFetch(statuses: Array<number | "offline">, calls: Array<{ url: string; body: unknown }> = []): FetchFn {
+  let index = 0;
+  return (url, init) => {
+    calls.push({ url: String(url), body: JSON.parse(String(init?.body)) });
+    const status = statuses[Math.min(index++, statuses.length - 1)];
+    if (status === "offline") {
+      return Promise.reject(new TypeError("Failed to fetch"));
+    }
+    return Promise.resolve({ ok: status < 300, status } as Response);
+  };
+}
+
+beforeEach(() => {
+  resetOutboxForTesting();
+});
+
+describe("enqueueWrite", () => {
+  it("stamps the body with when the write was made", async () => {
+    const made = new Date("2026-10-18T07:45:00Z");
+    const entry = await enqueueWrite(
+      { method: "POST", path: "/api/vaults/v1/capture", body: { text: "On the train" } },
+      made
+    );
+
+    expect(entry.body).toEqual({ text: "On the train", timestamp: "2026-10-18T07:45:00.000Z" });
+    expect(entry.createdAt).toBe("2026-10-18T07:45:00.000Z");
+    expect(await listPendingWrites()).toEqual([entry]);
+  });
+
+  it("updates the pending count and tells subscribers", async () => {
+    let notified = 0;
+    subscribeToOutbox(() => notified++);
+
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "a" } });
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "b" } });
+
+    expect(getPendingCount()).toBe(2);
+    expect(notified).toBe(2);
+  });
+});
+
+describe("flushOutbox", () => {
+  it("sends queued writes in order and empties the queue", async () => {
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "first" } });
+    await enqueueWrite({ method: "PATCH", path: "/api/vaults/v1/tasks", body: { filePath: "a.md", lineNumber: 3, newState: "x" } });
+    const calls: Array<{ url: string; body: unknown }> = [];
+
+    const result = await flushOutbox(createFetch([200], calls));
+
+    expect(result).toEqual({ sent: 2, dropped: 0, remaining: 0 });
+    expect(calls.map((call) => call.url)).toEqual(["/api/vaults/v1/capture", "/api/vaults/v1/tasks"]);
+    expect(calls[0].body).toMatchObject({ text: "first" });
+    expect(getPendingCount()).toBe(0);
+  });
+
+  it("keeps the rest of the queue when still offline", async () => {
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "first" } });
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "second" } });
+
+    const result = await flushOutbox(createFetch([200, "offline"]));
+
+    expect(result).toEqual({ sent: 1, dropped: 0, remaining: 1 });
+    const pending = await listPendingWrites();
+    expect(pending.map((entry) => entry.body.text)).toEqual(["second"]);
+    expect(getPendingCount()).toBe(1);
+  });
+
+  it("stops at a server error and retries it next time", async () => {
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "first" } });
+
+    expect(await flushOutbox(createFetch([503]))).toEqual({ sent: 0, dropped: 0, remaining: 1 });
+    expect(await flushOutbox(createFetch([200]))).toEqual({ sent: 1, dropped: 0, remaining: 0 });
+  });
+
+  it("drops writes the daemon rejects", async () => {
+    await enqueueWrite({ method: "PATCH", path: "/api/vaults/v1/tasks", body: { filePath: "gone.md", lineNumber: 1, newState: "x" } });
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "after" } });
+
+    const result = await flushOutbox(createFetch([400, 200]));
+
+    expect(result).toEqual({ sent: 1, dropped: 1, remaining: 0 });
+    expect(await listPendingWrites()).toEqual([]);
+  });
+
+  it("drops a task toggle refused because the note changed", async () => {
+    await enqueueWrite({
+      method: "PATCH",
+      path: "/api/vaults/v1/tasks",
+      body: { filePath: "today.md", lineNumber: 3, newState: "x", expectedText: "Pay rent" },
+    });
+
+    expect(await flushOutbox(createFetch([409]))).toEqual({ sent: 0, dropped: 1, remaining: 0 });
+    expect(await listPendingWrites()).toEqual([]);
+  });
+
+  it("shares one replay between concurrent calls", async () => {
+    await enqueueWrite({ method: "POST", path: "/api/vaults/v1/capture", body: { text: "once" } });
+    const calls: Array<{ url: string; body: unknown }> = [];
+    const fetchFn = createFetch([200], calls);
+
+    await Promise.all([flushOutbox(fetchFn), flushOutbox(fetchFn)]);
+
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("isOfflineError", () => {
+  it("matches only network failures", () => {
+    expect(isOfflineError(new ApiError(0, "INTERNAL_ERROR", "Failed to fetch"))).toBe(true);
+    expect(isOfflineError(new ApiError(500, "INTERNAL_ERROR", "Server error"))).toBe(false);
+    expect(isOfflineError(new Error("Failed to fetch"))).toBe(false);
+  });
+});
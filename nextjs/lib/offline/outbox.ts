@@ -0,0 +1,323 @@
+/**
+ * Offline Outbox
+ *
+ * Queues writes (captures, task toggles, card reviews) made while the
+ * daemon can't be reached, and replays them in order once it can. Entries
+ * live in IndexedDB so they survive reloads, and the service worker
+ * (public/sw.js) replays the same store on Background Sync. Each entry's
+ * body carries a `timestamp` from when it was made, so the daemon dates
+ * it correctly however late it arrives.
+ *
+ * Without IndexedDB (tests, private browsing in some browsers) the queue
+ * is kept in memory for the lifetime of the page.
+ */
+
+import { createLogger } from "@memory-loop/shared";
+import { ApiError, type FetchFn } from "@/lib/api/types";
+
+const log = createLogger("Outbox");
+
+/** IndexedDB database and store names, shared with public/sw.js */
+export const OUTBOX_DB_NAME = "memory-loop-outbox";
+export const OUTBOX_STORE_NAME = "writes";
+const OUTBOX_DB_VERSION = 1;
+
+/** Web Lock held while replaying, shared with public/sw.js */
+export const OUTBOX_LOCK_NAME = "memory-loop-outbox-flush";
+
+/** Background Sync tag registered after queueing, shared with public/sw.js */
+export const OUTBOX_SYNC_TAG = "memory-loop-outbox";
+
+/**
+ * A write waiting to be sent.
+ */
+export interface OutboxEntry {
+  /** Store key, assigned on enqueue; entries replay in key order */
+  id: number;
+  method: "POST" | "PATCH";
+  /** API path, e.g. /api/vaults/my-vault/capture */
+  path: string;
+  /** JSON body, including the `timestamp` it was made at */
+  body: Record<string, unknown>;
+  /** ISO 8601 timestamp of when the write was queued */
+  createdAt: string;
+}
+
+/**
+ * A write to queue. The outbox adds `timestamp` to the body.
+ */
+export type OutboxWrite = Pick<OutboxEntry, "method" | "path" | "body">;
+
+/**
+ * What a replay did.
+ */
+export interface FlushResult {
+  /** Entries the daemon accepted */
+  sent: number;
+  /** Entries the daemon rejected (4xx), which are dropped rather than retried */
+  dropped: number;
+  /** Entries still waiting, because the daemon couldn't be reached */
+  remaining: number;
+}
+
+interface OutboxStore {
+  add(entry: Omit<OutboxEntry, "id">): Promise<OutboxEntry>;
+  list(): Promise<OutboxEntry[]>;
+  remove(id: number): Promise<void>;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+function createIndexedDbStore(factory: IDBFactory): OutboxStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      const request = factory.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OUTBOX_STORE_NAME, { keyPath: "id", autoIncrement: true });
+      };
+      dbPromise = promisifyRequest(request);
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  }
+
+  async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await openDb();
+    return promisifyRequest(run(db.transaction(OUTBOX_STORE_NAME, mode).objectStore(OUTBOX_STORE_NAME)));
+  }
+
+  return {
+    async add(entry) {
+      const id = await withStore("readwrite", (store) => store.add(entry));
+      return { ...entry, id: id as number };
+    },
+    list() {
+      return withStore("readonly", (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+    },
+    async remove(id) {
+      await withStore("readwrite", (store) => store.delete(id));
+    },
+  };
+}
+
+function createMemoryStore(): OutboxStore {
+  let entries: OutboxEntry[] = [];
+  let nextId = 1;
+
+  return {
+    add(entry) {
+      const stored = { ...entry, id: nextId++ };
+      entries.push(stored);
+      return Promise.resolve(stored);
+    },
+    list() {
+      return Promise.resolve([...entries]);
+    },
+    remove(id) {
+      entries = entries.filter((entry) => entry.id !== id);
+      return Promise.resolve();
+    },
+  };
+}
+
+let store: OutboxStore | null = null;
+let pendingCount = 0;
+let flushing: Promise<FlushResult> | null = null;
+const listeners = new Set<() => void>();
+
+function getStore(): OutboxStore {
+  if (!store) {
+    store = typeof indexedDB === "undefined" ? createMemoryStore() : createIndexedDbStore(indexedDB);
+  }
+  return store;
+}
+
+function notify(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+/**
+ * Re-reads the pending count from the store and tells subscribers.
+ * Call after another context (the service worker) changed the queue.
+ */
+export async function refreshPendingCount(): Promise<number> {
+  try {
+    const count = (await getStore().list()).length;
+    if (count !== pendingCount) {
+      pendingCount = count;
+      notify();
+    }
+  } catch (err) {
+    log.warn("Failed to read the outbox", err);
+  }
+  return pendingCount;
+}
+
+/**
+ * Number of writes waiting, as of the last change or refresh.
+ */
+export function getPendingCount(): number {
+  return pendingCount;
+}
+
+/**
+ * Subscribes to pending count changes.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Whether an error means the daemon couldn't be reached, so the write
+ * should be queued rather than reported.
+ */
+export function isOfflineError(err: unknown): boolean {
+  return err instanceof ApiError && err.status === 0;
+}
+
+/**
+ * Queues a write, stamping its body with the current time.
+ *
+ * @param write - The request to replay later
+ * @param now - When the write was made (defaults to now)
+ * @returns The stored entry
+ */
+export async function enqueueWrite(write: OutboxWrite, now: Date = new Date()): Promise<OutboxEntry> {
+  const timestamp = now.toISOString();
+  const entry = await getStore().add({
+    ...write,
+    body: { ...write.body, timestamp },
+    createdAt: timestamp,
+  });
+  await refreshPendingCount();
+  requestBackgroundSync();
+  return entry;
+}
+
+/**
+ * Lists queued writes, oldest first.
+ */
+export async function listPendingWrites(): Promise<OutboxEntry[]> {
+  const entries = await getStore().list();
+  return entries.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Asks the service worker to replay the outbox when connectivity returns,
+ * for browsers with Background Sync. Others replay from the page.
+ */
+function requestBackgroundSync(): void {
+  if (typeof navigator === "undefined" || !navigator.serviceWorker) return;
+  navigator.serviceWorker.ready
+    .then((registration) => {
+      const sync = (registration as ServiceWorkerRegistration & {
+        sync?: { register(tag: string): Promise<void> };
+      }).sync;
+      return sync?.register(OUTBOX_SYNC_TAG);
+    })
+    .catch((err: unknown) => {
+      log.debug("Background sync unavailable", err);
+    });
+}
+
+async function replay(fetchFn: FetchFn): Promise<FlushResult> {
+  const result: FlushResult = { sent: 0, dropped: 0, remaining: 0 };
+  const entries = await listPendingWrites();
+
+  for (const [index, entry] of entries.entries()) {
+    let response: Response;
+    try {
+      response = await fetchFn(entry.path, {
+        method: entry.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry.body),
+      });
+    } catch {
+      // Still offline; keep this entry and everything after it in order
+      result.remaining = entries.length - index;
+      break;
+    }
+
+    if (response.ok) {
+      result.sent++;
+    } else if (response.status >= 400 && response.status < 500) {
+      // The daemon won't accept it however often it's sent (the task line
+      // changed, so 409; the card was deleted), so retrying would block the queue
+      log.warn(`Dropping queued ${entry.method} ${entry.path}: status ${response.status}`);
+      result.dropped++;
+    } else {
+      result.remaining = entries.length - index;
+      break;
+    }
+    await getStore().remove(entry.id);
+  }
+
+  return result;
+}
+
+/**
+ * Runs a replay under the Web Lock shared with the service worker, where
+ * the browser supports it.
+ */
+async function withFlushLock(run: () => Promise<FlushResult>): Promise<FlushResult> {
+  const locks = typeof navigator === "undefined" ? undefined : navigator.locks;
+  return locks ? await locks.request(OUTBOX_LOCK_NAME, run) : await run();
+}
+
+/**
+ * Replays queued writes in order. Stops at the first write that can't
+ * reach the daemon or fails on the server, keeping it and the rest for
+ * the next flush. Concurrent calls share one replay, and the service
+ * worker replays under the same Web Lock, so nothing is sent twice.
+ *
+ * @param fetchFn - Fetch implementation (defaults to global fetch)
+ */
+export function flushOutbox(fetchFn: FetchFn = globalThis.fetch.bind(globalThis)): Promise<FlushResult> {
+  if (flushing) return flushing;
+
+  const current = withFlushLock(async () => {
+    try {
+      return await replay(fetchFn);
+    } finally {
+      await refreshPendingCount();
+    }
+  })
+    .catch((err: unknown): FlushResult => {
+      log.warn("Failed to replay the outbox", err);
+      return { sent: 0, dropped: 0, remaining: pendingCount };
+    })
+    .finally(() => {
+      flushing = null;
+    });
+  flushing = current;
+  return current;
+}
+
+/**
+ * Empties the queue and forgets subscribers. Tests only.
+ */
+export function resetOutboxForTesting(): void {
+  store = createMemoryStore();
+  pendingCount = 0;
+  flushing = null;
+  listeners.clear();
+}
@@ -0,0 +1,136 @@
+/**
+ * Memory Loop Service Worker
+ *
+ * Keeps the app usable without a connection:
+ * - Built assets (/_next/static/, content-hashed) are served cache-first
+ * - Pages are fetched network-first, falling back to the last cached copy
+ * - Background Sync replays the offline outbox (lib/offline/outbox.ts)
+ *
+ * API requests are never cached. The outbox database, store, lock, and
+ * sync tag names must match lib/offline/outbox.ts.
+ */
+
+const CACHE_NAME = "memory-loop-shell-v1";
+const OUTBOX_DB_NAME = "memory-loop-outbox";
+const OUTBOX_STORE_NAME = "writes";
+const OUTBOX_LOCK_NAME = "memory-loop-outbox-flush";
+const OUTBOX_SYNC_TAG = "memory-loop-outbox";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = (await caches.match(request)) ?? (await caches.match("/"));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Outbox replay
+// -----------------------------------------------------------------------------
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(flushOutbox());
+  }
+});
+
+function promisifyRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOutbox() {
+  const request = indexedDB.open(OUTBOX_DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(OUTBOX_STORE_NAME, { keyPath: "id", autoIncrement: true });
+  };
+  return promisifyRequest(request);
+}
+
+async function replay() {
+  const db = await openOutbox();
+  const entries = await promisifyRequest(
+    db.transaction(OUTBOX_STORE_NAME, "readonly").objectStore(OUTBOX_STORE_NAME).getAll()
+  );
+  entries.sort((a, b) => a.id - b.id);
+
+  let changed = false;
+  try {
+    for (const entry of entries) {
+      // A network error rejects here, failing the sync so the browser retries later
+      const response = await fetch(entry.path, {
+        method: entry.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entry.body),
+      });
+      if (response.status >= 500) {
+        throw new Error(`Replay failed with status ${response.status}`);
+      }
+      // Sent, or rejected for good (4xx) and dropped, as the page does
+      await promisifyRequest(
+        db.transaction(OUTBOX_STORE_NAME, "readwrite").objectStore(OUTBOX_STORE_NAME).delete(entry.id)
+      );
+      changed = true;
+    }
+  } finally {
+    db.close();
+    if (changed) {
+      const clients = await self.clients.matchAll();
+      for (const client of clients) {
+        client.postMessage({ type: "outbox-changed" });
+      }
+    }
+  }
+}
+
+function flushOutbox() {
+  return self.navigator.locks ? self.navigator.locks.request(OUTBOX_LOCK_NAME, replay) : replay();
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { getClozeIndices, splitCloze, renderClozeQuestion, renderClozeAnswer } from "../cloze";
+
+const TEXT = "The Eiffel Tower opened in {{c1::1889::year}} in {{c2::Paris}}.";
+
+describe("getClozeIndices", () => {
+  test("returns each deletion number once, ascending", () => {
+    expect(getClozeIndices("{{c3::a}} {{c1::b}} {{c3::c}}")).toEqual([1, 3]);
+  });
+
+  test("ignores text without deletions and c0", () => {
+    expect(getClozeIndices("No clozes here")).toEqual([]);
+    expect(getClozeIndices("{{c0::zero}} {{c::none}}")).toEqual([]);
+  });
+});
+
+describe("splitCloze", () => {
+  test("splits text into plain runs and deletions", () => {
+    expect(splitCloze(TEXT, 1)).toEqual([
+      { type: "text", text: "The Eiffel Tower opened in " },
+      { type: "cloze", index: 1, answer: "1889", hint: "year", active: true },
+      { type: "text", text: " in " },
+      { type: "cloze", index: 2, answer: "Paris", hint: null, active: false },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  test("keeps deletions spanning lines", () => {
+    expect(splitCloze("{{c1::two\nlines}}", 1)).toEqual([
+      { type: "cloze", index: 1, answer: "two\nlines", hint: null, active: true },
+    ]);
+  });
+});
+
+describe("renderClozeQuestion", () => {
+  test("blanks the tested deletion and shows the others", () => {
+    expect(renderClozeQuestion(TEXT, 1)).toBe("The Eiffel Tower opened in [year] in Paris.");
+    expect(renderClozeQuestion(TEXT, 2)).toBe("The Eiffel Tower opened in 1889 in [...].");
+  });
+
+  test("blanks every deletion sharing the number", () => {
+    expect(renderClozeQuestion("{{c1::H}}{{c1::2}}O", 1)).toBe("[...][...]O");
+  });
+});
+
+describe("renderClozeAnswer", () => {
+  test("reveals all deletions with the tested one in bold", () => {
+    expect(renderClozeAnswer(TEXT, 2)).toBe("The Eiffel Tower opened in 1889 in **Paris**.");
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Tests for client timestamp parsing.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { parseClientTimestamp } from "../date-utils";
+
+describe("parseClientTimestamp", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  test("returns undefined when no timestamp was sent", () => {
+    expect(parseClientTimestamp(undefined, now)).toBeUndefined();
+    expect(parseClientTimestamp(null, now)).toBeUndefined();
+  });
+
+  test("reads ISO strings and epoch milliseconds", () => {
+    expect(parseClientTimestamp("2026-10-18T08:30:00Z", now)?.toISOString()).toBe("2026-10-18T08:30:00.000Z");
+    expect(parseClientTimestamp(Date.UTC(2026, 9, 18, 8, 30), now)?.toISOString()).toBe(
+      "2026-10-18T08:30:00.000Z"
+    );
+  });
+
+  test("returns null for values that aren't timestamps", () => {
+    expect(parseClientTimestamp("yesterday", now)).toBeNull();
+    expect(parseClientTimestamp(true, now)).toBeNull();
+    expect(parseClientTimestamp({}, now)).toBeNull();
+  });
+
+  test("clamps times in the future to now", () => {
+    expect(parseClientTimestamp("2026-10-20T00:00:00Z", now)).toEqual(now);
+  });
+});
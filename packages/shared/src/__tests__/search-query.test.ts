@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { parseSearchQuery, getSearchHighlightTerms } from "../search-query";
+
+describe("parseSearchQuery", () => {
+  test("plain words become separate terms", () => {
+    const parsed = parseSearchQuery("meeting notes");
+    expect(parsed.terms).toEqual([
+      { text: "meeting", phrase: false, negate: false },
+      { text: "notes", phrase: false, negate: false },
+    ]);
+    expect(parsed.filters).toEqual([]);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  test("quoted phrases and exclusions", () => {
+    const parsed = parseSearchQuery('"project plan" -draft -"old idea"');
+    expect(parsed.terms).toEqual([
+      { text: "project plan", phrase: true, negate: false },
+      { text: "draft", phrase: false, negate: true },
+      { text: "old idea", phrase: true, negate: true },
+    ]);
+  });
+
+  test("tag filters strip # and lowercase", () => {
+    const parsed = parseSearchQuery("tag:#Project -tag:archive");
+    expect(parsed.filters).toEqual([
+      { type: "tag", value: "project", negate: false },
+      { type: "tag", value: "archive", negate: true },
+    ]);
+  });
+
+  test("path filters accept quoted values", () => {
+    const parsed = parseSearchQuery('path:"01_Projects/My Folder/" roadmap');
+    expect(parsed.filters).toEqual([
+      { type: "path", value: "01_Projects/My Folder/", negate: false },
+    ]);
+    expect(parsed.terms.map((t) => t.text)).toEqual(["roadmap"]);
+  });
+
+  test("date filters validate format", () => {
+    const parsed = parseSearchQuery("after:2026-01-01 before:yesterday");
+    expect(parsed.filters).toEqual([
+      { type: "after", value: "2026-01-01", negate: false },
+    ]);
+    expect(parsed.errors.length).toBe(1);
+    expect(parsed.errors[0]).toContain("before");
+  });
+
+  test("task filters", () => {
+    const parsed = parseSearchQuery("has:task task:open -task:done");
+    expect(parsed.filters).toEqual([
+      { type: "task", value: "any", negate: false },
+      { type: "task", value: "open", negate: false },
+      { type: "task", value: "done", negate: true },
+    ]);
+  });
+
+  test("unknown keys stay as text", () => {
+    const parsed = parseSearchQuery("https://example.com 10:30");
+    expect(parsed.terms.map((t) => t.text)).toEqual([
+      "https://example.com",
+      "10:30",
+    ]);
+    expect(parsed.filters).toEqual([]);
+  });
+
+  test("a lone dash is a plain term", () => {
+    const parsed = parseSearchQuery("a - b");
+    expect(parsed.terms.map((t) => t.text)).toEqual(["a", "-", "b"]);
+    expect(parsed.terms.every((t) => !t.negate)).toBe(true);
+  });
+});
+
+describe("getSearchHighlightTerms", () => {
+  test("returns only positive text terms", () => {
+    expect(
+      getSearchHighlightTerms('roadmap "next quarter" -draft tag:project'),
+    ).toEqual(["roadmap", "next quarter"]);
+  });
+});
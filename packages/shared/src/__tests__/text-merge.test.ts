@@ -0,0 +1,86 @@
+/**
+ * Tests for line diff and three-way merge.
+ */
+
+import { describe, test, expect } from "bun:test";
+import { diffLines, mergeThreeWay } from "../text-merge";
+
+describe("diffLines", () => {
+  test("marks unchanged, removed and added lines", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc\nd")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  test("returns only same lines for identical text", () => {
+    expect(diffLines("a\nb", "a\nb").every((line) => line.type === "same")).toBe(true);
+  });
+
+  test("finds common lines in the middle of a change", () => {
+    const diff = diffLines("1\nkeep\n2", "x\nkeep\ny");
+    expect(diff.filter((line) => line.type === "same").map((line) => line.text)).toEqual(["keep"]);
+  });
+});
+
+describe("mergeThreeWay", () => {
+  const base = ["# Title", "", "first", "second", "third", "", "end"].join("\n");
+
+  test("combines edits to separate regions", () => {
+    const ours = base.replace("first", "FIRST");
+    const theirs = base.replace("end", "END");
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      text: ["# Title", "", "FIRST", "second", "third", "", "END"].join("\n"),
+      conflicts: 0,
+    });
+  });
+
+  test("takes the other side when one side is unchanged", () => {
+    const theirs = `${base}\nappended`;
+    expect(mergeThreeWay(base, base, theirs)).toEqual({ text: theirs, conflicts: 0 });
+    expect(mergeThreeWay(base, theirs, base)).toEqual({ text: theirs, conflicts: 0 });
+  });
+
+  test("accepts identical edits on both sides", () => {
+    const edited = base.replace("second", "2nd");
+    expect(mergeThreeWay(base, edited, edited.replace("end", "END")).conflicts).toBe(0);
+  });
+
+  test("marks conflicting edits to the same line", () => {
+    const ours = base.replace("second", "mine");
+    const theirs = base.replace("second", "obsidian");
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.text).toBe(
+      [
+        "# Title",
+        "",
+        "first",
+        "<<<<<<< Yours",
+        "mine",
+        "=======",
+        "obsidian",
+        ">>>>>>> On disk",
+        "third",
+        "",
+        "end",
+      ].join("\n")
+    );
+  });
+
+  test("treats adjacent edits as a conflict", () => {
+    const ours = base.replace("first", "one");
+    const theirs = base.replace("second", "two");
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.text).toContain(["<<<<<<< Yours", "one", "second", "=======", "first", "two"].join("\n"));
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Cloze Deletions
+ *
+ * Parses the cloze syntax used by cloze flashcards:
+ *
+ * - `{{c1::Paris}}`: deletion number 1, answer "Paris"
+ * - `{{c2::1889::year}}`: deletion number 2 with the hint "year"
+ *
+ * Each deletion number in a text becomes its own card, so a text with c1 and
+ * c2 produces two sibling cards. Reviewing one blanks every deletion with its
+ * number and shows the rest as plain text. Numbers can repeat to blank
+ * several spans on the same card.
+ *
+ * Pure functions, shared by the daemon (card storage) and web app (review).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A run of cloze text: plain text or a deletion. */
+export type ClozeSegment =
+  | { type: "text"; text: string }
+  | {
+      type: "cloze";
+      /** Deletion number (the 1 in c1) */
+      index: number;
+      /** Hidden text */
+      answer: string;
+      /** Shown in the blank, or null */
+      hint: string | null;
+      /** Whether this deletion is the one being tested */
+      active: boolean;
+    };
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/** Matches `{{cN::answer}}` and `{{cN::answer::hint}}` */
+const CLOZE_PATTERN = /\{\{c([1-9]\d*)::([\s\S]+?)(?:::([\s\S]+?))?\}\}/g;
+
+/**
+ * Deletion numbers used in a text, ascending and without repeats.
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    indices.add(Number(match[1]));
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Split a text into plain runs and deletions.
+ *
+ * @param text - Text with cloze deletions
+ * @param activeIndex - Deletion number being tested
+ */
+export function splitCloze(text: string, activeIndex: number): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    if (match.index > last) {
+      segments.push({ type: "text", text: text.slice(last, match.index) });
+    }
+    const index = Number(match[1]);
+    segments.push({
+      type: "cloze",
+      index,
+      answer: match[2],
+      hint: match[3] ?? null,
+      active: index === activeIndex,
+    });
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) {
+    segments.push({ type: "text", text: text.slice(last) });
+  }
+  return segments;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Question side of a cloze card as markdown: tested deletions become `[...]`
+ * (or `[hint]`), the others show their text.
+ */
+export function renderClozeQuestion(text: string, activeIndex: number): string {
+  return splitCloze(text, activeIndex)
+    .map((segment) => {
+      if (segment.type === "text") return segment.text;
+      if (!segment.active) return segment.answer;
+      return `[${segment.hint ?? "..."}]`;
+    })
+    .join("");
+}
+
+/**
+ * Answer side of a cloze card as markdown: every deletion shows its text,
+ * with the tested ones in bold.
+ */
+export function renderClozeAnswer(text: string, activeIndex: number): string {
+  return splitCloze(text, activeIndex)
+    .map((segment) => {
+      if (segment.type === "text") return segment.text;
+      return segment.active ? `**${segment.answer}**` : segment.answer;
+    })
+    .join("");
+}
@@ -5,6 +5,9 @@
  * No I/O, no side effects.
  */
 
+/** Daily note format used when a vault doesn't configure `dailyNoteFormat`. */
+export const DEFAULT_DAILY_NOTE_FORMAT = "YYYY-MM-DD";
+
 /**
  * Formats a Date object as YYYY-MM-DD.
  */
@@ -25,8 +28,186 @@ export function formatTimeForTimestamp(date: Date): string {
 }
 
 /**
- * Gets the filename for a daily note.
+ * Gets the filename for a daily note. Formats with folders in them
+ * ("YYYY/MM/YYYY-MM-DD") give a path relative to the daily note folder.
+ */
+export function getDailyNoteFilename(date: Date = new Date(), format: string = DEFAULT_DAILY_NOTE_FORMAT): string {
+  return `${formatDailyNoteDate(date, format)}.md`;
+}
+
+// =============================================================================
+// Daily Note Formats
+// =============================================================================
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Moment-style tokens understood in daily note formats, longest first so
+ * "MMMM" wins over "MM". Text in [brackets] is copied as written.
+ */
+const FORMAT_TOKEN_REGEX = /\[([^\]]*)\]|YYYY|YY|Q|MMMM|MMM|MM|M|Do|DD|D|dddd|ddd|dd|d/g;
+
+function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+function formatToken(token: string, date: Date): string {
+  const month = date.getMonth();
+  const day = date.getDate();
+  const weekday = date.getDay();
+  switch (token) {
+    case "YYYY":
+      return String(date.getFullYear()).padStart(4, "0");
+    case "YY":
+      return String(date.getFullYear() % 100).padStart(2, "0");
+    case "Q":
+      return String(Math.floor(month / 3) + 1);
+    case "MMMM":
+      return MONTH_NAMES[month];
+    case "MMM":
+      return MONTH_NAMES[month].slice(0, 3);
+    case "MM":
+      return String(month + 1).padStart(2, "0");
+    case "M":
+      return String(month + 1);
+    case "Do":
+      return ordinal(day);
+    case "DD":
+      return String(day).padStart(2, "0");
+    case "D":
+      return String(day);
+    case "dddd":
+      return WEEKDAY_NAMES[weekday];
+    case "ddd":
+      return WEEKDAY_NAMES[weekday].slice(0, 3);
+    case "dd":
+      return WEEKDAY_NAMES[weekday].slice(0, 2);
+    default:
+      return String(weekday);
+  }
+}
+
+/**
+ * Formats a date with a moment-style pattern, as used by Obsidian's Daily
+ * Notes plugin (e.g. "YYYY/MM/YYYY-MM-DD dddd"). Supports YYYY, YY, Q,
+ * MMMM, MMM, MM, M, Do, DD, D, dddd, ddd, dd, d, and [literal] text.
  */
-export function getDailyNoteFilename(date: Date = new Date()): string {
-  return `${formatDateForFilename(date)}.md`;
+export function formatDailyNoteDate(date: Date, format: string = DEFAULT_DAILY_NOTE_FORMAT): string {
+  return format.replace(FORMAT_TOKEN_REGEX, (token: string, literal: string | undefined) =>
+    literal !== undefined ? literal : formatToken(token, date)
+  );
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function tokenPattern(token: string): string {
+  switch (token) {
+    case "YYYY":
+      return "(?<year>\\d{4})";
+    case "YY":
+      return "(?<shortYear>\\d{2})";
+    case "MMMM":
+    case "MMM":
+      return `(?<monthName>[A-Za-z]+)`;
+    case "MM":
+    case "M":
+      return "(?<month>\\d{1,2})";
+    case "Do":
+      return "(?<day>\\d{1,2})(?:st|nd|rd|th)";
+    case "DD":
+    case "D":
+      return "(?<day>\\d{1,2})";
+    case "dddd":
+    case "ddd":
+    case "dd":
+      return "[A-Za-z]+";
+    default:
+      return "\\d";
+  }
+}
+
+/**
+ * Reads the date back out of a daily note path written with `format`.
+ * The path is relative to the daily note folder and includes ".md".
+ *
+ * @returns The date at local midnight, or null if the path isn't a daily
+ * note in this format
+ */
+export function parseDailyNoteDate(
+  notePath: string,
+  format: string = DEFAULT_DAILY_NOTE_FORMAT
+): Date | null {
+  if (!notePath.endsWith(".md")) return null;
+
+  const seen = new Set<string>();
+  let pattern = "";
+  let last = 0;
+  for (const match of format.matchAll(FORMAT_TOKEN_REGEX)) {
+    pattern += escapeRegex(format.slice(last, match.index));
+    if (match[1] !== undefined) {
+      pattern += escapeRegex(match[1]);
+    } else {
+      // A token repeated in the format (e.g. "YYYY/YYYY-MM-DD") only captures once
+      const group = tokenPattern(match[0]);
+      const name = /\(\?<(\w+)>/.exec(group)?.[1];
+      pattern += name && seen.has(name) ? group.replace(`?<${name}>`, "?:") : group;
+      if (name) seen.add(name);
+    }
+    last = match.index + match[0].length;
+  }
+  pattern += escapeRegex(format.slice(last));
+
+  const groups = new RegExp(`^${pattern}\\.md$`).exec(notePath)?.groups;
+  if (!groups) return null;
+
+  const year = groups.year ? Number(groups.year) : groups.shortYear ? 2000 + Number(groups.shortYear) : NaN;
+  const month = groups.month
+    ? Number(groups.month) - 1
+    : MONTH_NAMES.findIndex((name) => groups.monthName && name.startsWith(groups.monthName));
+  const date = new Date(year, month, Number(groups.day));
+  if (Number.isNaN(date.getTime()) || month < 0) return null;
+
+  // Reject impossible dates and mismatched names (e.g. "2026-02-30", "Monday" on a Tuesday)
+  return formatDailyNoteDate(date, format) === notePath.slice(0, -".md".length) ? date : null;
+}
+
+// =============================================================================
+// Client Timestamps
+// =============================================================================
+
+/**
+ * Reads the `timestamp` a client sends with a write it queued while
+ * offline, so the write is dated when it was made rather than when it
+ * arrived. Accepts an ISO 8601 string or milliseconds since the epoch.
+ * Times in the future (clock skew) are clamped to `now`.
+ *
+ * @returns The date, undefined when no timestamp was sent, or null when
+ * the value isn't a valid timestamp
+ */
+export function parseClientTimestamp(value: unknown, now: Date = new Date()): Date | null | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.getTime() > now.getTime() ? now : date;
 }
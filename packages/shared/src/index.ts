@@ -32,7 +32,19 @@ export {
   DEFAULT_DISCUSSION_MODEL,
   DEFAULT_ORDER,
   DEFAULT_CARDS_ENABLED,
+  VALID_REVIEW_ALGORITHMS,
+  DEFAULT_REVIEW_ALGORITHM,
   DEFAULT_VI_MODE,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  DEFAULT_TASK_STATES,
+  DEFAULT_TASK_STATE_CYCLE,
+  DEFAULT_AUTO_COMPLETE_PARENT_TASKS,
+  DEFAULT_TASK_ROLLOVER_ENABLED,
+  DEFAULT_TASK_ROLLOVER_DAYS,
+  VALID_TASK_ROLLOVER_MODES,
+  DEFAULT_TASK_ROLLOVER_MODE,
+  DEFAULT_CAPTURE_FORMAT,
+  DEFAULT_MEETING_WRAP_UP,
   VALID_BADGE_COLORS,
   resolveMetadataPath,
   resolveGoalsPath,
@@ -51,7 +63,25 @@ export {
   resolveDiscussionModel,
   resolveOrder,
   resolveCardsEnabled,
+  resolveReviewAlgorithm,
   resolveViMode,
+  resolveTrashRetentionDays,
+  resolveTaskStates,
+  resolveTaskStateCycle,
+  resolveTaskScopes,
+  resolveAutoCompleteParentTasks,
+  resolveTaskRolloverEnabled,
+  resolveTaskRolloverDays,
+  resolveTaskRolloverMode,
+  resolveCaptureTargets,
+  resolveDailyNoteFormat,
+  resolveDailyNoteFolder,
+  resolveDailyNoteTemplatePath,
+  resolveMeetingWrapUp,
+  isDoneTaskState,
+  getDoneTaskStates,
+  resolveTaskConfigUpdate,
+  resolveDailyNoteConfigUpdate,
   slashCommandsEqual,
 } from "./vault-config";
 
@@ -75,8 +105,47 @@ export {
   formatDateForFilename,
   formatTimeForTimestamp,
   getDailyNoteFilename,
+  formatDailyNoteDate,
+  parseDailyNoteDate,
+  parseClientTimestamp,
+  DEFAULT_DAILY_NOTE_FORMAT,
 } from "./date-utils";
 
+// Search query syntax
+export type {
+  SearchTerm,
+  SearchFilter,
+  TaskFilterValue,
+  ParsedSearchQuery,
+} from "./search-query";
+export {
+  parseSearchQuery,
+  getSearchHighlightTerms,
+  normalizeTag,
+} from "./search-query";
+
+// Cloze deletion syntax
+export type { ClozeSegment } from "./cloze";
+export {
+  getClozeIndices,
+  splitCloze,
+  renderClozeQuestion,
+  renderClozeAnswer,
+} from "./cloze";
+
+// Line diff and three-way merge
+export type { DiffLine, MergeResult } from "./text-merge";
+export {
+  CONFLICT_OURS,
+  CONFLICT_SEPARATOR,
+  CONFLICT_THEIRS,
+  diffLines,
+  mergeThreeWay,
+} from "./text-merge";
+
+// Vault change events
+export type { VaultChangeType, VaultChangeEvent } from "./vault-events";
+
 // Session types
 export type {
   SessionEvent,
@@ -121,6 +190,8 @@ export {
   extractVaultName,
   titleToDirectoryName,
   getVaultInboxPath,
+  getVaultDailyNoteDir,
+  getDailyNotePath,
   getVaultMetadataPath,
   getTranscriptsDirectory,
 } from "./vault-paths";
@@ -143,6 +143,7 @@ describe("ErrorCodeSchema", () => {
       "DIRECTORY_NOT_FOUND",
       "PATH_TRAVERSAL",
       "INVALID_FILE_TYPE",
+      "FILE_CONFLICT",
     ];
 
     validCodes.forEach((code) => {
@@ -237,14 +238,42 @@ describe("TaskEntrySchema", () => {
     expect(result.category).toBe("projects");
   });
 
-  test("rejects invalid category", () => {
+  test("accepts a configured task scope category", () => {
+    const task = {
+      text: "Task text",
+      state: "-",
+      filePath: "Work/plan.md",
+      lineNumber: 1,
+      fileMtime: 0,
+      category: "Work",
+    };
+
+    expect(TaskEntrySchema.parse(task).category).toBe("Work");
+  });
+
+  test("accepts a subtask's parent line and rejects line 0", () => {
+    const task = {
+      text: "Subtask",
+      state: " ",
+      filePath: "plan.md",
+      lineNumber: 2,
+      fileMtime: 0,
+      category: "projects",
+      parentLineNumber: 1,
+    };
+
+    expect(TaskEntrySchema.parse(task).parentLineNumber).toBe(1);
+    expect(() => TaskEntrySchema.parse({ ...task, parentLineNumber: 0 })).toThrow();
+  });
+
+  test("rejects empty category", () => {
     const invalidTask = {
       text: "Task text",
       state: " ",
       filePath: "path/to/file.md",
       lineNumber: 1,
       fileMtime: 0,
-      category: "invalid",
+      category: "",
     };
 
     expect(() => TaskEntrySchema.parse(invalidTask)).toThrow(ZodError);
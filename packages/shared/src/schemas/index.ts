@@ -10,11 +10,11 @@
 export const VERSION = "0.1.0";
 
 // Core types
-export type { VaultInfo, SessionMetadata, ErrorCode, StoredToolInvocation, ConversationMessage, Badge, BadgeColor, SaveConfigResult } from "./types";
+export type { VaultInfo, SessionMetadata, ErrorCode, StoredToolInvocation, ConversationMessage, Badge, BadgeColor, TaskStateDefinition, TaskScope, CaptureTarget, SaveConfigResult } from "./types";
 
 // Editable vault config types (from protocol)
-export type { EditableVaultConfig, DiscussionModel } from "./protocol";
-export { EditableVaultConfigSchema, DiscussionModelSchema, EditableBadgeSchema } from "./protocol";
+export type { EditableVaultConfig, DiscussionModel, TaskRolloverMode, ReviewAlgorithm } from "./protocol";
+export { EditableVaultConfigSchema, DiscussionModelSchema, TaskRolloverModeSchema, ReviewAlgorithmSchema, EditableBadgeSchema, TaskStateDefinitionSchema, TaskScopeSchema, CaptureTargetSchema } from "./protocol";
 
 // Protocol schemas
 export {
@@ -25,7 +25,12 @@ export {
   FileEntrySchema,
   // Task schemas
   TaskCategorySchema,
+  TaskPrioritySchema,
   TaskEntrySchema,
+  TaskFieldsSchema,
+  CreateTaskRequestSchema,
+  EditTaskRequestSchema,
+  MoveTaskRequestSchema,
   // Recent notes schemas
   RecentNoteEntrySchema,
   // Recent discussion schemas
@@ -42,9 +47,31 @@ export {
   FileSearchResultSchema,
   ContentSearchResultSchema,
   ContextSnippetSchema,
+  // Link schemas
+  NoteLinkKindSchema,
+  NoteLinkSchema,
+  BrokenLinkSchema,
+  LintFixSchema,
+  VaultLintReportSchema,
+  // File history schemas
+  FileVersionSourceSchema,
+  FileVersionSchema,
+  FileHistorySchema,
+  // Trash schemas
+  TrashItemSchema,
+  TrashListSchema,
 
   // Meeting state schema (used by REST API)
   MeetingStateSchema,
+  // Daily prep schemas (used by REST API)
+  EnergyLevelSchema,
+  CalendarDensitySchema,
+  CommitmentAssessmentSchema,
+  CreateDailyPrepRequestSchema,
+  UpdateDailyPrepRequestSchema,
+  AddCommitmentRequestSchema,
+  UpdateCommitmentRequestSchema,
+  DailyPrepClosureRequestSchema,
   // Spaced repetition card schemas (used by REST API)
   ReviewResponseSchema,
   DueCardSchema,
@@ -53,6 +80,7 @@ export {
   ReviewResultSchema,
   ArchiveResponseSchema,
   DueCardsResponseSchema,
+  CardStatsResponseSchema,
   // Client -> Server schemas (WebSocket only)
   SelectVaultMessageSchema,
   CreateVaultMessageSchema,
@@ -90,6 +118,11 @@ export type {
   FileEntry,
   // Task types
   TaskCategory,
+  TaskPriority,
+  TaskFields,
+  CreateTaskRequest,
+  EditTaskRequest,
+  MoveTaskRequest,
   TaskEntry,
   // Recent notes types
   RecentNoteEntry,
@@ -105,9 +138,31 @@ export type {
   FileSearchResult,
   ContentSearchResult,
   ContextSnippet,
+  // Link types
+  NoteLinkKind,
+  NoteLink,
+  BrokenLink,
+  LintFix,
+  VaultLintReport,
+  // File history types
+  FileVersionSource,
+  FileVersion,
+  FileHistory,
+  // Trash types
+  TrashItem,
+  TrashList,
 
   // Meeting types (used by REST API)
   MeetingState,
+  // Daily prep types (used by REST API)
+  EnergyLevel,
+  CalendarDensity,
+  CommitmentAssessment,
+  CreateDailyPrepRequest,
+  UpdateDailyPrepRequest,
+  AddCommitmentRequest,
+  UpdateCommitmentRequest,
+  DailyPrepClosureRequest,
   // Spaced repetition card types (used by REST API)
   ReviewResponse,
   DueCard,
@@ -116,6 +171,7 @@ export type {
   ReviewResult,
   ArchiveResponse,
   DueCardsResponse,
+  CardStatsResponse,
   // AskUserQuestion types
   AskUserQuestionOption,
   AskUserQuestionItem,
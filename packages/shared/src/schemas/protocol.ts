@@ -42,6 +42,44 @@ export const EditableBadgeSchema = z.object({
   color: BadgeColorSchema,
 });
 
+// =============================================================================
+// Task Config Schemas
+// =============================================================================
+
+/**
+ * Schema for a custom checkbox state (e.g. "-" cancelled, ">" deferred)
+ */
+export const TaskStateDefinitionSchema = z.object({
+  symbol: z.string().length(1, "State symbol must be a single character"),
+  label: z.string().min(1, "State label is required").max(20, "State label must be 20 characters or less"),
+  color: BadgeColorSchema.optional(),
+  done: z.boolean().optional(),
+});
+
+/**
+ * Schema for a folder scanned for tasks and the label its tasks are grouped under
+ */
+export const TaskScopeSchema = z.object({
+  path: z.string().min(1, "Scope path is required"),
+  label: z.string().min(1, "Scope label is required").max(30, "Scope label must be 30 characters or less"),
+  category: z.string().min(1).optional(),
+});
+
+// =============================================================================
+// Capture Target Schema
+// =============================================================================
+
+/**
+ * Schema for a named note captures can be sent to (see CaptureTarget)
+ */
+export const CaptureTargetSchema = z.object({
+  name: z.string().min(1, "Target name is required").max(30, "Target name must be 30 characters or less"),
+  path: z.string().min(1, "Target path is required"),
+  heading: z.string().min(1).optional(),
+  format: z.string().min(1).optional(),
+  position: z.enum(["append", "prepend"]).optional(),
+});
+
 // =============================================================================
 // Editable Vault Config Schema
 // =============================================================================
@@ -51,6 +89,18 @@ export const EditableBadgeSchema = z.object({
  */
 export const DiscussionModelSchema = z.enum(["opus", "sonnet", "haiku"]);
 
+/**
+ * Schema for how unfinished tasks reach today's daily note: moved out of the
+ * earlier note, or copied and marked forwarded ([>]) there
+ */
+export const TaskRolloverModeSchema = z.enum(["move", "copy"]);
+
+/**
+ * Schema for the spaced repetition scheduler: SM-2 (ease factor) or FSRS
+ * (stability and difficulty)
+ */
+export const ReviewAlgorithmSchema = z.enum(["sm2", "fsrs"]);
+
 /**
  * Schema for editable vault configuration fields.
  * All fields are optional to support partial updates.
@@ -68,7 +118,21 @@ export const EditableVaultConfigSchema = z.object({
   badges: z.array(EditableBadgeSchema).max(5).optional(),
   order: z.number().int().min(1).optional(),
   cardsEnabled: z.boolean().optional(),
+  reviewAlgorithm: ReviewAlgorithmSchema.optional(),
   viMode: z.boolean().optional(),
+  trashRetentionDays: z.number().int().min(1).max(90).optional(),
+  taskStates: z.array(TaskStateDefinitionSchema).max(20).optional(),
+  taskStateCycle: z.array(z.string().length(1)).max(20).optional(),
+  taskScopes: z.array(TaskScopeSchema).max(20).optional(),
+  autoCompleteParentTasks: z.boolean().optional(),
+  taskRolloverEnabled: z.boolean().optional(),
+  taskRolloverDays: z.number().int().min(1).max(30).optional(),
+  taskRolloverMode: TaskRolloverModeSchema.optional(),
+  captureTargets: z.array(CaptureTargetSchema).max(20).optional(),
+  dailyNoteFormat: z.string().max(100).optional(),
+  dailyNoteFolder: z.string().max(200).optional(),
+  dailyNoteTemplatePath: z.string().max(200).optional(),
+  meetingWrapUp: z.boolean().optional(),
 });
 
 // =============================================================================
@@ -99,7 +163,21 @@ export const VaultInfoSchema = z.object({
   badges: z.array(BadgeSchema),
   order: z.number(), // Can be Infinity for unset vaults
   cardsEnabled: z.boolean(),
+  reviewAlgorithm: ReviewAlgorithmSchema.optional(),
   viMode: z.boolean(),
+  trashRetentionDays: z.number().int().positive().optional(),
+  taskStates: z.array(TaskStateDefinitionSchema).optional(),
+  taskStateCycle: z.array(z.string().length(1)).optional(),
+  taskScopes: z.array(TaskScopeSchema).optional(),
+  autoCompleteParentTasks: z.boolean().optional(),
+  taskRolloverEnabled: z.boolean().optional(),
+  taskRolloverDays: z.number().int().positive().optional(),
+  taskRolloverMode: TaskRolloverModeSchema.optional(),
+  captureTargets: z.array(CaptureTargetSchema).optional(),
+  dailyNoteFormat: z.string().optional(),
+  dailyNoteFolder: z.string().optional(),
+  dailyNoteTemplatePath: z.string().optional(),
+  meetingWrapUp: z.boolean().optional(),
 });
 
 // =============================================================================
@@ -122,6 +200,7 @@ export const ErrorCodeSchema = z.enum([
   "DIRECTORY_NOT_FOUND",
   "PATH_TRAVERSAL",
   "INVALID_FILE_TYPE",
+  "FILE_CONFLICT",
 ]);
 
 // =============================================================================
@@ -138,18 +217,31 @@ export const FileEntrySchema = z.object({
 });
 
 /**
- * Schema for task category - indicates which directory the task was found in
+ * Schema for task category - indicates which scanned folder the task was found in.
+ * The default folders are "inbox", "projects", and "areas"; vaults with
+ * custom `taskScopes` use their own categories.
  */
-export const TaskCategorySchema = z.enum(["inbox", "projects", "areas"]);
+export const TaskCategorySchema = z.string().min(1, "Category is required");
+
+/**
+ * Schema for task priority (Obsidian Tasks emoji format).
+ * 🔺 highest, ⏫ high, 🔼 medium, 🔽 low, ⏬ lowest; no emoji = normal.
+ */
+export const TaskPrioritySchema = z.enum(["highest", "high", "medium", "low", "lowest"]);
+
+const TaskDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format");
 
 /**
  * Schema for a task entry parsed from markdown files
  * Tasks are lines matching /^\s*- \[(.)\] (.+)$/
+ *
+ * Obsidian Tasks metadata in the text (📅 2026-10-20, ⏫, 🔁 every week, ...)
+ * is parsed into the optional fields below; `text` keeps the raw line text.
  */
 export const TaskEntrySchema = z.object({
   /** Task text content (after checkbox) */
   text: z.string(),
-  /** Checkbox state character: ' ', 'x', '/', '?', 'b', 'f' */
+  /** Checkbox state character (' ', 'x', '/', ... or a custom state symbol) */
   state: z.string().length(1, "State must be a single character"),
   /** Relative file path from content root */
   filePath: z.string().min(1, "File path is required"),
@@ -157,8 +249,71 @@ export const TaskEntrySchema = z.object({
   lineNumber: z.number().int().min(1, "Line number must be at least 1"),
   /** File modification time (Unix timestamp in ms) for sorting */
   fileMtime: z.number().int().min(0),
-  /** Category indicating source directory (inbox, projects, or areas) */
+  /** Category of the scanned folder the task came from (see TaskScope) */
   category: TaskCategorySchema,
+  /** Task text with metadata removed (present only when the text has metadata) */
+  description: z.string().optional(),
+  /** 📅 Due date */
+  dueDate: TaskDateSchema.optional(),
+  /** ⏳ Scheduled date */
+  scheduledDate: TaskDateSchema.optional(),
+  /** 🛫 Start date */
+  startDate: TaskDateSchema.optional(),
+  /** ✅ Completion date */
+  doneDate: TaskDateSchema.optional(),
+  /** Priority; absent means normal */
+  priority: TaskPrioritySchema.optional(),
+  /** 🔁 Recurrence rule, e.g. "every week" */
+  recurrence: z.string().optional(),
+  /** Line number of the task this one is nested under, in the same file */
+  parentLineNumber: z.number().int().min(1).optional(),
+});
+
+/**
+ * Schema for task metadata when creating or editing a task.
+ * Omitted fields are left unchanged; null removes a field.
+ */
+export const TaskFieldsSchema = z.object({
+  dueDate: TaskDateSchema.nullable().optional(),
+  scheduledDate: TaskDateSchema.nullable().optional(),
+  startDate: TaskDateSchema.nullable().optional(),
+  priority: TaskPrioritySchema.nullable().optional(),
+  recurrence: z.string().min(1, "Recurrence cannot be empty").nullable().optional(),
+});
+
+/**
+ * Schema for creating a task. Without a file path, the task goes into
+ * today's daily note. With a heading, it goes at the end of that section.
+ */
+export const CreateTaskRequestSchema = TaskFieldsSchema.extend({
+  /** Task description, without checkbox or metadata */
+  text: z.string().trim().min(1, "Task text is required"),
+  filePath: z.string().min(1).optional(),
+  heading: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Schema for editing a task's text and metadata in place.
+ */
+export const EditTaskRequestSchema = TaskFieldsSchema.extend({
+  filePath: z.string().min(1, "File path is required"),
+  lineNumber: z.number().int().min(1, "Line number must be at least 1"),
+  /** New description; omit to keep the current one */
+  text: z.string().trim().min(1, "Task text cannot be empty").optional(),
+  /** Task text the client last saw on the line; a mismatch is refused */
+  expectedText: z.string().optional(),
+});
+
+/**
+ * Schema for moving a task to another file (optionally under a heading).
+ */
+export const MoveTaskRequestSchema = z.object({
+  filePath: z.string().min(1, "File path is required"),
+  lineNumber: z.number().int().min(1, "Line number must be at least 1"),
+  toFilePath: z.string().min(1, "Destination file path is required"),
+  heading: z.string().trim().min(1).optional(),
+  /** Task text the client last saw on the line; a mismatch is refused */
+  expectedText: z.string().optional(),
 });
 
 /**
@@ -169,6 +324,8 @@ export const RecentNoteEntrySchema = z.object({
   text: z.string(),
   time: z.string().regex(/^\d{2}:\d{2}$/, "Time must be HH:MM format"),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD format"),
+  /** Daily note the entry is in, relative to the content root */
+  path: z.string().optional(),
 });
 
 /**
@@ -244,6 +401,10 @@ export const FileSearchResultSchema = z.object({
   score: z.number(),
   /** Character positions in name that matched the query */
   matchPositions: z.array(z.number()),
+  /** Vault containing the file (cross-vault search only) */
+  vaultId: z.string().optional(),
+  /** Display name of that vault (cross-vault search only) */
+  vaultName: z.string().optional(),
 });
 
 /**
@@ -259,6 +420,12 @@ export const ContentSearchResultSchema = z.object({
   matchCount: z.number().int().min(1),
   /** Context snippets (populated on demand via get_snippets) */
   snippets: z.array(z.lazy(() => ContextSnippetSchema)).optional(),
+  /** Relevance score from the text index (absent for filter-only queries) */
+  score: z.number().optional(),
+  /** Vault containing the file (cross-vault search only) */
+  vaultId: z.string().optional(),
+  /** Display name of that vault (cross-vault search only) */
+  vaultName: z.string().optional(),
 });
 
 /**
@@ -276,6 +443,141 @@ export const ContextSnippetSchema = z.object({
   contextAfter: z.array(z.string()),
 });
 
+// =============================================================================
+// Link Schemas
+// =============================================================================
+
+/**
+ * How a note refers to another note.
+ * "mention" is a plain-text occurrence of the note title (unlinked mention).
+ */
+export const NoteLinkKindSchema = z.enum(["wikilink", "markdown", "mention"]);
+
+/**
+ * Schema for one reference between notes.
+ * Used for backlinks, outgoing links, unresolved links and unlinked mentions.
+ */
+export const NoteLinkSchema = z.object({
+  /** Note containing the reference (relative to content root) */
+  sourcePath: z.string(),
+  /** Link target as written (wikilink or href without #heading) */
+  target: z.string(),
+  /** Note the target resolves to, or null if no such note exists */
+  resolvedPath: z.string().nullable(),
+  /** How the reference is written */
+  kind: NoteLinkKindSchema,
+  /** Whether this is an embed (![[...]] or ![](...)) */
+  embed: z.boolean().optional(),
+  /** Line number of the reference (1-indexed) */
+  line: z.number().int().min(1),
+  /** The line containing the reference, trimmed */
+  context: z.string(),
+});
+
+/**
+ * Schema for a link that doesn't resolve, as reported by vault lint.
+ */
+export const BrokenLinkSchema = NoteLinkSchema.extend({
+  /** Files anywhere in the vault with the target's file name */
+  candidates: z.array(z.string()),
+});
+
+/**
+ * Schema for one rewrite applied by the lint fix endpoint (CLI: vault fix).
+ */
+export const LintFixSchema = z.object({
+  /** Broken target that was rewritten */
+  from: z.string(),
+  /** Path it now points to */
+  to: z.string(),
+  /** Number of notes changed */
+  filesModified: z.number().int().min(0),
+  /** Number of references rewritten */
+  referencesUpdated: z.number().int().min(0),
+});
+
+/**
+ * Schema for a vault lint report.
+ */
+export const VaultLintReportSchema = z.object({
+  /** Links and embeds that don't resolve to any file */
+  brokenLinks: z.array(BrokenLinkSchema),
+  /** Notes no other note links to */
+  orphanNotes: z.array(z.string()),
+  /** Files under the attachment folder that nothing references */
+  unusedAttachments: z.array(z.string()),
+  /** Number of notes scanned */
+  notesScanned: z.number().int().min(0),
+  /** Number of non-note files scanned */
+  attachmentsScanned: z.number().int().min(0),
+  /** Rewrites applied before this report was taken (fix runs only) */
+  fixes: z.array(LintFixSchema).optional(),
+});
+
+// =============================================================================
+// File History Schemas
+// =============================================================================
+
+/**
+ * What caused a file version to be recorded.
+ * - edit: saved from the editor or Pair Writing
+ * - capture: appended to by a capture
+ * - rename: renamed/moved, or links rewritten by a rename elsewhere
+ * - ai: about to be changed by an AI session's Edit/Write tool
+ * - restore: replaced by restoring an older version
+ * - rollover: unfinished tasks rolled over into or out of it
+ */
+export const FileVersionSourceSchema = z.enum(["edit", "capture", "rename", "ai", "restore", "rollover"]);
+
+/**
+ * Schema for one stored version of a file (its content before a change).
+ */
+export const FileVersionSchema = z.object({
+  /** Version ID, sortable by time */
+  id: z.string().min(1),
+  /** When the version was recorded (ISO 8601) */
+  timestamp: z.string(),
+  /** Content size in bytes */
+  size: z.number().int().min(0),
+  /** What was about to change the file */
+  source: FileVersionSourceSchema,
+});
+
+/**
+ * Schema for a file's version history, newest first.
+ */
+export const FileHistorySchema = z.object({
+  path: z.string(),
+  versions: z.array(FileVersionSchema),
+});
+
+// =============================================================================
+// Trash Schemas
+// =============================================================================
+
+/**
+ * Schema for a deleted file or directory held in the vault's trash.
+ */
+export const TrashItemSchema = z.object({
+  /** Trash entry ID, sortable by deletion time */
+  id: z.string().min(1),
+  /** Path the item was deleted from, relative to the content root */
+  originalPath: z.string().min(1),
+  /** Whether the item is a directory */
+  isDirectory: z.boolean(),
+  /** When the item was deleted (ISO 8601) */
+  deletedAt: z.string(),
+});
+
+/**
+ * Schema for the trash listing, newest first.
+ */
+export const TrashListSchema = z.object({
+  items: z.array(TrashItemSchema),
+  /** Days an item is kept before it is purged */
+  retentionDays: z.number().int().positive(),
+});
+
 // =============================================================================
 // REST API Data Schemas
 // =============================================================================
@@ -303,6 +605,78 @@ export const MeetingStateSchema = z.object({
   filePath: z.string().optional(),
   /** ISO 8601 timestamp when meeting started */
   startedAt: z.string().optional(),
+  /** ISO 8601 timestamp of the meeting's last capture */
+  lastCaptureAt: z.string().optional(),
+  /** ISO 8601 timestamp when the meeting was resumed after a daemon restart */
+  resumedAt: z.string().optional(),
+});
+
+/**
+ * Schema for a morning energy self-report.
+ */
+export const EnergyLevelSchema = z.enum(["sharp", "steady", "low"]);
+
+/**
+ * Schema for a morning meeting density self-report.
+ */
+export const CalendarDensitySchema = z.enum(["clear", "scattered", "heavy"]);
+
+/**
+ * Schema for an evening assessment of one commitment.
+ */
+export const CommitmentAssessmentSchema = z.enum(["done", "partial", "blocked", "skipped"]);
+
+const CommitmentTextSchema = z.string().trim().min(1, "Commitment text is required");
+
+/**
+ * Schema for creating today's daily prep (the morning half).
+ */
+export const CreateDailyPrepRequestSchema = z.object({
+  energy: EnergyLevelSchema.optional(),
+  calendar: CalendarDensitySchema.optional(),
+  /** Commitment texts, in order */
+  commitments: z.array(CommitmentTextSchema).default([]),
+});
+
+/**
+ * Schema for changing today's energy or calendar after the fact.
+ */
+export const UpdateDailyPrepRequestSchema = z.object({
+  energy: EnergyLevelSchema.optional(),
+  calendar: CalendarDensitySchema.optional(),
+});
+
+/**
+ * Schema for adding a commitment to today's prep.
+ */
+export const AddCommitmentRequestSchema = z.object({
+  text: CommitmentTextSchema,
+});
+
+/**
+ * Schema for editing one commitment. A null assessment clears it, and an
+ * empty note removes the note.
+ */
+export const UpdateCommitmentRequestSchema = z.object({
+  text: CommitmentTextSchema.optional(),
+  assessment: CommitmentAssessmentSchema.nullable().optional(),
+  note: z.string().trim().optional(),
+});
+
+/**
+ * Schema for closing the day. Assessments, when given, apply to the
+ * commitments in order.
+ */
+export const DailyPrepClosureRequestSchema = z.object({
+  reflection: z.string().trim(),
+  assessments: z
+    .array(
+      z.object({
+        assessment: CommitmentAssessmentSchema.nullable(),
+        note: z.string().trim().optional(),
+      })
+    )
+    .optional(),
 });
 
 // =============================================================================
@@ -326,8 +700,14 @@ export const ReviewResponseSchema = z.enum(["again", "hard", "good", "easy"]);
 export const DueCardSchema = z.object({
   /** Unique card identifier (UUID) */
   id: z.string().uuid(),
-  /** The question to display */
+  /** Card type ("qa" or "cloze") */
+  type: z.string().optional(),
+  /** The question to display (for cloze cards, rendered with blanks) */
   question: z.string().min(1, "Question is required"),
+  /** Text with {{cN::...}} deletions. Cloze cards only. */
+  cloze_text: z.string().optional(),
+  /** Deletion number the card tests. Cloze cards only. */
+  cloze_index: z.number().int().min(1).optional(),
   /** ISO 8601 date when card is due for review */
   next_review: z.string(),
   /** Path to the card file (relative to vault, e.g., 06_Metadata/memory-loop/cards/{id}.md) */
@@ -341,10 +721,16 @@ export const DueCardSchema = z.object({
 export const CardDetailSchema = z.object({
   /** Unique card identifier (UUID) */
   id: z.string().uuid(),
+  /** Card type ("qa" or "cloze") */
+  type: z.string().optional(),
   /** The question to display */
   question: z.string().min(1, "Question is required"),
   /** The answer to reveal */
   answer: z.string().min(1, "Answer is required"),
+  /** Text with {{cN::...}} deletions. Cloze cards only. */
+  cloze_text: z.string().optional(),
+  /** Deletion number the card tests. Cloze cards only. */
+  cloze_index: z.number().int().min(1).optional(),
   /** SM-2 ease factor (default 2.5, adjusted based on performance) */
   ease_factor: z.number().min(1.3),
   /** Days until next review */
@@ -366,6 +752,10 @@ export const CardDetailSchema = z.object({
 export const ReviewRequestSchema = z.object({
   /** User's self-assessment of recall quality */
   response: ReviewResponseSchema,
+  /** When the review was made, for reviews queued offline (defaults to now) */
+  timestamp: z.string().optional(),
+  /** Milliseconds from seeing the question to revealing the answer */
+  timeToAnswerMs: z.number().min(0).optional(),
 });
 
 /**
@@ -405,6 +795,64 @@ export const DueCardsResponseSchema = z.object({
   count: z.number().int().min(0),
 });
 
+/**
+ * Schema for card review stats.
+ * Used in GET /cards/stats response.
+ */
+export const CardStatsResponseSchema = z.object({
+  /** Date the stats were computed for (YYYY-MM-DD) */
+  today: z.string(),
+  summary: z.object({
+    /** Cards in the review rotation */
+    totalCards: z.number().int().min(0),
+    /** Cards due today, including overdue */
+    dueToday: z.number().int().min(0),
+    /** Reviews in the last 30 days */
+    recentReviews: z.number().int().min(0),
+    /** Share of repeat reviews in the last 30 days not answered "again" (0-1) */
+    recentRetention: z.number().nullable(),
+    /** Median time to reveal the answer over the last 30 days */
+    medianTimeToAnswerMs: z.number().nullable(),
+    /** Consecutive days with reviews, ending today or yesterday */
+    currentStreak: z.number().int().min(0),
+  }),
+  /** Reviews per day for the last 30 days, oldest first */
+  daily: z.array(
+    z.object({
+      date: z.string(),
+      reviews: z.number().int().min(0),
+      again: z.number().int().min(0),
+      newCards: z.number().int().min(0),
+    })
+  ),
+  /** True retention by the interval each review tested */
+  retention: z.array(
+    z.object({
+      label: z.string(),
+      minInterval: z.number().int().min(0),
+      maxInterval: z.number().int().min(0).nullable(),
+      reviews: z.number().int().min(0),
+      passed: z.number().int().min(0),
+      retention: z.number().nullable(),
+    })
+  ),
+  /** Cards due on each of the next 30 days, starting today */
+  forecast: z.array(
+    z.object({
+      date: z.string(),
+      due: z.number().int().min(0),
+    })
+  ),
+  /** Reviews per day for the last year, oldest first, with a 0-4 intensity level */
+  heatmap: z.array(
+    z.object({
+      date: z.string(),
+      reviews: z.number().int().min(0),
+      level: z.number().int().min(0).max(4),
+    })
+  ),
+});
+
 // =============================================================================
 // Client -> Server Message Schemas
 // =============================================================================
@@ -651,13 +1099,15 @@ export const SaveCardGeneratorRequirementsMessageSchema = z.object({
 });
 
 /**
- * Client requests to save card generator config (byte limit)
+ * Client requests to save card generator config (byte limit, cloze cards)
  * Response: card_generator_config_saved message
  */
 export const SaveCardGeneratorConfigMessageSchema = z.object({
   type: z.literal("save_card_generator_config"),
   /** Weekly byte limit for card generation */
   weeklyByteLimit: z.number().int().min(102400).max(10485760), // 100KB - 10MB
+  /** Generate cloze cards alongside Q&A cards (unchanged if omitted) */
+  clozeCards: z.boolean().optional(),
 });
 
 /**
@@ -949,6 +1399,8 @@ export const CardGeneratorConfigContentMessageSchema = z.object({
   weeklyByteLimit: z.number().int().min(0),
   /** Bytes used this week */
   weeklyBytesUsed: z.number().int().min(0),
+  /** Whether discovery also generates cloze cards */
+  clozeCards: z.boolean().optional(),
 });
 
 /**
@@ -1051,7 +1503,12 @@ export type FileEntry = z.infer<typeof FileEntrySchema>;
 
 // Task types
 export type TaskCategory = z.infer<typeof TaskCategorySchema>;
+export type TaskPriority = z.infer<typeof TaskPrioritySchema>;
 export type TaskEntry = z.infer<typeof TaskEntrySchema>;
+export type TaskFields = z.infer<typeof TaskFieldsSchema>;
+export type CreateTaskRequest = z.infer<typeof CreateTaskRequestSchema>;
+export type EditTaskRequest = z.infer<typeof EditTaskRequestSchema>;
+export type MoveTaskRequest = z.infer<typeof MoveTaskRequestSchema>;
 
 // Recent notes types
 export type RecentNoteEntry = z.infer<typeof RecentNoteEntrySchema>;
@@ -1073,6 +1530,22 @@ export type FileSearchResult = z.infer<typeof FileSearchResultSchema>;
 export type ContentSearchResult = z.infer<typeof ContentSearchResultSchema>;
 export type ContextSnippet = z.infer<typeof ContextSnippetSchema>;
 
+// Link types
+export type NoteLinkKind = z.infer<typeof NoteLinkKindSchema>;
+export type NoteLink = z.infer<typeof NoteLinkSchema>;
+export type BrokenLink = z.infer<typeof BrokenLinkSchema>;
+export type LintFix = z.infer<typeof LintFixSchema>;
+export type VaultLintReport = z.infer<typeof VaultLintReportSchema>;
+
+// File history types
+export type FileVersionSource = z.infer<typeof FileVersionSourceSchema>;
+export type FileVersion = z.infer<typeof FileVersionSchema>;
+export type FileHistory = z.infer<typeof FileHistorySchema>;
+
+// Trash types
+export type TrashItem = z.infer<typeof TrashItemSchema>;
+export type TrashList = z.infer<typeof TrashListSchema>;
+
 // Badge types
 export type Badge = z.infer<typeof BadgeSchema>;
 export type BadgeColor = z.infer<typeof BadgeColorSchema>;
@@ -1080,11 +1553,23 @@ export type EditableBadge = z.infer<typeof EditableBadgeSchema>;
 
 // Vault config types
 export type DiscussionModel = z.infer<typeof DiscussionModelSchema>;
+export type TaskRolloverMode = z.infer<typeof TaskRolloverModeSchema>;
+export type ReviewAlgorithm = z.infer<typeof ReviewAlgorithmSchema>;
 export type EditableVaultConfig = z.infer<typeof EditableVaultConfigSchema>;
 
 // Meeting types
 export type MeetingState = z.infer<typeof MeetingStateSchema>;
 
+// Daily prep types
+export type EnergyLevel = z.infer<typeof EnergyLevelSchema>;
+export type CalendarDensity = z.infer<typeof CalendarDensitySchema>;
+export type CommitmentAssessment = z.infer<typeof CommitmentAssessmentSchema>;
+export type CreateDailyPrepRequest = z.infer<typeof CreateDailyPrepRequestSchema>;
+export type UpdateDailyPrepRequest = z.infer<typeof UpdateDailyPrepRequestSchema>;
+export type AddCommitmentRequest = z.infer<typeof AddCommitmentRequestSchema>;
+export type UpdateCommitmentRequest = z.infer<typeof UpdateCommitmentRequestSchema>;
+export type DailyPrepClosureRequest = z.infer<typeof DailyPrepClosureRequestSchema>;
+
 // Inspiration types (used by REST API)
 export type InspirationItem = z.infer<typeof InspirationItemSchema>;
 
@@ -1096,6 +1581,7 @@ export type ReviewRequest = z.infer<typeof ReviewRequestSchema>;
 export type ReviewResult = z.infer<typeof ReviewResultSchema>;
 export type ArchiveResponse = z.infer<typeof ArchiveResponseSchema>;
 export type DueCardsResponse = z.infer<typeof DueCardsResponseSchema>;
+export type CardStatsResponse = z.infer<typeof CardStatsResponseSchema>;
 
 // Client message types
 export type SelectVaultMessage = z.infer<typeof SelectVaultMessageSchema>;
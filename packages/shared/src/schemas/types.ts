@@ -30,6 +30,55 @@ export interface Badge {
   color: BadgeColor;
 }
 
+/**
+ * A checkbox state configured in .memory-loop.json.
+ *
+ * @property symbol - Character between the brackets ("x" for "- [x]")
+ * @property label - Name shown in the task menu
+ * @property color - Named color for the state indicator
+ * @property done - Whether tasks in this state count as finished
+ */
+export interface TaskStateDefinition {
+  symbol: string;
+  label: string;
+  color?: BadgeColor;
+  done?: boolean;
+}
+
+/**
+ * A folder scanned for tasks, configured in .memory-loop.json.
+ *
+ * @property path - Folder to scan (relative to contentRoot)
+ * @property label - Heading the folder's tasks are grouped under
+ * @property category - Category ID on task entries (defaults to the label)
+ */
+export interface TaskScope {
+  path: string;
+  label: string;
+  category?: string;
+}
+
+/**
+ * A named place captures can be sent to besides the daily note, configured
+ * in .memory-loop.json.
+ *
+ * @property name - Name shown in the capture dropdown and used by `--target`
+ * @property path - Note to write to (relative to contentRoot); may contain
+ *   {{date}} (YYYY-MM-DD) and {{date:FORMAT}}
+ * @property heading - Section to add entries under (created if missing);
+ *   without one, entries go at the start or end of the note
+ * @property format - Entry template with {{text}}, {{time}}, {{date}}, and {{date:FORMAT}}
+ *   (default: "- [{{time}}] {{text}}")
+ * @property position - Whether entries go at the end or start of the section (default: "append")
+ */
+export interface CaptureTarget {
+  name: string;
+  path: string;
+  heading?: string;
+  format?: string;
+  position?: "append" | "prepend";
+}
+
 /**
  * Information about an Obsidian vault discovered by the backend.
  *
@@ -50,7 +99,20 @@ export interface Badge {
  * @property badges - Custom badges configured in .memory-loop.json
  * @property order - Display order for vault selection (lower values first, Infinity for unset)
  * @property cardsEnabled - Whether spaced repetition card discovery is enabled (default: true)
+ * @property reviewAlgorithm - Scheduler for card reviews, "sm2" or "fsrs" (default: "sm2")
  * @property viMode - Whether vi mode is enabled for Pair Writing editor (default: false)
+ * @property taskStates - Resolved checkbox states for the task list
+ * @property taskStateCycle - Resolved order a task's state cycles through
+ * @property taskScopes - Resolved folders scanned for tasks, in display order
+ * @property autoCompleteParentTasks - Whether completing the last open subtask completes its parent (default: false)
+ * @property taskRolloverEnabled - Whether unfinished tasks roll over to today's daily note each morning (default: false)
+ * @property taskRolloverDays - How many earlier daily notes the rollover looks through (default: 7)
+ * @property taskRolloverMode - Whether rolled-over tasks are moved or copied (default: "move")
+ * @property captureTargets - Named notes captures can be sent to besides the daily note
+ * @property dailyNoteFormat - Moment-style pattern for daily note paths (default: "YYYY-MM-DD")
+ * @property dailyNoteFolder - Folder daily notes live in, relative to the content root (default: the inbox)
+ * @property dailyNoteTemplatePath - Note used as the template for new daily notes
+ * @property meetingWrapUp - Whether stopping a meeting adds an AI summary, decisions, and action items (default: false)
  */
 export interface VaultInfo {
   id: string;
@@ -73,7 +135,21 @@ export interface VaultInfo {
   badges: Badge[];
   order: number;
   cardsEnabled: boolean;
+  reviewAlgorithm?: "sm2" | "fsrs";
   viMode: boolean;
+  trashRetentionDays?: number;
+  taskStates?: TaskStateDefinition[];
+  taskStateCycle?: string[];
+  taskScopes?: TaskScope[];
+  autoCompleteParentTasks?: boolean;
+  taskRolloverEnabled?: boolean;
+  taskRolloverDays?: number;
+  taskRolloverMode?: "move" | "copy";
+  captureTargets?: CaptureTarget[];
+  dailyNoteFormat?: string;
+  dailyNoteFolder?: string;
+  dailyNoteTemplatePath?: string;
+  meetingWrapUp?: boolean;
 }
 
 /**
@@ -167,4 +243,5 @@ export type ErrorCode =
   | "FILE_NOT_FOUND"
   | "DIRECTORY_NOT_FOUND"
   | "PATH_TRAVERSAL"
-  | "INVALID_FILE_TYPE";
+  | "INVALID_FILE_TYPE"
+  | "FILE_CONFLICT";
@@ -0,0 +1,222 @@
+/**
+ * Search Query Parser
+ *
+ * Parses the structured content search syntax used by Recall:
+ *
+ * - `word` / `"exact phrase"`: text that must appear in the note
+ * - `-word` / `-"phrase"`: text that must not appear
+ * - `tag:#project` / `tag:project`: frontmatter or inline tag (nested tags match)
+ * - `path:01_Projects/`: path prefix relative to the content root
+ * - `after:2026-01-01` / `before:2026-02-01`: modified on/after, or before, a date
+ * - `has:task`, `task:open`, `task:done`: notes containing checkbox tasks
+ *
+ * Any filter can be negated with a leading `-`. Unknown `key:value` tokens
+ * are treated as plain text so URLs and times still search normally.
+ *
+ * Pure functions, shared by the daemon (filtering) and web app (highlighting).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A text term that must (or must not) appear in note content. */
+export interface SearchTerm {
+  /** The literal text, without quotes */
+  text: string;
+  /** Whether the term was quoted */
+  phrase: boolean;
+  /** Whether the term is an exclusion */
+  negate: boolean;
+}
+
+/** Task presence filter values accepted by `has:task` and `task:` */
+export type TaskFilterValue = "any" | "open" | "done";
+
+/** A metadata filter parsed from a `key:value` token. */
+export type SearchFilter =
+  | { type: "tag"; value: string; negate: boolean }
+  | { type: "path"; value: string; negate: boolean }
+  | { type: "after"; value: string; negate: boolean }
+  | { type: "before"; value: string; negate: boolean }
+  | { type: "task"; value: TaskFilterValue; negate: boolean };
+
+/** Result of parsing a search query string. */
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  filters: SearchFilter[];
+  /** Human-readable problems with filter values (e.g. malformed dates) */
+  errors: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const TASK_VALUES: Record<string, TaskFilterValue> = {
+  any: "any",
+  open: "open",
+  todo: "open",
+  done: "done",
+  completed: "done",
+};
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface RawToken {
+  negate: boolean;
+  key: string | null;
+  value: string;
+  quoted: boolean;
+}
+
+/**
+ * Splits a query into tokens, respecting double quotes in both bare
+ * phrases (`"a b"`) and filter values (`path:"My Folder/"`).
+ */
+function tokenize(query: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    while (i < query.length && /\s/.test(query[i])) i++;
+    if (i >= query.length) break;
+
+    let negate = false;
+    if (query[i] === "-" && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negate = true;
+      i++;
+    }
+
+    // Optional key: identifier followed by a colon
+    let key: string | null = null;
+    const keyMatch = /^([a-zA-Z]+):(?=\S)/.exec(query.slice(i));
+    if (keyMatch) {
+      key = keyMatch[1].toLowerCase();
+      i += keyMatch[0].length;
+    }
+
+    let value = "";
+    let quoted = false;
+    if (query[i] === '"') {
+      const end = query.indexOf('"', i + 1);
+      quoted = true;
+      if (end === -1) {
+        value = query.slice(i + 1);
+        i = query.length;
+      } else {
+        value = query.slice(i + 1, end);
+        i = end + 1;
+      }
+    } else {
+      const start = i;
+      while (i < query.length && !/\s/.test(query[i])) i++;
+      value = query.slice(start, i);
+    }
+
+    tokens.push({ negate, key, value, quoted });
+  }
+
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Normalizes a tag for comparison: strips the leading `#` and lowercases.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, "").toLowerCase();
+}
+
+function toFilter(token: RawToken, errors: string[]): SearchFilter | null {
+  const { key, value, negate } = token;
+
+  switch (key) {
+    case "tag": {
+      const tag = normalizeTag(value);
+      return tag ? { type: "tag", value: tag, negate } : null;
+    }
+    case "path": {
+      const path = value.replace(/^\/+/, "");
+      return path ? { type: "path", value: path, negate } : null;
+    }
+    case "after":
+    case "before": {
+      if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        errors.push(`Invalid date for ${key}: "${value}" (expected YYYY-MM-DD)`);
+        return null;
+      }
+      return { type: key, value, negate };
+    }
+    case "has": {
+      if (value.toLowerCase() !== "task") {
+        errors.push(`Unknown has: value "${value}" (expected has:task)`);
+        return null;
+      }
+      return { type: "task", value: "any", negate };
+    }
+    case "task": {
+      const taskValue = TASK_VALUES[value.toLowerCase()];
+      if (!taskValue) {
+        errors.push(`Unknown task: value "${value}" (expected open, done or any)`);
+        return null;
+      }
+      return { type: "task", value: taskValue, negate };
+    }
+    default:
+      return null;
+  }
+}
+
+const FILTER_KEYS = new Set(["tag", "path", "after", "before", "has", "task"]);
+
+/**
+ * Parses a content search query into text terms and metadata filters.
+ *
+ * @param query - Raw query string as typed by the user
+ * @returns Parsed terms, filters and any filter value errors
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  const filters: SearchFilter[] = [];
+  const errors: string[] = [];
+
+  for (const token of tokenize(query)) {
+    if (token.key && FILTER_KEYS.has(token.key)) {
+      const filter = toFilter(token, errors);
+      if (filter) filters.push(filter);
+      continue;
+    }
+
+    // Unknown keys are plain text (e.g. "http://", "10:30")
+    const text = token.key
+      ? `${token.key}:${token.quoted ? `"${token.value}"` : token.value}`
+      : token.value;
+    if (!text) continue;
+
+    terms.push({
+      text,
+      phrase: token.quoted && !token.key,
+      negate: token.negate,
+    });
+  }
+
+  return { terms, filters, errors };
+}
+
+/**
+ * Returns the positive text terms of a query, for highlighting matches.
+ * Filters and exclusions are not highlighted.
+ */
+export function getSearchHighlightTerms(query: string): string[] {
+  return parseSearchQuery(query)
+    .terms.filter((term) => !term.negate)
+    .map((term) => term.text);
+}
@@ -0,0 +1,232 @@
+/**
+ * Line-based diff and three-way merge for resolving save conflicts.
+ *
+ * When a save is rejected because the file changed on disk, the client has
+ * three versions: the base it loaded, its own edits, and the disk version.
+ * Edits to different regions merge cleanly; overlapping or adjacent edits
+ * become conflict blocks, as in git.
+ */
+
+/**
+ * One line of a diff between two texts.
+ */
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Result of a three-way merge.
+ */
+export interface MergeResult {
+  /** Merged text, with conflict markers around unresolved regions */
+  text: string;
+  /** Number of conflict blocks in the text */
+  conflicts: number;
+}
+
+/** Conflict marker labels */
+export const CONFLICT_OURS = "<<<<<<< Yours";
+export const CONFLICT_SEPARATOR = "=======";
+export const CONFLICT_THEIRS = ">>>>>>> On disk";
+
+/**
+ * Above this many LCS cells the changed middle is treated as a full
+ * replacement, bounding memory to ~16MB.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * A contiguous change against the base: base lines [start, end) replaced
+ * by `lines`.
+ */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+  side: "ours" | "theirs";
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Diffs two line arrays using a longest common subsequence over the part
+ * between their shared prefix and suffix.
+ */
+function diffLineArrays(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = a.slice(0, prefix).map((text) => ({ type: "same", text }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    for (const text of midA) result.push({ type: "removed", text });
+    for (const text of midB) result.push({ type: "added", text });
+  } else if (n > 0 || m > 0) {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        result.push({ type: "same", text: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        result.push({ type: "removed", text: midA[i++] });
+      } else {
+        result.push({ type: "added", text: midB[j++] });
+      }
+    }
+    while (i < n) result.push({ type: "removed", text: midA[i++] });
+    while (j < m) result.push({ type: "added", text: midB[j++] });
+  }
+
+  for (const text of a.slice(a.length - suffix)) {
+    result.push({ type: "same", text });
+  }
+  return result;
+}
+
+/**
+ * Diffs two texts line by line.
+ *
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @returns Lines in order, marked same, added or removed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  return diffLineArrays(oldText.split("\n"), newText.split("\n"));
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+/**
+ * Collapses a diff against the base into hunks.
+ */
+function toHunks(diff: DiffLine[], side: Hunk["side"]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let current: Hunk | null = null;
+
+  for (const line of diff) {
+    if (line.type === "same") {
+      if (current) hunks.push(current);
+      current = null;
+      baseIndex++;
+      continue;
+    }
+    current ??= { start: baseIndex, end: baseIndex, lines: [], side };
+    if (line.type === "removed") {
+      baseIndex++;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+/**
+ * Applies one side's hunks to the base lines in [start, end).
+ */
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const result: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    result.push(...base.slice(pos, hunk.start), ...hunk.lines);
+    pos = hunk.end;
+  }
+  result.push(...base.slice(pos, end));
+  return result;
+}
+
+/**
+ * Merges two independent edits of the same base text.
+ *
+ * Changes that touch separate regions are combined. Where both sides changed
+ * the same or adjacent lines differently, the region is emitted between
+ * conflict markers with "Yours" first and "On disk" second.
+ *
+ * @param base - Text both sides started from
+ * @param ours - Local edits
+ * @param theirs - Version now on disk
+ * @returns Merged text and the number of conflict blocks
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  if (ours === theirs) return { text: ours, conflicts: 0 };
+  if (ours === base) return { text: theirs, conflicts: 0 };
+  if (theirs === base) return { text: ours, conflicts: 0 };
+
+  const baseLines = base.split("\n");
+  const hunks = [
+    ...toHunks(diffLineArrays(baseLines, ours.split("\n")), "ours"),
+    ...toHunks(diffLineArrays(baseLines, theirs.split("\n")), "theirs"),
+  ].sort((x, y) => x.start - y.start || x.end - y.end);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let pos = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // Cluster hunks that overlap or touch
+    const cluster = [hunks[i]];
+    let clusterEnd = hunks[i].end;
+    i++;
+    while (i < hunks.length && hunks[i].start <= clusterEnd) {
+      clusterEnd = Math.max(clusterEnd, hunks[i].end);
+      cluster.push(hunks[i]);
+      i++;
+    }
+    const clusterStart = cluster[0].start;
+    output.push(...baseLines.slice(pos, clusterStart));
+    pos = clusterEnd;
+
+    const oursHunks = cluster.filter((h) => h.side === "ours");
+    const theirsHunks = cluster.filter((h) => h.side === "theirs");
+    const oursLines = applyHunks(baseLines, clusterStart, clusterEnd, oursHunks);
+    const theirsLines = applyHunks(baseLines, clusterStart, clusterEnd, theirsHunks);
+
+    if (theirsHunks.length === 0 || oursLines.join("\n") === theirsLines.join("\n")) {
+      output.push(...oursLines);
+    } else if (oursHunks.length === 0) {
+      output.push(...theirsLines);
+    } else {
+      conflicts++;
+      output.push(CONFLICT_OURS, ...oursLines, CONFLICT_SEPARATOR, ...theirsLines, CONFLICT_THEIRS);
+    }
+  }
+
+  output.push(...baseLines.slice(pos));
+  return { text: output.join("\n"), conflicts };
+}
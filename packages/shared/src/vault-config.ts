@@ -5,7 +5,9 @@
  * No I/O operations. Used by both daemon and nextjs.
  */
 
-import type { Badge, BadgeColor } from "./schemas/types";
+import type { Badge, BadgeColor, TaskStateDefinition, TaskScope, CaptureTarget, VaultInfo } from "./schemas/types";
+import { DEFAULT_INBOX_PATH } from "./vault-paths";
+import { DEFAULT_DAILY_NOTE_FORMAT } from "./date-utils";
 
 /**
  * Per-vault configuration options.
@@ -30,7 +32,21 @@ export interface VaultConfig {
   discussionModel?: string;
   order?: number;
   cardsEnabled?: boolean;
+  reviewAlgorithm?: string;
   viMode?: boolean;
+  trashRetentionDays?: number;
+  taskStates?: TaskStateDefinition[];
+  taskStateCycle?: string[];
+  taskScopes?: TaskScope[];
+  autoCompleteParentTasks?: boolean;
+  taskRolloverEnabled?: boolean;
+  taskRolloverDays?: number;
+  taskRolloverMode?: string;
+  captureTargets?: CaptureTarget[];
+  dailyNoteFormat?: string;
+  dailyNoteFolder?: string;
+  dailyNoteTemplatePath?: string;
+  meetingWrapUp?: boolean;
 }
 
 // --- Constants ---
@@ -51,7 +67,36 @@ export type DiscussionModelLocal = (typeof VALID_DISCUSSION_MODELS)[number];
 export const DEFAULT_DISCUSSION_MODEL: DiscussionModelLocal = "opus";
 export const DEFAULT_ORDER = 999999;
 export const DEFAULT_CARDS_ENABLED = true;
+export const VALID_REVIEW_ALGORITHMS = ["sm2", "fsrs"] as const;
+export type ReviewAlgorithmLocal = (typeof VALID_REVIEW_ALGORITHMS)[number];
+export const DEFAULT_REVIEW_ALGORITHM: ReviewAlgorithmLocal = "sm2";
 export const DEFAULT_VI_MODE = false;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_AUTO_COMPLETE_PARENT_TASKS = false;
+export const DEFAULT_TASK_ROLLOVER_ENABLED = false;
+export const DEFAULT_TASK_ROLLOVER_DAYS = 7;
+export const VALID_TASK_ROLLOVER_MODES = ["move", "copy"] as const;
+export type TaskRolloverModeLocal = (typeof VALID_TASK_ROLLOVER_MODES)[number];
+export const DEFAULT_TASK_ROLLOVER_MODE: TaskRolloverModeLocal = "move";
+export const DEFAULT_CAPTURE_FORMAT = "- [{{time}}] {{text}}";
+export const DEFAULT_MEETING_WRAP_UP = false;
+
+/**
+ * Checkbox states used when a vault doesn't configure `taskStates`.
+ * ' ' = incomplete, 'x' = complete, '/' = partial,
+ * '?' = needs info, 'b' = bookmarked, 'f' = urgent
+ */
+export const DEFAULT_TASK_STATES: TaskStateDefinition[] = [
+  { symbol: " ", label: "incomplete" },
+  { symbol: "x", label: "complete", done: true },
+  { symbol: "/", label: "partial" },
+  { symbol: "?", label: "needs info" },
+  { symbol: "b", label: "bookmarked" },
+  { symbol: "f", label: "urgent" },
+];
+
+/** Toggle order used when a vault doesn't configure `taskStateCycle`. */
+export const DEFAULT_TASK_STATE_CYCLE = [" ", "x"];
 
 export const VALID_BADGE_COLORS: BadgeColor[] = [
   "black",
@@ -136,12 +181,176 @@ export function resolveCardsEnabled(config: VaultConfig): boolean {
   return config.cardsEnabled ?? DEFAULT_CARDS_ENABLED;
 }
 
+export function resolveReviewAlgorithm(config: VaultConfig): ReviewAlgorithmLocal {
+  const algorithm = config.reviewAlgorithm;
+  if (algorithm && VALID_REVIEW_ALGORITHMS.includes(algorithm as ReviewAlgorithmLocal)) {
+    return algorithm as ReviewAlgorithmLocal;
+  }
+  return DEFAULT_REVIEW_ALGORITHM;
+}
+
 export function resolveViMode(config: VaultConfig): boolean {
   return config.viMode ?? DEFAULT_VI_MODE;
 }
 
+export function resolveTrashRetentionDays(config: VaultConfig): number {
+  return config.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Checkbox states for the vault's task list. Configured states replace the
+ * defaults, except that "[ ]" and "[x]" are always available (toggling a
+ * task relies on them); if the config leaves them out, the defaults are
+ * added in front.
+ */
+export function resolveTaskStates(config: VaultConfig): TaskStateDefinition[] {
+  const configured = config.taskStates ?? [];
+  if (configured.length === 0) {
+    return DEFAULT_TASK_STATES;
+  }
+  const required = DEFAULT_TASK_STATES.slice(0, 2).filter(
+    (state) => !configured.some((s) => s.symbol === state.symbol)
+  );
+  return [...required, ...configured];
+}
+
+/**
+ * Order a task's state cycles through when toggled. Symbols that aren't
+ * configured states are dropped; a cycle needs at least two states, or the
+ * default (open and done) is used.
+ */
+export function resolveTaskStateCycle(config: VaultConfig): string[] {
+  const symbols = resolveTaskStates(config).map((state) => state.symbol);
+  const cycle = (config.taskStateCycle ?? []).filter(
+    (symbol, i, all) => symbols.includes(symbol) && all.indexOf(symbol) === i
+  );
+  return cycle.length >= 2 ? cycle : DEFAULT_TASK_STATE_CYCLE;
+}
+
+/**
+ * Folders scanned for tasks, in display order. Defaults to the inbox,
+ * projects, and areas folders; each scope's category defaults to its label.
+ */
+export function resolveTaskScopes(config: VaultConfig): Required<TaskScope>[] {
+  if (!config.taskScopes || config.taskScopes.length === 0) {
+    return [
+      { category: "inbox", label: "Inbox", path: config.inboxPath ?? DEFAULT_INBOX_PATH },
+      { category: "projects", label: "Projects", path: resolveProjectPath(config) },
+      { category: "areas", label: "Areas", path: resolveAreaPath(config) },
+    ];
+  }
+  return config.taskScopes.map((scope) => ({
+    path: scope.path,
+    label: scope.label,
+    category: scope.category ?? scope.label,
+  }));
+}
+
+export function resolveAutoCompleteParentTasks(config: VaultConfig): boolean {
+  return config.autoCompleteParentTasks ?? DEFAULT_AUTO_COMPLETE_PARENT_TASKS;
+}
+
+export function resolveTaskRolloverEnabled(config: VaultConfig): boolean {
+  return config.taskRolloverEnabled ?? DEFAULT_TASK_ROLLOVER_ENABLED;
+}
+
+export function resolveTaskRolloverDays(config: VaultConfig): number {
+  return config.taskRolloverDays ?? DEFAULT_TASK_ROLLOVER_DAYS;
+}
+
+export function resolveTaskRolloverMode(config: VaultConfig): TaskRolloverModeLocal {
+  const mode = config.taskRolloverMode;
+  if (mode && VALID_TASK_ROLLOVER_MODES.includes(mode as TaskRolloverModeLocal)) {
+    return mode as TaskRolloverModeLocal;
+  }
+  return DEFAULT_TASK_ROLLOVER_MODE;
+}
+
+export function resolveCaptureTargets(config: VaultConfig): CaptureTarget[] {
+  return config.captureTargets ?? [];
+}
+
+export function resolveDailyNoteFormat(config: VaultConfig): string {
+  return config.dailyNoteFormat || DEFAULT_DAILY_NOTE_FORMAT;
+}
+
+/** Daily note folder, or undefined to keep daily notes in the inbox. */
+export function resolveDailyNoteFolder(config: VaultConfig): string | undefined {
+  return config.dailyNoteFolder || undefined;
+}
+
+export function resolveDailyNoteTemplatePath(config: VaultConfig): string | undefined {
+  return config.dailyNoteTemplatePath || undefined;
+}
+
+export function resolveMeetingWrapUp(config: VaultConfig): boolean {
+  return config.meetingWrapUp ?? DEFAULT_MEETING_WRAP_UP;
+}
+
 // --- Utility functions ---
 
+type TaskSettings = Pick<VaultInfo, "taskStates" | "taskStateCycle" | "taskScopes">;
+
+/**
+ * Task settings for a vault after a config save: saved settings are
+ * resolved, the others are kept from the vault.
+ */
+export function resolveTaskConfigUpdate(
+  config: Pick<VaultConfig, "taskStates" | "taskStateCycle" | "taskScopes">,
+  vault: TaskSettings & Pick<VaultInfo, "inboxPath">
+): TaskSettings {
+  const taskStates = config.taskStates !== undefined ? resolveTaskStates(config) : vault.taskStates;
+  const cycleChanged = config.taskStates !== undefined || config.taskStateCycle !== undefined;
+  return {
+    taskStates,
+    taskStateCycle: cycleChanged
+      ? resolveTaskStateCycle({ taskStates, taskStateCycle: config.taskStateCycle ?? vault.taskStateCycle })
+      : vault.taskStateCycle,
+    taskScopes:
+      config.taskScopes !== undefined
+        ? resolveTaskScopes({ inboxPath: vault.inboxPath, taskScopes: config.taskScopes })
+        : vault.taskScopes,
+  };
+}
+
+type DailyNoteSettings = Pick<VaultInfo, "dailyNoteFormat" | "dailyNoteFolder" | "dailyNoteTemplatePath">;
+
+/**
+ * Daily note settings for a vault after a config save. Saved empty values
+ * clear the setting (back to the default format, the inbox, or the
+ * built-in template); settings that weren't saved are kept from the vault.
+ */
+export function resolveDailyNoteConfigUpdate(
+  config: DailyNoteSettings,
+  vault: DailyNoteSettings
+): DailyNoteSettings {
+  return {
+    dailyNoteFormat:
+      config.dailyNoteFormat !== undefined ? resolveDailyNoteFormat(config) : vault.dailyNoteFormat,
+    dailyNoteFolder:
+      config.dailyNoteFolder !== undefined ? resolveDailyNoteFolder(config) : vault.dailyNoteFolder,
+    dailyNoteTemplatePath:
+      config.dailyNoteTemplatePath !== undefined
+        ? resolveDailyNoteTemplatePath(config)
+        : vault.dailyNoteTemplatePath,
+  };
+}
+
+/**
+ * Whether a checkbox symbol is a state that counts as done.
+ * Unknown symbols are treated as open.
+ */
+export function isDoneTaskState(states: TaskStateDefinition[], symbol: string): boolean {
+  return states.some((state) => state.symbol === symbol && state.done === true);
+}
+
+/**
+ * Symbols of the states that count as done.
+ */
+export function getDoneTaskStates(states: TaskStateDefinition[]): string[] {
+  return states.filter((state) => state.done === true).map((state) => state.symbol);
+}
+
 import type { SlashCommand } from "./schemas/protocol";
 
 export function slashCommandsEqual(
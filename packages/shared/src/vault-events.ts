@@ -0,0 +1,24 @@
+/**
+ * Vault Change Events
+ *
+ * Events published by the daemon's filesystem watcher when files in a
+ * vault's content root change on disk, whether through Memory Loop or an
+ * external editor such as Obsidian. Delivered to clients over SSE.
+ */
+
+/** Kind of change observed on disk. */
+export type VaultChangeType = "file-created" | "file-changed" | "file-deleted";
+
+/**
+ * A single change to a file or directory within a vault.
+ */
+export interface VaultChangeEvent {
+  type: VaultChangeType;
+  vaultId: string;
+  /** Path relative to the vault's content root */
+  path: string;
+  /** Whether the path is (or was) a directory */
+  isDirectory: boolean;
+  /** ISO 8601 timestamp of when the change was observed */
+  timestamp: string;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { VaultInfo } from "./schemas/types";
+import { getDailyNoteFilename } from "./date-utils";
 
 /** Default inbox path used when no custom inbox is detected. */
 export const DEFAULT_INBOX_PATH = "00_Inbox";
@@ -85,6 +86,16 @@ export function getVaultInboxPath(vault: VaultInfo): string {
   return `${vault.contentRoot}/${vault.inboxPath}`;
 }
 
+/** Gets the absolute path to the folder daily notes live in (the inbox unless configured). */
+export function getVaultDailyNoteDir(vault: VaultInfo): string {
+  return `${vault.contentRoot}/${vault.dailyNoteFolder ?? vault.inboxPath}`;
+}
+
+/** Gets the absolute path to a vault's daily note for a date, using its daily note format. */
+export function getDailyNotePath(vault: VaultInfo, date: Date = new Date()): string {
+  return `${getVaultDailyNoteDir(vault)}/${getDailyNoteFilename(date, vault.dailyNoteFormat)}`;
+}
+
 /** Gets the absolute path to a vault's metadata directory. */
 export function getVaultMetadataPath(vault: VaultInfo): string {
   return `${vault.contentRoot}/${vault.metadataPath}`;